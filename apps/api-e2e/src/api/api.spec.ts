@@ -1,4 +1,6 @@
 import axios, { AxiosError } from 'axios';
+import { createHmac } from 'crypto';
+import { MockOidcProvider, MockOidcUser } from '../support/mock-oidc-provider';
 
 const API_BASE = '/api/v1';
 
@@ -15,6 +17,29 @@ let authToken: string;
 let userId: string;
 let organizationId: string;
 let taskId: string;
+let labelId: string;
+let reviewStatusId: string;
+let customFieldId: string;
+let blockerTaskId: string;
+let projectId: string;
+
+// Current TOTP code for a base32 secret, as an authenticator app shows it
+function totp(secret: string): string {
+  const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+  let bits = '';
+  for (const char of secret) {
+    bits += alphabet.indexOf(char).toString(2).padStart(5, '0');
+  }
+  const key = Buffer.from(
+    (bits.match(/.{8}/g) ?? []).map((byte) => parseInt(byte, 2))
+  );
+
+  const counter = Buffer.alloc(8);
+  counter.writeUInt32BE(Math.floor(Date.now() / 30000), 4);
+  const hmac = createHmac('sha1', key).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  return String((hmac.readUInt32BE(offset) & 0x7fffffff) % 1000000).padStart(6, '0');
+}
 
 describe('API E2E Tests', () => {
   describe('Health Check', () => {
@@ -92,6 +117,537 @@ describe('API E2E Tests', () => {
         expect(axiosError.response?.status).toBe(401);
       }
     });
+
+    it('POST /api/v1/auth/refresh should rotate the refresh token and refuse the spent one', async () => {
+      const login = await axios.post(`${API_BASE}/auth/login`, {
+        email: testUser.email,
+        password: testUser.password,
+      });
+      const firstRefreshToken = login.data.refresh_token;
+
+      const refreshed = await axios.post(`${API_BASE}/auth/refresh`, {
+        refreshToken: firstRefreshToken,
+      });
+      expect(refreshed.status).toBe(200);
+      expect(refreshed.data.refresh_token).not.toBe(firstRefreshToken);
+
+      // Neither the spent token right after its rotation (a second tab)
+      // nor a secret never issued for the session ends it
+      const sessionId = firstRefreshToken.split('.')[0];
+      for (const refreshToken of [firstRefreshToken, `${sessionId}.guessed`]) {
+        try {
+          await axios.post(`${API_BASE}/auth/refresh`, { refreshToken });
+          fail('Should have thrown an error');
+        } catch (error) {
+          const axiosError = error as AxiosError;
+          expect(axiosError.response?.status).toBe(401);
+        }
+      }
+
+      const profile = await axios.get(`${API_BASE}/auth/profile`, {
+        headers: { Authorization: `Bearer ${refreshed.data.access_token}` },
+      });
+      expect(profile.data.email).toBe(testUser.email);
+    });
+
+    it('GET /api/v1/auth/sessions should list sessions and DELETE should revoke one', async () => {
+      const other = await axios.post(
+        `${API_BASE}/auth/login`,
+        { email: testUser.email, password: testUser.password },
+        { headers: { 'User-Agent': 'e2e-other-device' } }
+      );
+
+      const res = await axios.get(`${API_BASE}/auth/sessions`, {
+        headers: { Authorization: `Bearer ${authToken}` },
+      });
+      expect(res.status).toBe(200);
+      const otherSession = res.data.find(
+        (s: { userAgent: string | null }) => s.userAgent === 'e2e-other-device'
+      );
+      expect(otherSession).toBeDefined();
+      expect(otherSession.current).toBe(false);
+      expect(res.data.filter((s: { current: boolean }) => s.current)).toHaveLength(1);
+
+      const deleted = await axios.delete(
+        `${API_BASE}/auth/sessions/${otherSession.id}`,
+        { headers: { Authorization: `Bearer ${authToken}` } }
+      );
+      expect(deleted.status).toBe(204);
+
+      try {
+        await axios.get(`${API_BASE}/auth/profile`, {
+          headers: { Authorization: `Bearer ${other.data.access_token}` },
+        });
+        fail('Should have thrown an error');
+      } catch (error) {
+        const axiosError = error as AxiosError;
+        expect(axiosError.response?.status).toBe(401);
+      }
+    });
+
+    it('GET /api/v1/auth/login-history should include failed attempts', async () => {
+      const res = await axios.get(`${API_BASE}/auth/login-history`, {
+        headers: { Authorization: `Bearer ${authToken}` },
+      });
+
+      expect(res.status).toBe(200);
+      expect(res.data.some((e: { success: boolean }) => e.success)).toBe(true);
+      expect(
+        res.data.some(
+          (e: { success: boolean; failureReason: string | null }) =>
+            !e.success && e.failureReason === 'invalid_password'
+        )
+      ).toBe(true);
+    });
+
+    it('POST /api/v1/auth/logout should end the session', async () => {
+      const login = await axios.post(`${API_BASE}/auth/login`, {
+        email: testUser.email,
+        password: testUser.password,
+      });
+
+      const res = await axios.post(`${API_BASE}/auth/logout`, {
+        refreshToken: login.data.refresh_token,
+      });
+      expect(res.status).toBe(204);
+
+      try {
+        await axios.post(`${API_BASE}/auth/refresh`, {
+          refreshToken: login.data.refresh_token,
+        });
+        fail('Should have thrown an error');
+      } catch (error) {
+        const axiosError = error as AxiosError;
+        expect(axiosError.response?.status).toBe(401);
+      }
+
+      // Other sessions are unaffected
+      const profile = await axios.get(`${API_BASE}/auth/profile`, {
+        headers: { Authorization: `Bearer ${authToken}` },
+      });
+      expect(profile.status).toBe(200);
+    });
+  });
+
+  describe('Two-Factor Authentication', () => {
+    const mfaUser = {
+      email: `e2e-mfa-${testTimestamp}@test.com`,
+      password: 'TestPassword123!',
+    };
+    let mfaToken: string;
+    let mfaOrgId: string;
+    let secret: string;
+    let enrollmentCode: string;
+    let recoveryCodes: string[];
+
+    const expectStatus = async (request: Promise<unknown>, status: number) => {
+      try {
+        await request;
+        fail('Should have thrown an error');
+      } catch (error) {
+        expect((error as AxiosError).response?.status).toBe(status);
+      }
+    };
+
+    beforeAll(async () => {
+      const res = await axios.post(`${API_BASE}/auth/register`, mfaUser);
+      mfaToken = res.data.access_token;
+
+      const org = await axios.post(
+        `${API_BASE}/organizations`,
+        { name: `E2E MFA Org ${testTimestamp}` },
+        { headers: { Authorization: `Bearer ${mfaToken}` } }
+      );
+      mfaOrgId = org.data.organization.id;
+    });
+
+    it('PATCH /api/v1/organizations/:id should not let an owner without 2FA require it', async () => {
+      await expectStatus(
+        axios.patch(
+          `${API_BASE}/organizations/${mfaOrgId}`,
+          { mfaRequiredRole: 'VIEWER' },
+          { headers: { Authorization: `Bearer ${mfaToken}` } }
+        ),
+        400
+      );
+    });
+
+    it('POST /api/v1/auth/mfa/setup should return a secret and otpauth URI', async () => {
+      const res = await axios.post(
+        `${API_BASE}/auth/mfa/setup`,
+        {},
+        { headers: { Authorization: `Bearer ${mfaToken}` } }
+      );
+
+      expect(res.status).toBe(200);
+      expect(res.data.secret).toMatch(/^[A-Z2-7]{32}$/);
+      expect(res.data.otpauthUri).toContain(`secret=${res.data.secret}`);
+      secret = res.data.secret;
+    });
+
+    it('POST /api/v1/auth/mfa/enable should reject a wrong code', async () => {
+      const wrongCode = totp(secret) === '000000' ? '111111' : '000000';
+
+      await expectStatus(
+        axios.post(
+          `${API_BASE}/auth/mfa/enable`,
+          { code: wrongCode },
+          { headers: { Authorization: `Bearer ${mfaToken}` } }
+        ),
+        400
+      );
+    });
+
+    it('POST /api/v1/auth/mfa/enable should return ten recovery codes', async () => {
+      enrollmentCode = totp(secret);
+      const res = await axios.post(
+        `${API_BASE}/auth/mfa/enable`,
+        { code: enrollmentCode },
+        { headers: { Authorization: `Bearer ${mfaToken}` } }
+      );
+
+      expect(res.status).toBe(200);
+      expect(res.data.recoveryCodes).toHaveLength(10);
+      recoveryCodes = res.data.recoveryCodes;
+
+      const status = await axios.get(`${API_BASE}/auth/mfa`, {
+        headers: { Authorization: `Bearer ${mfaToken}` },
+      });
+      expect(status.data).toMatchObject({ enabled: true, recoveryCodesRemaining: 10 });
+    });
+
+    it('POST /api/v1/auth/login should ask for a code instead of issuing tokens', async () => {
+      const res = await axios.post(`${API_BASE}/auth/login`, mfaUser);
+
+      expect(res.status).toBe(200);
+      expect(res.data.mfa_required).toBe(true);
+      expect(res.data).not.toHaveProperty('access_token');
+
+      // The challenge token is not an access token
+      await expectStatus(
+        axios.get(`${API_BASE}/auth/profile`, {
+          headers: { Authorization: `Bearer ${res.data.mfa_token}` },
+        }),
+        401
+      );
+    });
+
+    it('POST /api/v1/auth/mfa/verify should not accept a code twice', async () => {
+      const login = await axios.post(`${API_BASE}/auth/login`, mfaUser);
+
+      await expectStatus(
+        axios.post(`${API_BASE}/auth/mfa/verify`, {
+          mfaToken: login.data.mfa_token,
+          code: enrollmentCode,
+        }),
+        401
+      );
+    });
+
+    it('POST /api/v1/auth/mfa/verify should accept a recovery code once', async () => {
+      const login = await axios.post(`${API_BASE}/auth/login`, mfaUser);
+      const res = await axios.post(`${API_BASE}/auth/mfa/verify`, {
+        mfaToken: login.data.mfa_token,
+        code: recoveryCodes[0],
+      });
+
+      expect(res.status).toBe(200);
+      expect(res.data).toHaveProperty('access_token');
+      expect(res.data).toHaveProperty('refresh_token');
+
+      const again = await axios.post(`${API_BASE}/auth/login`, mfaUser);
+      await expectStatus(
+        axios.post(`${API_BASE}/auth/mfa/verify`, {
+          mfaToken: again.data.mfa_token,
+          code: recoveryCodes[0],
+        }),
+        401
+      );
+    });
+
+    it('PATCH /api/v1/organizations/:id should let an owner with 2FA require it', async () => {
+      const res = await axios.patch(
+        `${API_BASE}/organizations/${mfaOrgId}`,
+        { mfaRequiredRole: 'ADMIN' },
+        { headers: { Authorization: `Bearer ${mfaToken}` } }
+      );
+
+      expect(res.status).toBe(200);
+      expect(res.data.organization.mfaRequiredRole).toBe('ADMIN');
+    });
+  });
+
+  describe('Personal Access Tokens', () => {
+    const patUser = {
+      email: `e2e-pat-${testTimestamp}@test.com`,
+      password: 'TestPassword123!',
+    };
+    let userToken: string;
+    let patOrgId: string;
+    let otherOrgId: string;
+    let accessToken: string;
+    let accessTokenId: string;
+
+    const expectStatus = async (request: Promise<unknown>, status: number) => {
+      try {
+        await request;
+        fail('Should have thrown an error');
+      } catch (error) {
+        expect((error as AxiosError).response?.status).toBe(status);
+      }
+    };
+
+    const withAccessToken = () => ({
+      headers: { Authorization: `Bearer ${accessToken}` },
+    });
+
+    beforeAll(async () => {
+      const res = await axios.post(`${API_BASE}/auth/register`, patUser);
+      userToken = res.data.access_token;
+
+      const createOrg = (name: string) =>
+        axios.post(
+          `${API_BASE}/organizations`,
+          { name },
+          { headers: { Authorization: `Bearer ${userToken}` } }
+        );
+      patOrgId = (await createOrg(`E2E PAT Org ${testTimestamp}`)).data.organization.id;
+      otherOrgId = (await createOrg(`E2E PAT Other Org ${testTimestamp}`)).data
+        .organization.id;
+    });
+
+    it('POST /api/v1/auth/tokens should return the token once', async () => {
+      const res = await axios.post(
+        `${API_BASE}/auth/tokens`,
+        {
+          name: 'E2E CI',
+          scopes: [{ resource: 'TASK', action: 'CREATE' }],
+          organizationId: patOrgId,
+          expiresInDays: 30,
+        },
+        { headers: { Authorization: `Bearer ${userToken}` } }
+      );
+
+      expect(res.status).toBe(201);
+      expect(res.data.token).toMatch(/^tmpat_/);
+      expect(res.data).not.toHaveProperty('tokenHash');
+      accessToken = res.data.token;
+      accessTokenId = res.data.id;
+    });
+
+    it('POST /api/v1/tasks should accept a token with the TASK:CREATE scope', async () => {
+      const res = await axios.post(
+        `${API_BASE}/tasks`,
+        { title: 'Created by CI', organizationId: patOrgId },
+        withAccessToken()
+      );
+
+      expect(res.status).toBe(201);
+    });
+
+    it('GET /api/v1/tasks should reject permissions outside the token scopes', async () => {
+      await expectStatus(
+        axios.get(`${API_BASE}/tasks?organizationId=${patOrgId}`, withAccessToken()),
+        403
+      );
+    });
+
+    it('POST /api/v1/tasks should reject organizations the token is not limited to', async () => {
+      await expectStatus(
+        axios.post(
+          `${API_BASE}/tasks`,
+          { title: 'Wrong org', organizationId: otherOrgId },
+          withAccessToken()
+        ),
+        403
+      );
+    });
+
+    it('GET /api/v1/auth/profile should not accept a token', async () => {
+      await expectStatus(axios.get(`${API_BASE}/auth/profile`, withAccessToken()), 403);
+    });
+
+    it('GET /api/v1/auth/tokens should list the token with its last use', async () => {
+      const res = await axios.get(`${API_BASE}/auth/tokens`, {
+        headers: { Authorization: `Bearer ${userToken}` },
+      });
+
+      const token = res.data.find((t: { id: string }) => t.id === accessTokenId);
+      expect(token.name).toBe('E2E CI');
+      expect(token.lastUsedAt).not.toBeNull();
+    });
+
+    it('DELETE /api/v1/auth/tokens/:id should stop the token from working', async () => {
+      const res = await axios.delete(`${API_BASE}/auth/tokens/${accessTokenId}`, {
+        headers: { Authorization: `Bearer ${userToken}` },
+      });
+      expect(res.status).toBe(204);
+
+      await expectStatus(
+        axios.post(
+          `${API_BASE}/tasks`,
+          { title: 'After revoke', organizationId: patOrgId },
+          withAccessToken()
+        ),
+        401
+      );
+    });
+  });
+
+  describe('Single Sign-On', () => {
+    // The API has to be served with OIDC_ISSUER pointing at this provider
+    const provider = new MockOidcProvider(
+      Number(process.env.OIDC_MOCK_PORT ?? 3100),
+      process.env.OIDC_CLIENT_ID ?? 'task-manager-e2e'
+    );
+    const ssoUser: MockOidcUser = {
+      sub: `e2e-sso-${testTimestamp}`,
+      email: `e2e-sso-${testTimestamp}@test.com`,
+      givenName: 'Sso',
+      familyName: 'Tester',
+    };
+    let passwordToken: string;
+    let linkedSsoToken: string;
+    let ssoOrgId: string;
+
+    const expectStatus = async (request: Promise<unknown>, status: number) => {
+      try {
+        await request;
+        fail('Should have thrown an error');
+      } catch (error) {
+        expect((error as AxiosError).response?.status).toBe(status);
+      }
+    };
+
+    /**
+     * Follows the redirects of a sign-in through the mock provider and
+     * returns the result the dashboard gets in the URL fragment
+     */
+    const signInWithSso = async (user: MockOidcUser): Promise<URLSearchParams> => {
+      provider.signIn(user);
+      const redirect = {
+        maxRedirects: 0,
+        validateStatus: (status: number) => status === 302,
+      };
+
+      const start = await axios.get(`${API_BASE}/auth/oidc`, redirect);
+      const flowCookie = (start.headers['set-cookie'] ?? [])
+        .map((cookie) => cookie.split(';')[0])
+        .join('; ');
+      const authorize = await axios.get(start.headers['location'], redirect);
+      const callback = await axios.get(authorize.headers['location'], {
+        ...redirect,
+        headers: { Cookie: flowCookie },
+      });
+
+      return new URLSearchParams(new URL(callback.headers['location']).hash.slice(1));
+    };
+
+    beforeAll(async () => {
+      await provider.start();
+    });
+
+    afterAll(async () => {
+      await provider.stop();
+    });
+
+    it('GET /api/v1/auth/oidc/config should report SSO as enabled', async () => {
+      const res = await axios.get(`${API_BASE}/auth/oidc/config`);
+
+      expect(res.data).toEqual({ enabled: true });
+    });
+
+    it('GET /api/v1/auth/oidc/callback should create unknown users just in time', async () => {
+      const result = await signInWithSso(ssoUser);
+      const ssoToken = result.get('access_token') as string;
+      expect(result.get('refresh_token')).toBeTruthy();
+
+      const profile = await axios.get(`${API_BASE}/auth/profile`, {
+        headers: { Authorization: `Bearer ${ssoToken}` },
+      });
+      expect(profile.data.email).toBe(ssoUser.email);
+      expect(profile.data.firstName).toBe('Sso');
+
+      const sessions = await axios.get(`${API_BASE}/auth/sessions`, {
+        headers: { Authorization: `Bearer ${ssoToken}` },
+      });
+      expect(sessions.data[0].authMethod).toBe('SSO');
+    });
+
+    it('GET /api/v1/auth/oidc/callback should link existing users by verified email', async () => {
+      const localUser = {
+        email: `e2e-sso-link-${testTimestamp}@test.com`,
+        password: 'TestPassword123!',
+        firstName: 'Local',
+        lastName: 'User',
+      };
+      const registered = await axios.post(`${API_BASE}/auth/register`, localUser);
+      passwordToken = registered.data.access_token;
+
+      const result = await signInWithSso({
+        sub: `e2e-sso-link-${testTimestamp}`,
+        email: localUser.email.toUpperCase(),
+      });
+      linkedSsoToken = result.get('access_token') as string;
+
+      const profile = await axios.get(`${API_BASE}/auth/profile`, {
+        headers: { Authorization: `Bearer ${linkedSsoToken}` },
+      });
+      expect(profile.data.id).toBe(registered.data.user.id);
+    });
+
+    it('GET /api/v1/auth/oidc/callback should not sign in unverified emails', async () => {
+      const result = await signInWithSso({
+        sub: `e2e-sso-unverified-${testTimestamp}`,
+        email: `e2e-sso-unverified-${testTimestamp}@test.com`,
+        emailVerified: false,
+      });
+
+      expect(result.get('access_token')).toBeNull();
+      expect(result.get('error')).toMatch(/not verified your email/);
+    });
+
+    it('PATCH /api/v1/organizations/:id should not let a password session require SSO', async () => {
+      const org = await axios.post(
+        `${API_BASE}/organizations`,
+        { name: `E2E SSO Org ${testTimestamp}` },
+        { headers: { Authorization: `Bearer ${passwordToken}` } }
+      );
+      ssoOrgId = org.data.organization.id;
+
+      await expectStatus(
+        axios.patch(
+          `${API_BASE}/organizations/${ssoOrgId}`,
+          { ssoRequired: true },
+          { headers: { Authorization: `Bearer ${passwordToken}` } }
+        ),
+        400
+      );
+    });
+
+    it('PATCH /api/v1/organizations/:id should let an owner signed in with SSO require it', async () => {
+      const res = await axios.patch(
+        `${API_BASE}/organizations/${ssoOrgId}`,
+        { ssoRequired: true },
+        { headers: { Authorization: `Bearer ${linkedSsoToken}` } }
+      );
+
+      expect(res.data.organization.ssoRequired).toBe(true);
+    });
+
+    it('GET /api/v1/tasks should only accept SSO sessions once the organization requires it', async () => {
+      await expectStatus(
+        axios.get(`${API_BASE}/tasks?organizationId=${ssoOrgId}`, {
+          headers: { Authorization: `Bearer ${passwordToken}` },
+        }),
+        403
+      );
+
+      const res = await axios.get(`${API_BASE}/tasks?organizationId=${ssoOrgId}`, {
+        headers: { Authorization: `Bearer ${linkedSsoToken}` },
+      });
+      expect(res.status).toBe(200);
+    });
   });
 
   describe('Organizations', () => {
@@ -119,6 +675,40 @@ describe('API E2E Tests', () => {
       expect(res.data.length).toBeGreaterThan(0);
     });
 
+    it('GET /api/v1/tasks should filter by custom field value', async () => {
+      const filter = (value: string) =>
+        encodeURIComponent(JSON.stringify({ [customFieldId]: value }));
+
+      const acme = await axios.get(
+        `${API_BASE}/tasks?organizationId=${organizationId}&customFields=${filter('Acme')}`,
+        { headers: { Authorization: `Bearer ${authToken}` } }
+      );
+      const globex = await axios.get(
+        `${API_BASE}/tasks?organizationId=${organizationId}&customFields=${filter('Globex')}`,
+        { headers: { Authorization: `Bearer ${authToken}` } }
+      );
+
+      expect(acme.data.data.map((task: { id: string }) => task.id)).toContain(taskId);
+      expect(globex.data.data).toHaveLength(0);
+      expect(globex.data.total).toBe(0);
+    });
+
+    it('PUT /api/v1/tasks/:id should reject an unknown option', async () => {
+      try {
+        await axios.put(
+          `${API_BASE}/tasks/${taskId}`,
+          {
+            customFieldValues: { [customFieldId]: 'Initech' },
+            organizationId: organizationId,
+          },
+          { headers: { Authorization: `Bearer ${authToken}` } }
+        );
+        fail('Should have thrown an error');
+      } catch (error) {
+        expect((error as AxiosError).response?.status).toBe(400);
+      }
+    });
+
     it('GET /api/v1/organizations/:id should get organization details', async () => {
       const res = await axios.get(`${API_BASE}/organizations/${organizationId}`, {
         headers: { Authorization: `Bearer ${authToken}` },
@@ -151,6 +741,129 @@ describe('API E2E Tests', () => {
       expect(res.data.length).toBeGreaterThan(0);
       expect(res.data[0].role).toBe('OWNER');
     });
+
+    it('DELETE /api/v1/organizations/:id/members/:userId should keep the last OWNER', async () => {
+      try {
+        await axios.delete(
+          `${API_BASE}/organizations/${organizationId}/members/${userId}`,
+          { headers: { Authorization: `Bearer ${authToken}` } }
+        );
+        fail('Should have thrown an error');
+      } catch (error) {
+        expect((error as AxiosError).response?.status).toBe(400);
+      }
+    });
+  });
+
+  describe('Labels', () => {
+    it('POST /api/v1/organizations/:id/labels should create a label', async () => {
+      const res = await axios.post(
+        `${API_BASE}/organizations/${organizationId}/labels`,
+        { name: 'Work', color: '#6366f1' },
+        { headers: { Authorization: `Bearer ${authToken}` } }
+      );
+
+      expect(res.status).toBe(201);
+      expect(res.data.name).toBe('Work');
+
+      labelId = res.data.id;
+    });
+
+    it('GET /api/v1/organizations/:id/labels should list labels', async () => {
+      const res = await axios.get(
+        `${API_BASE}/organizations/${organizationId}/labels`,
+        { headers: { Authorization: `Bearer ${authToken}` } }
+      );
+
+      expect(res.status).toBe(200);
+      expect(res.data.map((label: { id: string }) => label.id)).toContain(labelId);
+    });
+  });
+
+  describe('Projects', () => {
+    it('POST /api/v1/organizations/:id/projects should create a project', async () => {
+      const res = await axios.post(
+        `${API_BASE}/organizations/${organizationId}/projects`,
+        { key: 'OPS', name: 'Operations' },
+        { headers: { Authorization: `Bearer ${authToken}` } }
+      );
+
+      expect(res.status).toBe(201);
+      expect(res.data.key).toBe('OPS');
+      expect(res.data.archived).toBe(false);
+
+      projectId = res.data.id;
+    });
+
+    it('POST /api/v1/organizations/:id/projects should reject a duplicate key', async () => {
+      try {
+        await axios.post(
+          `${API_BASE}/organizations/${organizationId}/projects`,
+          { key: 'OPS', name: 'Other' },
+          { headers: { Authorization: `Bearer ${authToken}` } }
+        );
+        fail('Should have thrown an error');
+      } catch (error) {
+        const axiosError = error as AxiosError;
+        expect(axiosError.response?.status).toBe(409);
+      }
+    });
+  });
+
+  describe('Workflow', () => {
+    it('GET /api/v1/organizations/:id/statuses should list the default workflow', async () => {
+      const res = await axios.get(
+        `${API_BASE}/organizations/${organizationId}/statuses`,
+        { headers: { Authorization: `Bearer ${authToken}` } }
+      );
+
+      expect(res.status).toBe(200);
+      expect(res.data.map((status: { name: string }) => status.name)).toEqual([
+        'To Do',
+        'In Progress',
+        'Done',
+      ]);
+    });
+
+    it('POST /api/v1/organizations/:id/statuses should add a status', async () => {
+      const res = await axios.post(
+        `${API_BASE}/organizations/${organizationId}/statuses`,
+        { name: 'Review', category: 'IN_PROGRESS', color: '#a855f7' },
+        { headers: { Authorization: `Bearer ${authToken}` } }
+      );
+
+      expect(res.status).toBe(201);
+      expect(res.data.position).toBe(3);
+
+      reviewStatusId = res.data.id;
+    });
+  });
+
+  describe('Custom Fields', () => {
+    it('POST /api/v1/organizations/:id/custom-fields should define a field', async () => {
+      const res = await axios.post(
+        `${API_BASE}/organizations/${organizationId}/custom-fields`,
+        { name: 'Customer', type: 'SINGLE_SELECT', options: ['Acme', 'Globex'] },
+        { headers: { Authorization: `Bearer ${authToken}` } }
+      );
+
+      expect(res.status).toBe(201);
+      expect(res.data.options).toEqual(['Acme', 'Globex']);
+
+      customFieldId = res.data.id;
+    });
+
+    it('GET /api/v1/organizations/:id/custom-fields should list fields', async () => {
+      const res = await axios.get(
+        `${API_BASE}/organizations/${organizationId}/custom-fields`,
+        { headers: { Authorization: `Bearer ${authToken}` } }
+      );
+
+      expect(res.status).toBe(200);
+      expect(res.data.map((field: { id: string }) => field.id)).toEqual([
+        customFieldId,
+      ]);
+    });
   });
 
   describe('Tasks', () => {
@@ -162,7 +875,8 @@ describe('API E2E Tests', () => {
           description: 'This is an E2E test task',
           status: 'TODO',
           priority: 'HIGH',
-          category: 'WORK',
+          labelIds: [labelId],
+          customFieldValues: { [customFieldId]: 'Acme' },
           organizationId: organizationId,
         },
         { headers: { Authorization: `Bearer ${authToken}` } }
@@ -171,10 +885,50 @@ describe('API E2E Tests', () => {
       expect(res.status).toBe(201);
       expect(res.data).toHaveProperty('id');
       expect(res.data.title).toBe(`E2E Test Task ${testTimestamp}`);
+      expect(res.data.labels[0].id).toBe(labelId);
+      expect(res.data.customFieldValues).toEqual({ [customFieldId]: 'Acme' });
+      expect(res.data.assignees.map((u: { id: string }) => u.id)).toEqual([userId]);
       
       taskId = res.data.id;
     });
 
+    it('PUT /api/v1/tasks/:id should reject assignees from outside the organization', async () => {
+      try {
+        await axios.put(
+          `${API_BASE}/tasks/${taskId}`,
+          { assigneeIds: [userId, '00000000-0000-4000-8000-000000000000'] },
+          { headers: { Authorization: `Bearer ${authToken}` } }
+        );
+        fail('Should have thrown an error');
+      } catch (error) {
+        expect((error as AxiosError).response?.status).toBe(400);
+      }
+    });
+
+    it('POST /api/v1/tasks should number tasks within a project', async () => {
+      const headers = { Authorization: `Bearer ${authToken}` };
+
+      const first = await axios.post(
+        `${API_BASE}/tasks`,
+        { title: `Project Task A ${testTimestamp}`, organizationId, projectId },
+        { headers }
+      );
+      const second = await axios.post(
+        `${API_BASE}/tasks`,
+        { title: `Project Task B ${testTimestamp}`, organizationId, projectId },
+        { headers }
+      );
+
+      expect(first.data.key).toBe('OPS-1');
+      expect(second.data.key).toBe('OPS-2');
+
+      const scoped = await axios.get(
+        `${API_BASE}/tasks?organizationId=${organizationId}&projectId=${projectId}`,
+        { headers }
+      );
+      expect(scoped.data.data.map((t: { key: string }) => t.key).sort()).toEqual(['OPS-1', 'OPS-2']);
+    });
+
     it('GET /api/v1/tasks should list tasks for organization', async () => {
       const res = await axios.get(
         `${API_BASE}/tasks?organizationId=${organizationId}`,
@@ -182,8 +936,65 @@ describe('API E2E Tests', () => {
       );
 
       expect(res.status).toBe(200);
-      expect(Array.isArray(res.data)).toBe(true);
-      expect(res.data.length).toBeGreaterThan(0);
+      expect(Array.isArray(res.data.data)).toBe(true);
+      expect(res.data.data.length).toBeGreaterThan(0);
+      expect(res.data.total).toBe(res.data.data.length);
+      expect(res.data.nextCursor).toBeNull();
+    });
+
+    it('GET /api/v1/tasks should filter, sort and page through tasks', async () => {
+      const headers = { Authorization: `Bearer ${authToken}` };
+      for (const title of ['Paging alpha', 'Paging beta', 'Paging gamma']) {
+        await axios.post(
+          `${API_BASE}/tasks`,
+          { title, organizationId, priority: 'HIGH' },
+          { headers }
+        );
+      }
+
+      const query = `organizationId=${organizationId}&search=paging&priorities=HIGH&sortBy=title&limit=2`;
+      const first = await axios.get(`${API_BASE}/tasks?${query}`, { headers });
+      expect(first.data.total).toBe(3);
+      expect(first.data.data.map((t: { title: string }) => t.title)).toEqual([
+        'Paging alpha',
+        'Paging beta',
+      ]);
+
+      const second = await axios.get(
+        `${API_BASE}/tasks?${query}&cursor=${first.data.nextCursor}`,
+        { headers }
+      );
+      expect(second.data.data.map((t: { title: string }) => t.title)).toEqual(['Paging gamma']);
+      expect(second.data.nextCursor).toBeNull();
+    });
+
+    it('PATCH /api/v1/tasks/:id/move should reorder tasks within a column', async () => {
+      const headers = { Authorization: `Bearer ${authToken}` };
+      const ids: string[] = [];
+      for (const title of ['Ordering one', 'Ordering two', 'Ordering three']) {
+        const res = await axios.post(`${API_BASE}/tasks`, { title, organizationId }, { headers });
+        ids.push(res.data.id);
+      }
+
+      const query = `organizationId=${organizationId}&search=ordering&sortBy=manual`;
+      const titles = async () =>
+        (await axios.get(`${API_BASE}/tasks?${query}`, { headers })).data.data.map(
+          (t: { title: string }) => t.title
+        );
+
+      // New tasks go to the top of their column
+      expect(await titles()).toEqual(['Ordering three', 'Ordering two', 'Ordering one']);
+
+      const moved = await axios.patch(
+        `${API_BASE}/tasks/${ids[2]}/move`,
+        { afterTaskId: ids[0] },
+        { headers }
+      );
+      expect(moved.status).toBe(200);
+      expect(await titles()).toEqual(['Ordering two', 'Ordering one', 'Ordering three']);
+
+      await axios.patch(`${API_BASE}/tasks/${ids[0]}/move`, { beforeTaskId: ids[1] }, { headers });
+      expect(await titles()).toEqual(['Ordering one', 'Ordering two', 'Ordering three']);
     });
 
     it('PUT /api/v1/tasks/:id should update a task', async () => {
@@ -200,6 +1011,377 @@ describe('API E2E Tests', () => {
       expect(res.data.status).toBe('IN_PROGRESS');
     });
 
+    it('PUT /api/v1/tasks/:id should move a task to a workflow status', async () => {
+      const res = await axios.put(
+        `${API_BASE}/tasks/${taskId}`,
+        {
+          statusId: reviewStatusId,
+          organizationId: organizationId,
+        },
+        { headers: { Authorization: `Bearer ${authToken}` } }
+      );
+
+      expect(res.status).toBe(200);
+      expect(res.data.statusId).toBe(reviewStatusId);
+      expect(res.data.status).toBe('IN_PROGRESS');
+    });
+
+    it('POST /api/v1/tasks/:id/links should link a blocking task', async () => {
+      const blocker = await axios.post(
+        `${API_BASE}/tasks`,
+        { title: `E2E Blocker ${testTimestamp}`, organizationId },
+        { headers: { Authorization: `Bearer ${authToken}` } }
+      );
+      blockerTaskId = blocker.data.id;
+
+      const res = await axios.post(
+        `${API_BASE}/tasks/${blockerTaskId}/links`,
+        { targetTaskId: taskId, type: 'BLOCKS' },
+        { headers: { Authorization: `Bearer ${authToken}` } }
+      );
+
+      expect(res.status).toBe(201);
+      expect(res.data.sourceTaskId).toBe(blockerTaskId);
+      expect(res.data.targetTaskId).toBe(taskId);
+    });
+
+    it('POST /api/v1/tasks/:id/links should reject a blocking cycle', async () => {
+      try {
+        await axios.post(
+          `${API_BASE}/tasks/${taskId}/links`,
+          { targetTaskId: blockerTaskId, type: 'BLOCKS' },
+          { headers: { Authorization: `Bearer ${authToken}` } }
+        );
+        fail('Should have thrown an error');
+      } catch (error) {
+        const axiosError = error as AxiosError;
+        expect(axiosError.response?.status).toBe(400);
+      }
+    });
+
+    it('GET /api/v1/tasks/:id/links should list links in both directions', async () => {
+      const res = await axios.get(`${API_BASE}/tasks/${taskId}/links`, {
+        headers: { Authorization: `Bearer ${authToken}` },
+      });
+
+      expect(res.status).toBe(200);
+      expect(res.data).toHaveLength(1);
+      expect(res.data[0].sourceTask.id).toBe(blockerTaskId);
+    });
+
+    it('GET /api/v1/tasks/:id/watchers should include the creator', async () => {
+      const res = await axios.get(`${API_BASE}/tasks/${taskId}/watchers`, {
+        headers: { Authorization: `Bearer ${authToken}` },
+      });
+
+      expect(res.status).toBe(200);
+      expect(res.data.map((w: { userId: string }) => w.userId)).toContain(userId);
+    });
+
+    it('DELETE and POST /api/v1/tasks/:id/watchers should unwatch and watch again', async () => {
+      const unwatched = await axios.delete(`${API_BASE}/tasks/${taskId}/watchers`, {
+        headers: { Authorization: `Bearer ${authToken}` },
+      });
+      expect(unwatched.data.map((w: { userId: string }) => w.userId)).not.toContain(userId);
+
+      const watched = await axios.post(
+        `${API_BASE}/tasks/${taskId}/watchers`,
+        {},
+        { headers: { Authorization: `Bearer ${authToken}` } }
+      );
+      expect(watched.status).toBe(201);
+      expect(watched.data.map((w: { userId: string }) => w.userId)).toContain(userId);
+    });
+
+    it('GET /api/v1/tasks/:id/history should list the field changes', async () => {
+      const res = await axios.get(`${API_BASE}/tasks/${taskId}/history`, {
+        headers: { Authorization: `Bearer ${authToken}` },
+      });
+
+      expect(res.status).toBe(200);
+      expect(res.data.activities[0].action).toBe('CREATED');
+      const moved = res.data.activities.find((a: { changes: { field: string; to: unknown }[] }) =>
+        a.changes.some((c) => c.field === 'statusId' && c.to === reviewStatusId)
+      );
+      expect(moved.actorId).toBe(userId);
+      expect(res.data.reopenCount).toBe(0);
+    });
+
+    it('POST /api/v1/tasks/bulk should change several tasks and report each', async () => {
+      const created = await Promise.all(
+        [1, 2].map((n) =>
+          axios.post(
+            `${API_BASE}/tasks`,
+            { title: `E2E Bulk ${n} ${testTimestamp}`, organizationId },
+            { headers: { Authorization: `Bearer ${authToken}` } }
+          )
+        )
+      );
+      const taskIds = created.map((res) => res.data.id);
+
+      const updated = await axios.post(
+        `${API_BASE}/tasks/bulk`,
+        { organizationId, taskIds, action: 'UPDATE', priority: 'URGENT' },
+        { headers: { Authorization: `Bearer ${authToken}` } }
+      );
+      expect(updated.status).toBe(200);
+      expect(updated.data).toHaveLength(2);
+      expect(updated.data.every((r: { success: boolean }) => r.success)).toBe(true);
+      expect(updated.data[0].task.priority).toBe('URGENT');
+
+      const deleted = await axios.post(
+        `${API_BASE}/tasks/bulk`,
+        { organizationId, taskIds, action: 'DELETE' },
+        { headers: { Authorization: `Bearer ${authToken}` } }
+      );
+      expect(deleted.data.every((r: { success: boolean }) => r.success)).toBe(true);
+    });
+
+    it('POST /api/v1/tasks/bulk should reject tasks outside the organization', async () => {
+      try {
+        await axios.post(
+          `${API_BASE}/tasks/bulk`,
+          {
+            organizationId,
+            taskIds: [taskId, '00000000-0000-4000-8000-000000000000'],
+            action: 'UPDATE',
+            priority: 'LOW',
+          },
+          { headers: { Authorization: `Bearer ${authToken}` } }
+        );
+        fail('Should have thrown an error');
+      } catch (error) {
+        const axiosError = error as AxiosError;
+        expect(axiosError.response?.status).toBe(400);
+      }
+    });
+
+    it('GET /api/v1/tasks should count open blockers', async () => {
+      const res = await axios.get(
+        `${API_BASE}/tasks?organizationId=${organizationId}`,
+        { headers: { Authorization: `Bearer ${authToken}` } }
+      );
+
+      const task = res.data.data.find((t: { id: string }) => t.id === taskId);
+      expect(task.openBlockerCount).toBe(1);
+    });
+
+    it('PUT /api/v1/tasks/:id/recurrence should make a task repeat', async () => {
+      const res = await axios.put(
+        `${API_BASE}/tasks/${taskId}/recurrence`,
+        { rule: 'FREQ=weekly;BYDAY=FR,MO', startsAt: '2030-01-07T09:00:00.000Z' },
+        { headers: { Authorization: `Bearer ${authToken}` } }
+      );
+
+      expect(res.status).toBe(200);
+      expect(res.data.rule).toBe('FREQ=WEEKLY;INTERVAL=1;BYDAY=MO,FR');
+      expect(res.data.nextOccurrenceAt).toBe('2030-01-11T09:00:00.000Z');
+    });
+
+    it('GET /api/v1/tasks/:id/recurrence should return the series', async () => {
+      const res = await axios.get(`${API_BASE}/tasks/${taskId}/recurrence`, {
+        headers: { Authorization: `Bearer ${authToken}` },
+      });
+
+      expect(res.status).toBe(200);
+      expect(res.data.templateTaskId).toBe(taskId);
+    });
+
+    it('PUT /api/v1/tasks/:id/recurrence should reject an unsupported rule', async () => {
+      try {
+        await axios.put(
+          `${API_BASE}/tasks/${taskId}/recurrence`,
+          { rule: 'FREQ=YEARLY' },
+          { headers: { Authorization: `Bearer ${authToken}` } }
+        );
+        fail('Should have thrown an error');
+      } catch (error) {
+        const axiosError = error as AxiosError;
+        expect(axiosError.response?.status).toBe(400);
+      }
+    });
+
+    it('POST /api/v1/tasks/:id/worklogs should log time manually', async () => {
+      const res = await axios.post(
+        `${API_BASE}/tasks/${taskId}/worklogs`,
+        { startedAt: '2030-01-07T09:00:00.000Z', durationMinutes: 90, note: 'Kickoff' },
+        { headers: { Authorization: `Bearer ${authToken}` } }
+      );
+
+      expect(res.status).toBe(201);
+      expect(res.data.durationSeconds).toBe(5400);
+      expect(res.data.endedAt).toBe('2030-01-07T10:30:00.000Z');
+    });
+
+    it('POST /api/v1/tasks/:id/worklogs/timer should start a timer', async () => {
+      const res = await axios.post(
+        `${API_BASE}/tasks/${taskId}/worklogs/timer`,
+        {},
+        { headers: { Authorization: `Bearer ${authToken}` } }
+      );
+
+      expect(res.status).toBe(201);
+      expect(res.data.endedAt).toBeNull();
+
+      const running = await axios.get(`${API_BASE}/worklogs/timer`, {
+        headers: { Authorization: `Bearer ${authToken}` },
+      });
+      expect(running.data.taskId).toBe(taskId);
+    });
+
+    it('POST /api/v1/worklogs/timer/stop should stop the running timer', async () => {
+      const res = await axios.post(
+        `${API_BASE}/worklogs/timer/stop`,
+        {},
+        { headers: { Authorization: `Bearer ${authToken}` } }
+      );
+
+      expect(res.status).toBe(201);
+      expect(res.data.endedAt).not.toBeNull();
+    });
+
+    it('GET /api/v1/tasks should include time spent', async () => {
+      const res = await axios.get(
+        `${API_BASE}/tasks?organizationId=${organizationId}`,
+        { headers: { Authorization: `Bearer ${authToken}` } }
+      );
+
+      const task = res.data.data.find((t: { id: string }) => t.id === taskId);
+      expect(task.timeSpentSeconds).toBeGreaterThanOrEqual(5400);
+    });
+
+    it('GET /api/v1/worklogs/timesheet/export should return CSV', async () => {
+      const res = await axios.get(
+        `${API_BASE}/worklogs/timesheet/export?organizationId=${organizationId}&from=2030-01-07T00:00:00.000Z`,
+        { headers: { Authorization: `Bearer ${authToken}` } }
+      );
+
+      expect(res.status).toBe(200);
+      expect(res.headers['content-type']).toContain('text/csv');
+      expect(res.data).toContain('2030-01-07,');
+    });
+
+    it('PUT /api/v1/tasks/:id should set an estimate', async () => {
+      const res = await axios.put(
+        `${API_BASE}/tasks/${taskId}`,
+        { estimate: 3, organizationId: organizationId },
+        { headers: { Authorization: `Bearer ${authToken}` } }
+      );
+
+      expect(res.status).toBe(200);
+      expect(res.data.estimate).toBe(3);
+    });
+
+    it('POST /api/v1/organizations/:id/sprints should plan, start and close a sprint', async () => {
+      const headers = { Authorization: `Bearer ${authToken}` };
+      const sprintsUrl = `${API_BASE}/organizations/${organizationId}/sprints`;
+
+      const created = await axios.post(
+        sprintsUrl,
+        {
+          name: `Sprint ${testTimestamp}`,
+          startDate: '2030-01-07T00:00:00.000Z',
+          endDate: '2030-01-21T00:00:00.000Z',
+        },
+        { headers }
+      );
+      expect(created.status).toBe(201);
+      expect(created.data.state).toBe('PLANNED');
+      const sprintId = created.data.id;
+
+      await axios.post(`${sprintsUrl}/${sprintId}/tasks`, { taskIds: [taskId] }, { headers });
+
+      const started = await axios.post(`${sprintsUrl}/${sprintId}/start`, {}, { headers });
+      expect(started.data.state).toBe('ACTIVE');
+      expect(started.data.summary.taskCount).toBe(1);
+      expect(started.data.summary.totalEstimate).toBe(3);
+
+      const closed = await axios.post(`${sprintsUrl}/${sprintId}/close`, {}, { headers });
+      expect(closed.data.state).toBe('CLOSED');
+
+      // The unfinished task went back to the backlog
+      const tasks = await axios.get(`${API_BASE}/tasks?organizationId=${organizationId}`, { headers });
+      const task = tasks.data.data.find((t: { id: string }) => t.id === taskId);
+      expect(task.sprintId).toBeNull();
+    });
+
+    it('GET /api/v1/tasks/:id should return a task', async () => {
+      const res = await axios.get(`${API_BASE}/tasks/${taskId}`, {
+        headers: { Authorization: `Bearer ${authToken}` },
+      });
+
+      expect(res.status).toBe(200);
+      expect(res.data.id).toBe(taskId);
+      expect(res.data).toHaveProperty('checklistProgress');
+    });
+
+    it('GET /api/v1/search should find tasks by title prefix and by comment', async () => {
+      const headers = { Authorization: `Bearer ${authToken}` };
+      const created = await axios.post(
+        `${API_BASE}/tasks`,
+        {
+          title: `Descale kettle ${testTimestamp}`,
+          description: 'The office kettle needs descaling',
+          organizationId,
+        },
+        { headers }
+      );
+      const searchTaskId = created.data.id;
+      await axios.post(
+        `${API_BASE}/tasks/${searchTaskId}/comments`,
+        { body: 'The thermostat is broken as well', organizationId },
+        { headers }
+      );
+
+      const byTitle = await axios.get(`${API_BASE}/search`, {
+        headers,
+        params: { q: `kett ${testTimestamp}` },
+      });
+      expect(byTitle.status).toBe(200);
+      expect(byTitle.data[0].taskId).toBe(searchTaskId);
+      expect(byTitle.data[0].titleHighlight).toContain('<mark>kettle</mark>');
+      expect(byTitle.data[0].snippet).toContain('<mark>kettle</mark>');
+
+      const byComment = await axios.get(`${API_BASE}/search`, {
+        headers,
+        params: { q: 'thermostat', organizationId },
+      });
+      const hit = byComment.data.find((h: { taskId: string }) => h.taskId === searchTaskId);
+      expect(hit.commentId).toBeTruthy();
+      expect(hit.snippet).toContain('<mark>thermostat</mark>');
+    });
+
+    it('saved views should be created, listed and deleted', async () => {
+      const headers = { Authorization: `Bearer ${authToken}` };
+      const viewsUrl = `${API_BASE}/organizations/${organizationId}/views`;
+
+      const created = await axios.post(
+        viewsUrl,
+        {
+          name: `Kettle work ${testTimestamp}`,
+          filters: { search: 'kettle', labelIds: [] },
+          sortBy: 'priority',
+          visibility: 'ORGANIZATION',
+        },
+        { headers }
+      );
+      expect(created.status).toBe(201);
+      expect(created.data.filters).toEqual({ search: 'kettle' });
+
+      const listed = await axios.get(viewsUrl, { headers });
+      expect(listed.data.map((v: { id: string }) => v.id)).toContain(created.data.id);
+
+      try {
+        await axios.post(viewsUrl, { name: created.data.name, filters: {} }, { headers });
+        fail('Should have thrown an error');
+      } catch (error) {
+        expect((error as AxiosError).response?.status).toBe(409);
+      }
+
+      const deleted = await axios.delete(`${viewsUrl}/${created.data.id}`, { headers });
+      expect(deleted.status).toBe(200);
+    });
+
     it('DELETE /api/v1/tasks/:id should soft delete a task', async () => {
       const res = await axios.delete(`${API_BASE}/tasks/${taskId}`, {
         headers: { Authorization: `Bearer ${authToken}` },
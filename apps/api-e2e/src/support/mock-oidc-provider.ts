@@ -0,0 +1,186 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { createHash, generateKeyPairSync, randomBytes, sign } from 'crypto';
+
+/** The user the mock provider signs in on the next authorization request */
+export interface MockOidcUser {
+  sub: string;
+  email: string;
+  emailVerified?: boolean;
+  givenName?: string;
+  familyName?: string;
+}
+
+interface PendingCode {
+  user: MockOidcUser;
+  clientId: string;
+  redirectUri: string;
+  nonce: string;
+  codeChallenge: string;
+}
+
+/**
+ * Minimal OpenID Connect provider for the e2e suite: discovery, an
+ * authorization endpoint that signs in whoever signIn() was last called
+ * with, a token endpoint enforcing PKCE (S256) and a JWKS endpoint. Serve
+ * the API with OIDC_ISSUER pointing at it (see the README).
+ */
+export class MockOidcProvider {
+  readonly issuer: string;
+
+  private readonly server: Server;
+  private readonly keys = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  private readonly keyId = randomBytes(8).toString('hex');
+  private readonly codes = new Map<string, PendingCode>();
+  private user: MockOidcUser | null = null;
+
+  constructor(
+    private readonly port: number,
+    private readonly clientId: string
+  ) {
+    this.issuer = `http://localhost:${port}`;
+    this.server = createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        json(res, 500, { error: 'server_error', error_description: String(error) });
+      });
+    });
+  }
+
+  start(): Promise<void> {
+    return new Promise((resolve) => this.server.listen(this.port, resolve));
+  }
+
+  stop(): Promise<void> {
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+
+  signIn(user: MockOidcUser): void {
+    this.user = user;
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', this.issuer);
+
+    switch (`${req.method} ${url.pathname}`) {
+      case 'GET /.well-known/openid-configuration':
+        return json(res, 200, {
+          issuer: this.issuer,
+          authorization_endpoint: `${this.issuer}/authorize`,
+          token_endpoint: `${this.issuer}/token`,
+          jwks_uri: `${this.issuer}/jwks`,
+          response_types_supported: ['code'],
+          subject_types_supported: ['public'],
+          id_token_signing_alg_values_supported: ['RS256'],
+          code_challenge_methods_supported: ['S256'],
+        });
+      case 'GET /jwks':
+        return json(res, 200, {
+          keys: [
+            {
+              ...this.keys.publicKey.export({ format: 'jwk' }),
+              kid: this.keyId,
+              use: 'sig',
+              alg: 'RS256',
+            },
+          ],
+        });
+      case 'GET /authorize':
+        return this.authorize(url.searchParams, res);
+      case 'POST /token':
+        return this.token(new URLSearchParams(await readBody(req)), res);
+      default:
+        return json(res, 404, { error: 'not_found' });
+    }
+  }
+
+  private authorize(params: URLSearchParams, res: ServerResponse): void {
+    const redirectUri = params.get('redirect_uri');
+    if (params.get('client_id') !== this.clientId || !redirectUri) {
+      return json(res, 400, { error: 'invalid_client' });
+    }
+
+    const callback = new URL(redirectUri);
+    callback.searchParams.set('state', params.get('state') ?? '');
+
+    if (
+      params.get('response_type') !== 'code' ||
+      params.get('code_challenge_method') !== 'S256' ||
+      !params.get('code_challenge')
+    ) {
+      callback.searchParams.set('error', 'invalid_request');
+    } else if (!this.user) {
+      callback.searchParams.set('error', 'access_denied');
+    } else {
+      const code = randomBytes(16).toString('hex');
+      this.codes.set(code, {
+        user: this.user,
+        clientId: this.clientId,
+        redirectUri,
+        nonce: params.get('nonce') ?? '',
+        codeChallenge: params.get('code_challenge') ?? '',
+      });
+      callback.searchParams.set('code', code);
+    }
+
+    res.writeHead(302, { Location: callback.toString() });
+    res.end();
+  }
+
+  private token(params: URLSearchParams, res: ServerResponse): void {
+    const code = params.get('code') ?? '';
+    const pending = this.codes.get(code);
+    // Codes work once
+    this.codes.delete(code);
+
+    const verifier = params.get('code_verifier') ?? '';
+    if (
+      params.get('grant_type') !== 'authorization_code' ||
+      !pending ||
+      params.get('client_id') !== pending.clientId ||
+      params.get('redirect_uri') !== pending.redirectUri ||
+      createHash('sha256').update(verifier).digest('base64url') !== pending.codeChallenge
+    ) {
+      return json(res, 400, { error: 'invalid_grant' });
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    json(res, 200, {
+      access_token: randomBytes(16).toString('hex'),
+      token_type: 'Bearer',
+      expires_in: 300,
+      id_token: this.signJwt({
+        iss: this.issuer,
+        aud: pending.clientId,
+        sub: pending.user.sub,
+        iat: now,
+        exp: now + 300,
+        nonce: pending.nonce,
+        email: pending.user.email,
+        email_verified: pending.user.emailVerified ?? true,
+        given_name: pending.user.givenName,
+        family_name: pending.user.familyName,
+      }),
+    });
+  }
+
+  private signJwt(claims: Record<string, unknown>): string {
+    const encode = (value: object) =>
+      Buffer.from(JSON.stringify(value)).toString('base64url');
+    const input = `${encode({ alg: 'RS256', typ: 'JWT', kid: this.keyId })}.${encode(claims)}`;
+    const signature = sign('sha256', Buffer.from(input), this.keys.privateKey);
+    return `${input}.${signature.toString('base64url')}`;
+  }
+}
+
+function json(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
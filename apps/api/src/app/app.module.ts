@@ -9,14 +9,27 @@ import { TasksModule } from './tasks/tasks.module';
 import { AuditModule } from './audit/audit.module';
 import { InvitationsModule } from './invitations/invitations.module';
 import { OrganizationsModule } from './organizations/organizations.module';
+import { CommentsModule } from './comments/comments.module';
+import { AttachmentsModule } from './attachments/attachments.module';
+import { LabelsModule } from './labels/labels.module';
+import { WorkflowModule } from './workflow/workflow.module';
+import { CustomFieldsModule } from './custom-fields/custom-fields.module';
+import { RecurrencesModule } from './recurrences/recurrences.module';
+import { WorklogsModule } from './worklogs/worklogs.module';
+import { SprintsModule } from './sprints/sprints.module';
+import { ProjectsModule } from './projects/projects.module';
+import { SearchModule } from './search/search.module';
+import { SavedViewsModule } from './saved-views/saved-views.module';
 import databaseConfig from '../config/database.config';
+import attachmentsConfig from '../config/attachments.config';
+import recurrenceConfig from '../config/recurrence.config';
 
 @Module({
   imports: [
     ConfigModule.forRoot({
       isGlobal: true,
       envFilePath: ['.env', '.env.local'],
-      load: [databaseConfig],
+      load: [databaseConfig, attachmentsConfig, recurrenceConfig],
     }),
     TypeOrmModule.forRootAsync({
       imports: [ConfigModule],
@@ -30,6 +43,17 @@ import databaseConfig from '../config/database.config';
     AuditModule,
     InvitationsModule,
     OrganizationsModule,
+    CommentsModule,
+    AttachmentsModule,
+    LabelsModule,
+    WorkflowModule,
+    CustomFieldsModule,
+    RecurrencesModule,
+    WorklogsModule,
+    SprintsModule,
+    ProjectsModule,
+    SearchModule,
+    SavedViewsModule,
   ],
   controllers: [AppController],
   providers: [AppService],
@@ -0,0 +1,39 @@
+import { detectMimeType } from './attachment-mime-type';
+
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00]);
+const ZIP = Buffer.from([0x50, 0x4b, 0x03, 0x04, 0x14, 0x00, 0x00, 0x00]);
+const EXE = Buffer.from([0x4d, 0x5a, 0x90, 0x00, 0x03, 0x00, 0x00, 0x00]);
+
+describe('detectMimeType', () => {
+  it('should go by the signature rather than the declared type', () => {
+    expect(detectMimeType(PNG, 'image/png')).toBe('image/png');
+    expect(detectMimeType(PNG, 'text/plain')).toBe('image/png');
+    expect(detectMimeType(Buffer.from('%PDF-1.7\n'), 'image/png')).toBe('application/pdf');
+    expect(
+      detectMimeType(Buffer.from('RIFF\x10\x00\x00\x00WEBPVP8 ', 'latin1'), 'image/png')
+    ).toBe('image/webp');
+  });
+
+  it('should keep the declared type of documents packaged as zip archives', () => {
+    const docx = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+    expect(detectMimeType(ZIP, docx)).toBe(docx);
+    expect(detectMimeType(ZIP, 'application/x-zip-compressed')).toBe('application/zip');
+    expect(detectMimeType(ZIP, 'image/png')).toBe('application/zip');
+  });
+
+  it('should keep the declared type of text only when it is a text type', () => {
+    const csv = Buffer.from('id,title\n1,Invoice Acme\n');
+
+    expect(detectMimeType(csv, 'text/csv')).toBe('text/csv');
+    expect(detectMimeType(Buffer.from('{"a":1}'), 'application/json; charset=utf-8')).toBe(
+      'application/json'
+    );
+    expect(detectMimeType(csv, 'image/png')).toBe('text/plain');
+  });
+
+  it('should treat unknown binary content as application/octet-stream', () => {
+    expect(detectMimeType(EXE, 'image/png')).toBe('application/octet-stream');
+    expect(detectMimeType(EXE, 'text/plain')).toBe('application/octet-stream');
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * The type of an uploaded file, worked out from its first bytes. The
+ * Content-Type a client declares is only trusted where the bytes can't
+ * tell formats apart: documents packaged as zip archives, and text.
+ */
+
+interface Signature {
+  mimeType: string;
+  // Byte sequences that must all appear, at offset 0 unless given
+  parts: { offset?: number; bytes: number[] }[];
+}
+
+const SIGNATURES: Signature[] = [
+  { mimeType: 'image/png', parts: [{ bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] }] },
+  { mimeType: 'image/jpeg', parts: [{ bytes: [0xff, 0xd8, 0xff] }] },
+  { mimeType: 'image/gif', parts: [{ bytes: ascii('GIF87a') }] },
+  { mimeType: 'image/gif', parts: [{ bytes: ascii('GIF89a') }] },
+  { mimeType: 'image/webp', parts: [{ bytes: ascii('RIFF') }, { offset: 8, bytes: ascii('WEBP') }] },
+  { mimeType: 'image/bmp', parts: [{ bytes: ascii('BM') }, { offset: 6, bytes: [0, 0, 0, 0] }] },
+  { mimeType: 'image/tiff', parts: [{ bytes: [0x49, 0x49, 0x2a, 0x00] }] },
+  { mimeType: 'image/tiff', parts: [{ bytes: [0x4d, 0x4d, 0x00, 0x2a] }] },
+  { mimeType: 'application/pdf', parts: [{ bytes: ascii('%PDF-') }] },
+  { mimeType: 'application/zip', parts: [{ bytes: [0x50, 0x4b, 0x03, 0x04] }] },
+  { mimeType: 'application/zip', parts: [{ bytes: [0x50, 0x4b, 0x05, 0x06] }] },
+  { mimeType: 'application/gzip', parts: [{ bytes: [0x1f, 0x8b] }] },
+];
+
+// Formats stored as zip archives, which only the declared type tells apart
+const ZIP_CONTAINER_TYPE =
+  /^application\/(vnd\.openxmlformats-officedocument\.|vnd\.oasis\.opendocument\.|epub\+zip$|java-archive$)/;
+
+// Text formats kept as declared; other text is stored as text/plain
+const TEXT_TYPE = /^(text\/|application\/(json|xml)$|image\/svg\+xml$)/;
+
+// How much of a file is searched for binary content
+const TEXT_SAMPLE_BYTES = 8192;
+
+/**
+ * The type to store an upload under. Files without a known signature are
+ * text when their start holds no NUL byte, and otherwise
+ * application/octet-stream.
+ */
+export function detectMimeType(content: Buffer, declaredType: string): string {
+  const declared = declaredType.split(';')[0].trim().toLowerCase();
+
+  const match = SIGNATURES.find(({ parts }) =>
+    parts.every(({ offset = 0, bytes }) =>
+      bytes.every((byte, i) => content[offset + i] === byte)
+    )
+  );
+  if (match) {
+    const { mimeType } = match;
+    return mimeType === 'application/zip' && ZIP_CONTAINER_TYPE.test(declared)
+      ? declared
+      : mimeType;
+  }
+
+  if (content.subarray(0, TEXT_SAMPLE_BYTES).includes(0)) {
+    return 'application/octet-stream';
+  }
+  return TEXT_TYPE.test(declared) ? declared : 'text/plain';
+}
+
+function ascii(text: string): number[] {
+  return [...text].map((char) => char.charCodeAt(0));
+}
@@ -0,0 +1,148 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Header,
+  Param,
+  UseGuards,
+  UseInterceptors,
+  UploadedFile,
+  Request,
+  StreamableFile,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import {
+  ApiTags,
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiConsumes,
+  ApiBody,
+} from '@nestjs/swagger';
+import {
+  AttachmentsService,
+  UploadedAttachmentFile,
+} from './attachments.service';
+import { TaskOrgGuard } from '../tasks/guards/task-org.guard';
+import {
+  JwtAuthGuard,
+  OrgRolesGuard,
+  OrgRoles,
+  PermissionsGuard,
+  RequirePermission,
+} from '@task-manager/auth';
+import {
+  OrganizationRole,
+  TaskAttachment,
+  PermissionResource,
+  PermissionAction,
+} from '@task-manager/data';
+import { AuditInterceptor } from '../audit/audit.interceptor';
+
+interface AuthenticatedRequest extends Request {
+  user: { id: string; email: string };
+  organizationId?: string;
+  userOrgRole?: OrganizationRole;
+}
+
+@ApiTags('Attachments')
+@ApiBearerAuth('JWT-auth')
+@Controller('tasks/:id/attachments')
+@UseInterceptors(AuditInterceptor)
+export class AttachmentsController {
+  constructor(private readonly attachmentsService: AttachmentsService) {}
+
+  @Get()
+  @UseGuards(JwtAuthGuard, TaskOrgGuard, OrgRolesGuard, PermissionsGuard)
+  @OrgRoles(OrganizationRole.VIEWER)
+  @RequirePermission(PermissionResource.TASK, PermissionAction.READ)
+  @ApiOperation({ summary: 'List the attachments of a task' })
+  @ApiParam({ name: 'id', description: 'Task UUID' })
+  @ApiResponse({ status: 200, description: 'Attachments retrieved successfully', type: [TaskAttachment] })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 403, description: 'Forbidden - User does not have access to this organization' })
+  @ApiResponse({ status: 404, description: 'Task not found' })
+  async findAll(@Param('id') taskId: string) {
+    return this.attachmentsService.findByTask(taskId);
+  }
+
+  @Post()
+  @UseGuards(JwtAuthGuard, TaskOrgGuard, OrgRolesGuard, PermissionsGuard)
+  @OrgRoles(OrganizationRole.ADMIN)
+  @RequirePermission(PermissionResource.TASK, PermissionAction.UPDATE)
+  @UseInterceptors(FileInterceptor('file'))
+  @ApiOperation({ summary: 'Upload an attachment to a task' })
+  @ApiParam({ name: 'id', description: 'Task UUID' })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['file'],
+      properties: { file: { type: 'string', format: 'binary' } },
+    },
+  })
+  @ApiResponse({ status: 201, description: 'Attachment uploaded successfully', type: TaskAttachment })
+  @ApiResponse({ status: 400, description: 'No file uploaded' })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 403, description: 'Forbidden - User does not have Admin role' })
+  @ApiResponse({ status: 404, description: 'Task not found' })
+  @ApiResponse({ status: 413, description: 'File too large or organization quota exceeded' })
+  @ApiResponse({ status: 415, description: 'File type not allowed in this organization' })
+  async upload(
+    @Param('id') taskId: string,
+    @UploadedFile() file: UploadedAttachmentFile | undefined,
+    @Request() req: AuthenticatedRequest
+  ) {
+    return this.attachmentsService.upload(taskId, file, req.user.id);
+  }
+
+  @Get(':attachmentId/download')
+  @UseGuards(JwtAuthGuard, TaskOrgGuard, OrgRolesGuard, PermissionsGuard)
+  @OrgRoles(OrganizationRole.VIEWER)
+  @RequirePermission(PermissionResource.TASK, PermissionAction.READ)
+  // Browsers must not second-guess the stored type
+  @Header('X-Content-Type-Options', 'nosniff')
+  @ApiOperation({ summary: 'Download an attachment' })
+  @ApiParam({ name: 'id', description: 'Task UUID' })
+  @ApiParam({ name: 'attachmentId', description: 'Attachment UUID' })
+  @ApiResponse({ status: 200, description: 'Attachment file contents' })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 403, description: 'Forbidden - User is no longer a member of this organization' })
+  @ApiResponse({ status: 404, description: 'Task or attachment not found' })
+  async download(
+    @Param('id') taskId: string,
+    @Param('attachmentId') attachmentId: string
+  ) {
+    const { attachment, stream } = await this.attachmentsService.download(
+      taskId,
+      attachmentId
+    );
+
+    return new StreamableFile(stream, {
+      type: attachment.mimeType,
+      length: attachment.size,
+      disposition: `attachment; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`,
+    });
+  }
+
+  @Delete(':attachmentId')
+  @UseGuards(JwtAuthGuard, TaskOrgGuard, OrgRolesGuard, PermissionsGuard)
+  @OrgRoles(OrganizationRole.ADMIN)
+  @RequirePermission(PermissionResource.TASK, PermissionAction.UPDATE)
+  @ApiOperation({ summary: 'Delete an attachment' })
+  @ApiParam({ name: 'id', description: 'Task UUID' })
+  @ApiParam({ name: 'attachmentId', description: 'Attachment UUID' })
+  @ApiResponse({ status: 200, description: 'Attachment deleted successfully' })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 403, description: 'Forbidden - User does not have Admin role' })
+  @ApiResponse({ status: 404, description: 'Task or attachment not found' })
+  async remove(
+    @Param('id') taskId: string,
+    @Param('attachmentId') attachmentId: string
+  ) {
+    await this.attachmentsService.delete(taskId, attachmentId);
+    return { message: 'Attachment deleted successfully' };
+  }
+}
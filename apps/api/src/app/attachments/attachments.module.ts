@@ -0,0 +1,54 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { MulterModule } from '@nestjs/platform-express';
+import { TaskAttachment, Organization } from '@task-manager/data';
+import { AuthModule } from '@task-manager/auth';
+import { AttachmentsController } from './attachments.controller';
+import { AttachmentsService } from './attachments.service';
+import { STORAGE_DRIVER, StorageDriver } from './storage/storage-driver.interface';
+import { LocalDiskStorageDriver } from './storage/local-disk.storage';
+import { TasksModule } from '../tasks/tasks.module';
+import { AuditModule } from '../audit/audit.module';
+import { AttachmentsConfig } from '../../config/attachments.config';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([TaskAttachment, Organization]),
+    MulterModule.registerAsync({
+      imports: [ConfigModule],
+      useFactory: (configService: ConfigService) => {
+        const config = configService.get<AttachmentsConfig>('attachments');
+        // No storage/dest configured, so multer buffers files in memory
+        return {
+          // Reject oversized uploads before they are fully buffered
+          limits: { fileSize: (config?.maxFileSizeMb ?? 10) * 1024 * 1024 },
+        };
+      },
+      inject: [ConfigService],
+    }),
+    AuthModule,
+    AuditModule,
+    TasksModule,
+  ],
+  controllers: [AttachmentsController],
+  providers: [
+    AttachmentsService,
+    {
+      provide: STORAGE_DRIVER,
+      useFactory: (configService: ConfigService): StorageDriver => {
+        const config = configService.get<AttachmentsConfig>('attachments');
+
+        switch (config?.driver ?? 'local') {
+          case 'local':
+            return new LocalDiskStorageDriver(config?.directory ?? 'uploads');
+          default:
+            throw new Error(`Unknown attachment storage driver: ${config?.driver}`);
+        }
+      },
+      inject: [ConfigService],
+    },
+  ],
+  exports: [AttachmentsService],
+})
+export class AttachmentsModule {}
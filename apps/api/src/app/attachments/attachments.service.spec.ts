@@ -0,0 +1,243 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import {
+  BadRequestException,
+  NotFoundException,
+  PayloadTooLargeException,
+  UnsupportedMediaTypeException,
+} from '@nestjs/common';
+import { Repository } from 'typeorm';
+import { Task, TaskAttachment, Organization } from '@task-manager/data';
+import { AttachmentsService, UploadedAttachmentFile } from './attachments.service';
+import { TasksService } from '../tasks/tasks.service';
+import { STORAGE_DRIVER, StorageDriver } from './storage/storage-driver.interface';
+import { AttachmentsConfig } from '../../config/attachments.config';
+
+const MB = 1024 * 1024;
+
+describe('AttachmentsService', () => {
+  let service: AttachmentsService;
+  let attachmentRepository: jest.Mocked<Repository<TaskAttachment>>;
+  let organizationRepository: jest.Mocked<Repository<Organization>>;
+  let tasksService: jest.Mocked<TasksService>;
+  let storage: jest.Mocked<StorageDriver>;
+  let usedStorageQueryBuilder: {
+    withDeleted: jest.Mock;
+    select: jest.Mock;
+    where: jest.Mock;
+    getRawOne: jest.Mock;
+  };
+
+  const mockTask = {
+    id: 'task-uuid-1',
+    organizationId: 'org-uuid-1',
+  } as Task;
+
+  const mockOrganization = {
+    id: 'org-uuid-1',
+    attachmentQuotaMb: null,
+    allowedMimeTypes: null,
+    enforceBlockers: false,
+  } as Organization;
+
+  const config: AttachmentsConfig = {
+    driver: 'local',
+    directory: 'uploads',
+    maxFileSizeMb: 10,
+    defaultQuotaMb: 50,
+    defaultAllowedMimeTypes: ['image/*', 'application/pdf'],
+  };
+
+  const file: UploadedAttachmentFile = {
+    originalname: 'diagram.png',
+    mimetype: 'image/png',
+    size: 2 * MB,
+    buffer: Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+  };
+
+  const mockAttachment = {
+    id: 'attachment-uuid-1',
+    taskId: 'task-uuid-1',
+    organizationId: 'org-uuid-1',
+    storageKey: 'org-uuid-1/task-uuid-1/key',
+  } as TaskAttachment;
+
+  beforeEach(async () => {
+    usedStorageQueryBuilder = {
+      withDeleted: jest.fn().mockReturnThis(),
+      select: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      getRawOne: jest.fn().mockResolvedValue({ used: '0' }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AttachmentsService,
+        {
+          provide: getRepositoryToken(TaskAttachment),
+          useValue: {
+            create: jest.fn((data) => data),
+            save: jest.fn((data) => Promise.resolve({ id: 'attachment-uuid-1', ...data })),
+            find: jest.fn(),
+            findOne: jest.fn(),
+            remove: jest.fn(),
+            createQueryBuilder: jest.fn(() => usedStorageQueryBuilder),
+          },
+        },
+        { provide: getRepositoryToken(Organization), useValue: { findOne: jest.fn() } },
+        { provide: TasksService, useValue: { findById: jest.fn() } },
+        { provide: ConfigService, useValue: { get: jest.fn(() => config) } },
+        {
+          provide: STORAGE_DRIVER,
+          useValue: { put: jest.fn(), get: jest.fn(), delete: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get<AttachmentsService>(AttachmentsService);
+    attachmentRepository = module.get(getRepositoryToken(TaskAttachment));
+    organizationRepository = module.get(getRepositoryToken(Organization));
+    tasksService = module.get(TasksService);
+    storage = module.get(STORAGE_DRIVER);
+
+    tasksService.findById.mockResolvedValue(mockTask);
+    organizationRepository.findOne.mockResolvedValue(mockOrganization);
+  });
+
+  describe('upload', () => {
+    it('should store the file and record the attachment', async () => {
+      const result = await service.upload('task-uuid-1', file, 'user-uuid-1');
+
+      expect(storage.put).toHaveBeenCalledWith(
+        expect.stringMatching(/^org-uuid-1\/task-uuid-1\//),
+        file.buffer,
+        'image/png'
+      );
+      expect(result).toEqual(
+        expect.objectContaining({
+          taskId: 'task-uuid-1',
+          organizationId: 'org-uuid-1',
+          uploadedById: 'user-uuid-1',
+          fileName: 'diagram.png',
+          size: 2 * MB,
+        })
+      );
+    });
+
+    it('should reject a missing file', async () => {
+      await expect(
+        service.upload('task-uuid-1', undefined, 'user-uuid-1')
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject MIME types outside the allow-list', async () => {
+      await expect(
+        service.upload(
+          'task-uuid-1',
+          {
+            ...file,
+            mimetype: 'application/x-msdownload',
+            buffer: Buffer.from([0x4d, 0x5a, 0x90, 0x00, 0x03, 0x00]),
+          },
+          'user-uuid-1'
+        )
+      ).rejects.toThrow(UnsupportedMediaTypeException);
+      expect(storage.put).not.toHaveBeenCalled();
+    });
+
+    it('should check the type the contents show, not the declared one', async () => {
+      await expect(
+        service.upload(
+          'task-uuid-1',
+          { ...file, buffer: Buffer.from([0x4d, 0x5a, 0x90, 0x00, 0x03, 0x00]) },
+          'user-uuid-1'
+        )
+      ).rejects.toThrow('File type application/octet-stream is not allowed');
+      expect(storage.put).not.toHaveBeenCalled();
+    });
+
+    it('should store the detected type', async () => {
+      const pdf = { ...file, mimetype: 'image/png', buffer: Buffer.from('%PDF-1.7\n') };
+
+      const result = await service.upload('task-uuid-1', pdf, 'user-uuid-1');
+
+      expect(storage.put).toHaveBeenCalledWith(
+        expect.any(String),
+        pdf.buffer,
+        'application/pdf'
+      );
+      expect(result.mimeType).toBe('application/pdf');
+    });
+
+    it('should prefer the organization allow-list over the default', async () => {
+      organizationRepository.findOne.mockResolvedValue({
+        ...mockOrganization,
+        allowedMimeTypes: ['text/plain'],
+      } as Organization);
+
+      await expect(
+        service.upload('task-uuid-1', file, 'user-uuid-1')
+      ).rejects.toThrow(UnsupportedMediaTypeException);
+    });
+
+    it('should reject files over the size limit', async () => {
+      await expect(
+        service.upload('task-uuid-1', { ...file, size: 11 * MB }, 'user-uuid-1')
+      ).rejects.toThrow(PayloadTooLargeException);
+    });
+
+    it('should reject uploads that exceed the organization quota', async () => {
+      organizationRepository.findOne.mockResolvedValue({
+        ...mockOrganization,
+        attachmentQuotaMb: 5,
+      } as Organization);
+      usedStorageQueryBuilder.getRawOne.mockResolvedValue({ used: String(4 * MB) });
+
+      await expect(
+        service.upload('task-uuid-1', file, 'user-uuid-1')
+      ).rejects.toThrow(PayloadTooLargeException);
+      expect(storage.put).not.toHaveBeenCalled();
+    });
+
+    it('should count attachments of trashed tasks towards the quota', async () => {
+      await service.upload('task-uuid-1', file, 'user-uuid-1');
+
+      expect(usedStorageQueryBuilder.withDeleted).toHaveBeenCalled();
+      expect(usedStorageQueryBuilder.where).toHaveBeenCalledWith(
+        'attachment.organizationId = :organizationId',
+        { organizationId: 'org-uuid-1' }
+      );
+    });
+
+    it('should remove the stored file if saving the record fails', async () => {
+      attachmentRepository.save.mockRejectedValue(new Error('db down'));
+
+      await expect(
+        service.upload('task-uuid-1', file, 'user-uuid-1')
+      ).rejects.toThrow('db down');
+      expect(storage.delete).toHaveBeenCalledWith(
+        storage.put.mock.calls[0][0]
+      );
+    });
+  });
+
+  describe('delete', () => {
+    it('should remove the record and the stored file', async () => {
+      attachmentRepository.findOne.mockResolvedValue(mockAttachment);
+
+      await service.delete('task-uuid-1', 'attachment-uuid-1');
+
+      expect(attachmentRepository.remove).toHaveBeenCalledWith(mockAttachment);
+      expect(storage.delete).toHaveBeenCalledWith(mockAttachment.storageKey);
+    });
+
+    it('should throw NotFoundException for attachments of another task', async () => {
+      attachmentRepository.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.delete('task-uuid-2', 'attachment-uuid-1')
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+});
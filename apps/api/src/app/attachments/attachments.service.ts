@@ -0,0 +1,199 @@
+import {
+  Injectable,
+  Inject,
+  NotFoundException,
+  BadRequestException,
+  PayloadTooLargeException,
+  UnsupportedMediaTypeException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository } from 'typeorm';
+import { randomUUID } from 'crypto';
+import { basename } from 'path';
+import { Readable } from 'stream';
+import { TaskAttachment, Organization } from '@task-manager/data';
+import { TasksService } from '../tasks/tasks.service';
+import { STORAGE_DRIVER, StorageDriver } from './storage/storage-driver.interface';
+import { AttachmentsConfig } from '../../config/attachments.config';
+import { detectMimeType } from './attachment-mime-type';
+
+const MB = 1024 * 1024;
+
+/**
+ * The subset of a multer file used by the service
+ */
+export interface UploadedAttachmentFile {
+  originalname: string;
+  mimetype: string;
+  size: number;
+  buffer: Buffer;
+}
+
+@Injectable()
+export class AttachmentsService {
+  constructor(
+    @InjectRepository(TaskAttachment)
+    private readonly attachmentRepository: Repository<TaskAttachment>,
+    @InjectRepository(Organization)
+    private readonly organizationRepository: Repository<Organization>,
+    private readonly tasksService: TasksService,
+    private readonly configService: ConfigService,
+    @Inject(STORAGE_DRIVER)
+    private readonly storage: StorageDriver
+  ) {}
+
+  async findByTask(taskId: string): Promise<TaskAttachment[]> {
+    return this.attachmentRepository.find({
+      where: { taskId },
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  /**
+   * Store an uploaded file and record it against the task.
+   * Enforces the organization's MIME allow-list, against the type the
+   * file's contents show rather than the one the client declared, and
+   * the storage quota.
+   */
+  async upload(
+    taskId: string,
+    file: UploadedAttachmentFile | undefined,
+    uploadedById: string
+  ): Promise<TaskAttachment> {
+    if (!file) {
+      throw new BadRequestException('No file uploaded');
+    }
+
+    const task = await this.tasksService.findById(taskId);
+    if (!task) {
+      throw new NotFoundException(`Task with ID ${taskId} not found`);
+    }
+
+    const organization = await this.organizationRepository.findOne({
+      where: { id: task.organizationId },
+    });
+    if (!organization) {
+      throw new NotFoundException(
+        `Organization with ID ${task.organizationId} not found`
+      );
+    }
+
+    const config = this.getConfig();
+
+    if (file.size > config.maxFileSizeMb * MB) {
+      throw new PayloadTooLargeException(
+        `Attachments cannot exceed ${config.maxFileSizeMb} MB`
+      );
+    }
+
+    const allowedMimeTypes =
+      organization.allowedMimeTypes ?? config.defaultAllowedMimeTypes;
+    const mimeType = detectMimeType(file.buffer, file.mimetype);
+    if (!this.isMimeTypeAllowed(mimeType, allowedMimeTypes)) {
+      throw new UnsupportedMediaTypeException(
+        `File type ${mimeType} is not allowed in this organization`
+      );
+    }
+
+    const quotaMb = organization.attachmentQuotaMb ?? config.defaultQuotaMb;
+    const used = await this.usedStorage(organization.id);
+    if (used + file.size > quotaMb * MB) {
+      throw new PayloadTooLargeException(
+        `Organization attachment quota of ${quotaMb} MB exceeded`
+      );
+    }
+
+    const storageKey = `${organization.id}/${taskId}/${randomUUID()}`;
+    await this.storage.put(storageKey, file.buffer, mimeType);
+
+    const attachment = this.attachmentRepository.create({
+      taskId,
+      organizationId: organization.id,
+      uploadedById,
+      fileName: basename(file.originalname).slice(0, 255),
+      mimeType,
+      size: file.size,
+      storageKey,
+    });
+
+    try {
+      return await this.attachmentRepository.save(attachment);
+    } catch (error) {
+      // Don't leave orphaned files behind
+      await this.storage.delete(storageKey);
+      throw error;
+    }
+  }
+
+  /**
+   * Open an attachment's contents for download.
+   */
+  async download(
+    taskId: string,
+    attachmentId: string
+  ): Promise<{ attachment: TaskAttachment; stream: Readable }> {
+    const attachment = await this.findAttachment(taskId, attachmentId);
+    const stream = await this.storage.get(attachment.storageKey);
+    return { attachment, stream };
+  }
+
+  /**
+   * Permanently remove an attachment and its file.
+   */
+  async delete(taskId: string, attachmentId: string): Promise<void> {
+    const attachment = await this.findAttachment(taskId, attachmentId);
+    await this.attachmentRepository.remove(attachment);
+    await this.storage.delete(attachment.storageKey);
+  }
+
+  /**
+   * Allow-list entries are exact types or `type/*` wildcards.
+   */
+  private isMimeTypeAllowed(mimeType: string, allowed: string[]): boolean {
+    return allowed.some((pattern) =>
+      pattern.endsWith('/*')
+        ? mimeType.startsWith(pattern.slice(0, -1))
+        : mimeType === pattern
+    );
+  }
+
+  /**
+   * Bytes an organization's attachments take up, counting those of tasks
+   * in the trash: their files stay until the trash is emptied, and a
+   * restore brings them back.
+   */
+  private async usedStorage(organizationId: string): Promise<number> {
+    const row = await this.attachmentRepository
+      .createQueryBuilder('attachment')
+      .withDeleted()
+      .select('COALESCE(SUM(attachment.size), 0)', 'used')
+      .where('attachment.organizationId = :organizationId', { organizationId })
+      .getRawOne<{ used: string }>();
+
+    return Number(row?.used ?? 0);
+  }
+
+  private getConfig(): AttachmentsConfig {
+    return this.configService.get<AttachmentsConfig>(
+      'attachments'
+    ) as AttachmentsConfig;
+  }
+
+  private async findAttachment(
+    taskId: string,
+    attachmentId: string
+  ): Promise<TaskAttachment> {
+    const attachment = await this.attachmentRepository.findOne({
+      where: { id: attachmentId, taskId },
+    });
+
+    if (!attachment) {
+      throw new NotFoundException(
+        `Attachment with ID ${attachmentId} not found`
+      );
+    }
+
+    return attachment;
+  }
+}
@@ -0,0 +1,52 @@
+import { createReadStream } from 'fs';
+import { mkdir, writeFile, rm, access } from 'fs/promises';
+import { dirname, resolve, sep } from 'path';
+import { Readable } from 'stream';
+import { NotFoundException } from '@nestjs/common';
+import { StorageDriver } from './storage-driver.interface';
+
+/**
+ * Default storage driver: stores files below a local directory.
+ */
+export class LocalDiskStorageDriver implements StorageDriver {
+  private readonly root: string;
+
+  constructor(directory: string) {
+    this.root = resolve(directory);
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const path = this.resolveKey(key);
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, data);
+  }
+
+  async get(key: string): Promise<Readable> {
+    const path = this.resolveKey(key);
+
+    try {
+      await access(path);
+    } catch {
+      throw new NotFoundException('Attachment file not found');
+    }
+
+    return createReadStream(path);
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.resolveKey(key), { force: true });
+  }
+
+  /**
+   * Keys must stay inside the storage root.
+   */
+  private resolveKey(key: string): string {
+    const path = resolve(this.root, key);
+
+    if (!path.startsWith(this.root + sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+
+    return path;
+  }
+}
@@ -0,0 +1,17 @@
+import { Readable } from 'stream';
+
+/**
+ * Injection token for the active attachment storage driver.
+ */
+export const STORAGE_DRIVER = Symbol('STORAGE_DRIVER');
+
+/**
+ * Backend for attachment file contents. Keys are generated by
+ * AttachmentsService and are opaque to the driver.
+ * Implement this to add another backend (e.g. S3-compatible storage).
+ */
+export interface StorageDriver {
+  put(key: string, data: Buffer, mimeType: string): Promise<void>;
+  get(key: string): Promise<Readable>;
+  delete(key: string): Promise<void>;
+}
@@ -0,0 +1,135 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+  UseInterceptors,
+  Request,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+} from '@nestjs/swagger';
+import { CommentsService } from './comments.service';
+import { CreateCommentDto } from './dto/create-comment.dto';
+import { UpdateCommentDto } from './dto/update-comment.dto';
+import { TaskOrgGuard } from '../tasks/guards/task-org.guard';
+import {
+  JwtAuthGuard,
+  OrgRolesGuard,
+  OrgRoles,
+  PermissionsGuard,
+  RequirePermission,
+  AccessTokenGrant,
+} from '@task-manager/auth';
+import {
+  OrganizationRole,
+  TaskComment,
+  PermissionResource,
+  PermissionAction,
+} from '@task-manager/data';
+import { AuditInterceptor } from '../audit/audit.interceptor';
+
+interface AuthenticatedRequest extends Request {
+  user: { id: string; email: string; accessToken?: AccessTokenGrant };
+  organizationId?: string;
+  userOrgRole?: OrganizationRole;
+}
+
+@ApiTags('Comments')
+@ApiBearerAuth('JWT-auth')
+@Controller('tasks/:id/comments')
+@UseInterceptors(AuditInterceptor)
+export class CommentsController {
+  constructor(private readonly commentsService: CommentsService) {}
+
+  @Get()
+  @UseGuards(JwtAuthGuard, TaskOrgGuard, OrgRolesGuard, PermissionsGuard)
+  @OrgRoles(OrganizationRole.VIEWER)
+  @RequirePermission(PermissionResource.COMMENT, PermissionAction.READ)
+  @ApiOperation({ summary: 'Get the comment thread of a task' })
+  @ApiParam({ name: 'id', description: 'Task UUID' })
+  @ApiResponse({ status: 200, description: 'Comments retrieved successfully', type: [TaskComment] })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 403, description: 'Forbidden - User does not have access to this organization' })
+  @ApiResponse({ status: 404, description: 'Task not found' })
+  async findAll(@Param('id') taskId: string) {
+    return this.commentsService.findByTask(taskId);
+  }
+
+  @Post()
+  @UseGuards(JwtAuthGuard, TaskOrgGuard, OrgRolesGuard, PermissionsGuard)
+  @OrgRoles(OrganizationRole.VIEWER)
+  @RequirePermission(PermissionResource.COMMENT, PermissionAction.CREATE)
+  @ApiOperation({ summary: 'Comment on a task or reply to a comment' })
+  @ApiParam({ name: 'id', description: 'Task UUID' })
+  @ApiResponse({ status: 201, description: 'Comment created successfully', type: TaskComment })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 403, description: 'Forbidden - User does not have access to this organization' })
+  @ApiResponse({ status: 404, description: 'Task or parent comment not found' })
+  async create(
+    @Param('id') taskId: string,
+    @Body() createCommentDto: CreateCommentDto,
+    @Request() req: AuthenticatedRequest
+  ) {
+    return this.commentsService.create(taskId, createCommentDto, req.user.id);
+  }
+
+  @Put(':commentId')
+  @UseGuards(JwtAuthGuard, TaskOrgGuard, OrgRolesGuard, PermissionsGuard)
+  @OrgRoles(OrganizationRole.VIEWER)
+  @RequirePermission(PermissionResource.COMMENT, PermissionAction.UPDATE)
+  @ApiOperation({ summary: 'Edit a comment' })
+  @ApiParam({ name: 'id', description: 'Task UUID' })
+  @ApiParam({ name: 'commentId', description: 'Comment UUID' })
+  @ApiResponse({ status: 200, description: 'Comment updated successfully', type: TaskComment })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Only the author can edit a comment' })
+  @ApiResponse({ status: 404, description: 'Task or comment not found' })
+  async update(
+    @Param('id') taskId: string,
+    @Param('commentId') commentId: string,
+    @Body() updateCommentDto: UpdateCommentDto,
+    @Request() req: AuthenticatedRequest
+  ) {
+    return this.commentsService.update(
+      taskId,
+      commentId,
+      updateCommentDto,
+      req.user.id
+    );
+  }
+
+  @Delete(':commentId')
+  @UseGuards(JwtAuthGuard, TaskOrgGuard, OrgRolesGuard, PermissionsGuard)
+  @OrgRoles(OrganizationRole.VIEWER)
+  @RequirePermission(PermissionResource.COMMENT, PermissionAction.DELETE)
+  @ApiOperation({ summary: 'Delete a comment and its replies' })
+  @ApiParam({ name: 'id', description: 'Task UUID' })
+  @ApiParam({ name: 'commentId', description: 'Comment UUID' })
+  @ApiResponse({ status: 200, description: 'Comment deleted successfully' })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Only the author or a moderator can delete a comment' })
+  @ApiResponse({ status: 404, description: 'Task or comment not found' })
+  async remove(
+    @Param('id') taskId: string,
+    @Param('commentId') commentId: string,
+    @Request() req: AuthenticatedRequest
+  ) {
+    await this.commentsService.delete(
+      taskId,
+      commentId,
+      req.user.id,
+      req.organizationId as string,
+      req.user.accessToken
+    );
+    return { message: 'Comment deleted successfully' };
+  }
+}
@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { TaskComment, UserOrganization } from '@task-manager/data';
+import { AuthModule } from '@task-manager/auth';
+import { CommentsController } from './comments.controller';
+import { CommentsService } from './comments.service';
+import { TasksModule } from '../tasks/tasks.module';
+import { AuditModule } from '../audit/audit.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([TaskComment, UserOrganization]),
+    AuthModule,
+    AuditModule,
+    TasksModule,
+  ],
+  controllers: [CommentsController],
+  providers: [CommentsService],
+  exports: [CommentsService],
+})
+export class CommentsModule {}
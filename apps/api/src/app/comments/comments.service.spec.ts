@@ -0,0 +1,244 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { NotFoundException, ForbiddenException } from '@nestjs/common';
+import { Repository } from 'typeorm';
+import { PermissionsService, isWithinTokenScope } from '@task-manager/auth';
+import {
+  Task,
+  TaskComment,
+  User,
+  UserOrganization,
+  OrganizationRole,
+  PermissionResource,
+  PermissionAction,
+} from '@task-manager/data';
+import { CommentsService } from './comments.service';
+import { TasksService } from '../tasks/tasks.service';
+import { TaskWatchersService } from '../tasks/task-watchers.service';
+
+describe('CommentsService', () => {
+  let service: CommentsService;
+  let commentRepository: jest.Mocked<Repository<TaskComment>>;
+  let userOrgRepository: jest.Mocked<Repository<UserOrganization>>;
+  let membershipQueryBuilder: {
+    innerJoinAndSelect: jest.Mock;
+    where: jest.Mock;
+    andWhere: jest.Mock;
+    getMany: jest.Mock;
+  };
+  let tasksService: jest.Mocked<TasksService>;
+  let taskWatchersService: jest.Mocked<TaskWatchersService>;
+  let permissionsService: jest.Mocked<PermissionsService>;
+
+  const mockTask = {
+    id: 'task-uuid-1',
+    organizationId: 'org-uuid-1',
+  } as Task;
+
+  const mockUser = {
+    id: 'user-uuid-2',
+    email: 'jane@example.com',
+  } as User;
+
+  const mockComment: TaskComment = {
+    id: 'comment-uuid-1',
+    taskId: 'task-uuid-1',
+    task: mockTask,
+    authorId: 'user-uuid-1',
+    author: null,
+    parentId: null,
+    parent: null,
+    replies: [],
+    body: 'First!',
+    mentions: [],
+    editedAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  beforeEach(async () => {
+    membershipQueryBuilder = {
+      innerJoinAndSelect: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      getMany: jest.fn().mockResolvedValue([]),
+    };
+
+    const mockCommentRepo = {
+      create: jest.fn((data) => data),
+      save: jest.fn((data) => Promise.resolve({ ...mockComment, ...data })),
+      find: jest.fn(),
+      findOne: jest.fn(),
+      remove: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CommentsService,
+        { provide: getRepositoryToken(TaskComment), useValue: mockCommentRepo },
+        {
+          provide: getRepositoryToken(UserOrganization),
+          useValue: { createQueryBuilder: jest.fn(() => membershipQueryBuilder) },
+        },
+        { provide: TasksService, useValue: { findById: jest.fn() } },
+        { provide: TaskWatchersService, useValue: { subscribe: jest.fn() } },
+        { provide: PermissionsService, useValue: { hasPermission: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<CommentsService>(CommentsService);
+    commentRepository = module.get(getRepositoryToken(TaskComment));
+    userOrgRepository = module.get(getRepositoryToken(UserOrganization));
+    tasksService = module.get(TasksService);
+    taskWatchersService = module.get(TaskWatchersService);
+    permissionsService = module.get(PermissionsService);
+  });
+
+  describe('create', () => {
+    it('should resolve @email mentions against organization members', async () => {
+      tasksService.findById.mockResolvedValue(mockTask);
+      membershipQueryBuilder.getMany.mockResolvedValue([
+        {
+          userId: mockUser.id,
+          organizationId: 'org-uuid-1',
+          role: OrganizationRole.VIEWER,
+          user: mockUser,
+        } as UserOrganization,
+      ]);
+      commentRepository.findOne.mockResolvedValue(mockComment);
+
+      await service.create(
+        'task-uuid-1',
+        { body: 'Can @Jane@Example.com and @nobody@example.com look?' },
+        'user-uuid-1'
+      );
+
+      expect(membershipQueryBuilder.where).toHaveBeenCalledWith(
+        'membership.organizationId = :organizationId',
+        { organizationId: 'org-uuid-1' }
+      );
+      expect(membershipQueryBuilder.andWhere).toHaveBeenCalledWith(
+        'LOWER(user.email) IN (:...emails)',
+        { emails: ['jane@example.com', 'nobody@example.com'] }
+      );
+      expect(commentRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ mentions: [mockUser], authorId: 'user-uuid-1' })
+      );
+    });
+
+    it('should attach replies to the top-level comment', async () => {
+      tasksService.findById.mockResolvedValue(mockTask);
+      commentRepository.findOne.mockResolvedValue({
+        ...mockComment,
+        id: 'comment-uuid-2',
+        parentId: 'comment-uuid-1',
+      });
+
+      await service.create(
+        'task-uuid-1',
+        { body: 'Agreed', parentId: 'comment-uuid-2' },
+        'user-uuid-1'
+      );
+
+      expect(commentRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ parentId: 'comment-uuid-1' })
+      );
+      expect(userOrgRepository.createQueryBuilder).not.toHaveBeenCalled();
+    });
+
+    it('should subscribe the author to the task', async () => {
+      tasksService.findById.mockResolvedValue(mockTask);
+      commentRepository.findOne.mockResolvedValue(mockComment);
+
+      await service.create('task-uuid-1', { body: 'On it' }, 'user-uuid-1');
+
+      expect(taskWatchersService.subscribe).toHaveBeenCalledWith('task-uuid-1', ['user-uuid-1']);
+    });
+
+    it('should throw NotFoundException for a deleted task', async () => {
+      tasksService.findById.mockResolvedValue(null);
+
+      await expect(
+        service.create('task-uuid-1', { body: 'Hello' }, 'user-uuid-1')
+      ).rejects.toThrow(NotFoundException);
+      expect(taskWatchersService.subscribe).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('update', () => {
+    it('should mark the comment as edited', async () => {
+      tasksService.findById.mockResolvedValue(mockTask);
+      commentRepository.findOne.mockResolvedValue({ ...mockComment });
+
+      await service.update(
+        'task-uuid-1',
+        'comment-uuid-1',
+        { body: 'Second!' },
+        'user-uuid-1'
+      );
+
+      expect(commentRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ body: 'Second!', editedAt: expect.any(Date) })
+      );
+    });
+
+    it('should reject edits by anyone but the author', async () => {
+      tasksService.findById.mockResolvedValue(mockTask);
+      commentRepository.findOne.mockResolvedValue({ ...mockComment });
+
+      await expect(
+        service.update(
+          'task-uuid-1',
+          'comment-uuid-1',
+          { body: 'Hijacked' },
+          'user-uuid-2'
+        )
+      ).rejects.toThrow(ForbiddenException);
+    });
+  });
+
+  describe('delete', () => {
+    it('should let the author delete their comment', async () => {
+      commentRepository.findOne.mockResolvedValue(mockComment);
+
+      await service.delete('task-uuid-1', 'comment-uuid-1', 'user-uuid-1', 'org-uuid-1');
+
+      expect(permissionsService.hasPermission).not.toHaveBeenCalled();
+      expect(commentRepository.remove).toHaveBeenCalledWith(mockComment);
+    });
+
+    it('should require COMMENT:MANAGE to delete others\' comments', async () => {
+      commentRepository.findOne.mockResolvedValue(mockComment);
+      permissionsService.hasPermission.mockResolvedValue(false);
+
+      await expect(
+        service.delete('task-uuid-1', 'comment-uuid-1', 'user-uuid-2', 'org-uuid-1')
+      ).rejects.toThrow(ForbiddenException);
+      expect(permissionsService.hasPermission).toHaveBeenCalledWith(
+        'user-uuid-2',
+        'org-uuid-1',
+        PermissionResource.COMMENT,
+        PermissionAction.MANAGE,
+        undefined
+      );
+      expect(commentRepository.remove).not.toHaveBeenCalled();
+    });
+
+    it('should not let a token scoped to comment:delete delete others\' comments', async () => {
+      commentRepository.findOne.mockResolvedValue(mockComment);
+      permissionsService.hasPermission.mockImplementation(
+        async (_userId, organizationId, resource, action, accessToken) =>
+          !accessToken || isWithinTokenScope(accessToken, organizationId, resource, action)
+      );
+
+      await expect(
+        service.delete('task-uuid-1', 'comment-uuid-1', 'user-uuid-2', 'org-uuid-1', {
+          id: 'token-uuid-1',
+          scopes: [{ resource: PermissionResource.COMMENT, action: PermissionAction.DELETE }],
+          organizationId: null,
+        })
+      ).rejects.toThrow(ForbiddenException);
+      expect(commentRepository.remove).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,203 @@
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, IsNull } from 'typeorm';
+import {
+  Task,
+  TaskComment,
+  User,
+  UserOrganization,
+  PermissionResource,
+  PermissionAction,
+} from '@task-manager/data';
+import { PermissionsService, AccessTokenGrant } from '@task-manager/auth';
+import { TasksService } from '../tasks/tasks.service';
+import { TaskWatchersService } from '../tasks/task-watchers.service';
+
+export interface CreateCommentDto {
+  body: string;
+  parentId?: string;
+}
+
+export interface UpdateCommentDto {
+  body: string;
+}
+
+// `@` followed by an email address, at the start or after whitespace
+const MENTION_PATTERN =
+  /(?:^|\s)@([A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,})/g;
+
+@Injectable()
+export class CommentsService {
+  constructor(
+    @InjectRepository(TaskComment)
+    private readonly commentRepository: Repository<TaskComment>,
+    @InjectRepository(UserOrganization)
+    private readonly userOrgRepository: Repository<UserOrganization>,
+    private readonly tasksService: TasksService,
+    private readonly taskWatchersService: TaskWatchersService,
+    private readonly permissionsService: PermissionsService
+  ) {}
+
+  /**
+   * Get the comment thread of a task: top-level comments, oldest first,
+   * each with its replies.
+   */
+  async findByTask(taskId: string): Promise<TaskComment[]> {
+    return this.commentRepository.find({
+      where: { taskId, parentId: IsNull() },
+      relations: {
+        author: true,
+        mentions: true,
+        replies: { author: true, mentions: true },
+      },
+      order: { createdAt: 'ASC', replies: { createdAt: 'ASC' } },
+    });
+  }
+
+  /**
+   * Add a comment or a reply. Replies to a reply are attached to the
+   * top-level comment so threads stay one level deep. The author starts
+   * watching the task.
+   */
+  async create(
+    taskId: string,
+    dto: CreateCommentDto,
+    authorId: string
+  ): Promise<TaskComment> {
+    const task = await this.getActiveTask(taskId);
+
+    let parentId: string | null = null;
+    if (dto.parentId) {
+      const parent = await this.findComment(taskId, dto.parentId);
+      parentId = parent.parentId ?? parent.id;
+    }
+
+    const comment = this.commentRepository.create({
+      taskId,
+      authorId,
+      parentId,
+      body: dto.body,
+      mentions: await this.resolveMentions(dto.body, task.organizationId),
+      editedAt: null,
+    });
+
+    const saved = await this.commentRepository.save(comment);
+    await this.taskWatchersService.subscribe(taskId, [authorId]);
+    return this.findComment(taskId, saved.id);
+  }
+
+  /**
+   * Edit a comment. Only the author may edit, and edits are marked.
+   */
+  async update(
+    taskId: string,
+    commentId: string,
+    dto: UpdateCommentDto,
+    userId: string
+  ): Promise<TaskComment> {
+    const task = await this.getActiveTask(taskId);
+    const comment = await this.findComment(taskId, commentId);
+
+    if (comment.authorId !== userId) {
+      throw new ForbiddenException('You can only edit your own comments');
+    }
+
+    comment.body = dto.body;
+    comment.mentions = await this.resolveMentions(dto.body, task.organizationId);
+    comment.editedAt = new Date();
+
+    await this.commentRepository.save(comment);
+    return this.findComment(taskId, commentId);
+  }
+
+  /**
+   * Delete a comment (and its replies). Authors may delete their own
+   * comments; deleting others' requires COMMENT:MANAGE.
+   */
+  async delete(
+    taskId: string,
+    commentId: string,
+    userId: string,
+    organizationId: string,
+    accessToken?: AccessTokenGrant
+  ): Promise<void> {
+    const comment = await this.findComment(taskId, commentId);
+
+    if (comment.authorId !== userId) {
+      const canModerate = await this.permissionsService.hasPermission(
+        userId,
+        organizationId,
+        PermissionResource.COMMENT,
+        PermissionAction.MANAGE,
+        accessToken
+      );
+
+      if (!canModerate) {
+        throw new ForbiddenException('You can only delete your own comments');
+      }
+    }
+
+    await this.commentRepository.remove(comment);
+  }
+
+  /**
+   * Resolve `@email` mentions against the organization's members,
+   * ignoring case since emails are stored as typed. Emails that do not
+   * belong to a member are left as plain text.
+   */
+  private async resolveMentions(
+    body: string,
+    organizationId: string
+  ): Promise<User[]> {
+    const emails = new Set<string>();
+    for (const match of body.matchAll(MENTION_PATTERN)) {
+      emails.add(match[1].toLowerCase());
+    }
+
+    if (emails.size === 0) {
+      return [];
+    }
+
+    const memberships = await this.userOrgRepository
+      .createQueryBuilder('membership')
+      .innerJoinAndSelect('membership.user', 'user')
+      .where('membership.organizationId = :organizationId', { organizationId })
+      .andWhere('LOWER(user.email) IN (:...emails)', { emails: [...emails] })
+      .getMany();
+
+    return memberships.map((membership) => membership.user);
+  }
+
+  /**
+   * Comments can only be added to or edited on tasks that are not deleted.
+   */
+  private async getActiveTask(taskId: string): Promise<Task> {
+    const task = await this.tasksService.findById(taskId);
+
+    if (!task) {
+      throw new NotFoundException(`Task with ID ${taskId} not found`);
+    }
+
+    return task;
+  }
+
+  private async findComment(
+    taskId: string,
+    commentId: string
+  ): Promise<TaskComment> {
+    const comment = await this.commentRepository.findOne({
+      where: { id: commentId, taskId },
+      relations: { author: true, mentions: true },
+    });
+
+    if (!comment) {
+      throw new NotFoundException(`Comment with ID ${commentId} not found`);
+    }
+
+    return comment;
+  }
+}
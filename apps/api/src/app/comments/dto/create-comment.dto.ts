@@ -0,0 +1,41 @@
+import {
+  IsString,
+  IsUUID,
+  IsOptional,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+import {
+  ApiProperty,
+  ApiPropertyOptional,
+  ApiHideProperty,
+} from '@nestjs/swagger';
+
+export class CreateCommentDto {
+  @ApiProperty({
+    description: 'Comment text. Mention organization members as @email',
+    example: 'Looks good, @jane@example.com can you review?',
+    maxLength: 10000,
+  })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(10000)
+  body!: string;
+
+  @ApiPropertyOptional({
+    description: 'The UUID of the comment being replied to',
+    example: '550e8400-e29b-41d4-a716-446655440010',
+    format: 'uuid',
+  })
+  @IsOptional()
+  @IsUUID()
+  parentId?: string;
+
+  /**
+   * This field is injected by TaskOrgGuard for authorization purposes.
+   */
+  @ApiHideProperty()
+  @IsOptional()
+  @IsUUID()
+  organizationId?: string;
+}
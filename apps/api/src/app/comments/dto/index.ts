@@ -0,0 +1,2 @@
+export * from './create-comment.dto';
+export * from './update-comment.dto';
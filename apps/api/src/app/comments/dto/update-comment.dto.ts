@@ -0,0 +1,22 @@
+import { IsString, IsUUID, IsOptional, MaxLength, MinLength } from 'class-validator';
+import { ApiProperty, ApiHideProperty } from '@nestjs/swagger';
+
+export class UpdateCommentDto {
+  @ApiProperty({
+    description: 'The updated comment text',
+    example: 'Looks good, @jane@example.com please review by Friday',
+    maxLength: 10000,
+  })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(10000)
+  body!: string;
+
+  /**
+   * This field is injected by TaskOrgGuard for authorization purposes.
+   */
+  @ApiHideProperty()
+  @IsOptional()
+  @IsUUID()
+  organizationId?: string;
+}
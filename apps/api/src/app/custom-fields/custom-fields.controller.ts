@@ -0,0 +1,115 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+  UseInterceptors,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+} from '@nestjs/swagger';
+import {
+  JwtAuthGuard,
+  OrgRolesGuard,
+  OrgRoles,
+  PermissionsGuard,
+  RequirePermission,
+} from '@task-manager/auth';
+import {
+  OrganizationRole,
+  CustomField,
+  PermissionResource,
+  PermissionAction,
+} from '@task-manager/data';
+import { CustomFieldsService } from './custom-fields.service';
+import { CreateCustomFieldDto } from './dto/create-custom-field.dto';
+import { UpdateCustomFieldDto } from './dto/update-custom-field.dto';
+import { AuditInterceptor } from '../audit/audit.interceptor';
+
+@ApiTags('Custom Fields')
+@ApiBearerAuth('JWT-auth')
+@Controller('organizations/:organizationId/custom-fields')
+@UseInterceptors(AuditInterceptor)
+export class CustomFieldsController {
+  constructor(private readonly customFieldsService: CustomFieldsService) {}
+
+  @Get()
+  @UseGuards(JwtAuthGuard, OrgRolesGuard, PermissionsGuard)
+  @OrgRoles(OrganizationRole.VIEWER)
+  @RequirePermission(PermissionResource.CUSTOM_FIELD, PermissionAction.READ)
+  @ApiOperation({ summary: 'List the custom task fields of an organization' })
+  @ApiParam({ name: 'organizationId', description: 'Organization UUID' })
+  @ApiResponse({ status: 200, description: 'Custom fields retrieved successfully', type: [CustomField] })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 403, description: 'Forbidden - User does not have access to this organization' })
+  async findAll(@Param('organizationId', ParseUUIDPipe) organizationId: string) {
+    return this.customFieldsService.findByOrganization(organizationId);
+  }
+
+  @Post()
+  @UseGuards(JwtAuthGuard, OrgRolesGuard, PermissionsGuard)
+  @OrgRoles(OrganizationRole.ADMIN)
+  @RequirePermission(PermissionResource.CUSTOM_FIELD, PermissionAction.CREATE)
+  @ApiOperation({ summary: 'Define a custom task field' })
+  @ApiParam({ name: 'organizationId', description: 'Organization UUID' })
+  @ApiResponse({ status: 201, description: 'Custom field created successfully', type: CustomField })
+  @ApiResponse({ status: 400, description: 'Bad Request - Invalid fields or options' })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Requires ADMIN role or higher' })
+  @ApiResponse({ status: 409, description: 'Conflict - A custom field with this name already exists' })
+  async create(
+    @Param('organizationId', ParseUUIDPipe) organizationId: string,
+    @Body() createFieldDto: CreateCustomFieldDto
+  ) {
+    return this.customFieldsService.create(organizationId, createFieldDto);
+  }
+
+  @Patch(':fieldId')
+  @UseGuards(JwtAuthGuard, OrgRolesGuard, PermissionsGuard)
+  @OrgRoles(OrganizationRole.ADMIN)
+  @RequirePermission(PermissionResource.CUSTOM_FIELD, PermissionAction.UPDATE)
+  @ApiOperation({ summary: 'Rename a custom field, change its options or whether it is required' })
+  @ApiParam({ name: 'organizationId', description: 'Organization UUID' })
+  @ApiParam({ name: 'fieldId', description: 'Custom field UUID' })
+  @ApiResponse({ status: 200, description: 'Custom field updated successfully', type: CustomField })
+  @ApiResponse({ status: 400, description: 'Bad Request - Invalid fields or options' })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Requires ADMIN role or higher' })
+  @ApiResponse({ status: 404, description: 'Custom field not found' })
+  @ApiResponse({ status: 409, description: 'Conflict - A custom field with this name already exists' })
+  async update(
+    @Param('organizationId', ParseUUIDPipe) organizationId: string,
+    @Param('fieldId', ParseUUIDPipe) fieldId: string,
+    @Body() updateFieldDto: UpdateCustomFieldDto
+  ) {
+    return this.customFieldsService.update(organizationId, fieldId, updateFieldDto);
+  }
+
+  @Delete(':fieldId')
+  @UseGuards(JwtAuthGuard, OrgRolesGuard, PermissionsGuard)
+  @OrgRoles(OrganizationRole.ADMIN)
+  @RequirePermission(PermissionResource.CUSTOM_FIELD, PermissionAction.DELETE)
+  @ApiOperation({ summary: 'Delete a custom field and its values on all tasks' })
+  @ApiParam({ name: 'organizationId', description: 'Organization UUID' })
+  @ApiParam({ name: 'fieldId', description: 'Custom field UUID' })
+  @ApiResponse({ status: 200, description: 'Custom field deleted successfully' })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Requires ADMIN role or higher' })
+  @ApiResponse({ status: 404, description: 'Custom field not found' })
+  async remove(
+    @Param('organizationId', ParseUUIDPipe) organizationId: string,
+    @Param('fieldId', ParseUUIDPipe) fieldId: string
+  ) {
+    await this.customFieldsService.delete(organizationId, fieldId);
+    return { message: 'Custom field deleted successfully' };
+  }
+}
@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { CustomField, Task, UserOrganization } from '@task-manager/data';
+import { AuthModule } from '@task-manager/auth';
+import { CustomFieldsController } from './custom-fields.controller';
+import { CustomFieldsService } from './custom-fields.service';
+import { AuditModule } from '../audit/audit.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([CustomField, Task, UserOrganization]),
+    AuthModule,
+    AuditModule,
+  ],
+  controllers: [CustomFieldsController],
+  providers: [CustomFieldsService],
+  exports: [CustomFieldsService],
+})
+export class CustomFieldsModule {}
@@ -0,0 +1,311 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import {
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { Repository } from 'typeorm';
+import {
+  CustomField,
+  CustomFieldType,
+  Task,
+  UserOrganization,
+} from '@task-manager/data';
+import { CustomFieldsService } from './custom-fields.service';
+
+describe('CustomFieldsService', () => {
+  let service: CustomFieldsService;
+  let fieldRepository: jest.Mocked<Repository<CustomField>>;
+  let taskRepository: jest.Mocked<Repository<Task>>;
+  let userOrgRepository: jest.Mocked<Repository<UserOrganization>>;
+  let queryBuilder: Record<string, jest.Mock>;
+
+  const makeField = (
+    id: string,
+    name: string,
+    type: CustomFieldType,
+    overrides: Partial<CustomField> = {}
+  ) =>
+    ({
+      id,
+      organizationId: 'org-uuid-1',
+      name,
+      type,
+      options: null,
+      required: false,
+      position: 0,
+      ...overrides,
+    }) as CustomField;
+
+  let customer: CustomField;
+  let estimate: CustomField;
+  let tags: CustomField;
+  let reviewer: CustomField;
+
+  beforeEach(async () => {
+    customer = makeField('field-customer', 'Customer', CustomFieldType.SINGLE_SELECT, {
+      options: ['Acme', 'Globex'],
+      position: 0,
+    });
+    estimate = makeField('field-estimate', 'Estimate', CustomFieldType.NUMBER, {
+      position: 1,
+    });
+    tags = makeField('field-tags', 'Tags', CustomFieldType.MULTI_SELECT, {
+      options: ['Urgent', 'Backend', 'Frontend'],
+      position: 2,
+    });
+    reviewer = makeField('field-reviewer', 'Reviewer', CustomFieldType.USER, {
+      position: 3,
+    });
+
+    queryBuilder = {
+      update: jest.fn().mockReturnThis(),
+      set: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      withDeleted: jest.fn().mockReturnThis(),
+      setParameter: jest.fn().mockReturnThis(),
+      execute: jest.fn(),
+      getMany: jest.fn().mockResolvedValue([]),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CustomFieldsService,
+        {
+          provide: getRepositoryToken(CustomField),
+          useValue: {
+            create: jest.fn((data) => data),
+            save: jest.fn((data) => Promise.resolve(data)),
+            find: jest.fn(),
+            remove: jest.fn(),
+          },
+        },
+        {
+          provide: getRepositoryToken(Task),
+          useValue: {
+            createQueryBuilder: jest.fn(() => queryBuilder),
+            update: jest.fn(),
+          },
+        },
+        {
+          provide: getRepositoryToken(UserOrganization),
+          useValue: {
+            findOne: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<CustomFieldsService>(CustomFieldsService);
+    fieldRepository = module.get(getRepositoryToken(CustomField));
+    taskRepository = module.get(getRepositoryToken(Task));
+    userOrgRepository = module.get(getRepositoryToken(UserOrganization));
+  });
+
+  describe('create', () => {
+    it('should append the field with deduplicated options', async () => {
+      fieldRepository.find.mockResolvedValue([customer, estimate]);
+
+      const result = await service.create('org-uuid-1', {
+        name: ' Severity ',
+        type: CustomFieldType.SINGLE_SELECT,
+        options: ['Low', ' High ', 'Low', ''],
+      });
+
+      expect(result).toEqual(
+        expect.objectContaining({
+          name: 'Severity',
+          options: ['Low', 'High'],
+          required: false,
+          position: 2,
+        })
+      );
+    });
+
+    it('should reject a name already used in the organization', async () => {
+      fieldRepository.find.mockResolvedValue([customer]);
+
+      await expect(
+        service.create('org-uuid-1', {
+          name: 'customer',
+          type: CustomFieldType.TEXT,
+        })
+      ).rejects.toThrow(ConflictException);
+    });
+
+    it('should require options for select fields', async () => {
+      fieldRepository.find.mockResolvedValue([]);
+
+      await expect(
+        service.create('org-uuid-1', {
+          name: 'Severity',
+          type: CustomFieldType.MULTI_SELECT,
+          options: [],
+        })
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should refuse options on other field types', async () => {
+      fieldRepository.find.mockResolvedValue([]);
+
+      await expect(
+        service.create('org-uuid-1', {
+          name: 'Notes',
+          type: CustomFieldType.TEXT,
+          options: ['a'],
+        })
+      ).rejects.toThrow(BadRequestException);
+      expect(fieldRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('update', () => {
+    it('should clear removed options from tasks', async () => {
+      fieldRepository.find.mockResolvedValue([customer, tags]);
+      queryBuilder.getMany.mockResolvedValue([
+        { id: 'task-1', customFieldValues: { 'field-tags': ['Urgent', 'Backend'] } },
+        { id: 'task-2', customFieldValues: { 'field-tags': ['Urgent'] } },
+        { id: 'task-3', customFieldValues: { 'field-tags': ['Frontend'] } },
+      ]);
+
+      await service.update('org-uuid-1', 'field-tags', {
+        options: ['Backend', 'Frontend'],
+      });
+
+      expect(taskRepository.update).toHaveBeenCalledTimes(2);
+      expect(taskRepository.update).toHaveBeenCalledWith('task-1', {
+        customFieldValues: { 'field-tags': ['Backend'] },
+      });
+      expect(taskRepository.update).toHaveBeenCalledWith('task-2', {
+        customFieldValues: {},
+      });
+    });
+
+    it('should throw NotFoundException for an unknown field', async () => {
+      fieldRepository.find.mockResolvedValue([customer]);
+
+      await expect(
+        service.update('org-uuid-1', 'field-missing', { name: 'X' })
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('delete', () => {
+    it('should remove the field value from every task of the organization', async () => {
+      fieldRepository.find.mockResolvedValue([customer, estimate]);
+
+      await service.delete('org-uuid-1', 'field-estimate');
+
+      expect(queryBuilder.where).toHaveBeenCalledWith(
+        'organization_id = :organizationId',
+        { organizationId: 'org-uuid-1' }
+      );
+      expect(queryBuilder.setParameter).toHaveBeenCalledWith(
+        'fieldId',
+        'field-estimate'
+      );
+      expect(fieldRepository.remove).toHaveBeenCalledWith(estimate);
+    });
+  });
+
+  describe('resolveValues', () => {
+    beforeEach(() => {
+      fieldRepository.find.mockResolvedValue([customer, estimate, tags, reviewer]);
+    });
+
+    it('should normalize values and merge them into the current ones', async () => {
+      const result = await service.resolveValues(
+        'org-uuid-1',
+        { 'field-tags': ['Frontend', 'Urgent', 'Frontend'], 'field-estimate': 3 },
+        { 'field-customer': 'Acme', 'field-estimate': 1 }
+      );
+
+      expect(result).toEqual({
+        'field-customer': 'Acme',
+        'field-estimate': 3,
+        'field-tags': ['Urgent', 'Frontend'],
+      });
+    });
+
+    it('should clear a value set to null', async () => {
+      const result = await service.resolveValues(
+        'org-uuid-1',
+        { 'field-customer': null },
+        { 'field-customer': 'Acme' }
+      );
+
+      expect(result).toEqual({});
+    });
+
+    it('should reject a field of another organization', async () => {
+      await expect(
+        service.resolveValues('org-uuid-1', { 'field-elsewhere': 'x' })
+      ).rejects.toThrow('Unknown custom field field-elsewhere');
+    });
+
+    it('should reject values of the wrong type', async () => {
+      await expect(
+        service.resolveValues('org-uuid-1', { 'field-estimate': '3' })
+      ).rejects.toThrow('Custom field "Estimate" must be a number');
+      await expect(
+        service.resolveValues('org-uuid-1', { 'field-customer': 'Initech' })
+      ).rejects.toThrow('Custom field "Customer" must be one of its options');
+    });
+
+    it('should only accept members of the organization for user fields', async () => {
+      userOrgRepository.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.resolveValues('org-uuid-1', { 'field-reviewer': 'user-outsider' })
+      ).rejects.toThrow(BadRequestException);
+      expect(userOrgRepository.findOne).toHaveBeenCalledWith({
+        where: { userId: 'user-outsider', organizationId: 'org-uuid-1' },
+      });
+    });
+
+    it('should require required fields on new tasks', async () => {
+      customer.required = true;
+
+      await expect(
+        service.resolveValues('org-uuid-1', {}, {}, true)
+      ).rejects.toThrow('Custom field "Customer" is required');
+    });
+
+    it('should let updates leave an unset required field alone', async () => {
+      customer.required = true;
+
+      await expect(
+        service.resolveValues('org-uuid-1', { 'field-estimate': 2 }, {})
+      ).resolves.toEqual({ 'field-estimate': 2 });
+      await expect(
+        service.resolveValues('org-uuid-1', { 'field-customer': null }, {
+          'field-customer': 'Acme',
+        })
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('buildFilter', () => {
+    it('should wrap a single option for multi-select fields', async () => {
+      fieldRepository.find.mockResolvedValue([customer, tags]);
+
+      const result = await service.buildFilter('org-uuid-1', {
+        'field-customer': 'Acme',
+        'field-tags': 'Urgent',
+      });
+
+      expect(result).toEqual({
+        'field-customer': 'Acme',
+        'field-tags': ['Urgent'],
+      });
+    });
+
+    it('should reject a filter that is not an object', async () => {
+      await expect(service.buildFilter('org-uuid-1', ['Acme'])).rejects.toThrow(
+        BadRequestException
+      );
+    });
+  });
+});
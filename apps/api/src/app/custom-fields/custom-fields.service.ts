@@ -0,0 +1,396 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import {
+  CustomField,
+  CustomFieldType,
+  CustomFieldValue,
+  Task,
+  UserOrganization,
+} from '@task-manager/data';
+
+export interface CreateCustomFieldDto {
+  name: string;
+  type: CustomFieldType;
+  options?: string[];
+  required?: boolean;
+}
+
+export interface UpdateCustomFieldDto {
+  name?: string;
+  options?: string[];
+  required?: boolean;
+}
+
+export const MAX_TEXT_VALUE_LENGTH = 1000;
+
+const SELECT_TYPES = [CustomFieldType.SINGLE_SELECT, CustomFieldType.MULTI_SELECT];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+@Injectable()
+export class CustomFieldsService {
+  constructor(
+    @InjectRepository(CustomField)
+    private readonly fieldRepository: Repository<CustomField>,
+    @InjectRepository(Task)
+    private readonly taskRepository: Repository<Task>,
+    @InjectRepository(UserOrganization)
+    private readonly userOrgRepository: Repository<UserOrganization>
+  ) {}
+
+  async findByOrganization(organizationId: string): Promise<CustomField[]> {
+    return this.fieldRepository.find({
+      where: { organizationId },
+      order: { position: 'ASC' },
+    });
+  }
+
+  async create(
+    organizationId: string,
+    dto: CreateCustomFieldDto
+  ): Promise<CustomField> {
+    const fields = await this.findByOrganization(organizationId);
+    const name = dto.name.trim();
+    this.assertUniqueName(fields, name);
+
+    const field = this.fieldRepository.create({
+      organizationId,
+      name,
+      type: dto.type,
+      options: this.resolveOptions(dto.type, dto.options),
+      required: dto.required ?? false,
+      position: fields.length
+        ? Math.max(...fields.map((f) => f.position)) + 1
+        : 0,
+    });
+
+    return this.fieldRepository.save(field);
+  }
+
+  /**
+   * Update a field definition. The type is fixed once created; removing
+   * an option also removes it from the tasks that had it selected.
+   */
+  async update(
+    organizationId: string,
+    fieldId: string,
+    dto: UpdateCustomFieldDto
+  ): Promise<CustomField> {
+    const fields = await this.findByOrganization(organizationId);
+    const field = this.pick(fields, fieldId);
+
+    if (dto.name !== undefined) {
+      const name = dto.name.trim();
+      this.assertUniqueName(fields, name, field.id);
+      field.name = name;
+    }
+    if (dto.required !== undefined) {
+      field.required = dto.required;
+    }
+
+    let removedOptions: string[] = [];
+    if (dto.options !== undefined) {
+      const options = this.resolveOptions(field.type, dto.options);
+      removedOptions = (field.options ?? []).filter(
+        (option) => !options?.includes(option)
+      );
+      field.options = options;
+    }
+
+    const saved = await this.fieldRepository.save(field);
+
+    if (removedOptions.length) {
+      await this.removeOptionValues(field, removedOptions);
+    }
+
+    return saved;
+  }
+
+  /**
+   * Delete a field along with its value on every task of the organization,
+   * including soft-deleted ones.
+   */
+  async delete(organizationId: string, fieldId: string): Promise<void> {
+    const fields = await this.findByOrganization(organizationId);
+    const field = this.pick(fields, fieldId);
+
+    await this.taskRepository
+      .createQueryBuilder()
+      .update(Task)
+      .set({ customFieldValues: () => '"custom_field_values" - :fieldId' })
+      .where('organization_id = :organizationId', { organizationId })
+      .setParameter('fieldId', field.id)
+      .execute();
+
+    await this.fieldRepository.remove(field);
+  }
+
+  /**
+   * Validate custom field input for a task and merge it into the task's
+   * current values. Keys are field IDs; null (or an empty string or list)
+   * clears a value. New tasks must fill in every required field, while
+   * updates only check the required fields they touch so tasks created
+   * before a field became required can still be edited.
+   */
+  async resolveValues(
+    organizationId: string,
+    input: Record<string, unknown>,
+    current: Record<string, CustomFieldValue> = {},
+    isNew = false
+  ): Promise<Record<string, CustomFieldValue>> {
+    const fields = await this.findByOrganization(organizationId);
+    const byId = new Map(fields.map((f) => [f.id, f]));
+    const values = { ...current };
+
+    for (const [fieldId, raw] of Object.entries(input)) {
+      const field = byId.get(fieldId);
+      if (!field) {
+        throw new BadRequestException(
+          `Unknown custom field ${fieldId} for this organization`
+        );
+      }
+
+      if (this.isEmpty(raw)) {
+        delete values[field.id];
+      } else {
+        values[field.id] = await this.coerceValue(field, raw);
+      }
+    }
+
+    const checked = isNew ? fields : fields.filter((f) => f.id in input);
+    const missing = checked.find((f) => f.required && !(f.id in values));
+    if (missing) {
+      throw new BadRequestException(
+        `Custom field "${missing.name}" is required`
+      );
+    }
+
+    return values;
+  }
+
+  /**
+   * Turn a field ID → value filter into a JSONB containment object for
+   * task queries. A MULTI_SELECT filter matches tasks that have the given
+   * option among their selections.
+   */
+  async buildFilter(
+    organizationId: string,
+    filter: unknown
+  ): Promise<Record<string, CustomFieldValue>> {
+    if (typeof filter !== 'object' || filter === null || Array.isArray(filter)) {
+      throw new BadRequestException(
+        'customFields must be an object of field ID to value'
+      );
+    }
+
+    const fields = await this.findByOrganization(organizationId);
+    const byId = new Map(fields.map((f) => [f.id, f]));
+    const containment: Record<string, CustomFieldValue> = {};
+
+    for (const [fieldId, raw] of Object.entries(filter)) {
+      const field = byId.get(fieldId);
+      if (!field) {
+        throw new BadRequestException(
+          `Unknown custom field ${fieldId} for this organization`
+        );
+      }
+
+      const value =
+        field.type === CustomFieldType.MULTI_SELECT && !Array.isArray(raw)
+          ? [raw]
+          : raw;
+      containment[field.id] = await this.coerceValue(field, value);
+    }
+
+    return containment;
+  }
+
+  /**
+   * Check a value against its field's type and normalize it for storage.
+   */
+  private async coerceValue(
+    field: CustomField,
+    raw: unknown
+  ): Promise<CustomFieldValue> {
+    switch (field.type) {
+      case CustomFieldType.TEXT: {
+        if (typeof raw !== 'string') {
+          throw this.invalid(field, 'must be text');
+        }
+        const text = raw.trim();
+        if (text.length > MAX_TEXT_VALUE_LENGTH) {
+          throw this.invalid(
+            field,
+            `must be at most ${MAX_TEXT_VALUE_LENGTH} characters`
+          );
+        }
+        return text;
+      }
+
+      case CustomFieldType.NUMBER:
+        if (typeof raw !== 'number' || !Number.isFinite(raw)) {
+          throw this.invalid(field, 'must be a number');
+        }
+        return raw;
+
+      case CustomFieldType.DATE:
+        if (
+          typeof raw !== 'string' ||
+          !DATE_PATTERN.test(raw) ||
+          isNaN(new Date(raw).getTime())
+        ) {
+          throw this.invalid(field, 'must be a date in yyyy-MM-dd format');
+        }
+        return raw;
+
+      case CustomFieldType.SINGLE_SELECT:
+        if (typeof raw !== 'string' || !field.options?.includes(raw)) {
+          throw this.invalid(field, 'must be one of its options');
+        }
+        return raw;
+
+      case CustomFieldType.MULTI_SELECT: {
+        const options = field.options ?? [];
+        if (
+          !Array.isArray(raw) ||
+          raw.some((item) => typeof item !== 'string' || !options.includes(item))
+        ) {
+          throw this.invalid(field, 'must be a list of its options');
+        }
+        // Keep the options' order so equal selections compare equal
+        return options.filter((option) => raw.includes(option));
+      }
+
+      case CustomFieldType.USER: {
+        const membership =
+          typeof raw === 'string'
+            ? await this.userOrgRepository.findOne({
+                where: { userId: raw, organizationId: field.organizationId },
+              })
+            : null;
+        if (!membership) {
+          throw this.invalid(field, 'must be a member of the organization');
+        }
+        return raw as string;
+      }
+    }
+  }
+
+  private isEmpty(raw: unknown): boolean {
+    return (
+      raw === null ||
+      raw === '' ||
+      (Array.isArray(raw) && raw.length === 0)
+    );
+  }
+
+  private invalid(field: CustomField, problem: string): BadRequestException {
+    return new BadRequestException(`Custom field "${field.name}" ${problem}`);
+  }
+
+  /**
+   * Drop removed options from the tasks that store them. Single-select
+   * values are cleared, multi-select values keep their other options.
+   */
+  private async removeOptionValues(
+    field: CustomField,
+    removed: string[]
+  ): Promise<void> {
+    const tasks = await this.taskRepository
+      .createQueryBuilder('task')
+      .withDeleted()
+      .where('task.organization_id = :organizationId', {
+        organizationId: field.organizationId,
+      })
+      .andWhere('task.custom_field_values ? :fieldId', { fieldId: field.id })
+      .getMany();
+
+    const changed: Task[] = [];
+    for (const task of tasks) {
+      const value = task.customFieldValues[field.id];
+      if (Array.isArray(value)) {
+        const kept = value.filter((option) => !removed.includes(option));
+        if (kept.length === value.length) continue;
+        if (kept.length) {
+          task.customFieldValues[field.id] = kept;
+        } else {
+          delete task.customFieldValues[field.id];
+        }
+      } else if (typeof value === 'string' && removed.includes(value)) {
+        delete task.customFieldValues[field.id];
+      } else {
+        continue;
+      }
+      changed.push(task);
+    }
+
+    for (const task of changed) {
+      await this.taskRepository.update(task.id, {
+        customFieldValues: task.customFieldValues,
+      });
+    }
+  }
+
+  private pick(fields: CustomField[], fieldId: string): CustomField {
+    const field = fields.find((f) => f.id === fieldId);
+
+    if (!field) {
+      throw new NotFoundException(`Custom field with ID ${fieldId} not found`);
+    }
+
+    return field;
+  }
+
+  /**
+   * Select fields need at least one option; other types take none.
+   */
+  private resolveOptions(
+    type: CustomFieldType,
+    options: string[] | undefined
+  ): string[] | null {
+    if (!SELECT_TYPES.includes(type)) {
+      if (options?.length) {
+        throw new BadRequestException(
+          'Options are only supported for select fields'
+        );
+      }
+      return null;
+    }
+
+    const unique = [
+      ...new Set((options ?? []).map((option) => option.trim()).filter(Boolean)),
+    ];
+    if (unique.length === 0) {
+      throw new BadRequestException('Select fields need at least one option');
+    }
+
+    return unique;
+  }
+
+  /**
+   * Field names are compared case-insensitively, like label names.
+   */
+  private assertUniqueName(
+    fields: CustomField[],
+    name: string,
+    fieldId?: string
+  ): void {
+    const duplicate = fields.find(
+      (field) =>
+        field.id !== fieldId &&
+        field.name.toLowerCase() === name.toLowerCase()
+    );
+
+    if (duplicate) {
+      throw new ConflictException(
+        `A custom field named "${duplicate.name}" already exists`
+      );
+    }
+  }
+}
@@ -0,0 +1,53 @@
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsOptional,
+  IsString,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { CustomFieldType } from '@task-manager/data';
+
+export class CreateCustomFieldDto {
+  @ApiProperty({
+    description: 'Field name, unique within the organization',
+    example: 'Customer',
+    maxLength: 50,
+  })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(50)
+  name!: string;
+
+  @ApiProperty({
+    description: 'Kind of value the field holds; cannot be changed later',
+    enum: CustomFieldType,
+    example: CustomFieldType.SINGLE_SELECT,
+  })
+  @IsEnum(CustomFieldType)
+  type!: CustomFieldType;
+
+  @ApiPropertyOptional({
+    description: 'Choices for SINGLE_SELECT and MULTI_SELECT fields',
+    example: ['Acme', 'Globex'],
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @IsString({ each: true })
+  @MaxLength(100, { each: true })
+  options?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Whether new tasks must set a value',
+    example: false,
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  required?: boolean;
+}
@@ -0,0 +1,2 @@
+export * from './create-custom-field.dto';
+export * from './update-custom-field.dto';
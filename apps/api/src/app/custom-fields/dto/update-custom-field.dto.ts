@@ -0,0 +1,44 @@
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsBoolean,
+  IsOptional,
+  IsString,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class UpdateCustomFieldDto {
+  @ApiPropertyOptional({
+    description: 'New field name, unique within the organization',
+    example: 'Client',
+    maxLength: 50,
+  })
+  @IsOptional()
+  @IsString()
+  @MinLength(1)
+  @MaxLength(50)
+  name?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Replacement choices for select fields; removed options are cleared from tasks',
+    example: ['Acme', 'Globex', 'Initech'],
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @IsString({ each: true })
+  @MaxLength(100, { each: true })
+  options?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Whether new tasks must set a value',
+    example: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  required?: boolean;
+}
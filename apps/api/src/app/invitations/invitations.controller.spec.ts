@@ -10,6 +10,7 @@ import {
   InvitationStatus,
   Organization,
   User,
+  EstimateUnit,
 } from '@task-manager/data';
 
 describe('InvitationsController', () => {
@@ -20,6 +21,12 @@ describe('InvitationsController', () => {
     id: 'org-uuid-1',
     name: 'Test Organization',
     parentId: null,
+    attachmentQuotaMb: null,
+    allowedMimeTypes: null,
+    enforceBlockers: false,
+    estimateUnit: EstimateUnit.POINTS,
+    mfaRequiredRole: null,
+    ssoRequired: false,
     createdAt: new Date(),
     updatedAt: new Date(),
     parent: null,
@@ -127,6 +134,7 @@ describe('InvitationsController', () => {
       };
       const expectedResponse = {
         access_token: 'mock-jwt-token',
+        refresh_token: 'mock-refresh-token',
         user: { id: 'user-uuid-1', email: 'invited@example.com' },
         organization: { id: 'org-uuid-1', name: 'Test Organization' },
         role: OrganizationRole.ADMIN,
@@ -6,7 +6,7 @@ import {
   BadRequestException,
   ConflictException,
 } from '@nestjs/common';
-import { JwtService } from '@nestjs/jwt';
+import { AuthService } from '@task-manager/auth';
 import { Repository } from 'typeorm';
 import * as bcrypt from 'bcrypt';
 import { InvitationsService } from './invitations.service';
@@ -17,6 +17,7 @@ import {
   Invitation,
   OrganizationRole,
   InvitationStatus,
+  EstimateUnit,
 } from '@task-manager/data';
 
 describe('InvitationsService', () => {
@@ -25,12 +26,17 @@ describe('InvitationsService', () => {
   let userRepository: jest.Mocked<Repository<User>>;
   let organizationRepository: jest.Mocked<Repository<Organization>>;
   let userOrgRepository: jest.Mocked<Repository<UserOrganization>>;
-  // jwtService is used by the service but not directly in tests
 
   const mockOrganization: Organization = {
     id: 'org-uuid-1',
     name: 'Test Organization',
     parentId: null,
+    attachmentQuotaMb: null,
+    allowedMimeTypes: null,
+    enforceBlockers: false,
+    estimateUnit: EstimateUnit.POINTS,
+    mfaRequiredRole: null,
+    ssoRequired: false,
     createdAt: new Date(),
     updatedAt: new Date(),
     parent: null,
@@ -93,8 +99,12 @@ describe('InvitationsService', () => {
       findOne: jest.fn(),
     };
 
-    const mockJwtService = {
-      sign: jest.fn().mockReturnValue('mock-jwt-token'),
+    const mockAuthService = {
+      authenticate: jest.fn(async (user: { id: string; email: string }) => ({
+        access_token: 'mock-jwt-token',
+        refresh_token: 'mock-refresh-token',
+        user: { id: user.id, email: user.email },
+      })),
     };
 
     const module: TestingModule = await Test.createTestingModule({
@@ -104,7 +114,7 @@ describe('InvitationsService', () => {
         { provide: getRepositoryToken(User), useValue: mockUserRepo },
         { provide: getRepositoryToken(Organization), useValue: mockOrgRepo },
         { provide: getRepositoryToken(UserOrganization), useValue: mockUserOrgRepo },
-        { provide: JwtService, useValue: mockJwtService },
+        { provide: AuthService, useValue: mockAuthService },
       ],
     }).compile();
 
@@ -113,7 +123,6 @@ describe('InvitationsService', () => {
     userRepository = module.get(getRepositoryToken(User));
     organizationRepository = module.get(getRepositoryToken(Organization));
     userOrgRepository = module.get(getRepositoryToken(UserOrganization));
-    jwtService = module.get(JwtService);
   });
 
   afterEach(() => {
@@ -269,8 +278,10 @@ describe('InvitationsService', () => {
 
       const result = await service.acceptInvitation(dto);
 
-      expect(result.access_token).toBe('mock-jwt-token');
-      expect(result.user.email).toBe(mockUser.email);
+      expect(result).toMatchObject({
+        access_token: 'mock-jwt-token',
+        user: { email: mockUser.email },
+      });
     });
 
     it('should throw NotFoundException if invitation not found', async () => {
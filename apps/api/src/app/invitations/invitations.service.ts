@@ -16,8 +16,9 @@ import {
   OrganizationRole,
   Invitation,
   InvitationStatus,
+  IMfaChallenge,
 } from '@task-manager/data';
-import { JwtService } from '@nestjs/jwt';
+import { AuthService, LoginResponse } from '@task-manager/auth';
 import { CreateInvitationDto } from './dto/create-invitation.dto';
 import { AcceptInvitationDto } from './dto/accept-invitation.dto';
 
@@ -32,7 +33,7 @@ export class InvitationsService {
     private readonly organizationRepository: Repository<Organization>,
     @InjectRepository(UserOrganization)
     private readonly userOrgRepository: Repository<UserOrganization>,
-    private readonly jwtService: JwtService
+    private readonly authService: AuthService
   ) {}
 
   /**
@@ -113,14 +114,14 @@ export class InvitationsService {
 
   /**
    * Accept an invitation and register/add user to organization
-   * Returns JWT token for automatic login
+   * Returns a token pair for automatic login
    */
-  async acceptInvitation(dto: AcceptInvitationDto): Promise<{
-    access_token: string;
-    user: { id: string; email: string };
-    organization: { id: string; name: string };
-    role: OrganizationRole;
-  }> {
+  async acceptInvitation(dto: AcceptInvitationDto): Promise<
+    (LoginResponse | IMfaChallenge) & {
+      organization: { id: string; name: string };
+      role: OrganizationRole;
+    }
+  > {
     const invitation = await this.invitationRepository.findOne({
       where: { token: dto.token },
       relations: ['organization'],
@@ -175,13 +176,12 @@ export class InvitationsService {
     invitation.acceptedAt = new Date();
     await this.invitationRepository.save(invitation);
 
-    // Generate JWT token for automatic login
-    const payload = { sub: user.id, email: user.email };
-    const access_token = this.jwtService.sign(payload);
+    // Start a session for automatic login, unless the account has 2FA
+    // and a code is needed first
+    const tokens = await this.authService.authenticate(user);
 
     return {
-      access_token,
-      user: { id: user.id, email: user.email },
+      ...tokens,
       organization: {
         id: invitation.organization.id,
         name: invitation.organization.name,
@@ -0,0 +1,23 @@
+import { IsString, Matches, MaxLength, MinLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class CreateLabelDto {
+  @ApiProperty({
+    description: 'Label name, unique within the organization',
+    example: 'Backend',
+    maxLength: 50,
+  })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(50)
+  name!: string;
+
+  @ApiProperty({
+    description: 'Hex colour used for the label badge',
+    example: '#6366f1',
+  })
+  @Matches(/^#[0-9a-fA-F]{6}$/, {
+    message: 'color must be a hex colour like #6366f1',
+  })
+  color!: string;
+}
@@ -0,0 +1,2 @@
+export * from './create-label.dto';
+export * from './update-label.dto';
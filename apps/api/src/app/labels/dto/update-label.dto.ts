@@ -0,0 +1,31 @@
+import {
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class UpdateLabelDto {
+  @ApiPropertyOptional({
+    description: 'New label name, unique within the organization',
+    example: 'Frontend',
+    maxLength: 50,
+  })
+  @IsOptional()
+  @IsString()
+  @MinLength(1)
+  @MaxLength(50)
+  name?: string;
+
+  @ApiPropertyOptional({
+    description: 'New hex colour',
+    example: '#22c55e',
+  })
+  @IsOptional()
+  @Matches(/^#[0-9a-fA-F]{6}$/, {
+    message: 'color must be a hex colour like #6366f1',
+  })
+  color?: string;
+}
@@ -0,0 +1,114 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+  UseInterceptors,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+} from '@nestjs/swagger';
+import {
+  JwtAuthGuard,
+  OrgRolesGuard,
+  OrgRoles,
+  PermissionsGuard,
+  RequirePermission,
+} from '@task-manager/auth';
+import {
+  OrganizationRole,
+  Label,
+  PermissionResource,
+  PermissionAction,
+} from '@task-manager/data';
+import { LabelsService } from './labels.service';
+import { CreateLabelDto } from './dto/create-label.dto';
+import { UpdateLabelDto } from './dto/update-label.dto';
+import { AuditInterceptor } from '../audit/audit.interceptor';
+
+@ApiTags('Labels')
+@ApiBearerAuth('JWT-auth')
+@Controller('organizations/:organizationId/labels')
+@UseInterceptors(AuditInterceptor)
+export class LabelsController {
+  constructor(private readonly labelsService: LabelsService) {}
+
+  @Get()
+  @UseGuards(JwtAuthGuard, OrgRolesGuard, PermissionsGuard)
+  @OrgRoles(OrganizationRole.VIEWER)
+  @RequirePermission(PermissionResource.ORGANIZATION, PermissionAction.READ)
+  @ApiOperation({ summary: 'List the labels of an organization' })
+  @ApiParam({ name: 'organizationId', description: 'Organization UUID' })
+  @ApiResponse({ status: 200, description: 'Labels retrieved successfully', type: [Label] })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 403, description: 'Forbidden - User does not have access to this organization' })
+  async findAll(@Param('organizationId', ParseUUIDPipe) organizationId: string) {
+    return this.labelsService.findByOrganization(organizationId);
+  }
+
+  @Post()
+  @UseGuards(JwtAuthGuard, OrgRolesGuard, PermissionsGuard)
+  @OrgRoles(OrganizationRole.ADMIN)
+  @RequirePermission(PermissionResource.ORGANIZATION, PermissionAction.UPDATE)
+  @ApiOperation({ summary: 'Create a label' })
+  @ApiParam({ name: 'organizationId', description: 'Organization UUID' })
+  @ApiResponse({ status: 201, description: 'Label created successfully', type: Label })
+  @ApiResponse({ status: 400, description: 'Bad Request - Invalid name or colour' })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Requires ADMIN role or higher' })
+  @ApiResponse({ status: 409, description: 'Conflict - A label with this name already exists' })
+  async create(
+    @Param('organizationId', ParseUUIDPipe) organizationId: string,
+    @Body() createLabelDto: CreateLabelDto
+  ) {
+    return this.labelsService.create(organizationId, createLabelDto);
+  }
+
+  @Patch(':labelId')
+  @UseGuards(JwtAuthGuard, OrgRolesGuard, PermissionsGuard)
+  @OrgRoles(OrganizationRole.ADMIN)
+  @RequirePermission(PermissionResource.ORGANIZATION, PermissionAction.UPDATE)
+  @ApiOperation({ summary: 'Rename or recolour a label' })
+  @ApiParam({ name: 'organizationId', description: 'Organization UUID' })
+  @ApiParam({ name: 'labelId', description: 'Label UUID' })
+  @ApiResponse({ status: 200, description: 'Label updated successfully', type: Label })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Requires ADMIN role or higher' })
+  @ApiResponse({ status: 404, description: 'Label not found' })
+  @ApiResponse({ status: 409, description: 'Conflict - A label with this name already exists' })
+  async update(
+    @Param('organizationId', ParseUUIDPipe) organizationId: string,
+    @Param('labelId', ParseUUIDPipe) labelId: string,
+    @Body() updateLabelDto: UpdateLabelDto
+  ) {
+    return this.labelsService.update(organizationId, labelId, updateLabelDto);
+  }
+
+  @Delete(':labelId')
+  @UseGuards(JwtAuthGuard, OrgRolesGuard, PermissionsGuard)
+  @OrgRoles(OrganizationRole.ADMIN)
+  @RequirePermission(PermissionResource.ORGANIZATION, PermissionAction.UPDATE)
+  @ApiOperation({ summary: 'Delete a label and remove it from all tasks' })
+  @ApiParam({ name: 'organizationId', description: 'Organization UUID' })
+  @ApiParam({ name: 'labelId', description: 'Label UUID' })
+  @ApiResponse({ status: 200, description: 'Label deleted successfully' })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Requires ADMIN role or higher' })
+  @ApiResponse({ status: 404, description: 'Label not found' })
+  async remove(
+    @Param('organizationId', ParseUUIDPipe) organizationId: string,
+    @Param('labelId', ParseUUIDPipe) labelId: string
+  ) {
+    await this.labelsService.delete(organizationId, labelId);
+    return { message: 'Label deleted successfully' };
+  }
+}
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Label } from '@task-manager/data';
+import { AuthModule } from '@task-manager/auth';
+import { LabelsController } from './labels.controller';
+import { LabelsService } from './labels.service';
+import { AuditModule } from '../audit/audit.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Label]), AuthModule, AuditModule],
+  controllers: [LabelsController],
+  providers: [LabelsService],
+  exports: [LabelsService],
+})
+export class LabelsModule {}
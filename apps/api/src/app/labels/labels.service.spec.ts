@@ -0,0 +1,102 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { NotFoundException, ConflictException } from '@nestjs/common';
+import { Repository } from 'typeorm';
+import { Label } from '@task-manager/data';
+import { LabelsService } from './labels.service';
+
+describe('LabelsService', () => {
+  let service: LabelsService;
+  let labelRepository: jest.Mocked<Repository<Label>>;
+
+  const mockLabel = {
+    id: 'label-uuid-1',
+    organizationId: 'org-uuid-1',
+    name: 'Backend',
+    color: '#6366f1',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  } as Label;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LabelsService,
+        {
+          provide: getRepositoryToken(Label),
+          useValue: {
+            create: jest.fn((data) => data),
+            save: jest.fn((data) => Promise.resolve(data)),
+            find: jest.fn(),
+            findOne: jest.fn(),
+            remove: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<LabelsService>(LabelsService);
+    labelRepository = module.get(getRepositoryToken(Label));
+  });
+
+  describe('create', () => {
+    it('should create a label with a trimmed name and lower-case colour', async () => {
+      labelRepository.find.mockResolvedValue([]);
+
+      const result = await service.create('org-uuid-1', {
+        name: '  Frontend ',
+        color: '#22C55E',
+      });
+
+      expect(result).toEqual({
+        organizationId: 'org-uuid-1',
+        name: 'Frontend',
+        color: '#22c55e',
+      });
+    });
+
+    it('should reject a name already used in the organization', async () => {
+      labelRepository.find.mockResolvedValue([mockLabel]);
+
+      await expect(
+        service.create('org-uuid-1', { name: 'backend', color: '#000000' })
+      ).rejects.toThrow(ConflictException);
+      expect(labelRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('update', () => {
+    it('should allow keeping the same name', async () => {
+      labelRepository.findOne.mockResolvedValue({ ...mockLabel });
+      labelRepository.find.mockResolvedValue([mockLabel]);
+
+      const result = await service.update('org-uuid-1', 'label-uuid-1', {
+        name: 'Backend',
+        color: '#EF4444',
+      });
+
+      expect(result.color).toBe('#ef4444');
+    });
+
+    it('should throw NotFoundException for labels of another organization', async () => {
+      labelRepository.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.update('org-uuid-2', 'label-uuid-1', { name: 'Ops' })
+      ).rejects.toThrow(NotFoundException);
+      expect(labelRepository.findOne).toHaveBeenCalledWith({
+        where: { id: 'label-uuid-1', organizationId: 'org-uuid-2' },
+      });
+    });
+  });
+
+  describe('delete', () => {
+    it('should remove the label', async () => {
+      labelRepository.findOne.mockResolvedValue(mockLabel);
+
+      await service.delete('org-uuid-1', 'label-uuid-1');
+
+      expect(labelRepository.remove).toHaveBeenCalledWith(mockLabel);
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import {
+  Injectable,
+  NotFoundException,
+  ConflictException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Label } from '@task-manager/data';
+
+export interface CreateLabelDto {
+  name: string;
+  color: string;
+}
+
+export interface UpdateLabelDto {
+  name?: string;
+  color?: string;
+}
+
+@Injectable()
+export class LabelsService {
+  constructor(
+    @InjectRepository(Label)
+    private readonly labelRepository: Repository<Label>
+  ) {}
+
+  async findByOrganization(organizationId: string): Promise<Label[]> {
+    return this.labelRepository.find({
+      where: { organizationId },
+      order: { name: 'ASC' },
+    });
+  }
+
+  async create(organizationId: string, dto: CreateLabelDto): Promise<Label> {
+    const name = dto.name.trim();
+    await this.assertUniqueName(organizationId, name);
+
+    const label = this.labelRepository.create({
+      organizationId,
+      name,
+      color: dto.color.toLowerCase(),
+    });
+
+    return this.labelRepository.save(label);
+  }
+
+  async update(
+    organizationId: string,
+    labelId: string,
+    dto: UpdateLabelDto
+  ): Promise<Label> {
+    const label = await this.findLabel(organizationId, labelId);
+
+    if (dto.name !== undefined) {
+      const name = dto.name.trim();
+      await this.assertUniqueName(organizationId, name, label.id);
+      label.name = name;
+    }
+    if (dto.color !== undefined) {
+      label.color = dto.color.toLowerCase();
+    }
+
+    return this.labelRepository.save(label);
+  }
+
+  /**
+   * Delete a label. It is removed from all tasks by the join table cascade.
+   */
+  async delete(organizationId: string, labelId: string): Promise<void> {
+    const label = await this.findLabel(organizationId, labelId);
+    await this.labelRepository.remove(label);
+  }
+
+  private async findLabel(
+    organizationId: string,
+    labelId: string
+  ): Promise<Label> {
+    const label = await this.labelRepository.findOne({
+      where: { id: labelId, organizationId },
+    });
+
+    if (!label) {
+      throw new NotFoundException(`Label with ID ${labelId} not found`);
+    }
+
+    return label;
+  }
+
+  /**
+   * Label names are compared case-insensitively so "Bug" and "bug"
+   * can't both exist in one organization.
+   */
+  private async assertUniqueName(
+    organizationId: string,
+    name: string,
+    labelId?: string
+  ): Promise<void> {
+    const labels = await this.findByOrganization(organizationId);
+    const duplicate = labels.find(
+      (label) =>
+        label.id !== labelId && label.name.toLowerCase() === name.toLowerCase()
+    );
+
+    if (duplicate) {
+      throw new ConflictException(`A label named "${duplicate.name}" already exists`);
+    }
+  }
+}
@@ -1,5 +1,17 @@
 import { ApiPropertyOptional } from '@nestjs/swagger';
-import { IsString, IsOptional, MinLength, MaxLength } from 'class-validator';
+import {
+  IsString,
+  IsOptional,
+  IsInt,
+  IsArray,
+  IsBoolean,
+  Matches,
+  Min,
+  MinLength,
+  MaxLength,
+  IsEnum,
+} from 'class-validator';
+import { EstimateUnit, OrganizationRole } from '@task-manager/data';
 
 export class UpdateOrganizationDto {
   @ApiPropertyOptional({
@@ -13,4 +25,66 @@ export class UpdateOrganizationDto {
   @MinLength(2, { message: 'Organization name must be at least 2 characters' })
   @MaxLength(255, { message: 'Organization name must not exceed 255 characters' })
   name?: string;
+
+  @ApiPropertyOptional({
+    description: 'Attachment storage quota in megabytes, or null for the server default',
+    example: 1024,
+    minimum: 0,
+    nullable: true,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  attachmentQuotaMb?: number | null;
+
+  @ApiPropertyOptional({
+    description: 'MIME types allowed for attachments (`type/*` wildcards supported), or null for the server default',
+    example: ['image/*', 'application/pdf'],
+    type: [String],
+    nullable: true,
+  })
+  @IsOptional()
+  @IsArray()
+  @Matches(/^[\w.+-]+\/(\*|[\w.+-]+)$/, {
+    each: true,
+    message: 'Each allowed MIME type must look like type/subtype or type/*',
+  })
+  allowedMimeTypes?: string[] | null;
+
+  @ApiPropertyOptional({
+    description: 'Refuse moving a task to IN_PROGRESS while tasks that block it are still open',
+    example: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  enforceBlockers?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Unit of task estimates',
+    enum: EstimateUnit,
+    example: EstimateUnit.POINTS,
+  })
+  @IsOptional()
+  @IsEnum(EstimateUnit)
+  estimateUnit?: EstimateUnit;
+
+  @ApiPropertyOptional({
+    description:
+      'Lowest role that must have two-factor authentication enabled to use the organization, or null to not require it. Only the OWNER can change it.',
+    enum: OrganizationRole,
+    example: OrganizationRole.ADMIN,
+    nullable: true,
+  })
+  @IsOptional()
+  @IsEnum(OrganizationRole)
+  mfaRequiredRole?: OrganizationRole | null;
+
+  @ApiPropertyOptional({
+    description:
+      'Require members to sign in through single sign-on. Only the OWNER can change it, from an SSO session.',
+    example: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  ssoRequired?: boolean;
 }
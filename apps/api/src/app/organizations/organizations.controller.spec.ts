@@ -4,7 +4,7 @@ import { OrganizationsService } from './organizations.service';
 import { AuditInterceptor } from '../audit/audit.interceptor';
 import { AuditService } from '../audit/audit.service';
 import { JwtAuthGuard } from '@task-manager/auth';
-import { Organization, OrganizationRole } from '@task-manager/data';
+import { Organization, OrganizationRole, EstimateUnit } from '@task-manager/data';
 
 interface AuthenticatedRequest {
   user: { id: string; email: string };
@@ -18,6 +18,12 @@ describe('OrganizationsController', () => {
     id: 'org-uuid-1',
     name: 'Test Organization',
     parentId: null,
+    attachmentQuotaMb: null,
+    allowedMimeTypes: null,
+    enforceBlockers: false,
+    estimateUnit: EstimateUnit.POINTS,
+    mfaRequiredRole: null,
+    ssoRequired: false,
     createdAt: new Date(),
     updatedAt: new Date(),
     parent: null,
@@ -20,13 +20,14 @@ import {
   ApiBearerAuth,
   ApiParam,
 } from '@nestjs/swagger';
+import { AuthMethod } from '@task-manager/data';
 import { JwtAuthGuard } from '@task-manager/auth';
 import { OrganizationsService } from './organizations.service';
 import { CreateOrganizationDto, UpdateOrganizationDto } from './dto';
 import { AuditInterceptor } from '../audit/audit.interceptor';
 
 interface AuthenticatedRequest {
-  user: { id: string; email: string };
+  user: { id: string; email: string; authMethod?: AuthMethod };
 }
 
 @ApiTags('Organizations')
@@ -154,7 +155,8 @@ export class OrganizationsController {
     const organization = await this.organizationsService.update(
       id,
       dto,
-      req.user.id
+      req.user.id,
+      req.user.authMethod
     );
     return {
       message: 'Organization updated successfully',
@@ -241,4 +243,49 @@ export class OrganizationsController {
       createdAt: m.createdAt,
     }));
   }
+
+  @Delete(':id/members/:userId')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Remove a member',
+    description:
+      'Remove a member from an organization, or leave it by passing your own user ID. Only OWNER can remove others; the last OWNER cannot be removed. The member is unassigned from the organization\'s tasks.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Organization UUID',
+  })
+  @ApiParam({
+    name: 'userId',
+    description: 'User UUID of the member',
+  })
+  @ApiResponse({
+    status: 204,
+    description: 'Member removed successfully',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad Request - the member is the last OWNER',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - invalid or missing token',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - only OWNER can remove other members',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Organization or member not found',
+  })
+  async removeMember(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @Request() req: AuthenticatedRequest
+  ) {
+    await this.organizationsService.removeMember(id, userId, req.user.id);
+  }
 }
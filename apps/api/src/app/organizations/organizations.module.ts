@@ -5,12 +5,16 @@ import { AuthModule } from '@task-manager/auth';
 import { OrganizationsController } from './organizations.controller';
 import { OrganizationsService } from './organizations.service';
 import { AuditModule } from '../audit/audit.module';
+import { WorkflowModule } from '../workflow/workflow.module';
+import { TasksModule } from '../tasks/tasks.module';
 
 @Module({
   imports: [
     TypeOrmModule.forFeature([Organization, UserOrganization]),
     AuthModule,
     AuditModule,
+    WorkflowModule,
+    TasksModule,
   ],
   controllers: [OrganizationsController],
   providers: [OrganizationsService],
@@ -7,21 +7,32 @@ import {
 } from '@nestjs/common';
 import { Repository } from 'typeorm';
 import { OrganizationsService } from './organizations.service';
+import { WorkflowService } from '../workflow/workflow.service';
 import {
   Organization,
+  User,
   UserOrganization,
   OrganizationRole,
+  AuthMethod,
+  EstimateUnit,
 } from '@task-manager/data';
 
 describe('OrganizationsService', () => {
   let service: OrganizationsService;
   let organizationRepository: jest.Mocked<Repository<Organization>>;
   let userOrgRepository: jest.Mocked<Repository<UserOrganization>>;
+  let workflowService: jest.Mocked<WorkflowService>;
 
   const mockOrganization: Organization = {
     id: 'org-uuid-1',
     name: 'Test Organization',
     parentId: null,
+    attachmentQuotaMb: null,
+    allowedMimeTypes: null,
+    enforceBlockers: false,
+    estimateUnit: EstimateUnit.POINTS,
+    mfaRequiredRole: null,
+    ssoRequired: false,
     createdAt: new Date(),
     updatedAt: new Date(),
     parent: null,
@@ -68,12 +79,17 @@ describe('OrganizationsService', () => {
           provide: getRepositoryToken(UserOrganization),
           useValue: mockUserOrgRepo,
         },
+        {
+          provide: WorkflowService,
+          useValue: { createDefaults: jest.fn() },
+        },
       ],
     }).compile();
 
     service = module.get<OrganizationsService>(OrganizationsService);
     organizationRepository = module.get(getRepositoryToken(Organization));
     userOrgRepository = module.get(getRepositoryToken(UserOrganization));
+    workflowService = module.get(WorkflowService);
   });
 
   afterEach(() => {
@@ -102,6 +118,9 @@ describe('OrganizationsService', () => {
         organizationId: mockOrganization.id,
         role: OrganizationRole.OWNER,
       });
+      expect(workflowService.createDefaults).toHaveBeenCalledWith(
+        mockOrganization.id
+      );
     });
 
     it('should create a sub-organization if parentId is provided', async () => {
@@ -273,6 +292,89 @@ describe('OrganizationsService', () => {
         service.update('org-uuid-1', { name: 'New Name' }, 'user-uuid-1')
       ).rejects.toThrow(ForbiddenException);
     });
+
+    it('should let the OWNER with 2FA require it', async () => {
+      userOrgRepository.findOne.mockResolvedValue({
+        ...mockUserOrg,
+        organization: { ...mockOrganization },
+        user: { id: 'user-uuid-1', mfaEnabledAt: new Date() } as User,
+        role: OrganizationRole.OWNER,
+      });
+      organizationRepository.save.mockImplementation(async (org) => org as Organization);
+
+      const result = await service.update(
+        'org-uuid-1',
+        { mfaRequiredRole: OrganizationRole.ADMIN },
+        'user-uuid-1'
+      );
+
+      expect(result.mfaRequiredRole).toBe(OrganizationRole.ADMIN);
+    });
+
+    it('should not let the OWNER require 2FA without having it', async () => {
+      userOrgRepository.findOne.mockResolvedValue({
+        ...mockUserOrg,
+        organization: { ...mockOrganization },
+        user: { id: 'user-uuid-1', mfaEnabledAt: null } as User,
+        role: OrganizationRole.OWNER,
+      });
+
+      await expect(
+        service.update(
+          'org-uuid-1',
+          { mfaRequiredRole: OrganizationRole.VIEWER },
+          'user-uuid-1'
+        )
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should not let an ADMIN change the 2FA requirement', async () => {
+      userOrgRepository.findOne.mockResolvedValue({
+        ...mockUserOrg,
+        organization: { ...mockOrganization },
+        user: { id: 'user-uuid-1', mfaEnabledAt: new Date() } as User,
+        role: OrganizationRole.ADMIN,
+      });
+
+      await expect(
+        service.update('org-uuid-1', { mfaRequiredRole: null }, 'user-uuid-1')
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should let the OWNER require SSO from an SSO session', async () => {
+      userOrgRepository.findOne.mockResolvedValue({
+        ...mockUserOrg,
+        organization: { ...mockOrganization },
+        role: OrganizationRole.OWNER,
+      });
+      organizationRepository.save.mockImplementation(async (org) => org as Organization);
+
+      const result = await service.update(
+        'org-uuid-1',
+        { ssoRequired: true },
+        'user-uuid-1',
+        AuthMethod.SSO
+      );
+
+      expect(result.ssoRequired).toBe(true);
+    });
+
+    it('should not let the OWNER require SSO from a password session', async () => {
+      userOrgRepository.findOne.mockResolvedValue({
+        ...mockUserOrg,
+        organization: { ...mockOrganization },
+        role: OrganizationRole.OWNER,
+      });
+
+      await expect(
+        service.update(
+          'org-uuid-1',
+          { ssoRequired: true },
+          'user-uuid-1',
+          AuthMethod.PASSWORD
+        )
+      ).rejects.toThrow(BadRequestException);
+    });
   });
 
   describe('delete', () => {
@@ -10,8 +10,11 @@ import {
   Organization,
   UserOrganization,
   OrganizationRole,
+  AuthMethod,
 } from '@task-manager/data';
 import { CreateOrganizationDto, UpdateOrganizationDto } from './dto';
+import { WorkflowService } from '../workflow/workflow.service';
+import { TasksService } from '../tasks/tasks.service';
 
 @Injectable()
 export class OrganizationsService {
@@ -19,12 +22,15 @@ export class OrganizationsService {
     @InjectRepository(Organization)
     private readonly organizationRepository: Repository<Organization>,
     @InjectRepository(UserOrganization)
-    private readonly userOrgRepository: Repository<UserOrganization>
+    private readonly userOrgRepository: Repository<UserOrganization>,
+    private readonly workflowService: WorkflowService,
+    private readonly tasksService: TasksService
   ) {}
 
   /**
    * Create a new organization
-   * The creator automatically becomes the OWNER
+   * The creator automatically becomes the OWNER and the organization
+   * starts with the default workflow statuses
    */
   async create(
     dto: CreateOrganizationDto,
@@ -80,6 +86,8 @@ export class OrganizationsService {
 
     await this.userOrgRepository.save(userOrg);
 
+    await this.workflowService.createDefaults(savedOrg.id);
+
     return savedOrg;
   }
 
@@ -121,11 +129,12 @@ export class OrganizationsService {
   async update(
     id: string,
     dto: UpdateOrganizationDto,
-    userId: string
+    userId: string,
+    authMethod?: AuthMethod
   ): Promise<Organization> {
     const membership = await this.userOrgRepository.findOne({
       where: { userId, organizationId: id },
-      relations: ['organization'],
+      relations: ['organization', 'user'],
     });
 
     if (!membership) {
@@ -144,9 +153,52 @@ export class OrganizationsService {
 
     const organization = membership.organization;
 
+    if (dto.mfaRequiredRole !== undefined) {
+      if (membership.role !== OrganizationRole.OWNER) {
+        throw new ForbiddenException(
+          'Only the OWNER can change the two-factor requirement'
+        );
+      }
+      // Every requirement covers the owner; without 2FA they would lock
+      // themselves out
+      if (dto.mfaRequiredRole && !membership.user?.mfaEnabledAt) {
+        throw new BadRequestException(
+          'Enable two-factor authentication on your account before requiring it'
+        );
+      }
+      organization.mfaRequiredRole = dto.mfaRequiredRole;
+    }
+
+    if (dto.ssoRequired !== undefined) {
+      if (membership.role !== OrganizationRole.OWNER) {
+        throw new ForbiddenException(
+          'Only the OWNER can change the single sign-on requirement'
+        );
+      }
+      // Proves the owner can sign in through SSO and keep access
+      if (dto.ssoRequired && authMethod !== AuthMethod.SSO) {
+        throw new BadRequestException(
+          'Sign in with single sign-on before requiring it'
+        );
+      }
+      organization.ssoRequired = dto.ssoRequired;
+    }
+
     if (dto.name !== undefined) {
       organization.name = dto.name;
     }
+    if (dto.attachmentQuotaMb !== undefined) {
+      organization.attachmentQuotaMb = dto.attachmentQuotaMb;
+    }
+    if (dto.allowedMimeTypes !== undefined) {
+      organization.allowedMimeTypes = dto.allowedMimeTypes;
+    }
+    if (dto.enforceBlockers !== undefined) {
+      organization.enforceBlockers = dto.enforceBlockers;
+    }
+    if (dto.estimateUnit !== undefined) {
+      organization.estimateUnit = dto.estimateUnit;
+    }
 
     return this.organizationRepository.save(organization);
   }
@@ -222,4 +274,59 @@ export class OrganizationsService {
       relations: ['user'],
     });
   }
+
+  /**
+   * Remove a member from an organization; members may also remove
+   * themselves to leave. Only OWNER can remove others, and the last
+   * OWNER cannot go. The member is unassigned from the organization's
+   * tasks and stops watching them.
+   */
+  async removeMember(
+    organizationId: string,
+    memberUserId: string,
+    userId: string
+  ): Promise<void> {
+    const membership = await this.userOrgRepository.findOne({
+      where: { userId, organizationId },
+    });
+
+    if (!membership) {
+      throw new NotFoundException(
+        'Organization not found or you are not a member'
+      );
+    }
+
+    if (memberUserId !== userId && membership.role !== OrganizationRole.OWNER) {
+      throw new ForbiddenException('Only OWNER can remove members');
+    }
+
+    const member =
+      memberUserId === userId
+        ? membership
+        : await this.userOrgRepository.findOne({
+            where: { userId: memberUserId, organizationId },
+          });
+
+    if (!member) {
+      throw new NotFoundException(
+        `User with ID ${memberUserId} is not a member of this organization`
+      );
+    }
+
+    if (member.role === OrganizationRole.OWNER) {
+      const ownerCount = await this.userOrgRepository.count({
+        where: { organizationId, role: OrganizationRole.OWNER },
+      });
+      if (ownerCount <= 1) {
+        throw new BadRequestException(
+          'An organization must keep at least one OWNER'
+        );
+      }
+    }
+
+    await this.userOrgRepository.manager.transaction(async (manager) => {
+      await manager.delete(UserOrganization, { id: member.id });
+      await this.tasksService.removeMember(organizationId, memberUserId, manager);
+    });
+  }
 }
@@ -0,0 +1,44 @@
+import {
+  IsString,
+  IsOptional,
+  Matches,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class CreateProjectDto {
+  @ApiProperty({
+    description:
+      'Prefix of task keys: 2-10 uppercase letters or digits, starting with a letter. Cannot be changed later.',
+    example: 'OPS',
+    minLength: 2,
+    maxLength: 10,
+  })
+  @IsString()
+  @Matches(/^[A-Z][A-Z0-9]{1,9}$/, {
+    message:
+      'key must be 2-10 uppercase letters or digits and start with a letter',
+  })
+  key!: string;
+
+  @ApiProperty({
+    description: 'Project name',
+    example: 'Operations',
+    maxLength: 100,
+  })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(100)
+  name!: string;
+
+  @ApiPropertyOptional({
+    description: 'What the project is about',
+    example: 'Infrastructure and on-call work',
+    maxLength: 2000,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  description?: string;
+}
@@ -0,0 +1,2 @@
+export * from './create-project.dto';
+export * from './update-project.dto';
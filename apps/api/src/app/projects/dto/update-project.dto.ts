@@ -0,0 +1,40 @@
+import {
+  IsString,
+  IsOptional,
+  IsBoolean,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class UpdateProjectDto {
+  @ApiPropertyOptional({
+    description: 'New project name',
+    example: 'Platform Operations',
+    maxLength: 100,
+  })
+  @IsOptional()
+  @IsString()
+  @MinLength(1)
+  @MaxLength(100)
+  name?: string;
+
+  @ApiPropertyOptional({
+    description: 'New description, or null to clear it',
+    example: 'Infrastructure and on-call work',
+    maxLength: 2000,
+    nullable: true,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  description?: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Archive or unarchive the project. Archived projects take no new tasks.',
+    example: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  archived?: boolean;
+}
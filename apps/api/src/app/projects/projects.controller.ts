@@ -0,0 +1,131 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+  UseInterceptors,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+} from '@nestjs/swagger';
+import {
+  JwtAuthGuard,
+  OrgRolesGuard,
+  OrgRoles,
+  PermissionsGuard,
+  RequirePermission,
+} from '@task-manager/auth';
+import {
+  OrganizationRole,
+  Project,
+  PermissionResource,
+  PermissionAction,
+} from '@task-manager/data';
+import { ProjectsService } from './projects.service';
+import { CreateProjectDto, UpdateProjectDto } from './dto';
+import { AuditInterceptor } from '../audit/audit.interceptor';
+
+@ApiTags('Projects')
+@ApiBearerAuth('JWT-auth')
+@Controller('organizations/:organizationId/projects')
+@UseInterceptors(AuditInterceptor)
+export class ProjectsController {
+  constructor(private readonly projectsService: ProjectsService) {}
+
+  @Get()
+  @UseGuards(JwtAuthGuard, OrgRolesGuard, PermissionsGuard)
+  @OrgRoles(OrganizationRole.VIEWER)
+  @RequirePermission(PermissionResource.PROJECT, PermissionAction.READ)
+  @ApiOperation({ summary: 'List the projects of an organization, archived ones included' })
+  @ApiParam({ name: 'organizationId', description: 'Organization UUID' })
+  @ApiResponse({ status: 200, description: 'Projects retrieved successfully', type: [Project] })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 403, description: 'Forbidden - User does not have access to this organization' })
+  async findAll(@Param('organizationId', ParseUUIDPipe) organizationId: string) {
+    return this.projectsService.findByOrganization(organizationId);
+  }
+
+  @Get(':projectId')
+  @UseGuards(JwtAuthGuard, OrgRolesGuard, PermissionsGuard)
+  @OrgRoles(OrganizationRole.VIEWER)
+  @RequirePermission(PermissionResource.PROJECT, PermissionAction.READ)
+  @ApiOperation({ summary: 'Get a project' })
+  @ApiParam({ name: 'organizationId', description: 'Organization UUID' })
+  @ApiParam({ name: 'projectId', description: 'Project UUID' })
+  @ApiResponse({ status: 200, description: 'Project retrieved successfully', type: Project })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 403, description: 'Forbidden - User does not have access to this organization' })
+  @ApiResponse({ status: 404, description: 'Project not found' })
+  async findOne(
+    @Param('organizationId', ParseUUIDPipe) organizationId: string,
+    @Param('projectId', ParseUUIDPipe) projectId: string
+  ) {
+    return this.projectsService.findOne(organizationId, projectId);
+  }
+
+  @Post()
+  @UseGuards(JwtAuthGuard, OrgRolesGuard, PermissionsGuard)
+  @OrgRoles(OrganizationRole.ADMIN)
+  @RequirePermission(PermissionResource.PROJECT, PermissionAction.CREATE)
+  @ApiOperation({ summary: 'Create a project' })
+  @ApiParam({ name: 'organizationId', description: 'Organization UUID' })
+  @ApiResponse({ status: 201, description: 'Project created successfully', type: Project })
+  @ApiResponse({ status: 400, description: 'Bad Request - Invalid key or name' })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Requires ADMIN role or higher' })
+  @ApiResponse({ status: 409, description: 'Conflict - A project with this key already exists' })
+  async create(
+    @Param('organizationId', ParseUUIDPipe) organizationId: string,
+    @Body() createProjectDto: CreateProjectDto
+  ) {
+    return this.projectsService.create(organizationId, createProjectDto);
+  }
+
+  @Patch(':projectId')
+  @UseGuards(JwtAuthGuard, OrgRolesGuard, PermissionsGuard)
+  @OrgRoles(OrganizationRole.ADMIN)
+  @RequirePermission(PermissionResource.PROJECT, PermissionAction.UPDATE)
+  @ApiOperation({ summary: 'Rename, describe or archive a project' })
+  @ApiParam({ name: 'organizationId', description: 'Organization UUID' })
+  @ApiParam({ name: 'projectId', description: 'Project UUID' })
+  @ApiResponse({ status: 200, description: 'Project updated successfully', type: Project })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Requires ADMIN role or higher' })
+  @ApiResponse({ status: 404, description: 'Project not found' })
+  async update(
+    @Param('organizationId', ParseUUIDPipe) organizationId: string,
+    @Param('projectId', ParseUUIDPipe) projectId: string,
+    @Body() updateProjectDto: UpdateProjectDto
+  ) {
+    return this.projectsService.update(organizationId, projectId, updateProjectDto);
+  }
+
+  @Delete(':projectId')
+  @UseGuards(JwtAuthGuard, OrgRolesGuard, PermissionsGuard)
+  @OrgRoles(OrganizationRole.ADMIN)
+  @RequirePermission(PermissionResource.PROJECT, PermissionAction.DELETE)
+  @ApiOperation({ summary: 'Delete a project that has no tasks' })
+  @ApiParam({ name: 'organizationId', description: 'Organization UUID' })
+  @ApiParam({ name: 'projectId', description: 'Project UUID' })
+  @ApiResponse({ status: 200, description: 'Project deleted successfully' })
+  @ApiResponse({ status: 400, description: 'Bad Request - The project still has tasks' })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Requires ADMIN role or higher' })
+  @ApiResponse({ status: 404, description: 'Project not found' })
+  async remove(
+    @Param('organizationId', ParseUUIDPipe) organizationId: string,
+    @Param('projectId', ParseUUIDPipe) projectId: string
+  ) {
+    await this.projectsService.delete(organizationId, projectId);
+    return { message: 'Project deleted successfully' };
+  }
+}
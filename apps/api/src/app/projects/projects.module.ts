@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Project, Task } from '@task-manager/data';
+import { AuthModule } from '@task-manager/auth';
+import { ProjectsController } from './projects.controller';
+import { ProjectsService } from './projects.service';
+import { AuditModule } from '../audit/audit.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Project, Task]), AuthModule, AuditModule],
+  controllers: [ProjectsController],
+  providers: [ProjectsService],
+  exports: [ProjectsService],
+})
+export class ProjectsModule {}
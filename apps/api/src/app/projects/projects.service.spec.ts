@@ -0,0 +1,183 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import {
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { Repository, QueryFailedError } from 'typeorm';
+import { Project, Task } from '@task-manager/data';
+import { ProjectsService } from './projects.service';
+
+describe('ProjectsService', () => {
+  let service: ProjectsService;
+  let projectRepository: jest.Mocked<Repository<Project>>;
+  let taskRepository: jest.Mocked<Repository<Task>>;
+
+  const counterQueryBuilder = {
+    update: jest.fn().mockReturnThis(),
+    set: jest.fn().mockReturnThis(),
+    where: jest.fn().mockReturnThis(),
+    andWhere: jest.fn().mockReturnThis(),
+    returning: jest.fn().mockReturnThis(),
+    execute: jest.fn(),
+  };
+
+  const project = (overrides: Partial<Project> = {}): Project =>
+    ({
+      id: 'project-uuid-1',
+      organizationId: 'org-uuid-1',
+      key: 'OPS',
+      name: 'Operations',
+      description: null,
+      archived: false,
+      taskCounter: 0,
+      ...overrides,
+    }) as Project;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ProjectsService,
+        {
+          provide: getRepositoryToken(Project),
+          useValue: {
+            create: jest.fn((data) => data),
+            save: jest.fn((data) =>
+              Promise.resolve({ id: 'project-uuid-1', ...data })
+            ),
+            find: jest.fn(),
+            findOne: jest.fn(),
+            remove: jest.fn(),
+            manager: {
+              createQueryBuilder: jest.fn(() => counterQueryBuilder),
+            },
+          },
+        },
+        {
+          provide: getRepositoryToken(Task),
+          useValue: {
+            count: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<ProjectsService>(ProjectsService);
+    projectRepository = module.get(getRepositoryToken(Project));
+    taskRepository = module.get(getRepositoryToken(Task));
+  });
+
+  describe('create', () => {
+    it('should create a project with a fresh task counter', async () => {
+      const result = await service.create('org-uuid-1', {
+        key: 'OPS',
+        name: ' Operations ',
+      });
+
+      expect(result).toMatchObject({
+        organizationId: 'org-uuid-1',
+        key: 'OPS',
+        name: 'Operations',
+        description: null,
+        archived: false,
+        taskCounter: 0,
+      });
+    });
+
+    it('should report a key that is already taken', async () => {
+      projectRepository.save.mockRejectedValue(
+        new QueryFailedError('INSERT', [], Object.assign(new Error(), { code: '23505' }))
+      );
+
+      await expect(
+        service.create('org-uuid-1', { key: 'OPS', name: 'Operations' })
+      ).rejects.toThrow(ConflictException);
+    });
+  });
+
+  describe('update', () => {
+    it('should rename and archive a project', async () => {
+      projectRepository.findOne.mockResolvedValue(project());
+
+      const result = await service.update('org-uuid-1', 'project-uuid-1', {
+        name: 'Platform',
+        archived: true,
+      });
+
+      expect(result.name).toBe('Platform');
+      expect(result.archived).toBe(true);
+      expect(result.key).toBe('OPS');
+    });
+
+    it('should throw NotFoundException for a project of another organization', async () => {
+      projectRepository.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.update('org-uuid-2', 'project-uuid-1', { name: 'Platform' })
+      ).rejects.toThrow(NotFoundException);
+      expect(projectRepository.findOne).toHaveBeenCalledWith({
+        where: { id: 'project-uuid-1', organizationId: 'org-uuid-2' },
+      });
+    });
+  });
+
+  describe('delete', () => {
+    it('should delete an empty project', async () => {
+      projectRepository.findOne.mockResolvedValue(project());
+      taskRepository.count.mockResolvedValue(0);
+
+      await service.delete('org-uuid-1', 'project-uuid-1');
+
+      expect(projectRepository.remove).toHaveBeenCalled();
+    });
+
+    it('should refuse deleting a project that has tasks, deleted ones included', async () => {
+      projectRepository.findOne.mockResolvedValue(project());
+      taskRepository.count.mockResolvedValue(2);
+
+      await expect(
+        service.delete('org-uuid-1', 'project-uuid-1')
+      ).rejects.toThrow(BadRequestException);
+      expect(taskRepository.count).toHaveBeenCalledWith({
+        where: { projectId: 'project-uuid-1' },
+        withDeleted: true,
+      });
+      expect(projectRepository.remove).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('nextTaskKey', () => {
+    it('should build the key from the incremented counter', async () => {
+      counterQueryBuilder.execute.mockResolvedValue({
+        raw: [{ key: 'OPS', task_counter: 42 }],
+      });
+
+      const key = await service.nextTaskKey('org-uuid-1', 'project-uuid-1');
+
+      expect(key).toBe('OPS-42');
+      expect(counterQueryBuilder.update).toHaveBeenCalledWith(Project);
+      expect(counterQueryBuilder.andWhere).toHaveBeenCalledWith('archived = false');
+    });
+
+    it('should refuse new tasks in an archived project', async () => {
+      counterQueryBuilder.execute.mockResolvedValue({ raw: [] });
+      projectRepository.findOne.mockResolvedValue(project({ archived: true }));
+
+      await expect(
+        service.nextTaskKey('org-uuid-1', 'project-uuid-1')
+      ).rejects.toThrow('Project OPS is archived');
+    });
+
+    it('should throw NotFoundException for an unknown project', async () => {
+      counterQueryBuilder.execute.mockResolvedValue({ raw: [] });
+      projectRepository.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.nextTaskKey('org-uuid-1', 'project-uuid-9')
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+});
@@ -0,0 +1,154 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, EntityManager, QueryFailedError } from 'typeorm';
+import { Project, Task } from '@task-manager/data';
+
+export interface CreateProjectDto {
+  key: string;
+  name: string;
+  description?: string;
+}
+
+export interface UpdateProjectDto {
+  name?: string;
+  description?: string | null;
+  archived?: boolean;
+}
+
+@Injectable()
+export class ProjectsService {
+  constructor(
+    @InjectRepository(Project)
+    private readonly projectRepository: Repository<Project>,
+    @InjectRepository(Task)
+    private readonly taskRepository: Repository<Task>
+  ) {}
+
+  /**
+   * Projects of an organization by name, archived ones included.
+   */
+  async findByOrganization(organizationId: string): Promise<Project[]> {
+    return this.projectRepository.find({
+      where: { organizationId },
+      order: { name: 'ASC' },
+    });
+  }
+
+  async findOne(organizationId: string, projectId: string): Promise<Project> {
+    const project = await this.projectRepository.findOne({
+      where: { id: projectId, organizationId },
+    });
+
+    if (!project) {
+      throw new NotFoundException(`Project with ID ${projectId} not found`);
+    }
+
+    return project;
+  }
+
+  async create(organizationId: string, dto: CreateProjectDto): Promise<Project> {
+    const project = this.projectRepository.create({
+      organizationId,
+      key: dto.key,
+      name: dto.name.trim(),
+      description: dto.description?.trim() || null,
+      archived: false,
+      taskCounter: 0,
+    });
+
+    try {
+      return await this.projectRepository.save(project);
+    } catch (error) {
+      if (this.isUniqueViolation(error)) {
+        throw new ConflictException(`A project with the key ${dto.key} already exists`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Rename, describe or (un)archive a project. The key cannot change, as
+   * it is part of the keys of the project's tasks.
+   */
+  async update(
+    organizationId: string,
+    projectId: string,
+    dto: UpdateProjectDto
+  ): Promise<Project> {
+    const project = await this.findOne(organizationId, projectId);
+
+    if (dto.name !== undefined) {
+      project.name = dto.name.trim();
+    }
+    if (dto.description !== undefined) {
+      project.description = dto.description?.trim() || null;
+    }
+    if (dto.archived !== undefined) {
+      project.archived = dto.archived;
+    }
+
+    return this.projectRepository.save(project);
+  }
+
+  /**
+   * Delete a project without tasks. Soft-deleted tasks count too, as
+   * they can still be restored into the project.
+   */
+  async delete(organizationId: string, projectId: string): Promise<void> {
+    const project = await this.findOne(organizationId, projectId);
+
+    const taskCount = await this.taskRepository.count({
+      where: { projectId },
+      withDeleted: true,
+    });
+    if (taskCount > 0) {
+      throw new BadRequestException(
+        'Only empty projects can be deleted; archive the project instead'
+      );
+    }
+
+    await this.projectRepository.remove(project);
+  }
+
+  /**
+   * Hand out the next task key of a project, e.g. OPS-42. The counter is
+   * incremented in a single UPDATE, so concurrent requests never get the
+   * same number. Keys of tasks that fail to save afterwards are skipped.
+   */
+  async nextTaskKey(
+    organizationId: string,
+    projectId: string,
+    manager: EntityManager = this.projectRepository.manager
+  ): Promise<string> {
+    const result = await manager
+      .createQueryBuilder()
+      .update(Project)
+      .set({ taskCounter: () => 'task_counter + 1' })
+      .where('id = :projectId', { projectId })
+      .andWhere('organization_id = :organizationId', { organizationId })
+      .andWhere('archived = false')
+      .returning('"key", "task_counter"')
+      .execute();
+
+    const row = (result.raw as { key: string; task_counter: number }[])[0];
+    if (!row) {
+      // Tell a missing project apart from an archived one
+      const project = await this.findOne(organizationId, projectId);
+      throw new BadRequestException(`Project ${project.key} is archived`);
+    }
+
+    return `${row.key}-${row.task_counter}`;
+  }
+
+  private isUniqueViolation(error: unknown): boolean {
+    return (
+      error instanceof QueryFailedError &&
+      (error.driverError as { code?: string })?.code === '23505'
+    );
+  }
+}
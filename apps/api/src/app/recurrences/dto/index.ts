@@ -0,0 +1 @@
+export * from './set-recurrence.dto';
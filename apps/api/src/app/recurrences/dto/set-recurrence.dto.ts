@@ -0,0 +1,39 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsDateString,
+  IsUUID,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional, ApiHideProperty } from '@nestjs/swagger';
+
+export class SetRecurrenceDto {
+  @ApiProperty({
+    description:
+      'RFC 5545 RRULE subset: FREQ=DAILY|WEEKLY|MONTHLY, INTERVAL, BYDAY (weekly only), UNTIL or COUNT',
+    example: 'FREQ=WEEKLY;INTERVAL=1;BYDAY=MO',
+    maxLength: 255,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  rule!: string;
+
+  @ApiPropertyOptional({
+    description: 'Date of the first occurrence (defaults to the task due date, or now)',
+    example: '2026-02-02T09:00:00.000Z',
+    format: 'date-time',
+  })
+  @IsOptional()
+  @IsDateString()
+  startsAt?: string;
+
+  /**
+   * This field is injected by TaskOrgGuard for authorization purposes.
+   */
+  @ApiHideProperty()
+  @IsOptional()
+  @IsUUID()
+  organizationId?: string;
+}
@@ -0,0 +1,68 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { RecurrencesService } from './recurrences.service';
+import { RecurrenceConfig } from '../../config/recurrence.config';
+
+/**
+ * Polls for recurring series that are due and creates their next
+ * occurrence. Progress is stored on TaskRecurrence, so restarts and
+ * several API instances do not create duplicates.
+ */
+@Injectable()
+export class RecurrenceScheduler implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(RecurrenceScheduler.name);
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    private readonly recurrencesService: RecurrencesService,
+    private readonly configService: ConfigService
+  ) {}
+
+  onApplicationBootstrap(): void {
+    const config = this.configService.get<RecurrenceConfig>('recurrence');
+    if (config && !config.schedulerEnabled) {
+      return;
+    }
+
+    this.timer = setInterval(
+      () => void this.tick(),
+      config?.pollIntervalMs ?? 60000
+    );
+    void this.tick();
+  }
+
+  onModuleDestroy(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async tick(): Promise<void> {
+    // Skip a tick while the previous one is still working
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      const advanced = await this.recurrencesService.materializeDue();
+      if (advanced > 0) {
+        this.logger.log(`Created the next occurrence of ${advanced} recurring task(s)`);
+      }
+    } catch (error) {
+      this.logger.error(
+        'Recurring task run failed',
+        error instanceof Error ? error.stack : String(error)
+      );
+    } finally {
+      this.running = false;
+    }
+  }
+}
@@ -0,0 +1,95 @@
+import {
+  Controller,
+  Get,
+  Put,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+  UseInterceptors,
+  Request,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+} from '@nestjs/swagger';
+import { RecurrencesService } from './recurrences.service';
+import { SetRecurrenceDto } from './dto/set-recurrence.dto';
+import { TaskOrgGuard } from '../tasks/guards/task-org.guard';
+import {
+  JwtAuthGuard,
+  OrgRolesGuard,
+  OrgRoles,
+  PermissionsGuard,
+  RequirePermission,
+} from '@task-manager/auth';
+import {
+  OrganizationRole,
+  TaskRecurrence,
+  PermissionResource,
+  PermissionAction,
+} from '@task-manager/data';
+import { AuditInterceptor } from '../audit/audit.interceptor';
+
+interface AuthenticatedRequest extends Request {
+  user: { id: string; email: string };
+}
+
+@ApiTags('Tasks')
+@ApiBearerAuth('JWT-auth')
+@Controller('tasks/:id/recurrence')
+@UseInterceptors(AuditInterceptor)
+export class RecurrencesController {
+  constructor(private readonly recurrencesService: RecurrencesService) {}
+
+  @Get()
+  @UseGuards(JwtAuthGuard, TaskOrgGuard, OrgRolesGuard, PermissionsGuard)
+  @OrgRoles(OrganizationRole.VIEWER)
+  @RequirePermission(PermissionResource.TASK, PermissionAction.READ)
+  @ApiOperation({ summary: 'Get the recurrence of the series a task belongs to (null if none)' })
+  @ApiParam({ name: 'id', description: 'Task UUID' })
+  @ApiResponse({ status: 200, description: 'Recurrence retrieved successfully', type: TaskRecurrence })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 403, description: 'Forbidden - User does not have access to this organization' })
+  @ApiResponse({ status: 404, description: 'Task not found' })
+  async findOne(@Param('id') taskId: string) {
+    return this.recurrencesService.findByTask(taskId);
+  }
+
+  @Put()
+  @UseGuards(JwtAuthGuard, TaskOrgGuard, OrgRolesGuard, PermissionsGuard)
+  @OrgRoles(OrganizationRole.ADMIN)
+  @RequirePermission(PermissionResource.TASK, PermissionAction.UPDATE)
+  @ApiOperation({ summary: 'Make a task recur, or change the rule of its series' })
+  @ApiParam({ name: 'id', description: 'Task UUID' })
+  @ApiResponse({ status: 200, description: 'Recurrence saved successfully', type: TaskRecurrence })
+  @ApiResponse({ status: 400, description: 'Bad Request - Invalid or unsupported recurrence rule' })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 403, description: 'Forbidden - User does not have Admin role' })
+  @ApiResponse({ status: 404, description: 'Task not found' })
+  async set(
+    @Param('id') taskId: string,
+    @Body() setRecurrenceDto: SetRecurrenceDto,
+    @Request() req: AuthenticatedRequest
+  ) {
+    return this.recurrencesService.set(taskId, setRecurrenceDto, req.user.id);
+  }
+
+  @Delete()
+  @UseGuards(JwtAuthGuard, TaskOrgGuard, OrgRolesGuard, PermissionsGuard)
+  @OrgRoles(OrganizationRole.ADMIN)
+  @RequirePermission(PermissionResource.TASK, PermissionAction.UPDATE)
+  @ApiOperation({ summary: 'Stop a series; its tasks are kept' })
+  @ApiParam({ name: 'id', description: 'Task UUID' })
+  @ApiResponse({ status: 200, description: 'Recurrence stopped successfully' })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 403, description: 'Forbidden - User does not have Admin role' })
+  @ApiResponse({ status: 404, description: 'Task not found or it does not recur' })
+  async remove(@Param('id') taskId: string) {
+    await this.recurrencesService.remove(taskId);
+    return { message: 'Recurrence stopped successfully' };
+  }
+}
@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Task, TaskRecurrence } from '@task-manager/data';
+import { AuthModule } from '@task-manager/auth';
+import { RecurrencesController } from './recurrences.controller';
+import { RecurrencesService } from './recurrences.service';
+import { RecurrenceScheduler } from './recurrence.scheduler';
+import { TasksModule } from '../tasks/tasks.module';
+import { AuditModule } from '../audit/audit.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([TaskRecurrence, Task]),
+    AuthModule,
+    AuditModule,
+    TasksModule,
+  ],
+  controllers: [RecurrencesController],
+  providers: [RecurrencesService, RecurrenceScheduler],
+  exports: [RecurrencesService],
+})
+export class RecurrencesModule {}
@@ -0,0 +1,269 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { NotFoundException, BadRequestException } from '@nestjs/common';
+import { Repository } from 'typeorm';
+import {
+  Task,
+  TaskRecurrence,
+  TaskStatus,
+  TaskPriority,
+  Label,
+  User,
+} from '@task-manager/data';
+import { RecurrencesService } from './recurrences.service';
+import { TasksService } from '../tasks/tasks.service';
+import { AuditService } from '../audit/audit.service';
+
+describe('RecurrencesService', () => {
+  let service: RecurrencesService;
+  let recurrenceRepository: jest.Mocked<Repository<TaskRecurrence>>;
+  let taskRepository: jest.Mocked<Repository<Task>>;
+  let tasksService: jest.Mocked<TasksService>;
+  let auditService: jest.Mocked<AuditService>;
+  let queryBuilder: Record<string, jest.Mock>;
+
+  // Monday
+  const startsAt = new Date('2026-02-02T09:00:00.000Z');
+
+  let template: Task;
+  let recurrence: TaskRecurrence;
+
+  beforeEach(async () => {
+    template = {
+      id: 'task-template',
+      title: 'Rotate on-call',
+      description: 'Weekly ops chore',
+      status: TaskStatus.TODO,
+      statusId: null,
+      organizationId: 'org-uuid-1',
+      assignees: [{ id: 'user-uuid-2' } as User],
+      parentId: null,
+      priority: TaskPriority.HIGH,
+      labels: [{ id: 'label-uuid-1' } as Label],
+      startDate: new Date('2026-02-01T09:00:00.000Z'),
+      dueDate: startsAt,
+      recurrenceId: null,
+      occurrenceAt: null,
+    } as Task;
+    template.customFieldValues = { 'field-uuid-1': 'Acme' };
+
+    recurrence = {
+      id: 'recurrence-uuid-1',
+      organizationId: 'org-uuid-1',
+      templateTaskId: template.id,
+      rule: 'FREQ=WEEKLY;INTERVAL=1;BYDAY=MO',
+      startsAt,
+      nextOccurrenceAt: new Date('2026-02-09T09:00:00.000Z'),
+      occurrenceCount: 1,
+      lastTaskId: template.id,
+      createdById: 'user-uuid-1',
+    } as TaskRecurrence;
+
+    queryBuilder = {
+      leftJoin: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      getMany: jest.fn().mockResolvedValue([recurrence]),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RecurrencesService,
+        {
+          provide: getRepositoryToken(TaskRecurrence),
+          useValue: {
+            create: jest.fn((data) => data),
+            save: jest.fn((data) =>
+              Promise.resolve({ id: 'recurrence-uuid-1', ...data })
+            ),
+            findOne: jest.fn(),
+            remove: jest.fn(),
+            createQueryBuilder: jest.fn(() => queryBuilder),
+          },
+        },
+        {
+          provide: getRepositoryToken(Task),
+          useValue: {
+            findOne: jest.fn(),
+            update: jest.fn(),
+          },
+        },
+        {
+          provide: TasksService,
+          useValue: {
+            create: jest.fn((dto) =>
+              Promise.resolve({ id: 'task-occurrence', ...dto })
+            ),
+          },
+        },
+        {
+          provide: AuditService,
+          useValue: { create: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get<RecurrencesService>(RecurrencesService);
+    recurrenceRepository = module.get(getRepositoryToken(TaskRecurrence));
+    taskRepository = module.get(getRepositoryToken(Task));
+    tasksService = module.get(TasksService);
+    auditService = module.get(AuditService);
+  });
+
+  describe('set', () => {
+    it('should make the task the template and first occurrence', async () => {
+      taskRepository.findOne.mockResolvedValue(template);
+
+      const result = await service.set(
+        template.id,
+        { rule: 'FREQ=WEEKLY;BYDAY=MO' },
+        'user-uuid-1'
+      );
+
+      expect(result).toEqual(
+        expect.objectContaining({
+          templateTaskId: template.id,
+          rule: 'FREQ=WEEKLY;INTERVAL=1;BYDAY=MO',
+          startsAt,
+          nextOccurrenceAt: new Date('2026-02-09T09:00:00.000Z'),
+          lastTaskId: template.id,
+          createdById: 'user-uuid-1',
+        })
+      );
+      expect(taskRepository.update).toHaveBeenCalledWith(template.id, {
+        recurrenceId: 'recurrence-uuid-1',
+        occurrenceAt: startsAt,
+      });
+    });
+
+    it('should change the rule of an existing series from its latest occurrence', async () => {
+      taskRepository.findOne.mockResolvedValue({
+        ...template,
+        recurrenceId: recurrence.id,
+      });
+      recurrenceRepository.findOne.mockResolvedValue({
+        ...recurrence,
+        lastTask: { occurrenceAt: new Date('2026-02-09T09:00:00.000Z') } as Task,
+      });
+
+      const result = await service.set(
+        template.id,
+        { rule: 'FREQ=WEEKLY;BYDAY=MO,WE' },
+        'user-uuid-1'
+      );
+
+      expect(result.nextOccurrenceAt).toEqual(new Date('2026-02-11T09:00:00.000Z'));
+      expect(recurrenceRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject an unsupported rule', async () => {
+      taskRepository.findOne.mockResolvedValue(template);
+
+      await expect(
+        service.set(template.id, { rule: 'FREQ=YEARLY' }, 'user-uuid-1')
+      ).rejects.toThrow(BadRequestException);
+      expect(recurrenceRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException when the task does not exist', async () => {
+      taskRepository.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.set('task-missing', { rule: 'FREQ=DAILY' }, 'user-uuid-1')
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('materializeDue', () => {
+    it('should create the next occurrence from the template through TasksService', async () => {
+      taskRepository.findOne
+        .mockResolvedValueOnce(template)
+        .mockResolvedValueOnce(null);
+
+      const advanced = await service.materializeDue();
+
+      expect(advanced).toBe(1);
+      expect(tasksService.create).toHaveBeenCalledWith(
+        {
+          title: 'Rotate on-call',
+          description: 'Weekly ops chore',
+          organizationId: 'org-uuid-1',
+          assigneeIds: ['user-uuid-2'],
+          parentId: undefined,
+          priority: TaskPriority.HIGH,
+          labelIds: ['label-uuid-1'],
+          customFieldValues: { 'field-uuid-1': 'Acme' },
+          startDate: '2026-02-08T09:00:00.000Z',
+          dueDate: '2026-02-09T09:00:00.000Z',
+          recurrenceId: recurrence.id,
+          occurrenceAt: new Date('2026-02-09T09:00:00.000Z'),
+        },
+        'user-uuid-1'
+      );
+      expect(auditService.create).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'user-uuid-1', organizationId: 'org-uuid-1' })
+      );
+      expect(recurrenceRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          lastTaskId: 'task-occurrence',
+          occurrenceCount: 2,
+          nextOccurrenceAt: new Date('2026-02-16T09:00:00.000Z'),
+        })
+      );
+    });
+
+    it('should reuse an occurrence left by an interrupted run', async () => {
+      taskRepository.findOne
+        .mockResolvedValueOnce(template)
+        .mockResolvedValueOnce({ id: 'task-existing' } as Task);
+
+      await service.materializeDue();
+
+      expect(tasksService.create).not.toHaveBeenCalled();
+      expect(recurrenceRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ lastTaskId: 'task-existing', occurrenceCount: 1 })
+      );
+    });
+
+    it('should end the series once COUNT is reached', async () => {
+      recurrence.rule = 'FREQ=WEEKLY;INTERVAL=1;BYDAY=MO;COUNT=2';
+      taskRepository.findOne
+        .mockResolvedValueOnce(template)
+        .mockResolvedValueOnce(null);
+
+      await service.materializeDue();
+
+      expect(recurrenceRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ nextOccurrenceAt: null })
+      );
+    });
+
+    it('should pause the series while the template is deleted', async () => {
+      taskRepository.findOne.mockResolvedValueOnce(null);
+
+      const advanced = await service.materializeDue();
+
+      expect(advanced).toBe(0);
+      expect(tasksService.create).not.toHaveBeenCalled();
+      expect(recurrenceRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should keep going when one series fails', async () => {
+      const other = { ...recurrence, id: 'recurrence-uuid-2' };
+      queryBuilder.getMany.mockResolvedValue([recurrence, other]);
+      taskRepository.findOne
+        .mockResolvedValueOnce(template)
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(template)
+        .mockResolvedValueOnce(null);
+      tasksService.create.mockRejectedValueOnce(
+        new BadRequestException('Custom field "Customer" is required')
+      );
+
+      const advanced = await service.materializeDue();
+
+      expect(advanced).toBe(1);
+      expect(tasksService.create).toHaveBeenCalledTimes(2);
+    });
+  });
+});
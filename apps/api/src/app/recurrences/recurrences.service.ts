@@ -0,0 +1,293 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, Brackets, QueryFailedError } from 'typeorm';
+import { Task, TaskRecurrence, TaskStatus } from '@task-manager/data';
+import { TasksService } from '../tasks/tasks.service';
+import { AuditService } from '../audit/audit.service';
+import {
+  RecurrenceRule,
+  RRuleError,
+  parseRRule,
+  formatRRule,
+  nextOccurrence,
+} from './rrule';
+
+export interface SetRecurrenceDto {
+  rule: string;
+  startsAt?: string;
+}
+
+@Injectable()
+export class RecurrencesService {
+  private readonly logger = new Logger(RecurrencesService.name);
+
+  constructor(
+    @InjectRepository(TaskRecurrence)
+    private readonly recurrenceRepository: Repository<TaskRecurrence>,
+    @InjectRepository(Task)
+    private readonly taskRepository: Repository<Task>,
+    private readonly tasksService: TasksService,
+    private readonly auditService: AuditService
+  ) {}
+
+  /**
+   * The recurrence of the series a task belongs to, if any.
+   */
+  async findByTask(taskId: string): Promise<TaskRecurrence | null> {
+    const task = await this.getTask(taskId);
+    if (!task.recurrenceId) {
+      return null;
+    }
+    return this.recurrenceRepository.findOne({
+      where: { id: task.recurrenceId },
+    });
+  }
+
+  /**
+   * Attach a rule to a task, which becomes the template and first
+   * occurrence of the series, or change the rule of the task's series.
+   */
+  async set(
+    taskId: string,
+    dto: SetRecurrenceDto,
+    userId: string
+  ): Promise<TaskRecurrence> {
+    const task = await this.getTask(taskId);
+    const rule = this.parse(dto.rule);
+
+    const existing = task.recurrenceId
+      ? await this.recurrenceRepository.findOne({
+          where: { id: task.recurrenceId },
+          relations: { lastTask: true },
+        })
+      : null;
+
+    if (existing) {
+      existing.rule = formatRRule(rule);
+      if (dto.startsAt) {
+        existing.startsAt = new Date(dto.startsAt);
+      }
+      // Occurrences already created keep their dates
+      const after = existing.lastTask?.occurrenceAt ?? existing.startsAt;
+      existing.nextOccurrenceAt =
+        nextOccurrence(rule, existing.startsAt, after)?.date ?? null;
+      return this.recurrenceRepository.save(existing);
+    }
+
+    const startsAt = dto.startsAt
+      ? new Date(dto.startsAt)
+      : (task.dueDate ?? new Date());
+
+    const recurrence = await this.recurrenceRepository.save(
+      this.recurrenceRepository.create({
+        organizationId: task.organizationId,
+        templateTaskId: task.id,
+        rule: formatRRule(rule),
+        startsAt,
+        nextOccurrenceAt: nextOccurrence(rule, startsAt, startsAt)?.date ?? null,
+        occurrenceCount: 1,
+        lastTaskId: task.id,
+        createdById: userId,
+      })
+    );
+
+    await this.taskRepository.update(task.id, {
+      recurrenceId: recurrence.id,
+      occurrenceAt: startsAt,
+    });
+
+    return recurrence;
+  }
+
+  /**
+   * Stop a series. Its tasks are kept and no new ones are created.
+   */
+  async remove(taskId: string): Promise<void> {
+    const recurrence = await this.findByTask(taskId);
+    if (!recurrence) {
+      throw new NotFoundException(`Task with ID ${taskId} does not recur`);
+    }
+    await this.recurrenceRepository.remove(recurrence);
+  }
+
+  /**
+   * Create the next occurrence of every series whose date has arrived
+   * or whose latest occurrence is done. Returns the number of series
+   * that advanced.
+   */
+  async materializeDue(now = new Date()): Promise<number> {
+    const due = await this.recurrenceRepository
+      .createQueryBuilder('recurrence')
+      .leftJoin('recurrence.lastTask', 'lastTask')
+      .where('recurrence.nextOccurrenceAt IS NOT NULL')
+      .andWhere(
+        new Brackets((qb) => {
+          qb.where('recurrence.nextOccurrenceAt <= :now', { now }).orWhere(
+            'lastTask.status = :done',
+            { done: TaskStatus.DONE }
+          );
+        })
+      )
+      .getMany();
+
+    let advanced = 0;
+    for (const recurrence of due) {
+      try {
+        if (await this.materializeNext(recurrence)) {
+          advanced++;
+        }
+      } catch (error) {
+        // One broken series must not hold up the others
+        this.logger.error(
+          `Failed to create the next occurrence of recurrence ${recurrence.id}`,
+          error instanceof Error ? error.stack : String(error)
+        );
+      }
+    }
+    return advanced;
+  }
+
+  /**
+   * Create the occurrence at nextOccurrenceAt and move the series on.
+   * An occurrence left behind by an interrupted run is reused, so this
+   * is safe to repeat.
+   */
+  private async materializeNext(recurrence: TaskRecurrence): Promise<boolean> {
+    const occurrenceAt = recurrence.nextOccurrenceAt;
+    if (!occurrenceAt) {
+      return false;
+    }
+
+    // A template in the trash pauses the series until it is restored
+    const template = await this.taskRepository.findOne({
+      where: { id: recurrence.templateTaskId },
+      relations: { labels: true, assignees: true },
+    });
+    if (!template) {
+      return false;
+    }
+
+    let task = await this.findOccurrence(recurrence.id, occurrenceAt);
+    if (!task) {
+      const actorId = recurrence.createdById ?? template.assignees[0]?.id;
+      if (!actorId) {
+        this.logger.warn(
+          `Recurrence ${recurrence.id} has no creator or assignee to create tasks as`
+        );
+        return false;
+      }
+      task = await this.createOccurrence(recurrence, template, occurrenceAt, actorId);
+      recurrence.occurrenceCount++;
+    }
+
+    const rule = parseRRule(recurrence.rule);
+    recurrence.lastTaskId = task.id;
+    recurrence.nextOccurrenceAt =
+      nextOccurrence(rule, recurrence.startsAt, occurrenceAt)?.date ?? null;
+    await this.recurrenceRepository.save(recurrence);
+
+    return true;
+  }
+
+  private async createOccurrence(
+    recurrence: TaskRecurrence,
+    template: Task,
+    occurrenceAt: Date,
+    actorId: string
+  ): Promise<Task> {
+    // Keep the template's lead time between start and due date
+    const leadTime =
+      template.startDate && template.dueDate
+        ? template.dueDate.getTime() - template.startDate.getTime()
+        : null;
+
+    let task: Task;
+    try {
+      task = await this.tasksService.create(
+        {
+          title: template.title,
+          description: template.description ?? undefined,
+          organizationId: template.organizationId,
+          assigneeIds: template.assignees.map((user) => user.id),
+          parentId: template.parentId ?? undefined,
+          projectId: template.projectId ?? undefined,
+          priority: template.priority,
+          labelIds: template.labels.map((label) => label.id),
+          customFieldValues: template.customFieldValues,
+          startDate:
+            leadTime !== null
+              ? new Date(occurrenceAt.getTime() - leadTime).toISOString()
+              : undefined,
+          dueDate: occurrenceAt.toISOString(),
+          recurrenceId: recurrence.id,
+          occurrenceAt,
+        },
+        actorId
+      );
+    } catch (error) {
+      // Another instance created it first
+      const existing = this.isUniqueViolation(error)
+        ? await this.findOccurrence(recurrence.id, occurrenceAt)
+        : null;
+      if (!existing) {
+        throw error;
+      }
+      return existing;
+    }
+
+    await this.auditService.create({
+      userId: actorId,
+      action: 'POST',
+      resource: `/api/v1/tasks/${template.id}/recurrence`,
+      organizationId: template.organizationId,
+      details: {
+        recurrenceId: recurrence.id,
+        taskId: task.id,
+        occurrenceAt: occurrenceAt.toISOString(),
+      },
+    });
+
+    return task;
+  }
+
+  private findOccurrence(
+    recurrenceId: string,
+    occurrenceAt: Date
+  ): Promise<Task | null> {
+    return this.taskRepository.findOne({
+      where: { recurrenceId, occurrenceAt },
+      withDeleted: true,
+    });
+  }
+
+  private async getTask(taskId: string): Promise<Task> {
+    const task = await this.taskRepository.findOne({ where: { id: taskId } });
+    if (!task) {
+      throw new NotFoundException(`Task with ID ${taskId} not found`);
+    }
+    return task;
+  }
+
+  private parse(rule: string): RecurrenceRule {
+    try {
+      return parseRRule(rule);
+    } catch (error) {
+      if (error instanceof RRuleError) {
+        throw new BadRequestException(`Invalid recurrence rule: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  private isUniqueViolation(error: unknown): boolean {
+    return (
+      error instanceof QueryFailedError &&
+      (error.driverError as { code?: string })?.code === '23505'
+    );
+  }
+}
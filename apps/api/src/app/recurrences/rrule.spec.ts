@@ -0,0 +1,110 @@
+import { RecurrenceFrequency } from '@task-manager/data';
+import { parseRRule, formatRRule, nextOccurrence, RRuleError } from './rrule';
+
+describe('rrule', () => {
+  // Monday
+  const startsAt = new Date('2026-02-02T09:00:00.000Z');
+
+  const dates = (rule: string, count: number, from = startsAt) => {
+    const parsed = parseRRule(rule);
+    const result: string[] = [];
+    let after = from;
+    for (let i = 0; i < count; i++) {
+      const next = nextOccurrence(parsed, startsAt, after);
+      if (!next) break;
+      result.push(next.date.toISOString().slice(0, 10));
+      after = next.date;
+    }
+    return result;
+  };
+
+  describe('parseRRule', () => {
+    it('should parse the supported parts', () => {
+      expect(parseRRule('RRULE:FREQ=weekly;INTERVAL=2;BYDAY=FR,MO;COUNT=4')).toEqual({
+        freq: RecurrenceFrequency.WEEKLY,
+        interval: 2,
+        byDay: [1, 5],
+        until: null,
+        count: 4,
+      });
+    });
+
+    it('should read a date-only UNTIL as the end of that day', () => {
+      expect(parseRRule('FREQ=DAILY;UNTIL=20260210').until).toEqual(
+        new Date('2026-02-10T23:59:59.000Z')
+      );
+    });
+
+    it.each([
+      ['INTERVAL=2', 'FREQ is required'],
+      ['FREQ=YEARLY', 'FREQ must be DAILY, WEEKLY or MONTHLY'],
+      ['FREQ=DAILY;INTERVAL=0', 'INTERVAL must be a positive integer'],
+      ['FREQ=DAILY;COUNT=2;UNTIL=20260301', 'UNTIL and COUNT cannot be combined'],
+      ['FREQ=MONTHLY;BYDAY=MO', 'BYDAY is only supported with FREQ=WEEKLY'],
+      ['FREQ=WEEKLY;BYDAY=XX', 'Unknown BYDAY value XX'],
+      ['FREQ=DAILY;BYHOUR=9', 'Unsupported RRULE part BYHOUR'],
+    ])('should reject %s', (rule, message) => {
+      expect(() => parseRRule(rule)).toThrow(new RRuleError(message));
+    });
+  });
+
+  describe('formatRRule', () => {
+    it('should write the canonical form', () => {
+      expect(
+        formatRRule(parseRRule('BYDAY=WE,MO;FREQ=WEEKLY;UNTIL=20260301T120000Z'))
+      ).toBe('FREQ=WEEKLY;INTERVAL=1;BYDAY=MO,WE;UNTIL=20260301T120000Z');
+    });
+  });
+
+  describe('nextOccurrence', () => {
+    it('should step daily rules by the interval', () => {
+      expect(dates('FREQ=DAILY;INTERVAL=3', 3)).toEqual([
+        '2026-02-05',
+        '2026-02-08',
+        '2026-02-11',
+      ]);
+    });
+
+    it('should visit the BYDAY days of every nth week', () => {
+      expect(dates('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH', 4)).toEqual([
+        '2026-02-05',
+        '2026-02-16',
+        '2026-02-19',
+        '2026-03-02',
+      ]);
+    });
+
+    it('should skip months without the day of DTSTART', () => {
+      const endOfMonth = new Date('2026-01-31T09:00:00.000Z');
+      const rule = parseRRule('FREQ=MONTHLY');
+
+      expect(nextOccurrence(rule, endOfMonth, endOfMonth)?.date).toEqual(
+        new Date('2026-03-31T09:00:00.000Z')
+      );
+    });
+
+    it('should count DTSTART as the first occurrence', () => {
+      expect(dates('FREQ=DAILY;COUNT=3', 5)).toEqual(['2026-02-03', '2026-02-04']);
+      expect(
+        nextOccurrence(parseRRule('FREQ=DAILY;COUNT=3'), startsAt, startsAt)?.index
+      ).toBe(2);
+    });
+
+    it('should stop after UNTIL', () => {
+      expect(dates('FREQ=DAILY;UNTIL=20260204', 5)).toEqual([
+        '2026-02-03',
+        '2026-02-04',
+      ]);
+    });
+
+    it('should return the first occurrence after a date far past DTSTART', () => {
+      expect(
+        nextOccurrence(
+          parseRRule('FREQ=WEEKLY;BYDAY=MO'),
+          startsAt,
+          new Date('2026-06-03T00:00:00.000Z')
+        )?.date
+      ).toEqual(new Date('2026-06-08T09:00:00.000Z'));
+    });
+  });
+});
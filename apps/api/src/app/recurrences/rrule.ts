@@ -0,0 +1,198 @@
+import { RecurrenceFrequency } from '@task-manager/data';
+
+/**
+ * Parsed form of the RRULE subset we support: FREQ (DAILY, WEEKLY,
+ * MONTHLY), INTERVAL, BYDAY (weekly rules only), UNTIL and COUNT.
+ * All dates are handled in UTC.
+ */
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  /** Weekdays as returned by Date#getUTCDay, Monday first */
+  byDay: number[];
+  until: Date | null;
+  count: number | null;
+}
+
+export interface Occurrence {
+  date: Date;
+  /** 1-based position in the series; DTSTART is occurrence 1 */
+  index: number;
+}
+
+export class RRuleError extends Error {}
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Weekdays sort Monday first, the RFC 5545 default week start
+const weekdayOffset = (day: number) => (day + 6) % 7;
+
+export function parseRRule(value: string): RecurrenceRule {
+  const parts = value.trim().replace(/^RRULE:/i, '').split(';').filter(Boolean);
+  const seen = new Set<string>();
+  const rule: Partial<RecurrenceRule> = { interval: 1, byDay: [], until: null, count: null };
+
+  for (const part of parts) {
+    const [rawKey, rawValue = ''] = part.split('=');
+    const key = rawKey.trim().toUpperCase();
+    const val = rawValue.trim().toUpperCase();
+
+    if (seen.has(key)) {
+      throw new RRuleError(`${key} is given more than once`);
+    }
+    seen.add(key);
+
+    switch (key) {
+      case 'FREQ':
+        if (!Object.values(RecurrenceFrequency).includes(val as RecurrenceFrequency)) {
+          throw new RRuleError('FREQ must be DAILY, WEEKLY or MONTHLY');
+        }
+        rule.freq = val as RecurrenceFrequency;
+        break;
+      case 'INTERVAL':
+        rule.interval = parsePositiveInt(key, val);
+        break;
+      case 'COUNT':
+        rule.count = parsePositiveInt(key, val);
+        break;
+      case 'UNTIL':
+        rule.until = parseUntil(val);
+        break;
+      case 'BYDAY':
+        rule.byDay = val.split(',').map((day) => {
+          const index = WEEKDAYS.indexOf(day.trim());
+          if (index === -1) {
+            throw new RRuleError(`Unknown BYDAY value ${day}`);
+          }
+          return index;
+        });
+        break;
+      default:
+        throw new RRuleError(`Unsupported RRULE part ${key}`);
+    }
+  }
+
+  if (!rule.freq) {
+    throw new RRuleError('FREQ is required');
+  }
+  if (rule.until && rule.count) {
+    throw new RRuleError('UNTIL and COUNT cannot be combined');
+  }
+  if (rule.byDay?.length && rule.freq !== RecurrenceFrequency.WEEKLY) {
+    throw new RRuleError('BYDAY is only supported with FREQ=WEEKLY');
+  }
+
+  rule.byDay = [...new Set(rule.byDay)].sort(
+    (a, b) => weekdayOffset(a) - weekdayOffset(b)
+  );
+
+  return rule as RecurrenceRule;
+}
+
+/**
+ * Canonical text of a rule, as stored on TaskRecurrence.
+ */
+export function formatRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`, `INTERVAL=${rule.interval}`];
+  if (rule.byDay.length) {
+    parts.push(`BYDAY=${rule.byDay.map((day) => WEEKDAYS[day]).join(',')}`);
+  }
+  if (rule.until) {
+    parts.push(`UNTIL=${rule.until.toISOString().replace(/[-:]|\.\d{3}/g, '')}`);
+  }
+  if (rule.count) {
+    parts.push(`COUNT=${rule.count}`);
+  }
+  return parts.join(';');
+}
+
+/**
+ * First occurrence strictly after `after`, or null once UNTIL or COUNT
+ * ends the series.
+ */
+export function nextOccurrence(
+  rule: RecurrenceRule,
+  startsAt: Date,
+  after: Date
+): Occurrence | null {
+  let index = 0;
+  for (const date of occurrences(rule, startsAt)) {
+    index++;
+    if (rule.count && index > rule.count) {
+      return null;
+    }
+    if (date > after) {
+      return { date, index };
+    }
+  }
+  return null;
+}
+
+function* occurrences(rule: RecurrenceRule, startsAt: Date): Generator<Date> {
+  // DTSTART is always the first occurrence, even off the BYDAY days
+  if (rule.until && startsAt > rule.until) return;
+  yield startsAt;
+
+  for (let period = 0; ; period++) {
+    for (const date of periodDates(rule, startsAt, period * rule.interval)) {
+      if (date <= startsAt) continue;
+      if (rule.until && date > rule.until) return;
+      yield date;
+    }
+  }
+}
+
+/**
+ * Candidate dates of the nth day, week or month after DTSTART.
+ */
+function periodDates(rule: RecurrenceRule, startsAt: Date, offset: number): Date[] {
+  switch (rule.freq) {
+    case RecurrenceFrequency.DAILY:
+      return [new Date(startsAt.getTime() + offset * DAY_MS)];
+
+    case RecurrenceFrequency.WEEKLY: {
+      const weekStart =
+        startsAt.getTime() - weekdayOffset(startsAt.getUTCDay()) * DAY_MS;
+      const days = rule.byDay.length ? rule.byDay : [startsAt.getUTCDay()];
+      return days.map(
+        (day) => new Date(weekStart + (offset * 7 + weekdayOffset(day)) * DAY_MS)
+      );
+    }
+
+    case RecurrenceFrequency.MONTHLY: {
+      const date = new Date(startsAt);
+      date.setUTCDate(1);
+      date.setUTCMonth(date.getUTCMonth() + offset);
+      // Months without the day of DTSTART (e.g. the 31st) are skipped
+      const daysInMonth = new Date(
+        Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)
+      ).getUTCDate();
+      if (startsAt.getUTCDate() > daysInMonth) {
+        return [];
+      }
+      date.setUTCDate(startsAt.getUTCDate());
+      return [date];
+    }
+  }
+}
+
+function parsePositiveInt(key: string, value: string): number {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1) {
+    throw new RRuleError(`${key} must be a positive integer`);
+  }
+  return number;
+}
+
+function parseUntil(value: string): Date {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z)?$/.exec(value);
+  if (!match) {
+    throw new RRuleError('UNTIL must be YYYYMMDD or YYYYMMDDTHHMMSSZ');
+  }
+  const [, year, month, day, hours, minutes, seconds] = match.map(Number);
+  // A date-only UNTIL includes the whole day
+  return Number.isNaN(hours)
+    ? new Date(Date.UTC(year, month - 1, day, 23, 59, 59))
+    : new Date(Date.UTC(year, month - 1, day, hours, minutes, seconds));
+}
@@ -0,0 +1,47 @@
+import {
+  IsString,
+  IsOptional,
+  IsEnum,
+  MaxLength,
+  MinLength,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { SavedViewVisibility, TaskSortField } from '@task-manager/data';
+import { SavedViewFiltersDto } from './saved-view-filters.dto';
+
+export class CreateSavedViewDto {
+  @ApiProperty({
+    description: "View name, unique among the caller's views of the organization",
+    example: 'My urgent bugs',
+    maxLength: 100,
+  })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(100)
+  name!: string;
+
+  @ApiProperty({ description: 'Board filters', type: SavedViewFiltersDto })
+  @ValidateNested()
+  @Type(() => SavedViewFiltersDto)
+  filters!: SavedViewFiltersDto;
+
+  @ApiPropertyOptional({
+    description: 'Sort field',
+    enum: TaskSortField,
+    default: TaskSortField.CREATED_AT,
+  })
+  @IsOptional()
+  @IsEnum(TaskSortField)
+  sortBy?: TaskSortField;
+
+  @ApiPropertyOptional({
+    description: 'PRIVATE views are only listed for their owner, ORGANIZATION views for every member',
+    enum: SavedViewVisibility,
+    default: SavedViewVisibility.PRIVATE,
+  })
+  @IsOptional()
+  @IsEnum(SavedViewVisibility)
+  visibility?: SavedViewVisibility;
+}
@@ -0,0 +1,3 @@
+export * from './saved-view-filters.dto';
+export * from './create-saved-view.dto';
+export * from './update-saved-view.dto';
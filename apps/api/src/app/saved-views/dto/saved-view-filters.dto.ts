@@ -0,0 +1,41 @@
+import {
+  IsUUID,
+  IsOptional,
+  IsString,
+  IsArray,
+  ArrayMaxSize,
+  MaxLength,
+} from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * Board filters of a saved view; each one matches the GET /tasks query
+ * parameter of the same name
+ */
+export class SavedViewFiltersDto {
+  @ApiPropertyOptional({ description: 'Text search', example: 'login', maxLength: 200 })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  search?: string;
+
+  @ApiPropertyOptional({
+    description: 'Label UUIDs; tasks with any of them match',
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @IsUUID('all', { each: true })
+  labelIds?: string[];
+
+  @ApiPropertyOptional({ description: 'Sprint UUID', format: 'uuid' })
+  @IsOptional()
+  @IsUUID()
+  sprintId?: string;
+
+  @ApiPropertyOptional({ description: 'Project UUID', format: 'uuid' })
+  @IsOptional()
+  @IsUUID()
+  projectId?: string;
+}
@@ -0,0 +1,40 @@
+import {
+  IsString,
+  IsOptional,
+  IsEnum,
+  MaxLength,
+  MinLength,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { SavedViewVisibility, TaskSortField } from '@task-manager/data';
+import { SavedViewFiltersDto } from './saved-view-filters.dto';
+
+export class UpdateSavedViewDto {
+  @ApiPropertyOptional({ description: 'New name', example: 'Urgent bugs', maxLength: 100 })
+  @IsOptional()
+  @IsString()
+  @MinLength(1)
+  @MaxLength(100)
+  name?: string;
+
+  @ApiPropertyOptional({
+    description: 'Board filters; replaces the previous ones',
+    type: SavedViewFiltersDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => SavedViewFiltersDto)
+  filters?: SavedViewFiltersDto;
+
+  @ApiPropertyOptional({ description: 'Sort field', enum: TaskSortField })
+  @IsOptional()
+  @IsEnum(TaskSortField)
+  sortBy?: TaskSortField;
+
+  @ApiPropertyOptional({ description: 'Share the view with the organization or make it private again', enum: SavedViewVisibility })
+  @IsOptional()
+  @IsEnum(SavedViewVisibility)
+  visibility?: SavedViewVisibility;
+}
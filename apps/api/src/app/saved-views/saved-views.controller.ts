@@ -0,0 +1,125 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Request,
+  UseGuards,
+  UseInterceptors,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+} from '@nestjs/swagger';
+import {
+  JwtAuthGuard,
+  OrgRolesGuard,
+  OrgRoles,
+  PermissionsGuard,
+  RequirePermission,
+} from '@task-manager/auth';
+import {
+  OrganizationRole,
+  SavedView,
+  PermissionResource,
+  PermissionAction,
+} from '@task-manager/data';
+import { SavedViewsService } from './saved-views.service';
+import { CreateSavedViewDto, UpdateSavedViewDto } from './dto';
+import { AuditInterceptor } from '../audit/audit.interceptor';
+
+interface AuthenticatedRequest extends Request {
+  user: { id: string; email: string };
+  userOrgRole?: OrganizationRole;
+}
+
+@ApiTags('Saved Views')
+@ApiBearerAuth('JWT-auth')
+@Controller('organizations/:organizationId/views')
+@UseInterceptors(AuditInterceptor)
+export class SavedViewsController {
+  constructor(private readonly savedViewsService: SavedViewsService) {}
+
+  @Get()
+  @UseGuards(JwtAuthGuard, OrgRolesGuard, PermissionsGuard)
+  @OrgRoles(OrganizationRole.VIEWER)
+  @RequirePermission(PermissionResource.TASK, PermissionAction.READ)
+  @ApiOperation({ summary: "List the caller's views and the views shared with the organization" })
+  @ApiParam({ name: 'organizationId', description: 'Organization UUID' })
+  @ApiResponse({ status: 200, description: 'Views retrieved successfully', type: [SavedView] })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 403, description: 'Forbidden - User does not have access to this organization' })
+  async findAll(
+    @Param('organizationId', ParseUUIDPipe) organizationId: string,
+    @Request() req: AuthenticatedRequest
+  ) {
+    return this.savedViewsService.findVisible(organizationId, req.user.id);
+  }
+
+  @Post()
+  @UseGuards(JwtAuthGuard, OrgRolesGuard, PermissionsGuard)
+  @OrgRoles(OrganizationRole.VIEWER)
+  @RequirePermission(PermissionResource.TASK, PermissionAction.READ)
+  @ApiOperation({ summary: 'Save the board filters and sort as a view' })
+  @ApiParam({ name: 'organizationId', description: 'Organization UUID' })
+  @ApiResponse({ status: 201, description: 'View created successfully', type: SavedView })
+  @ApiResponse({ status: 400, description: 'Bad Request - Invalid name or filters' })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 403, description: 'Forbidden - User does not have access to this organization' })
+  @ApiResponse({ status: 409, description: 'Conflict - The caller already has a view with this name' })
+  async create(
+    @Param('organizationId', ParseUUIDPipe) organizationId: string,
+    @Body() createSavedViewDto: CreateSavedViewDto,
+    @Request() req: AuthenticatedRequest
+  ) {
+    return this.savedViewsService.create(organizationId, req.user.id, createSavedViewDto);
+  }
+
+  @Patch(':viewId')
+  @UseGuards(JwtAuthGuard, OrgRolesGuard, PermissionsGuard)
+  @OrgRoles(OrganizationRole.VIEWER)
+  @RequirePermission(PermissionResource.TASK, PermissionAction.READ)
+  @ApiOperation({ summary: 'Rename, refilter or share one of your views' })
+  @ApiParam({ name: 'organizationId', description: 'Organization UUID' })
+  @ApiParam({ name: 'viewId', description: 'View UUID' })
+  @ApiResponse({ status: 200, description: 'View updated successfully', type: SavedView })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 403, description: 'Forbidden - The view belongs to another member' })
+  @ApiResponse({ status: 404, description: 'View not found' })
+  @ApiResponse({ status: 409, description: 'Conflict - The caller already has a view with this name' })
+  async update(
+    @Param('organizationId', ParseUUIDPipe) organizationId: string,
+    @Param('viewId', ParseUUIDPipe) viewId: string,
+    @Body() updateSavedViewDto: UpdateSavedViewDto,
+    @Request() req: AuthenticatedRequest
+  ) {
+    return this.savedViewsService.update(organizationId, viewId, req.user.id, updateSavedViewDto);
+  }
+
+  @Delete(':viewId')
+  @UseGuards(JwtAuthGuard, OrgRolesGuard, PermissionsGuard)
+  @OrgRoles(OrganizationRole.VIEWER)
+  @RequirePermission(PermissionResource.TASK, PermissionAction.READ)
+  @ApiOperation({ summary: 'Delete one of your views, or any shared view as an admin' })
+  @ApiParam({ name: 'organizationId', description: 'Organization UUID' })
+  @ApiParam({ name: 'viewId', description: 'View UUID' })
+  @ApiResponse({ status: 200, description: 'View deleted successfully' })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 403, description: 'Forbidden - The view belongs to another member' })
+  @ApiResponse({ status: 404, description: 'View not found' })
+  async remove(
+    @Param('organizationId', ParseUUIDPipe) organizationId: string,
+    @Param('viewId', ParseUUIDPipe) viewId: string,
+    @Request() req: AuthenticatedRequest
+  ) {
+    await this.savedViewsService.delete(organizationId, viewId, req.user.id, req.userOrgRole);
+    return { message: 'View deleted successfully' };
+  }
+}
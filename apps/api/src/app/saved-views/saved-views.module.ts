@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { SavedView } from '@task-manager/data';
+import { AuthModule } from '@task-manager/auth';
+import { SavedViewsController } from './saved-views.controller';
+import { SavedViewsService } from './saved-views.service';
+import { AuditModule } from '../audit/audit.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([SavedView]), AuthModule, AuditModule],
+  controllers: [SavedViewsController],
+  providers: [SavedViewsService],
+})
+export class SavedViewsModule {}
@@ -0,0 +1,191 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import {
+  NotFoundException,
+  ForbiddenException,
+  ConflictException,
+} from '@nestjs/common';
+import { Repository, QueryFailedError } from 'typeorm';
+import {
+  SavedView,
+  SavedViewVisibility,
+  TaskSortField,
+  OrganizationRole,
+} from '@task-manager/data';
+import { SavedViewsService } from './saved-views.service';
+
+describe('SavedViewsService', () => {
+  let service: SavedViewsService;
+  let savedViewRepository: jest.Mocked<Repository<SavedView>>;
+
+  const view = (overrides: Partial<SavedView> = {}): SavedView =>
+    ({
+      id: 'view-uuid-1',
+      organizationId: 'org-uuid-1',
+      ownerId: 'user-uuid-1',
+      name: 'Urgent bugs',
+      filters: { search: 'bug' },
+      sortBy: TaskSortField.PRIORITY,
+      visibility: SavedViewVisibility.PRIVATE,
+      ...overrides,
+    }) as SavedView;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SavedViewsService,
+        {
+          provide: getRepositoryToken(SavedView),
+          useValue: {
+            create: jest.fn((data) => data),
+            save: jest.fn((data) =>
+              Promise.resolve({ id: 'view-uuid-1', ...data })
+            ),
+            find: jest.fn(),
+            findOne: jest.fn(),
+            remove: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<SavedViewsService>(SavedViewsService);
+    savedViewRepository = module.get(getRepositoryToken(SavedView));
+  });
+
+  describe('findVisible', () => {
+    it('should list own views and views shared with the organization', async () => {
+      savedViewRepository.find.mockResolvedValue([view()]);
+
+      const result = await service.findVisible('org-uuid-1', 'user-uuid-1');
+
+      expect(result).toHaveLength(1);
+      expect(savedViewRepository.find).toHaveBeenCalledWith({
+        where: [
+          { organizationId: 'org-uuid-1', ownerId: 'user-uuid-1' },
+          {
+            organizationId: 'org-uuid-1',
+            visibility: SavedViewVisibility.ORGANIZATION,
+          },
+        ],
+        order: { name: 'ASC', createdAt: 'ASC' },
+      });
+    });
+  });
+
+  describe('create', () => {
+    it('should create a private view sorted by creation date by default', async () => {
+      const result = await service.create('org-uuid-1', 'user-uuid-1', {
+        name: ' Urgent bugs ',
+        filters: { search: ' bug ', labelIds: [], sprintId: undefined },
+      });
+
+      expect(result).toMatchObject({
+        organizationId: 'org-uuid-1',
+        ownerId: 'user-uuid-1',
+        name: 'Urgent bugs',
+        filters: { search: 'bug' },
+        sortBy: TaskSortField.CREATED_AT,
+        visibility: SavedViewVisibility.PRIVATE,
+      });
+    });
+
+    it('should drop duplicate labels', async () => {
+      const result = await service.create('org-uuid-1', 'user-uuid-1', {
+        name: 'Labelled',
+        filters: { labelIds: ['label-uuid-1', 'label-uuid-1', 'label-uuid-2'] },
+        visibility: SavedViewVisibility.ORGANIZATION,
+      });
+
+      expect(result.filters).toEqual({ labelIds: ['label-uuid-1', 'label-uuid-2'] });
+      expect(result.visibility).toBe(SavedViewVisibility.ORGANIZATION);
+    });
+
+    it('should throw ConflictException for a name the user already has', async () => {
+      savedViewRepository.save.mockRejectedValue(
+        new QueryFailedError('INSERT', [], Object.assign(new Error(), { code: '23505' }))
+      );
+
+      await expect(
+        service.create('org-uuid-1', 'user-uuid-1', { name: 'Urgent bugs', filters: {} })
+      ).rejects.toThrow(ConflictException);
+    });
+  });
+
+  describe('update', () => {
+    it('should let the owner rename and share a view', async () => {
+      savedViewRepository.findOne.mockResolvedValue(view());
+
+      const result = await service.update('org-uuid-1', 'view-uuid-1', 'user-uuid-1', {
+        name: 'Team bugs',
+        visibility: SavedViewVisibility.ORGANIZATION,
+      });
+
+      expect(result).toMatchObject({
+        name: 'Team bugs',
+        filters: { search: 'bug' },
+        visibility: SavedViewVisibility.ORGANIZATION,
+      });
+    });
+
+    it('should throw ForbiddenException for a shared view of another member', async () => {
+      savedViewRepository.findOne.mockResolvedValue(
+        view({ ownerId: 'user-uuid-2', visibility: SavedViewVisibility.ORGANIZATION })
+      );
+
+      await expect(
+        service.update('org-uuid-1', 'view-uuid-1', 'user-uuid-1', { name: 'Mine now' })
+      ).rejects.toThrow(ForbiddenException);
+      expect(savedViewRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException for a private view of another member', async () => {
+      savedViewRepository.findOne.mockResolvedValue(view({ ownerId: 'user-uuid-2' }));
+
+      await expect(
+        service.update('org-uuid-1', 'view-uuid-1', 'user-uuid-1', { name: 'Mine now' })
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('delete', () => {
+    it('should let the owner delete a view', async () => {
+      savedViewRepository.findOne.mockResolvedValue(view());
+
+      await service.delete('org-uuid-1', 'view-uuid-1', 'user-uuid-1', OrganizationRole.VIEWER);
+
+      expect(savedViewRepository.remove).toHaveBeenCalled();
+    });
+
+    it('should let an admin delete a shared view of another member', async () => {
+      savedViewRepository.findOne.mockResolvedValue(
+        view({ ownerId: 'user-uuid-2', visibility: SavedViewVisibility.ORGANIZATION })
+      );
+
+      await service.delete('org-uuid-1', 'view-uuid-1', 'user-uuid-1', OrganizationRole.ADMIN);
+
+      expect(savedViewRepository.remove).toHaveBeenCalled();
+    });
+
+    it('should throw ForbiddenException when a viewer deletes a shared view of another member', async () => {
+      savedViewRepository.findOne.mockResolvedValue(
+        view({ ownerId: 'user-uuid-2', visibility: SavedViewVisibility.ORGANIZATION })
+      );
+
+      await expect(
+        service.delete('org-uuid-1', 'view-uuid-1', 'user-uuid-1', OrganizationRole.VIEWER)
+      ).rejects.toThrow(ForbiddenException);
+      expect(savedViewRepository.remove).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException when view does not exist', async () => {
+      savedViewRepository.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.delete('org-uuid-1', 'missing', 'user-uuid-1', OrganizationRole.OWNER)
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+});
@@ -0,0 +1,175 @@
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+  ConflictException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, QueryFailedError } from 'typeorm';
+import {
+  SavedView,
+  SavedViewVisibility,
+  TaskSortField,
+  OrganizationRole,
+  ISavedViewFilters,
+} from '@task-manager/data';
+
+export interface CreateSavedViewDto {
+  name: string;
+  filters: ISavedViewFilters;
+  sortBy?: TaskSortField;
+  visibility?: SavedViewVisibility;
+}
+
+export interface UpdateSavedViewDto {
+  name?: string;
+  filters?: ISavedViewFilters;
+  sortBy?: TaskSortField;
+  visibility?: SavedViewVisibility;
+}
+
+@Injectable()
+export class SavedViewsService {
+  constructor(
+    @InjectRepository(SavedView)
+    private readonly savedViewRepository: Repository<SavedView>
+  ) {}
+
+  /**
+   * The user's own views and the views shared with the organization, by
+   * name.
+   */
+  async findVisible(organizationId: string, userId: string): Promise<SavedView[]> {
+    return this.savedViewRepository.find({
+      where: [
+        { organizationId, ownerId: userId },
+        { organizationId, visibility: SavedViewVisibility.ORGANIZATION },
+      ],
+      order: { name: 'ASC', createdAt: 'ASC' },
+    });
+  }
+
+  async create(
+    organizationId: string,
+    userId: string,
+    dto: CreateSavedViewDto
+  ): Promise<SavedView> {
+    const view = this.savedViewRepository.create({
+      organizationId,
+      ownerId: userId,
+      name: dto.name.trim(),
+      filters: this.normalizeFilters(dto.filters),
+      sortBy: dto.sortBy ?? TaskSortField.CREATED_AT,
+      visibility: dto.visibility ?? SavedViewVisibility.PRIVATE,
+    });
+
+    return this.saveUnique(view);
+  }
+
+  /**
+   * Only the owner changes a view, shared or not.
+   */
+  async update(
+    organizationId: string,
+    viewId: string,
+    userId: string,
+    dto: UpdateSavedViewDto
+  ): Promise<SavedView> {
+    const view = await this.findVisibleView(organizationId, viewId, userId);
+    if (view.ownerId !== userId) {
+      throw new ForbiddenException('Only the owner can change a view');
+    }
+
+    if (dto.name !== undefined) {
+      view.name = dto.name.trim();
+    }
+    if (dto.filters !== undefined) {
+      view.filters = this.normalizeFilters(dto.filters);
+    }
+    if (dto.sortBy !== undefined) {
+      view.sortBy = dto.sortBy;
+    }
+    if (dto.visibility !== undefined) {
+      view.visibility = dto.visibility;
+    }
+
+    return this.saveUnique(view);
+  }
+
+  /**
+   * Owners delete their views; admins can also tidy up the views shared
+   * with the organization.
+   */
+  async delete(
+    organizationId: string,
+    viewId: string,
+    userId: string,
+    role: OrganizationRole | undefined
+  ): Promise<void> {
+    const view = await this.findVisibleView(organizationId, viewId, userId);
+    const isAdmin = role === OrganizationRole.ADMIN || role === OrganizationRole.OWNER;
+    if (view.ownerId !== userId && !isAdmin) {
+      throw new ForbiddenException('Only the owner or an admin can delete a shared view');
+    }
+
+    await this.savedViewRepository.remove(view);
+  }
+
+  /**
+   * Private views of other members are reported as missing
+   */
+  private async findVisibleView(
+    organizationId: string,
+    viewId: string,
+    userId: string
+  ): Promise<SavedView> {
+    const view = await this.savedViewRepository.findOne({
+      where: { id: viewId, organizationId },
+    });
+
+    if (
+      !view ||
+      (view.ownerId !== userId && view.visibility !== SavedViewVisibility.ORGANIZATION)
+    ) {
+      throw new NotFoundException(`View with ID ${viewId} not found`);
+    }
+
+    return view;
+  }
+
+  // Leave out empty filters so that equal views store equal JSON
+  private normalizeFilters(filters: ISavedViewFilters): ISavedViewFilters {
+    const normalized: ISavedViewFilters = {};
+    if (filters.search?.trim()) {
+      normalized.search = filters.search.trim();
+    }
+    if (filters.labelIds?.length) {
+      normalized.labelIds = [...new Set(filters.labelIds)];
+    }
+    if (filters.sprintId) {
+      normalized.sprintId = filters.sprintId;
+    }
+    if (filters.projectId) {
+      normalized.projectId = filters.projectId;
+    }
+    return normalized;
+  }
+
+  private async saveUnique(view: SavedView): Promise<SavedView> {
+    try {
+      return await this.savedViewRepository.save(view);
+    } catch (error) {
+      if (this.isUniqueViolation(error)) {
+        throw new ConflictException(`You already have a view named ${view.name}`);
+      }
+      throw error;
+    }
+  }
+
+  private isUniqueViolation(error: unknown): boolean {
+    return (
+      error instanceof QueryFailedError &&
+      (error.driverError as { code?: string })?.code === '23505'
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import {
+  IsUUID,
+  IsOptional,
+  IsString,
+  IsInt,
+  MinLength,
+  MaxLength,
+  Min,
+  Max,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class SearchDto {
+  @ApiProperty({
+    description: 'Words to look for; each one matches as a prefix',
+    example: 'login tim',
+  })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(200)
+  q!: string;
+
+  @ApiPropertyOptional({
+    description: "Only search this organization (defaults to all of the caller's organizations)",
+    format: 'uuid',
+  })
+  @IsOptional()
+  @IsUUID()
+  organizationId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Maximum number of results',
+    minimum: 1,
+    maximum: 50,
+    default: 20,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(50)
+  limit?: number;
+}
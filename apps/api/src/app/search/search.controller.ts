@@ -0,0 +1,39 @@
+import { Controller, Get, Query, UseGuards, Request } from '@nestjs/common';
+import {
+  ApiTags,
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '@task-manager/auth';
+import { SearchService } from './search.service';
+import { SearchDto } from './dto';
+
+interface AuthenticatedRequest extends Request {
+  user: { id: string; email: string };
+}
+
+@ApiTags('Search')
+@ApiBearerAuth('JWT-auth')
+@Controller('search')
+export class SearchController {
+  constructor(private readonly searchService: SearchService) {}
+
+  @Get()
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({
+    summary: 'Full-text search over tasks and their comments',
+    description:
+      'Searches the organizations the caller belongs to and may read tasks in. Titles and keys rank above descriptions, which rank above comments. Matched words are wrapped in <mark> in titleHighlight and snippet.',
+  })
+  @ApiResponse({ status: 200, description: 'Matching tasks, best first' })
+  @ApiResponse({ status: 400, description: 'Invalid query parameters' })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 403, description: 'Forbidden - User is not a member of this organization' })
+  async search(@Query() query: SearchDto, @Request() req: AuthenticatedRequest) {
+    return this.searchService.search(req.user.id, query.q, {
+      organizationId: query.organizationId,
+      limit: query.limit,
+    });
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Task, UserOrganization } from '@task-manager/data';
+import { AuthModule } from '@task-manager/auth';
+import { SearchController } from './search.controller';
+import { SearchService } from './search.service';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Task, UserOrganization]), AuthModule],
+  controllers: [SearchController],
+  providers: [SearchService],
+})
+export class SearchModule {}
@@ -0,0 +1,174 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ForbiddenException } from '@nestjs/common';
+import { Repository } from 'typeorm';
+import { PermissionsService } from '@task-manager/auth';
+import {
+  Task,
+  TaskStatus,
+  UserOrganization,
+  PermissionResource,
+} from '@task-manager/data';
+import { SearchService } from './search.service';
+
+describe('SearchService', () => {
+  let service: SearchService;
+  let taskRepository: jest.Mocked<Repository<Task>>;
+  let userOrgRepository: jest.Mocked<Repository<UserOrganization>>;
+  let permissionsService: jest.Mocked<PermissionsService>;
+
+  const membership = (organizationId: string) =>
+    ({ userId: 'user-uuid-1', organizationId }) as UserOrganization;
+
+  const row = (overrides: Record<string, unknown> = {}) => ({
+    taskId: 'task-uuid-1',
+    organizationId: 'org-uuid-1',
+    key: 'OPS-7',
+    title: 'Fix login timeout',
+    status: TaskStatus.TODO,
+    statusId: 'status-uuid-1',
+    projectId: 'project-uuid-1',
+    rank: '0.6079271',
+    titleHighlight: 'Fix \u0002login\u0003 timeout',
+    snippet: null,
+    commentId: null,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SearchService,
+        {
+          provide: getRepositoryToken(Task),
+          useValue: { query: jest.fn().mockResolvedValue([]) },
+        },
+        {
+          provide: getRepositoryToken(UserOrganization),
+          useValue: { find: jest.fn() },
+        },
+        {
+          provide: PermissionsService,
+          useValue: { hasPermission: jest.fn().mockResolvedValue(true) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<SearchService>(SearchService);
+    taskRepository = module.get(getRepositoryToken(Task));
+    userOrgRepository = module.get(getRepositoryToken(UserOrganization));
+    permissionsService = module.get(PermissionsService);
+  });
+
+  describe('search', () => {
+    it('should match every word as a prefix', async () => {
+      userOrgRepository.find.mockResolvedValue([membership('org-uuid-1')]);
+
+      await service.search('user-uuid-1', ' Login  tim ');
+
+      const params = taskRepository.query.mock.calls[0][1] as unknown[];
+      expect(params[0]).toBe('login:* & tim:*');
+      expect(params[3]).toBe(20);
+    });
+
+    it('should drop tsquery syntax from the input', async () => {
+      userOrgRepository.find.mockResolvedValue([membership('org-uuid-1')]);
+
+      await service.search('user-uuid-1', "ops-42 | !(a & b):*'");
+
+      const params = taskRepository.query.mock.calls[0][1] as unknown[];
+      expect(params[0]).toBe('ops:* & 42:* & a:* & b:*');
+    });
+
+    it('should not query the database without words', async () => {
+      const result = await service.search('user-uuid-1', ' -- ');
+
+      expect(result).toEqual([]);
+      expect(userOrgRepository.find).not.toHaveBeenCalled();
+      expect(taskRepository.query).not.toHaveBeenCalled();
+    });
+
+    it('should only search organizations where the user can read tasks', async () => {
+      userOrgRepository.find.mockResolvedValue([
+        membership('org-uuid-1'),
+        membership('org-uuid-2'),
+        membership('org-uuid-3'),
+      ]);
+      permissionsService.hasPermission.mockImplementation(
+        async (_userId, organizationId, resource) =>
+          organizationId === 'org-uuid-1' ||
+          (organizationId === 'org-uuid-2' && resource === PermissionResource.TASK)
+      );
+
+      await service.search('user-uuid-1', 'login');
+
+      const params = taskRepository.query.mock.calls[0][1] as unknown[];
+      expect(params[1]).toEqual(['org-uuid-1', 'org-uuid-2']);
+      expect(params[2]).toEqual(['org-uuid-1']);
+    });
+
+    it('should return nothing when no organization is readable', async () => {
+      userOrgRepository.find.mockResolvedValue([membership('org-uuid-1')]);
+      permissionsService.hasPermission.mockResolvedValue(false);
+
+      const result = await service.search('user-uuid-1', 'login');
+
+      expect(result).toEqual([]);
+      expect(taskRepository.query).not.toHaveBeenCalled();
+    });
+
+    it('should limit the search to the given organization', async () => {
+      userOrgRepository.find.mockResolvedValue([membership('org-uuid-2')]);
+
+      await service.search('user-uuid-1', 'login', {
+        organizationId: 'org-uuid-2',
+        limit: 5,
+      });
+
+      expect(userOrgRepository.find).toHaveBeenCalledWith({
+        where: { userId: 'user-uuid-1', organizationId: 'org-uuid-2' },
+      });
+      const params = taskRepository.query.mock.calls[0][1] as unknown[];
+      expect(params[1]).toEqual(['org-uuid-2']);
+      expect(params[3]).toBe(5);
+    });
+
+    it('should throw ForbiddenException for an organization the user is not in', async () => {
+      userOrgRepository.find.mockResolvedValue([]);
+
+      await expect(
+        service.search('user-uuid-1', 'login', { organizationId: 'org-uuid-9' })
+      ).rejects.toThrow(ForbiddenException);
+      expect(taskRepository.query).not.toHaveBeenCalled();
+    });
+
+    it('should escape highlights and mark the matched words', async () => {
+      userOrgRepository.find.mockResolvedValue([membership('org-uuid-1')]);
+      taskRepository.query.mockResolvedValue([
+        row({
+          snippet: 'Users see <b>"\u0002login\u0003 failed"</b> & retry',
+          commentId: 'comment-uuid-1',
+        }),
+      ]);
+
+      const [hit] = await service.search('user-uuid-1', 'login');
+
+      expect(hit).toEqual({
+        taskId: 'task-uuid-1',
+        organizationId: 'org-uuid-1',
+        key: 'OPS-7',
+        title: 'Fix login timeout',
+        status: TaskStatus.TODO,
+        statusId: 'status-uuid-1',
+        projectId: 'project-uuid-1',
+        rank: 0.6079271,
+        titleHighlight: 'Fix <mark>login</mark> timeout',
+        snippet:
+          'Users see &lt;b&gt;&quot;<mark>login</mark> failed&quot;&lt;/b&gt; &amp; retry',
+        commentId: 'comment-uuid-1',
+      });
+    });
+  });
+});
@@ -0,0 +1,204 @@
+import { Injectable, ForbiddenException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import {
+  Task,
+  UserOrganization,
+  PermissionResource,
+  PermissionAction,
+  ISearchHit,
+} from '@task-manager/data';
+import { PermissionsService } from '@task-manager/auth';
+
+export interface SearchOptions {
+  organizationId?: string;
+  limit?: number;
+}
+
+/** Raw row of the search query; numeric ranks come back as text */
+interface SearchRow extends Omit<ISearchHit, 'rank'> {
+  rank: string | number;
+}
+
+const DEFAULT_LIMIT = 20;
+
+// ts_headline marks matches with these; they are swapped for <mark> once
+// the text is HTML-escaped
+const START_SEL = '\u0002';
+const STOP_SEL = '\u0003';
+const TITLE_HEADLINE_OPTIONS = `StartSel="${START_SEL}", StopSel="${STOP_SEL}", HighlightAll=true`;
+const SNIPPET_HEADLINE_OPTIONS = `StartSel="${START_SEL}", StopSel="${STOP_SEL}", MinWords=10, MaxWords=30, MaxFragments=2, FragmentDelimiter=" … "`;
+
+/**
+ * Tasks are matched on their own document (title, key, description) and
+ * on each of their comments; a task's rank is the sum of its matches.
+ * Comments only count in organizations where the caller may read them.
+ */
+const SEARCH_SQL = `
+  WITH query AS (
+    SELECT to_tsquery('english', $1) AS tsq
+  ),
+  matches AS (
+    SELECT t.id AS task_id, ts_rank(t.search_vector, query.tsq) AS rank, NULL::uuid AS comment_id
+    FROM tasks t
+    CROSS JOIN query
+    WHERE t.organization_id = ANY($2::uuid[])
+      AND t.deleted_at IS NULL
+      AND t.search_vector @@ query.tsq
+    UNION ALL
+    SELECT c.task_id, ts_rank(c.search_vector, query.tsq), c.id
+    FROM task_comments c
+    INNER JOIN tasks t ON t.id = c.task_id
+    CROSS JOIN query
+    WHERE t.organization_id = ANY($3::uuid[])
+      AND t.deleted_at IS NULL
+      AND c.search_vector @@ query.tsq
+  ),
+  ranked AS (
+    SELECT
+      task_id,
+      SUM(rank) AS rank,
+      (array_agg(comment_id ORDER BY rank DESC) FILTER (WHERE comment_id IS NOT NULL))[1] AS comment_id
+    FROM matches
+    GROUP BY task_id
+    ORDER BY rank DESC, task_id
+    LIMIT $4
+  ),
+  hits AS (
+    SELECT
+      t.*,
+      r.rank,
+      c.id AS matched_comment_id,
+      c.body AS matched_comment_body,
+      to_tsvector('english', coalesce(t.description, '')) @@ query.tsq AS description_matches,
+      query.tsq
+    FROM ranked r
+    INNER JOIN tasks t ON t.id = r.task_id
+    LEFT JOIN task_comments c ON c.id = r.comment_id
+    CROSS JOIN query
+  )
+  SELECT
+    h.id AS "taskId",
+    h.organization_id AS "organizationId",
+    h.key,
+    h.title,
+    h.status,
+    h.status_id AS "statusId",
+    h.project_id AS "projectId",
+    h.rank,
+    ts_headline('english', h.title, h.tsq, $5) AS "titleHighlight",
+    CASE
+      WHEN h.matched_comment_id IS NOT NULL AND NOT h.description_matches
+        THEN ts_headline('english', h.matched_comment_body, h.tsq, $6)
+      WHEN h.description IS NOT NULL
+        THEN ts_headline('english', h.description, h.tsq, $6)
+    END AS snippet,
+    CASE
+      WHEN NOT h.description_matches THEN h.matched_comment_id
+    END AS "commentId"
+  FROM hits h
+  ORDER BY h.rank DESC, h.id
+`;
+
+@Injectable()
+export class SearchService {
+  constructor(
+    @InjectRepository(Task)
+    private readonly taskRepository: Repository<Task>,
+    @InjectRepository(UserOrganization)
+    private readonly userOrgRepository: Repository<UserOrganization>,
+    private readonly permissionsService: PermissionsService
+  ) {}
+
+  /**
+   * Full-text search over the tasks the user can read, in all of their
+   * organizations or in the given one. Every word is matched as a prefix,
+   * so results show up while the user is still typing.
+   */
+  async search(
+    userId: string,
+    text: string,
+    options: SearchOptions = {}
+  ): Promise<ISearchHit[]> {
+    const query = this.toTsQuery(text);
+    if (!query) {
+      return [];
+    }
+
+    const memberships = await this.userOrgRepository.find({
+      where: options.organizationId
+        ? { userId, organizationId: options.organizationId }
+        : { userId },
+    });
+    if (options.organizationId && memberships.length === 0) {
+      throw new ForbiddenException('You are not a member of this organization');
+    }
+
+    const taskOrgIds: string[] = [];
+    const commentOrgIds: string[] = [];
+    for (const { organizationId } of memberships) {
+      if (!(await this.can(userId, organizationId, PermissionResource.TASK))) {
+        continue;
+      }
+      taskOrgIds.push(organizationId);
+      if (await this.can(userId, organizationId, PermissionResource.COMMENT)) {
+        commentOrgIds.push(organizationId);
+      }
+    }
+    if (taskOrgIds.length === 0) {
+      return [];
+    }
+
+    const rows: SearchRow[] = await this.taskRepository.query(SEARCH_SQL, [
+      query,
+      taskOrgIds,
+      commentOrgIds,
+      options.limit ?? DEFAULT_LIMIT,
+      TITLE_HEADLINE_OPTIONS,
+      SNIPPET_HEADLINE_OPTIONS,
+    ]);
+
+    return rows.map((row) => ({
+      ...row,
+      rank: Number(row.rank),
+      titleHighlight: this.toHtml(row.titleHighlight),
+      snippet: row.snippet === null ? null : this.toHtml(row.snippet),
+    }));
+  }
+
+  /**
+   * Turn free text into a prefix tsquery: `fix log` becomes
+   * `fix:* & log:*`. Anything but letters and digits is dropped, so user
+   * input can never produce tsquery syntax.
+   */
+  private toTsQuery(text: string): string | null {
+    const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu);
+    return words ? words.map((word) => `${word}:*`).join(' & ') : null;
+  }
+
+  private can(
+    userId: string,
+    organizationId: string,
+    resource: PermissionResource
+  ): Promise<boolean> {
+    return this.permissionsService.hasPermission(
+      userId,
+      organizationId,
+      resource,
+      PermissionAction.READ
+    );
+  }
+
+  private toHtml(headline: string): string {
+    return headline
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;')
+      .split(START_SEL)
+      .join('<mark>')
+      .split(STOP_SEL)
+      .join('</mark>');
+  }
+}
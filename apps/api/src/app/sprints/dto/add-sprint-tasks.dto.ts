@@ -0,0 +1,15 @@
+import { IsArray, IsUUID, ArrayMinSize, ArrayMaxSize } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class AddSprintTasksDto {
+  @ApiProperty({
+    description: 'UUIDs of tasks of the organization to plan into the sprint',
+    example: ['550e8400-e29b-41d4-a716-446655440002'],
+    type: [String],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(200)
+  @IsUUID('all', { each: true })
+  taskIds!: string[];
+}
@@ -0,0 +1,14 @@
+import { IsOptional, IsUUID } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class CloseSprintDto {
+  @ApiPropertyOptional({
+    description:
+      'Planned sprint that receives the unfinished tasks. Omit to move them to the backlog.',
+    example: '550e8400-e29b-41d4-a716-446655440060',
+    format: 'uuid',
+  })
+  @IsOptional()
+  @IsUUID()
+  moveToSprintId?: string;
+}
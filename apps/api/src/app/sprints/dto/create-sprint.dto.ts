@@ -0,0 +1,46 @@
+import {
+  IsString,
+  IsOptional,
+  IsDateString,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class CreateSprintDto {
+  @ApiProperty({
+    description: 'Sprint name',
+    example: 'Sprint 14',
+    maxLength: 100,
+  })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(100)
+  name!: string;
+
+  @ApiPropertyOptional({
+    description: 'What the team commits to deliver',
+    example: 'Ship the invoicing export',
+    maxLength: 1000,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  goal?: string;
+
+  @ApiProperty({
+    description: 'When the sprint starts (ISO 8601)',
+    example: '2026-03-02T00:00:00.000Z',
+    format: 'date-time',
+  })
+  @IsDateString()
+  startDate!: string;
+
+  @ApiProperty({
+    description: 'When the sprint ends (ISO 8601)',
+    example: '2026-03-16T00:00:00.000Z',
+    format: 'date-time',
+  })
+  @IsDateString()
+  endDate!: string;
+}
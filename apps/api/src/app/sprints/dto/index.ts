@@ -0,0 +1,4 @@
+export * from './create-sprint.dto';
+export * from './update-sprint.dto';
+export * from './add-sprint-tasks.dto';
+export * from './close-sprint.dto';
@@ -0,0 +1,50 @@
+import {
+  IsString,
+  IsOptional,
+  IsDateString,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class UpdateSprintDto {
+  @ApiPropertyOptional({
+    description: 'New sprint name',
+    example: 'Sprint 14b',
+    maxLength: 100,
+  })
+  @IsOptional()
+  @IsString()
+  @MinLength(1)
+  @MaxLength(100)
+  name?: string;
+
+  @ApiPropertyOptional({
+    description: 'New goal, or null to clear it',
+    example: 'Ship the invoicing export',
+    maxLength: 1000,
+    nullable: true,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  goal?: string | null;
+
+  @ApiPropertyOptional({
+    description: 'New start (ISO 8601)',
+    example: '2026-03-02T00:00:00.000Z',
+    format: 'date-time',
+  })
+  @IsOptional()
+  @IsDateString()
+  startDate?: string;
+
+  @ApiPropertyOptional({
+    description: 'New end (ISO 8601)',
+    example: '2026-03-16T00:00:00.000Z',
+    format: 'date-time',
+  })
+  @IsOptional()
+  @IsDateString()
+  endDate?: string;
+}
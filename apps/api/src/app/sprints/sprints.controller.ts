@@ -0,0 +1,200 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+  UseInterceptors,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+} from '@nestjs/swagger';
+import {
+  JwtAuthGuard,
+  OrgRolesGuard,
+  OrgRoles,
+  PermissionsGuard,
+  RequirePermission,
+} from '@task-manager/auth';
+import {
+  OrganizationRole,
+  Sprint,
+  PermissionResource,
+  PermissionAction,
+} from '@task-manager/data';
+import { SprintsService } from './sprints.service';
+import {
+  CreateSprintDto,
+  UpdateSprintDto,
+  AddSprintTasksDto,
+  CloseSprintDto,
+} from './dto';
+import { AuditInterceptor } from '../audit/audit.interceptor';
+
+@ApiTags('Sprints')
+@ApiBearerAuth('JWT-auth')
+@Controller('organizations/:organizationId/sprints')
+@UseInterceptors(AuditInterceptor)
+export class SprintsController {
+  constructor(private readonly sprintsService: SprintsService) {}
+
+  @Get()
+  @UseGuards(JwtAuthGuard, OrgRolesGuard, PermissionsGuard)
+  @OrgRoles(OrganizationRole.VIEWER)
+  @RequirePermission(PermissionResource.SPRINT, PermissionAction.READ)
+  @ApiOperation({ summary: 'List the sprints of an organization with their progress' })
+  @ApiParam({ name: 'organizationId', description: 'Organization UUID' })
+  @ApiResponse({ status: 200, description: 'Sprints retrieved successfully', type: [Sprint] })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 403, description: 'Forbidden - User does not have access to this organization' })
+  async findAll(@Param('organizationId', ParseUUIDPipe) organizationId: string) {
+    return this.sprintsService.findByOrganization(organizationId);
+  }
+
+  @Post()
+  @UseGuards(JwtAuthGuard, OrgRolesGuard, PermissionsGuard)
+  @OrgRoles(OrganizationRole.ADMIN)
+  @RequirePermission(PermissionResource.SPRINT, PermissionAction.CREATE)
+  @ApiOperation({ summary: 'Plan a sprint' })
+  @ApiParam({ name: 'organizationId', description: 'Organization UUID' })
+  @ApiResponse({ status: 201, description: 'Sprint created successfully', type: Sprint })
+  @ApiResponse({ status: 400, description: 'Bad Request - Invalid name or dates' })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Requires ADMIN role or higher' })
+  async create(
+    @Param('organizationId', ParseUUIDPipe) organizationId: string,
+    @Body() createSprintDto: CreateSprintDto
+  ) {
+    return this.sprintsService.create(organizationId, createSprintDto);
+  }
+
+  @Patch(':sprintId')
+  @UseGuards(JwtAuthGuard, OrgRolesGuard, PermissionsGuard)
+  @OrgRoles(OrganizationRole.ADMIN)
+  @RequirePermission(PermissionResource.SPRINT, PermissionAction.UPDATE)
+  @ApiOperation({ summary: 'Edit the name, goal or dates of a sprint' })
+  @ApiParam({ name: 'organizationId', description: 'Organization UUID' })
+  @ApiParam({ name: 'sprintId', description: 'Sprint UUID' })
+  @ApiResponse({ status: 200, description: 'Sprint updated successfully', type: Sprint })
+  @ApiResponse({ status: 400, description: 'Bad Request - Invalid dates or sprint is closed' })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Requires ADMIN role or higher' })
+  @ApiResponse({ status: 404, description: 'Sprint not found' })
+  async update(
+    @Param('organizationId', ParseUUIDPipe) organizationId: string,
+    @Param('sprintId', ParseUUIDPipe) sprintId: string,
+    @Body() updateSprintDto: UpdateSprintDto
+  ) {
+    return this.sprintsService.update(organizationId, sprintId, updateSprintDto);
+  }
+
+  @Delete(':sprintId')
+  @UseGuards(JwtAuthGuard, OrgRolesGuard, PermissionsGuard)
+  @OrgRoles(OrganizationRole.ADMIN)
+  @RequirePermission(PermissionResource.SPRINT, PermissionAction.DELETE)
+  @ApiOperation({ summary: 'Delete a sprint and move its tasks to the backlog' })
+  @ApiParam({ name: 'organizationId', description: 'Organization UUID' })
+  @ApiParam({ name: 'sprintId', description: 'Sprint UUID' })
+  @ApiResponse({ status: 200, description: 'Sprint deleted successfully' })
+  @ApiResponse({ status: 400, description: 'Bad Request - The active sprint must be closed first' })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Requires ADMIN role or higher' })
+  @ApiResponse({ status: 404, description: 'Sprint not found' })
+  async remove(
+    @Param('organizationId', ParseUUIDPipe) organizationId: string,
+    @Param('sprintId', ParseUUIDPipe) sprintId: string
+  ) {
+    await this.sprintsService.delete(organizationId, sprintId);
+    return { message: 'Sprint deleted successfully' };
+  }
+
+  @Post(':sprintId/tasks')
+  @UseGuards(JwtAuthGuard, OrgRolesGuard, PermissionsGuard)
+  @OrgRoles(OrganizationRole.ADMIN)
+  @RequirePermission(PermissionResource.SPRINT, PermissionAction.UPDATE)
+  @ApiOperation({ summary: 'Plan tasks into a sprint' })
+  @ApiParam({ name: 'organizationId', description: 'Organization UUID' })
+  @ApiParam({ name: 'sprintId', description: 'Sprint UUID' })
+  @ApiResponse({ status: 201, description: 'Tasks added successfully', type: Sprint })
+  @ApiResponse({ status: 400, description: 'Bad Request - Unknown tasks or sprint is closed' })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Requires ADMIN role or higher' })
+  @ApiResponse({ status: 404, description: 'Sprint not found' })
+  async addTasks(
+    @Param('organizationId', ParseUUIDPipe) organizationId: string,
+    @Param('sprintId', ParseUUIDPipe) sprintId: string,
+    @Body() addSprintTasksDto: AddSprintTasksDto
+  ) {
+    return this.sprintsService.addTasks(organizationId, sprintId, addSprintTasksDto.taskIds);
+  }
+
+  @Delete(':sprintId/tasks/:taskId')
+  @UseGuards(JwtAuthGuard, OrgRolesGuard, PermissionsGuard)
+  @OrgRoles(OrganizationRole.ADMIN)
+  @RequirePermission(PermissionResource.SPRINT, PermissionAction.UPDATE)
+  @ApiOperation({ summary: 'Move a task from a sprint back to the backlog' })
+  @ApiParam({ name: 'organizationId', description: 'Organization UUID' })
+  @ApiParam({ name: 'sprintId', description: 'Sprint UUID' })
+  @ApiParam({ name: 'taskId', description: 'Task UUID' })
+  @ApiResponse({ status: 200, description: 'Task removed successfully' })
+  @ApiResponse({ status: 400, description: 'Bad Request - Sprint is closed' })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Requires ADMIN role or higher' })
+  @ApiResponse({ status: 404, description: 'Sprint not found or task not in it' })
+  async removeTask(
+    @Param('organizationId', ParseUUIDPipe) organizationId: string,
+    @Param('sprintId', ParseUUIDPipe) sprintId: string,
+    @Param('taskId', ParseUUIDPipe) taskId: string
+  ) {
+    await this.sprintsService.removeTask(organizationId, sprintId, taskId);
+    return { message: 'Task removed from sprint successfully' };
+  }
+
+  @Post(':sprintId/start')
+  @UseGuards(JwtAuthGuard, OrgRolesGuard, PermissionsGuard)
+  @OrgRoles(OrganizationRole.ADMIN)
+  @RequirePermission(PermissionResource.SPRINT, PermissionAction.MANAGE)
+  @ApiOperation({ summary: 'Start a planned sprint' })
+  @ApiParam({ name: 'organizationId', description: 'Organization UUID' })
+  @ApiParam({ name: 'sprintId', description: 'Sprint UUID' })
+  @ApiResponse({ status: 201, description: 'Sprint started successfully', type: Sprint })
+  @ApiResponse({ status: 400, description: 'Bad Request - Sprint is not planned' })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Requires ADMIN role or higher' })
+  @ApiResponse({ status: 404, description: 'Sprint not found' })
+  @ApiResponse({ status: 409, description: 'Conflict - Another sprint is already active' })
+  async start(
+    @Param('organizationId', ParseUUIDPipe) organizationId: string,
+    @Param('sprintId', ParseUUIDPipe) sprintId: string
+  ) {
+    return this.sprintsService.start(organizationId, sprintId);
+  }
+
+  @Post(':sprintId/close')
+  @UseGuards(JwtAuthGuard, OrgRolesGuard, PermissionsGuard)
+  @OrgRoles(OrganizationRole.ADMIN)
+  @RequirePermission(PermissionResource.SPRINT, PermissionAction.MANAGE)
+  @ApiOperation({ summary: 'Close the active sprint, moving unfinished tasks to the next sprint or the backlog' })
+  @ApiParam({ name: 'organizationId', description: 'Organization UUID' })
+  @ApiParam({ name: 'sprintId', description: 'Sprint UUID' })
+  @ApiResponse({ status: 201, description: 'Sprint closed successfully', type: Sprint })
+  @ApiResponse({ status: 400, description: 'Bad Request - Sprint is not active or target sprint is not planned' })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Requires ADMIN role or higher' })
+  @ApiResponse({ status: 404, description: 'Sprint not found' })
+  async close(
+    @Param('organizationId', ParseUUIDPipe) organizationId: string,
+    @Param('sprintId', ParseUUIDPipe) sprintId: string,
+    @Body() closeSprintDto: CloseSprintDto
+  ) {
+    return this.sprintsService.close(organizationId, sprintId, closeSprintDto);
+  }
+}
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Sprint, Task } from '@task-manager/data';
+import { AuthModule } from '@task-manager/auth';
+import { SprintsController } from './sprints.controller';
+import { SprintsService } from './sprints.service';
+import { AuditModule } from '../audit/audit.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Sprint, Task]), AuthModule, AuditModule],
+  controllers: [SprintsController],
+  providers: [SprintsService],
+  exports: [SprintsService],
+})
+export class SprintsModule {}
@@ -0,0 +1,253 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import {
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { Repository, Not } from 'typeorm';
+import { Sprint, SprintState, Task, TaskStatus } from '@task-manager/data';
+import { SprintsService } from './sprints.service';
+
+describe('SprintsService', () => {
+  let service: SprintsService;
+  let sprintRepository: jest.Mocked<Repository<Sprint>>;
+  let taskRepository: jest.Mocked<Repository<Task>>;
+
+  const summaryQueryBuilder = {
+    select: jest.fn().mockReturnThis(),
+    addSelect: jest.fn().mockReturnThis(),
+    where: jest.fn().mockReturnThis(),
+    setParameter: jest.fn().mockReturnThis(),
+    groupBy: jest.fn().mockReturnThis(),
+    getRawMany: jest.fn(),
+  };
+
+  const transactionManager = { update: jest.fn() };
+
+  const sprint = (overrides: Partial<Sprint> = {}): Sprint =>
+    ({
+      id: 'sprint-uuid-1',
+      organizationId: 'org-uuid-1',
+      name: 'Sprint 1',
+      goal: null,
+      startDate: new Date('2026-03-02T00:00:00.000Z'),
+      endDate: new Date('2026-03-16T00:00:00.000Z'),
+      state: SprintState.PLANNED,
+      closedAt: null,
+      ...overrides,
+    }) as Sprint;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    summaryQueryBuilder.getRawMany.mockResolvedValue([]);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SprintsService,
+        {
+          provide: getRepositoryToken(Sprint),
+          useValue: {
+            create: jest.fn((data) => data),
+            save: jest.fn((data) =>
+              Promise.resolve({ id: 'sprint-uuid-1', ...data })
+            ),
+            find: jest.fn(),
+            findOne: jest.fn(),
+            remove: jest.fn(),
+            manager: {
+              transaction: jest.fn((work) => work(transactionManager)),
+            },
+          },
+        },
+        {
+          provide: getRepositoryToken(Task),
+          useValue: {
+            find: jest.fn(),
+            update: jest.fn(),
+            createQueryBuilder: jest.fn(() => summaryQueryBuilder),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<SprintsService>(SprintsService);
+    sprintRepository = module.get(getRepositoryToken(Sprint));
+    taskRepository = module.get(getRepositoryToken(Task));
+  });
+
+  describe('findByOrganization', () => {
+    it('should attach task counts and estimate totals', async () => {
+      sprintRepository.find.mockResolvedValue([
+        sprint(),
+        sprint({ id: 'sprint-uuid-2', name: 'Sprint 2' }),
+      ]);
+      summaryQueryBuilder.getRawMany.mockResolvedValue([
+        {
+          sprintId: 'sprint-uuid-1',
+          taskCount: '4',
+          doneCount: '1',
+          totalEstimate: '13',
+          doneEstimate: '2.5',
+        },
+      ]);
+
+      const result = await service.findByOrganization('org-uuid-1');
+
+      expect(result[0].summary).toEqual({
+        taskCount: 4,
+        doneCount: 1,
+        totalEstimate: 13,
+        doneEstimate: 2.5,
+      });
+      expect(result[1].summary).toEqual({
+        taskCount: 0,
+        doneCount: 0,
+        totalEstimate: 0,
+        doneEstimate: 0,
+      });
+    });
+  });
+
+  describe('create', () => {
+    it('should reject a sprint that ends before it starts', async () => {
+      await expect(
+        service.create('org-uuid-1', {
+          name: 'Sprint 1',
+          startDate: '2026-03-16T00:00:00.000Z',
+          endDate: '2026-03-02T00:00:00.000Z',
+        })
+      ).rejects.toThrow(BadRequestException);
+      expect(sprintRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should create a planned sprint', async () => {
+      sprintRepository.findOne.mockResolvedValue(sprint());
+
+      await service.create('org-uuid-1', {
+        name: ' Sprint 1 ',
+        goal: '',
+        startDate: '2026-03-02T00:00:00.000Z',
+        endDate: '2026-03-16T00:00:00.000Z',
+      });
+
+      expect(sprintRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          name: 'Sprint 1',
+          goal: null,
+          state: SprintState.PLANNED,
+        })
+      );
+    });
+  });
+
+  describe('addTasks', () => {
+    it('should refuse tasks from another organization', async () => {
+      sprintRepository.findOne.mockResolvedValue(sprint());
+      taskRepository.find.mockResolvedValue([{ id: 'task-uuid-1' } as Task]);
+
+      await expect(
+        service.addTasks('org-uuid-1', 'sprint-uuid-1', ['task-uuid-1', 'task-uuid-2'])
+      ).rejects.toThrow('Tasks not found in this organization: task-uuid-2');
+      expect(taskRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a closed sprint', async () => {
+      sprintRepository.findOne.mockResolvedValue(sprint({ state: SprintState.CLOSED }));
+
+      await expect(
+        service.addTasks('org-uuid-1', 'sprint-uuid-1', ['task-uuid-1'])
+      ).rejects.toThrow('A closed sprint cannot be changed');
+    });
+  });
+
+  describe('removeTask', () => {
+    it('should throw NotFoundException when the task is not in the sprint', async () => {
+      sprintRepository.findOne.mockResolvedValue(sprint());
+      taskRepository.update.mockResolvedValue({ affected: 0, raw: [], generatedMaps: [] });
+
+      await expect(
+        service.removeTask('org-uuid-1', 'sprint-uuid-1', 'task-uuid-1')
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('start', () => {
+    it('should refuse when another sprint is active', async () => {
+      sprintRepository.findOne
+        .mockResolvedValueOnce(sprint())
+        .mockResolvedValueOnce(sprint({ id: 'sprint-uuid-0', name: 'Sprint 0', state: SprintState.ACTIVE }));
+
+      await expect(service.start('org-uuid-1', 'sprint-uuid-1')).rejects.toThrow(
+        ConflictException
+      );
+      expect(sprintRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should only start a planned sprint', async () => {
+      sprintRepository.findOne.mockResolvedValue(sprint({ state: SprintState.CLOSED }));
+
+      await expect(service.start('org-uuid-1', 'sprint-uuid-1')).rejects.toThrow(
+        'Only a planned sprint can be started'
+      );
+    });
+  });
+
+  describe('close', () => {
+    it('should move unfinished tasks to the next sprint', async () => {
+      sprintRepository.findOne
+        .mockResolvedValueOnce(sprint({ state: SprintState.ACTIVE }))
+        .mockResolvedValueOnce(sprint({ id: 'sprint-uuid-2' }))
+        .mockResolvedValueOnce(sprint({ state: SprintState.CLOSED }));
+
+      await service.close('org-uuid-1', 'sprint-uuid-1', {
+        moveToSprintId: 'sprint-uuid-2',
+      });
+
+      expect(transactionManager.update).toHaveBeenCalledWith(
+        Task,
+        { sprintId: 'sprint-uuid-1', status: Not(TaskStatus.DONE) },
+        { sprintId: 'sprint-uuid-2' }
+      );
+      expect(transactionManager.update).toHaveBeenCalledWith(
+        Sprint,
+        { id: 'sprint-uuid-1' },
+        expect.objectContaining({ state: SprintState.CLOSED })
+      );
+    });
+
+    it('should move unfinished tasks to the backlog without a target', async () => {
+      sprintRepository.findOne.mockResolvedValue(sprint({ state: SprintState.ACTIVE }));
+
+      await service.close('org-uuid-1', 'sprint-uuid-1', {});
+
+      expect(transactionManager.update).toHaveBeenCalledWith(
+        Task,
+        expect.anything(),
+        { sprintId: null }
+      );
+    });
+
+    it('should refuse a target sprint that is not planned', async () => {
+      sprintRepository.findOne
+        .mockResolvedValueOnce(sprint({ state: SprintState.ACTIVE }))
+        .mockResolvedValueOnce(sprint({ id: 'sprint-uuid-0', state: SprintState.CLOSED }));
+
+      await expect(
+        service.close('org-uuid-1', 'sprint-uuid-1', { moveToSprintId: 'sprint-uuid-0' })
+      ).rejects.toThrow('Unfinished tasks can only move to a planned sprint');
+      expect(transactionManager.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('delete', () => {
+    it('should refuse to delete the active sprint', async () => {
+      sprintRepository.findOne.mockResolvedValue(sprint({ state: SprintState.ACTIVE }));
+
+      await expect(service.delete('org-uuid-1', 'sprint-uuid-1')).rejects.toThrow(
+        BadRequestException
+      );
+      expect(sprintRepository.remove).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,329 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, In, Not, QueryFailedError } from 'typeorm';
+import {
+  Sprint,
+  SprintState,
+  Task,
+  TaskStatus,
+  ISprintSummary,
+} from '@task-manager/data';
+
+export interface CreateSprintDto {
+  name: string;
+  goal?: string;
+  startDate: string;
+  endDate: string;
+}
+
+export interface UpdateSprintDto {
+  name?: string;
+  goal?: string | null;
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface CloseSprintDto {
+  /** Planned sprint that receives unfinished tasks; omitted = backlog */
+  moveToSprintId?: string;
+}
+
+export type SprintWithSummary = Sprint & { summary: ISprintSummary };
+
+const EMPTY_SUMMARY: ISprintSummary = {
+  taskCount: 0,
+  doneCount: 0,
+  totalEstimate: 0,
+  doneEstimate: 0,
+};
+
+@Injectable()
+export class SprintsService {
+  constructor(
+    @InjectRepository(Sprint)
+    private readonly sprintRepository: Repository<Sprint>,
+    @InjectRepository(Task)
+    private readonly taskRepository: Repository<Task>
+  ) {}
+
+  /**
+   * Sprints of an organization in start order, with task counts and
+   * estimate totals.
+   */
+  async findByOrganization(organizationId: string): Promise<SprintWithSummary[]> {
+    const sprints = await this.sprintRepository.find({
+      where: { organizationId },
+      order: { startDate: 'ASC', createdAt: 'ASC' },
+    });
+
+    const summaries = await this.summarize(sprints.map((sprint) => sprint.id));
+    return sprints.map((sprint) =>
+      Object.assign(sprint, { summary: summaries.get(sprint.id) ?? { ...EMPTY_SUMMARY } })
+    );
+  }
+
+  async findOne(organizationId: string, sprintId: string): Promise<SprintWithSummary> {
+    const sprint = await this.findSprint(organizationId, sprintId);
+    const summaries = await this.summarize([sprint.id]);
+    return Object.assign(sprint, { summary: summaries.get(sprint.id) ?? { ...EMPTY_SUMMARY } });
+  }
+
+  async create(organizationId: string, dto: CreateSprintDto): Promise<SprintWithSummary> {
+    const startDate = new Date(dto.startDate);
+    const endDate = new Date(dto.endDate);
+    this.assertDateRange(startDate, endDate);
+
+    const sprint = this.sprintRepository.create({
+      organizationId,
+      name: dto.name.trim(),
+      goal: dto.goal?.trim() || null,
+      startDate,
+      endDate,
+      state: SprintState.PLANNED,
+    });
+
+    const saved = await this.sprintRepository.save(sprint);
+    return this.findOne(organizationId, saved.id);
+  }
+
+  /**
+   * Edit the name, goal or dates of a sprint that is not closed.
+   */
+  async update(
+    organizationId: string,
+    sprintId: string,
+    dto: UpdateSprintDto
+  ): Promise<SprintWithSummary> {
+    const sprint = await this.findSprint(organizationId, sprintId);
+    this.assertNotClosed(sprint);
+
+    if (dto.name !== undefined) {
+      sprint.name = dto.name.trim();
+    }
+    if (dto.goal !== undefined) {
+      sprint.goal = dto.goal?.trim() || null;
+    }
+    if (dto.startDate !== undefined) {
+      sprint.startDate = new Date(dto.startDate);
+    }
+    if (dto.endDate !== undefined) {
+      sprint.endDate = new Date(dto.endDate);
+    }
+    this.assertDateRange(sprint.startDate, sprint.endDate);
+
+    await this.sprintRepository.save(sprint);
+    return this.findOne(organizationId, sprintId);
+  }
+
+  /**
+   * Delete a sprint. Its tasks go back to the backlog through the
+   * foreign key's ON DELETE SET NULL.
+   */
+  async delete(organizationId: string, sprintId: string): Promise<void> {
+    const sprint = await this.findSprint(organizationId, sprintId);
+
+    if (sprint.state === SprintState.ACTIVE) {
+      throw new BadRequestException('Close the sprint before deleting it');
+    }
+
+    await this.sprintRepository.remove(sprint);
+  }
+
+  /**
+   * Plan tasks of the organization into a sprint. Tasks already in
+   * another sprint are moved.
+   */
+  async addTasks(
+    organizationId: string,
+    sprintId: string,
+    taskIds: string[]
+  ): Promise<SprintWithSummary> {
+    const sprint = await this.findSprint(organizationId, sprintId);
+    this.assertNotClosed(sprint);
+
+    const uniqueIds = [...new Set(taskIds)];
+    const tasks = await this.taskRepository.find({
+      where: { id: In(uniqueIds), organizationId },
+    });
+
+    if (tasks.length !== uniqueIds.length) {
+      const found = new Set(tasks.map((task) => task.id));
+      const missing = uniqueIds.filter((id) => !found.has(id));
+      throw new BadRequestException(
+        `Tasks not found in this organization: ${missing.join(', ')}`
+      );
+    }
+
+    await this.taskRepository.update({ id: In(uniqueIds) }, { sprintId });
+    return this.findOne(organizationId, sprintId);
+  }
+
+  /**
+   * Move a task from a sprint back to the backlog.
+   */
+  async removeTask(
+    organizationId: string,
+    sprintId: string,
+    taskId: string
+  ): Promise<void> {
+    const sprint = await this.findSprint(organizationId, sprintId);
+    this.assertNotClosed(sprint);
+
+    const result = await this.taskRepository.update(
+      { id: taskId, sprintId },
+      { sprintId: null }
+    );
+
+    if (!result.affected) {
+      throw new NotFoundException(`Task with ID ${taskId} is not in this sprint`);
+    }
+  }
+
+  /**
+   * Start a planned sprint. Only one sprint per organization can be
+   * active at a time.
+   */
+  async start(organizationId: string, sprintId: string): Promise<SprintWithSummary> {
+    const sprint = await this.findSprint(organizationId, sprintId);
+
+    if (sprint.state !== SprintState.PLANNED) {
+      throw new BadRequestException('Only a planned sprint can be started');
+    }
+
+    const active = await this.sprintRepository.findOne({
+      where: { organizationId, state: SprintState.ACTIVE },
+    });
+    if (active) {
+      throw new ConflictException(`Sprint "${active.name}" is already active`);
+    }
+
+    sprint.state = SprintState.ACTIVE;
+    try {
+      await this.sprintRepository.save(sprint);
+    } catch (error) {
+      // Another sprint was started in the meantime
+      if (this.isUniqueViolation(error)) {
+        throw new ConflictException('Another sprint is already active');
+      }
+      throw error;
+    }
+
+    return this.findOne(organizationId, sprintId);
+  }
+
+  /**
+   * Close the active sprint. Unfinished tasks move to the given planned
+   * sprint, or back to the backlog. Finished tasks stay in the closed
+   * sprint as its record.
+   */
+  async close(
+    organizationId: string,
+    sprintId: string,
+    dto: CloseSprintDto
+  ): Promise<SprintWithSummary> {
+    const sprint = await this.findSprint(organizationId, sprintId);
+
+    if (sprint.state !== SprintState.ACTIVE) {
+      throw new BadRequestException('Only the active sprint can be closed');
+    }
+
+    let moveToSprintId: string | null = null;
+    if (dto.moveToSprintId) {
+      const target = await this.findSprint(organizationId, dto.moveToSprintId);
+      if (target.state !== SprintState.PLANNED) {
+        throw new BadRequestException(
+          'Unfinished tasks can only move to a planned sprint'
+        );
+      }
+      moveToSprintId = target.id;
+    }
+
+    await this.sprintRepository.manager.transaction(async (manager) => {
+      await manager.update(
+        Task,
+        { sprintId, status: Not(TaskStatus.DONE) },
+        { sprintId: moveToSprintId }
+      );
+      await manager.update(
+        Sprint,
+        { id: sprintId },
+        { state: SprintState.CLOSED, closedAt: new Date() }
+      );
+    });
+
+    return this.findOne(organizationId, sprintId);
+  }
+
+  /**
+   * Task counts and estimate totals per sprint. Soft-deleted tasks are
+   * left out.
+   */
+  private async summarize(sprintIds: string[]): Promise<Map<string, ISprintSummary>> {
+    if (sprintIds.length === 0) {
+      return new Map();
+    }
+
+    const rows = await this.taskRepository
+      .createQueryBuilder('task')
+      .select('task.sprintId', 'sprintId')
+      .addSelect('COUNT(*)', 'taskCount')
+      .addSelect('COUNT(*) FILTER (WHERE task.status = :done)', 'doneCount')
+      .addSelect('COALESCE(SUM(task.estimate), 0)', 'totalEstimate')
+      .addSelect(
+        'COALESCE(SUM(task.estimate) FILTER (WHERE task.status = :done), 0)',
+        'doneEstimate'
+      )
+      .where('task.sprintId IN (:...sprintIds)', { sprintIds })
+      .setParameter('done', TaskStatus.DONE)
+      .groupBy('task.sprintId')
+      .getRawMany<Record<keyof ISprintSummary | 'sprintId', string>>();
+
+    return new Map(
+      rows.map((row) => [
+        row.sprintId,
+        {
+          taskCount: Number(row.taskCount),
+          doneCount: Number(row.doneCount),
+          totalEstimate: Number(row.totalEstimate),
+          doneEstimate: Number(row.doneEstimate),
+        },
+      ])
+    );
+  }
+
+  private async findSprint(organizationId: string, sprintId: string): Promise<Sprint> {
+    const sprint = await this.sprintRepository.findOne({
+      where: { id: sprintId, organizationId },
+    });
+
+    if (!sprint) {
+      throw new NotFoundException(`Sprint with ID ${sprintId} not found`);
+    }
+
+    return sprint;
+  }
+
+  private assertNotClosed(sprint: Sprint): void {
+    if (sprint.state === SprintState.CLOSED) {
+      throw new BadRequestException('A closed sprint cannot be changed');
+    }
+  }
+
+  private assertDateRange(startDate: Date, endDate: Date): void {
+    if (endDate <= startDate) {
+      throw new BadRequestException('A sprint must end after it starts');
+    }
+  }
+
+  private isUniqueViolation(error: unknown): boolean {
+    return (
+      error instanceof QueryFailedError &&
+      (error.driverError as { code?: string })?.code === '23505'
+    );
+  }
+}
@@ -0,0 +1,135 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+  UseInterceptors,
+  Request,
+  ForbiddenException,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+} from '@nestjs/swagger';
+import { ChecklistService } from './checklist.service';
+import { CreateChecklistItemDto } from './dto/create-checklist-item.dto';
+import { UpdateChecklistItemDto } from './dto/update-checklist-item.dto';
+import { TaskOrgGuard } from './guards/task-org.guard';
+import {
+  JwtAuthGuard,
+  OrgRolesGuard,
+  OrgRoles,
+  PermissionsGuard,
+  RequirePermission,
+} from '@task-manager/auth';
+import {
+  OrganizationRole,
+  TaskChecklistItem,
+  PermissionResource,
+  PermissionAction,
+} from '@task-manager/data';
+import { AuditInterceptor } from '../audit/audit.interceptor';
+
+interface AuthenticatedRequest extends Request {
+  user: { id: string; email: string };
+  organizationId?: string;
+  userOrgRole?: OrganizationRole;
+}
+
+@ApiTags('Tasks')
+@ApiBearerAuth('JWT-auth')
+@Controller('tasks/:id/checklist')
+@UseInterceptors(AuditInterceptor)
+export class ChecklistController {
+  constructor(private readonly checklistService: ChecklistService) {}
+
+  @Get()
+  @UseGuards(JwtAuthGuard, TaskOrgGuard, OrgRolesGuard, PermissionsGuard)
+  @OrgRoles(OrganizationRole.VIEWER)
+  @RequirePermission(PermissionResource.TASK, PermissionAction.READ)
+  @ApiOperation({ summary: 'Get the checklist of a task' })
+  @ApiParam({ name: 'id', description: 'Task UUID' })
+  @ApiResponse({ status: 200, description: 'Checklist retrieved successfully', type: [TaskChecklistItem] })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 403, description: 'Forbidden - User does not have access to this organization' })
+  @ApiResponse({ status: 404, description: 'Task not found' })
+  async findAll(@Param('id') taskId: string) {
+    return this.checklistService.findByTask(taskId);
+  }
+
+  @Post()
+  @UseGuards(JwtAuthGuard, TaskOrgGuard, OrgRolesGuard, PermissionsGuard)
+  @OrgRoles(OrganizationRole.ADMIN)
+  @RequirePermission(PermissionResource.TASK, PermissionAction.UPDATE)
+  @ApiOperation({ summary: 'Add an item to the checklist of a task' })
+  @ApiParam({ name: 'id', description: 'Task UUID' })
+  @ApiResponse({ status: 201, description: 'Checklist item created successfully', type: TaskChecklistItem })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 403, description: 'Forbidden - User does not have Admin role' })
+  @ApiResponse({ status: 404, description: 'Task not found' })
+  async create(
+    @Param('id') taskId: string,
+    @Body() createChecklistItemDto: CreateChecklistItemDto
+  ) {
+    return this.checklistService.create(taskId, createChecklistItemDto);
+  }
+
+  @Put(':itemId')
+  @UseGuards(JwtAuthGuard, TaskOrgGuard, OrgRolesGuard, PermissionsGuard)
+  @OrgRoles(OrganizationRole.VIEWER)
+  @RequirePermission(PermissionResource.TASK, PermissionAction.UPDATE)
+  @ApiOperation({ summary: 'Update a checklist item' })
+  @ApiParam({ name: 'id', description: 'Task UUID' })
+  @ApiParam({ name: 'itemId', description: 'Checklist item UUID' })
+  @ApiResponse({ status: 200, description: 'Checklist item updated successfully', type: TaskChecklistItem })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Viewers can only check off items' })
+  @ApiResponse({ status: 404, description: 'Task or checklist item not found' })
+  async update(
+    @Param('id') taskId: string,
+    @Param('itemId') itemId: string,
+    @Body() updateChecklistItemDto: UpdateChecklistItemDto,
+    @Request() req: AuthenticatedRequest
+  ) {
+    if (req.userOrgRole === OrganizationRole.VIEWER) {
+      // Like task status, ticking items off is open to viewers
+      const allowedKeys = ['isDone'];
+      const systemKeys = ['organizationId'];
+
+      const updateKeys = Object.keys(updateChecklistItemDto).filter(
+        (k) =>
+          updateChecklistItemDto[k as keyof UpdateChecklistItemDto] !== undefined &&
+          !systemKeys.includes(k)
+      );
+
+      if (updateKeys.some((k) => !allowedKeys.includes(k))) {
+        throw new ForbiddenException('Viewers can only check off checklist items');
+      }
+    }
+
+    return this.checklistService.update(taskId, itemId, updateChecklistItemDto);
+  }
+
+  @Delete(':itemId')
+  @UseGuards(JwtAuthGuard, TaskOrgGuard, OrgRolesGuard, PermissionsGuard)
+  @OrgRoles(OrganizationRole.ADMIN)
+  @RequirePermission(PermissionResource.TASK, PermissionAction.UPDATE)
+  @ApiOperation({ summary: 'Remove an item from the checklist of a task' })
+  @ApiParam({ name: 'id', description: 'Task UUID' })
+  @ApiParam({ name: 'itemId', description: 'Checklist item UUID' })
+  @ApiResponse({ status: 200, description: 'Checklist item deleted successfully' })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 403, description: 'Forbidden - User does not have Admin role' })
+  @ApiResponse({ status: 404, description: 'Task or checklist item not found' })
+  async remove(@Param('id') taskId: string, @Param('itemId') itemId: string) {
+    await this.checklistService.delete(taskId, itemId);
+    return { message: 'Checklist item deleted successfully' };
+  }
+}
@@ -0,0 +1,100 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { NotFoundException } from '@nestjs/common';
+import { Repository } from 'typeorm';
+import { ChecklistService } from './checklist.service';
+import { Task, TaskChecklistItem } from '@task-manager/data';
+
+describe('ChecklistService', () => {
+  let service: ChecklistService;
+  let checklistRepository: jest.Mocked<Repository<TaskChecklistItem>>;
+
+  const mockItem: TaskChecklistItem = {
+    id: 'item-uuid-1',
+    taskId: 'task-uuid-1',
+    task: null as unknown as Task,
+    title: 'Write release notes',
+    isDone: false,
+    position: 0,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  beforeEach(async () => {
+    const mockChecklistRepo = {
+      create: jest.fn(),
+      save: jest.fn(),
+      findOne: jest.fn(),
+      find: jest.fn(),
+      count: jest.fn(),
+      remove: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ChecklistService,
+        {
+          provide: getRepositoryToken(TaskChecklistItem),
+          useValue: mockChecklistRepo,
+        },
+      ],
+    }).compile();
+
+    service = module.get<ChecklistService>(ChecklistService);
+    checklistRepository = module.get(getRepositoryToken(TaskChecklistItem));
+  });
+
+  describe('create', () => {
+    it('should append the item to the end of the checklist', async () => {
+      checklistRepository.count.mockResolvedValue(2);
+      checklistRepository.create.mockReturnValue(mockItem);
+      checklistRepository.save.mockResolvedValue(mockItem);
+
+      await service.create('task-uuid-1', { title: 'Write release notes' });
+
+      expect(checklistRepository.create).toHaveBeenCalledWith({
+        taskId: 'task-uuid-1',
+        title: 'Write release notes',
+        isDone: false,
+        position: 2,
+      });
+    });
+  });
+
+  describe('update', () => {
+    it('should check off an item', async () => {
+      checklistRepository.findOne.mockResolvedValue({ ...mockItem });
+      checklistRepository.save.mockImplementation((item) =>
+        Promise.resolve(item as TaskChecklistItem)
+      );
+
+      const result = await service.update('task-uuid-1', 'item-uuid-1', {
+        isDone: true,
+      });
+
+      expect(result.isDone).toBe(true);
+      expect(result.title).toBe(mockItem.title);
+    });
+
+    it('should only find items belonging to the given task', async () => {
+      checklistRepository.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.update('task-uuid-2', 'item-uuid-1', { isDone: true })
+      ).rejects.toThrow(NotFoundException);
+      expect(checklistRepository.findOne).toHaveBeenCalledWith({
+        where: { id: 'item-uuid-1', taskId: 'task-uuid-2' },
+      });
+    });
+  });
+
+  describe('delete', () => {
+    it('should remove the item', async () => {
+      checklistRepository.findOne.mockResolvedValue(mockItem);
+
+      await service.delete('task-uuid-1', 'item-uuid-1');
+
+      expect(checklistRepository.remove).toHaveBeenCalledWith(mockItem);
+    });
+  });
+});
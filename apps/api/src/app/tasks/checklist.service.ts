@@ -0,0 +1,92 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { TaskChecklistItem } from '@task-manager/data';
+
+export interface CreateChecklistItemDto {
+  title: string;
+}
+
+export interface UpdateChecklistItemDto {
+  title?: string;
+  isDone?: boolean;
+  position?: number;
+}
+
+@Injectable()
+export class ChecklistService {
+  constructor(
+    @InjectRepository(TaskChecklistItem)
+    private readonly checklistRepository: Repository<TaskChecklistItem>
+  ) {}
+
+  async findByTask(taskId: string): Promise<TaskChecklistItem[]> {
+    return this.checklistRepository.find({
+      where: { taskId },
+      order: { position: 'ASC', createdAt: 'ASC' },
+    });
+  }
+
+  /**
+   * New items are appended to the end of the checklist.
+   */
+  async create(
+    taskId: string,
+    dto: CreateChecklistItemDto
+  ): Promise<TaskChecklistItem> {
+    const count = await this.checklistRepository.count({ where: { taskId } });
+
+    const item = this.checklistRepository.create({
+      taskId,
+      title: dto.title,
+      isDone: false,
+      position: count,
+    });
+
+    return this.checklistRepository.save(item);
+  }
+
+  async update(
+    taskId: string,
+    itemId: string,
+    dto: UpdateChecklistItemDto
+  ): Promise<TaskChecklistItem> {
+    const item = await this.findItem(taskId, itemId);
+
+    if (dto.title !== undefined) {
+      item.title = dto.title;
+    }
+    if (dto.isDone !== undefined) {
+      item.isDone = dto.isDone;
+    }
+    if (dto.position !== undefined) {
+      item.position = dto.position;
+    }
+
+    return this.checklistRepository.save(item);
+  }
+
+  async delete(taskId: string, itemId: string): Promise<void> {
+    const item = await this.findItem(taskId, itemId);
+    await this.checklistRepository.remove(item);
+  }
+
+  /**
+   * Items are always looked up through their task so a guard-checked
+   * task ID cannot be used to reach another task's checklist.
+   */
+  private async findItem(
+    taskId: string,
+    itemId: string
+  ): Promise<TaskChecklistItem> {
+    const item = await this.checklistRepository.findOne({
+      where: { id: itemId, taskId },
+    });
+
+    if (!item) {
+      throw new NotFoundException(`Checklist item with ID ${itemId} not found`);
+    }
+
+    return item;
+  }
+}
@@ -0,0 +1,100 @@
+import {
+  IsUUID,
+  IsOptional,
+  IsEnum,
+  IsArray,
+  ArrayMinSize,
+  ArrayMaxSize,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { BulkTaskAction, TaskStatus, TaskPriority } from '@task-manager/data';
+
+export class BulkTaskDto {
+  @ApiProperty({
+    description: 'The UUID of the organization all tasks belong to',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+    format: 'uuid',
+  })
+  @IsUUID()
+  organizationId!: string;
+
+  @ApiProperty({
+    description: 'UUIDs of the tasks to change',
+    example: ['770e8400-e29b-41d4-a716-446655440001', '770e8400-e29b-41d4-a716-446655440002'],
+    type: [String],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(100)
+  @IsUUID('all', { each: true })
+  taskIds!: string[];
+
+  @ApiProperty({
+    description:
+      'UPDATE applies the fields below to every task; DELETE and RESTORE act on each task together with its subtasks',
+    enum: BulkTaskAction,
+    example: BulkTaskAction.UPDATE,
+  })
+  @IsEnum(BulkTaskAction)
+  action!: BulkTaskAction;
+
+  @ApiPropertyOptional({
+    description: 'New status category. Ignored when statusId is given.',
+    enum: TaskStatus,
+    example: TaskStatus.DONE,
+  })
+  @IsOptional()
+  @IsEnum(TaskStatus)
+  status?: TaskStatus;
+
+  @ApiPropertyOptional({
+    description: 'The UUID of the workflow status to move the tasks to',
+    example: '550e8400-e29b-41d4-a716-446655440031',
+    format: 'uuid',
+  })
+  @IsOptional()
+  @IsUUID()
+  statusId?: string;
+
+  @ApiPropertyOptional({
+    description: 'New priority',
+    enum: TaskPriority,
+    example: TaskPriority.HIGH,
+  })
+  @IsOptional()
+  @IsEnum(TaskPriority)
+  priority?: TaskPriority;
+
+  @ApiPropertyOptional({
+    description: 'UUIDs of the organization labels to set, replacing the current ones',
+    example: ['550e8400-e29b-41d4-a716-446655440020'],
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsUUID('all', { each: true })
+  labelIds?: string[];
+
+  @ApiPropertyOptional({
+    description: 'UUIDs of organization members to assign, replacing the current assignees',
+    example: ['550e8400-e29b-41d4-a716-446655440002'],
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsUUID('all', { each: true })
+  assigneeIds?: string[];
+
+  @ApiPropertyOptional({
+    description:
+      'The UUID of the project to move the tasks to, or null to take them out of their project. Moved tasks get new keys.',
+    example: '550e8400-e29b-41d4-a716-446655440050',
+    format: 'uuid',
+    nullable: true,
+  })
+  @IsOptional()
+  @IsUUID()
+  projectId?: string | null;
+}
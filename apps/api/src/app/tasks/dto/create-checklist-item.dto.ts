@@ -0,0 +1,22 @@
+import { IsString, IsUUID, IsOptional, MaxLength, MinLength } from 'class-validator';
+import { ApiProperty, ApiHideProperty } from '@nestjs/swagger';
+
+export class CreateChecklistItemDto {
+  @ApiProperty({
+    description: 'The text of the checklist item',
+    example: 'Write release notes',
+    maxLength: 255,
+  })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(255)
+  title!: string;
+
+  /**
+   * This field is injected by TaskOrgGuard for authorization purposes.
+   */
+  @ApiHideProperty()
+  @IsOptional()
+  @IsUUID()
+  organizationId?: string;
+}
@@ -0,0 +1,29 @@
+import { IsEnum, IsUUID, IsOptional } from 'class-validator';
+import { ApiProperty, ApiHideProperty } from '@nestjs/swagger';
+import { TaskLinkType } from '@task-manager/data';
+
+export class CreateTaskLinkDto {
+  @ApiProperty({
+    description: 'The UUID of the other task, from the same organization',
+    example: '770e8400-e29b-41d4-a716-446655440002',
+    format: 'uuid',
+  })
+  @IsUUID()
+  targetTaskId!: string;
+
+  @ApiProperty({
+    description: 'Link type, read as "this task BLOCKS / DUPLICATES the target"',
+    enum: TaskLinkType,
+    example: TaskLinkType.BLOCKS,
+  })
+  @IsEnum(TaskLinkType)
+  type!: TaskLinkType;
+
+  /**
+   * This field is injected by TaskOrgGuard for authorization purposes.
+   */
+  @ApiHideProperty()
+  @IsOptional()
+  @IsUUID()
+  organizationId?: string;
+}
@@ -3,10 +3,17 @@ import {
   IsUUID,
   IsOptional,
   IsEnum,
+  IsDateString,
+  IsArray,
+  IsObject,
+  IsNumber,
+  Min,
+  Max,
+  ArrayMaxSize,
   MaxLength,
 } from 'class-validator';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
-import { TaskStatus, TaskPriority, TaskCategory } from '@task-manager/data';
+import { TaskStatus, TaskPriority } from '@task-manager/data';
 
 export class CreateTaskDto {
   @ApiProperty({
@@ -35,16 +42,39 @@ export class CreateTaskDto {
   organizationId: string;
 
   @ApiPropertyOptional({
-    description: 'The UUID of the user assigned to this task',
-    example: '550e8400-e29b-41d4-a716-446655440001',
+    description:
+      'UUIDs of organization members to assign; defaults to the creator. Pass [] for an unassigned task.',
+    example: ['550e8400-e29b-41d4-a716-446655440001'],
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsUUID('all', { each: true })
+  assigneeIds?: string[];
+
+  @ApiPropertyOptional({
+    description: 'The UUID of the parent task when creating a subtask',
+    example: '550e8400-e29b-41d4-a716-446655440003',
+    format: 'uuid',
+  })
+  @IsOptional()
+  @IsUUID()
+  parentId?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'The UUID of the project to file the task under; the task gets the next key of the project',
+    example: '550e8400-e29b-41d4-a716-446655440050',
     format: 'uuid',
   })
   @IsOptional()
   @IsUUID()
-  assigneeId?: string;
+  projectId?: string;
 
   @ApiPropertyOptional({
-    description: 'The current status of the task',
+    description:
+      'Status category; the task starts in the first workflow status of this category. Ignored when statusId is given.',
     enum: TaskStatus,
     example: TaskStatus.TODO,
     default: TaskStatus.TODO,
@@ -53,6 +83,15 @@ export class CreateTaskDto {
   @IsEnum(TaskStatus)
   status?: TaskStatus;
 
+  @ApiPropertyOptional({
+    description: 'The UUID of the workflow status to start in',
+    example: '550e8400-e29b-41d4-a716-446655440030',
+    format: 'uuid',
+  })
+  @IsOptional()
+  @IsUUID()
+  statusId?: string;
+
   @ApiPropertyOptional({
     description: 'The priority of the task',
     enum: TaskPriority,
@@ -64,12 +103,54 @@ export class CreateTaskDto {
   priority?: TaskPriority;
 
   @ApiPropertyOptional({
-    description: 'The category of the task',
-    enum: TaskCategory,
-    example: TaskCategory.GENERAL,
-    default: TaskCategory.GENERAL,
+    description: 'Estimate in the organization\'s unit (points or hours)',
+    example: 3,
+    minimum: 0,
+    maximum: 1000,
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 1 })
+  @Min(0)
+  @Max(1000)
+  estimate?: number;
+
+  @ApiPropertyOptional({
+    description: 'UUIDs of labels from the task\'s organization',
+    example: ['550e8400-e29b-41d4-a716-446655440020'],
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsUUID('all', { each: true })
+  labelIds?: string[];
+
+  @ApiPropertyOptional({
+    description: 'When work on the task is planned to start (ISO 8601)',
+    example: '2026-02-01T09:00:00.000Z',
+    format: 'date-time',
+  })
+  @IsOptional()
+  @IsDateString()
+  startDate?: string;
+
+  @ApiPropertyOptional({
+    description: 'When the task is due (ISO 8601)',
+    example: '2026-02-07T17:00:00.000Z',
+    format: 'date-time',
+  })
+  @IsOptional()
+  @IsDateString()
+  dueDate?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Custom field values keyed by custom field UUID. Values are checked against the field type; required fields must be set.',
+    example: { '550e8400-e29b-41d4-a716-446655440040': 'Acme' },
+    type: 'object',
+    additionalProperties: true,
   })
   @IsOptional()
-  @IsEnum(TaskCategory)
-  category?: TaskCategory;
+  @IsObject()
+  customFieldValues?: Record<string, unknown>;
 }
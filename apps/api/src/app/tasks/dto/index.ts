@@ -1,2 +1,8 @@
 export * from './create-task.dto';
 export * from './update-task.dto';
+export * from './query-tasks.dto';
+export * from './create-checklist-item.dto';
+export * from './update-checklist-item.dto';
+export * from './create-task-link.dto';
+export * from './bulk-task.dto';
+export * from './move-task.dto';
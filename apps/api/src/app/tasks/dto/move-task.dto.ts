@@ -0,0 +1,40 @@
+import { IsUUID, IsOptional } from 'class-validator';
+import { ApiPropertyOptional, ApiHideProperty } from '@nestjs/swagger';
+
+export class MoveTaskDto {
+  @ApiPropertyOptional({
+    description: 'Place the task right before this task, in its column',
+    example: '770e8400-e29b-41d4-a716-446655440002',
+    format: 'uuid',
+  })
+  @IsOptional()
+  @IsUUID()
+  beforeTaskId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Place the task right after this task, in its column',
+    example: '770e8400-e29b-41d4-a716-446655440003',
+    format: 'uuid',
+  })
+  @IsOptional()
+  @IsUUID()
+  afterTaskId?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Workflow status of the target column. Without a neighbouring task the task goes to the top of this column.',
+    example: '550e8400-e29b-41d4-a716-446655440031',
+    format: 'uuid',
+  })
+  @IsOptional()
+  @IsUUID()
+  statusId?: string;
+
+  /**
+   * This field is injected by TaskOrgGuard for authorization purposes.
+   */
+  @ApiHideProperty()
+  @IsOptional()
+  @IsUUID()
+  organizationId?: string;
+}
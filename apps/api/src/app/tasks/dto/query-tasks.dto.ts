@@ -0,0 +1,192 @@
+import {
+  IsUUID,
+  IsOptional,
+  IsDateString,
+  IsBooleanString,
+  IsJSON,
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsString,
+  IsBase64,
+  MaxLength,
+  Min,
+  Max,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { TaskStatus, TaskPriority, TaskSortField } from '@task-manager/data';
+
+/** Lists are passed comma-separated (`a,b`) or as repeated parameters */
+const toList = ({ value }: { value: unknown }) =>
+  typeof value === 'string' ? value.split(',').filter(Boolean) : value;
+
+export class QueryTasksDto {
+  @ApiProperty({
+    description: 'Organization UUID',
+    format: 'uuid',
+  })
+  @IsUUID()
+  organizationId!: string;
+
+  @ApiPropertyOptional({
+    description: 'Only return tasks of this project',
+    format: 'uuid',
+  })
+  @IsOptional()
+  @IsUUID()
+  projectId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only return tasks of this sprint',
+    format: 'uuid',
+  })
+  @IsOptional()
+  @IsUUID()
+  sprintId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only return the direct subtasks of this task',
+    format: 'uuid',
+  })
+  @IsOptional()
+  @IsUUID()
+  parentId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Comma-separated workflow status UUIDs; tasks in any of them are returned',
+    example: '660e8400-e29b-41d4-a716-446655440010',
+  })
+  @IsOptional()
+  @Transform(toList)
+  @IsUUID('all', { each: true })
+  statusIds?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Comma-separated status categories',
+    example: 'TODO,IN_PROGRESS',
+  })
+  @IsOptional()
+  @Transform(toList)
+  @IsEnum(TaskStatus, { each: true })
+  categories?: TaskStatus[];
+
+  @ApiPropertyOptional({
+    description: 'Comma-separated priorities',
+    example: 'HIGH,URGENT',
+  })
+  @IsOptional()
+  @Transform(toList)
+  @IsEnum(TaskPriority, { each: true })
+  priorities?: TaskPriority[];
+
+  @ApiPropertyOptional({
+    description: 'Comma-separated user UUIDs; tasks assigned to any of them are returned',
+  })
+  @IsOptional()
+  @Transform(toList)
+  @IsUUID('all', { each: true })
+  assigneeIds?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Comma-separated label UUIDs; tasks with any of them are returned',
+  })
+  @IsOptional()
+  @Transform(toList)
+  @IsUUID('all', { each: true })
+  labelIds?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Case-insensitive text matched against task title, key and description',
+    example: 'login',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  search?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only return tasks due on or before this date (ISO 8601)',
+    format: 'date-time',
+  })
+  @IsOptional()
+  @IsDateString()
+  dueBefore?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only return tasks due on or after this date (ISO 8601)',
+    format: 'date-time',
+  })
+  @IsOptional()
+  @IsDateString()
+  dueAfter?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only return tasks created on or before this date (ISO 8601)',
+    format: 'date-time',
+  })
+  @IsOptional()
+  @IsDateString()
+  createdBefore?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only return tasks created on or after this date (ISO 8601)',
+    format: 'date-time',
+  })
+  @IsOptional()
+  @IsDateString()
+  createdAfter?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only return tasks past their due date that are not DONE',
+    example: 'true',
+  })
+  @IsOptional()
+  @IsBooleanString()
+  overdue?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'JSON object of custom field UUID to value; only tasks with all of these values are returned. For multi-select fields, matches tasks that have the option selected.',
+    example: '{"550e8400-e29b-41d4-a716-446655440040":"Acme"}',
+  })
+  @IsOptional()
+  @IsJSON()
+  customFields?: string;
+
+  @ApiPropertyOptional({
+    description: 'Field to sort by; tasks without a due date come last either way',
+    enum: TaskSortField,
+    default: TaskSortField.CREATED_AT,
+  })
+  @IsOptional()
+  @IsEnum(TaskSortField)
+  sortBy?: TaskSortField;
+
+  @ApiPropertyOptional({
+    description: 'Sort direction; defaults to DESC for createdAt, updatedAt and priority, ASC otherwise',
+    enum: ['ASC', 'DESC'],
+  })
+  @IsOptional()
+  @IsIn(['ASC', 'DESC'])
+  sortOrder?: 'ASC' | 'DESC';
+
+  @ApiPropertyOptional({
+    description: 'Page size',
+    minimum: 1,
+    maximum: 100,
+    default: 50,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+
+  @ApiPropertyOptional({
+    description: 'The nextCursor of the previous page, with the same filters and sort',
+  })
+  @IsOptional()
+  @IsBase64({ urlSafe: true })
+  cursor?: string;
+}
@@ -0,0 +1,50 @@
+import {
+  IsString,
+  IsUUID,
+  IsOptional,
+  IsBoolean,
+  IsInt,
+  Min,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+import { ApiPropertyOptional, ApiHideProperty } from '@nestjs/swagger';
+
+export class UpdateChecklistItemDto {
+  @ApiPropertyOptional({
+    description: 'The updated text of the checklist item',
+    example: 'Write and publish release notes',
+    maxLength: 255,
+  })
+  @IsOptional()
+  @IsString()
+  @MinLength(1)
+  @MaxLength(255)
+  title?: string;
+
+  @ApiPropertyOptional({
+    description: 'Whether the item is checked off',
+    example: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  isDone?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Zero-based position of the item within the checklist',
+    example: 0,
+    minimum: 0,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  position?: number;
+
+  /**
+   * This field is injected by TaskOrgGuard for authorization purposes.
+   */
+  @ApiHideProperty()
+  @IsOptional()
+  @IsUUID()
+  organizationId?: string;
+}
@@ -3,10 +3,17 @@ import {
   IsUUID,
   IsOptional,
   IsEnum,
+  IsDateString,
+  IsArray,
+  IsObject,
+  IsNumber,
+  Min,
+  Max,
+  ArrayMaxSize,
   MaxLength,
 } from 'class-validator';
 import { ApiPropertyOptional, ApiHideProperty } from '@nestjs/swagger';
-import { TaskStatus, TaskPriority, TaskCategory } from '@task-manager/data';
+import { TaskStatus, TaskPriority } from '@task-manager/data';
 
 export class UpdateTaskDto {
   @ApiPropertyOptional({
@@ -28,16 +35,40 @@ export class UpdateTaskDto {
   description?: string;
 
   @ApiPropertyOptional({
-    description: 'The UUID of the new assignee',
-    example: '550e8400-e29b-41d4-a716-446655440002',
+    description: 'UUIDs of organization members to assign (replaces the current assignees)',
+    example: ['550e8400-e29b-41d4-a716-446655440002'],
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsUUID('all', { each: true })
+  assigneeIds?: string[];
+
+  @ApiPropertyOptional({
+    description: 'The UUID of the new parent task, or null to detach the subtask',
+    example: '550e8400-e29b-41d4-a716-446655440003',
+    format: 'uuid',
+    nullable: true,
+  })
+  @IsOptional()
+  @IsUUID()
+  parentId?: string | null;
+
+  @ApiPropertyOptional({
+    description:
+      'The UUID of the project to move the task to, or null to take it out of its project. The task gets a new key.',
+    example: '550e8400-e29b-41d4-a716-446655440050',
     format: 'uuid',
+    nullable: true,
   })
   @IsOptional()
   @IsUUID()
-  assigneeId?: string;
+  projectId?: string | null;
 
   @ApiPropertyOptional({
-    description: 'The updated status of the task',
+    description:
+      'New status category; moves the task to the first workflow status of this category. Ignored when statusId is given.',
     enum: TaskStatus,
     example: TaskStatus.IN_PROGRESS,
   })
@@ -45,6 +76,16 @@ export class UpdateTaskDto {
   @IsEnum(TaskStatus)
   status?: TaskStatus;
 
+  @ApiPropertyOptional({
+    description:
+      'The UUID of the workflow status to move the task to. Subject to the current status\'s allowed transitions.',
+    example: '550e8400-e29b-41d4-a716-446655440031',
+    format: 'uuid',
+  })
+  @IsOptional()
+  @IsUUID()
+  statusId?: string;
+
   @ApiPropertyOptional({
     description: 'The updated priority of the task',
     enum: TaskPriority,
@@ -55,13 +96,59 @@ export class UpdateTaskDto {
   priority?: TaskPriority;
 
   @ApiPropertyOptional({
-    description: 'The updated category of the task',
-    enum: TaskCategory,
-    example: TaskCategory.WORK,
+    description: 'Updated estimate in the organization\'s unit (points or hours), or null to clear it',
+    example: 3,
+    minimum: 0,
+    maximum: 1000,
+    nullable: true,
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 1 })
+  @Min(0)
+  @Max(1000)
+  estimate?: number | null;
+
+  @ApiPropertyOptional({
+    description: 'UUIDs of the organization labels to set, replacing the current ones',
+    example: ['550e8400-e29b-41d4-a716-446655440020'],
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsUUID('all', { each: true })
+  labelIds?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Updated start date (ISO 8601), or null to clear it',
+    example: '2026-02-01T09:00:00.000Z',
+    format: 'date-time',
+    nullable: true,
+  })
+  @IsOptional()
+  @IsDateString()
+  startDate?: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Updated due date (ISO 8601), or null to clear it',
+    example: '2026-02-07T17:00:00.000Z',
+    format: 'date-time',
+    nullable: true,
+  })
+  @IsOptional()
+  @IsDateString()
+  dueDate?: string | null;
+
+  @ApiPropertyOptional({
+    description:
+      'Custom field values to change, keyed by custom field UUID. Fields left out keep their value; null clears one.',
+    example: { '550e8400-e29b-41d4-a716-446655440040': null },
+    type: 'object',
+    additionalProperties: true,
   })
   @IsOptional()
-  @IsEnum(TaskCategory)
-  category?: TaskCategory;
+  @IsObject()
+  customFieldValues?: Record<string, unknown>;
 
   /**
    * This field is injected by TaskOrgGuard for authorization purposes.
@@ -0,0 +1,43 @@
+import { Controller, Get, Param, UseGuards } from '@nestjs/common';
+import {
+  ApiTags,
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+} from '@nestjs/swagger';
+import { TaskActivityService } from './task-activity.service';
+import { TaskOrgGuard } from './guards/task-org.guard';
+import {
+  JwtAuthGuard,
+  OrgRolesGuard,
+  OrgRoles,
+  PermissionsGuard,
+  RequirePermission,
+} from '@task-manager/auth';
+import {
+  OrganizationRole,
+  PermissionResource,
+  PermissionAction,
+} from '@task-manager/data';
+
+@ApiTags('Tasks')
+@ApiBearerAuth('JWT-auth')
+@Controller('tasks/:id/history')
+export class TaskActivityController {
+  constructor(private readonly taskActivityService: TaskActivityService) {}
+
+  @Get()
+  @UseGuards(JwtAuthGuard, TaskOrgGuard, OrgRolesGuard, PermissionsGuard)
+  @OrgRoles(OrganizationRole.VIEWER)
+  @RequirePermission(PermissionResource.TASK, PermissionAction.READ)
+  @ApiOperation({ summary: 'Get the change history of a task, with its reopen count and time in each status' })
+  @ApiParam({ name: 'id', description: 'Task UUID' })
+  @ApiResponse({ status: 200, description: 'History retrieved successfully' })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 403, description: 'Forbidden - User does not have access to this organization' })
+  @ApiResponse({ status: 404, description: 'Task not found' })
+  async findAll(@Param('id') taskId: string) {
+    return this.taskActivityService.getHistory(taskId);
+  }
+}
@@ -0,0 +1,209 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { NotFoundException } from '@nestjs/common';
+import { Repository } from 'typeorm';
+import {
+  Task,
+  TaskActivity,
+  TaskActivityAction,
+  TaskStatus,
+  TaskPriority,
+  Label,
+  User,
+} from '@task-manager/data';
+import { TaskActivityService } from './task-activity.service';
+
+describe('TaskActivityService', () => {
+  let service: TaskActivityService;
+  let activityRepository: jest.Mocked<Repository<TaskActivity>>;
+  let taskRepository: jest.Mocked<Repository<Task>>;
+
+  const createdAt = new Date('2026-03-01T09:00:00.000Z');
+
+  const mockTask = {
+    id: 'task-uuid-1',
+    title: 'Test Task',
+    description: null,
+    status: TaskStatus.TODO,
+    statusId: 'status-todo',
+    priority: TaskPriority.MEDIUM,
+    estimate: null,
+    sprintId: null,
+    projectId: null,
+    key: null,
+    parentId: null,
+    startDate: null,
+    dueDate: new Date('2026-03-10T00:00:00.000Z'),
+    customFieldValues: {},
+    labels: [],
+    assignees: [],
+    createdAt,
+  } as unknown as Task;
+
+  const activity = (
+    minutes: number,
+    action: TaskActivityAction,
+    changes: TaskActivity['changes'] = []
+  ) =>
+    ({
+      taskId: 'task-uuid-1',
+      action,
+      changes,
+      createdAt: new Date(createdAt.getTime() + minutes * 60 * 1000),
+    }) as TaskActivity;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TaskActivityService,
+        {
+          provide: getRepositoryToken(TaskActivity),
+          useValue: { insert: jest.fn(), find: jest.fn().mockResolvedValue([]) },
+        },
+        {
+          provide: getRepositoryToken(Task),
+          useValue: { findOne: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get<TaskActivityService>(TaskActivityService);
+    activityRepository = module.get(getRepositoryToken(TaskActivity));
+    taskRepository = module.get(getRepositoryToken(Task));
+  });
+
+  describe('diff', () => {
+    it('should list only the fields that changed, with old and new values', () => {
+      const before = service.snapshot(mockTask);
+      const after = service.snapshot({
+        ...mockTask,
+        title: 'Renamed',
+        dueDate: null,
+        labels: [{ id: 'label-2' }, { id: 'label-1' }] as Label[],
+        customFieldValues: { 'field-1': 'ACME' },
+      } as Task);
+
+      expect(service.diff(before, after)).toEqual([
+        { field: 'title', from: 'Test Task', to: 'Renamed' },
+        { field: 'dueDate', from: '2026-03-10T00:00:00.000Z', to: null },
+        { field: 'labelIds', from: null, to: ['label-1', 'label-2'] },
+        { field: 'customFieldValues.field-1', from: null, to: 'ACME' },
+      ]);
+    });
+
+    it('should not compare labels or assignees that were not loaded', () => {
+      const before = service.snapshot({ ...mockTask, labels: undefined } as unknown as Task);
+      const after = service.snapshot({
+        ...mockTask,
+        labels: undefined,
+        assignees: [{ id: 'user-uuid-1' }] as User[],
+      } as unknown as Task);
+
+      expect(service.diff(before, after)).toEqual([
+        { field: 'assigneeIds', from: null, to: ['user-uuid-1'] },
+      ]);
+    });
+  });
+
+  describe('recordUpdate', () => {
+    it('should write an entry with the changes and the actor', async () => {
+      const before = service.snapshot(mockTask);
+
+      await service.recordUpdate(
+        before,
+        { ...mockTask, priority: TaskPriority.HIGH } as Task,
+        'user-uuid-1'
+      );
+
+      expect(activityRepository.insert).toHaveBeenCalledWith([
+        {
+          taskId: 'task-uuid-1',
+          actorId: 'user-uuid-1',
+          action: TaskActivityAction.UPDATED,
+          changes: [{ field: 'priority', from: TaskPriority.MEDIUM, to: TaskPriority.HIGH }],
+        },
+      ]);
+    });
+
+    it('should write nothing when no tracked field changed', async () => {
+      await service.recordUpdate(service.snapshot(mockTask), mockTask, 'user-uuid-1');
+
+      expect(activityRepository.insert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getHistory', () => {
+    beforeEach(() => {
+      jest.useFakeTimers({ now: new Date(createdAt.getTime() + 100 * 60 * 1000) });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should throw NotFoundException when the task does not exist', async () => {
+      taskRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.getHistory('missing')).rejects.toThrow(NotFoundException);
+    });
+
+    it('should count tasks moved out of DONE as reopened', async () => {
+      taskRepository.findOne.mockResolvedValue(mockTask);
+      activityRepository.find.mockResolvedValue([
+        activity(10, TaskActivityAction.UPDATED, [
+          { field: 'status', from: TaskStatus.TODO, to: TaskStatus.DONE },
+        ]),
+        activity(20, TaskActivityAction.UPDATED, [
+          { field: 'status', from: TaskStatus.DONE, to: TaskStatus.IN_PROGRESS },
+        ]),
+        activity(30, TaskActivityAction.UPDATED, [
+          { field: 'title', from: 'Test Task', to: 'Renamed' },
+        ]),
+      ]);
+
+      const history = await service.getHistory('task-uuid-1');
+
+      expect(history.reopenCount).toBe(1);
+      expect(history.activities).toHaveLength(3);
+    });
+
+    it('should sum the time spent in each status, leaving out time in the trash', async () => {
+      taskRepository.findOne.mockResolvedValue({ ...mockTask, statusId: 'status-doing' });
+      activityRepository.find.mockResolvedValue([
+        activity(0, TaskActivityAction.CREATED, [
+          { field: 'statusId', from: null, to: 'status-todo' },
+        ]),
+        activity(30, TaskActivityAction.UPDATED, [
+          { field: 'statusId', from: 'status-todo', to: 'status-doing' },
+        ]),
+        activity(40, TaskActivityAction.DELETED),
+        activity(90, TaskActivityAction.RESTORED),
+      ]);
+
+      const history = await service.getHistory('task-uuid-1');
+
+      expect(history.timeInStatus).toEqual([
+        { statusId: 'status-todo', seconds: 30 * 60 },
+        { statusId: 'status-doing', seconds: 20 * 60 },
+      ]);
+    });
+
+    it('should start tasks older than their history in their first recorded status', async () => {
+      taskRepository.findOne.mockResolvedValue({ ...mockTask, statusId: 'status-doing' });
+      activityRepository.find.mockResolvedValue([
+        activity(60, TaskActivityAction.UPDATED, [
+          { field: 'statusId', from: 'status-todo', to: 'status-doing' },
+        ]),
+      ]);
+
+      const history = await service.getHistory('task-uuid-1');
+
+      expect(history.timeInStatus).toEqual([
+        { statusId: 'status-todo', seconds: 60 * 60 },
+        { statusId: 'status-doing', seconds: 40 * 60 },
+      ]);
+    });
+  });
+});
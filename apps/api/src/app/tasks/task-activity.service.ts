@@ -0,0 +1,242 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, EntityManager } from 'typeorm';
+import {
+  Task,
+  TaskActivity,
+  TaskActivityAction,
+  TaskStatus,
+  ITaskFieldChange,
+  ITaskHistory,
+} from '@task-manager/data';
+
+/**
+ * Recorded values of a task, keyed by field. Custom fields are recorded
+ * one by one as `customFieldValues.<fieldId>`.
+ */
+export type TaskSnapshot = Record<string, unknown>;
+
+const TRACKED_FIELDS = [
+  'title',
+  'description',
+  'status',
+  'statusId',
+  'priority',
+  'estimate',
+  'sprintId',
+  'projectId',
+  'key',
+  'parentId',
+  'startDate',
+  'dueDate',
+] as const;
+
+@Injectable()
+export class TaskActivityService {
+  constructor(
+    @InjectRepository(TaskActivity)
+    private readonly activityRepository: Repository<TaskActivity>,
+    @InjectRepository(Task)
+    private readonly taskRepository: Repository<Task>
+  ) {}
+
+  /**
+   * Capture the tracked fields of a task. Labels and assignees are only
+   * included when their relation is loaded.
+   */
+  snapshot(task: Task): TaskSnapshot {
+    const snapshot: TaskSnapshot = {};
+
+    for (const field of TRACKED_FIELDS) {
+      const value = task[field];
+      snapshot[field] = value instanceof Date ? value.toISOString() : value ?? null;
+    }
+    if (task.labels) {
+      snapshot['labelIds'] = task.labels.map((label) => label.id).sort();
+    }
+    if (task.assignees) {
+      snapshot['assigneeIds'] = task.assignees.map((user) => user.id).sort();
+    }
+    for (const [fieldId, value] of Object.entries(task.customFieldValues ?? {})) {
+      snapshot[`customFieldValues.${fieldId}`] = value;
+    }
+
+    return snapshot;
+  }
+
+  /**
+   * Fields whose value differs between two snapshots. A field missing
+   * from a snapshot counts as empty.
+   */
+  diff(before: TaskSnapshot, after: TaskSnapshot): ITaskFieldChange[] {
+    const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+    const changes: ITaskFieldChange[] = [];
+
+    for (const field of fields) {
+      const from = this.normalize(before[field]);
+      const to = this.normalize(after[field]);
+      if (JSON.stringify(from) !== JSON.stringify(to)) {
+        changes.push({ field, from, to });
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Record a new task with its initial values.
+   */
+  async recordCreated(task: Task, actorId: string | null): Promise<void> {
+    await this.record(
+      [task.id],
+      actorId,
+      TaskActivityAction.CREATED,
+      this.diff({}, this.snapshot(task))
+    );
+  }
+
+  /**
+   * Record the fields an update changed. Nothing is written when no
+   * tracked field changed.
+   */
+  async recordUpdate(
+    before: TaskSnapshot,
+    task: Task,
+    actorId: string | null,
+    manager?: EntityManager
+  ): Promise<void> {
+    const changes = this.diff(before, this.snapshot(task));
+    if (changes.length > 0) {
+      await this.record(
+        [task.id],
+        actorId,
+        TaskActivityAction.UPDATED,
+        changes,
+        manager
+      );
+    }
+  }
+
+  /**
+   * Write the same entry for several tasks, e.g. a subtree deleted at once.
+   * Pass `manager` to write inside the caller's transaction.
+   */
+  async record(
+    taskIds: string[],
+    actorId: string | null,
+    action: TaskActivityAction,
+    changes: ITaskFieldChange[] = [],
+    manager?: EntityManager
+  ): Promise<void> {
+    if (taskIds.length === 0) {
+      return;
+    }
+
+    const activities =
+      manager?.getRepository(TaskActivity) ?? this.activityRepository;
+    await activities.insert(
+      taskIds.map((taskId) => ({ taskId, actorId, action, changes }))
+    );
+  }
+
+  /**
+   * A task's history, oldest first, with the reopen count and the time
+   * spent in each workflow status derived from it.
+   */
+  async getHistory(taskId: string): Promise<ITaskHistory> {
+    const task = await this.taskRepository.findOne({
+      where: { id: taskId },
+      withDeleted: true,
+    });
+
+    if (!task) {
+      throw new NotFoundException(`Task with ID ${taskId} not found`);
+    }
+
+    const activities = await this.activityRepository.find({
+      where: { taskId },
+      relations: { actor: true },
+      order: { createdAt: 'ASC' },
+    });
+
+    return {
+      activities,
+      reopenCount: this.countReopens(activities),
+      timeInStatus: this.sumTimeInStatus(task, activities),
+    };
+  }
+
+  private countReopens(activities: TaskActivity[]): number {
+    return activities.filter((activity) =>
+      activity.changes.some(
+        (change) =>
+          change.field === 'status' &&
+          change.from === TaskStatus.DONE &&
+          change.to !== TaskStatus.DONE
+      )
+    ).length;
+  }
+
+  /**
+   * Walk the status changes from the task's creation until now. Time in
+   * the trash is not counted. Tasks older than their history start in
+   * the status their first recorded change moved them out of.
+   */
+  private sumTimeInStatus(
+    task: Task,
+    activities: TaskActivity[]
+  ): ITaskHistory['timeInStatus'] {
+    const statusChanges = activities
+      .map((activity) => activity.changes.find((change) => change.field === 'statusId'))
+      .filter((change): change is ITaskFieldChange => !!change);
+
+    let current = (
+      statusChanges.length > 0 ? statusChanges[0].from : task.statusId
+    ) as string | null;
+    let since: Date | null = task.createdAt;
+    const seconds = new Map<string, number>();
+
+    const close = (until: Date) => {
+      if (current && since) {
+        const elapsed = Math.max(0, (until.getTime() - since.getTime()) / 1000);
+        seconds.set(current, (seconds.get(current) ?? 0) + elapsed);
+      }
+    };
+
+    for (const activity of activities) {
+      if (activity.action === TaskActivityAction.DELETED) {
+        close(activity.createdAt);
+        since = null;
+        continue;
+      }
+      if (activity.action === TaskActivityAction.RESTORED) {
+        since = activity.createdAt;
+        continue;
+      }
+
+      const change = activity.changes.find((c) => c.field === 'statusId');
+      if (change) {
+        close(activity.createdAt);
+        current = change.to as string | null;
+        since = since && activity.createdAt;
+      }
+    }
+    close(new Date());
+
+    return [...seconds].map(([statusId, total]) => ({
+      statusId,
+      seconds: Math.round(total),
+    }));
+  }
+
+  /**
+   * Treat empty values alike, so e.g. no labels before and after is not
+   * a change.
+   */
+  private normalize(value: unknown): unknown {
+    if (value === undefined || (Array.isArray(value) && value.length === 0)) {
+      return null;
+    }
+    return value;
+  }
+}
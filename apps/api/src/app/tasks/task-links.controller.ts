@@ -0,0 +1,97 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+  UseInterceptors,
+  Request,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+} from '@nestjs/swagger';
+import { TaskLinksService } from './task-links.service';
+import { CreateTaskLinkDto } from './dto/create-task-link.dto';
+import { TaskOrgGuard } from './guards/task-org.guard';
+import {
+  JwtAuthGuard,
+  OrgRolesGuard,
+  OrgRoles,
+  PermissionsGuard,
+  RequirePermission,
+} from '@task-manager/auth';
+import {
+  OrganizationRole,
+  TaskLink,
+  PermissionResource,
+  PermissionAction,
+} from '@task-manager/data';
+import { AuditInterceptor } from '../audit/audit.interceptor';
+
+interface AuthenticatedRequest extends Request {
+  user: { id: string; email: string };
+}
+
+@ApiTags('Tasks')
+@ApiBearerAuth('JWT-auth')
+@Controller('tasks/:id/links')
+@UseInterceptors(AuditInterceptor)
+export class TaskLinksController {
+  constructor(private readonly taskLinksService: TaskLinksService) {}
+
+  @Get()
+  @UseGuards(JwtAuthGuard, TaskOrgGuard, OrgRolesGuard, PermissionsGuard)
+  @OrgRoles(OrganizationRole.VIEWER)
+  @RequirePermission(PermissionResource.TASK, PermissionAction.READ)
+  @ApiOperation({ summary: 'Get the links of a task in both directions' })
+  @ApiParam({ name: 'id', description: 'Task UUID' })
+  @ApiResponse({ status: 200, description: 'Links retrieved successfully', type: [TaskLink] })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 403, description: 'Forbidden - User does not have access to this organization' })
+  @ApiResponse({ status: 404, description: 'Task not found' })
+  async findAll(@Param('id') taskId: string) {
+    return this.taskLinksService.findByTask(taskId);
+  }
+
+  @Post()
+  @UseGuards(JwtAuthGuard, TaskOrgGuard, OrgRolesGuard, PermissionsGuard)
+  @OrgRoles(OrganizationRole.ADMIN)
+  @RequirePermission(PermissionResource.TASK, PermissionAction.UPDATE)
+  @ApiOperation({ summary: 'Link a task to another task of the same organization' })
+  @ApiParam({ name: 'id', description: 'Task UUID' })
+  @ApiResponse({ status: 201, description: 'Link created successfully', type: TaskLink })
+  @ApiResponse({ status: 400, description: 'Bad Request - Task from another organization, or the link would create a cycle' })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 403, description: 'Forbidden - User does not have Admin role' })
+  @ApiResponse({ status: 404, description: 'Task not found' })
+  @ApiResponse({ status: 409, description: 'Conflict - The tasks are already linked this way' })
+  async create(
+    @Param('id') taskId: string,
+    @Body() createTaskLinkDto: CreateTaskLinkDto,
+    @Request() req: AuthenticatedRequest
+  ) {
+    return this.taskLinksService.create(taskId, createTaskLinkDto, req.user.id);
+  }
+
+  @Delete(':linkId')
+  @UseGuards(JwtAuthGuard, TaskOrgGuard, OrgRolesGuard, PermissionsGuard)
+  @OrgRoles(OrganizationRole.ADMIN)
+  @RequirePermission(PermissionResource.TASK, PermissionAction.UPDATE)
+  @ApiOperation({ summary: 'Remove a link from either of its tasks' })
+  @ApiParam({ name: 'id', description: 'Task UUID' })
+  @ApiParam({ name: 'linkId', description: 'Task link UUID' })
+  @ApiResponse({ status: 200, description: 'Link deleted successfully' })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 403, description: 'Forbidden - User does not have Admin role' })
+  @ApiResponse({ status: 404, description: 'Task or link not found' })
+  async remove(@Param('id') taskId: string, @Param('linkId') linkId: string) {
+    await this.taskLinksService.delete(taskId, linkId);
+    return { message: 'Task link deleted successfully' };
+  }
+}
@@ -0,0 +1,205 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import {
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { Repository } from 'typeorm';
+import { TaskLinksService } from './task-links.service';
+import { Task, TaskLink, TaskLinkType } from '@task-manager/data';
+
+describe('TaskLinksService', () => {
+  let service: TaskLinksService;
+  let linkRepository: jest.Mocked<Repository<TaskLink>>;
+  let taskRepository: jest.Mocked<Repository<Task>>;
+
+  const makeTask = (id: string, title: string) =>
+    ({ id, title, organizationId: 'org-uuid-1' }) as Task;
+
+  const makeLink = (sourceTaskId: string, targetTaskId: string) =>
+    ({
+      id: `link-${sourceTaskId}-${targetTaskId}`,
+      sourceTaskId,
+      targetTaskId,
+      type: TaskLinkType.BLOCKS,
+    }) as TaskLink;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TaskLinksService,
+        {
+          provide: getRepositoryToken(TaskLink),
+          useValue: {
+            create: jest.fn((data) => data),
+            save: jest.fn((data) => Promise.resolve(data)),
+            find: jest.fn().mockResolvedValue([]),
+            findOne: jest.fn(),
+            count: jest.fn().mockResolvedValue(0),
+            remove: jest.fn(),
+          },
+        },
+        {
+          provide: getRepositoryToken(Task),
+          useValue: {
+            findOne: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<TaskLinksService>(TaskLinksService);
+    linkRepository = module.get(getRepositoryToken(TaskLink));
+    taskRepository = module.get(getRepositoryToken(Task));
+  });
+
+  describe('create', () => {
+    beforeEach(() => {
+      taskRepository.findOne.mockImplementation((options) => {
+        const id = (options.where as { id: string }).id;
+        return Promise.resolve(makeTask(id, id.toUpperCase()));
+      });
+    });
+
+    it('should link two tasks of the same organization', async () => {
+      const result = await service.create(
+        'task-a',
+        { targetTaskId: 'task-b', type: TaskLinkType.BLOCKS },
+        'user-uuid-1'
+      );
+
+      expect(taskRepository.findOne).toHaveBeenLastCalledWith({
+        where: { id: 'task-b', organizationId: 'org-uuid-1' },
+      });
+      expect(result).toEqual(
+        expect.objectContaining({
+          sourceTaskId: 'task-a',
+          targetTaskId: 'task-b',
+          type: TaskLinkType.BLOCKS,
+          createdById: 'user-uuid-1',
+        })
+      );
+      expect(result.sourceTask.title).toBe('TASK-A');
+      expect(result.targetTask.title).toBe('TASK-B');
+    });
+
+    it('should reject linking a task to itself', async () => {
+      await expect(
+        service.create(
+          'task-a',
+          { targetTaskId: 'task-a', type: TaskLinkType.RELATES_TO },
+          'user-uuid-1'
+        )
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should throw NotFoundException when the task does not exist', async () => {
+      taskRepository.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.create(
+          'task-missing',
+          { targetTaskId: 'task-b', type: TaskLinkType.BLOCKS },
+          'user-uuid-1'
+        )
+      ).rejects.toThrow(NotFoundException);
+    });
+
+    it('should reject a task of another organization', async () => {
+      taskRepository.findOne
+        .mockResolvedValueOnce(makeTask('task-a', 'A'))
+        .mockResolvedValueOnce(null);
+
+      await expect(
+        service.create(
+          'task-a',
+          { targetTaskId: 'task-elsewhere', type: TaskLinkType.BLOCKS },
+          'user-uuid-1'
+        )
+      ).rejects.toThrow('Linked task must belong to the same organization');
+    });
+
+    it('should reject a link that already exists', async () => {
+      linkRepository.count.mockResolvedValue(1);
+
+      await expect(
+        service.create(
+          'task-a',
+          { targetTaskId: 'task-b', type: TaskLinkType.BLOCKS },
+          'user-uuid-1'
+        )
+      ).rejects.toThrow(ConflictException);
+    });
+
+    it('should check both directions for relates-to links', async () => {
+      linkRepository.count.mockResolvedValue(1);
+
+      await expect(
+        service.create(
+          'task-a',
+          { targetTaskId: 'task-b', type: TaskLinkType.RELATES_TO },
+          'user-uuid-1'
+        )
+      ).rejects.toThrow(ConflictException);
+      expect(linkRepository.count).toHaveBeenCalledWith({
+        where: [
+          { sourceTaskId: 'task-a', targetTaskId: 'task-b', type: TaskLinkType.RELATES_TO },
+          { sourceTaskId: 'task-b', targetTaskId: 'task-a', type: TaskLinkType.RELATES_TO },
+        ],
+      });
+    });
+
+    it('should reject a blocking link that would close a cycle', async () => {
+      // B blocks C and C blocks A, so A cannot block B
+      linkRepository.find
+        .mockResolvedValueOnce([makeLink('task-b', 'task-c')])
+        .mockResolvedValueOnce([makeLink('task-c', 'task-a')]);
+
+      await expect(
+        service.create(
+          'task-a',
+          { targetTaskId: 'task-b', type: TaskLinkType.BLOCKS },
+          'user-uuid-1'
+        )
+      ).rejects.toThrow('Linking "TASK-A" to "TASK-B" would create a cycle');
+      expect(linkRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should not look for cycles in relates-to links', async () => {
+      await service.create(
+        'task-a',
+        { targetTaskId: 'task-b', type: TaskLinkType.RELATES_TO },
+        'user-uuid-1'
+      );
+
+      expect(linkRepository.find).not.toHaveBeenCalled();
+      expect(linkRepository.save).toHaveBeenCalled();
+    });
+  });
+
+  describe('delete', () => {
+    it('should remove a link from either of its tasks', async () => {
+      const link = makeLink('task-a', 'task-b');
+      linkRepository.findOne.mockResolvedValue(link);
+
+      await service.delete('task-b', link.id);
+
+      expect(linkRepository.findOne).toHaveBeenCalledWith({
+        where: [
+          { id: link.id, sourceTaskId: 'task-b' },
+          { id: link.id, targetTaskId: 'task-b' },
+        ],
+      });
+      expect(linkRepository.remove).toHaveBeenCalledWith(link);
+    });
+
+    it('should throw NotFoundException for a link of another task', async () => {
+      linkRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.delete('task-a', 'link-uuid-1')).rejects.toThrow(
+        NotFoundException
+      );
+    });
+  });
+});
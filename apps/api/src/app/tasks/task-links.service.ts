@@ -0,0 +1,169 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, In } from 'typeorm';
+import { Task, TaskLink, TaskLinkType, TaskStatus } from '@task-manager/data';
+
+export interface CreateTaskLinkDto {
+  targetTaskId: string;
+  type: TaskLinkType;
+}
+
+@Injectable()
+export class TaskLinksService {
+  constructor(
+    @InjectRepository(TaskLink)
+    private readonly linkRepository: Repository<TaskLink>,
+    @InjectRepository(Task)
+    private readonly taskRepository: Repository<Task>
+  ) {}
+
+  /**
+   * Links in either direction, with both tasks loaded. Links to
+   * soft-deleted tasks are kept for a restore but not listed.
+   */
+  async findByTask(taskId: string): Promise<TaskLink[]> {
+    const links = await this.linkRepository.find({
+      where: [{ sourceTaskId: taskId }, { targetTaskId: taskId }],
+      relations: { sourceTask: true, targetTask: true },
+      order: { createdAt: 'ASC' },
+    });
+
+    return links.filter((link) => link.sourceTask && link.targetTask);
+  }
+
+  /**
+   * Link a task to another task of the same organization. BLOCKS and
+   * DUPLICATES links are refused when they would close a cycle.
+   */
+  async create(
+    taskId: string,
+    dto: CreateTaskLinkDto,
+    createdById: string
+  ): Promise<TaskLink> {
+    if (dto.targetTaskId === taskId) {
+      throw new BadRequestException('A task cannot be linked to itself');
+    }
+
+    const source = await this.taskRepository.findOne({ where: { id: taskId } });
+    if (!source) {
+      throw new NotFoundException(`Task with ID ${taskId} not found`);
+    }
+
+    const target = await this.taskRepository.findOne({
+      where: { id: dto.targetTaskId, organizationId: source.organizationId },
+    });
+    if (!target) {
+      throw new BadRequestException(
+        'Linked task must belong to the same organization'
+      );
+    }
+
+    // RELATES_TO has no direction, so either way round is a duplicate
+    const pairs = [{ sourceTaskId: taskId, targetTaskId: target.id, type: dto.type }];
+    if (dto.type === TaskLinkType.RELATES_TO) {
+      pairs.push({ sourceTaskId: target.id, targetTaskId: taskId, type: dto.type });
+    }
+    if (await this.linkRepository.count({ where: pairs })) {
+      throw new ConflictException('These tasks are already linked this way');
+    }
+
+    if (
+      dto.type !== TaskLinkType.RELATES_TO &&
+      (await this.reaches(target.id, taskId, dto.type))
+    ) {
+      throw new BadRequestException(
+        `Linking "${source.title}" to "${target.title}" would create a cycle`
+      );
+    }
+
+    const link = this.linkRepository.create({
+      sourceTaskId: taskId,
+      targetTaskId: target.id,
+      type: dto.type,
+      createdById,
+    });
+
+    const saved = await this.linkRepository.save(link);
+    // Return both tasks like findByTask, so clients can list the link as is
+    return Object.assign(saved, { sourceTask: source, targetTask: target });
+  }
+
+  /**
+   * Links can be removed from either of their tasks.
+   */
+  async delete(taskId: string, linkId: string): Promise<void> {
+    const link = await this.linkRepository.findOne({
+      where: [
+        { id: linkId, sourceTaskId: taskId },
+        { id: linkId, targetTaskId: taskId },
+      ],
+    });
+
+    if (!link) {
+      throw new NotFoundException(`Task link with ID ${linkId} not found`);
+    }
+
+    await this.linkRepository.remove(link);
+  }
+
+  /**
+   * Number of unfinished, non-deleted tasks blocking each of the given
+   * tasks. Tasks without open blockers are left out of the map.
+   */
+  async countOpenBlockers(taskIds: string[]): Promise<Map<string, number>> {
+    if (taskIds.length === 0) {
+      return new Map();
+    }
+
+    const rows = await this.linkRepository
+      .createQueryBuilder('link')
+      .innerJoin('link.sourceTask', 'blocker')
+      .select('link.targetTaskId', 'taskId')
+      .addSelect('COUNT(*)', 'count')
+      .where('link.type = :type', { type: TaskLinkType.BLOCKS })
+      .andWhere('link.targetTaskId IN (:...taskIds)', { taskIds })
+      .andWhere('blocker.status != :done', { done: TaskStatus.DONE })
+      .andWhere('blocker.deletedAt IS NULL')
+      .groupBy('link.targetTaskId')
+      .getRawMany<{ taskId: string; count: string }>();
+
+    return new Map(rows.map((row) => [row.taskId, Number(row.count)]));
+  }
+
+  /**
+   * Whether following links of one type from a task, level by level,
+   * leads to another task.
+   */
+  private async reaches(
+    fromId: string,
+    toId: string,
+    type: TaskLinkType
+  ): Promise<boolean> {
+    const visited = new Set([fromId]);
+    let frontier = [fromId];
+
+    while (frontier.length > 0) {
+      const links = await this.linkRepository.find({
+        where: { sourceTaskId: In(frontier), type },
+      });
+
+      frontier = [];
+      for (const link of links) {
+        if (link.targetTaskId === toId) {
+          return true;
+        }
+        if (!visited.has(link.targetTaskId)) {
+          visited.add(link.targetTaskId);
+          frontier.push(link.targetTaskId);
+        }
+      }
+    }
+
+    return false;
+  }
+}
@@ -0,0 +1,49 @@
+import { rankBetween, RankError } from './task-rank';
+
+describe('rankBetween', () => {
+  it('should start an empty column in the middle of the range', () => {
+    expect(rankBetween(null, null)).toBe('i');
+  });
+
+  it('should rank between two ranks', () => {
+    expect(rankBetween('a', 'c')).toBe('b');
+    expect(rankBetween('a', 'b')).toBe('ai');
+    expect(rankBetween('0000000009', '0000000010')).toBe('000000000m');
+  });
+
+  it('should rank before the first and after the last task', () => {
+    expect(rankBetween(null, 'i')).toBe('9');
+    expect(rankBetween(null, '1')).toBe('0i');
+    expect(rankBetween('z', null)).toBe('zi');
+  });
+
+  it('should keep finding room when always inserting at the same place', () => {
+    let first = 'i';
+    let last = 'i';
+    for (let i = 0; i < 200; i++) {
+      const before = rankBetween(null, first);
+      const after = rankBetween(last, null);
+      expect(before < first).toBe(true);
+      expect(after > last).toBe(true);
+      first = before;
+      last = after;
+    }
+
+    let low = 'a';
+    const high = 'b';
+    for (let i = 0; i < 200; i++) {
+      const next = rankBetween(low, high);
+      expect(next > low && next < high).toBe(true);
+      expect(next.endsWith('0')).toBe(false);
+      low = next;
+    }
+  });
+
+  it.each([
+    ['b', 'a'],
+    ['a', 'a'],
+    ['a', 'a0'],
+  ])('should throw RankError between %s and %s', (before, after) => {
+    expect(() => rankBetween(before, after)).toThrow(RankError);
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Lexicographic ranks for ordering tasks within a board column. A rank
+ * is a string of base-36 digits compared byte by byte (the column uses
+ * the "C" collation), and a rank can always be found between two others
+ * by extending the shorter one, so moving a task only rewrites its own
+ * rank.
+ */
+
+const DIGITS = '0123456789abcdefghijklmnopqrstuvwxyz';
+
+export class RankError extends Error {}
+
+/**
+ * A rank sorting after `before` and before `after`; null stands for the
+ * start or end of the column. Returned ranks never end in the lowest
+ * digit, so there is always room before them.
+ */
+export function rankBetween(before: string | null, after: string | null): string {
+  if (before !== null && after !== null && before >= after) {
+    throw new RankError(`No rank between ${before} and ${after}`);
+  }
+
+  let rank = '';
+  // Once the rank is already below `after`, later digits are unbounded
+  let bounded = after !== null;
+
+  for (let i = 0; ; i++) {
+    const low = before !== null && i < before.length ? digit(before[i]) : 0;
+    let high = DIGITS.length;
+    if (bounded && after !== null) {
+      if (i >= after.length) {
+        // `after` is `before` followed by zeros
+        throw new RankError(`No rank between ${before} and ${after}`);
+      }
+      high = digit(after[i]);
+    }
+
+    if (high - low > 1) {
+      return rank + DIGITS[Math.floor((low + high) / 2)];
+    }
+
+    rank += DIGITS[low];
+    if (high - low === 1) {
+      bounded = false;
+    }
+  }
+}
+
+function digit(char: string): number {
+  const value = DIGITS.indexOf(char);
+  if (value < 0) {
+    throw new RankError(`Invalid rank digit ${char}`);
+  }
+  return value;
+}
@@ -0,0 +1,119 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { NotFoundException } from '@nestjs/common';
+import { Repository, Not } from 'typeorm';
+import { Task, TaskWatcher } from '@task-manager/data';
+import { TaskWatchersService } from './task-watchers.service';
+
+describe('TaskWatchersService', () => {
+  let service: TaskWatchersService;
+  let watcherRepository: jest.Mocked<Repository<TaskWatcher>>;
+  let taskRepository: jest.Mocked<Repository<Task>>;
+
+  const insertQueryBuilder = {
+    insert: jest.fn().mockReturnThis(),
+    into: jest.fn().mockReturnThis(),
+    values: jest.fn().mockReturnThis(),
+    orIgnore: jest.fn().mockReturnThis(),
+    execute: jest.fn(),
+  };
+
+  const mockTask = { id: 'task-uuid-1', organizationId: 'org-uuid-1' } as Task;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TaskWatchersService,
+        {
+          provide: getRepositoryToken(TaskWatcher),
+          useValue: {
+            find: jest.fn().mockResolvedValue([]),
+            delete: jest.fn(),
+            createQueryBuilder: jest.fn(() => insertQueryBuilder),
+          },
+        },
+        {
+          provide: getRepositoryToken(Task),
+          useValue: { findOne: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get<TaskWatchersService>(TaskWatchersService);
+    watcherRepository = module.get(getRepositoryToken(TaskWatcher));
+    taskRepository = module.get(getRepositoryToken(Task));
+  });
+
+  describe('subscribe', () => {
+    it('should insert each user once and ignore existing watchers', async () => {
+      await service.subscribe('task-uuid-1', ['user-uuid-1', null, 'user-uuid-1', 'user-uuid-2']);
+
+      expect(insertQueryBuilder.values).toHaveBeenCalledWith([
+        { taskId: 'task-uuid-1', userId: 'user-uuid-1' },
+        { taskId: 'task-uuid-1', userId: 'user-uuid-2' },
+      ]);
+      expect(insertQueryBuilder.orIgnore).toHaveBeenCalled();
+    });
+
+    it('should do nothing without users', async () => {
+      await service.subscribe('task-uuid-1', [null, undefined]);
+
+      expect(watcherRepository.createQueryBuilder).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('watch', () => {
+    it('should subscribe the user and return the watchers', async () => {
+      taskRepository.findOne.mockResolvedValue(mockTask);
+
+      await service.watch('task-uuid-1', 'user-uuid-3');
+
+      expect(insertQueryBuilder.values).toHaveBeenCalledWith([
+        { taskId: 'task-uuid-1', userId: 'user-uuid-3' },
+      ]);
+      expect(watcherRepository.find).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { taskId: 'task-uuid-1' } })
+      );
+    });
+
+    it('should throw NotFoundException for a deleted task', async () => {
+      taskRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.watch('task-uuid-1', 'user-uuid-3')).rejects.toThrow(
+        NotFoundException
+      );
+      expect(insertQueryBuilder.execute).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('unwatch', () => {
+    it('should remove the subscription', async () => {
+      taskRepository.findOne.mockResolvedValue(mockTask);
+
+      await service.unwatch('task-uuid-1', 'user-uuid-1');
+
+      expect(watcherRepository.delete).toHaveBeenCalledWith({
+        taskId: 'task-uuid-1',
+        userId: 'user-uuid-1',
+      });
+    });
+  });
+
+  describe('findRecipients', () => {
+    it('should leave out the user who made the change', async () => {
+      watcherRepository.find.mockResolvedValue([
+        { userId: 'user-uuid-2' } as TaskWatcher,
+      ]);
+
+      const recipients = await service.findRecipients('task-uuid-1', 'user-uuid-1');
+
+      expect(recipients).toEqual(['user-uuid-2']);
+      expect(watcherRepository.find).toHaveBeenCalledWith({
+        where: { taskId: 'task-uuid-1', userId: Not('user-uuid-1') },
+        select: { userId: true },
+      });
+    });
+  });
+});
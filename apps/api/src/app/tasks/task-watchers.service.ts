@@ -0,0 +1,110 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, EntityManager, Not } from 'typeorm';
+import { Task, TaskWatcher } from '@task-manager/data';
+
+@Injectable()
+export class TaskWatchersService {
+  constructor(
+    @InjectRepository(TaskWatcher)
+    private readonly watcherRepository: Repository<TaskWatcher>,
+    @InjectRepository(Task)
+    private readonly taskRepository: Repository<Task>
+  ) {}
+
+  /**
+   * Watchers of a task with their users, in the order they subscribed.
+   */
+  async findByTask(taskId: string): Promise<TaskWatcher[]> {
+    return this.watcherRepository.find({
+      where: { taskId },
+      relations: { user: true },
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  /**
+   * Start watching a task. Watching twice is a no-op.
+   */
+  async watch(taskId: string, userId: string): Promise<TaskWatcher[]> {
+    await this.getActiveTask(taskId);
+    await this.subscribe(taskId, [userId]);
+    return this.findByTask(taskId);
+  }
+
+  /**
+   * Stop watching a task, including one that was subscribed automatically.
+   */
+  async unwatch(taskId: string, userId: string): Promise<TaskWatcher[]> {
+    await this.getActiveTask(taskId);
+    await this.watcherRepository.delete({ taskId, userId });
+    return this.findByTask(taskId);
+  }
+
+  /**
+   * Subscribe users to a task, skipping those already watching. Used for
+   * the automatic subscriptions of creators, assignees and commenters.
+   */
+  async subscribe(
+    taskId: string,
+    userIds: (string | null | undefined)[],
+    manager?: EntityManager
+  ): Promise<void> {
+    const unique = [...new Set(userIds.filter((id): id is string => !!id))];
+    if (unique.length === 0) {
+      return;
+    }
+
+    const watchers = manager?.getRepository(TaskWatcher) ?? this.watcherRepository;
+    await watchers
+      .createQueryBuilder()
+      .insert()
+      .into(TaskWatcher)
+      .values(unique.map((userId) => ({ taskId, userId })))
+      .orIgnore()
+      .execute();
+  }
+
+  /**
+   * Unsubscribe a user from every task of an organization they left.
+   */
+  async removeMember(
+    organizationId: string,
+    userId: string,
+    manager: EntityManager = this.watcherRepository.manager
+  ): Promise<void> {
+    await manager
+      .createQueryBuilder()
+      .delete()
+      .from(TaskWatcher)
+      .where('user_id = :userId', { userId })
+      .andWhere(
+        'task_id IN (SELECT id FROM tasks WHERE organization_id = :organizationId)',
+        { organizationId }
+      )
+      .execute();
+  }
+
+  /**
+   * Who to notify about a change to a task: its watchers, minus the user
+   * who made the change. Any notification fan-out goes through here.
+   */
+  async findRecipients(taskId: string, actorId?: string): Promise<string[]> {
+    const watchers = await this.watcherRepository.find({
+      where: actorId ? { taskId, userId: Not(actorId) } : { taskId },
+      select: { userId: true },
+    });
+
+    return watchers.map((watcher) => watcher.userId);
+  }
+
+  private async getActiveTask(taskId: string): Promise<Task> {
+    const task = await this.taskRepository.findOne({ where: { id: taskId } });
+
+    if (!task) {
+      throw new NotFoundException(`Task with ID ${taskId} not found`);
+    }
+
+    return task;
+  }
+}
@@ -4,8 +4,16 @@ import { TasksController } from './tasks.controller';
 import { TasksService } from './tasks.service';
 import { AuditInterceptor } from '../audit/audit.interceptor';
 import { AuditService } from '../audit/audit.service';
-import { JwtAuthGuard, OrgRolesGuard } from '@task-manager/auth';
-import { OrganizationRole, Organization, Task, TaskStatus, TaskPriority } from '@task-manager/data';
+import { JwtAuthGuard, OrgRolesGuard, PermissionsGuard } from '@task-manager/auth';
+import {
+  OrganizationRole,
+  Organization,
+  Task,
+  TaskStatus,
+  TaskPriority,
+  BulkTaskAction,
+  TaskSortField,
+} from '@task-manager/data';
 
 interface AuthenticatedRequest extends Request {
   user: { id: string; email: string };
@@ -19,24 +27,46 @@ describe('TasksController', () => {
 
   const mockTask: Task = {
     id: 'task-uuid-1',
+    key: null,
     title: 'Test Task',
     description: 'Test Description',
     status: TaskStatus.TODO,
+    statusId: null,
+    rank: 'i',
     priority: TaskPriority.MEDIUM,
+    estimate: null,
+    sprintId: null,
+    projectId: null,
+    startDate: null,
+    dueDate: null,
+    parentId: null,
+    customFieldValues: {},
+    recurrenceId: null,
+    occurrenceAt: null,
     organizationId: 'org-uuid-1',
-    assigneeId: 'user-uuid-1',
     createdAt: new Date(),
     updatedAt: new Date(),
     deletedAt: null,
     organization: null as unknown as Organization,
-    assignee: null,
+    workflowStatus: null,
+    recurrence: null,
+    sprint: null,
+    project: null,
+    parent: null,
+    children: [],
+    checklistItems: [],
+    labels: [],
+    assignees: [],
   };
 
   beforeEach(async () => {
     const mockTasksService = {
       create: jest.fn(),
       findByOrganization: jest.fn(),
+      findOne: jest.fn(),
       update: jest.fn(),
+      bulk: jest.fn(),
+      move: jest.fn(),
       delete: jest.fn(),
     };
 
@@ -56,6 +86,8 @@ describe('TasksController', () => {
       .useValue({ canActivate: () => true })
       .overrideGuard(OrgRolesGuard)
       .useValue({ canActivate: () => true })
+      .overrideGuard(PermissionsGuard)
+      .useValue({ canActivate: () => true })
       .compile();
 
     controller = module.get<TasksController>(TasksController);
@@ -81,14 +113,89 @@ describe('TasksController', () => {
   });
 
   describe('findAll', () => {
-    it('should return tasks for organization', async () => {
-      const tasks = [mockTask];
-      tasksService.findByOrganization.mockResolvedValue(tasks);
+    it('should return a page of tasks for organization', async () => {
+      const page = {
+        data: [
+          { ...mockTask, checklistProgress: { done: 0, total: 0 }, openBlockerCount: 0, timeSpentSeconds: 0 },
+        ],
+        total: 1,
+        nextCursor: null,
+      };
+      tasksService.findByOrganization.mockResolvedValue(page);
 
-      const result = await controller.findAll('org-uuid-1');
+      const result = await controller.findAll({ organizationId: 'org-uuid-1' });
 
-      expect(result).toEqual(tasks);
-      expect(tasksService.findByOrganization).toHaveBeenCalledWith('org-uuid-1');
+      expect(result).toEqual(page);
+      expect(tasksService.findByOrganization).toHaveBeenCalledWith(
+        'org-uuid-1',
+        {
+          dueBefore: undefined,
+          dueAfter: undefined,
+          overdue: false,
+        },
+        {}
+      );
+    });
+
+    it('should pass due date filters to the service', async () => {
+      tasksService.findByOrganization.mockResolvedValue({ data: [], total: 0, nextCursor: null });
+
+      await controller.findAll({
+        organizationId: 'org-uuid-1',
+        dueBefore: '2026-02-07T00:00:00.000Z',
+        overdue: 'true',
+      });
+
+      expect(tasksService.findByOrganization).toHaveBeenCalledWith(
+        'org-uuid-1',
+        {
+          dueBefore: new Date('2026-02-07T00:00:00.000Z'),
+          dueAfter: undefined,
+          overdue: true,
+        },
+        {}
+      );
+    });
+
+    it('should parse the custom field filter', async () => {
+      tasksService.findByOrganization.mockResolvedValue({ data: [], total: 0, nextCursor: null });
+
+      await controller.findAll({
+        organizationId: 'org-uuid-1',
+        customFields: '{"field-uuid-1":"Acme"}',
+      });
+
+      expect(tasksService.findByOrganization).toHaveBeenCalledWith(
+        'org-uuid-1',
+        expect.objectContaining({
+          customFields: { 'field-uuid-1': 'Acme' },
+        }),
+        {}
+      );
+    });
+
+    it('should pass list filters, search and paging to the service', async () => {
+      tasksService.findByOrganization.mockResolvedValue({ data: [], total: 0, nextCursor: null });
+
+      await controller.findAll({
+        organizationId: 'org-uuid-1',
+        statusIds: ['status-uuid-1'],
+        priorities: [TaskPriority.HIGH, TaskPriority.URGENT],
+        search: 'login',
+        sortBy: TaskSortField.DUE_DATE,
+        limit: 20,
+        cursor: 'abc',
+      });
+
+      expect(tasksService.findByOrganization).toHaveBeenCalledWith(
+        'org-uuid-1',
+        expect.objectContaining({
+          statusIds: ['status-uuid-1'],
+          priorities: [TaskPriority.HIGH, TaskPriority.URGENT],
+          search: 'login',
+        }),
+        { sortBy: TaskSortField.DUE_DATE, limit: 20, cursor: 'abc' }
+      );
     });
   });
 
@@ -138,14 +245,90 @@ describe('TasksController', () => {
     });
   });
 
+  describe('bulk', () => {
+    const viewerReq = {
+      user: { id: 'user-uuid-1', email: 'test@test.com' },
+      userOrgRole: OrganizationRole.VIEWER,
+    } as AuthenticatedRequest;
+
+    it('should let VIEWER move tasks to another status', async () => {
+      const dto = {
+        organizationId: 'org-uuid-1',
+        taskIds: ['task-uuid-1'],
+        action: BulkTaskAction.UPDATE,
+        status: TaskStatus.DONE,
+      };
+      tasksService.bulk.mockResolvedValue([{ taskId: 'task-uuid-1', success: true }]);
+
+      await controller.bulk(dto, viewerReq);
+
+      expect(tasksService.bulk).toHaveBeenCalledWith(dto, 'user-uuid-1', undefined);
+    });
+
+    it('should reject VIEWER deleting tasks or changing other fields', async () => {
+      await expect(
+        controller.bulk(
+          { organizationId: 'org-uuid-1', taskIds: ['task-uuid-1'], action: BulkTaskAction.DELETE },
+          viewerReq
+        )
+      ).rejects.toThrow(ForbiddenException);
+      await expect(
+        controller.bulk(
+          {
+            organizationId: 'org-uuid-1',
+            taskIds: ['task-uuid-1'],
+            action: BulkTaskAction.UPDATE,
+            priority: TaskPriority.HIGH,
+          },
+          viewerReq
+        )
+      ).rejects.toThrow(ForbiddenException);
+      expect(tasksService.bulk).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findOne', () => {
+    it('should return the task', async () => {
+      const task = { ...mockTask, checklistProgress: { done: 0, total: 0 }, openBlockerCount: 0, timeSpentSeconds: 0 };
+      tasksService.findOne.mockResolvedValue(task);
+
+      const result = await controller.findOne('task-uuid-1');
+
+      expect(result).toEqual(task);
+      expect(tasksService.findOne).toHaveBeenCalledWith('task-uuid-1');
+    });
+  });
+
+  describe('move', () => {
+    it('should let VIEWER move a task on the board', async () => {
+      const req = {
+        user: { id: 'user-uuid-1', email: 'test@test.com' },
+        userOrgRole: OrganizationRole.VIEWER,
+      } as AuthenticatedRequest;
+      const task = { ...mockTask, checklistProgress: { done: 0, total: 0 }, openBlockerCount: 0, timeSpentSeconds: 0 };
+      tasksService.move.mockResolvedValue(task);
+
+      const result = await controller.move('task-uuid-1', { beforeTaskId: 'task-uuid-2' }, req);
+
+      expect(result).toEqual(task);
+      expect(tasksService.move).toHaveBeenCalledWith(
+        'task-uuid-1',
+        { beforeTaskId: 'task-uuid-2' },
+        'user-uuid-1'
+      );
+    });
+  });
+
   describe('remove', () => {
     it('should delete a task for ADMIN', async () => {
       tasksService.delete.mockResolvedValue(undefined);
 
-      const result = await controller.remove('task-uuid-1');
+      const req = { user: { id: 'user-uuid-1', email: 'test@test.com' } } as AuthenticatedRequest;
+
+      const result = await controller.remove('task-uuid-1', req);
 
       expect(result).toEqual({ message: 'Task deleted successfully' });
-      expect(tasksService.delete).toHaveBeenCalledWith('task-uuid-1');
+      expect(tasksService.delete).toHaveBeenCalledWith('task-uuid-1', 'user-uuid-1');
     });
 
     /**
@@ -12,6 +12,8 @@ import {
   UseInterceptors,
   Request,
   ForbiddenException,
+  HttpCode,
+  HttpStatus,
 } from '@nestjs/common';
 import {
   ApiTags,
@@ -24,6 +26,9 @@ import {
 import { TasksService } from './tasks.service';
 import { CreateTaskDto } from './dto/create-task.dto';
 import { UpdateTaskDto } from './dto/update-task.dto';
+import { QueryTasksDto } from './dto/query-tasks.dto';
+import { BulkTaskDto } from './dto/bulk-task.dto';
+import { MoveTaskDto } from './dto/move-task.dto';
 import { TaskOrgGuard } from './guards/task-org.guard';
 import {
   JwtAuthGuard,
@@ -31,17 +36,19 @@ import {
   OrgRoles,
   PermissionsGuard,
   RequirePermission,
+  AccessTokenGrant,
 } from '@task-manager/auth';
 import {
   OrganizationRole,
   Task,
+  BulkTaskAction,
   PermissionResource,
   PermissionAction,
 } from '@task-manager/data';
 import { AuditInterceptor } from '../audit/audit.interceptor';
 
 interface AuthenticatedRequest extends Request {
-  user: { id: string; email: string };
+  user: { id: string; email: string; accessToken?: AccessTokenGrant };
   organizationId?: string;
   userOrgRole?: OrganizationRole;
 }
@@ -59,6 +66,7 @@ export class TasksController {
   @RequirePermission(PermissionResource.TASK, PermissionAction.CREATE)
   @ApiOperation({ summary: 'Create a new task' })
   @ApiResponse({ status: 201, description: 'Task created successfully', type: Task })
+  @ApiResponse({ status: 400, description: 'Bad Request - Invalid fields or custom field values' })
   @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
   @ApiResponse({ status: 403, description: 'Forbidden - User does not have Admin role' })
   @ApiResponse({ status: 404, description: 'Organization not found' })
@@ -69,17 +77,68 @@ export class TasksController {
     return this.tasksService.create(createTaskDto, req.user.id);
   }
 
+  @Post('bulk')
+  @UseGuards(JwtAuthGuard, OrgRolesGuard, PermissionsGuard)
+  @OrgRoles(OrganizationRole.VIEWER)
+  @RequirePermission(PermissionResource.TASK, PermissionAction.UPDATE)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Update, delete or restore many tasks of an organization at once' })
+  @ApiResponse({ status: 200, description: 'Per-task results; tasks that failed were left unchanged' })
+  @ApiResponse({ status: 400, description: 'Bad Request - Tasks from another organization or no changes given' })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Viewers can only update task status, or the action is not permitted' })
+  async bulk(@Body() bulkTaskDto: BulkTaskDto, @Request() req: AuthenticatedRequest) {
+    if (req.userOrgRole === OrganizationRole.VIEWER) {
+      const changesOtherThanStatus = ['priority', 'labelIds', 'assigneeIds', 'projectId'].some(
+        (k) => bulkTaskDto[k as keyof BulkTaskDto] !== undefined
+      );
+
+      if (bulkTaskDto.action !== BulkTaskAction.UPDATE || changesOtherThanStatus) {
+        throw new ForbiddenException('Viewers can only update task status');
+      }
+    }
+
+    return this.tasksService.bulk(bulkTaskDto, req.user.id, req.user.accessToken);
+  }
+
   @Get()
   @UseGuards(JwtAuthGuard, OrgRolesGuard, PermissionsGuard)
   @OrgRoles(OrganizationRole.VIEWER)
   @RequirePermission(PermissionResource.TASK, PermissionAction.READ)
-  @ApiOperation({ summary: 'Get all tasks for an organization' })
-  @ApiQuery({ name: 'organizationId', description: 'Organization UUID', required: true })
-  @ApiResponse({ status: 200, description: 'List of tasks retrieved successfully', type: [Task] })
+  @ApiOperation({ summary: 'Get a page of the tasks of an organization, filtered and sorted' })
+  @ApiResponse({ status: 200, description: 'Tasks retrieved successfully, with the total count and the cursor of the next page' })
+  @ApiResponse({ status: 400, description: 'Bad Request - Unknown custom field, invalid filter value or cursor' })
   @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
   @ApiResponse({ status: 403, description: 'Forbidden - User does not have access to this organization' })
-  async findAll(@Query('organizationId') organizationId: string) {
-    return this.tasksService.findByOrganization(organizationId);
+  async findAll(@Query() query: QueryTasksDto) {
+    return this.tasksService.findByOrganization(
+      query.organizationId,
+      {
+        projectId: query.projectId,
+        sprintId: query.sprintId,
+        parentId: query.parentId,
+        statusIds: query.statusIds,
+        categories: query.categories,
+        priorities: query.priorities,
+        assigneeIds: query.assigneeIds,
+        labelIds: query.labelIds,
+        search: query.search,
+        dueBefore: query.dueBefore ? new Date(query.dueBefore) : undefined,
+        dueAfter: query.dueAfter ? new Date(query.dueAfter) : undefined,
+        createdBefore: query.createdBefore ? new Date(query.createdBefore) : undefined,
+        createdAfter: query.createdAfter ? new Date(query.createdAfter) : undefined,
+        overdue: query.overdue === 'true' || query.overdue === '1',
+        customFields: query.customFields
+          ? JSON.parse(query.customFields)
+          : undefined,
+      },
+      {
+        sortBy: query.sortBy,
+        sortOrder: query.sortOrder,
+        limit: query.limit,
+        cursor: query.cursor,
+      }
+    );
   }
 
   @Put(':id')
@@ -89,6 +148,7 @@ export class TasksController {
   @ApiOperation({ summary: 'Update a task' })
   @ApiParam({ name: 'id', description: 'Task UUID' })
   @ApiResponse({ status: 200, description: 'Task updated successfully', type: Task })
+  @ApiResponse({ status: 400, description: 'Bad Request - Invalid fields or status transition not allowed' })
   @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
   @ApiResponse({ status: 403, description: 'Forbidden - Viewers can only update task status' })
   @ApiResponse({ status: 404, description: 'Task not found' })
@@ -99,7 +159,7 @@ export class TasksController {
   ) {
     if (req.userOrgRole === OrganizationRole.VIEWER) {
       // Fields that viewers are allowed to update
-      const allowedKeys = ['status'];
+      const allowedKeys = ['status', 'statusId'];
       // Fields injected by guards (not user input)
       const systemKeys = ['organizationId'];
 
@@ -114,7 +174,26 @@ export class TasksController {
       }
     }
 
-    return this.tasksService.update(id, updateTaskDto);
+    return this.tasksService.update(id, updateTaskDto, req.user.id);
+  }
+
+  @Patch(':id/move')
+  @UseGuards(JwtAuthGuard, TaskOrgGuard, OrgRolesGuard, PermissionsGuard)
+  @OrgRoles(OrganizationRole.VIEWER)
+  @RequirePermission(PermissionResource.TASK, PermissionAction.UPDATE)
+  @ApiOperation({ summary: 'Move a task before or after another task, or to the top of a column' })
+  @ApiParam({ name: 'id', description: 'Task UUID' })
+  @ApiResponse({ status: 200, description: 'Task moved successfully', type: Task })
+  @ApiResponse({ status: 400, description: 'Bad Request - No or conflicting position, or status transition not allowed' })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 403, description: 'Forbidden - User does not have access to this organization' })
+  @ApiResponse({ status: 404, description: 'Task not found' })
+  async move(
+    @Param('id') id: string,
+    @Body() moveTaskDto: MoveTaskDto,
+    @Request() req: AuthenticatedRequest
+  ) {
+    return this.tasksService.move(id, moveTaskDto, req.user.id);
   }
 
   @Delete(':id')
@@ -127,8 +206,8 @@ export class TasksController {
   @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
   @ApiResponse({ status: 403, description: 'Forbidden - User does not have Admin role' })
   @ApiResponse({ status: 404, description: 'Task not found' })
-  async remove(@Param('id') id: string) {
-    await this.tasksService.delete(id);
+  async remove(@Param('id') id: string, @Request() req: AuthenticatedRequest) {
+    await this.tasksService.delete(id, req.user.id);
     return { message: 'Task deleted successfully' };
   }
 
@@ -142,8 +221,8 @@ export class TasksController {
   @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
   @ApiResponse({ status: 403, description: 'Forbidden - User does not have Admin role' })
   @ApiResponse({ status: 404, description: 'Task not found or not deleted' })
-  async restore(@Param('id') id: string) {
-    const task = await this.tasksService.restoreTask(id);
+  async restore(@Param('id') id: string, @Request() req: AuthenticatedRequest) {
+    const task = await this.tasksService.restoreTask(id, req.user.id);
     return { message: 'Task restored successfully', task };
   }
 
@@ -159,4 +238,19 @@ export class TasksController {
   async findDeleted(@Query('organizationId') organizationId: string) {
     return this.tasksService.findDeleted(organizationId);
   }
+
+  // Declared after 'deleted' so that it does not capture that path
+  @Get(':id')
+  @UseGuards(JwtAuthGuard, TaskOrgGuard, OrgRolesGuard, PermissionsGuard)
+  @OrgRoles(OrganizationRole.VIEWER)
+  @RequirePermission(PermissionResource.TASK, PermissionAction.READ)
+  @ApiOperation({ summary: 'Get a task' })
+  @ApiParam({ name: 'id', description: 'Task UUID' })
+  @ApiResponse({ status: 200, description: 'Task retrieved successfully', type: Task })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 403, description: 'Forbidden - User does not have access to this organization' })
+  @ApiResponse({ status: 404, description: 'Task not found' })
+  async findOne(@Param('id') id: string) {
+    return this.tasksService.findOne(id);
+  }
 }
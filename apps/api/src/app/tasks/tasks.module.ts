@@ -1,20 +1,69 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
-import { Task, Organization } from '@task-manager/data';
+import {
+  Task,
+  TaskChecklistItem,
+  TaskAttachment,
+  TaskLink,
+  TaskWatcher,
+  TaskActivity,
+  Worklog,
+  Label,
+  Organization,
+  UserOrganization,
+} from '@task-manager/data';
 import { AuthModule } from '@task-manager/auth';
 import { TasksController } from './tasks.controller';
 import { TasksService } from './tasks.service';
+import { ChecklistController } from './checklist.controller';
+import { ChecklistService } from './checklist.service';
+import { TaskLinksController } from './task-links.controller';
+import { TaskLinksService } from './task-links.service';
+import { TaskWatchersController } from './task-watchers.controller';
+import { TaskWatchersService } from './task-watchers.service';
+import { TaskActivityController } from './task-activity.controller';
+import { TaskActivityService } from './task-activity.service';
 import { TaskOrgGuard } from './guards/task-org.guard';
 import { AuditModule } from '../audit/audit.module';
+import { WorkflowModule } from '../workflow/workflow.module';
+import { CustomFieldsModule } from '../custom-fields/custom-fields.module';
+import { ProjectsModule } from '../projects/projects.module';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([Task, Organization]),
+    TypeOrmModule.forFeature([
+      Task,
+      TaskChecklistItem,
+      TaskAttachment,
+      TaskLink,
+      TaskWatcher,
+      TaskActivity,
+      Worklog,
+      Label,
+      Organization,
+      UserOrganization,
+    ]),
     AuthModule,
     AuditModule,
+    WorkflowModule,
+    CustomFieldsModule,
+    ProjectsModule,
   ],
-  controllers: [TasksController],
-  providers: [TasksService, TaskOrgGuard],
-  exports: [TasksService],
+  controllers: [
+    TasksController,
+    ChecklistController,
+    TaskLinksController,
+    TaskWatchersController,
+    TaskActivityController,
+  ],
+  providers: [
+    TasksService,
+    ChecklistService,
+    TaskLinksService,
+    TaskWatchersService,
+    TaskActivityService,
+    TaskOrgGuard,
+  ],
+  exports: [TasksService, TaskWatchersService],
 })
 export class TasksModule {}
@@ -1,34 +1,103 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { getRepositoryToken } from '@nestjs/typeorm';
-import { NotFoundException } from '@nestjs/common';
-import { Repository } from 'typeorm';
+import {
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { Repository, EntityManager, In } from 'typeorm';
 import { TasksService, CreateTaskDto, UpdateTaskDto } from './tasks.service';
-import { Task, TaskStatus, TaskPriority, Organization } from '@task-manager/data';
+import {
+  Task,
+  TaskStatus,
+  TaskPriority,
+  TaskChecklistItem,
+  TaskAttachment,
+  Label,
+  Organization,
+  User,
+  UserOrganization,
+  Worklog,
+  WorkflowStatus,
+  EstimateUnit,
+  TaskActivityAction,
+  BulkTaskAction,
+  TaskSortField,
+  PermissionResource,
+  PermissionAction,
+} from '@task-manager/data';
+import { PermissionsService, isWithinTokenScope } from '@task-manager/auth';
+import { WorkflowService } from '../workflow/workflow.service';
+import { CustomFieldsService } from '../custom-fields/custom-fields.service';
+import { TaskLinksService } from './task-links.service';
+import { TaskWatchersService } from './task-watchers.service';
+import { TaskActivityService } from './task-activity.service';
+import { ProjectsService } from '../projects/projects.service';
 
 describe('TasksService', () => {
   let service: TasksService;
   let taskRepository: jest.Mocked<Repository<Task>>;
   let organizationRepository: jest.Mocked<Repository<Organization>>;
+  let attachmentRepository: jest.Mocked<Repository<TaskAttachment>>;
+  let labelRepository: jest.Mocked<Repository<Label>>;
+  let userOrgRepository: jest.Mocked<Repository<UserOrganization>>;
+  let taskQueryBuilder: Record<string, jest.Mock>;
+  let worklogQueryBuilder: Record<string, jest.Mock>;
+  let workflowService: jest.Mocked<WorkflowService>;
+  let customFieldsService: jest.Mocked<CustomFieldsService>;
+  let taskLinksService: jest.Mocked<TaskLinksService>;
+  let taskWatchersService: jest.Mocked<TaskWatchersService>;
+  let taskActivityService: jest.Mocked<TaskActivityService>;
+  let projectsService: jest.Mocked<ProjectsService>;
+  let permissionsService: jest.Mocked<PermissionsService>;
 
   const mockTask: Task = {
     id: 'task-uuid-1',
+    key: null,
     title: 'Test Task',
     description: 'Test Description',
     status: TaskStatus.TODO,
+    statusId: null,
+    rank: 'i',
     priority: TaskPriority.MEDIUM,
+    estimate: null,
+    sprintId: null,
+    projectId: null,
+    startDate: null,
+    dueDate: null,
+    parentId: null,
+    customFieldValues: {},
+    recurrenceId: null,
+    occurrenceAt: null,
     organizationId: 'org-uuid-1',
-    assigneeId: 'user-uuid-1',
     createdAt: new Date(),
     updatedAt: new Date(),
     deletedAt: null,
     organization: null as unknown as Organization,
-    assignee: null,
+    workflowStatus: null,
+    recurrence: null,
+    sprint: null,
+    project: null,
+    parent: null,
+    children: [],
+    checklistItems: [],
+    labels: [],
+    assignees: [],
   };
 
+  const membership = (userId: string) =>
+    ({ userId, organizationId: 'org-uuid-1', user: { id: userId } as User }) as UserOrganization;
+
   const mockOrganization: Organization = {
     id: 'org-uuid-1',
     name: 'Test Organization',
     parentId: null,
+    attachmentQuotaMb: null,
+    allowedMimeTypes: null,
+    enforceBlockers: false,
+    estimateUnit: EstimateUnit.POINTS,
+    mfaRequiredRole: null,
+    ssoRequired: false,
     createdAt: new Date(),
     updatedAt: new Date(),
     parent: null,
@@ -38,6 +107,19 @@ describe('TasksService', () => {
   };
 
   beforeEach(async () => {
+    taskQueryBuilder = {
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      select: jest.fn().mockReturnThis(),
+      addSelect: jest.fn().mockReturnThis(),
+      orderBy: jest.fn().mockReturnThis(),
+      addOrderBy: jest.fn().mockReturnThis(),
+      limit: jest.fn().mockReturnThis(),
+      getCount: jest.fn().mockResolvedValue(0),
+      getRawMany: jest.fn().mockResolvedValue([]),
+      getRawOne: jest.fn().mockResolvedValue({ rank: null }),
+    };
+
     const mockTaskRepo = {
       create: jest.fn(),
       save: jest.fn(),
@@ -45,13 +127,73 @@ describe('TasksService', () => {
       find: jest.fn(),
       remove: jest.fn(),
       softRemove: jest.fn(),
+      softDelete: jest.fn(),
       restore: jest.fn(),
+      update: jest.fn(),
+      createQueryBuilder: jest.fn(() => taskQueryBuilder),
+      manager: { transaction: jest.fn() },
     };
 
     const mockOrgRepo = {
       findOne: jest.fn(),
     };
 
+    const mockAttachmentRepo = {
+      softDelete: jest.fn(),
+      restore: jest.fn(),
+    };
+
+    const mockLabelRepo = {
+      find: jest.fn(),
+    };
+
+    const mockUserOrgRepo = {
+      find: jest.fn().mockResolvedValue([]),
+    };
+
+    worklogQueryBuilder = {
+      select: jest.fn().mockReturnThis(),
+      addSelect: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      groupBy: jest.fn().mockReturnThis(),
+      getRawMany: jest.fn().mockResolvedValue([]),
+    };
+
+    const mockWorklogRepo = {
+      createQueryBuilder: jest.fn(() => worklogQueryBuilder),
+    };
+
+    const mockWorkflowService = {
+      resolveForTask: jest.fn().mockResolvedValue(null),
+      assertTransition: jest.fn(),
+    };
+
+    const mockCustomFieldsService = {
+      resolveValues: jest.fn().mockResolvedValue({}),
+      buildFilter: jest.fn(),
+    };
+
+    const mockTaskLinksService = {
+      countOpenBlockers: jest.fn().mockResolvedValue(new Map()),
+    };
+
+    const mockTaskWatchersService = {
+      subscribe: jest.fn(),
+      removeMember: jest.fn(),
+    };
+
+    const mockTaskActivityService = {
+      snapshot: jest.fn().mockReturnValue({}),
+      recordCreated: jest.fn(),
+      recordUpdate: jest.fn(),
+      record: jest.fn(),
+    };
+
+    const mockProjectsService = {
+      nextTaskKey: jest.fn(),
+    };
+
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         TasksService,
@@ -63,14 +205,76 @@ describe('TasksService', () => {
           provide: getRepositoryToken(Organization),
           useValue: mockOrgRepo,
         },
+        {
+          provide: getRepositoryToken(TaskAttachment),
+          useValue: mockAttachmentRepo,
+        },
+        {
+          provide: getRepositoryToken(Label),
+          useValue: mockLabelRepo,
+        },
+        {
+          provide: getRepositoryToken(Worklog),
+          useValue: mockWorklogRepo,
+        },
+        {
+          provide: getRepositoryToken(UserOrganization),
+          useValue: mockUserOrgRepo,
+        },
+        {
+          provide: WorkflowService,
+          useValue: mockWorkflowService,
+        },
+        {
+          provide: CustomFieldsService,
+          useValue: mockCustomFieldsService,
+        },
+        {
+          provide: TaskLinksService,
+          useValue: mockTaskLinksService,
+        },
+        {
+          provide: TaskWatchersService,
+          useValue: mockTaskWatchersService,
+        },
+        {
+          provide: TaskActivityService,
+          useValue: mockTaskActivityService,
+        },
+        {
+          provide: ProjectsService,
+          useValue: mockProjectsService,
+        },
+        {
+          provide: PermissionsService,
+          useValue: { hasPermission: jest.fn().mockResolvedValue(true) },
+        },
       ],
     }).compile();
 
     service = module.get<TasksService>(TasksService);
     taskRepository = module.get(getRepositoryToken(Task));
     organizationRepository = module.get(getRepositoryToken(Organization));
+    attachmentRepository = module.get(getRepositoryToken(TaskAttachment));
+    labelRepository = module.get(getRepositoryToken(Label));
+    userOrgRepository = module.get(getRepositoryToken(UserOrganization));
+    workflowService = module.get(WorkflowService);
+    customFieldsService = module.get(CustomFieldsService);
+    taskLinksService = module.get(TaskLinksService);
+    taskWatchersService = module.get(TaskWatchersService);
+    taskActivityService = module.get(TaskActivityService);
+    projectsService = module.get(ProjectsService);
+    permissionsService = module.get(PermissionsService);
   });
 
+  const reviewStatus = {
+    id: 'status-uuid-review',
+    organizationId: 'org-uuid-1',
+    name: 'Review',
+    category: TaskStatus.IN_PROGRESS,
+    allowedTransitions: null,
+  } as WorkflowStatus;
+
   describe('create', () => {
     it('should create a task successfully', async () => {
       const createDto: CreateTaskDto = {
@@ -92,6 +296,39 @@ describe('TasksService', () => {
       expect(taskRepository.save).toHaveBeenCalled();
     });
 
+    it('should record the creation in the task history', async () => {
+      organizationRepository.findOne.mockResolvedValue(mockOrganization);
+      taskRepository.create.mockReturnValue(mockTask);
+      taskRepository.save.mockResolvedValue(mockTask);
+
+      await service.create(
+        { title: 'New Task', organizationId: 'org-uuid-1' },
+        'user-uuid-1'
+      );
+
+      expect(taskActivityService.recordCreated).toHaveBeenCalledWith(
+        mockTask,
+        'user-uuid-1'
+      );
+    });
+
+    it('should put the new task at the top of its column', async () => {
+      organizationRepository.findOne.mockResolvedValue(mockOrganization);
+      workflowService.resolveForTask.mockResolvedValue(reviewStatus);
+      taskQueryBuilder.getRawOne.mockResolvedValue({ rank: 'i' });
+      taskRepository.create.mockReturnValue(mockTask);
+      taskRepository.save.mockResolvedValue(mockTask);
+
+      await service.create({ title: 'New Task', organizationId: 'org-uuid-1' }, 'user-uuid-1');
+
+      expect(taskQueryBuilder.andWhere).toHaveBeenCalledWith('task.statusId = :statusId', {
+        statusId: reviewStatus.id,
+      });
+      expect(taskRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ statusId: reviewStatus.id, rank: '9' })
+      );
+    });
+
     it('should throw NotFoundException when organization does not exist', async () => {
       const createDto: CreateTaskDto = {
         title: 'New Task',
@@ -105,118 +342,1397 @@ describe('TasksService', () => {
       );
     });
 
-    it('should assign the creating user as assignee by default', async () => {
+    it('should subscribe the creator and the assignees', async () => {
+      organizationRepository.findOne.mockResolvedValue(mockOrganization);
+      userOrgRepository.find.mockResolvedValue([
+        membership('user-uuid-2'),
+        membership('user-uuid-3'),
+      ]);
+      taskRepository.create.mockImplementation((task) => task as Task);
+      taskRepository.save.mockImplementation((task) =>
+        Promise.resolve({ ...(task as Task), id: 'task-uuid-9' })
+      );
+
+      await service.create(
+        {
+          title: 'New Task',
+          organizationId: 'org-uuid-1',
+          assigneeIds: ['user-uuid-2', 'user-uuid-3'],
+        },
+        'user-uuid-1'
+      );
+
+      expect(taskWatchersService.subscribe).toHaveBeenCalledWith('task-uuid-9', [
+        'user-uuid-1',
+        'user-uuid-2',
+        'user-uuid-3',
+      ]);
+    });
+
+    it('should give a task filed under a project the next project key', async () => {
+      organizationRepository.findOne.mockResolvedValue(mockOrganization);
+      projectsService.nextTaskKey.mockResolvedValue('OPS-42');
+      taskRepository.create.mockImplementation((task) => task as Task);
+      taskRepository.save.mockImplementation((task) =>
+        Promise.resolve(task as Task)
+      );
+
+      const result = await service.create(
+        { title: 'New Task', organizationId: 'org-uuid-1', projectId: 'project-uuid-1' },
+        'user-uuid-1'
+      );
+
+      expect(projectsService.nextTaskKey).toHaveBeenCalledWith('org-uuid-1', 'project-uuid-1');
+      expect(result.key).toBe('OPS-42');
+      expect(result.projectId).toBe('project-uuid-1');
+    });
+
+    it('should not take a key for tasks outside of projects', async () => {
+      organizationRepository.findOne.mockResolvedValue(mockOrganization);
+      taskRepository.create.mockImplementation((task) => task as Task);
+      taskRepository.save.mockImplementation((task) =>
+        Promise.resolve(task as Task)
+      );
+
+      const result = await service.create(
+        { title: 'New Task', organizationId: 'org-uuid-1' },
+        'user-uuid-1'
+      );
+
+      expect(projectsService.nextTaskKey).not.toHaveBeenCalled();
+      expect(result.key).toBeNull();
+    });
+
+    it('should persist start and due dates', async () => {
       const createDto: CreateTaskDto = {
         title: 'New Task',
         organizationId: 'org-uuid-1',
+        startDate: '2026-02-01T09:00:00.000Z',
+        dueDate: '2026-02-07T17:00:00.000Z',
       };
-      const createdById = 'user-uuid-creator';
 
       organizationRepository.findOne.mockResolvedValue(mockOrganization);
       taskRepository.create.mockReturnValue(mockTask);
       taskRepository.save.mockResolvedValue(mockTask);
 
-      await service.create(createDto, createdById);
+      await service.create(createDto, 'user-uuid-1');
 
       expect(taskRepository.create).toHaveBeenCalledWith(
         expect.objectContaining({
-          assigneeId: createdById,
+          startDate: new Date('2026-02-01T09:00:00.000Z'),
+          dueDate: new Date('2026-02-07T17:00:00.000Z'),
         })
       );
     });
-  });
 
-  describe('findById', () => {
-    it('should return a task when found', async () => {
+    it('should reject a start date after the due date', async () => {
+      const createDto: CreateTaskDto = {
+        title: 'New Task',
+        organizationId: 'org-uuid-1',
+        startDate: '2026-02-08T00:00:00.000Z',
+        dueDate: '2026-02-07T00:00:00.000Z',
+      };
+
+      organizationRepository.findOne.mockResolvedValue(mockOrganization);
+
+      await expect(service.create(createDto, 'user-uuid-1')).rejects.toThrow(
+        BadRequestException
+      );
+    });
+
+    it('should create a subtask under a parent in the same organization', async () => {
+      const createDto: CreateTaskDto = {
+        title: 'Subtask',
+        organizationId: 'org-uuid-1',
+        parentId: 'task-uuid-1',
+      };
+
+      organizationRepository.findOne.mockResolvedValue(mockOrganization);
       taskRepository.findOne.mockResolvedValue(mockTask);
+      taskRepository.create.mockReturnValue(mockTask);
+      taskRepository.save.mockResolvedValue(mockTask);
 
-      const result = await service.findById('task-uuid-1');
+      await service.create(createDto, 'user-uuid-1');
 
-      expect(result).toEqual(mockTask);
-      expect(taskRepository.findOne).toHaveBeenCalledWith({
-        where: { id: 'task-uuid-1' },
-      });
+      expect(taskRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ parentId: 'task-uuid-1' })
+      );
     });
 
-    it('should return null when task not found', async () => {
-      taskRepository.findOne.mockResolvedValue(null);
+    it('should reject a parent task from another organization', async () => {
+      const createDto: CreateTaskDto = {
+        title: 'Subtask',
+        organizationId: 'org-uuid-1',
+        parentId: 'task-uuid-other',
+      };
 
-      const result = await service.findById('non-existent');
+      organizationRepository.findOne.mockResolvedValue(mockOrganization);
+      taskRepository.findOne.mockResolvedValue({
+        ...mockTask,
+        id: 'task-uuid-other',
+        organizationId: 'org-uuid-2',
+      });
 
-      expect(result).toBeNull();
+      await expect(service.create(createDto, 'user-uuid-1')).rejects.toThrow(
+        BadRequestException
+      );
+      expect(taskRepository.save).not.toHaveBeenCalled();
     });
-  });
 
-  describe('findByOrganization', () => {
-    it('should return tasks for organization', async () => {
-      const tasks = [mockTask];
-      taskRepository.find.mockResolvedValue(tasks);
+    it('should attach labels from the same organization', async () => {
+      const label = { id: 'label-uuid-1', organizationId: 'org-uuid-1' } as Label;
+      const createDto: CreateTaskDto = {
+        title: 'New Task',
+        organizationId: 'org-uuid-1',
+        labelIds: ['label-uuid-1', 'label-uuid-1'],
+      };
 
-      const result = await service.findByOrganization('org-uuid-1');
+      organizationRepository.findOne.mockResolvedValue(mockOrganization);
+      labelRepository.find.mockResolvedValue([label]);
+      taskRepository.create.mockReturnValue(mockTask);
+      taskRepository.save.mockResolvedValue(mockTask);
 
-      expect(result).toEqual(tasks);
-      expect(taskRepository.find).toHaveBeenCalledWith({
-        where: { organizationId: 'org-uuid-1' },
-        order: { createdAt: 'DESC' },
+      await service.create(createDto, 'user-uuid-1');
+
+      expect(labelRepository.find).toHaveBeenCalledWith({
+        where: { id: In(['label-uuid-1']), organizationId: 'org-uuid-1' },
       });
+      expect(taskRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ labels: [label] })
+      );
     });
-  });
 
-  describe('update', () => {
-    it('should update a task successfully', async () => {
-      const updateDto: UpdateTaskDto = {
-        title: 'Updated Title',
-        status: TaskStatus.IN_PROGRESS,
+    it('should reject labels from another organization', async () => {
+      const createDto: CreateTaskDto = {
+        title: 'New Task',
+        organizationId: 'org-uuid-1',
+        labelIds: ['label-uuid-other'],
       };
 
-      const updatedTask = { ...mockTask, ...updateDto };
-      taskRepository.findOne.mockResolvedValue(mockTask);
-      taskRepository.save.mockResolvedValue(updatedTask);
+      organizationRepository.findOne.mockResolvedValue(mockOrganization);
+      labelRepository.find.mockResolvedValue([]);
 
-      const result = await service.update('task-uuid-1', updateDto);
+      await expect(service.create(createDto, 'user-uuid-1')).rejects.toThrow(
+        BadRequestException
+      );
+      expect(taskRepository.save).not.toHaveBeenCalled();
+    });
 
-      expect(result).toEqual(updatedTask);
+    it('should place the task in the resolved workflow status', async () => {
+      const createDto: CreateTaskDto = {
+        title: 'New Task',
+        organizationId: 'org-uuid-1',
+        statusId: reviewStatus.id,
+      };
+
+      organizationRepository.findOne.mockResolvedValue(mockOrganization);
+      workflowService.resolveForTask.mockResolvedValue(reviewStatus);
+      taskRepository.create.mockReturnValue(mockTask);
+      taskRepository.save.mockResolvedValue(mockTask);
+
+      await service.create(createDto, 'user-uuid-1');
+
+      expect(workflowService.resolveForTask).toHaveBeenCalledWith(
+        'org-uuid-1',
+        reviewStatus.id,
+        undefined
+      );
+      expect(taskRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          statusId: reviewStatus.id,
+          status: TaskStatus.IN_PROGRESS,
+        })
+      );
     });
 
-    it('should throw NotFoundException when task does not exist', async () => {
-      taskRepository.findOne.mockResolvedValue(null);
+    it('should store the validated custom field values', async () => {
+      const createDto: CreateTaskDto = {
+        title: 'New Task',
+        organizationId: 'org-uuid-1',
+        customFieldValues: { 'field-uuid-1': ' Acme ' },
+      };
+
+      organizationRepository.findOne.mockResolvedValue(mockOrganization);
+      customFieldsService.resolveValues.mockResolvedValue({
+        'field-uuid-1': 'Acme',
+      });
+      taskRepository.create.mockReturnValue(mockTask);
+      taskRepository.save.mockResolvedValue(mockTask);
+
+      await service.create(createDto, 'user-uuid-1');
+
+      expect(customFieldsService.resolveValues).toHaveBeenCalledWith(
+        'org-uuid-1',
+        { 'field-uuid-1': ' Acme ' },
+        {},
+        true
+      );
+      expect(taskRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          customFieldValues: { 'field-uuid-1': 'Acme' },
+        })
+      );
+    });
+
+    it('should not save a task with invalid custom field values', async () => {
+      organizationRepository.findOne.mockResolvedValue(mockOrganization);
+      customFieldsService.resolveValues.mockRejectedValue(
+        new BadRequestException('Custom field "Customer" is required')
+      );
 
       await expect(
-        service.update('non-existent', { title: 'Test' })
-      ).rejects.toThrow(NotFoundException);
+        service.create(
+          { title: 'New Task', organizationId: 'org-uuid-1' },
+          'user-uuid-1'
+        )
+      ).rejects.toThrow(BadRequestException);
+      expect(taskRepository.save).not.toHaveBeenCalled();
     });
 
-    it('should only update status when only status is provided', async () => {
-      const updateDto: UpdateTaskDto = {
-        status: TaskStatus.DONE,
+    it('should assign the creating user as assignee by default', async () => {
+      const createDto: CreateTaskDto = {
+        title: 'New Task',
+        organizationId: 'org-uuid-1',
       };
+      const createdById = 'user-uuid-creator';
 
-      taskRepository.findOne.mockResolvedValue({ ...mockTask });
-      taskRepository.save.mockImplementation((task) =>
-        Promise.resolve(task as Task)
-      );
+      organizationRepository.findOne.mockResolvedValue(mockOrganization);
+      userOrgRepository.find.mockResolvedValue([membership(createdById)]);
+      taskRepository.create.mockReturnValue(mockTask);
+      taskRepository.save.mockResolvedValue(mockTask);
 
-      const result = await service.update('task-uuid-1', updateDto);
+      await service.create(createDto, createdById);
 
-      expect(result.status).toBe(TaskStatus.DONE);
-      expect(result.title).toBe(mockTask.title); // unchanged
+      expect(userOrgRepository.find).toHaveBeenCalledWith({
+        where: { userId: In([createdById]), organizationId: 'org-uuid-1' },
+        relations: { user: true },
+      });
+      expect(taskRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          assignees: [{ id: createdById }],
+        })
+      );
     });
-  });
 
-  describe('delete', () => {
-    it('should delete a task successfully', async () => {
-      taskRepository.findOne.mockResolvedValue(mockTask);
-      taskRepository.remove.mockResolvedValue(mockTask);
+    it('should leave the task unassigned when the creator is not a member', async () => {
+      organizationRepository.findOne.mockResolvedValue(mockOrganization);
+      taskRepository.create.mockReturnValue(mockTask);
+      taskRepository.save.mockResolvedValue(mockTask);
 
-      await service.delete('task-uuid-1');
+      await service.create(
+        { title: 'New Task', organizationId: 'org-uuid-1' },
+        'user-uuid-outsider'
+      );
 
-      expect(taskRepository.remove).toHaveBeenCalledWith(mockTask);
+      expect(taskRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ assignees: [] })
+      );
     });
 
-    it('should throw NotFoundException when task does not exist', async () => {
-      taskRepository.findOne.mockResolvedValue(null);
+    it('should reject assignees who are not members of the organization', async () => {
+      organizationRepository.findOne.mockResolvedValue(mockOrganization);
+      userOrgRepository.find.mockResolvedValue([membership('user-uuid-2')]);
 
-      await expect(service.delete('non-existent')).rejects.toThrow(
+      await expect(
+        service.create(
+          {
+            title: 'New Task',
+            organizationId: 'org-uuid-1',
+            assigneeIds: ['user-uuid-2', 'user-uuid-outsider'],
+          },
+          'user-uuid-1'
+        )
+      ).rejects.toThrow(BadRequestException);
+      expect(taskRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findById', () => {
+    it('should return a task when found', async () => {
+      taskRepository.findOne.mockResolvedValue(mockTask);
+
+      const result = await service.findById('task-uuid-1');
+
+      expect(result).toEqual(mockTask);
+      expect(taskRepository.findOne).toHaveBeenCalledWith({
+        where: { id: 'task-uuid-1' },
+      });
+    });
+
+    it('should return null when task not found', async () => {
+      taskRepository.findOne.mockResolvedValue(null);
+
+      const result = await service.findById('non-existent');
+
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('findOne', () => {
+    it('should return the task with its card details', async () => {
+      taskRepository.find.mockResolvedValue([{ ...mockTask, checklistItems: [] }]);
+      taskLinksService.countOpenBlockers.mockResolvedValue(
+        new Map([['task-uuid-1', 2]])
+      );
+
+      const result = await service.findOne('task-uuid-1');
+
+      expect(result).toMatchObject({
+        id: 'task-uuid-1',
+        checklistProgress: { done: 0, total: 0 },
+        openBlockerCount: 2,
+        timeSpentSeconds: 0,
+      });
+    });
+
+    it('should throw NotFoundException when task not found', async () => {
+      taskRepository.find.mockResolvedValue([]);
+
+      await expect(service.findOne('non-existent')).rejects.toThrow(
+        NotFoundException
+      );
+    });
+  });
+
+  describe('findByOrganization', () => {
+    // Rows of the ID query, in page order
+    const pageRows = (...ids: string[]) =>
+      taskQueryBuilder.getRawMany.mockResolvedValue(
+        ids.map((id, i) => ({ id, sortValue: `2026-02-10 09:30:00.12345${i}` }))
+      );
+
+    it('should return a page of tasks for organization', async () => {
+      pageRows('task-uuid-1');
+      taskQueryBuilder.getCount.mockResolvedValue(1);
+      taskRepository.find.mockResolvedValue([mockTask]);
+
+      const result = await service.findByOrganization('org-uuid-1');
+
+      expect(result).toEqual({ data: [mockTask], total: 1, nextCursor: null });
+      expect(taskQueryBuilder.where).toHaveBeenCalledWith(
+        'task.organizationId = :organizationId',
+        { organizationId: 'org-uuid-1' }
+      );
+      expect(taskQueryBuilder.orderBy).toHaveBeenCalledWith(
+        'task.createdAt',
+        'DESC',
+        'NULLS LAST'
+      );
+      expect(taskQueryBuilder.addOrderBy).toHaveBeenCalledWith('task.id', 'DESC');
+      expect(taskQueryBuilder.limit).toHaveBeenCalledWith(51);
+      expect(taskRepository.find).toHaveBeenCalledWith({
+        where: { id: In(['task-uuid-1']) },
+        relations: { checklistItems: true, labels: true, assignees: true },
+        order: {
+          checklistItems: { position: 'ASC' },
+          labels: { name: 'ASC' },
+          assignees: { email: 'ASC' },
+        },
+      });
+    });
+
+    it('should keep the order of the page', async () => {
+      pageRows('task-uuid-2', 'task-uuid-1');
+      taskRepository.find.mockResolvedValue([
+        { ...mockTask },
+        { ...mockTask, id: 'task-uuid-2' },
+      ]);
+
+      const { data } = await service.findByOrganization('org-uuid-1');
+
+      expect(data.map((task) => task.id)).toEqual(['task-uuid-2', 'task-uuid-1']);
+    });
+
+    it('should filter by custom field values with JSONB containment', async () => {
+      customFieldsService.buildFilter.mockResolvedValue({
+        'field-uuid-1': ['Urgent'],
+      });
+
+      await service.findByOrganization('org-uuid-1', {
+        customFields: { 'field-uuid-1': 'Urgent' },
+      });
+
+      expect(customFieldsService.buildFilter).toHaveBeenCalledWith(
+        'org-uuid-1',
+        { 'field-uuid-1': 'Urgent' }
+      );
+      expect(taskQueryBuilder.andWhere).toHaveBeenCalledWith(
+        'task.customFieldValues @> CAST(:customFields AS jsonb)',
+        { customFields: '{"field-uuid-1":["Urgent"]}' }
+      );
+    });
+
+    it('should include checklist progress on each task', async () => {
+      const item = {
+        id: 'item-uuid-1',
+        taskId: 'task-uuid-1',
+        title: 'Item',
+        isDone: false,
+        position: 0,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      } as TaskChecklistItem;
+      pageRows('task-uuid-1');
+      taskRepository.find.mockResolvedValue([
+        {
+          ...mockTask,
+          checklistItems: [
+            { ...item, isDone: true },
+            { ...item, id: 'item-uuid-2', isDone: true },
+            { ...item, id: 'item-uuid-3' },
+          ],
+        } as Task,
+      ]);
+
+      const {
+        data: [result],
+      } = await service.findByOrganization('org-uuid-1');
+
+      expect(result.checklistProgress).toEqual({ done: 2, total: 3 });
+    });
+
+    it('should include the number of open blockers', async () => {
+      pageRows('task-uuid-1', 'task-uuid-2');
+      taskRepository.find.mockResolvedValue([
+        { ...mockTask },
+        { ...mockTask, id: 'task-uuid-2' },
+      ]);
+      taskLinksService.countOpenBlockers.mockResolvedValue(
+        new Map([['task-uuid-2', 2]])
+      );
+
+      const { data } = await service.findByOrganization('org-uuid-1');
+
+      expect(taskLinksService.countOpenBlockers).toHaveBeenCalledWith([
+        'task-uuid-1',
+        'task-uuid-2',
+      ]);
+      expect(data.map((task) => task.openBlockerCount)).toEqual([0, 2]);
+    });
+
+    it('should include the time logged on each task', async () => {
+      pageRows('task-uuid-1', 'task-uuid-2');
+      taskRepository.find.mockResolvedValue([
+        { ...mockTask },
+        { ...mockTask, id: 'task-uuid-2' },
+      ]);
+      worklogQueryBuilder.getRawMany.mockResolvedValue([
+        { taskId: 'task-uuid-1', seconds: '5400' },
+      ]);
+
+      const { data } = await service.findByOrganization('org-uuid-1');
+
+      expect(data.map((task) => task.timeSpentSeconds)).toEqual([5400, 0]);
+    });
+
+    it('should apply a due date range filter', async () => {
+      const dueAfter = new Date('2026-02-01T00:00:00.000Z');
+      const dueBefore = new Date('2026-02-28T00:00:00.000Z');
+
+      await service.findByOrganization('org-uuid-1', { dueAfter, dueBefore });
+
+      expect(taskQueryBuilder.andWhere).toHaveBeenCalledWith('task.dueDate <= :dueBefore', {
+        dueBefore,
+      });
+      expect(taskQueryBuilder.andWhere).toHaveBeenCalledWith('task.dueDate >= :dueAfter', {
+        dueAfter,
+      });
+      expect(taskQueryBuilder.andWhere).not.toHaveBeenCalledWith(
+        'task.status != :done',
+        expect.anything()
+      );
+    });
+
+    it('should scope tasks to a project', async () => {
+      await service.findByOrganization('org-uuid-1', { projectId: 'project-uuid-1' });
+
+      expect(taskQueryBuilder.andWhere).toHaveBeenCalledWith('task.projectId = :projectId', {
+        projectId: 'project-uuid-1',
+      });
+    });
+
+    it('should exclude DONE tasks when filtering overdue', async () => {
+      await service.findByOrganization('org-uuid-1', { overdue: true });
+
+      expect(taskQueryBuilder.andWhere).toHaveBeenCalledWith('task.dueDate < :now', {
+        now: expect.any(Date),
+      });
+      expect(taskQueryBuilder.andWhere).toHaveBeenCalledWith('task.status != :done', {
+        done: TaskStatus.DONE,
+      });
+    });
+
+    it('should match any of the given statuses, priorities and labels', async () => {
+      await service.findByOrganization('org-uuid-1', {
+        statusIds: ['status-uuid-1', 'status-uuid-2'],
+        priorities: [TaskPriority.URGENT],
+        labelIds: ['label-uuid-1'],
+      });
+
+      expect(taskQueryBuilder.andWhere).toHaveBeenCalledWith(
+        'task.statusId IN (:...statusIds)',
+        { statusIds: ['status-uuid-1', 'status-uuid-2'] }
+      );
+      expect(taskQueryBuilder.andWhere).toHaveBeenCalledWith(
+        'task.priority IN (:...priorities)',
+        { priorities: [TaskPriority.URGENT] }
+      );
+      expect(taskQueryBuilder.andWhere).toHaveBeenCalledWith(
+        expect.stringContaining('FROM task_labels'),
+        { labelIds: ['label-uuid-1'] }
+      );
+    });
+
+    it('should search with LIKE wildcards in the text escaped', async () => {
+      await service.findByOrganization('org-uuid-1', { search: ' 100%_done ' });
+
+      expect(taskQueryBuilder.andWhere).toHaveBeenCalledWith(expect.anything(), {
+        search: '%100\\%\\_done%',
+      });
+    });
+
+    it('should return a cursor when there are more tasks', async () => {
+      pageRows('task-uuid-1', 'task-uuid-2', 'task-uuid-3');
+      taskQueryBuilder.getCount.mockResolvedValue(3);
+      taskRepository.find.mockResolvedValue([
+        { ...mockTask },
+        { ...mockTask, id: 'task-uuid-2' },
+      ]);
+
+      const result = await service.findByOrganization('org-uuid-1', {}, { limit: 2 });
+
+      expect(result.data).toHaveLength(2);
+      expect(result.total).toBe(3);
+      expect(result.nextCursor).toEqual(expect.any(String));
+
+      // The next page continues after the last task of this one
+      taskQueryBuilder.andWhere.mockClear();
+      await service.findByOrganization(
+        'org-uuid-1',
+        {},
+        { limit: 2, cursor: result.nextCursor as string }
+      );
+
+      expect(taskQueryBuilder.andWhere).toHaveBeenCalledWith(expect.anything(), {
+        cursorValue: '2026-02-10 09:30:00.123451',
+        cursorId: 'task-uuid-2',
+      });
+    });
+
+    it('should reject a cursor made for a different sort', async () => {
+      pageRows('task-uuid-1', 'task-uuid-2');
+      taskRepository.find.mockResolvedValue([{ ...mockTask }]);
+      const { nextCursor } = await service.findByOrganization('org-uuid-1', {}, { limit: 1 });
+
+      await expect(
+        service.findByOrganization(
+          'org-uuid-1',
+          {},
+          { sortBy: TaskSortField.TITLE, cursor: nextCursor as string }
+        )
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject a malformed cursor', async () => {
+      await expect(
+        service.findByOrganization('org-uuid-1', {}, { cursor: 'bm90LWpzb24' })
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should sort manually by rank, top of the column first', async () => {
+      await service.findByOrganization('org-uuid-1', {}, { sortBy: TaskSortField.MANUAL });
+
+      expect(taskQueryBuilder.orderBy).toHaveBeenCalledWith('task.rank', 'ASC', 'NULLS LAST');
+    });
+  });
+
+  describe('update', () => {
+    it('should update a task successfully', async () => {
+      const updateDto: UpdateTaskDto = {
+        title: 'Updated Title',
+        status: TaskStatus.IN_PROGRESS,
+      };
+
+      const updatedTask = { ...mockTask, ...updateDto } as Task;
+      taskRepository.findOne.mockResolvedValue(mockTask);
+      taskRepository.save.mockResolvedValue(updatedTask);
+
+      const result = await service.update('task-uuid-1', updateDto);
+
+      expect(result).toEqual(updatedTask);
+    });
+
+    it('should throw NotFoundException when task does not exist', async () => {
+      taskRepository.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.update('non-existent', { title: 'Test' })
+      ).rejects.toThrow(NotFoundException);
+    });
+
+    it('should record the changes against the state before the update', async () => {
+      const before = { title: 'Test Task' };
+      taskActivityService.snapshot.mockReturnValueOnce(before);
+      taskRepository.findOne.mockResolvedValue({ ...mockTask });
+      taskRepository.save.mockImplementation((task) =>
+        Promise.resolve(task as Task)
+      );
+
+      const result = await service.update(
+        'task-uuid-1',
+        { title: 'Renamed' },
+        'user-uuid-1'
+      );
+
+      expect(taskActivityService.recordUpdate).toHaveBeenCalledWith(
+        before,
+        result,
+        'user-uuid-1',
+        undefined
+      );
+    });
+
+    it('should put a task moved to another status at the top of that column', async () => {
+      taskRepository.findOne.mockResolvedValue({ ...mockTask, rank: '5' });
+      workflowService.resolveForTask.mockResolvedValue(reviewStatus);
+      taskQueryBuilder.getRawOne.mockResolvedValue({ rank: '1' });
+      taskRepository.save.mockImplementation((task) => Promise.resolve(task as Task));
+
+      const result = await service.update('task-uuid-1', { statusId: reviewStatus.id });
+
+      expect(result.statusId).toBe(reviewStatus.id);
+      expect(result.rank).toBe('0i');
+    });
+
+    it('should not record anything when the update is rejected', async () => {
+      taskRepository.findOne.mockResolvedValue({ ...mockTask });
+      workflowService.resolveForTask.mockResolvedValue(reviewStatus);
+      workflowService.assertTransition.mockRejectedValue(new BadRequestException());
+
+      await expect(
+        service.update('task-uuid-1', { statusId: reviewStatus.id }, 'user-uuid-1')
+      ).rejects.toThrow(BadRequestException);
+      expect(taskActivityService.recordUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should replace labels and allow clearing them', async () => {
+      taskRepository.findOne.mockResolvedValue({
+        ...mockTask,
+        labels: [{ id: 'label-uuid-1' } as Label],
+      });
+      taskRepository.save.mockImplementation((task) =>
+        Promise.resolve(task as Task)
+      );
+
+      const result = await service.update('task-uuid-1', { labelIds: [] });
+
+      expect(result.labels).toEqual([]);
+      expect(labelRepository.find).not.toHaveBeenCalled();
+    });
+
+    it('should replace the assignees and subscribe them', async () => {
+      taskRepository.findOne.mockResolvedValue({ ...mockTask });
+      userOrgRepository.find.mockResolvedValue([membership('user-uuid-2')]);
+      taskRepository.save.mockImplementation((task) =>
+        Promise.resolve(task as Task)
+      );
+
+      const result = await service.update('task-uuid-1', { assigneeIds: ['user-uuid-2'] });
+      expect(result.assignees).toEqual([{ id: 'user-uuid-2' }]);
+      expect(taskWatchersService.subscribe).toHaveBeenCalledWith(
+        'task-uuid-1',
+        ['user-uuid-2'],
+        undefined
+      );
+    });
+
+    it('should not resubscribe assignees that were already assigned', async () => {
+      taskRepository.findOne.mockResolvedValue({
+        ...mockTask,
+        assignees: [{ id: 'user-uuid-1' } as User],
+      });
+      userOrgRepository.find.mockResolvedValue([
+        membership('user-uuid-1'),
+        membership('user-uuid-2'),
+      ]);
+      taskRepository.save.mockImplementation((task) =>
+        Promise.resolve(task as Task)
+      );
+
+      await service.update('task-uuid-1', { assigneeIds: ['user-uuid-1', 'user-uuid-2'] });
+
+      expect(taskWatchersService.subscribe).toHaveBeenCalledWith(
+        'task-uuid-1',
+        ['user-uuid-2'],
+        undefined
+      );
+    });
+
+    it('should unassign everyone with an empty list', async () => {
+      taskRepository.findOne.mockResolvedValue({
+        ...mockTask,
+        assignees: [{ id: 'user-uuid-1' } as User],
+      });
+      taskRepository.save.mockImplementation((task) =>
+        Promise.resolve(task as Task)
+      );
+
+      const result = await service.update('task-uuid-1', { assigneeIds: [] });
+
+      expect(result.assignees).toEqual([]);
+      expect(userOrgRepository.find).not.toHaveBeenCalled();
+    });
+
+    it('should set and clear the estimate', async () => {
+      taskRepository.findOne.mockImplementation(() =>
+        Promise.resolve({ ...mockTask, estimate: 5 })
+      );
+      taskRepository.save.mockImplementation((task) =>
+        Promise.resolve(task as Task)
+      );
+
+      const cleared = await service.update('task-uuid-1', { estimate: null });
+      expect(cleared.estimate).toBeNull();
+
+      const unchanged = await service.update('task-uuid-1', { title: 'Renamed' });
+      expect(unchanged.estimate).toBe(5);
+    });
+
+    it('should give a task moved to another project a key in that project', async () => {
+      taskRepository.findOne.mockImplementation(() =>
+        Promise.resolve({ ...mockTask, projectId: 'project-uuid-1', key: 'OPS-7' })
+      );
+      taskRepository.save.mockImplementation((task) =>
+        Promise.resolve(task as Task)
+      );
+      projectsService.nextTaskKey.mockResolvedValue('WEB-3');
+
+      const moved = await service.update('task-uuid-1', { projectId: 'project-uuid-2' });
+      expect(moved.key).toBe('WEB-3');
+      expect(moved.projectId).toBe('project-uuid-2');
+
+      const same = await service.update('task-uuid-1', { projectId: 'project-uuid-1' });
+      expect(same.key).toBe('OPS-7');
+      expect(projectsService.nextTaskKey).toHaveBeenCalledTimes(1);
+
+      const removed = await service.update('task-uuid-1', { projectId: null });
+      expect(removed.key).toBeNull();
+      expect(removed.projectId).toBeNull();
+    });
+
+    it('should only update status when only status is provided', async () => {
+      const updateDto: UpdateTaskDto = {
+        status: TaskStatus.DONE,
+      };
+
+      taskRepository.findOne.mockResolvedValue({ ...mockTask });
+      taskRepository.save.mockImplementation((task) =>
+        Promise.resolve(task as Task)
+      );
+
+      const result = await service.update('task-uuid-1', updateDto);
+
+      expect(result.status).toBe(TaskStatus.DONE);
+      expect(result.title).toBe(mockTask.title); // unchanged
+    });
+
+    it('should move the task to a workflow status and sync its category', async () => {
+      taskRepository.findOne.mockResolvedValue({
+        ...mockTask,
+        statusId: 'status-uuid-todo',
+      });
+      taskRepository.save.mockImplementation((task) =>
+        Promise.resolve(task as Task)
+      );
+      workflowService.resolveForTask.mockResolvedValue(reviewStatus);
+
+      const result = await service.update('task-uuid-1', {
+        statusId: reviewStatus.id,
+      });
+
+      expect(workflowService.assertTransition).toHaveBeenCalledWith(
+        'status-uuid-todo',
+        reviewStatus
+      );
+      expect(result.statusId).toBe(reviewStatus.id);
+      expect(result.status).toBe(TaskStatus.IN_PROGRESS);
+    });
+
+    it('should not save a move the workflow does not allow', async () => {
+      taskRepository.findOne.mockResolvedValue({
+        ...mockTask,
+        statusId: 'status-uuid-todo',
+      });
+      workflowService.resolveForTask.mockResolvedValue(reviewStatus);
+      workflowService.assertTransition.mockRejectedValue(
+        new BadRequestException('Tasks cannot move from "To Do" to "Review"')
+      );
+
+      await expect(
+        service.update('task-uuid-1', { statusId: reviewStatus.id })
+      ).rejects.toThrow(BadRequestException);
+      expect(taskRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should refuse starting a blocked task when the organization enforces blockers', async () => {
+      taskRepository.findOne.mockResolvedValue({
+        ...mockTask,
+        status: TaskStatus.TODO,
+      });
+      organizationRepository.findOne.mockResolvedValue({
+        ...mockOrganization,
+        enforceBlockers: true,
+      });
+      taskLinksService.countOpenBlockers.mockResolvedValue(
+        new Map([['task-uuid-1', 1]])
+      );
+
+      await expect(
+        service.update('task-uuid-1', { status: TaskStatus.IN_PROGRESS })
+      ).rejects.toThrow('This task is blocked by 1 open task(s)');
+      expect(taskRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should let blocked tasks start when the organization does not enforce blockers', async () => {
+      taskRepository.findOne.mockResolvedValue({
+        ...mockTask,
+        status: TaskStatus.TODO,
+      });
+      taskRepository.save.mockImplementation((task) =>
+        Promise.resolve(task as Task)
+      );
+      organizationRepository.findOne.mockResolvedValue(mockOrganization);
+      taskLinksService.countOpenBlockers.mockResolvedValue(
+        new Map([['task-uuid-1', 1]])
+      );
+
+      const result = await service.update('task-uuid-1', {
+        status: TaskStatus.IN_PROGRESS,
+      });
+
+      expect(result.status).toBe(TaskStatus.IN_PROGRESS);
+    });
+
+    it('should merge custom field changes into the current values', async () => {
+      taskRepository.findOne.mockResolvedValue({
+        ...mockTask,
+        customFieldValues: { 'field-uuid-1': 'Acme' },
+      });
+      taskRepository.save.mockImplementation((task) =>
+        Promise.resolve(task as Task)
+      );
+      customFieldsService.resolveValues.mockResolvedValue({
+        'field-uuid-1': 'Acme',
+        'field-uuid-2': 5,
+      });
+
+      const result = await service.update('task-uuid-1', {
+        customFieldValues: { 'field-uuid-2': 5 },
+      });
+
+      expect(customFieldsService.resolveValues).toHaveBeenCalledWith(
+        'org-uuid-1',
+        { 'field-uuid-2': 5 },
+        { 'field-uuid-1': 'Acme' }
+      );
+      expect(result.customFieldValues).toEqual({
+        'field-uuid-1': 'Acme',
+        'field-uuid-2': 5,
+      });
+    });
+
+    it('should leave custom field values alone when not provided', async () => {
+      taskRepository.findOne.mockResolvedValue({ ...mockTask });
+      taskRepository.save.mockImplementation((task) =>
+        Promise.resolve(task as Task)
+      );
+
+      await service.update('task-uuid-1', { title: 'Renamed' });
+
+      expect(customFieldsService.resolveValues).not.toHaveBeenCalled();
+    });
+
+    it('should leave the workflow status alone when the category is unchanged', async () => {
+      taskRepository.findOne.mockResolvedValue({
+        ...mockTask,
+        status: TaskStatus.TODO,
+      });
+      taskRepository.save.mockImplementation((task) =>
+        Promise.resolve(task as Task)
+      );
+
+      await service.update('task-uuid-1', { status: TaskStatus.TODO });
+
+      expect(workflowService.resolveForTask).not.toHaveBeenCalled();
+    });
+
+    it('should clear the due date when null is provided', async () => {
+      taskRepository.findOne.mockResolvedValue({
+        ...mockTask,
+        dueDate: new Date('2026-02-07T00:00:00.000Z'),
+      });
+      taskRepository.save.mockImplementation((task) =>
+        Promise.resolve(task as Task)
+      );
+
+      const result = await service.update('task-uuid-1', { dueDate: null });
+
+      expect(result.dueDate).toBeNull();
+    });
+
+    it('should reject making a task a subtask of its own subtask', async () => {
+      const child = {
+        ...mockTask,
+        id: 'task-uuid-2',
+        parentId: 'task-uuid-1',
+      };
+      taskRepository.findOne.mockImplementation((options) => {
+        const id = (options.where as { id: string }).id;
+        return Promise.resolve(id === 'task-uuid-1' ? { ...mockTask } : child);
+      });
+
+      await expect(
+        service.update('task-uuid-1', { parentId: 'task-uuid-2' })
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject a due date before the existing start date', async () => {
+      taskRepository.findOne.mockResolvedValue({
+        ...mockTask,
+        startDate: new Date('2026-02-07T00:00:00.000Z'),
+      });
+
+      await expect(
+        service.update('task-uuid-1', { dueDate: '2026-02-01T00:00:00.000Z' })
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('delete', () => {
+    it('should soft delete a task successfully', async () => {
+      taskRepository.findOne.mockResolvedValue(mockTask);
+      taskRepository.find.mockResolvedValue([]);
+
+      await service.delete('task-uuid-1');
+
+      expect(taskRepository.softDelete).toHaveBeenCalledWith(['task-uuid-1']);
+    });
+
+    it('should soft delete the attachments of deleted tasks', async () => {
+      taskRepository.findOne.mockResolvedValue(mockTask);
+      taskRepository.find.mockResolvedValue([]);
+
+      await service.delete('task-uuid-1');
+
+      expect(attachmentRepository.softDelete).toHaveBeenCalledWith({
+        taskId: In(['task-uuid-1']),
+      });
+    });
+
+    it('should soft delete subtasks along with their parent', async () => {
+      taskRepository.findOne.mockResolvedValue(mockTask);
+      taskRepository.find
+        .mockResolvedValueOnce([
+          { ...mockTask, id: 'task-uuid-2', parentId: 'task-uuid-1' },
+        ])
+        .mockResolvedValueOnce([
+          { ...mockTask, id: 'task-uuid-3', parentId: 'task-uuid-2' },
+        ])
+        .mockResolvedValueOnce([]);
+
+      await service.delete('task-uuid-1');
+
+      expect(taskRepository.softDelete).toHaveBeenCalledWith([
+        'task-uuid-1',
+        'task-uuid-2',
+        'task-uuid-3',
+      ]);
+    });
+
+    it('should record the deletion of every task in the subtree', async () => {
+      taskRepository.findOne.mockResolvedValue(mockTask);
+      taskRepository.find
+        .mockResolvedValueOnce([
+          { ...mockTask, id: 'task-uuid-2', parentId: 'task-uuid-1' },
+        ])
+        .mockResolvedValueOnce([]);
+
+      await service.delete('task-uuid-1', 'user-uuid-1');
+
+      expect(taskActivityService.record).toHaveBeenCalledWith(
+        ['task-uuid-1', 'task-uuid-2'],
+        'user-uuid-1',
+        TaskActivityAction.DELETED,
+        [],
+        undefined
+      );
+    });
+
+    it('should throw NotFoundException when task does not exist', async () => {
+      taskRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.delete('non-existent')).rejects.toThrow(
+        NotFoundException
+      );
+    });
+  });
+
+  describe('removeMember', () => {
+    it('should unassign the user from the organization\'s tasks and unsubscribe them', async () => {
+      const deleteQueryBuilder = {
+        delete: jest.fn().mockReturnThis(),
+        from: jest.fn().mockReturnThis(),
+        where: jest.fn().mockReturnThis(),
+        andWhere: jest.fn().mockReturnThis(),
+        execute: jest.fn(),
+      };
+      const manager = {
+        createQueryBuilder: jest.fn(() => deleteQueryBuilder),
+      } as unknown as EntityManager;
+
+      await service.removeMember('org-uuid-1', 'user-uuid-2', manager);
+
+      expect(deleteQueryBuilder.from).toHaveBeenCalledWith('task_assignees');
+      expect(deleteQueryBuilder.where).toHaveBeenCalledWith('user_id = :userId', {
+        userId: 'user-uuid-2',
+      });
+      expect(deleteQueryBuilder.andWhere).toHaveBeenCalledWith(expect.any(String), {
+        organizationId: 'org-uuid-1',
+      });
+      expect(deleteQueryBuilder.execute).toHaveBeenCalled();
+      expect(taskWatchersService.removeMember).toHaveBeenCalledWith(
+        'org-uuid-1',
+        'user-uuid-2',
+        manager
+      );
+    });
+  });
+
+  describe('move', () => {
+    let manager: { getRepository: jest.Mock };
+
+    const columnTask = (id: string, rank: string, statusId = 'status-uuid-todo') =>
+      ({ ...mockTask, id, rank, statusId }) as Task;
+
+    beforeEach(() => {
+      manager = { getRepository: jest.fn(() => taskRepository) };
+      (taskRepository.manager.transaction as jest.Mock).mockImplementation((run) =>
+        run(manager)
+      );
+      taskRepository.find.mockResolvedValue([columnTask('task-uuid-1', 'a')]);
+    });
+
+    it('should place the task between the target and the task before it', async () => {
+      taskRepository.findOne
+        .mockResolvedValueOnce(columnTask('task-uuid-1', 'x'))
+        .mockResolvedValueOnce(columnTask('task-uuid-2', 'c'));
+      taskQueryBuilder.getRawOne.mockResolvedValue({ rank: 'a' });
+      const update = jest.spyOn(service, 'update');
+
+      await service.move('task-uuid-1', { beforeTaskId: 'task-uuid-2' }, 'user-uuid-1');
+
+      expect(taskQueryBuilder.andWhere).toHaveBeenCalledWith('task.rank < :rank', { rank: 'c' });
+      expect(taskQueryBuilder.andWhere).toHaveBeenCalledWith('task.id != :excludeId', {
+        excludeId: 'task-uuid-1',
+      });
+      expect(taskRepository.update).toHaveBeenCalledWith('task-uuid-1', { rank: 'b' });
+      expect(update).not.toHaveBeenCalled();
+    });
+
+    it('should re-rank the column when two tasks share a rank', async () => {
+      taskRepository.findOne
+        .mockResolvedValueOnce(columnTask('task-uuid-1', 'x'))
+        .mockResolvedValueOnce(columnTask('task-uuid-2', 'c'));
+      taskRepository.find.mockResolvedValueOnce([
+        columnTask('task-uuid-3', 'c'),
+        columnTask('task-uuid-2', 'c'),
+      ]);
+      taskQueryBuilder.getRawOne
+        .mockResolvedValueOnce({ rank: 'c' })
+        .mockResolvedValueOnce({ rank: '0000000001' });
+
+      await service.move('task-uuid-1', { beforeTaskId: 'task-uuid-2' });
+
+      expect(taskRepository.find).toHaveBeenCalledWith(
+        expect.objectContaining({ order: { rank: 'ASC', id: 'ASC' } })
+      );
+      expect(taskRepository.update).toHaveBeenCalledWith('task-uuid-3', { rank: '0000000001' });
+      expect(taskRepository.update).toHaveBeenCalledWith('task-uuid-2', { rank: '0000000002' });
+      expect(taskRepository.update).toHaveBeenLastCalledWith('task-uuid-1', {
+        rank: '0000000001i',
+      });
+    });
+
+    it('should place the task after the last task of a column', async () => {
+      taskRepository.findOne
+        .mockResolvedValueOnce(columnTask('task-uuid-1', 'a'))
+        .mockResolvedValueOnce(columnTask('task-uuid-2', 'z'));
+      taskQueryBuilder.getRawOne.mockResolvedValue(undefined);
+
+      await service.move('task-uuid-1', { afterTaskId: 'task-uuid-2' });
+
+      expect(taskQueryBuilder.orderBy).toHaveBeenCalledWith('task.rank', 'ASC');
+      expect(taskRepository.update).toHaveBeenCalledWith('task-uuid-1', { rank: 'zi' });
+    });
+
+    it('should change the status when moving next to a task of another column', async () => {
+      taskRepository.findOne
+        .mockResolvedValueOnce(columnTask('task-uuid-1', 'a'))
+        .mockResolvedValueOnce(columnTask('task-uuid-2', 'i', reviewStatus.id));
+      const update = jest.spyOn(service, 'update').mockResolvedValue(mockTask);
+
+      await service.move('task-uuid-1', { beforeTaskId: 'task-uuid-2' }, 'user-uuid-1');
+
+      expect(update).toHaveBeenCalledWith(
+        'task-uuid-1',
+        { statusId: reviewStatus.id },
+        'user-uuid-1',
+        manager
+      );
+      expect(taskRepository.update).toHaveBeenCalledWith('task-uuid-1', { rank: '9' });
+    });
+
+    it('should move the task to the top of an empty column', async () => {
+      taskRepository.findOne.mockResolvedValueOnce(columnTask('task-uuid-1', 'a'));
+      jest.spyOn(service, 'update').mockResolvedValue(mockTask);
+
+      await service.move('task-uuid-1', { statusId: reviewStatus.id });
+
+      expect(taskRepository.update).toHaveBeenCalledWith('task-uuid-1', { rank: 'i' });
+    });
+
+    it.each([
+      [{}],
+      [{ beforeTaskId: 'task-uuid-2', afterTaskId: 'task-uuid-3' }],
+      [{ beforeTaskId: 'task-uuid-1' }],
+    ])('should reject an invalid position %j', async (dto) => {
+      await expect(service.move('task-uuid-1', dto)).rejects.toThrow(BadRequestException);
+      expect(taskRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject a neighbour from another organization', async () => {
+      taskRepository.findOne
+        .mockResolvedValueOnce(columnTask('task-uuid-1', 'a'))
+        .mockResolvedValueOnce(null);
+
+      await expect(
+        service.move('task-uuid-1', { afterTaskId: 'task-uuid-2' })
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should throw NotFoundException when task does not exist', async () => {
+      taskRepository.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.move('missing', { statusId: reviewStatus.id })
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('bulk', () => {
+    let itemManager: { transaction: jest.Mock; getRepository: jest.Mock };
+
+    beforeEach(() => {
+      // Both the batch and each item's savepoint run on the same manager
+      itemManager = {
+        transaction: jest.fn((run) => run(itemManager)),
+        getRepository: jest.fn(() => taskRepository),
+      };
+      (taskRepository.manager.transaction as jest.Mock).mockImplementation((run) =>
+        run(itemManager)
+      );
+      taskRepository.find.mockResolvedValue([
+        { id: 'task-uuid-1' },
+        { id: 'task-uuid-2' },
+      ] as Task[]);
+    });
+
+    it('should reject tasks outside of the organization', async () => {
+      taskRepository.find.mockResolvedValue([{ id: 'task-uuid-1' }] as Task[]);
+
+      await expect(
+        service.bulk(
+          {
+            organizationId: 'org-uuid-1',
+            taskIds: ['task-uuid-1', 'task-uuid-2'],
+            action: BulkTaskAction.UPDATE,
+            priority: TaskPriority.HIGH,
+          },
+          'user-uuid-1'
+        )
+      ).rejects.toThrow(BadRequestException);
+      expect(taskRepository.manager.transaction).not.toHaveBeenCalled();
+    });
+
+    it('should report each task and keep the changes that succeeded', async () => {
+      const update = jest
+        .spyOn(service, 'update')
+        .mockResolvedValueOnce(mockTask)
+        .mockRejectedValueOnce(new BadRequestException('Transition not allowed'));
+
+      const results = await service.bulk(
+        {
+          organizationId: 'org-uuid-1',
+          taskIds: ['task-uuid-1', 'task-uuid-2'],
+          action: BulkTaskAction.UPDATE,
+          statusId: 'status-uuid-review',
+        },
+        'user-uuid-1'
+      );
+
+      expect(update).toHaveBeenCalledWith(
+        'task-uuid-1',
+        { statusId: 'status-uuid-review' },
+        'user-uuid-1',
+        itemManager
+      );
+      expect(results).toEqual([
+        { taskId: 'task-uuid-1', success: true, task: mockTask },
+        { taskId: 'task-uuid-2', success: false, error: 'Transition not allowed' },
+      ]);
+    });
+
+    it('should abort the whole batch on an unexpected error', async () => {
+      jest.spyOn(service, 'update').mockRejectedValue(new Error('connection lost'));
+
+      await expect(
+        service.bulk(
+          {
+            organizationId: 'org-uuid-1',
+            taskIds: ['task-uuid-1', 'task-uuid-2'],
+            action: BulkTaskAction.UPDATE,
+            priority: TaskPriority.LOW,
+          },
+          'user-uuid-1'
+        )
+      ).rejects.toThrow('connection lost');
+    });
+
+    it('should skip tasks already deleted together with their parent', async () => {
+      const remove = jest.spyOn(service, 'delete').mockResolvedValue(undefined);
+      taskRepository.findOne
+        .mockResolvedValueOnce({ ...mockTask })
+        .mockResolvedValueOnce({ ...mockTask, id: 'task-uuid-2', deletedAt: new Date() });
+
+      const results = await service.bulk(
+        {
+          organizationId: 'org-uuid-1',
+          taskIds: ['task-uuid-1', 'task-uuid-2'],
+          action: BulkTaskAction.DELETE,
+        },
+        'user-uuid-1'
+      );
+
+      expect(remove).toHaveBeenCalledTimes(1);
+      expect(remove).toHaveBeenCalledWith('task-uuid-1', 'user-uuid-1', itemManager);
+      expect(results.every((result) => result.success)).toBe(true);
+    });
+
+    it('should require the delete permission to delete', async () => {
+      permissionsService.hasPermission.mockResolvedValue(false);
+
+      await expect(
+        service.bulk(
+          {
+            organizationId: 'org-uuid-1',
+            taskIds: ['task-uuid-1'],
+            action: BulkTaskAction.DELETE,
+          },
+          'user-uuid-1'
+        )
+      ).rejects.toThrow(ForbiddenException);
+      expect(permissionsService.hasPermission).toHaveBeenCalledWith(
+        'user-uuid-1',
+        'org-uuid-1',
+        PermissionResource.TASK,
+        PermissionAction.DELETE,
+        undefined
+      );
+    });
+
+    it('should hold a personal access token to its scopes when deleting', async () => {
+      permissionsService.hasPermission.mockImplementation(
+        async (_userId, organizationId, resource, action, accessToken) =>
+          !accessToken || isWithinTokenScope(accessToken, organizationId, resource, action)
+      );
+
+      await expect(
+        service.bulk(
+          {
+            organizationId: 'org-uuid-1',
+            taskIds: ['task-uuid-1'],
+            action: BulkTaskAction.DELETE,
+          },
+          'user-uuid-1',
+          {
+            id: 'token-uuid-1',
+            scopes: [{ resource: PermissionResource.TASK, action: PermissionAction.UPDATE }],
+            organizationId: null,
+          }
+        )
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should reject an update without changes', async () => {
+      await expect(
+        service.bulk(
+          {
+            organizationId: 'org-uuid-1',
+            taskIds: ['task-uuid-1'],
+            action: BulkTaskAction.UPDATE,
+          },
+          'user-uuid-1'
+        )
+      ).rejects.toThrow('Nothing to update');
+    });
+  });
+
+  describe('restoreTask', () => {
+    const deletedAt = new Date('2026-02-01T10:00:00.000Z');
+
+    it('should restore subtasks deleted together with the task', async () => {
+      taskRepository.findOne
+        .mockResolvedValueOnce({ ...mockTask, deletedAt })
+        .mockResolvedValueOnce(mockTask);
+      taskRepository.find
+        .mockResolvedValueOnce([
+          {
+            ...mockTask,
+            id: 'task-uuid-2',
+            parentId: 'task-uuid-1',
+            deletedAt: new Date(deletedAt),
+          },
+          {
+            ...mockTask,
+            id: 'task-uuid-3',
+            parentId: 'task-uuid-1',
+            deletedAt: new Date('2026-01-15T08:00:00.000Z'),
+          },
+        ])
+        .mockResolvedValueOnce([]);
+
+      await service.restoreTask('task-uuid-1', 'user-uuid-1');
+
+      expect(taskRepository.restore).toHaveBeenCalledWith([
+        'task-uuid-1',
+        'task-uuid-2',
+      ]);
+      expect(attachmentRepository.restore).toHaveBeenCalledWith({
+        taskId: In(['task-uuid-1', 'task-uuid-2']),
+      });
+      expect(taskActivityService.record).toHaveBeenCalledWith(
+        ['task-uuid-1', 'task-uuid-2'],
+        'user-uuid-1',
+        TaskActivityAction.RESTORED,
+        [],
+        undefined
+      );
+    });
+
+    it('should throw NotFoundException when task is not deleted', async () => {
+      taskRepository.findOne.mockResolvedValue(mockTask);
+
+      await expect(service.restoreTask('task-uuid-1')).rejects.toThrow(
         NotFoundException
       );
     });
@@ -1,34 +1,212 @@
-import { Injectable, NotFoundException } from '@nestjs/common';
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+  HttpException,
+} from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, Not, IsNull } from 'typeorm';
-import { Task, TaskStatus, TaskPriority, TaskCategory, Organization } from '@task-manager/data';
+import {
+  Repository,
+  EntityManager,
+  SelectQueryBuilder,
+  Brackets,
+  Not,
+  IsNull,
+  In,
+} from 'typeorm';
+import {
+  Task,
+  TaskStatus,
+  TaskPriority,
+  TaskAttachment,
+  Label,
+  Organization,
+  User,
+  UserOrganization,
+  Worklog,
+  TaskActivityAction,
+  BulkTaskAction,
+  TaskSortField,
+  PermissionResource,
+  PermissionAction,
+  IChecklistProgress,
+  IBulkTaskResult,
+} from '@task-manager/data';
+import { PermissionsService, AccessTokenGrant } from '@task-manager/auth';
+import { WorkflowService } from '../workflow/workflow.service';
+import { CustomFieldsService } from '../custom-fields/custom-fields.service';
+import { TaskLinksService } from './task-links.service';
+import { TaskWatchersService } from './task-watchers.service';
+import { TaskActivityService } from './task-activity.service';
+import { ProjectsService } from '../projects/projects.service';
+import { rankBetween, RankError } from './task-rank';
 
 export interface CreateTaskDto {
   title: string;
   description?: string;
   organizationId: string;
-  assigneeId?: string;
+  /** Defaults to the creator when they are a member */
+  assigneeIds?: string[];
+  parentId?: string;
+  projectId?: string;
   status?: TaskStatus;
+  statusId?: string;
   priority?: TaskPriority;
-  category?: TaskCategory;
+  estimate?: number;
+  labelIds?: string[];
+  startDate?: string;
+  dueDate?: string;
+  customFieldValues?: Record<string, unknown>;
+  /** Set by RecurrencesService for generated occurrences */
+  recurrenceId?: string;
+  occurrenceAt?: Date;
 }
 
 export interface UpdateTaskDto {
   title?: string;
   description?: string;
-  assigneeId?: string;
+  assigneeIds?: string[];
+  parentId?: string | null;
+  projectId?: string | null;
   status?: TaskStatus;
+  statusId?: string;
   priority?: TaskPriority;
-  category?: TaskCategory;
+  estimate?: number | null;
+  labelIds?: string[];
+  startDate?: string | null;
+  dueDate?: string | null;
+  customFieldValues?: Record<string, unknown>;
 }
 
+export interface BulkTaskDto {
+  organizationId: string;
+  taskIds: string[];
+  action: BulkTaskAction;
+  /** Changes for UPDATE, applied to every task */
+  status?: TaskStatus;
+  statusId?: string;
+  priority?: TaskPriority;
+  labelIds?: string[];
+  assigneeIds?: string[];
+  projectId?: string | null;
+}
+
+/**
+ * Where to move a task on the board: right before or after another task
+ * (into that task's column), or to the top of a column
+ */
+export interface MoveTaskDto {
+  beforeTaskId?: string;
+  afterTaskId?: string;
+  statusId?: string;
+}
+
+/** Fields of a BulkTaskDto that UPDATE applies */
+const BULK_UPDATE_FIELDS = [
+  'status',
+  'statusId',
+  'priority',
+  'labelIds',
+  'assigneeIds',
+  'projectId',
+] as const;
+
+export interface TaskFilters {
+  projectId?: string;
+  sprintId?: string;
+  parentId?: string;
+  /** Lists match tasks with any of the values */
+  statusIds?: string[];
+  categories?: TaskStatus[];
+  priorities?: TaskPriority[];
+  assigneeIds?: string[];
+  labelIds?: string[];
+  /** Matched against title, key and description */
+  search?: string;
+  dueBefore?: Date;
+  dueAfter?: Date;
+  createdBefore?: Date;
+  createdAfter?: Date;
+  overdue?: boolean;
+  /** Custom field ID → value; all must match */
+  customFields?: unknown;
+}
+
+export interface TaskPageOptions {
+  sortBy?: TaskSortField;
+  sortOrder?: 'ASC' | 'DESC';
+  limit?: number;
+  /** nextCursor of the previous page */
+  cursor?: string;
+}
+
+export interface PaginatedTasks {
+  data: TaskWithProgress[];
+  total: number;
+  nextCursor: string | null;
+}
+
+/**
+ * Where a page ended. The sort value is kept as Postgres prints it, so
+ * timestamps keep their full precision.
+ */
+interface TaskCursor {
+  sortBy: TaskSortField;
+  sortOrder: 'ASC' | 'DESC';
+  value: string | null;
+  id: string;
+}
+
+/** What each sort field orders by */
+const SORT_EXPRESSIONS: Record<TaskSortField, string> = {
+  [TaskSortField.CREATED_AT]: 'task.createdAt',
+  [TaskSortField.UPDATED_AT]: 'task.updatedAt',
+  [TaskSortField.DUE_DATE]: 'task.dueDate',
+  [TaskSortField.PRIORITY]:
+    "CASE task.priority WHEN 'LOW' THEN 1 WHEN 'MEDIUM' THEN 2 WHEN 'HIGH' THEN 3 ELSE 4 END",
+  [TaskSortField.TITLE]: 'LOWER(task.title)',
+  [TaskSortField.MANUAL]: 'task.rank',
+};
+
+/** Newest and most urgent first; soonest due, A to Z and board order first */
+const DEFAULT_SORT_ORDERS: Record<TaskSortField, 'ASC' | 'DESC'> = {
+  [TaskSortField.CREATED_AT]: 'DESC',
+  [TaskSortField.UPDATED_AT]: 'DESC',
+  [TaskSortField.DUE_DATE]: 'ASC',
+  [TaskSortField.PRIORITY]: 'DESC',
+  [TaskSortField.TITLE]: 'ASC',
+  [TaskSortField.MANUAL]: 'ASC',
+};
+
+export type TaskWithProgress = Task & {
+  checklistProgress: IChecklistProgress;
+  openBlockerCount: number;
+  timeSpentSeconds: number;
+};
+
 @Injectable()
 export class TasksService {
   constructor(
     @InjectRepository(Task)
     private readonly taskRepository: Repository<Task>,
     @InjectRepository(Organization)
-    private readonly organizationRepository: Repository<Organization>
+    private readonly organizationRepository: Repository<Organization>,
+    @InjectRepository(TaskAttachment)
+    private readonly attachmentRepository: Repository<TaskAttachment>,
+    @InjectRepository(Label)
+    private readonly labelRepository: Repository<Label>,
+    @InjectRepository(Worklog)
+    private readonly worklogRepository: Repository<Worklog>,
+    @InjectRepository(UserOrganization)
+    private readonly userOrgRepository: Repository<UserOrganization>,
+    private readonly workflowService: WorkflowService,
+    private readonly customFieldsService: CustomFieldsService,
+    private readonly taskLinksService: TaskLinksService,
+    private readonly taskWatchersService: TaskWatchersService,
+    private readonly taskActivityService: TaskActivityService,
+    private readonly projectsService: ProjectsService,
+    private readonly permissionsService: PermissionsService
   ) {}
 
   async create(dto: CreateTaskDto, createdById: string): Promise<Task> {
@@ -42,17 +220,73 @@ export class TasksService {
       );
     }
 
+    const startDate = dto.startDate ? new Date(dto.startDate) : null;
+    const dueDate = dto.dueDate ? new Date(dto.dueDate) : null;
+    this.assertDateRange(startDate, dueDate);
+
+    if (dto.parentId) {
+      await this.assertValidParent(dto.parentId, dto.organizationId);
+    }
+
+    const labels = await this.resolveLabels(
+      dto.labelIds ?? [],
+      dto.organizationId
+    );
+
+    const assignees =
+      dto.assigneeIds !== undefined
+        ? await this.resolveAssignees(dto.assigneeIds, dto.organizationId)
+        : await this.findMembers([createdById], dto.organizationId);
+
+    const workflowStatus = await this.workflowService.resolveForTask(
+      dto.organizationId,
+      dto.statusId,
+      dto.status
+    );
+
+    const customFieldValues = await this.customFieldsService.resolveValues(
+      dto.organizationId,
+      dto.customFieldValues ?? {},
+      {},
+      true
+    );
+
+    // New tasks go to the top of their column
+    const rank = await this.firstRank(dto.organizationId, workflowStatus?.id ?? null);
+
+    // Taken last, so that invalid input does not use up a key
+    const key = dto.projectId
+      ? await this.projectsService.nextTaskKey(dto.organizationId, dto.projectId)
+      : null;
+
     const task = this.taskRepository.create({
+      key,
       title: dto.title,
       description: dto.description || null,
       organizationId: dto.organizationId,
-      assigneeId: dto.assigneeId || createdById,
-      status: dto.status || TaskStatus.TODO,
+      assignees,
+      status: workflowStatus?.category ?? dto.status ?? TaskStatus.TODO,
+      statusId: workflowStatus?.id ?? null,
+      rank,
       priority: dto.priority || TaskPriority.MEDIUM,
-      category: dto.category || TaskCategory.GENERAL,
+      estimate: dto.estimate ?? null,
+      labels,
+      startDate,
+      dueDate,
+      parentId: dto.parentId || null,
+      projectId: dto.projectId ?? null,
+      customFieldValues,
+      recurrenceId: dto.recurrenceId ?? null,
+      occurrenceAt: dto.occurrenceAt ?? null,
     });
 
-    return this.taskRepository.save(task);
+    const saved = await this.taskRepository.save(task);
+    await this.taskWatchersService.subscribe(saved.id, [
+      createdById,
+      ...assignees.map((user) => user.id),
+    ]);
+    await this.taskActivityService.recordCreated(saved, createdById);
+    return saved;
   }
 
   async findById(id: string): Promise<Task | null> {
@@ -61,50 +295,387 @@ export class TasksService {
     });
   }
 
-  async findByOrganization(organizationId: string): Promise<Task[]> {
-    return this.taskRepository.find({
-      where: { organizationId },
-      order: { createdAt: 'DESC' },
+  /**
+   * A task with everything its board card shows
+   */
+  async findOne(id: string): Promise<TaskWithProgress> {
+    const [task] = await this.loadWithProgress([id]);
+    if (!task) {
+      throw new NotFoundException(`Task with ID ${id} not found`);
+    }
+    return task;
+  }
+
+  /**
+   * One page of an organization's tasks matching the filters. Pages are
+   * keyset-paginated on the sort value and task ID, so tasks added or
+   * removed in between do not shift later pages.
+   */
+  async findByOrganization(
+    organizationId: string,
+    filters: TaskFilters = {},
+    options: TaskPageOptions = {}
+  ): Promise<PaginatedTasks> {
+    const sortBy = options.sortBy ?? TaskSortField.CREATED_AT;
+    const sortOrder = options.sortOrder ?? DEFAULT_SORT_ORDERS[sortBy];
+    const limit = options.limit ?? 50;
+    const sortExpression = SORT_EXPRESSIONS[sortBy];
+
+    const query = await this.buildTaskQuery(organizationId, filters);
+    const total = await query.getCount();
+
+    if (options.cursor) {
+      const cursor = this.decodeCursor(options.cursor, sortBy, sortOrder);
+      const op = sortOrder === 'ASC' ? '>' : '<';
+
+      // Nulls sort last, so after a null only nulls with a later ID follow
+      if (cursor.value === null) {
+        query.andWhere(`${sortExpression} IS NULL AND task.id ${op} :cursorId`, {
+          cursorId: cursor.id,
+        });
+      } else {
+        query.andWhere(
+          new Brackets((qb) => {
+            qb.where(`${sortExpression} ${op} :cursorValue`)
+              .orWhere(`${sortExpression} = :cursorValue AND task.id ${op} :cursorId`)
+              .orWhere(`${sortExpression} IS NULL`);
+          }),
+          { cursorValue: cursor.value, cursorId: cursor.id }
+        );
+      }
+    }
+
+    const rows = await query
+      .select('task.id', 'id')
+      .addSelect(`CAST(${sortExpression} AS text)`, 'sortValue')
+      .orderBy(sortExpression, sortOrder, 'NULLS LAST')
+      .addOrderBy('task.id', sortOrder)
+      .limit(limit + 1)
+      .getRawMany<{ id: string; sortValue: string | null }>();
+
+    const page = rows.slice(0, limit);
+    const last = page[page.length - 1];
+    const nextCursor =
+      rows.length > limit
+        ? this.encodeCursor(sortBy, sortOrder, last.sortValue, last.id)
+        : null;
+
+    return {
+      data: await this.loadWithProgress(page.map((row) => row.id)),
+      total,
+      nextCursor,
+    };
+  }
+
+  /**
+   * Filter an organization's tasks. Soft-deleted tasks are left out.
+   */
+  private async buildTaskQuery(
+    organizationId: string,
+    filters: TaskFilters
+  ): Promise<SelectQueryBuilder<Task>> {
+    const query = this.taskRepository
+      .createQueryBuilder('task')
+      .where('task.organizationId = :organizationId', { organizationId });
+
+    if (filters.projectId) {
+      query.andWhere('task.projectId = :projectId', { projectId: filters.projectId });
+    }
+    if (filters.sprintId) {
+      query.andWhere('task.sprintId = :sprintId', { sprintId: filters.sprintId });
+    }
+    if (filters.parentId) {
+      query.andWhere('task.parentId = :parentId', { parentId: filters.parentId });
+    }
+    if (filters.statusIds?.length) {
+      query.andWhere('task.statusId IN (:...statusIds)', { statusIds: filters.statusIds });
+    }
+    if (filters.categories?.length) {
+      query.andWhere('task.status IN (:...categories)', { categories: filters.categories });
+    }
+    if (filters.priorities?.length) {
+      query.andWhere('task.priority IN (:...priorities)', { priorities: filters.priorities });
+    }
+    if (filters.assigneeIds?.length) {
+      query.andWhere(
+        'EXISTS (SELECT 1 FROM task_assignees ta WHERE ta.task_id = task.id AND ta.user_id IN (:...assigneeIds))',
+        { assigneeIds: filters.assigneeIds }
+      );
+    }
+    if (filters.labelIds?.length) {
+      query.andWhere(
+        'EXISTS (SELECT 1 FROM task_labels tl WHERE tl.task_id = task.id AND tl.label_id IN (:...labelIds))',
+        { labelIds: filters.labelIds }
+      );
+    }
+
+    const search = filters.search?.trim();
+    if (search) {
+      query.andWhere(
+        new Brackets((qb) => {
+          qb.where('task.title ILIKE :search')
+            .orWhere('task.key ILIKE :search')
+            .orWhere('task.description ILIKE :search');
+        }),
+        { search: `%${search.replace(/[\\%_]/g, '\\$&')}%` }
+      );
+    }
+
+    if (filters.dueBefore) {
+      query.andWhere('task.dueDate <= :dueBefore', { dueBefore: filters.dueBefore });
+    }
+    if (filters.dueAfter) {
+      query.andWhere('task.dueDate >= :dueAfter', { dueAfter: filters.dueAfter });
+    }
+    if (filters.createdBefore) {
+      query.andWhere('task.createdAt <= :createdBefore', { createdBefore: filters.createdBefore });
+    }
+    if (filters.createdAfter) {
+      query.andWhere('task.createdAt >= :createdAfter', { createdAfter: filters.createdAfter });
+    }
+    if (filters.overdue) {
+      // Overdue = past the due date and not yet completed
+      query
+        .andWhere('task.dueDate < :now', { now: new Date() })
+        .andWhere('task.status != :done', { done: TaskStatus.DONE });
+    }
+
+    if (filters.customFields !== undefined) {
+      const containment = await this.customFieldsService.buildFilter(
+        organizationId,
+        filters.customFields
+      );
+      query.andWhere('task.customFieldValues @> CAST(:customFields AS jsonb)', {
+        customFields: JSON.stringify(containment),
+      });
+    }
+
+    return query;
+  }
+
+  /**
+   * Load tasks in the given order with what the board shows on a card
+   */
+  private async loadWithProgress(taskIds: string[]): Promise<TaskWithProgress[]> {
+    if (taskIds.length === 0) {
+      return [];
+    }
+
+    const tasks = await this.taskRepository.find({
+      where: { id: In(taskIds) },
+      relations: { checklistItems: true, labels: true, assignees: true },
+      order: {
+        checklistItems: { position: 'ASC' },
+        labels: { name: 'ASC' },
+        assignees: { email: 'ASC' },
+      },
     });
+    const byId = new Map(tasks.map((task) => [task.id, task]));
+
+    const openBlockers = await this.taskLinksService.countOpenBlockers(taskIds);
+    const timeSpent = await this.sumTimeSpent(taskIds);
+
+    return taskIds
+      .map((id) => byId.get(id))
+      .filter((task): task is Task => !!task)
+      .map((task) => {
+        const items = task.checklistItems ?? [];
+        return Object.assign(task, {
+          checklistProgress: {
+            done: items.filter((item) => item.isDone).length,
+            total: items.length,
+          },
+          openBlockerCount: openBlockers.get(task.id) ?? 0,
+          timeSpentSeconds: timeSpent.get(task.id) ?? 0,
+        });
+      });
   }
 
-  async update(id: string, dto: UpdateTaskDto): Promise<Task> {
-    const task = await this.findById(id);
+  /**
+   * Cursors carry the sort they were made for, so a page is never
+   * continued under a different order.
+   */
+  private encodeCursor(
+    sortBy: TaskSortField,
+    sortOrder: 'ASC' | 'DESC',
+    value: string | null,
+    id: string
+  ): string {
+    const cursor: TaskCursor = { sortBy, sortOrder, value, id };
+    return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+  }
+
+  private decodeCursor(
+    encoded: string,
+    sortBy: TaskSortField,
+    sortOrder: 'ASC' | 'DESC'
+  ): TaskCursor {
+    let cursor: TaskCursor;
+    try {
+      cursor = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+    } catch {
+      throw new BadRequestException('Invalid cursor');
+    }
+
+    if (
+      typeof cursor?.id !== 'string' ||
+      (typeof cursor.value !== 'string' && cursor.value !== null)
+    ) {
+      throw new BadRequestException('Invalid cursor');
+    }
+    if (cursor.sortBy !== sortBy || cursor.sortOrder !== sortOrder) {
+      throw new BadRequestException('Cursor was made for a different sort order');
+    }
+
+    return cursor;
+  }
+
+  async update(
+    id: string,
+    dto: UpdateTaskDto,
+    actorId: string | null = null,
+    manager?: EntityManager
+  ): Promise<Task> {
+    const tasks = manager?.getRepository(Task) ?? this.taskRepository;
+    const task = await tasks.findOne({
+      where: { id },
+      relations: { assignees: true, labels: true },
+    });
 
     if (!task) {
       throw new NotFoundException(`Task with ID ${id} not found`);
     }
 
+    const before = this.taskActivityService.snapshot(task);
+
     if (dto.title !== undefined) {
       task.title = dto.title;
     }
     if (dto.description !== undefined) {
       task.description = dto.description;
     }
-    if (dto.assigneeId !== undefined) {
-      task.assigneeId = dto.assigneeId;
+    const previousAssigneeIds = new Set(task.assignees.map((user) => user.id));
+    if (dto.assigneeIds !== undefined) {
+      task.assignees = await this.resolveAssignees(
+        dto.assigneeIds,
+        task.organizationId
+      );
+    }
+    if (dto.parentId !== undefined) {
+      if (dto.parentId) {
+        await this.assertValidParent(dto.parentId, task.organizationId, task.id);
+      }
+      task.parentId = dto.parentId;
+    }
+    // Moving to another project gives the task a key in that project
+    if (dto.projectId !== undefined && dto.projectId !== task.projectId) {
+      task.key = dto.projectId
+        ? await this.projectsService.nextTaskKey(
+            task.organizationId,
+            dto.projectId,
+            manager
+          )
+        : null;
+      task.projectId = dto.projectId;
     }
-    if (dto.status !== undefined) {
-      task.status = dto.status;
+    // statusId takes precedence; a bare status category moves the task to
+    // the first workflow status of that category
+    if (
+      dto.statusId !== undefined ||
+      (dto.status !== undefined && dto.status !== task.status)
+    ) {
+      const next = await this.workflowService.resolveForTask(
+        task.organizationId,
+        dto.statusId,
+        dto.status
+      );
+      const nextCategory = next?.category ?? dto.status;
+      if (
+        nextCategory === TaskStatus.IN_PROGRESS &&
+        task.status !== TaskStatus.IN_PROGRESS
+      ) {
+        await this.assertNotBlocked(task);
+      }
+      if (next) {
+        await this.workflowService.assertTransition(task.statusId, next);
+        // A task moved to another column goes to its top
+        if (next.id !== task.statusId) {
+          task.rank = await this.firstRank(task.organizationId, next.id, tasks);
+        }
+        task.statusId = next.id;
+        task.status = next.category;
+      } else if (dto.status !== undefined) {
+        task.status = dto.status;
+      }
     }
     if (dto.priority !== undefined) {
       task.priority = dto.priority;
     }
-    if (dto.category !== undefined) {
-      task.category = dto.category;
+    if (dto.estimate !== undefined) {
+      task.estimate = dto.estimate;
+    }
+    if (dto.labelIds !== undefined) {
+      task.labels = await this.resolveLabels(dto.labelIds, task.organizationId);
+    }
+    if (dto.startDate !== undefined) {
+      task.startDate = dto.startDate ? new Date(dto.startDate) : null;
+    }
+    if (dto.dueDate !== undefined) {
+      task.dueDate = dto.dueDate ? new Date(dto.dueDate) : null;
+    }
+    this.assertDateRange(task.startDate, task.dueDate);
+    if (dto.customFieldValues !== undefined) {
+      task.customFieldValues = await this.customFieldsService.resolveValues(
+        task.organizationId,
+        dto.customFieldValues,
+        task.customFieldValues
+      );
     }
 
-    return this.taskRepository.save(task);
+    const saved = await tasks.save(task);
+    // Only new assignees, so that an assignee who unwatched stays unsubscribed
+    await this.taskWatchersService.subscribe(
+      saved.id,
+      saved.assignees
+        .map((user) => user.id)
+        .filter((userId) => !previousAssigneeIds.has(userId)),
+      manager
+    );
+    await this.taskActivityService.recordUpdate(before, saved, actorId, manager);
+    return saved;
   }
 
-  async delete(id: string): Promise<void> {
-    const task = await this.findById(id);
+  /**
+   * Soft delete a task together with all of its subtasks and their
+   * attachments. A single UPDATE gives the whole subtree the same deletedAt
+   * timestamp, which restoreTask uses to bring back exactly these subtasks.
+   */
+  async delete(
+    id: string,
+    actorId: string | null = null,
+    manager?: EntityManager
+  ): Promise<void> {
+    const tasks = manager?.getRepository(Task) ?? this.taskRepository;
+    const task = await tasks.findOne({ where: { id } });
 
     if (!task) {
       throw new NotFoundException(`Task with ID ${id} not found`);
     }
 
-    await this.taskRepository.softRemove(task);
+    const descendants = await this.findDescendants(task.id, undefined, tasks);
+    const ids = [task.id, ...descendants.map((child) => child.id)];
+
+    const attachments =
+      manager?.getRepository(TaskAttachment) ?? this.attachmentRepository;
+    await tasks.softDelete(ids);
+    await attachments.softDelete({ taskId: In(ids) });
+    await this.taskActivityService.record(
+      ids,
+      actorId,
+      TaskActivityAction.DELETED,
+      [],
+      manager
+    );
   }
 
   /**
@@ -119,11 +690,18 @@ export class TasksService {
   }
 
   /**
-   * Restore a soft-deleted task by ID.
+   * Restore a soft-deleted task by ID, along with the subtasks that were
+   * deleted with it and their attachments. Subtasks deleted separately
+   * beforehand stay deleted.
    * Only accessible by Admin role.
    */
-  async restoreTask(id: string): Promise<Task> {
-    const task = await this.findByIdWithDeleted(id);
+  async restoreTask(
+    id: string,
+    actorId: string | null = null,
+    manager?: EntityManager
+  ): Promise<Task> {
+    const tasks = manager?.getRepository(Task) ?? this.taskRepository;
+    const task = await tasks.findOne({ where: { id }, withDeleted: true });
 
     if (!task) {
       throw new NotFoundException(`Task with ID ${id} not found`);
@@ -133,8 +711,150 @@ export class TasksService {
       throw new NotFoundException(`Task with ID ${id} is not deleted`);
     }
 
-    await this.taskRepository.restore(id);
-    return this.findById(id) as Promise<Task>;
+    const deletedAt = task.deletedAt.getTime();
+    const descendants = await this.findDescendants(
+      task.id,
+      (child) => child.deletedAt?.getTime() === deletedAt,
+      tasks
+    );
+
+    const ids = [task.id, ...descendants.map((child) => child.id)];
+
+    const attachments =
+      manager?.getRepository(TaskAttachment) ?? this.attachmentRepository;
+    await tasks.restore(ids);
+    await attachments.restore({ taskId: In(ids) });
+    await this.taskActivityService.record(
+      ids,
+      actorId,
+      TaskActivityAction.RESTORED,
+      [],
+      manager
+    );
+    return tasks.findOne({ where: { id } }) as Promise<Task>;
+  }
+
+  /**
+   * Move a task on the board. Within a column only the task's rank is
+   * written; moving it next to a task of another column, or to the top of
+   * another column, also changes its status as update() does.
+   */
+  async move(
+    id: string,
+    dto: MoveTaskDto,
+    actorId: string | null = null
+  ): Promise<TaskWithProgress> {
+    if (dto.beforeTaskId && dto.afterTaskId) {
+      throw new BadRequestException('Give either beforeTaskId or afterTaskId, not both');
+    }
+    const neighbourId = dto.beforeTaskId ?? dto.afterTaskId;
+    if (!neighbourId && !dto.statusId) {
+      throw new BadRequestException('Give beforeTaskId, afterTaskId or statusId');
+    }
+    if (neighbourId === id) {
+      throw new BadRequestException('A task cannot be moved next to itself');
+    }
+
+    const task = await this.taskRepository.findOne({ where: { id } });
+    if (!task) {
+      throw new NotFoundException(`Task with ID ${id} not found`);
+    }
+
+    let statusId = dto.statusId ?? task.statusId;
+    let neighbour: Task | null = null;
+
+    if (neighbourId) {
+      neighbour = await this.taskRepository.findOne({
+        where: { id: neighbourId, organizationId: task.organizationId },
+      });
+      if (!neighbour) {
+        throw new BadRequestException(
+          `Task ${neighbourId} must belong to organization ${task.organizationId}`
+        );
+      }
+      if (dto.statusId && dto.statusId !== neighbour.statusId) {
+        throw new BadRequestException(`Task ${neighbourId} is not in status ${dto.statusId}`);
+      }
+
+      statusId = neighbour.statusId;
+    }
+
+    const side = dto.beforeTaskId ? 'before' : 'after';
+    let rank: string;
+    try {
+      rank = await this.moveRank(task, neighbour, side, statusId);
+    } catch (error) {
+      if (!(error instanceof RankError)) {
+        throw error;
+      }
+      // Nothing keeps two tasks from getting the same rank, e.g. when two
+      // moves into one gap run at once; spread the column out and retry
+      const ranks = await this.rerankColumn(task.organizationId, statusId);
+      rank = await this.moveRank(
+        task,
+        neighbour && { ...neighbour, rank: ranks.get(neighbour.id) ?? neighbour.rank },
+        side,
+        statusId
+      );
+    }
+
+    await this.taskRepository.manager.transaction(async (manager) => {
+      if (statusId && statusId !== task.statusId) {
+        await this.update(task.id, { statusId }, actorId, manager);
+      }
+      await manager.getRepository(Task).update(task.id, { rank });
+    });
+
+    return this.findOne(task.id);
+  }
+
+  /**
+   * Apply one action to many tasks, which must all belong to the
+   * organization. Everything runs in one transaction. A task the action
+   * fails for, e.g. a status move the workflow does not allow, is rolled
+   * back on its own and reported; the other tasks keep their changes.
+   */
+  async bulk(
+    dto: BulkTaskDto,
+    actorId: string,
+    accessToken?: AccessTokenGrant
+  ): Promise<IBulkTaskResult[]> {
+    const taskIds = [...new Set(dto.taskIds)];
+    const changes = this.toBulkChanges(dto);
+    await this.assertCanBulk(dto.action, dto.organizationId, actorId, accessToken);
+
+    const found = await this.taskRepository.find({
+      where: { id: In(taskIds), organizationId: dto.organizationId },
+      select: { id: true },
+      withDeleted: true,
+    });
+    if (found.length !== taskIds.length) {
+      throw new BadRequestException(
+        `All tasks must belong to organization ${dto.organizationId}`
+      );
+    }
+
+    return this.taskRepository.manager.transaction(async (manager) => {
+      const results: IBulkTaskResult[] = [];
+
+      for (const taskId of taskIds) {
+        try {
+          // A savepoint per task, so that a failure only undoes that task
+          const task = await manager.transaction((itemManager) =>
+            this.applyBulkAction(taskId, dto.action, changes, actorId, itemManager)
+          );
+          results.push({ taskId, success: true, task: task ?? undefined });
+        } catch (error) {
+          // Anything but a rejected change aborts the whole batch
+          if (!(error instanceof HttpException)) {
+            throw error;
+          }
+          results.push({ taskId, success: false, error: error.message });
+        }
+      }
+
+      return results;
+    });
   }
 
   /**
@@ -147,4 +867,381 @@ export class TasksService {
       order: { deletedAt: 'DESC' },
     });
   }
+
+  /**
+   * Take a user who is leaving an organization off its tasks: they are
+   * unassigned and stop watching. Runs in the caller's transaction.
+   */
+  async removeMember(
+    organizationId: string,
+    userId: string,
+    manager: EntityManager = this.taskRepository.manager
+  ): Promise<void> {
+    // Deleted tasks included, so a restore does not bring them back
+    await manager
+      .createQueryBuilder()
+      .delete()
+      .from('task_assignees')
+      .where('user_id = :userId', { userId })
+      .andWhere(
+        'task_id IN (SELECT id FROM tasks WHERE organization_id = :organizationId)',
+        { organizationId }
+      )
+      .execute();
+
+    await this.taskWatchersService.removeMember(organizationId, userId, manager);
+  }
+
+  private toBulkChanges(dto: BulkTaskDto): UpdateTaskDto {
+    const changes: UpdateTaskDto = {};
+    for (const field of BULK_UPDATE_FIELDS) {
+      if (dto[field] !== undefined) {
+        Object.assign(changes, { [field]: dto[field] });
+      }
+    }
+
+    const hasChanges = Object.keys(changes).length > 0;
+    if (dto.action === BulkTaskAction.UPDATE && !hasChanges) {
+      throw new BadRequestException('Nothing to update');
+    }
+    if (dto.action !== BulkTaskAction.UPDATE && hasChanges) {
+      throw new BadRequestException(`${dto.action} does not take changes`);
+    }
+
+    return changes;
+  }
+
+  /**
+   * TASK:UPDATE is checked by the guards; deleting and restoring need
+   * their own permissions, as on the single-task endpoints, and for
+   * personal access tokens their own scopes.
+   */
+  private async assertCanBulk(
+    action: BulkTaskAction,
+    organizationId: string,
+    userId: string,
+    accessToken?: AccessTokenGrant
+  ): Promise<void> {
+    if (action === BulkTaskAction.UPDATE) {
+      return;
+    }
+
+    const permission =
+      action === BulkTaskAction.DELETE
+        ? PermissionAction.DELETE
+        : PermissionAction.RESTORE;
+    const allowed = await this.permissionsService.hasPermission(
+      userId,
+      organizationId,
+      PermissionResource.TASK,
+      permission,
+      accessToken
+    );
+
+    if (!allowed) {
+      throw new ForbiddenException(
+        `You are not allowed to ${action.toLowerCase()} tasks`
+      );
+    }
+  }
+
+  /**
+   * Deleting and restoring are idempotent here: a subtask listed next to
+   * its parent has already been handled together with it.
+   */
+  private async applyBulkAction(
+    taskId: string,
+    action: BulkTaskAction,
+    changes: UpdateTaskDto,
+    actorId: string,
+    manager: EntityManager
+  ): Promise<Task | null> {
+    if (action === BulkTaskAction.UPDATE) {
+      return this.update(taskId, changes, actorId, manager);
+    }
+
+    const task = await manager.getRepository(Task).findOne({
+      where: { id: taskId },
+      withDeleted: true,
+    });
+
+    if (action === BulkTaskAction.DELETE) {
+      if (!task?.deletedAt) {
+        await this.delete(taskId, actorId, manager);
+      }
+      return null;
+    }
+
+    return task?.deletedAt
+      ? this.restoreTask(taskId, actorId, manager)
+      : task;
+  }
+
+  /**
+   * Seconds logged per task. Running timers are not counted until they
+   * are stopped.
+   */
+  private async sumTimeSpent(taskIds: string[]): Promise<Map<string, number>> {
+    if (taskIds.length === 0) {
+      return new Map();
+    }
+
+    const rows = await this.worklogRepository
+      .createQueryBuilder('worklog')
+      .select('worklog.taskId', 'taskId')
+      .addSelect('SUM(worklog.durationSeconds)', 'seconds')
+      .where('worklog.taskId IN (:...taskIds)', { taskIds })
+      .andWhere('worklog.durationSeconds IS NOT NULL')
+      .groupBy('worklog.taskId')
+      .getRawMany<{ taskId: string; seconds: string }>();
+
+    return new Map(rows.map((row) => [row.taskId, Number(row.seconds)]));
+  }
+
+  /**
+   * Organizations can opt in to refusing work on a task while tasks
+   * that block it are still open.
+   */
+  private async assertNotBlocked(task: Task): Promise<void> {
+    const organization = await this.organizationRepository.findOne({
+      where: { id: task.organizationId },
+    });
+    if (!organization?.enforceBlockers) {
+      return;
+    }
+
+    const openBlockers = await this.taskLinksService.countOpenBlockers([task.id]);
+    const count = openBlockers.get(task.id) ?? 0;
+    if (count > 0) {
+      throw new BadRequestException(
+        `This task is blocked by ${count} open task(s)`
+      );
+    }
+  }
+
+  /**
+   * Walk the subtask tree below a task, level by level.
+   * Without a predicate only live subtasks are returned; with one, deleted
+   * subtasks are included and only matching branches are followed.
+   */
+  private async findDescendants(
+    rootId: string,
+    predicate?: (task: Task) => boolean,
+    tasks: Repository<Task> = this.taskRepository
+  ): Promise<Task[]> {
+    const descendants: Task[] = [];
+    let parentIds = [rootId];
+
+    while (parentIds.length > 0) {
+      const children = await tasks.find({
+        where: { parentId: In(parentIds) },
+        withDeleted: !!predicate,
+      });
+      const matched = predicate ? children.filter(predicate) : children;
+      descendants.push(...matched);
+      parentIds = matched.map((child) => child.id);
+    }
+
+    return descendants;
+  }
+
+  /**
+   * A rank that puts a task at the top of a board column
+   */
+  private async firstRank(
+    organizationId: string,
+    statusId: string | null,
+    tasks: Repository<Task> = this.taskRepository,
+    excludeId?: string
+  ): Promise<string> {
+    const query = tasks
+      .createQueryBuilder('task')
+      .select('MIN(task.rank)', 'rank')
+      .where('task.organizationId = :organizationId', { organizationId })
+      .andWhere(statusId ? 'task.statusId = :statusId' : 'task.statusId IS NULL', { statusId });
+    if (excludeId) {
+      query.andWhere('task.id != :excludeId', { excludeId });
+    }
+
+    const row = await query.getRawOne<{ rank: string | null }>();
+    return rankBetween(null, row?.rank ?? null);
+  }
+
+  /**
+   * Rank for a task moved right before or after `neighbour`, or to the
+   * top of the column without one
+   */
+  private async moveRank(
+    task: Task,
+    neighbour: Task | null,
+    side: 'before' | 'after',
+    statusId: string | null
+  ): Promise<string> {
+    if (!neighbour) {
+      return this.firstRank(task.organizationId, statusId, this.taskRepository, task.id);
+    }
+
+    const adjacent = await this.adjacentRank(neighbour, side, task.id);
+    return side === 'before'
+      ? rankBetween(adjacent, neighbour.rank)
+      : rankBetween(neighbour.rank, adjacent);
+  }
+
+  /**
+   * Give every task of a column a distinct fixed-width rank, as the
+   * migration that introduced ranks did, keeping their order. Returns the
+   * new rank of each task.
+   */
+  private async rerankColumn(
+    organizationId: string,
+    statusId: string | null
+  ): Promise<Map<string, string>> {
+    const tasks = await this.taskRepository.find({
+      where: { organizationId, statusId: statusId ?? IsNull() },
+      select: { id: true },
+      order: { rank: 'ASC', id: 'ASC' },
+    });
+    const ranks = new Map(
+      tasks.map((task, index) => [task.id, String(index + 1).padStart(10, '0')])
+    );
+
+    await this.taskRepository.manager.transaction(async (manager) => {
+      for (const [id, rank] of ranks) {
+        await manager.getRepository(Task).update(id, { rank });
+      }
+    });
+    return ranks;
+  }
+
+  /**
+   * Rank of the task right before or after `task` in its column, leaving
+   * out the task being moved; null at either end of the column
+   */
+  private async adjacentRank(
+    task: Task,
+    side: 'before' | 'after',
+    excludeId: string
+  ): Promise<string | null> {
+    const row = await this.taskRepository
+      .createQueryBuilder('task')
+      .select('task.rank', 'rank')
+      .where('task.organizationId = :organizationId', { organizationId: task.organizationId })
+      .andWhere(task.statusId ? 'task.statusId = :statusId' : 'task.statusId IS NULL', {
+        statusId: task.statusId,
+      })
+      .andWhere('task.id != :excludeId', { excludeId })
+      .andWhere(`task.rank ${side === 'before' ? '<' : '>'} :rank`, { rank: task.rank })
+      .orderBy('task.rank', side === 'before' ? 'DESC' : 'ASC')
+      .limit(1)
+      .getRawOne<{ rank: string }>();
+
+    return row?.rank ?? null;
+  }
+
+  /**
+   * A parent task must exist in the same organization, and re-parenting
+   * must not make a task its own ancestor.
+   */
+  private async assertValidParent(
+    parentId: string,
+    organizationId: string,
+    taskId?: string
+  ): Promise<void> {
+    const parent = await this.findById(parentId);
+
+    if (!parent) {
+      throw new NotFoundException(`Parent task with ID ${parentId} not found`);
+    }
+
+    if (parent.organizationId !== organizationId) {
+      throw new BadRequestException(
+        'Parent task must belong to the same organization'
+      );
+    }
+
+    if (!taskId) {
+      return;
+    }
+
+    let ancestor: Task | null = parent;
+    while (ancestor) {
+      if (ancestor.id === taskId) {
+        throw new BadRequestException(
+          'A task cannot be a subtask of itself or its subtasks'
+        );
+      }
+      ancestor = ancestor.parentId
+        ? await this.findById(ancestor.parentId)
+        : null;
+    }
+  }
+
+  /**
+   * Load the given labels, all of which must belong to the organization.
+   */
+  private async resolveLabels(
+    labelIds: string[],
+    organizationId: string
+  ): Promise<Label[]> {
+    const uniqueIds = [...new Set(labelIds)];
+    if (uniqueIds.length === 0) {
+      return [];
+    }
+
+    const labels = await this.labelRepository.find({
+      where: { id: In(uniqueIds), organizationId },
+    });
+
+    if (labels.length !== uniqueIds.length) {
+      throw new BadRequestException(
+        'Labels must belong to the same organization as the task'
+      );
+    }
+
+    return labels;
+  }
+
+  /**
+   * Load the given users, all of whom must be members of the organization.
+   */
+  private async resolveAssignees(
+    userIds: string[],
+    organizationId: string
+  ): Promise<User[]> {
+    const uniqueIds = [...new Set(userIds)];
+    const users = await this.findMembers(uniqueIds, organizationId);
+
+    if (users.length !== uniqueIds.length) {
+      throw new BadRequestException(
+        'Assignees must be members of the task\'s organization'
+      );
+    }
+
+    return users;
+  }
+
+  private async findMembers(
+    userIds: string[],
+    organizationId: string
+  ): Promise<User[]> {
+    if (userIds.length === 0) {
+      return [];
+    }
+
+    const memberships = await this.userOrgRepository.find({
+      where: { userId: In(userIds), organizationId },
+      relations: { user: true },
+    });
+
+    return memberships.map((membership) => membership.user);
+  }
+
+  /**
+   * A task cannot be due before it starts.
+   */
+  private assertDateRange(startDate: Date | null, dueDate: Date | null): void {
+    if (startDate && dueDate && startDate > dueDate) {
+      throw new BadRequestException('Start date must be before the due date');
+    }
+  }
 }
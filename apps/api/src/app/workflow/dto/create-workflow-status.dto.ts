@@ -0,0 +1,53 @@
+import {
+  IsArray,
+  IsEnum,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Matches,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { TaskStatus } from '@task-manager/data';
+
+export class CreateWorkflowStatusDto {
+  @ApiProperty({
+    description: 'Status name, unique within the organization',
+    example: 'Review',
+    maxLength: 50,
+  })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(50)
+  name!: string;
+
+  @ApiProperty({
+    description: 'Category the status counts as in analytics',
+    enum: TaskStatus,
+    example: TaskStatus.IN_PROGRESS,
+  })
+  @IsEnum(TaskStatus)
+  category!: TaskStatus;
+
+  @ApiProperty({
+    description: 'Hex colour used for the board column',
+    example: '#a855f7',
+  })
+  @Matches(/^#[0-9a-fA-F]{6}$/, {
+    message: 'color must be a hex colour like #a855f7',
+  })
+  color!: string;
+
+  @ApiPropertyOptional({
+    description:
+      'UUIDs of the statuses tasks may move to from this one. Omit or null to allow any move.',
+    example: ['550e8400-e29b-41d4-a716-446655440030'],
+    type: [String],
+    nullable: true,
+  })
+  @IsOptional()
+  @IsArray()
+  @IsUUID('all', { each: true })
+  allowedTransitions?: string[] | null;
+}
@@ -0,0 +1,3 @@
+export * from './create-workflow-status.dto';
+export * from './update-workflow-status.dto';
+export * from './reorder-workflow-statuses.dto';
@@ -0,0 +1,17 @@
+import { ArrayMinSize, IsArray, IsUUID } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ReorderWorkflowStatusesDto {
+  @ApiProperty({
+    description: 'Every status UUID of the organization, in board order',
+    example: [
+      '550e8400-e29b-41d4-a716-446655440030',
+      '550e8400-e29b-41d4-a716-446655440031',
+    ],
+    type: [String],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsUUID('all', { each: true })
+  statusIds!: string[];
+}
@@ -0,0 +1,56 @@
+import {
+  IsArray,
+  IsEnum,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Matches,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { TaskStatus } from '@task-manager/data';
+
+export class UpdateWorkflowStatusDto {
+  @ApiPropertyOptional({
+    description: 'New status name, unique within the organization',
+    example: 'Code Review',
+    maxLength: 50,
+  })
+  @IsOptional()
+  @IsString()
+  @MinLength(1)
+  @MaxLength(50)
+  name?: string;
+
+  @ApiPropertyOptional({
+    description: 'New category; tasks in the status are re-categorized',
+    enum: TaskStatus,
+    example: TaskStatus.IN_PROGRESS,
+  })
+  @IsOptional()
+  @IsEnum(TaskStatus)
+  category?: TaskStatus;
+
+  @ApiPropertyOptional({
+    description: 'New hex colour',
+    example: '#f97316',
+  })
+  @IsOptional()
+  @Matches(/^#[0-9a-fA-F]{6}$/, {
+    message: 'color must be a hex colour like #a855f7',
+  })
+  color?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'UUIDs of the statuses tasks may move to from this one, or null to allow any move',
+    example: ['550e8400-e29b-41d4-a716-446655440030'],
+    type: [String],
+    nullable: true,
+  })
+  @IsOptional()
+  @IsArray()
+  @IsUUID('all', { each: true })
+  allowedTransitions?: string[] | null;
+}
@@ -0,0 +1,136 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+  UseInterceptors,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+} from '@nestjs/swagger';
+import {
+  JwtAuthGuard,
+  OrgRolesGuard,
+  OrgRoles,
+  PermissionsGuard,
+  RequirePermission,
+} from '@task-manager/auth';
+import {
+  OrganizationRole,
+  WorkflowStatus,
+  PermissionResource,
+  PermissionAction,
+} from '@task-manager/data';
+import { WorkflowService } from './workflow.service';
+import { CreateWorkflowStatusDto } from './dto/create-workflow-status.dto';
+import { UpdateWorkflowStatusDto } from './dto/update-workflow-status.dto';
+import { ReorderWorkflowStatusesDto } from './dto/reorder-workflow-statuses.dto';
+import { AuditInterceptor } from '../audit/audit.interceptor';
+
+@ApiTags('Workflow')
+@ApiBearerAuth('JWT-auth')
+@Controller('organizations/:organizationId/statuses')
+@UseInterceptors(AuditInterceptor)
+export class WorkflowController {
+  constructor(private readonly workflowService: WorkflowService) {}
+
+  @Get()
+  @UseGuards(JwtAuthGuard, OrgRolesGuard, PermissionsGuard)
+  @OrgRoles(OrganizationRole.VIEWER)
+  @RequirePermission(PermissionResource.ORGANIZATION, PermissionAction.READ)
+  @ApiOperation({ summary: 'List the workflow statuses of an organization in board order' })
+  @ApiParam({ name: 'organizationId', description: 'Organization UUID' })
+  @ApiResponse({ status: 200, description: 'Statuses retrieved successfully', type: [WorkflowStatus] })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 403, description: 'Forbidden - User does not have access to this organization' })
+  async findAll(@Param('organizationId', ParseUUIDPipe) organizationId: string) {
+    return this.workflowService.findByOrganization(organizationId);
+  }
+
+  @Post()
+  @UseGuards(JwtAuthGuard, OrgRolesGuard, PermissionsGuard)
+  @OrgRoles(OrganizationRole.ADMIN)
+  @RequirePermission(PermissionResource.ORGANIZATION, PermissionAction.UPDATE)
+  @ApiOperation({ summary: 'Add a status as the last board column' })
+  @ApiParam({ name: 'organizationId', description: 'Organization UUID' })
+  @ApiResponse({ status: 201, description: 'Status created successfully', type: WorkflowStatus })
+  @ApiResponse({ status: 400, description: 'Bad Request - Invalid fields or transition targets' })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Requires ADMIN role or higher' })
+  @ApiResponse({ status: 409, description: 'Conflict - A status with this name already exists' })
+  async create(
+    @Param('organizationId', ParseUUIDPipe) organizationId: string,
+    @Body() createStatusDto: CreateWorkflowStatusDto
+  ) {
+    return this.workflowService.create(organizationId, createStatusDto);
+  }
+
+  @Put('order')
+  @UseGuards(JwtAuthGuard, OrgRolesGuard, PermissionsGuard)
+  @OrgRoles(OrganizationRole.ADMIN)
+  @RequirePermission(PermissionResource.ORGANIZATION, PermissionAction.UPDATE)
+  @ApiOperation({ summary: 'Reorder the board columns' })
+  @ApiParam({ name: 'organizationId', description: 'Organization UUID' })
+  @ApiResponse({ status: 200, description: 'Statuses reordered successfully', type: [WorkflowStatus] })
+  @ApiResponse({ status: 400, description: 'Bad Request - Every status must be listed exactly once' })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Requires ADMIN role or higher' })
+  async reorder(
+    @Param('organizationId', ParseUUIDPipe) organizationId: string,
+    @Body() reorderDto: ReorderWorkflowStatusesDto
+  ) {
+    return this.workflowService.reorder(organizationId, reorderDto.statusIds);
+  }
+
+  @Patch(':statusId')
+  @UseGuards(JwtAuthGuard, OrgRolesGuard, PermissionsGuard)
+  @OrgRoles(OrganizationRole.ADMIN)
+  @RequirePermission(PermissionResource.ORGANIZATION, PermissionAction.UPDATE)
+  @ApiOperation({ summary: 'Rename, recolour or re-categorize a status, or change its transition rules' })
+  @ApiParam({ name: 'organizationId', description: 'Organization UUID' })
+  @ApiParam({ name: 'statusId', description: 'Status UUID' })
+  @ApiResponse({ status: 200, description: 'Status updated successfully', type: WorkflowStatus })
+  @ApiResponse({ status: 400, description: 'Bad Request - Invalid fields or transition targets' })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Requires ADMIN role or higher' })
+  @ApiResponse({ status: 404, description: 'Status not found' })
+  @ApiResponse({ status: 409, description: 'Conflict - A status with this name already exists' })
+  async update(
+    @Param('organizationId', ParseUUIDPipe) organizationId: string,
+    @Param('statusId', ParseUUIDPipe) statusId: string,
+    @Body() updateStatusDto: UpdateWorkflowStatusDto
+  ) {
+    return this.workflowService.update(organizationId, statusId, updateStatusDto);
+  }
+
+  @Delete(':statusId')
+  @UseGuards(JwtAuthGuard, OrgRolesGuard, PermissionsGuard)
+  @OrgRoles(OrganizationRole.ADMIN)
+  @RequirePermission(PermissionResource.ORGANIZATION, PermissionAction.UPDATE)
+  @ApiOperation({ summary: 'Delete a status that no task uses' })
+  @ApiParam({ name: 'organizationId', description: 'Organization UUID' })
+  @ApiParam({ name: 'statusId', description: 'Status UUID' })
+  @ApiResponse({ status: 200, description: 'Status deleted successfully' })
+  @ApiResponse({ status: 400, description: 'Bad Request - The last status cannot be deleted' })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Requires ADMIN role or higher' })
+  @ApiResponse({ status: 404, description: 'Status not found' })
+  @ApiResponse({ status: 409, description: 'Conflict - Tasks are still in this status' })
+  async remove(
+    @Param('organizationId', ParseUUIDPipe) organizationId: string,
+    @Param('statusId', ParseUUIDPipe) statusId: string
+  ) {
+    await this.workflowService.delete(organizationId, statusId);
+    return { message: 'Status deleted successfully' };
+  }
+}
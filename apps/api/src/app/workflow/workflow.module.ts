@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Task, WorkflowStatus } from '@task-manager/data';
+import { AuthModule } from '@task-manager/auth';
+import { WorkflowController } from './workflow.controller';
+import { WorkflowService } from './workflow.service';
+import { AuditModule } from '../audit/audit.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([WorkflowStatus, Task]),
+    AuthModule,
+    AuditModule,
+  ],
+  controllers: [WorkflowController],
+  providers: [WorkflowService],
+  exports: [WorkflowService],
+})
+export class WorkflowModule {}
@@ -0,0 +1,303 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import {
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { Repository } from 'typeorm';
+import { Task, TaskStatus, WorkflowStatus } from '@task-manager/data';
+import { WorkflowService } from './workflow.service';
+
+describe('WorkflowService', () => {
+  let service: WorkflowService;
+  let statusRepository: jest.Mocked<Repository<WorkflowStatus>>;
+  let taskRepository: jest.Mocked<Repository<Task>>;
+
+  const makeStatus = (
+    id: string,
+    name: string,
+    category: TaskStatus,
+    position: number
+  ) =>
+    ({
+      id,
+      organizationId: 'org-uuid-1',
+      name,
+      category,
+      color: '#60a5fa',
+      position,
+      allowedTransitions: null,
+    }) as WorkflowStatus;
+
+  let todo: WorkflowStatus;
+  let review: WorkflowStatus;
+  let done: WorkflowStatus;
+
+  beforeEach(async () => {
+    todo = makeStatus('status-todo', 'To Do', TaskStatus.TODO, 0);
+    review = makeStatus('status-review', 'Review', TaskStatus.IN_PROGRESS, 1);
+    done = makeStatus('status-done', 'Done', TaskStatus.DONE, 2);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WorkflowService,
+        {
+          provide: getRepositoryToken(WorkflowStatus),
+          useValue: {
+            create: jest.fn((data) => data),
+            save: jest.fn((data) => Promise.resolve(data)),
+            find: jest.fn(),
+            findOne: jest.fn(),
+            remove: jest.fn(),
+          },
+        },
+        {
+          provide: getRepositoryToken(Task),
+          useValue: {
+            count: jest.fn(),
+            update: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<WorkflowService>(WorkflowService);
+    statusRepository = module.get(getRepositoryToken(WorkflowStatus));
+    taskRepository = module.get(getRepositoryToken(Task));
+  });
+
+  describe('createDefaults', () => {
+    it('should seed To Do, In Progress and Done in order', async () => {
+      const result = await service.createDefaults('org-uuid-1');
+
+      expect(
+        result.map((s) => [s.name, s.category, s.position])
+      ).toEqual([
+        ['To Do', TaskStatus.TODO, 0],
+        ['In Progress', TaskStatus.IN_PROGRESS, 1],
+        ['Done', TaskStatus.DONE, 2],
+      ]);
+    });
+  });
+
+  describe('create', () => {
+    it('should append the status as the last column', async () => {
+      statusRepository.find.mockResolvedValue([todo, review, done]);
+
+      const result = await service.create('org-uuid-1', {
+        name: ' Blocked ',
+        category: TaskStatus.IN_PROGRESS,
+        color: '#EF4444',
+        allowedTransitions: ['status-review', 'status-review'],
+      });
+
+      expect(result).toEqual(
+        expect.objectContaining({
+          name: 'Blocked',
+          color: '#ef4444',
+          position: 3,
+          allowedTransitions: ['status-review'],
+        })
+      );
+    });
+
+    it('should reject a name already used in the organization', async () => {
+      statusRepository.find.mockResolvedValue([todo, review, done]);
+
+      await expect(
+        service.create('org-uuid-1', {
+          name: 'review',
+          category: TaskStatus.IN_PROGRESS,
+          color: '#000000',
+        })
+      ).rejects.toThrow(ConflictException);
+    });
+
+    it('should reject transitions to statuses of another organization', async () => {
+      statusRepository.find.mockResolvedValue([todo]);
+
+      await expect(
+        service.create('org-uuid-1', {
+          name: 'Blocked',
+          category: TaskStatus.IN_PROGRESS,
+          color: '#000000',
+          allowedTransitions: ['status-elsewhere'],
+        })
+      ).rejects.toThrow(BadRequestException);
+      expect(statusRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('update', () => {
+    it('should re-categorize the tasks in a status when its category changes', async () => {
+      statusRepository.find.mockResolvedValue([todo, review, done]);
+
+      await service.update('org-uuid-1', 'status-review', {
+        category: TaskStatus.DONE,
+      });
+
+      expect(taskRepository.update).toHaveBeenCalledWith(
+        { statusId: 'status-review' },
+        { status: TaskStatus.DONE }
+      );
+    });
+
+    it('should not allow a status to list itself as a transition', async () => {
+      statusRepository.find.mockResolvedValue([todo, review, done]);
+
+      await expect(
+        service.update('org-uuid-1', 'status-review', {
+          allowedTransitions: ['status-review'],
+        })
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should throw NotFoundException for an unknown status', async () => {
+      statusRepository.find.mockResolvedValue([todo]);
+
+      await expect(
+        service.update('org-uuid-1', 'status-missing', { name: 'X' })
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('reorder', () => {
+    it('should assign positions in the given order', async () => {
+      statusRepository.find.mockResolvedValue([todo, review, done]);
+
+      const result = await service.reorder('org-uuid-1', [
+        'status-done',
+        'status-todo',
+        'status-review',
+      ]);
+
+      expect(result.map((s) => [s.id, s.position])).toEqual([
+        ['status-done', 0],
+        ['status-todo', 1],
+        ['status-review', 2],
+      ]);
+    });
+
+    it('should require every status exactly once', async () => {
+      statusRepository.find.mockResolvedValue([todo, review, done]);
+
+      await expect(
+        service.reorder('org-uuid-1', ['status-done', 'status-done', 'status-todo'])
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('delete', () => {
+    it('should refuse to delete a status that tasks are in', async () => {
+      statusRepository.find.mockResolvedValue([todo, review, done]);
+      taskRepository.count.mockResolvedValue(2);
+
+      await expect(
+        service.delete('org-uuid-1', 'status-review')
+      ).rejects.toThrow(ConflictException);
+      expect(statusRepository.remove).not.toHaveBeenCalled();
+    });
+
+    it('should count tasks in the trash as using the status', async () => {
+      statusRepository.find.mockResolvedValue([todo, review, done]);
+      taskRepository.count.mockResolvedValue(0);
+
+      await service.delete('org-uuid-1', 'status-review');
+
+      expect(taskRepository.count).toHaveBeenCalledWith({
+        where: { statusId: 'status-review' },
+        withDeleted: true,
+      });
+    });
+
+    it('should refuse to delete the last status', async () => {
+      statusRepository.find.mockResolvedValue([todo]);
+
+      await expect(service.delete('org-uuid-1', 'status-todo')).rejects.toThrow(
+        BadRequestException
+      );
+    });
+
+    it('should drop the status from other transition rules', async () => {
+      todo.allowedTransitions = ['status-review', 'status-done'];
+      statusRepository.find.mockResolvedValue([todo, review, done]);
+      taskRepository.count.mockResolvedValue(0);
+
+      await service.delete('org-uuid-1', 'status-review');
+
+      expect(todo.allowedTransitions).toEqual(['status-done']);
+      expect(statusRepository.remove).toHaveBeenCalledWith(review);
+    });
+  });
+
+  describe('resolveForTask', () => {
+    it('should reject a status from another organization', async () => {
+      statusRepository.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.resolveForTask('org-uuid-1', 'status-elsewhere')
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should pick the first status of the requested category', async () => {
+      const blocked = makeStatus('status-blocked', 'Blocked', TaskStatus.IN_PROGRESS, 3);
+      statusRepository.find.mockResolvedValue([todo, review, done, blocked]);
+
+      const result = await service.resolveForTask(
+        'org-uuid-1',
+        undefined,
+        TaskStatus.IN_PROGRESS
+      );
+
+      expect(result).toBe(review);
+    });
+
+    it('should default to the first not-started status', async () => {
+      statusRepository.find.mockResolvedValue([review, todo, done]);
+
+      const result = await service.resolveForTask('org-uuid-1');
+
+      expect(result).toBe(todo);
+    });
+
+    it('should return null when the organization has no workflow', async () => {
+      statusRepository.find.mockResolvedValue([]);
+
+      const result = await service.resolveForTask(
+        'org-uuid-1',
+        undefined,
+        TaskStatus.DONE
+      );
+
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('assertTransition', () => {
+    it('should allow any move from an unrestricted status', async () => {
+      statusRepository.findOne.mockResolvedValue(todo);
+
+      await expect(
+        service.assertTransition('status-todo', done)
+      ).resolves.toBeUndefined();
+    });
+
+    it('should refuse a move that is not in the allowed transitions', async () => {
+      statusRepository.findOne.mockResolvedValue({
+        ...todo,
+        allowedTransitions: ['status-review'],
+      });
+
+      await expect(
+        service.assertTransition('status-todo', done)
+      ).rejects.toThrow('Tasks cannot move from "To Do" to "Done"');
+    });
+
+    it('should always allow staying in the same status', async () => {
+      await service.assertTransition('status-todo', todo);
+
+      expect(statusRepository.findOne).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,328 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Task, TaskStatus, WorkflowStatus } from '@task-manager/data';
+
+export interface CreateWorkflowStatusDto {
+  name: string;
+  category: TaskStatus;
+  color: string;
+  allowedTransitions?: string[] | null;
+}
+
+export interface UpdateWorkflowStatusDto {
+  name?: string;
+  category?: TaskStatus;
+  color?: string;
+  allowedTransitions?: string[] | null;
+}
+
+/**
+ * Statuses every new organization starts with, matching the board's
+ * original three columns.
+ */
+export const DEFAULT_WORKFLOW: ReadonlyArray<
+  Pick<WorkflowStatus, 'name' | 'category' | 'color'>
+> = [
+  { name: 'To Do', category: TaskStatus.TODO, color: '#facc15' },
+  { name: 'In Progress', category: TaskStatus.IN_PROGRESS, color: '#60a5fa' },
+  { name: 'Done', category: TaskStatus.DONE, color: '#4ade80' },
+];
+
+@Injectable()
+export class WorkflowService {
+  constructor(
+    @InjectRepository(WorkflowStatus)
+    private readonly statusRepository: Repository<WorkflowStatus>,
+    @InjectRepository(Task)
+    private readonly taskRepository: Repository<Task>
+  ) {}
+
+  async findByOrganization(organizationId: string): Promise<WorkflowStatus[]> {
+    return this.statusRepository.find({
+      where: { organizationId },
+      order: { position: 'ASC' },
+    });
+  }
+
+  /**
+   * Seed the default workflow for a newly created organization.
+   */
+  async createDefaults(organizationId: string): Promise<WorkflowStatus[]> {
+    const statuses = DEFAULT_WORKFLOW.map((status, position) =>
+      this.statusRepository.create({
+        ...status,
+        organizationId,
+        position,
+        allowedTransitions: null,
+      })
+    );
+
+    return this.statusRepository.save(statuses);
+  }
+
+  async create(
+    organizationId: string,
+    dto: CreateWorkflowStatusDto
+  ): Promise<WorkflowStatus> {
+    const statuses = await this.findByOrganization(organizationId);
+    const name = dto.name.trim();
+    this.assertUniqueName(statuses, name);
+
+    const status = this.statusRepository.create({
+      organizationId,
+      name,
+      category: dto.category,
+      color: dto.color.toLowerCase(),
+      position: statuses.length
+        ? Math.max(...statuses.map((s) => s.position)) + 1
+        : 0,
+      allowedTransitions: this.resolveTransitions(
+        statuses,
+        dto.allowedTransitions
+      ),
+    });
+
+    return this.statusRepository.save(status);
+  }
+
+  /**
+   * Update a status. Changing its category re-categorizes the tasks
+   * in it so analytics stay consistent.
+   */
+  async update(
+    organizationId: string,
+    statusId: string,
+    dto: UpdateWorkflowStatusDto
+  ): Promise<WorkflowStatus> {
+    const statuses = await this.findByOrganization(organizationId);
+    const status = this.pick(statuses, statusId);
+
+    if (dto.name !== undefined) {
+      const name = dto.name.trim();
+      this.assertUniqueName(statuses, name, status.id);
+      status.name = name;
+    }
+    if (dto.color !== undefined) {
+      status.color = dto.color.toLowerCase();
+    }
+    if (dto.allowedTransitions !== undefined) {
+      status.allowedTransitions = this.resolveTransitions(
+        statuses,
+        dto.allowedTransitions,
+        status.id
+      );
+    }
+
+    const categoryChanged =
+      dto.category !== undefined && dto.category !== status.category;
+    if (dto.category !== undefined) {
+      status.category = dto.category;
+    }
+
+    const saved = await this.statusRepository.save(status);
+
+    if (categoryChanged) {
+      await this.taskRepository.update(
+        { statusId: status.id },
+        { status: status.category }
+      );
+    }
+
+    return saved;
+  }
+
+  /**
+   * Reorder the board columns. Every status of the organization must be
+   * listed exactly once.
+   */
+  async reorder(
+    organizationId: string,
+    statusIds: string[]
+  ): Promise<WorkflowStatus[]> {
+    const statuses = await this.findByOrganization(organizationId);
+
+    const uniqueIds = new Set(statusIds);
+    if (
+      uniqueIds.size !== statusIds.length ||
+      statusIds.length !== statuses.length ||
+      statuses.some((s) => !uniqueIds.has(s.id))
+    ) {
+      throw new BadRequestException(
+        'statusIds must list every status of the organization exactly once'
+      );
+    }
+
+    const byId = new Map(statuses.map((s) => [s.id, s]));
+    const ordered = statusIds.map((id, position) =>
+      Object.assign(byId.get(id) as WorkflowStatus, { position })
+    );
+
+    return this.statusRepository.save(ordered);
+  }
+
+  /**
+   * Delete a status that no task uses, counting tasks in the trash since
+   * a restore brings them back into their status. The last status of an
+   * organization cannot be deleted.
+   */
+  async delete(organizationId: string, statusId: string): Promise<void> {
+    const statuses = await this.findByOrganization(organizationId);
+    const status = this.pick(statuses, statusId);
+
+    if (statuses.length === 1) {
+      throw new BadRequestException(
+        'An organization needs at least one status'
+      );
+    }
+
+    const taskCount = await this.taskRepository.count({
+      where: { statusId: status.id },
+      withDeleted: true,
+    });
+    if (taskCount > 0) {
+      throw new ConflictException(
+        `Move the ${taskCount} task(s) out of "${status.name}", including any in the trash, before deleting it`
+      );
+    }
+
+    // Drop the status from other statuses' transition rules
+    const referencing = statuses.filter((s) =>
+      s.allowedTransitions?.includes(status.id)
+    );
+    for (const other of referencing) {
+      other.allowedTransitions = (other.allowedTransitions ?? []).filter(
+        (id) => id !== status.id
+      );
+    }
+    if (referencing.length) {
+      await this.statusRepository.save(referencing);
+    }
+
+    await this.statusRepository.remove(status);
+  }
+
+  /**
+   * Work out which status a task should be in. An explicit statusId must
+   * belong to the organization; otherwise the first status of the given
+   * category is used. Without either, new tasks land in the first
+   * not-started status (or the first column if there is none).
+   * Returns null for organizations without a workflow.
+   */
+  async resolveForTask(
+    organizationId: string,
+    statusId?: string,
+    category?: TaskStatus
+  ): Promise<WorkflowStatus | null> {
+    if (statusId) {
+      const status = await this.statusRepository.findOne({
+        where: { id: statusId, organizationId },
+      });
+      if (!status) {
+        throw new BadRequestException(
+          'Status must belong to the same organization as the task'
+        );
+      }
+      return status;
+    }
+
+    const statuses = await this.findByOrganization(organizationId);
+    if (statuses.length === 0) {
+      return null;
+    }
+
+    if (category) {
+      const match = statuses.find((s) => s.category === category);
+      if (!match) {
+        throw new BadRequestException(
+          `The organization has no status in the ${category} category`
+        );
+      }
+      return match;
+    }
+
+    return statuses.find((s) => s.category === TaskStatus.TODO) ?? statuses[0];
+  }
+
+  /**
+   * Moving a task is refused when its current status restricts where
+   * tasks may go next and the target is not among them.
+   */
+  async assertTransition(
+    fromStatusId: string | null,
+    to: WorkflowStatus
+  ): Promise<void> {
+    if (!fromStatusId || fromStatusId === to.id) {
+      return;
+    }
+
+    const from = await this.statusRepository.findOne({
+      where: { id: fromStatusId },
+    });
+
+    if (from?.allowedTransitions && !from.allowedTransitions.includes(to.id)) {
+      throw new BadRequestException(
+        `Tasks cannot move from "${from.name}" to "${to.name}"`
+      );
+    }
+  }
+
+  private pick(statuses: WorkflowStatus[], statusId: string): WorkflowStatus {
+    const status = statuses.find((s) => s.id === statusId);
+
+    if (!status) {
+      throw new NotFoundException(`Status with ID ${statusId} not found`);
+    }
+
+    return status;
+  }
+
+  /**
+   * Transition targets must be other statuses of the same organization.
+   */
+  private resolveTransitions(
+    statuses: WorkflowStatus[],
+    transitions: string[] | null | undefined,
+    statusId?: string
+  ): string[] | null {
+    if (transitions === undefined || transitions === null) {
+      return null;
+    }
+
+    const uniqueIds = [...new Set(transitions)];
+    const known = new Set(statuses.map((s) => s.id));
+    if (uniqueIds.some((id) => id === statusId || !known.has(id))) {
+      throw new BadRequestException(
+        'Allowed transitions must be other statuses of the same organization'
+      );
+    }
+
+    return uniqueIds;
+  }
+
+  /**
+   * Status names are compared case-insensitively, like label names.
+   */
+  private assertUniqueName(
+    statuses: WorkflowStatus[],
+    name: string,
+    statusId?: string
+  ): void {
+    const duplicate = statuses.find(
+      (status) =>
+        status.id !== statusId &&
+        status.name.toLowerCase() === name.toLowerCase()
+    );
+
+    if (duplicate) {
+      throw new ConflictException(
+        `A status named "${duplicate.name}" already exists`
+      );
+    }
+  }
+}
@@ -0,0 +1,60 @@
+import {
+  IsString,
+  IsUUID,
+  IsInt,
+  IsOptional,
+  IsDateString,
+  MaxLength,
+  Min,
+  Max,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional, ApiHideProperty } from '@nestjs/swagger';
+
+export class CreateWorklogDto {
+  @ApiProperty({
+    description: 'When the work started',
+    example: '2026-02-02T09:00:00.000Z',
+    format: 'date-time',
+  })
+  @IsDateString()
+  startedAt!: string;
+
+  @ApiPropertyOptional({
+    description: 'When the work ended (give this or durationMinutes)',
+    example: '2026-02-02T10:30:00.000Z',
+    format: 'date-time',
+  })
+  @IsOptional()
+  @IsDateString()
+  endedAt?: string;
+
+  @ApiPropertyOptional({
+    description: 'Minutes worked from startedAt (give this or endedAt)',
+    example: 90,
+    minimum: 1,
+    maximum: 1440,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(1440)
+  durationMinutes?: number;
+
+  @ApiPropertyOptional({
+    description: 'What the time was spent on',
+    example: 'Investigated the billing export',
+    maxLength: 1000,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  note?: string;
+
+  /**
+   * This field is injected by TaskOrgGuard for authorization purposes.
+   */
+  @ApiHideProperty()
+  @IsOptional()
+  @IsUUID()
+  organizationId?: string;
+}
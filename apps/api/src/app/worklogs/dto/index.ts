@@ -0,0 +1,4 @@
+export * from './create-worklog.dto';
+export * from './update-worklog.dto';
+export * from './start-timer.dto';
+export * from './query-timesheet.dto';
@@ -0,0 +1,34 @@
+import { IsUUID, IsOptional, IsDateString, IsString, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class QueryTimesheetDto {
+  @ApiProperty({ description: 'Organization UUID', format: 'uuid' })
+  @IsUUID()
+  organizationId!: string;
+
+  @ApiProperty({
+    description: 'Start of the week; the timesheet covers seven days from here',
+    example: '2026-02-02T00:00:00.000+01:00',
+    format: 'date-time',
+  })
+  @IsDateString()
+  from!: string;
+
+  @ApiPropertyOptional({
+    description: 'Whose timesheet to show (defaults to the caller; others need WORKLOG:MANAGE)',
+    format: 'uuid',
+  })
+  @IsOptional()
+  @IsUUID()
+  userId?: string;
+
+  @ApiPropertyOptional({
+    description: 'IANA time zone for the CSV date column',
+    example: 'Europe/Paris',
+    default: 'UTC',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(64)
+  timeZone?: string;
+}
@@ -0,0 +1,22 @@
+import { IsString, IsUUID, IsOptional, MaxLength } from 'class-validator';
+import { ApiPropertyOptional, ApiHideProperty } from '@nestjs/swagger';
+
+export class StartTimerDto {
+  @ApiPropertyOptional({
+    description: 'What the time is being spent on',
+    example: 'Pairing on the release',
+    maxLength: 1000,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  note?: string;
+
+  /**
+   * This field is injected by TaskOrgGuard for authorization purposes.
+   */
+  @ApiHideProperty()
+  @IsOptional()
+  @IsUUID()
+  organizationId?: string;
+}
@@ -0,0 +1,62 @@
+import {
+  IsString,
+  IsUUID,
+  IsInt,
+  IsOptional,
+  IsDateString,
+  MaxLength,
+  Min,
+  Max,
+} from 'class-validator';
+import { ApiPropertyOptional, ApiHideProperty } from '@nestjs/swagger';
+
+export class UpdateWorklogDto {
+  @ApiPropertyOptional({
+    description: 'When the work started',
+    example: '2026-02-02T09:00:00.000Z',
+    format: 'date-time',
+  })
+  @IsOptional()
+  @IsDateString()
+  startedAt?: string;
+
+  @ApiPropertyOptional({
+    description: 'When the work ended (give this or durationMinutes)',
+    example: '2026-02-02T10:30:00.000Z',
+    format: 'date-time',
+  })
+  @IsOptional()
+  @IsDateString()
+  endedAt?: string;
+
+  @ApiPropertyOptional({
+    description: 'Minutes worked from startedAt (give this or endedAt)',
+    example: 90,
+    minimum: 1,
+    maximum: 1440,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(1440)
+  durationMinutes?: number;
+
+  @ApiPropertyOptional({
+    description: 'What the time was spent on (null to clear)',
+    example: 'Investigated the billing export',
+    maxLength: 1000,
+    nullable: true,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  note?: string | null;
+
+  /**
+   * This field is injected by TaskOrgGuard for authorization purposes.
+   */
+  @ApiHideProperty()
+  @IsOptional()
+  @IsUUID()
+  organizationId?: string;
+}
@@ -0,0 +1,156 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+  UseInterceptors,
+  Request,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+} from '@nestjs/swagger';
+import { WorklogsService } from './worklogs.service';
+import { CreateWorklogDto, UpdateWorklogDto, StartTimerDto } from './dto';
+import { TaskOrgGuard } from '../tasks/guards/task-org.guard';
+import {
+  JwtAuthGuard,
+  OrgRolesGuard,
+  OrgRoles,
+  PermissionsGuard,
+  RequirePermission,
+  AccessTokenGrant,
+} from '@task-manager/auth';
+import {
+  OrganizationRole,
+  Worklog,
+  PermissionResource,
+  PermissionAction,
+} from '@task-manager/data';
+import { AuditInterceptor } from '../audit/audit.interceptor';
+
+interface AuthenticatedRequest extends Request {
+  user: { id: string; email: string; accessToken?: AccessTokenGrant };
+  organizationId?: string;
+}
+
+@ApiTags('Worklogs')
+@ApiBearerAuth('JWT-auth')
+@Controller('tasks/:id/worklogs')
+@UseInterceptors(AuditInterceptor)
+export class TaskWorklogsController {
+  constructor(private readonly worklogsService: WorklogsService) {}
+
+  @Get()
+  @UseGuards(JwtAuthGuard, TaskOrgGuard, OrgRolesGuard, PermissionsGuard)
+  @OrgRoles(OrganizationRole.VIEWER)
+  @RequirePermission(PermissionResource.WORKLOG, PermissionAction.READ)
+  @ApiOperation({ summary: 'Get the time logged on a task' })
+  @ApiParam({ name: 'id', description: 'Task UUID' })
+  @ApiResponse({ status: 200, description: 'Worklogs retrieved successfully', type: [Worklog] })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 403, description: 'Forbidden - User does not have access to this organization' })
+  @ApiResponse({ status: 404, description: 'Task not found' })
+  async findAll(@Param('id') taskId: string) {
+    return this.worklogsService.findByTask(taskId);
+  }
+
+  @Post()
+  @UseGuards(JwtAuthGuard, TaskOrgGuard, OrgRolesGuard, PermissionsGuard)
+  @OrgRoles(OrganizationRole.VIEWER)
+  @RequirePermission(PermissionResource.WORKLOG, PermissionAction.CREATE)
+  @ApiOperation({ summary: 'Log time on a task manually' })
+  @ApiParam({ name: 'id', description: 'Task UUID' })
+  @ApiResponse({ status: 201, description: 'Worklog created successfully', type: Worklog })
+  @ApiResponse({ status: 400, description: 'Bad request - Missing or invalid end' })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 403, description: 'Forbidden - User does not have access to this organization' })
+  @ApiResponse({ status: 404, description: 'Task not found' })
+  async create(
+    @Param('id') taskId: string,
+    @Body() createWorklogDto: CreateWorklogDto,
+    @Request() req: AuthenticatedRequest
+  ) {
+    return this.worklogsService.create(taskId, createWorklogDto, req.user.id);
+  }
+
+  @Post('timer')
+  @UseGuards(JwtAuthGuard, TaskOrgGuard, OrgRolesGuard, PermissionsGuard)
+  @OrgRoles(OrganizationRole.VIEWER)
+  @RequirePermission(PermissionResource.WORKLOG, PermissionAction.CREATE)
+  @ApiOperation({ summary: 'Start a timer on a task, stopping any timer already running' })
+  @ApiParam({ name: 'id', description: 'Task UUID' })
+  @ApiResponse({ status: 201, description: 'Timer started successfully', type: Worklog })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 403, description: 'Forbidden - User does not have access to this organization' })
+  @ApiResponse({ status: 404, description: 'Task not found' })
+  @ApiResponse({ status: 409, description: 'Conflict - Another timer was started at the same time' })
+  async startTimer(
+    @Param('id') taskId: string,
+    @Body() startTimerDto: StartTimerDto,
+    @Request() req: AuthenticatedRequest
+  ) {
+    return this.worklogsService.startTimer(taskId, startTimerDto, req.user.id);
+  }
+
+  @Put(':worklogId')
+  @UseGuards(JwtAuthGuard, TaskOrgGuard, OrgRolesGuard, PermissionsGuard)
+  @OrgRoles(OrganizationRole.VIEWER)
+  @RequirePermission(PermissionResource.WORKLOG, PermissionAction.UPDATE)
+  @ApiOperation({ summary: 'Edit a worklog' })
+  @ApiParam({ name: 'id', description: 'Task UUID' })
+  @ApiParam({ name: 'worklogId', description: 'Worklog UUID' })
+  @ApiResponse({ status: 200, description: 'Worklog updated successfully', type: Worklog })
+  @ApiResponse({ status: 400, description: 'Bad request - Invalid start or end' })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Only the owner or a manager can edit a worklog' })
+  @ApiResponse({ status: 404, description: 'Task or worklog not found' })
+  async update(
+    @Param('id') taskId: string,
+    @Param('worklogId') worklogId: string,
+    @Body() updateWorklogDto: UpdateWorklogDto,
+    @Request() req: AuthenticatedRequest
+  ) {
+    return this.worklogsService.update(
+      taskId,
+      worklogId,
+      updateWorklogDto,
+      req.user.id,
+      req.organizationId as string,
+      req.user.accessToken
+    );
+  }
+
+  @Delete(':worklogId')
+  @UseGuards(JwtAuthGuard, TaskOrgGuard, OrgRolesGuard, PermissionsGuard)
+  @OrgRoles(OrganizationRole.VIEWER)
+  @RequirePermission(PermissionResource.WORKLOG, PermissionAction.DELETE)
+  @ApiOperation({ summary: 'Delete a worklog' })
+  @ApiParam({ name: 'id', description: 'Task UUID' })
+  @ApiParam({ name: 'worklogId', description: 'Worklog UUID' })
+  @ApiResponse({ status: 200, description: 'Worklog deleted successfully' })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Only the owner or a manager can delete a worklog' })
+  @ApiResponse({ status: 404, description: 'Task or worklog not found' })
+  async remove(
+    @Param('id') taskId: string,
+    @Param('worklogId') worklogId: string,
+    @Request() req: AuthenticatedRequest
+  ) {
+    await this.worklogsService.delete(
+      taskId,
+      worklogId,
+      req.user.id,
+      req.organizationId as string,
+      req.user.accessToken
+    );
+    return { message: 'Worklog deleted successfully' };
+  }
+}
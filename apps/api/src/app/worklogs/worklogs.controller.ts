@@ -0,0 +1,118 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Query,
+  UseGuards,
+  UseInterceptors,
+  Request,
+  StreamableFile,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+} from '@nestjs/swagger';
+import { WorklogsService } from './worklogs.service';
+import { QueryTimesheetDto } from './dto';
+import {
+  JwtAuthGuard,
+  OrgRolesGuard,
+  OrgRoles,
+  PermissionsGuard,
+  RequirePermission,
+  AccessTokenGrant,
+} from '@task-manager/auth';
+import {
+  OrganizationRole,
+  Worklog,
+  PermissionResource,
+  PermissionAction,
+} from '@task-manager/data';
+import { AuditInterceptor } from '../audit/audit.interceptor';
+
+interface AuthenticatedRequest extends Request {
+  user: { id: string; email: string; accessToken?: AccessTokenGrant };
+}
+
+@ApiTags('Worklogs')
+@ApiBearerAuth('JWT-auth')
+@Controller('worklogs')
+@UseInterceptors(AuditInterceptor)
+export class WorklogsController {
+  constructor(private readonly worklogsService: WorklogsService) {}
+
+  @Get('timer')
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({ summary: "Get the caller's running timer" })
+  @ApiResponse({ status: 200, description: 'Running timer with its task, or null', type: Worklog })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  async findRunning(@Request() req: AuthenticatedRequest) {
+    return this.worklogsService.findRunning(req.user.id);
+  }
+
+  @Post('timer/stop')
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({ summary: "Stop the caller's running timer" })
+  @ApiResponse({ status: 201, description: 'Timer stopped successfully', type: Worklog })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 404, description: 'No timer is running' })
+  async stopTimer(@Request() req: AuthenticatedRequest) {
+    return this.worklogsService.stopTimer(req.user.id);
+  }
+
+  @Get('timesheet')
+  @UseGuards(JwtAuthGuard, OrgRolesGuard, PermissionsGuard)
+  @OrgRoles(OrganizationRole.VIEWER)
+  @RequirePermission(PermissionResource.WORKLOG, PermissionAction.READ)
+  @ApiOperation({ summary: "Get a user's weekly timesheet in an organization" })
+  @ApiResponse({ status: 200, description: 'Timesheet retrieved successfully' })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 403, description: "Forbidden - Viewing another user's timesheet requires WORKLOG:MANAGE" })
+  async getTimesheet(
+    @Query() query: QueryTimesheetDto,
+    @Request() req: AuthenticatedRequest
+  ) {
+    return this.worklogsService.getTimesheet(
+      {
+        organizationId: query.organizationId,
+        userId: query.userId ?? req.user.id,
+        from: new Date(query.from),
+      },
+      req.user.id,
+      req.user.accessToken
+    );
+  }
+
+  @Get('timesheet/export')
+  @UseGuards(JwtAuthGuard, OrgRolesGuard, PermissionsGuard)
+  @OrgRoles(OrganizationRole.VIEWER)
+  @RequirePermission(PermissionResource.WORKLOG, PermissionAction.READ)
+  @ApiOperation({ summary: "Export a user's weekly timesheet as CSV" })
+  @ApiResponse({ status: 200, description: 'CSV file, one row per finished worklog' })
+  @ApiResponse({ status: 400, description: 'Bad request - Unknown time zone' })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid or missing JWT token' })
+  @ApiResponse({ status: 403, description: "Forbidden - Viewing another user's timesheet requires WORKLOG:MANAGE" })
+  async exportTimesheet(
+    @Query() query: QueryTimesheetDto,
+    @Request() req: AuthenticatedRequest
+  ) {
+    const timesheet = await this.worklogsService.getTimesheet(
+      {
+        organizationId: query.organizationId,
+        userId: query.userId ?? req.user.id,
+        from: new Date(query.from),
+      },
+      req.user.id,
+      req.user.accessToken
+    );
+    const csv = this.worklogsService.toCsv(timesheet, query.timeZone);
+    const week = query.from.slice(0, 10);
+
+    return new StreamableFile(Buffer.from(csv, 'utf8'), {
+      type: 'text/csv; charset=utf-8',
+      disposition: `attachment; filename="timesheet-${week}.csv"`,
+    });
+  }
+}
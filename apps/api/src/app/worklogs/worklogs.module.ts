@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Worklog } from '@task-manager/data';
+import { AuthModule } from '@task-manager/auth';
+import { TaskWorklogsController } from './task-worklogs.controller';
+import { WorklogsController } from './worklogs.controller';
+import { WorklogsService } from './worklogs.service';
+import { TasksModule } from '../tasks/tasks.module';
+import { AuditModule } from '../audit/audit.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([Worklog]),
+    AuthModule,
+    AuditModule,
+    TasksModule,
+  ],
+  controllers: [TaskWorklogsController, WorklogsController],
+  providers: [WorklogsService],
+  exports: [WorklogsService],
+})
+export class WorklogsModule {}
@@ -0,0 +1,350 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import {
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { Repository } from 'typeorm';
+import {
+  PermissionsService,
+  AccessTokenGrant,
+  isWithinTokenScope,
+} from '@task-manager/auth';
+import {
+  Task,
+  Worklog,
+  PermissionResource,
+  PermissionAction,
+} from '@task-manager/data';
+import { WorklogsService } from './worklogs.service';
+import { TasksService } from '../tasks/tasks.service';
+
+describe('WorklogsService', () => {
+  let service: WorklogsService;
+  let worklogRepository: jest.Mocked<Repository<Worklog>>;
+  let tasksService: jest.Mocked<TasksService>;
+  let permissionsService: jest.Mocked<PermissionsService>;
+
+  const mockTask = {
+    id: 'task-uuid-1',
+    title: 'Invoice Acme',
+    organizationId: 'org-uuid-1',
+  } as Task;
+
+  const worklog = (overrides: Partial<Worklog> = {}): Worklog =>
+    ({
+      id: 'worklog-uuid-1',
+      organizationId: 'org-uuid-1',
+      taskId: 'task-uuid-1',
+      task: mockTask,
+      userId: 'user-uuid-1',
+      startedAt: new Date('2026-02-02T09:00:00.000Z'),
+      endedAt: new Date('2026-02-02T10:30:00.000Z'),
+      durationSeconds: 5400,
+      note: null,
+      ...overrides,
+    }) as Worklog;
+
+  const accessToken = (action: PermissionAction): AccessTokenGrant => ({
+    id: 'token-uuid-1',
+    scopes: [{ resource: PermissionResource.WORKLOG, action }],
+    organizationId: null,
+  });
+
+  // The role grants everything, so only the token's scopes can deny
+  const allowRoleWithinTokenScope: PermissionsService['hasPermission'] = async (
+    _userId,
+    organizationId,
+    resource,
+    action,
+    token
+  ) => !token || isWithinTokenScope(token, organizationId, resource, action);
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WorklogsService,
+        {
+          provide: getRepositoryToken(Worklog),
+          useValue: {
+            create: jest.fn((data) => data),
+            save: jest.fn((data) =>
+              Promise.resolve({ id: 'worklog-uuid-1', ...data })
+            ),
+            find: jest.fn(),
+            findOne: jest.fn(),
+            remove: jest.fn(),
+          },
+        },
+        {
+          provide: TasksService,
+          useValue: { findById: jest.fn().mockResolvedValue(mockTask) },
+        },
+        {
+          provide: PermissionsService,
+          useValue: { hasPermission: jest.fn().mockResolvedValue(false) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<WorklogsService>(WorklogsService);
+    worklogRepository = module.get(getRepositoryToken(Worklog));
+    tasksService = module.get(TasksService);
+    permissionsService = module.get(PermissionsService);
+  });
+
+  describe('create', () => {
+    it('should compute the end and duration from durationMinutes', async () => {
+      worklogRepository.findOne.mockResolvedValue(worklog());
+
+      await service.create(
+        'task-uuid-1',
+        { startedAt: '2026-02-02T09:00:00.000Z', durationMinutes: 90, note: 'Call' },
+        'user-uuid-1'
+      );
+
+      expect(worklogRepository.save).toHaveBeenCalledWith({
+        organizationId: 'org-uuid-1',
+        taskId: 'task-uuid-1',
+        userId: 'user-uuid-1',
+        note: 'Call',
+        startedAt: new Date('2026-02-02T09:00:00.000Z'),
+        endedAt: new Date('2026-02-02T10:30:00.000Z'),
+        durationSeconds: 5400,
+      });
+    });
+
+    it('should reject an entry that ends before it starts', async () => {
+      await expect(
+        service.create(
+          'task-uuid-1',
+          { startedAt: '2026-02-02T09:00:00.000Z', endedAt: '2026-02-02T08:00:00.000Z' },
+          'user-uuid-1'
+        )
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should require an end', async () => {
+      await expect(
+        service.create('task-uuid-1', { startedAt: '2026-02-02T09:00:00.000Z' }, 'user-uuid-1')
+      ).rejects.toThrow('Either endedAt or durationMinutes is required');
+    });
+
+    it('should throw NotFoundException for a deleted task', async () => {
+      tasksService.findById.mockResolvedValue(null);
+
+      await expect(
+        service.create(
+          'task-uuid-1',
+          { startedAt: '2026-02-02T09:00:00.000Z', durationMinutes: 30 },
+          'user-uuid-1'
+        )
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('startTimer', () => {
+    it('should stop the running timer before starting a new one', async () => {
+      const running = worklog({
+        startedAt: new Date(Date.now() - 60 * 1000),
+        endedAt: null,
+        durationSeconds: null,
+      });
+      worklogRepository.findOne
+        .mockResolvedValueOnce(running)
+        .mockResolvedValueOnce(worklog({ id: 'worklog-uuid-2', endedAt: null }));
+
+      const result = await service.startTimer('task-uuid-1', {}, 'user-uuid-1');
+
+      expect(worklogRepository.save).toHaveBeenNthCalledWith(
+        1,
+        expect.objectContaining({ id: 'worklog-uuid-1', durationSeconds: 60 })
+      );
+      expect(worklogRepository.save).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({ taskId: 'task-uuid-1', endedAt: null })
+      );
+      expect(result.id).toBe('worklog-uuid-2');
+    });
+  });
+
+  describe('stopTimer', () => {
+    it('should throw NotFoundException when no timer is running', async () => {
+      worklogRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.stopTimer('user-uuid-1')).rejects.toThrow(
+        'No timer is running'
+      );
+    });
+  });
+
+  describe('update', () => {
+    it("should not let a user edit someone else's worklog without WORKLOG:MANAGE", async () => {
+      worklogRepository.findOne.mockResolvedValue(worklog({ userId: 'user-uuid-2' }));
+
+      await expect(
+        service.update(
+          'task-uuid-1',
+          'worklog-uuid-1',
+          { note: 'Mine now' },
+          'user-uuid-1',
+          'org-uuid-1'
+        )
+      ).rejects.toThrow(ForbiddenException);
+      expect(permissionsService.hasPermission).toHaveBeenCalledWith(
+        'user-uuid-1',
+        'org-uuid-1',
+        PermissionResource.WORKLOG,
+        PermissionAction.MANAGE,
+        undefined
+      );
+    });
+
+    it("should not let a token scoped to worklog:update edit someone else's worklog", async () => {
+      permissionsService.hasPermission.mockImplementation(allowRoleWithinTokenScope);
+      worklogRepository.findOne.mockResolvedValue(worklog({ userId: 'user-uuid-2' }));
+
+      await expect(
+        service.update(
+          'task-uuid-1',
+          'worklog-uuid-1',
+          { note: 'Mine now' },
+          'user-uuid-1',
+          'org-uuid-1',
+          accessToken(PermissionAction.UPDATE)
+        )
+      ).rejects.toThrow(ForbiddenException);
+    });
+  });
+
+  describe('delete', () => {
+    it("should not let a token scoped to worklog:delete delete someone else's worklog", async () => {
+      permissionsService.hasPermission.mockImplementation(allowRoleWithinTokenScope);
+      worklogRepository.findOne.mockResolvedValue(worklog({ userId: 'user-uuid-2' }));
+
+      await expect(
+        service.delete(
+          'task-uuid-1',
+          'worklog-uuid-1',
+          'user-uuid-1',
+          'org-uuid-1',
+          accessToken(PermissionAction.DELETE)
+        )
+      ).rejects.toThrow(ForbiddenException);
+      expect(worklogRepository.remove).not.toHaveBeenCalled();
+    });
+
+    it('should recompute the duration when the start moves', async () => {
+      worklogRepository.findOne.mockResolvedValue(worklog());
+
+      await service.update(
+        'task-uuid-1',
+        'worklog-uuid-1',
+        { startedAt: '2026-02-02T10:00:00.000Z' },
+        'user-uuid-1',
+        'org-uuid-1'
+      );
+
+      expect(worklogRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ durationSeconds: 1800 })
+      );
+    });
+  });
+
+  describe('getTimesheet', () => {
+    const from = new Date('2026-02-01T23:00:00.000Z');
+
+    it('should total the week per day', async () => {
+      worklogRepository.find.mockResolvedValue([
+        worklog(),
+        worklog({ id: 'worklog-uuid-2', startedAt: new Date('2026-02-04T08:00:00.000Z'), durationSeconds: 3600 }),
+        worklog({ id: 'worklog-uuid-3', startedAt: new Date('2026-02-04T12:00:00.000Z'), endedAt: null, durationSeconds: null }),
+      ]);
+
+      const result = await service.getTimesheet(
+        { organizationId: 'org-uuid-1', userId: 'user-uuid-1', from },
+        'user-uuid-1'
+      );
+
+      expect(result.dailySeconds).toEqual([5400, 0, 3600, 0, 0, 0, 0]);
+      expect(result.totalSeconds).toBe(9000);
+      expect(result.to).toEqual(new Date('2026-02-08T23:00:00.000Z'));
+      expect(permissionsService.hasPermission).not.toHaveBeenCalled();
+    });
+
+    it("should require WORKLOG:MANAGE for someone else's timesheet", async () => {
+      await expect(
+        service.getTimesheet(
+          { organizationId: 'org-uuid-1', userId: 'user-uuid-2', from },
+          'user-uuid-1'
+        )
+      ).rejects.toThrow(ForbiddenException);
+      expect(worklogRepository.find).not.toHaveBeenCalled();
+    });
+
+    it("should not let a token scoped to worklog:read view someone else's timesheet", async () => {
+      permissionsService.hasPermission.mockImplementation(allowRoleWithinTokenScope);
+
+      await expect(
+        service.getTimesheet(
+          { organizationId: 'org-uuid-1', userId: 'user-uuid-2', from },
+          'user-uuid-1',
+          accessToken(PermissionAction.READ)
+        )
+      ).rejects.toThrow(ForbiddenException);
+      expect(worklogRepository.find).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('toCsv', () => {
+    it('should write finished worklogs with dates in the given time zone', () => {
+      const csv = service.toCsv(
+        {
+          userId: 'user-uuid-1',
+          from: new Date('2026-02-01T23:00:00.000Z'),
+          to: new Date('2026-02-08T23:00:00.000Z'),
+          dailySeconds: [],
+          totalSeconds: 0,
+          worklogs: [
+            worklog({
+              startedAt: new Date('2026-02-02T23:30:00.000Z'),
+              endedAt: new Date('2026-02-03T00:15:00.000Z'),
+              durationSeconds: 2700,
+              note: 'Fixed "export", again',
+            }),
+            worklog({ id: 'worklog-uuid-2', endedAt: null, durationSeconds: null }),
+          ],
+        },
+        'Europe/Paris'
+      );
+
+      expect(csv.split('\r\n')).toEqual([
+        'Date,Task,Started,Ended,Hours,Note',
+        '2026-02-03,Invoice Acme,2026-02-02T23:30:00.000Z,2026-02-03T00:15:00.000Z,0.75,"Fixed ""export"", again"',
+      ]);
+    });
+
+    it('should defuse spreadsheet formulas', () => {
+      const csv = service.toCsv({
+        userId: 'user-uuid-1',
+        from: new Date(),
+        to: new Date(),
+        dailySeconds: [],
+        totalSeconds: 0,
+        worklogs: [worklog({ note: '=HYPERLINK("http://evil")' })],
+      });
+
+      expect(csv).toContain(`"'=HYPERLINK(""http://evil"")"`);
+    });
+
+    it('should reject an unknown time zone', () => {
+      expect(() =>
+        service.toCsv(
+          { userId: 'u', from: new Date(), to: new Date(), dailySeconds: [], totalSeconds: 0, worklogs: [] },
+          'Mars/Olympus'
+        )
+      ).toThrow(BadRequestException);
+    });
+  });
+});
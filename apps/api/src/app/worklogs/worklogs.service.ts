@@ -0,0 +1,390 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+  ConflictException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, IsNull, Between, QueryFailedError } from 'typeorm';
+import {
+  Task,
+  Worklog,
+  PermissionResource,
+  PermissionAction,
+  ITimesheet,
+} from '@task-manager/data';
+import { PermissionsService, AccessTokenGrant } from '@task-manager/auth';
+import { TasksService } from '../tasks/tasks.service';
+
+export interface CreateWorklogDto {
+  startedAt: string;
+  endedAt?: string;
+  durationMinutes?: number;
+  note?: string;
+}
+
+export interface UpdateWorklogDto {
+  startedAt?: string;
+  endedAt?: string;
+  durationMinutes?: number;
+  note?: string | null;
+}
+
+export interface StartTimerDto {
+  note?: string;
+}
+
+export interface TimesheetQuery {
+  organizationId: string;
+  userId: string;
+  /** Start of the week; the timesheet covers seven days from here */
+  from: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const CSV_HEADER = ['Date', 'Task', 'Started', 'Ended', 'Hours', 'Note'];
+
+@Injectable()
+export class WorklogsService {
+  constructor(
+    @InjectRepository(Worklog)
+    private readonly worklogRepository: Repository<Worklog>,
+    private readonly tasksService: TasksService,
+    private readonly permissionsService: PermissionsService
+  ) {}
+
+  /**
+   * Get the worklogs of a task, newest first.
+   */
+  async findByTask(taskId: string): Promise<Worklog[]> {
+    return this.worklogRepository.find({
+      where: { taskId },
+      relations: { user: true },
+      order: { startedAt: 'DESC' },
+    });
+  }
+
+  /**
+   * Log time after the fact. The end is given either as `endedAt` or
+   * as a duration from `startedAt`.
+   */
+  async create(
+    taskId: string,
+    dto: CreateWorklogDto,
+    userId: string
+  ): Promise<Worklog> {
+    const task = await this.getActiveTask(taskId);
+    const startedAt = new Date(dto.startedAt);
+    const endedAt = this.resolveEnd(startedAt, dto);
+    if (!endedAt) {
+      throw new BadRequestException('Either endedAt or durationMinutes is required');
+    }
+
+    const worklog = this.worklogRepository.create({
+      organizationId: task.organizationId,
+      taskId,
+      userId,
+      note: dto.note ?? null,
+      ...this.interval(startedAt, endedAt),
+    });
+
+    const saved = await this.worklogRepository.save(worklog);
+    return this.findWorklog(taskId, saved.id);
+  }
+
+  /**
+   * Start a timer on a task. A timer already running for the user is
+   * stopped first, so switching tasks is a single call.
+   */
+  async startTimer(
+    taskId: string,
+    dto: StartTimerDto,
+    userId: string
+  ): Promise<Worklog> {
+    const task = await this.getActiveTask(taskId);
+
+    const running = await this.findRunning(userId);
+    if (running) {
+      await this.stop(running);
+    }
+
+    const worklog = this.worklogRepository.create({
+      organizationId: task.organizationId,
+      taskId,
+      userId,
+      startedAt: new Date(),
+      endedAt: null,
+      durationSeconds: null,
+      note: dto.note ?? null,
+    });
+
+    try {
+      await this.worklogRepository.save(worklog);
+    } catch (error) {
+      // Another request started a timer in the meantime
+      if (this.isUniqueViolation(error)) {
+        throw new ConflictException('A timer is already running');
+      }
+      throw error;
+    }
+
+    return this.findRunning(userId) as Promise<Worklog>;
+  }
+
+  /**
+   * The user's running timer, with its task.
+   */
+  async findRunning(userId: string): Promise<Worklog | null> {
+    return this.worklogRepository.findOne({
+      where: { userId, endedAt: IsNull() },
+      relations: { task: true, user: true },
+    });
+  }
+
+  /**
+   * Stop the user's running timer.
+   */
+  async stopTimer(userId: string): Promise<Worklog> {
+    const running = await this.findRunning(userId);
+    if (!running) {
+      throw new NotFoundException('No timer is running');
+    }
+    return this.stop(running);
+  }
+
+  /**
+   * Edit a worklog. Users edit their own; others' need WORKLOG:MANAGE.
+   */
+  async update(
+    taskId: string,
+    worklogId: string,
+    dto: UpdateWorklogDto,
+    userId: string,
+    organizationId: string,
+    accessToken?: AccessTokenGrant
+  ): Promise<Worklog> {
+    const worklog = await this.findWorklog(taskId, worklogId);
+    await this.assertCanModify(worklog, userId, organizationId, 'edit', accessToken);
+
+    const startedAt = dto.startedAt ? new Date(dto.startedAt) : worklog.startedAt;
+    const endedAt = this.resolveEnd(startedAt, dto) ?? worklog.endedAt;
+
+    if (endedAt) {
+      Object.assign(worklog, this.interval(startedAt, endedAt));
+    } else {
+      // A running timer only has a start
+      if (startedAt > new Date()) {
+        throw new BadRequestException('A running timer cannot start in the future');
+      }
+      worklog.startedAt = startedAt;
+    }
+
+    if (dto.note !== undefined) {
+      worklog.note = dto.note;
+    }
+
+    await this.worklogRepository.save(worklog);
+    return this.findWorklog(taskId, worklogId);
+  }
+
+  /**
+   * Delete a worklog. Users delete their own; others' need WORKLOG:MANAGE.
+   */
+  async delete(
+    taskId: string,
+    worklogId: string,
+    userId: string,
+    organizationId: string,
+    accessToken?: AccessTokenGrant
+  ): Promise<void> {
+    const worklog = await this.findWorklog(taskId, worklogId);
+    await this.assertCanModify(worklog, userId, organizationId, 'delete', accessToken);
+    await this.worklogRepository.remove(worklog);
+  }
+
+  /**
+   * A user's worklogs in an organization for the seven days from
+   * `query.from`, with daily totals. Viewing someone else's timesheet
+   * needs WORKLOG:MANAGE.
+   */
+  async getTimesheet(
+    query: TimesheetQuery,
+    requesterId: string,
+    accessToken?: AccessTokenGrant
+  ): Promise<ITimesheet> {
+    if (query.userId !== requesterId) {
+      const canManage = await this.permissionsService.hasPermission(
+        requesterId,
+        query.organizationId,
+        PermissionResource.WORKLOG,
+        PermissionAction.MANAGE,
+        accessToken
+      );
+      if (!canManage) {
+        throw new ForbiddenException('You can only view your own timesheet');
+      }
+    }
+
+    const from = query.from;
+    const to = new Date(from.getTime() + 7 * DAY_MS);
+
+    const worklogs = await this.worklogRepository.find({
+      where: {
+        organizationId: query.organizationId,
+        userId: query.userId,
+        startedAt: Between(from, new Date(to.getTime() - 1)),
+      },
+      // Time logged on tasks that were deleted since still counts
+      relations: { task: true },
+      withDeleted: true,
+      order: { startedAt: 'ASC' },
+    });
+
+    const dailySeconds = Array<number>(7).fill(0);
+    for (const worklog of worklogs) {
+      const day = Math.floor((worklog.startedAt.getTime() - from.getTime()) / DAY_MS);
+      dailySeconds[day] += worklog.durationSeconds ?? 0;
+    }
+
+    return {
+      userId: query.userId,
+      from,
+      to,
+      dailySeconds,
+      totalSeconds: dailySeconds.reduce((sum, seconds) => sum + seconds, 0),
+      worklogs,
+    };
+  }
+
+  /**
+   * Render a timesheet as CSV, one row per finished worklog. The date
+   * column is the day the work started in `timeZone`.
+   */
+  toCsv(timesheet: ITimesheet, timeZone = 'UTC'): string {
+    let dateFormat: Intl.DateTimeFormat;
+    try {
+      // en-CA formats dates as YYYY-MM-DD
+      dateFormat = new Intl.DateTimeFormat('en-CA', { timeZone });
+    } catch {
+      throw new BadRequestException(`Unknown time zone ${timeZone}`);
+    }
+
+    const rows = timesheet.worklogs
+      .filter((worklog) => worklog.endedAt)
+      .map((worklog) => [
+        dateFormat.format(worklog.startedAt),
+        worklog.task?.title ?? '',
+        worklog.startedAt.toISOString(),
+        (worklog.endedAt as Date).toISOString(),
+        ((worklog.durationSeconds ?? 0) / 3600).toFixed(2),
+        worklog.note ?? '',
+      ]);
+
+    return [CSV_HEADER, ...rows]
+      .map((row) => row.map((cell) => this.csvCell(cell)).join(','))
+      .join('\r\n');
+  }
+
+  private async stop(worklog: Worklog): Promise<Worklog> {
+    Object.assign(worklog, this.interval(worklog.startedAt, new Date()));
+    return this.worklogRepository.save(worklog);
+  }
+
+  private resolveEnd(
+    startedAt: Date,
+    dto: { endedAt?: string; durationMinutes?: number }
+  ): Date | null {
+    if (dto.endedAt && dto.durationMinutes !== undefined) {
+      throw new BadRequestException('Give either endedAt or durationMinutes, not both');
+    }
+    if (dto.endedAt) {
+      return new Date(dto.endedAt);
+    }
+    if (dto.durationMinutes !== undefined) {
+      return new Date(startedAt.getTime() + dto.durationMinutes * 60 * 1000);
+    }
+    return null;
+  }
+
+  private interval(
+    startedAt: Date,
+    endedAt: Date
+  ): Pick<Worklog, 'startedAt' | 'endedAt' | 'durationSeconds'> {
+    if (endedAt <= startedAt) {
+      throw new BadRequestException('A worklog must end after it starts');
+    }
+    return {
+      startedAt,
+      endedAt,
+      durationSeconds: Math.round((endedAt.getTime() - startedAt.getTime()) / 1000),
+    };
+  }
+
+  private async assertCanModify(
+    worklog: Worklog,
+    userId: string,
+    organizationId: string,
+    verb: 'edit' | 'delete',
+    accessToken?: AccessTokenGrant
+  ): Promise<void> {
+    if (worklog.userId === userId) {
+      return;
+    }
+
+    const canManage = await this.permissionsService.hasPermission(
+      userId,
+      organizationId,
+      PermissionResource.WORKLOG,
+      PermissionAction.MANAGE,
+      accessToken
+    );
+
+    if (!canManage) {
+      throw new ForbiddenException(`You can only ${verb} your own worklogs`);
+    }
+  }
+
+  /**
+   * Time can only be logged on tasks that are not deleted.
+   */
+  private async getActiveTask(taskId: string): Promise<Task> {
+    const task = await this.tasksService.findById(taskId);
+
+    if (!task) {
+      throw new NotFoundException(`Task with ID ${taskId} not found`);
+    }
+
+    return task;
+  }
+
+  private async findWorklog(taskId: string, worklogId: string): Promise<Worklog> {
+    const worklog = await this.worklogRepository.findOne({
+      where: { id: worklogId, taskId },
+      relations: { user: true },
+    });
+
+    if (!worklog) {
+      throw new NotFoundException(`Worklog with ID ${worklogId} not found`);
+    }
+
+    return worklog;
+  }
+
+  /**
+   * Quote a CSV cell, and defuse values a spreadsheet would run as a
+   * formula.
+   */
+  private csvCell(value: string): string {
+    const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+  }
+
+  private isUniqueViolation(error: unknown): boolean {
+    return (
+      error instanceof QueryFailedError &&
+      (error.driverError as { code?: string })?.code === '23505'
+    );
+  }
+}
@@ -0,0 +1,26 @@
+import { registerAs } from '@nestjs/config';
+
+export interface AttachmentsConfig {
+  driver: string;
+  directory: string;
+  maxFileSizeMb: number;
+  defaultQuotaMb: number;
+  defaultAllowedMimeTypes: string[];
+}
+
+export default registerAs(
+  'attachments',
+  (): AttachmentsConfig => ({
+    driver: process.env.ATTACHMENTS_DRIVER || 'local',
+    directory: process.env.ATTACHMENTS_DIR || 'uploads',
+    maxFileSizeMb: parseInt(process.env.ATTACHMENTS_MAX_FILE_SIZE_MB || '10', 10),
+    defaultQuotaMb: parseInt(process.env.ATTACHMENTS_DEFAULT_QUOTA_MB || '500', 10),
+    defaultAllowedMimeTypes: (
+      process.env.ATTACHMENTS_ALLOWED_MIME_TYPES ||
+      'image/*,text/*,application/pdf,application/json,application/zip,application/gzip'
+    )
+      .split(',')
+      .map((type) => type.trim())
+      .filter(Boolean),
+  })
+);
@@ -0,0 +1,14 @@
+import { registerAs } from '@nestjs/config';
+
+export interface RecurrenceConfig {
+  schedulerEnabled: boolean;
+  pollIntervalMs: number;
+}
+
+export default registerAs(
+  'recurrence',
+  (): RecurrenceConfig => ({
+    schedulerEnabled: process.env.RECURRENCE_SCHEDULER_ENABLED !== 'false',
+    pollIntervalMs: parseInt(process.env.RECURRENCE_POLL_INTERVAL_MS || '60000', 10),
+  })
+);
@@ -0,0 +1,27 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddTaskDates1769900000000 implements MigrationInterface {
+  name = 'AddTaskDates1769900000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Add nullable start/due date columns
+    await queryRunner.query(`
+      ALTER TABLE "tasks"
+      ADD "start_date" TIMESTAMP,
+      ADD "due_date" TIMESTAMP
+    `);
+
+    // Index due_date for overdue / due range filtering
+    await queryRunner.query(`
+      CREATE INDEX "idx_task_due_date" ON "tasks" ("due_date")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "public"."idx_task_due_date"`);
+
+    await queryRunner.query(`
+      ALTER TABLE "tasks" DROP COLUMN "due_date", DROP COLUMN "start_date"
+    `);
+  }
+}
@@ -0,0 +1,64 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddSubtasksAndChecklists1769910000000 implements MigrationInterface {
+  name = 'AddSubtasksAndChecklists1769910000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Self-referencing parent for subtasks
+    await queryRunner.query(`
+      ALTER TABLE "tasks" ADD "parent_id" uuid
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "tasks"
+      ADD CONSTRAINT "FK_task_parent"
+      FOREIGN KEY ("parent_id") REFERENCES "tasks"("id")
+      ON DELETE SET NULL
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "idx_task_parent" ON "tasks" ("parent_id")
+    `);
+
+    // Checklist items, ordered by position within a task
+    await queryRunner.query(`
+      CREATE TABLE "task_checklist_items" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "task_id" uuid NOT NULL,
+        "title" character varying(255) NOT NULL,
+        "is_done" boolean NOT NULL DEFAULT false,
+        "position" integer NOT NULL DEFAULT 0,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_task_checklist_items" PRIMARY KEY ("id")
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "idx_checklist_item_task" ON "task_checklist_items" ("task_id")
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "task_checklist_items"
+      ADD CONSTRAINT "FK_checklist_item_task"
+      FOREIGN KEY ("task_id") REFERENCES "tasks"("id")
+      ON DELETE CASCADE
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "task_checklist_items" DROP CONSTRAINT "FK_checklist_item_task"
+    `);
+    await queryRunner.query(`DROP INDEX "public"."idx_checklist_item_task"`);
+    await queryRunner.query(`DROP TABLE "task_checklist_items"`);
+
+    await queryRunner.query(`DROP INDEX "public"."idx_task_parent"`);
+    await queryRunner.query(`
+      ALTER TABLE "tasks" DROP CONSTRAINT "FK_task_parent"
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "tasks" DROP COLUMN "parent_id"
+    `);
+  }
+}
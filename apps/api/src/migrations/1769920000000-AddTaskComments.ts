@@ -0,0 +1,137 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddTaskComments1769920000000 implements MigrationInterface {
+  name = 'AddTaskComments1769920000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Add COMMENT to the permission resource enum.
+    // The type is recreated because values added with ALTER TYPE ... ADD VALUE
+    // cannot be used until the migration transaction commits.
+    await queryRunner.query(`
+      ALTER TYPE "public"."permissions_resource_enum" RENAME TO "permissions_resource_enum_old"
+    `);
+    await queryRunner.query(`
+      CREATE TYPE "public"."permissions_resource_enum" AS ENUM('TASK', 'ORGANIZATION', 'MEMBER', 'AUDIT_LOG', 'INVITATION', 'COMMENT')
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "permissions"
+      ALTER COLUMN "resource" TYPE "public"."permissions_resource_enum"
+      USING "resource"::text::"public"."permissions_resource_enum"
+    `);
+    await queryRunner.query(`DROP TYPE "public"."permissions_resource_enum_old"`);
+
+    // Create task_comments table
+    await queryRunner.query(`
+      CREATE TABLE "task_comments" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "task_id" uuid NOT NULL,
+        "author_id" uuid,
+        "parent_id" uuid,
+        "body" text NOT NULL,
+        "edited_at" TIMESTAMP,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_task_comments" PRIMARY KEY ("id")
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "idx_comment_task" ON "task_comments" ("task_id")
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "idx_comment_parent" ON "task_comments" ("parent_id")
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "task_comments"
+      ADD CONSTRAINT "FK_comment_task"
+      FOREIGN KEY ("task_id") REFERENCES "tasks"("id")
+      ON DELETE CASCADE
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "task_comments"
+      ADD CONSTRAINT "FK_comment_author"
+      FOREIGN KEY ("author_id") REFERENCES "users"("id")
+      ON DELETE SET NULL
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "task_comments"
+      ADD CONSTRAINT "FK_comment_parent"
+      FOREIGN KEY ("parent_id") REFERENCES "task_comments"("id")
+      ON DELETE CASCADE
+    `);
+
+    // Create mentions join table
+    await queryRunner.query(`
+      CREATE TABLE "task_comment_mentions" (
+        "comment_id" uuid NOT NULL,
+        "user_id" uuid NOT NULL,
+        CONSTRAINT "PK_task_comment_mentions" PRIMARY KEY ("comment_id", "user_id"),
+        CONSTRAINT "FK_comment_mention_comment" FOREIGN KEY ("comment_id") REFERENCES "task_comments"("id") ON DELETE CASCADE,
+        CONSTRAINT "FK_comment_mention_user" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "idx_comment_mention_user" ON "task_comment_mentions" ("user_id")
+    `);
+
+    // Seed comment permissions
+    const permissions = [
+      { name: 'Create Comments', description: 'Comment on tasks', action: 'CREATE' },
+      { name: 'Read Comments', description: 'View task comments', action: 'READ' },
+      { name: 'Update Comments', description: 'Edit own comments', action: 'UPDATE' },
+      { name: 'Delete Comments', description: 'Delete own comments', action: 'DELETE' },
+      { name: 'Manage Comments', description: 'Delete comments written by others', action: 'MANAGE' },
+    ];
+
+    for (const perm of permissions) {
+      await queryRunner.query(`
+        INSERT INTO "permissions" ("name", "description", "resource", "action")
+        VALUES ('${perm.name}', '${perm.description}', 'COMMENT', '${perm.action}')
+      `);
+    }
+
+    // OWNER/ADMIN: all comment permissions
+    // VIEWER: everything except moderating others' comments
+    const rolePermissions: Record<string, string[]> = {
+      OWNER: ['CREATE', 'READ', 'UPDATE', 'DELETE', 'MANAGE'],
+      ADMIN: ['CREATE', 'READ', 'UPDATE', 'DELETE', 'MANAGE'],
+      VIEWER: ['CREATE', 'READ', 'UPDATE', 'DELETE'],
+    };
+
+    for (const [role, actions] of Object.entries(rolePermissions)) {
+      for (const action of actions) {
+        await queryRunner.query(`
+          INSERT INTO "role_permissions" ("role", "permission_id")
+          SELECT '${role}', "id" FROM "permissions"
+          WHERE "resource" = 'COMMENT' AND "action" = '${action}'
+        `);
+      }
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "task_comment_mentions"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "task_comments"`);
+
+    // role_permissions and user_permissions rows cascade
+    await queryRunner.query(`DELETE FROM "permissions" WHERE "resource" = 'COMMENT'`);
+
+    await queryRunner.query(`
+      ALTER TYPE "public"."permissions_resource_enum" RENAME TO "permissions_resource_enum_old"
+    `);
+    await queryRunner.query(`
+      CREATE TYPE "public"."permissions_resource_enum" AS ENUM('TASK', 'ORGANIZATION', 'MEMBER', 'AUDIT_LOG', 'INVITATION')
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "permissions"
+      ALTER COLUMN "resource" TYPE "public"."permissions_resource_enum"
+      USING "resource"::text::"public"."permissions_resource_enum"
+    `);
+    await queryRunner.query(`DROP TYPE "public"."permissions_resource_enum_old"`);
+  }
+}
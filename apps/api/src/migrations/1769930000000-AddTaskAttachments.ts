@@ -0,0 +1,63 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddTaskAttachments1769930000000 implements MigrationInterface {
+  name = 'AddTaskAttachments1769930000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Per-organization attachment settings (null = server default)
+    await queryRunner.query(`
+      ALTER TABLE "organizations"
+      ADD "attachment_quota_mb" integer,
+      ADD "allowed_mime_types" character varying(255) array
+    `);
+
+    // Create task_attachments table
+    await queryRunner.query(`
+      CREATE TABLE "task_attachments" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "task_id" uuid NOT NULL,
+        "organization_id" uuid NOT NULL,
+        "uploaded_by_id" uuid,
+        "file_name" character varying(255) NOT NULL,
+        "mime_type" character varying(255) NOT NULL,
+        "size" integer NOT NULL,
+        "storage_key" character varying(512) NOT NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "deleted_at" TIMESTAMP,
+        CONSTRAINT "PK_task_attachments" PRIMARY KEY ("id")
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "idx_attachment_task" ON "task_attachments" ("task_id")
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "idx_attachment_org" ON "task_attachments" ("organization_id")
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "task_attachments"
+      ADD CONSTRAINT "FK_attachment_task"
+      FOREIGN KEY ("task_id") REFERENCES "tasks"("id")
+      ON DELETE CASCADE
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "task_attachments"
+      ADD CONSTRAINT "FK_attachment_uploader"
+      FOREIGN KEY ("uploaded_by_id") REFERENCES "users"("id")
+      ON DELETE SET NULL
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "task_attachments"`);
+
+    await queryRunner.query(`
+      ALTER TABLE "organizations"
+      DROP COLUMN "allowed_mime_types",
+      DROP COLUMN "attachment_quota_mb"
+    `);
+  }
+}
@@ -0,0 +1,118 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class ReplaceTaskCategoryWithLabels1769940000000
+  implements MigrationInterface
+{
+  name = 'ReplaceTaskCategoryWithLabels1769940000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Create labels table
+    await queryRunner.query(`
+      CREATE TABLE "labels" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "organization_id" uuid NOT NULL,
+        "name" character varying(50) NOT NULL,
+        "color" character varying(7) NOT NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_labels" PRIMARY KEY ("id")
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX "idx_label_org_name" ON "labels" ("organization_id", "name")
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "labels"
+      ADD CONSTRAINT "FK_label_organization"
+      FOREIGN KEY ("organization_id") REFERENCES "organizations"("id")
+      ON DELETE CASCADE
+    `);
+
+    // Create task <-> label join table
+    await queryRunner.query(`
+      CREATE TABLE "task_labels" (
+        "task_id" uuid NOT NULL,
+        "label_id" uuid NOT NULL,
+        CONSTRAINT "PK_task_labels" PRIMARY KEY ("task_id", "label_id"),
+        CONSTRAINT "FK_task_label_task" FOREIGN KEY ("task_id") REFERENCES "tasks"("id") ON DELETE CASCADE,
+        CONSTRAINT "FK_task_label_label" FOREIGN KEY ("label_id") REFERENCES "labels"("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "idx_task_label_label" ON "task_labels" ("label_id")
+    `);
+
+    // Turn every category in use into a label of the task's organization,
+    // keeping the colours the dashboard used for them
+    await queryRunner.query(`
+      INSERT INTO "labels" ("organization_id", "name", "color")
+      SELECT DISTINCT
+        "organization_id",
+        initcap("category"::text),
+        CASE "category"
+          WHEN 'WORK' THEN '#6366f1'
+          WHEN 'PERSONAL' THEN '#22c55e'
+          WHEN 'URGENT' THEN '#ef4444'
+          ELSE '#6b7280'
+        END
+      FROM "tasks"
+    `);
+
+    await queryRunner.query(`
+      INSERT INTO "task_labels" ("task_id", "label_id")
+      SELECT t."id", l."id"
+      FROM "tasks" t
+      JOIN "labels" l
+        ON l."organization_id" = t."organization_id"
+        AND l."name" = initcap(t."category"::text)
+    `);
+
+    // Drop the category column and its enum
+    await queryRunner.query(`
+      ALTER TABLE "tasks" DROP COLUMN "category"
+    `);
+
+    await queryRunner.query(`
+      DROP TYPE "public"."tasks_category_enum"
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TYPE "public"."tasks_category_enum" AS ENUM('GENERAL', 'WORK', 'PERSONAL', 'URGENT')
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "tasks"
+      ADD "category" "public"."tasks_category_enum" NOT NULL DEFAULT 'GENERAL'
+    `);
+
+    // Restore the category from a matching label; URGENT wins over WORK
+    // over PERSONAL when a task has several. Other labels are lost.
+    await queryRunner.query(`
+      UPDATE "tasks" t
+      SET "category" = (
+        SELECT upper(l."name")::"public"."tasks_category_enum"
+        FROM "task_labels" tl
+        JOIN "labels" l ON l."id" = tl."label_id"
+        WHERE tl."task_id" = t."id"
+          AND upper(l."name") IN ('URGENT', 'WORK', 'PERSONAL')
+        ORDER BY array_position(ARRAY['URGENT', 'WORK', 'PERSONAL'], upper(l."name"))
+        LIMIT 1
+      )
+      WHERE EXISTS (
+        SELECT 1
+        FROM "task_labels" tl
+        JOIN "labels" l ON l."id" = tl."label_id"
+        WHERE tl."task_id" = t."id"
+          AND upper(l."name") IN ('URGENT', 'WORK', 'PERSONAL')
+      )
+    `);
+
+    await queryRunner.query(`DROP TABLE IF EXISTS "task_labels"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "labels"`);
+  }
+}
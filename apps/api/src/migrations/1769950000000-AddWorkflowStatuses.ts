@@ -0,0 +1,96 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddWorkflowStatuses1769950000000 implements MigrationInterface {
+  name = 'AddWorkflowStatuses1769950000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Create workflow status category enum
+    await queryRunner.query(`
+      CREATE TYPE "public"."workflow_statuses_category_enum" AS ENUM('TODO', 'IN_PROGRESS', 'DONE')
+    `);
+
+    // Create workflow_statuses table
+    await queryRunner.query(`
+      CREATE TABLE "workflow_statuses" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "organization_id" uuid NOT NULL,
+        "name" character varying(50) NOT NULL,
+        "category" "public"."workflow_statuses_category_enum" NOT NULL,
+        "color" character varying(7) NOT NULL,
+        "position" integer NOT NULL,
+        "allowed_transitions" uuid array,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_workflow_statuses" PRIMARY KEY ("id")
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX "idx_workflow_status_org_name" ON "workflow_statuses" ("organization_id", "name")
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "idx_workflow_status_org_position" ON "workflow_statuses" ("organization_id", "position")
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "workflow_statuses"
+      ADD CONSTRAINT "FK_workflow_status_organization"
+      FOREIGN KEY ("organization_id") REFERENCES "organizations"("id")
+      ON DELETE CASCADE
+    `);
+
+    // Give every existing organization the three columns the board used to have
+    await queryRunner.query(`
+      INSERT INTO "workflow_statuses" ("organization_id", "name", "category", "color", "position")
+      SELECT o."id", s."name", s."category"::"public"."workflow_statuses_category_enum", s."color", s."position"
+      FROM "organizations" o
+      CROSS JOIN (
+        VALUES
+          ('To Do', 'TODO', '#facc15', 0),
+          ('In Progress', 'IN_PROGRESS', '#60a5fa', 1),
+          ('Done', 'DONE', '#4ade80', 2)
+      ) AS s("name", "category", "color", "position")
+    `);
+
+    // Point tasks at the workflow status matching their current status
+    await queryRunner.query(`
+      ALTER TABLE "tasks" ADD "status_id" uuid
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "idx_task_status" ON "tasks" ("status_id")
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "tasks"
+      ADD CONSTRAINT "FK_task_workflow_status"
+      FOREIGN KEY ("status_id") REFERENCES "workflow_statuses"("id")
+      ON DELETE SET NULL
+    `);
+
+    await queryRunner.query(`
+      UPDATE "tasks" t
+      SET "status_id" = ws."id"
+      FROM "workflow_statuses" ws
+      WHERE ws."organization_id" = t."organization_id"
+        AND ws."category"::text = t."status"::text
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // tasks.status already holds each task's category, so nothing is lost
+    await queryRunner.query(`
+      ALTER TABLE "tasks" DROP CONSTRAINT IF EXISTS "FK_task_workflow_status"
+    `);
+    await queryRunner.query(`DROP INDEX IF EXISTS "idx_task_status"`);
+    await queryRunner.query(`
+      ALTER TABLE "tasks" DROP COLUMN IF EXISTS "status_id"
+    `);
+
+    await queryRunner.query(`DROP TABLE IF EXISTS "workflow_statuses"`);
+    await queryRunner.query(`
+      DROP TYPE IF EXISTS "public"."workflow_statuses_category_enum"
+    `);
+  }
+}
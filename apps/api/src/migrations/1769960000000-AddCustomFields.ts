@@ -0,0 +1,127 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddCustomFields1769960000000 implements MigrationInterface {
+  name = 'AddCustomFields1769960000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Add CUSTOM_FIELD to the permission resource enum.
+    // ALTER TYPE ... ADD VALUE can't run inside the migration transaction,
+    // so the type is recreated instead.
+    await queryRunner.query(`
+      ALTER TYPE "public"."permissions_resource_enum" RENAME TO "permissions_resource_enum_old"
+    `);
+    await queryRunner.query(`
+      CREATE TYPE "public"."permissions_resource_enum" AS ENUM('TASK', 'ORGANIZATION', 'MEMBER', 'AUDIT_LOG', 'INVITATION', 'COMMENT', 'CUSTOM_FIELD')
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "permissions"
+      ALTER COLUMN "resource" TYPE "public"."permissions_resource_enum"
+      USING "resource"::text::"public"."permissions_resource_enum"
+    `);
+    await queryRunner.query(`DROP TYPE "public"."permissions_resource_enum_old"`);
+
+    // Create custom field type enum
+    await queryRunner.query(`
+      CREATE TYPE "public"."custom_fields_type_enum" AS ENUM('TEXT', 'NUMBER', 'DATE', 'SINGLE_SELECT', 'MULTI_SELECT', 'USER')
+    `);
+
+    // Create custom_fields table
+    await queryRunner.query(`
+      CREATE TABLE "custom_fields" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "organization_id" uuid NOT NULL,
+        "name" character varying(50) NOT NULL,
+        "type" "public"."custom_fields_type_enum" NOT NULL,
+        "options" character varying(100) array,
+        "required" boolean NOT NULL DEFAULT false,
+        "position" integer NOT NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_custom_fields" PRIMARY KEY ("id")
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX "idx_custom_field_org_name" ON "custom_fields" ("organization_id", "name")
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "custom_fields"
+      ADD CONSTRAINT "FK_custom_field_organization"
+      FOREIGN KEY ("organization_id") REFERENCES "organizations"("id")
+      ON DELETE CASCADE
+    `);
+
+    // Values are stored on the task, keyed by field ID
+    await queryRunner.query(`
+      ALTER TABLE "tasks"
+      ADD "custom_field_values" jsonb NOT NULL DEFAULT '{}'
+    `);
+
+    // Speeds up the @> containment filter used by GET /tasks
+    await queryRunner.query(`
+      CREATE INDEX "idx_task_custom_field_values" ON "tasks"
+      USING gin ("custom_field_values" jsonb_path_ops)
+    `);
+
+    // Seed custom field permissions
+    const permissions = [
+      { name: 'Create Custom Fields', description: 'Define custom task fields', action: 'CREATE' },
+      { name: 'Read Custom Fields', description: 'View custom field definitions', action: 'READ' },
+      { name: 'Update Custom Fields', description: 'Edit custom field definitions', action: 'UPDATE' },
+      { name: 'Delete Custom Fields', description: 'Delete custom fields and their values', action: 'DELETE' },
+    ];
+
+    for (const perm of permissions) {
+      await queryRunner.query(`
+        INSERT INTO "permissions" ("name", "description", "resource", "action")
+        VALUES ('${perm.name}', '${perm.description}', 'CUSTOM_FIELD', '${perm.action}')
+      `);
+    }
+
+    // OWNER/ADMIN: manage field definitions
+    // VIEWER: read only (needed to show the fields on tasks)
+    const rolePermissions: Record<string, string[]> = {
+      OWNER: ['CREATE', 'READ', 'UPDATE', 'DELETE'],
+      ADMIN: ['CREATE', 'READ', 'UPDATE', 'DELETE'],
+      VIEWER: ['READ'],
+    };
+
+    for (const [role, actions] of Object.entries(rolePermissions)) {
+      for (const action of actions) {
+        await queryRunner.query(`
+          INSERT INTO "role_permissions" ("role", "permission_id")
+          SELECT '${role}', "id" FROM "permissions"
+          WHERE "resource" = 'CUSTOM_FIELD' AND "action" = '${action}'
+        `);
+      }
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "idx_task_custom_field_values"`);
+    await queryRunner.query(`
+      ALTER TABLE "tasks" DROP COLUMN IF EXISTS "custom_field_values"
+    `);
+    await queryRunner.query(`DROP TABLE IF EXISTS "custom_fields"`);
+    await queryRunner.query(`
+      DROP TYPE IF EXISTS "public"."custom_fields_type_enum"
+    `);
+
+    // role_permissions and user_permissions rows cascade
+    await queryRunner.query(`DELETE FROM "permissions" WHERE "resource" = 'CUSTOM_FIELD'`);
+
+    await queryRunner.query(`
+      ALTER TYPE "public"."permissions_resource_enum" RENAME TO "permissions_resource_enum_old"
+    `);
+    await queryRunner.query(`
+      CREATE TYPE "public"."permissions_resource_enum" AS ENUM('TASK', 'ORGANIZATION', 'MEMBER', 'AUDIT_LOG', 'INVITATION', 'COMMENT')
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "permissions"
+      ALTER COLUMN "resource" TYPE "public"."permissions_resource_enum"
+      USING "resource"::text::"public"."permissions_resource_enum"
+    `);
+    await queryRunner.query(`DROP TYPE "public"."permissions_resource_enum_old"`);
+  }
+}
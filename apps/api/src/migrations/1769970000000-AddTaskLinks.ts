@@ -0,0 +1,71 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddTaskLinks1769970000000 implements MigrationInterface {
+  name = 'AddTaskLinks1769970000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Create task link type enum
+    await queryRunner.query(`
+      CREATE TYPE "public"."task_links_type_enum" AS ENUM('BLOCKS', 'RELATES_TO', 'DUPLICATES')
+    `);
+
+    // Create task_links table
+    await queryRunner.query(`
+      CREATE TABLE "task_links" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "source_task_id" uuid NOT NULL,
+        "target_task_id" uuid NOT NULL,
+        "type" "public"."task_links_type_enum" NOT NULL,
+        "created_by_id" uuid,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_task_links" PRIMARY KEY ("id"),
+        CONSTRAINT "CHK_task_link_not_self" CHECK ("source_task_id" <> "target_task_id")
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX "idx_task_link_unique" ON "task_links" ("source_task_id", "target_task_id", "type")
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "idx_task_link_target" ON "task_links" ("target_task_id")
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "task_links"
+      ADD CONSTRAINT "FK_task_link_source"
+      FOREIGN KEY ("source_task_id") REFERENCES "tasks"("id")
+      ON DELETE CASCADE
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "task_links"
+      ADD CONSTRAINT "FK_task_link_target"
+      FOREIGN KEY ("target_task_id") REFERENCES "tasks"("id")
+      ON DELETE CASCADE
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "task_links"
+      ADD CONSTRAINT "FK_task_link_created_by"
+      FOREIGN KEY ("created_by_id") REFERENCES "users"("id")
+      ON DELETE SET NULL
+    `);
+
+    // Opt-in rule: refuse starting tasks with open blockers
+    await queryRunner.query(`
+      ALTER TABLE "organizations"
+      ADD "enforce_blockers" boolean NOT NULL DEFAULT false
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "organizations" DROP COLUMN IF EXISTS "enforce_blockers"
+    `);
+    await queryRunner.query(`DROP TABLE IF EXISTS "task_links"`);
+    await queryRunner.query(`
+      DROP TYPE IF EXISTS "public"."task_links_type_enum"
+    `);
+  }
+}
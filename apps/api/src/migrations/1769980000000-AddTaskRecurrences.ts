@@ -0,0 +1,93 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddTaskRecurrences1769980000000 implements MigrationInterface {
+  name = 'AddTaskRecurrences1769980000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Create task_recurrences table
+    await queryRunner.query(`
+      CREATE TABLE "task_recurrences" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "organization_id" uuid NOT NULL,
+        "template_task_id" uuid NOT NULL,
+        "rule" character varying(255) NOT NULL,
+        "starts_at" TIMESTAMP NOT NULL,
+        "next_occurrence_at" TIMESTAMP,
+        "occurrence_count" integer NOT NULL DEFAULT 1,
+        "last_task_id" uuid,
+        "created_by_id" uuid,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_task_recurrences" PRIMARY KEY ("id")
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX "idx_task_recurrence_template" ON "task_recurrences" ("template_task_id")
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "idx_task_recurrence_next" ON "task_recurrences" ("next_occurrence_at")
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "task_recurrences"
+      ADD CONSTRAINT "FK_task_recurrence_organization"
+      FOREIGN KEY ("organization_id") REFERENCES "organizations"("id")
+      ON DELETE CASCADE
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "task_recurrences"
+      ADD CONSTRAINT "FK_task_recurrence_template"
+      FOREIGN KEY ("template_task_id") REFERENCES "tasks"("id")
+      ON DELETE CASCADE
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "task_recurrences"
+      ADD CONSTRAINT "FK_task_recurrence_last_task"
+      FOREIGN KEY ("last_task_id") REFERENCES "tasks"("id")
+      ON DELETE SET NULL
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "task_recurrences"
+      ADD CONSTRAINT "FK_task_recurrence_created_by"
+      FOREIGN KEY ("created_by_id") REFERENCES "users"("id")
+      ON DELETE SET NULL
+    `);
+
+    // Link tasks to their series
+    await queryRunner.query(`
+      ALTER TABLE "tasks"
+      ADD "recurrence_id" uuid,
+      ADD "occurrence_at" TIMESTAMP
+    `);
+
+    // One task per occurrence date keeps the scheduler idempotent
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX "idx_task_occurrence" ON "tasks" ("recurrence_id", "occurrence_at")
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "tasks"
+      ADD CONSTRAINT "FK_task_recurrence"
+      FOREIGN KEY ("recurrence_id") REFERENCES "task_recurrences"("id")
+      ON DELETE SET NULL
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "tasks" DROP CONSTRAINT IF EXISTS "FK_task_recurrence"
+    `);
+    await queryRunner.query(`DROP INDEX IF EXISTS "idx_task_occurrence"`);
+    await queryRunner.query(`
+      ALTER TABLE "tasks"
+      DROP COLUMN IF EXISTS "occurrence_at",
+      DROP COLUMN IF EXISTS "recurrence_id"
+    `);
+    await queryRunner.query(`DROP TABLE IF EXISTS "task_recurrences"`);
+  }
+}
@@ -0,0 +1,129 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddWorklogs1769990000000 implements MigrationInterface {
+  name = 'AddWorklogs1769990000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Add WORKLOG to the permission resource enum.
+    // ALTER TYPE ... ADD VALUE can't run inside the migration transaction,
+    // so the type is recreated instead.
+    await queryRunner.query(`
+      ALTER TYPE "public"."permissions_resource_enum" RENAME TO "permissions_resource_enum_old"
+    `);
+    await queryRunner.query(`
+      CREATE TYPE "public"."permissions_resource_enum" AS ENUM('TASK', 'ORGANIZATION', 'MEMBER', 'AUDIT_LOG', 'INVITATION', 'COMMENT', 'CUSTOM_FIELD', 'WORKLOG')
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "permissions"
+      ALTER COLUMN "resource" TYPE "public"."permissions_resource_enum"
+      USING "resource"::text::"public"."permissions_resource_enum"
+    `);
+    await queryRunner.query(`DROP TYPE "public"."permissions_resource_enum_old"`);
+
+    // Create worklogs table
+    await queryRunner.query(`
+      CREATE TABLE "worklogs" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "organization_id" uuid NOT NULL,
+        "task_id" uuid NOT NULL,
+        "user_id" uuid NOT NULL,
+        "started_at" TIMESTAMP NOT NULL,
+        "ended_at" TIMESTAMP,
+        "duration_seconds" integer,
+        "note" text,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_worklogs" PRIMARY KEY ("id")
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "idx_worklog_task" ON "worklogs" ("task_id")
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "idx_worklog_user_started" ON "worklogs" ("user_id", "started_at")
+    `);
+
+    // At most one running timer per user
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX "idx_worklog_running" ON "worklogs" ("user_id")
+      WHERE "ended_at" IS NULL
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "worklogs"
+      ADD CONSTRAINT "FK_worklog_organization"
+      FOREIGN KEY ("organization_id") REFERENCES "organizations"("id")
+      ON DELETE CASCADE
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "worklogs"
+      ADD CONSTRAINT "FK_worklog_task"
+      FOREIGN KEY ("task_id") REFERENCES "tasks"("id")
+      ON DELETE CASCADE
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "worklogs"
+      ADD CONSTRAINT "FK_worklog_user"
+      FOREIGN KEY ("user_id") REFERENCES "users"("id")
+      ON DELETE CASCADE
+    `);
+
+    // Seed worklog permissions
+    const permissions = [
+      { name: 'Create Worklogs', description: 'Log time on tasks', action: 'CREATE' },
+      { name: 'Read Worklogs', description: 'View logged time', action: 'READ' },
+      { name: 'Update Worklogs', description: 'Edit own worklogs', action: 'UPDATE' },
+      { name: 'Delete Worklogs', description: 'Delete own worklogs', action: 'DELETE' },
+      { name: 'Manage Worklogs', description: 'Edit worklogs and timesheets of others', action: 'MANAGE' },
+    ];
+
+    for (const perm of permissions) {
+      await queryRunner.query(`
+        INSERT INTO "permissions" ("name", "description", "resource", "action")
+        VALUES ('${perm.name}', '${perm.description}', 'WORKLOG', '${perm.action}')
+      `);
+    }
+
+    // OWNER/ADMIN: all worklog permissions
+    // VIEWER: their own time only
+    const rolePermissions: Record<string, string[]> = {
+      OWNER: ['CREATE', 'READ', 'UPDATE', 'DELETE', 'MANAGE'],
+      ADMIN: ['CREATE', 'READ', 'UPDATE', 'DELETE', 'MANAGE'],
+      VIEWER: ['CREATE', 'READ', 'UPDATE', 'DELETE'],
+    };
+
+    for (const [role, actions] of Object.entries(rolePermissions)) {
+      for (const action of actions) {
+        await queryRunner.query(`
+          INSERT INTO "role_permissions" ("role", "permission_id")
+          SELECT '${role}', "id" FROM "permissions"
+          WHERE "resource" = 'WORKLOG' AND "action" = '${action}'
+        `);
+      }
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "worklogs"`);
+
+    // role_permissions and user_permissions rows cascade
+    await queryRunner.query(`DELETE FROM "permissions" WHERE "resource" = 'WORKLOG'`);
+
+    await queryRunner.query(`
+      ALTER TYPE "public"."permissions_resource_enum" RENAME TO "permissions_resource_enum_old"
+    `);
+    await queryRunner.query(`
+      CREATE TYPE "public"."permissions_resource_enum" AS ENUM('TASK', 'ORGANIZATION', 'MEMBER', 'AUDIT_LOG', 'INVITATION', 'COMMENT', 'CUSTOM_FIELD')
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "permissions"
+      ALTER COLUMN "resource" TYPE "public"."permissions_resource_enum"
+      USING "resource"::text::"public"."permissions_resource_enum"
+    `);
+    await queryRunner.query(`DROP TYPE "public"."permissions_resource_enum_old"`);
+  }
+}
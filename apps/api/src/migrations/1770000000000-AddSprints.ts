@@ -0,0 +1,156 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddSprints1770000000000 implements MigrationInterface {
+  name = 'AddSprints1770000000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Add SPRINT to the permission resource enum.
+    // ALTER TYPE ... ADD VALUE can't run inside the migration transaction,
+    // so the type is recreated instead.
+    await queryRunner.query(`
+      ALTER TYPE "public"."permissions_resource_enum" RENAME TO "permissions_resource_enum_old"
+    `);
+    await queryRunner.query(`
+      CREATE TYPE "public"."permissions_resource_enum" AS ENUM('TASK', 'ORGANIZATION', 'MEMBER', 'AUDIT_LOG', 'INVITATION', 'COMMENT', 'CUSTOM_FIELD', 'WORKLOG', 'SPRINT')
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "permissions"
+      ALTER COLUMN "resource" TYPE "public"."permissions_resource_enum"
+      USING "resource"::text::"public"."permissions_resource_enum"
+    `);
+    await queryRunner.query(`DROP TYPE "public"."permissions_resource_enum_old"`);
+
+    // Estimate unit per organization
+    await queryRunner.query(`
+      CREATE TYPE "public"."organizations_estimate_unit_enum" AS ENUM('POINTS', 'HOURS')
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "organizations"
+      ADD "estimate_unit" "public"."organizations_estimate_unit_enum" NOT NULL DEFAULT 'POINTS'
+    `);
+
+    // Create sprints table
+    await queryRunner.query(`
+      CREATE TYPE "public"."sprints_state_enum" AS ENUM('PLANNED', 'ACTIVE', 'CLOSED')
+    `);
+    await queryRunner.query(`
+      CREATE TABLE "sprints" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "organization_id" uuid NOT NULL,
+        "name" character varying(100) NOT NULL,
+        "goal" text,
+        "start_date" TIMESTAMP NOT NULL,
+        "end_date" TIMESTAMP NOT NULL,
+        "state" "public"."sprints_state_enum" NOT NULL DEFAULT 'PLANNED',
+        "closed_at" TIMESTAMP,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_sprints" PRIMARY KEY ("id")
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "idx_sprint_org" ON "sprints" ("organization_id", "start_date")
+    `);
+
+    // At most one active sprint per organization
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX "idx_sprint_active" ON "sprints" ("organization_id")
+      WHERE "state" = 'ACTIVE'
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "sprints"
+      ADD CONSTRAINT "FK_sprint_organization"
+      FOREIGN KEY ("organization_id") REFERENCES "organizations"("id")
+      ON DELETE CASCADE
+    `);
+
+    // Estimates and sprint membership on tasks
+    await queryRunner.query(`
+      ALTER TABLE "tasks"
+      ADD "estimate" real,
+      ADD "sprint_id" uuid
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "idx_task_sprint" ON "tasks" ("sprint_id")
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "tasks"
+      ADD CONSTRAINT "FK_task_sprint"
+      FOREIGN KEY ("sprint_id") REFERENCES "sprints"("id")
+      ON DELETE SET NULL
+    `);
+
+    // Seed sprint permissions
+    const permissions = [
+      { name: 'Create Sprints', description: 'Plan new sprints', action: 'CREATE' },
+      { name: 'Read Sprints', description: 'View sprints', action: 'READ' },
+      { name: 'Update Sprints', description: 'Edit sprints and their tasks', action: 'UPDATE' },
+      { name: 'Delete Sprints', description: 'Delete sprints', action: 'DELETE' },
+      { name: 'Manage Sprints', description: 'Start and close sprints', action: 'MANAGE' },
+    ];
+
+    for (const perm of permissions) {
+      await queryRunner.query(`
+        INSERT INTO "permissions" ("name", "description", "resource", "action")
+        VALUES ('${perm.name}', '${perm.description}', 'SPRINT', '${perm.action}')
+      `);
+    }
+
+    // OWNER/ADMIN: all sprint permissions
+    // VIEWER: read only
+    const rolePermissions: Record<string, string[]> = {
+      OWNER: ['CREATE', 'READ', 'UPDATE', 'DELETE', 'MANAGE'],
+      ADMIN: ['CREATE', 'READ', 'UPDATE', 'DELETE', 'MANAGE'],
+      VIEWER: ['READ'],
+    };
+
+    for (const [role, actions] of Object.entries(rolePermissions)) {
+      for (const action of actions) {
+        await queryRunner.query(`
+          INSERT INTO "role_permissions" ("role", "permission_id")
+          SELECT '${role}', "id" FROM "permissions"
+          WHERE "resource" = 'SPRINT' AND "action" = '${action}'
+        `);
+      }
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "tasks" DROP CONSTRAINT IF EXISTS "FK_task_sprint"
+    `);
+    await queryRunner.query(`DROP INDEX IF EXISTS "idx_task_sprint"`);
+    await queryRunner.query(`
+      ALTER TABLE "tasks"
+      DROP COLUMN IF EXISTS "sprint_id",
+      DROP COLUMN IF EXISTS "estimate"
+    `);
+    await queryRunner.query(`DROP TABLE IF EXISTS "sprints"`);
+    await queryRunner.query(`DROP TYPE IF EXISTS "public"."sprints_state_enum"`);
+
+    await queryRunner.query(`
+      ALTER TABLE "organizations" DROP COLUMN IF EXISTS "estimate_unit"
+    `);
+    await queryRunner.query(`DROP TYPE IF EXISTS "public"."organizations_estimate_unit_enum"`);
+
+    // role_permissions and user_permissions rows cascade
+    await queryRunner.query(`DELETE FROM "permissions" WHERE "resource" = 'SPRINT'`);
+
+    await queryRunner.query(`
+      ALTER TYPE "public"."permissions_resource_enum" RENAME TO "permissions_resource_enum_old"
+    `);
+    await queryRunner.query(`
+      CREATE TYPE "public"."permissions_resource_enum" AS ENUM('TASK', 'ORGANIZATION', 'MEMBER', 'AUDIT_LOG', 'INVITATION', 'COMMENT', 'CUSTOM_FIELD', 'WORKLOG')
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "permissions"
+      ALTER COLUMN "resource" TYPE "public"."permissions_resource_enum"
+      USING "resource"::text::"public"."permissions_resource_enum"
+    `);
+    await queryRunner.query(`DROP TYPE "public"."permissions_resource_enum_old"`);
+  }
+}
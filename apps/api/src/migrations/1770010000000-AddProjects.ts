@@ -0,0 +1,134 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddProjects1770010000000 implements MigrationInterface {
+  name = 'AddProjects1770010000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Add PROJECT to the permission resource enum.
+    // ALTER TYPE ... ADD VALUE can't run inside the migration transaction,
+    // so the type is recreated instead.
+    await queryRunner.query(`
+      ALTER TYPE "public"."permissions_resource_enum" RENAME TO "permissions_resource_enum_old"
+    `);
+    await queryRunner.query(`
+      CREATE TYPE "public"."permissions_resource_enum" AS ENUM('TASK', 'ORGANIZATION', 'MEMBER', 'AUDIT_LOG', 'INVITATION', 'COMMENT', 'CUSTOM_FIELD', 'WORKLOG', 'SPRINT', 'PROJECT')
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "permissions"
+      ALTER COLUMN "resource" TYPE "public"."permissions_resource_enum"
+      USING "resource"::text::"public"."permissions_resource_enum"
+    `);
+    await queryRunner.query(`DROP TYPE "public"."permissions_resource_enum_old"`);
+
+    // Create projects table
+    await queryRunner.query(`
+      CREATE TABLE "projects" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "organization_id" uuid NOT NULL,
+        "key" character varying(10) NOT NULL,
+        "name" character varying(100) NOT NULL,
+        "description" text,
+        "archived" boolean NOT NULL DEFAULT false,
+        "task_counter" integer NOT NULL DEFAULT 0,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_projects" PRIMARY KEY ("id")
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX "idx_project_org_key" ON "projects" ("organization_id", "key")
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "projects"
+      ADD CONSTRAINT "FK_project_organization"
+      FOREIGN KEY ("organization_id") REFERENCES "organizations"("id")
+      ON DELETE CASCADE
+    `);
+
+    // Project membership and keys on tasks
+    await queryRunner.query(`
+      ALTER TABLE "tasks"
+      ADD "project_id" uuid,
+      ADD "key" character varying(20)
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "idx_task_project" ON "tasks" ("project_id")
+    `);
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX "idx_task_key" ON "tasks" ("organization_id", "key")
+    `);
+
+    // Projects that still have tasks cannot be deleted
+    await queryRunner.query(`
+      ALTER TABLE "tasks"
+      ADD CONSTRAINT "FK_task_project"
+      FOREIGN KEY ("project_id") REFERENCES "projects"("id")
+    `);
+
+    // Seed project permissions
+    const permissions = [
+      { name: 'Create Projects', description: 'Create new projects', action: 'CREATE' },
+      { name: 'Read Projects', description: 'View projects', action: 'READ' },
+      { name: 'Update Projects', description: 'Edit and archive projects', action: 'UPDATE' },
+      { name: 'Delete Projects', description: 'Delete empty projects', action: 'DELETE' },
+    ];
+
+    for (const perm of permissions) {
+      await queryRunner.query(`
+        INSERT INTO "permissions" ("name", "description", "resource", "action")
+        VALUES ('${perm.name}', '${perm.description}', 'PROJECT', '${perm.action}')
+      `);
+    }
+
+    // OWNER/ADMIN: all project permissions
+    // VIEWER: read only
+    const rolePermissions: Record<string, string[]> = {
+      OWNER: ['CREATE', 'READ', 'UPDATE', 'DELETE'],
+      ADMIN: ['CREATE', 'READ', 'UPDATE', 'DELETE'],
+      VIEWER: ['READ'],
+    };
+
+    for (const [role, actions] of Object.entries(rolePermissions)) {
+      for (const action of actions) {
+        await queryRunner.query(`
+          INSERT INTO "role_permissions" ("role", "permission_id")
+          SELECT '${role}', "id" FROM "permissions"
+          WHERE "resource" = 'PROJECT' AND "action" = '${action}'
+        `);
+      }
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "tasks" DROP CONSTRAINT IF EXISTS "FK_task_project"
+    `);
+    await queryRunner.query(`DROP INDEX IF EXISTS "idx_task_key"`);
+    await queryRunner.query(`DROP INDEX IF EXISTS "idx_task_project"`);
+    await queryRunner.query(`
+      ALTER TABLE "tasks"
+      DROP COLUMN IF EXISTS "key",
+      DROP COLUMN IF EXISTS "project_id"
+    `);
+    await queryRunner.query(`DROP TABLE IF EXISTS "projects"`);
+
+    // role_permissions and user_permissions rows cascade
+    await queryRunner.query(`DELETE FROM "permissions" WHERE "resource" = 'PROJECT'`);
+
+    await queryRunner.query(`
+      ALTER TYPE "public"."permissions_resource_enum" RENAME TO "permissions_resource_enum_old"
+    `);
+    await queryRunner.query(`
+      CREATE TYPE "public"."permissions_resource_enum" AS ENUM('TASK', 'ORGANIZATION', 'MEMBER', 'AUDIT_LOG', 'INVITATION', 'COMMENT', 'CUSTOM_FIELD', 'WORKLOG', 'SPRINT')
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "permissions"
+      ALTER COLUMN "resource" TYPE "public"."permissions_resource_enum"
+      USING "resource"::text::"public"."permissions_resource_enum"
+    `);
+    await queryRunner.query(`DROP TYPE "public"."permissions_resource_enum_old"`);
+  }
+}
@@ -0,0 +1,54 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddTaskWatchers1770020000000 implements MigrationInterface {
+  name = 'AddTaskWatchers1770020000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Create task_watchers table
+    await queryRunner.query(`
+      CREATE TABLE "task_watchers" (
+        "task_id" uuid NOT NULL,
+        "user_id" uuid NOT NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_task_watchers" PRIMARY KEY ("task_id", "user_id")
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "idx_task_watcher_user" ON "task_watchers" ("user_id")
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "task_watchers"
+      ADD CONSTRAINT "FK_task_watcher_task"
+      FOREIGN KEY ("task_id") REFERENCES "tasks"("id")
+      ON DELETE CASCADE
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "task_watchers"
+      ADD CONSTRAINT "FK_task_watcher_user"
+      FOREIGN KEY ("user_id") REFERENCES "users"("id")
+      ON DELETE CASCADE
+    `);
+
+    // Existing assignees watch their tasks
+    await queryRunner.query(`
+      INSERT INTO "task_watchers" ("task_id", "user_id")
+      SELECT "id", "assignee_id" FROM "tasks"
+      WHERE "assignee_id" IS NOT NULL
+    `);
+
+    // So do existing commenters
+    await queryRunner.query(`
+      INSERT INTO "task_watchers" ("task_id", "user_id")
+      SELECT DISTINCT "task_id", "author_id" FROM "task_comments"
+      WHERE "author_id" IS NOT NULL
+      ON CONFLICT DO NOTHING
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "task_watchers"`);
+  }
+}
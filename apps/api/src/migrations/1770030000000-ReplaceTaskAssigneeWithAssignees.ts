@@ -0,0 +1,67 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class ReplaceTaskAssigneeWithAssignees1770030000000 implements MigrationInterface {
+  name = 'ReplaceTaskAssigneeWithAssignees1770030000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Create task_assignees join table
+    await queryRunner.query(`
+      CREATE TABLE "task_assignees" (
+        "task_id" uuid NOT NULL,
+        "user_id" uuid NOT NULL,
+        CONSTRAINT "PK_task_assignees" PRIMARY KEY ("task_id", "user_id"),
+        CONSTRAINT "FK_task_assignee_task" FOREIGN KEY ("task_id") REFERENCES "tasks"("id") ON DELETE CASCADE,
+        CONSTRAINT "FK_task_assignee_user" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "idx_task_assignee_user" ON "task_assignees" ("user_id")
+    `);
+
+    // Carry over assignees that are still members of the task's organization
+    await queryRunner.query(`
+      INSERT INTO "task_assignees" ("task_id", "user_id")
+      SELECT t."id", t."assignee_id"
+      FROM "tasks" t
+      JOIN "user_organizations" uo
+        ON uo."user_id" = t."assignee_id"
+        AND uo."organization_id" = t."organization_id"
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "tasks" DROP CONSTRAINT "FK_855d484825b715c545349212c7f"
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "tasks" DROP COLUMN "assignee_id"
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "tasks" ADD "assignee_id" uuid`);
+    await queryRunner.query(`
+      ALTER TABLE "tasks"
+      ADD CONSTRAINT "FK_855d484825b715c545349212c7f"
+      FOREIGN KEY ("assignee_id") REFERENCES "users"("id")
+      ON DELETE SET NULL
+    `);
+
+    // Keep the longest-standing member among each task's assignees; the
+    // others are lost
+    await queryRunner.query(`
+      UPDATE "tasks" t
+      SET "assignee_id" = (
+        SELECT ta."user_id"
+        FROM "task_assignees" ta
+        JOIN "user_organizations" uo
+          ON uo."user_id" = ta."user_id"
+          AND uo."organization_id" = t."organization_id"
+        WHERE ta."task_id" = t."id"
+        ORDER BY uo."created_at"
+        LIMIT 1
+      )
+    `);
+
+    await queryRunner.query(`DROP TABLE IF EXISTS "task_assignees"`);
+  }
+}
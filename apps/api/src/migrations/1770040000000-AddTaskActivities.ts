@@ -0,0 +1,46 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddTaskActivities1770040000000 implements MigrationInterface {
+  name = 'AddTaskActivities1770040000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Create task_activities table
+    await queryRunner.query(`
+      CREATE TYPE "public"."task_activities_action_enum" AS ENUM('CREATED', 'UPDATED', 'DELETED', 'RESTORED')
+    `);
+    await queryRunner.query(`
+      CREATE TABLE "task_activities" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "task_id" uuid NOT NULL,
+        "actor_id" uuid,
+        "action" "public"."task_activities_action_enum" NOT NULL,
+        "changes" jsonb NOT NULL DEFAULT '[]',
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_task_activities" PRIMARY KEY ("id")
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "idx_task_activity_task" ON "task_activities" ("task_id", "created_at")
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "task_activities"
+      ADD CONSTRAINT "FK_task_activity_task"
+      FOREIGN KEY ("task_id") REFERENCES "tasks"("id")
+      ON DELETE CASCADE
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "task_activities"
+      ADD CONSTRAINT "FK_task_activity_actor"
+      FOREIGN KEY ("actor_id") REFERENCES "users"("id")
+      ON DELETE SET NULL
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "task_activities"`);
+    await queryRunner.query(`DROP TYPE IF EXISTS "public"."task_activities_action_enum"`);
+  }
+}
@@ -0,0 +1,38 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddFullTextSearch1770050000000 implements MigrationInterface {
+  name = 'AddFullTextSearch1770050000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Title and key rank above the description
+    await queryRunner.query(`
+      ALTER TABLE "tasks"
+      ADD "search_vector" tsvector GENERATED ALWAYS AS (
+        setweight(to_tsvector('english', coalesce("title", '')), 'A') ||
+        setweight(to_tsvector('simple', coalesce("key", '')), 'A') ||
+        setweight(to_tsvector('english', coalesce("description", '')), 'B')
+      ) STORED
+    `);
+    await queryRunner.query(`
+      CREATE INDEX "idx_task_search" ON "tasks" USING GIN ("search_vector")
+    `);
+
+    // Comments rank below both
+    await queryRunner.query(`
+      ALTER TABLE "task_comments"
+      ADD "search_vector" tsvector GENERATED ALWAYS AS (
+        setweight(to_tsvector('english', coalesce("body", '')), 'C')
+      ) STORED
+    `);
+    await queryRunner.query(`
+      CREATE INDEX "idx_comment_search" ON "task_comments" USING GIN ("search_vector")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "idx_comment_search"`);
+    await queryRunner.query(`ALTER TABLE "task_comments" DROP COLUMN IF EXISTS "search_vector"`);
+    await queryRunner.query(`DROP INDEX IF EXISTS "idx_task_search"`);
+    await queryRunner.query(`ALTER TABLE "tasks" DROP COLUMN IF EXISTS "search_vector"`);
+  }
+}
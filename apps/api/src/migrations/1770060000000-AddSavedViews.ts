@@ -0,0 +1,56 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddSavedViews1770060000000 implements MigrationInterface {
+  name = 'AddSavedViews1770060000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Create saved_views table
+    await queryRunner.query(`
+      CREATE TYPE "public"."saved_views_sort_by_enum" AS ENUM('createdAt', 'updatedAt', 'dueDate', 'priority', 'title')
+    `);
+    await queryRunner.query(`
+      CREATE TYPE "public"."saved_views_visibility_enum" AS ENUM('PRIVATE', 'ORGANIZATION')
+    `);
+    await queryRunner.query(`
+      CREATE TABLE "saved_views" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "organization_id" uuid NOT NULL,
+        "owner_id" uuid NOT NULL,
+        "name" character varying(100) NOT NULL,
+        "filters" jsonb NOT NULL DEFAULT '{}',
+        "sort_by" "public"."saved_views_sort_by_enum" NOT NULL DEFAULT 'createdAt',
+        "visibility" "public"."saved_views_visibility_enum" NOT NULL DEFAULT 'PRIVATE',
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_saved_views" PRIMARY KEY ("id")
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "idx_saved_view_org" ON "saved_views" ("organization_id", "visibility")
+    `);
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX "idx_saved_view_owner_name" ON "saved_views" ("organization_id", "owner_id", "name")
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "saved_views"
+      ADD CONSTRAINT "FK_saved_view_organization"
+      FOREIGN KEY ("organization_id") REFERENCES "organizations"("id")
+      ON DELETE CASCADE
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "saved_views"
+      ADD CONSTRAINT "FK_saved_view_owner"
+      FOREIGN KEY ("owner_id") REFERENCES "users"("id")
+      ON DELETE CASCADE
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "saved_views"`);
+    await queryRunner.query(`DROP TYPE IF EXISTS "public"."saved_views_visibility_enum"`);
+    await queryRunner.query(`DROP TYPE IF EXISTS "public"."saved_views_sort_by_enum"`);
+  }
+}
@@ -0,0 +1,90 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddTaskRanks1770070000000 implements MigrationInterface {
+  name = 'AddTaskRanks1770070000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Add manual to the sort fields saved views can use.
+    // ALTER TYPE ... ADD VALUE can't run inside the migration transaction,
+    // so the type is recreated instead.
+    await queryRunner.query(`
+      ALTER TYPE "public"."saved_views_sort_by_enum" RENAME TO "saved_views_sort_by_enum_old"
+    `);
+    await queryRunner.query(`
+      CREATE TYPE "public"."saved_views_sort_by_enum" AS ENUM('createdAt', 'updatedAt', 'dueDate', 'priority', 'title', 'manual')
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "saved_views" ALTER COLUMN "sort_by" DROP DEFAULT
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "saved_views"
+      ALTER COLUMN "sort_by" TYPE "public"."saved_views_sort_by_enum"
+      USING "sort_by"::text::"public"."saved_views_sort_by_enum"
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "saved_views" ALTER COLUMN "sort_by" SET DEFAULT 'createdAt'
+    `);
+    await queryRunner.query(`DROP TYPE "public"."saved_views_sort_by_enum_old"`);
+
+    // Rank tasks within their board column; the "C" collation compares
+    // ranks byte by byte
+    await queryRunner.query(`
+      ALTER TABLE "tasks" ADD "rank" character varying(255) COLLATE "C"
+    `);
+
+    // Existing columns keep the order the board showed them in, newest
+    // first. Fixed-width ranks leave room between any two of them.
+    await queryRunner.query(`
+      UPDATE "tasks" SET "rank" = ranked."rank"
+      FROM (
+        SELECT
+          "id",
+          LPAD(
+            CAST(ROW_NUMBER() OVER (
+              PARTITION BY "organization_id", "status_id"
+              ORDER BY "created_at" DESC, "id"
+            ) AS text),
+            10,
+            '0'
+          ) AS "rank"
+        FROM "tasks"
+      ) ranked
+      WHERE "tasks"."id" = ranked."id"
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "tasks" ALTER COLUMN "rank" SET NOT NULL
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "idx_task_rank" ON "tasks" ("organization_id", "status_id", "rank")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "idx_task_rank"`);
+    await queryRunner.query(`ALTER TABLE "tasks" DROP COLUMN IF EXISTS "rank"`);
+
+    await queryRunner.query(`
+      UPDATE "saved_views" SET "sort_by" = 'createdAt' WHERE "sort_by" = 'manual'
+    `);
+    await queryRunner.query(`
+      ALTER TYPE "public"."saved_views_sort_by_enum" RENAME TO "saved_views_sort_by_enum_old"
+    `);
+    await queryRunner.query(`
+      CREATE TYPE "public"."saved_views_sort_by_enum" AS ENUM('createdAt', 'updatedAt', 'dueDate', 'priority', 'title')
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "saved_views" ALTER COLUMN "sort_by" DROP DEFAULT
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "saved_views"
+      ALTER COLUMN "sort_by" TYPE "public"."saved_views_sort_by_enum"
+      USING "sort_by"::text::"public"."saved_views_sort_by_enum"
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "saved_views" ALTER COLUMN "sort_by" SET DEFAULT 'createdAt'
+    `);
+    await queryRunner.query(`DROP TYPE "public"."saved_views_sort_by_enum_old"`);
+  }
+}
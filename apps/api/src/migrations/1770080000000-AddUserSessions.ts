@@ -0,0 +1,36 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddUserSessions1770080000000 implements MigrationInterface {
+  name = 'AddUserSessions1770080000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Create user_sessions table
+    await queryRunner.query(`
+      CREATE TABLE "user_sessions" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "user_id" uuid NOT NULL,
+        "refresh_token_hash" character varying(64) NOT NULL,
+        "expires_at" TIMESTAMP NOT NULL,
+        "revoked_at" TIMESTAMP,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_user_sessions" PRIMARY KEY ("id")
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "idx_user_session_user" ON "user_sessions" ("user_id")
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "user_sessions"
+      ADD CONSTRAINT "FK_user_session_user"
+      FOREIGN KEY ("user_id") REFERENCES "users"("id")
+      ON DELETE CASCADE
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "user_sessions"`);
+  }
+}
@@ -0,0 +1,50 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddSessionDetailsAndLoginEvents1770090000000 implements MigrationInterface {
+  name = 'AddSessionDetailsAndLoginEvents1770090000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Where each session signed in from and when it was last used
+    await queryRunner.query(`
+      ALTER TABLE "user_sessions"
+      ADD "user_agent" character varying(512),
+      ADD "ip_address" character varying(45),
+      ADD "last_seen_at" TIMESTAMP NOT NULL DEFAULT now()
+    `);
+
+    // Create login_events table
+    await queryRunner.query(`
+      CREATE TABLE "login_events" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "user_id" uuid NOT NULL,
+        "success" boolean NOT NULL,
+        "failure_reason" character varying(50),
+        "user_agent" character varying(512),
+        "ip_address" character varying(45),
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_login_events" PRIMARY KEY ("id")
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "idx_login_event_user" ON "login_events" ("user_id", "created_at")
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "login_events"
+      ADD CONSTRAINT "FK_login_event_user"
+      FOREIGN KEY ("user_id") REFERENCES "users"("id")
+      ON DELETE CASCADE
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "login_events"`);
+    await queryRunner.query(`
+      ALTER TABLE "user_sessions"
+      DROP COLUMN IF EXISTS "last_seen_at",
+      DROP COLUMN IF EXISTS "ip_address",
+      DROP COLUMN IF EXISTS "user_agent"
+    `);
+  }
+}
@@ -0,0 +1,61 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddTwoFactorAuth1770100000000 implements MigrationInterface {
+  name = 'AddTwoFactorAuth1770100000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // TOTP secret and state per user
+    await queryRunner.query(`
+      ALTER TABLE "users"
+      ADD "mfa_secret" character varying(64),
+      ADD "mfa_enabled_at" TIMESTAMP,
+      ADD "mfa_last_used_step" integer
+    `);
+
+    // Create mfa_recovery_codes table
+    await queryRunner.query(`
+      CREATE TABLE "mfa_recovery_codes" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "user_id" uuid NOT NULL,
+        "code_hash" character varying(64) NOT NULL,
+        "used_at" TIMESTAMP,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_mfa_recovery_codes" PRIMARY KEY ("id")
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "idx_mfa_recovery_code_user" ON "mfa_recovery_codes" ("user_id")
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "mfa_recovery_codes"
+      ADD CONSTRAINT "FK_mfa_recovery_code_user"
+      FOREIGN KEY ("user_id") REFERENCES "users"("id")
+      ON DELETE CASCADE
+    `);
+
+    // Lowest role that must have 2FA in an organization
+    await queryRunner.query(`
+      CREATE TYPE "public"."organizations_mfa_required_role_enum" AS ENUM('OWNER', 'ADMIN', 'VIEWER')
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "organizations"
+      ADD "mfa_required_role" "public"."organizations_mfa_required_role_enum"
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "organizations" DROP COLUMN IF EXISTS "mfa_required_role"
+    `);
+    await queryRunner.query(`DROP TYPE IF EXISTS "public"."organizations_mfa_required_role_enum"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "mfa_recovery_codes"`);
+    await queryRunner.query(`
+      ALTER TABLE "users"
+      DROP COLUMN IF EXISTS "mfa_last_used_step",
+      DROP COLUMN IF EXISTS "mfa_enabled_at",
+      DROP COLUMN IF EXISTS "mfa_secret"
+    `);
+  }
+}
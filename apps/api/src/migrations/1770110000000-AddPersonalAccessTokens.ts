@@ -0,0 +1,46 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddPersonalAccessTokens1770110000000 implements MigrationInterface {
+  name = 'AddPersonalAccessTokens1770110000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Create personal_access_tokens table
+    await queryRunner.query(`
+      CREATE TABLE "personal_access_tokens" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "user_id" uuid NOT NULL,
+        "name" character varying(100) NOT NULL,
+        "token_hash" character varying(64) NOT NULL,
+        "scopes" jsonb NOT NULL,
+        "organization_id" uuid,
+        "expires_at" TIMESTAMP,
+        "last_used_at" TIMESTAMP,
+        "revoked_at" TIMESTAMP,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_personal_access_tokens" PRIMARY KEY ("id")
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "idx_personal_access_token_user" ON "personal_access_tokens" ("user_id")
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "personal_access_tokens"
+      ADD CONSTRAINT "FK_personal_access_token_user"
+      FOREIGN KEY ("user_id") REFERENCES "users"("id")
+      ON DELETE CASCADE
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "personal_access_tokens"
+      ADD CONSTRAINT "FK_personal_access_token_organization"
+      FOREIGN KEY ("organization_id") REFERENCES "organizations"("id")
+      ON DELETE CASCADE
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "personal_access_tokens"`);
+  }
+}
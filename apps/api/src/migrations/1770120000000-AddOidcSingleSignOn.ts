@@ -0,0 +1,57 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddOidcSingleSignOn1770120000000 implements MigrationInterface {
+  name = 'AddOidcSingleSignOn1770120000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Identity linked at the OIDC provider
+    await queryRunner.query(`
+      ALTER TABLE "users"
+      ADD "oidc_subject" character varying(255),
+      ADD CONSTRAINT "UQ_users_oidc_subject" UNIQUE ("oidc_subject")
+    `);
+
+    // How each session, and each access token's creating session, signed in
+    await queryRunner.query(`
+      CREATE TYPE "public"."user_sessions_auth_method_enum" AS ENUM('PASSWORD', 'SSO')
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "user_sessions"
+      ADD "auth_method" "public"."user_sessions_auth_method_enum" NOT NULL DEFAULT 'PASSWORD'
+    `);
+
+    await queryRunner.query(`
+      CREATE TYPE "public"."personal_access_tokens_auth_method_enum" AS ENUM('PASSWORD', 'SSO')
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "personal_access_tokens"
+      ADD "auth_method" "public"."personal_access_tokens_auth_method_enum" NOT NULL DEFAULT 'PASSWORD'
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "organizations"
+      ADD "sso_required" boolean NOT NULL DEFAULT false
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "organizations" DROP COLUMN IF EXISTS "sso_required"
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "personal_access_tokens" DROP COLUMN IF EXISTS "auth_method"
+    `);
+    await queryRunner.query(
+      `DROP TYPE IF EXISTS "public"."personal_access_tokens_auth_method_enum"`
+    );
+    await queryRunner.query(`
+      ALTER TABLE "user_sessions" DROP COLUMN IF EXISTS "auth_method"
+    `);
+    await queryRunner.query(`DROP TYPE IF EXISTS "public"."user_sessions_auth_method_enum"`);
+    await queryRunner.query(`
+      ALTER TABLE "users"
+      DROP CONSTRAINT IF EXISTS "UQ_users_oidc_subject",
+      DROP COLUMN IF EXISTS "oidc_subject"
+    `);
+  }
+}
@@ -0,0 +1,22 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddPreviousRefreshToken1770130000000 implements MigrationInterface {
+  name = 'AddPreviousRefreshToken1770130000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // The secret replaced by the last refresh, to tell reuse from guessing
+    await queryRunner.query(`
+      ALTER TABLE "user_sessions"
+      ADD "previous_refresh_token_hash" character varying(64),
+      ADD "refresh_token_rotated_at" TIMESTAMP
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "user_sessions"
+      DROP COLUMN IF EXISTS "refresh_token_rotated_at",
+      DROP COLUMN IF EXISTS "previous_refresh_token_hash"
+    `);
+  }
+}
@@ -73,6 +73,20 @@ export const appRoutes: Route[] = [
         loadComponent: () =>
           import('./pages/tasks/tasks.component').then((m) => m.TasksComponent),
       },
+      {
+        path: 'planning',
+        loadComponent: () =>
+          import('./pages/planning/planning.component').then(
+            (m) => m.PlanningComponent
+          ),
+      },
+      {
+        path: 'timesheet',
+        loadComponent: () =>
+          import('./pages/timesheet/timesheet.component').then(
+            (m) => m.TimesheetComponent
+          ),
+      },
       {
         path: 'organizations',
         loadComponent: () =>
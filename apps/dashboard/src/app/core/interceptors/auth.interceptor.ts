@@ -1,17 +1,41 @@
-import { HttpInterceptorFn, HttpRequest, HttpHandlerFn } from '@angular/common/http';
+import { inject, Injector } from '@angular/core';
+import {
+  HttpInterceptorFn,
+  HttpRequest,
+  HttpHandlerFn,
+  HttpErrorResponse,
+} from '@angular/common/http';
+import { catchError, switchMap } from 'rxjs';
+import { AuthService } from '../services/auth.service';
 
 const TOKEN_KEY = 'auth_token';
 
+// Endpoints that authenticate with credentials or a refresh token
+// instead of an access token
+const PUBLIC_AUTH_ENDPOINTS = [
+  '/auth/login',
+  '/auth/register',
+  '/auth/refresh',
+  '/auth/logout',
+  '/auth/mfa/verify',
+  '/auth/oidc/config',
+];
+
 /**
  * Functional HTTP interceptor that adds the Authorization header
  * to outgoing requests when a token is available.
  *
  * This follows the modern Angular functional interceptor pattern
  * introduced in Angular 15+.
- * 
- * Note: We read the token directly from localStorage instead of
- * injecting AuthService to avoid circular dependency issues during
- * app initialization when AuthService triggers loadUserProfile().
+ *
+ * When a request fails with 401 the access token has expired: it is
+ * refreshed once and the request retried. Requests failing while a
+ * refresh is running wait for that refresh instead of starting another.
+ *
+ * Note: We read the token directly from localStorage and only resolve
+ * AuthService when a refresh is needed, to avoid circular dependency
+ * issues during app initialization when AuthService triggers
+ * loadUserProfile().
  */
 export const authInterceptor: HttpInterceptorFn = (
   req: HttpRequest<unknown>,
@@ -19,18 +43,37 @@ export const authInterceptor: HttpInterceptorFn = (
 ) => {
   const token = localStorage.getItem(TOKEN_KEY);
 
-  // Skip adding auth header for auth endpoints (login/register)
-  const isAuthEndpoint =
-    req.url.includes('/auth/login') || req.url.includes('/auth/register');
-
-  if (token && !isAuthEndpoint) {
-    const clonedRequest = req.clone({
-      setHeaders: {
-        Authorization: `Bearer ${token}`,
-      },
-    });
-    return next(clonedRequest);
+  const isAuthEndpoint = PUBLIC_AUTH_ENDPOINTS.some((path) =>
+    req.url.endsWith(path)
+  );
+
+  if (!token || isAuthEndpoint) {
+    return next(req);
   }
 
-  return next(req);
+  const injector = inject(Injector);
+
+  return next(withToken(req, token)).pipe(
+    catchError((error: unknown) => {
+      if (!(error instanceof HttpErrorResponse) || error.status !== 401) {
+        throw error;
+      }
+
+      return injector
+        .get(AuthService)
+        .refreshAccessToken(token)
+        .pipe(switchMap((freshToken) => next(withToken(req, freshToken))));
+    })
+  );
 };
+
+function withToken(
+  req: HttpRequest<unknown>,
+  token: string
+): HttpRequest<unknown> {
+  return req.clone({
+    setHeaders: {
+      Authorization: `Bearer ${token}`,
+    },
+  });
+}
@@ -0,0 +1,137 @@
+import { Injectable, signal, inject } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable, tap, catchError, of } from 'rxjs';
+import { ITaskAttachment } from '@task-manager/data/frontend';
+
+@Injectable({
+  providedIn: 'root',
+})
+export class AttachmentService {
+  private readonly API_URL = '/api/v1/tasks';
+  private readonly http = inject(HttpClient);
+
+  // Attachments of the task currently open in the task modal
+  private readonly _taskId = signal<string | null>(null);
+  private readonly _attachments = signal<ITaskAttachment[]>([]);
+  private readonly _isLoading = signal<boolean>(false);
+  private readonly _isUploading = signal<boolean>(false);
+  private readonly _error = signal<string | null>(null);
+
+  // Public readonly signals
+  readonly taskId = this._taskId.asReadonly();
+  readonly attachments = this._attachments.asReadonly();
+  readonly isLoading = this._isLoading.asReadonly();
+  readonly isUploading = this._isUploading.asReadonly();
+  readonly error = this._error.asReadonly();
+
+  /**
+   * Load the attachments of a task
+   */
+  loadAttachments(taskId: string): void {
+    this._taskId.set(taskId);
+    this._attachments.set([]);
+    this._isLoading.set(true);
+    this._error.set(null);
+
+    this.http
+      .get<ITaskAttachment[]>(`${this.API_URL}/${taskId}/attachments`)
+      .pipe(
+        tap((attachments) => {
+          // Ignore responses for a task that is no longer open
+          if (this._taskId() === taskId) {
+            this._attachments.set(attachments);
+          }
+          this._isLoading.set(false);
+        }),
+        catchError((error) => {
+          this._error.set(error.error?.message || 'Failed to load attachments');
+          this._isLoading.set(false);
+          return of([]);
+        })
+      )
+      .subscribe();
+  }
+
+  /**
+   * Upload a file as a multipart form
+   */
+  upload(taskId: string, file: File): Observable<ITaskAttachment> {
+    const formData = new FormData();
+    formData.append('file', file);
+
+    this._isUploading.set(true);
+    this._error.set(null);
+
+    return this.http
+      .post<ITaskAttachment>(`${this.API_URL}/${taskId}/attachments`, formData)
+      .pipe(
+        tap((attachment) => {
+          this._attachments.update((attachments) => [...attachments, attachment]);
+          this._isUploading.set(false);
+        }),
+        catchError((error) => {
+          this._error.set(error.error?.message || `Failed to upload ${file.name}`);
+          this._isUploading.set(false);
+          throw error;
+        })
+      );
+  }
+
+  /**
+   * Fetch an attachment with the auth header and hand it to the browser
+   */
+  download(attachment: ITaskAttachment): void {
+    this._error.set(null);
+
+    this.http
+      .get(
+        `${this.API_URL}/${attachment.taskId}/attachments/${attachment.id}/download`,
+        { responseType: 'blob' }
+      )
+      .pipe(
+        tap((blob) => {
+          const url = URL.createObjectURL(blob);
+          const link = document.createElement('a');
+          link.href = url;
+          link.download = attachment.fileName;
+          link.click();
+          URL.revokeObjectURL(url);
+        }),
+        catchError(() => {
+          this._error.set('Failed to download attachment');
+          return of(null);
+        })
+      )
+      .subscribe();
+  }
+
+  /**
+   * Permanently delete an attachment
+   */
+  deleteAttachment(taskId: string, attachmentId: string): Observable<void> {
+    this._error.set(null);
+
+    return this.http
+      .delete<void>(`${this.API_URL}/${taskId}/attachments/${attachmentId}`)
+      .pipe(
+        tap(() =>
+          this._attachments.update((attachments) =>
+            attachments.filter((a) => a.id !== attachmentId)
+          )
+        ),
+        catchError((error) => {
+          this._error.set(error.error?.message || 'Failed to delete attachment');
+          throw error;
+        })
+      );
+  }
+
+  /**
+   * Clear the list when the task modal closes
+   */
+  clear(): void {
+    this._taskId.set(null);
+    this._attachments.set([]);
+    this._error.set(null);
+  }
+}
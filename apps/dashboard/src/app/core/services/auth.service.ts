@@ -1,15 +1,45 @@
 import { Injectable, signal, computed, inject } from '@angular/core';
-import { HttpClient } from '@angular/common/http';
+import { HttpClient, HttpErrorResponse } from '@angular/common/http';
 import { Router } from '@angular/router';
-import { Observable, tap, catchError, of } from 'rxjs';
-import { IUserWithOrganizations } from '@task-manager/data/frontend';
+import {
+  Observable,
+  tap,
+  map,
+  catchError,
+  finalize,
+  shareReplay,
+  of,
+  throwError,
+  timer,
+} from 'rxjs';
+import {
+  IUserWithOrganizations,
+  IUserSession,
+  ILoginEvent,
+  IMfaChallenge,
+  IMfaSetup,
+  IMfaStatus,
+  IPersonalAccessToken,
+  ICreatedPersonalAccessToken,
+  ITokenScope,
+  ISsoConfig,
+} from '@task-manager/data/frontend';
 
 interface LoginResponse {
   access_token: string;
+  refresh_token: string;
+}
+
+export interface CreateAccessTokenDto {
+  name: string;
+  scopes: ITokenScope[];
+  organizationId?: string;
+  expiresInDays?: number;
 }
 
 interface RegisterResponse {
   access_token: string;
+  refresh_token: string;
 }
 
 @Injectable({
@@ -17,12 +47,17 @@ interface RegisterResponse {
 })
 export class AuthService {
   private readonly TOKEN_KEY = 'auth_token';
+  private readonly REFRESH_TOKEN_KEY = 'refresh_token';
   private readonly API_URL = '/api/v1/auth';
+  // How long a rejected refresh waits for another tab's refresh to be stored
+  private readonly TAB_REFRESH_SETTLE_MS = 1000;
 
   // Signals for reactive state management
   private readonly _currentUser = signal<IUserWithOrganizations | null>(null);
   private readonly _isLoading = signal<boolean>(false);
   private readonly _error = signal<string | null>(null);
+  // Token of a sign-in waiting for its two-factor code
+  private readonly _mfaToken = signal<string | null>(null);
 
   // Public readonly signals
   readonly currentUser = this._currentUser.asReadonly();
@@ -31,6 +66,7 @@ export class AuthService {
 
   // Computed signals
   readonly isAuthenticated = computed(() => !!this._currentUser());
+  readonly mfaPending = computed(() => !!this._mfaToken());
   readonly userOrganizations = computed(
     () => this._currentUser()?.organizationMemberships ?? []
   );
@@ -38,6 +74,9 @@ export class AuthService {
   private readonly http = inject(HttpClient);
   private readonly router = inject(Router);
 
+  // Refresh request shared by every caller while it is running
+  private refreshInFlight: Observable<string> | null = null;
+
   constructor() {
     // Initialize auth state on service creation
     this.initializeAuth();
@@ -58,17 +97,30 @@ export class AuthService {
   }
 
   /**
-   * Login with email and password
+   * Login with email and password. Accounts with two-factor
+   * authentication get a challenge instead of tokens: mfaPending turns
+   * true and the sign-in finishes with verifyMfa().
    */
-  login(email: string, password: string): Observable<LoginResponse> {
+  login(
+    email: string,
+    password: string
+  ): Observable<LoginResponse | IMfaChallenge> {
     this._isLoading.set(true);
     this._error.set(null);
 
     return this.http
-      .post<LoginResponse>(`${this.API_URL}/login`, { email, password })
+      .post<LoginResponse | IMfaChallenge>(`${this.API_URL}/login`, {
+        email,
+        password,
+      })
       .pipe(
         tap((response) => {
-          this.setToken(response.access_token);
+          if ('mfa_token' in response) {
+            this._mfaToken.set(response.mfa_token);
+            this._isLoading.set(false);
+            return;
+          }
+          this.setTokens(response);
           this.loadUserProfile();
         }),
         catchError((error) => {
@@ -79,6 +131,75 @@ export class AuthService {
       );
   }
 
+  /**
+   * Whether the login page offers single sign-on
+   */
+  getSsoConfig(): Observable<ISsoConfig> {
+    return this.http
+      .get<ISsoConfig>(`${this.API_URL}/oidc/config`)
+      .pipe(catchError(() => of({ enabled: false })));
+  }
+
+  /**
+   * Pick up the result of a single sign-on, which the API hands back in
+   * the URL fragment of the login page. Returns true when the user is now
+   * signed in; a two-factor challenge leaves mfaPending true instead.
+   */
+  completeSsoLogin(fragment: string): boolean {
+    const result = new URLSearchParams(fragment);
+    const accessToken = result.get('access_token');
+    const refreshToken = result.get('refresh_token');
+
+    if (accessToken && refreshToken) {
+      this._error.set(null);
+      this.setTokens({ access_token: accessToken, refresh_token: refreshToken });
+      this.loadUserProfile();
+      return true;
+    }
+    if (result.get('mfa_token')) {
+      this._error.set(null);
+      this._mfaToken.set(result.get('mfa_token'));
+    } else if (result.get('error')) {
+      this._error.set(result.get('error'));
+    }
+    return false;
+  }
+
+  /**
+   * Finish a two-factor sign-in with a code from the authenticator app or
+   * a recovery code
+   */
+  verifyMfa(code: string): Observable<LoginResponse> {
+    this._isLoading.set(true);
+    this._error.set(null);
+
+    return this.http
+      .post<LoginResponse>(`${this.API_URL}/mfa/verify`, {
+        mfaToken: this._mfaToken(),
+        code,
+      })
+      .pipe(
+        tap((response) => {
+          this._mfaToken.set(null);
+          this.setTokens(response);
+          this.loadUserProfile();
+        }),
+        catchError((error) => {
+          this._isLoading.set(false);
+          this._error.set(error.error?.message || 'Verification failed');
+          throw error;
+        })
+      );
+  }
+
+  /**
+   * Abandon a two-factor sign-in and go back to the password step
+   */
+  cancelMfa(): void {
+    this._mfaToken.set(null);
+    this._error.set(null);
+  }
+
   /**
    * Register a new user
    */
@@ -100,7 +221,7 @@ export class AuthService {
       })
       .pipe(
         tap((response) => {
-          this.setToken(response.access_token);
+          this.setTokens(response);
           this.loadUserProfile();
         }),
         catchError((error) => {
@@ -119,10 +240,172 @@ export class AuthService {
    * Logout and clear auth state
    */
   logout(): void {
-    localStorage.removeItem(this.TOKEN_KEY);
-    this._currentUser.set(null);
-    this._error.set(null);
-    this.router.navigate(['/login']);
+    const refreshToken = localStorage.getItem(this.REFRESH_TOKEN_KEY);
+    if (refreshToken) {
+      // End the session on the server too; signing out locally must not
+      // wait for (or depend on) it
+      this.http
+        .post<void>(`${this.API_URL}/logout`, { refreshToken })
+        .pipe(catchError(() => of(null)))
+        .subscribe();
+    }
+    this.endSession();
+  }
+
+  /**
+   * Sign out of every device, this one included
+   */
+  logoutEverywhere(): Observable<void> {
+    return this.http
+      .post<void>(`${this.API_URL}/logout-all`, {})
+      .pipe(tap(() => this.endSession()));
+  }
+
+  /**
+   * List the browsers and devices the user is signed in on
+   */
+  getSessions(): Observable<IUserSession[]> {
+    return this.http.get<IUserSession[]>(`${this.API_URL}/sessions`);
+  }
+
+  /**
+   * Sign one of the user's other sessions out
+   */
+  revokeSession(id: string): Observable<void> {
+    return this.http.delete<void>(`${this.API_URL}/sessions/${id}`);
+  }
+
+  /**
+   * Recent sign-in attempts on the user's account
+   */
+  getLoginHistory(): Observable<ILoginEvent[]> {
+    return this.http.get<ILoginEvent[]>(`${this.API_URL}/login-history`);
+  }
+
+  /**
+   * Whether two-factor authentication is on, and how many recovery codes
+   * are left
+   */
+  getMfaStatus(): Observable<IMfaStatus> {
+    return this.http.get<IMfaStatus>(`${this.API_URL}/mfa`);
+  }
+
+  /**
+   * Start two-factor enrollment with a new secret
+   */
+  setupMfa(): Observable<IMfaSetup> {
+    return this.http.post<IMfaSetup>(`${this.API_URL}/mfa/setup`, {});
+  }
+
+  /**
+   * Confirm enrollment with a first code; returns the recovery codes
+   */
+  enableMfa(code: string): Observable<{ recoveryCodes: string[] }> {
+    return this.http.post<{ recoveryCodes: string[] }>(
+      `${this.API_URL}/mfa/enable`,
+      { code }
+    );
+  }
+
+  /**
+   * Turn two-factor authentication off
+   */
+  disableMfa(code: string): Observable<void> {
+    return this.http.post<void>(`${this.API_URL}/mfa/disable`, { code });
+  }
+
+  /**
+   * Replace the recovery codes with a new set
+   */
+  regenerateRecoveryCodes(code: string): Observable<{ recoveryCodes: string[] }> {
+    return this.http.post<{ recoveryCodes: string[] }>(
+      `${this.API_URL}/mfa/recovery-codes`,
+      { code }
+    );
+  }
+
+  /**
+   * The user's personal access tokens
+   */
+  getAccessTokens(): Observable<IPersonalAccessToken[]> {
+    return this.http.get<IPersonalAccessToken[]>(`${this.API_URL}/tokens`);
+  }
+
+  /**
+   * Create a personal access token; the response is the only time the
+   * token itself is shown
+   */
+  createAccessToken(dto: CreateAccessTokenDto): Observable<ICreatedPersonalAccessToken> {
+    return this.http.post<ICreatedPersonalAccessToken>(`${this.API_URL}/tokens`, dto);
+  }
+
+  revokeAccessToken(id: string): Observable<void> {
+    return this.http.delete<void>(`${this.API_URL}/tokens/${id}`);
+  }
+
+  /**
+   * Every permission in the system, i.e. every scope a token can have
+   */
+  getTokenScopes(): Observable<ITokenScope[]> {
+    return this.http
+      .get<{ permissions: ITokenScope[] }>(`${this.API_URL}/all-permissions`)
+      .pipe(
+        map(({ permissions }) =>
+          permissions.map(({ resource, action }) => ({ resource, action }))
+        )
+      );
+  }
+
+  /**
+   * Trade the refresh token for a new token pair and return the new
+   * access token. Callers arriving while a refresh is running share it,
+   * and a caller whose token was already replaced, in this tab or
+   * another, gets the current one.
+   */
+  refreshAccessToken(expiredToken: string): Observable<string> {
+    const currentToken = this.getToken();
+    if (currentToken && currentToken !== expiredToken) {
+      return of(currentToken);
+    }
+
+    const refreshToken = localStorage.getItem(this.REFRESH_TOKEN_KEY);
+    if (!refreshToken) {
+      this.endSession();
+      return throwError(() => new Error('Session expired'));
+    }
+
+    if (!this.refreshInFlight) {
+      this.refreshInFlight = this.http
+        .post<LoginResponse>(`${this.API_URL}/refresh`, { refreshToken })
+        .pipe(
+          tap((response) => this.setTokens(response)),
+          map((response) => response.access_token),
+          catchError((error) => {
+            // Network errors leave the session in place for the next attempt
+            if (!(error instanceof HttpErrorResponse) || error.status !== 401) {
+              throw error;
+            }
+            // Another tab sharing this storage may have traded the same
+            // token a moment earlier; its new pair is then the one to use
+            return timer(this.TAB_REFRESH_SETTLE_MS).pipe(
+              map(() => {
+                const accessToken = this.getToken();
+                const storedRefreshToken = localStorage.getItem(this.REFRESH_TOKEN_KEY);
+                if (accessToken && storedRefreshToken && storedRefreshToken !== refreshToken) {
+                  return accessToken;
+                }
+                // Otherwise the rejected refresh token means the session is over
+                this.endSession();
+                throw error;
+              })
+            );
+          }),
+          finalize(() => (this.refreshInFlight = null)),
+          shareReplay(1)
+        );
+    }
+
+    return this.refreshInFlight;
   }
 
   /**
@@ -217,9 +500,21 @@ export class AuthService {
   }
 
   /**
-   * Store the authentication token
+   * Store the access and refresh tokens
    */
-  private setToken(token: string): void {
-    localStorage.setItem(this.TOKEN_KEY, token);
+  private setTokens(response: LoginResponse): void {
+    localStorage.setItem(this.TOKEN_KEY, response.access_token);
+    localStorage.setItem(this.REFRESH_TOKEN_KEY, response.refresh_token);
+  }
+
+  /**
+   * Forget the tokens and the user locally
+   */
+  private endSession(): void {
+    localStorage.removeItem(this.TOKEN_KEY);
+    localStorage.removeItem(this.REFRESH_TOKEN_KEY);
+    this._currentUser.set(null);
+    this._error.set(null);
+    this.router.navigate(['/login']);
   }
 }
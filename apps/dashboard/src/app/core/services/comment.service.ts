@@ -0,0 +1,169 @@
+import { Injectable, signal, computed, inject } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable, tap, catchError, of } from 'rxjs';
+import { ITaskComment } from '@task-manager/data/frontend';
+
+@Injectable({
+  providedIn: 'root',
+})
+export class CommentService {
+  private readonly API_URL = '/api/v1/tasks';
+  private readonly http = inject(HttpClient);
+
+  // Thread of the task currently open in the task modal
+  private readonly _taskId = signal<string | null>(null);
+  private readonly _comments = signal<ITaskComment[]>([]);
+  private readonly _isLoading = signal<boolean>(false);
+  private readonly _error = signal<string | null>(null);
+
+  // Public readonly signals
+  readonly taskId = this._taskId.asReadonly();
+  readonly comments = this._comments.asReadonly();
+  readonly isLoading = this._isLoading.asReadonly();
+  readonly error = this._error.asReadonly();
+
+  readonly commentCount = computed(() =>
+    this._comments().reduce(
+      (count, comment) => count + 1 + (comment.replies?.length ?? 0),
+      0
+    )
+  );
+
+  /**
+   * Load the comment thread for a task
+   */
+  loadComments(taskId: string): void {
+    this._taskId.set(taskId);
+    this._comments.set([]);
+    this._isLoading.set(true);
+    this._error.set(null);
+
+    this.http
+      .get<ITaskComment[]>(`${this.API_URL}/${taskId}/comments`)
+      .pipe(
+        tap((comments) => {
+          // Ignore responses for a task that is no longer open
+          if (this._taskId() === taskId) {
+            this._comments.set(comments);
+          }
+          this._isLoading.set(false);
+        }),
+        catchError((error) => {
+          this._error.set(error.error?.message || 'Failed to load comments');
+          this._isLoading.set(false);
+          return of([]);
+        })
+      )
+      .subscribe();
+  }
+
+  /**
+   * Post a comment, or a reply when parentId is given
+   */
+  addComment(
+    taskId: string,
+    body: string,
+    parentId?: string
+  ): Observable<ITaskComment> {
+    this._error.set(null);
+
+    return this.http
+      .post<ITaskComment>(`${this.API_URL}/${taskId}/comments`, {
+        body,
+        parentId,
+      })
+      .pipe(
+        tap((comment) => {
+          if (!comment.parentId) {
+            this._comments.update((comments) => [
+              ...comments,
+              { ...comment, replies: [] },
+            ]);
+            return;
+          }
+          this._comments.update((comments) =>
+            comments.map((c) =>
+              c.id === comment.parentId
+                ? { ...c, replies: [...(c.replies ?? []), comment] }
+                : c
+            )
+          );
+        }),
+        catchError((error) => {
+          this._error.set(error.error?.message || 'Failed to post comment');
+          throw error;
+        })
+      );
+  }
+
+  /**
+   * Edit the body of a comment
+   */
+  updateComment(
+    taskId: string,
+    commentId: string,
+    body: string
+  ): Observable<ITaskComment> {
+    this._error.set(null);
+
+    return this.http
+      .put<ITaskComment>(`${this.API_URL}/${taskId}/comments/${commentId}`, {
+        body,
+      })
+      .pipe(
+        tap((updated) =>
+          this._comments.update((comments) =>
+            comments.map((c) =>
+              c.id === commentId
+                ? { ...updated, replies: c.replies }
+                : {
+                    ...c,
+                    replies: c.replies?.map((r) =>
+                      r.id === commentId ? updated : r
+                    ),
+                  }
+            )
+          )
+        ),
+        catchError((error) => {
+          this._error.set(error.error?.message || 'Failed to update comment');
+          throw error;
+        })
+      );
+  }
+
+  /**
+   * Delete a comment; deleting a top-level comment removes its replies
+   */
+  deleteComment(taskId: string, commentId: string): Observable<void> {
+    this._error.set(null);
+
+    return this.http
+      .delete<void>(`${this.API_URL}/${taskId}/comments/${commentId}`)
+      .pipe(
+        tap(() =>
+          this._comments.update((comments) =>
+            comments
+              .filter((c) => c.id !== commentId)
+              .map((c) => ({
+                ...c,
+                replies: c.replies?.filter((r) => r.id !== commentId),
+              }))
+          )
+        ),
+        catchError((error) => {
+          this._error.set(error.error?.message || 'Failed to delete comment');
+          throw error;
+        })
+      );
+  }
+
+  /**
+   * Clear the thread when the task modal closes
+   */
+  clear(): void {
+    this._taskId.set(null);
+    this._comments.set([]);
+    this._error.set(null);
+  }
+}
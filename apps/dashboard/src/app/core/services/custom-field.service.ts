@@ -0,0 +1,151 @@
+import { Injectable, signal, inject, effect } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable, tap, catchError, of } from 'rxjs';
+import { CustomFieldType, ICustomField } from '@task-manager/data/frontend';
+import { OrganizationService } from './organization.service';
+import { TaskService } from './task.service';
+
+export interface CreateCustomFieldDto {
+  name: string;
+  type: CustomFieldType;
+  options?: string[];
+  required?: boolean;
+}
+
+export interface UpdateCustomFieldDto {
+  name?: string;
+  options?: string[];
+  required?: boolean;
+}
+
+@Injectable({
+  providedIn: 'root',
+})
+export class CustomFieldService {
+  private readonly API_URL = '/api/v1/organizations';
+  private readonly http = inject(HttpClient);
+  private readonly organizationService = inject(OrganizationService);
+  private readonly taskService = inject(TaskService);
+
+  // Track loaded organization to prevent duplicate loads
+  private loadedOrgId: string | null = null;
+
+  private readonly _fields = signal<ICustomField[]>([]);
+  private readonly _isLoading = signal<boolean>(false);
+  private readonly _error = signal<string | null>(null);
+
+  // Public readonly signals
+  readonly fields = this._fields.asReadonly();
+  readonly isLoading = this._isLoading.asReadonly();
+  readonly error = this._error.asReadonly();
+
+  constructor() {
+    // Custom fields belong to the current organization
+    effect(() => {
+      const org = this.organizationService.currentOrg();
+      if (org && org.id !== this.loadedOrgId) {
+        this.loadedOrgId = org.id;
+        this.loadFields(org.id);
+      } else if (!org) {
+        this.loadedOrgId = null;
+        this._fields.set([]);
+      }
+    });
+  }
+
+  private loadFields(orgId: string): void {
+    this._isLoading.set(true);
+    this._error.set(null);
+
+    this.http
+      .get<ICustomField[]>(`${this.API_URL}/${orgId}/custom-fields`)
+      .pipe(
+        tap((fields) => {
+          this._fields.set(fields);
+          this._isLoading.set(false);
+        }),
+        catchError((error) => {
+          this._error.set(error.error?.message || 'Failed to load custom fields');
+          this._isLoading.set(false);
+          return of([]);
+        })
+      )
+      .subscribe();
+  }
+
+  /**
+   * Define a field for the current organization
+   */
+  createField(dto: CreateCustomFieldDto): Observable<ICustomField> {
+    const orgId = this.organizationService.currentOrg()?.id;
+    if (!orgId) {
+      throw new Error('No organization selected');
+    }
+
+    this._error.set(null);
+
+    return this.http
+      .post<ICustomField>(`${this.API_URL}/${orgId}/custom-fields`, dto)
+      .pipe(
+        tap((field) => this._fields.update((fields) => [...fields, field])),
+        catchError((error) => {
+          this._error.set(error.error?.message || 'Failed to create custom field');
+          throw error;
+        })
+      );
+  }
+
+  /**
+   * Update a field; tasks lose the options it no longer offers
+   */
+  updateField(id: string, dto: UpdateCustomFieldDto): Observable<ICustomField> {
+    const orgId = this.organizationService.currentOrg()?.id;
+    if (!orgId) {
+      throw new Error('No organization selected');
+    }
+
+    this._error.set(null);
+
+    return this.http
+      .patch<ICustomField>(`${this.API_URL}/${orgId}/custom-fields/${id}`, dto)
+      .pipe(
+        tap((updated) => {
+          this._fields.update((fields) =>
+            fields.map((f) => (f.id === id ? updated : f))
+          );
+          if (updated.options) {
+            this.taskService.pruneCustomFieldOptions(updated);
+          }
+        }),
+        catchError((error) => {
+          this._error.set(error.error?.message || 'Failed to update custom field');
+          throw error;
+        })
+      );
+  }
+
+  /**
+   * Delete a field along with its values on all tasks
+   */
+  deleteField(id: string): Observable<void> {
+    const orgId = this.organizationService.currentOrg()?.id;
+    if (!orgId) {
+      throw new Error('No organization selected');
+    }
+
+    this._error.set(null);
+
+    return this.http
+      .delete<void>(`${this.API_URL}/${orgId}/custom-fields/${id}`)
+      .pipe(
+        tap(() => {
+          this._fields.update((fields) => fields.filter((f) => f.id !== id));
+          this.taskService.removeCustomField(id);
+        }),
+        catchError((error) => {
+          this._error.set(error.error?.message || 'Failed to delete custom field');
+          throw error;
+        })
+      );
+  }
+}
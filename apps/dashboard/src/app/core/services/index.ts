@@ -1,6 +1,45 @@
 export { AuthService } from './auth.service';
-export { TaskService } from './task.service';
-export type { CreateTaskDto, UpdateTaskDto, SortBy } from './task.service';
+export type { CreateAccessTokenDto } from './auth.service';
+export { TaskService, toSortField, fromSortField } from './task.service';
+export type {
+  CreateTaskDto,
+  UpdateTaskDto,
+  UpdateChecklistItemDto,
+  BulkTaskDto,
+  MoveTaskDto,
+  SortBy,
+  BoardQuery,
+  BoardFilters,
+  ColumnPage,
+} from './task.service';
+export { CommentService } from './comment.service';
+export { LabelService } from './label.service';
+export type { CreateLabelDto, UpdateLabelDto } from './label.service';
+export { WorkflowService } from './workflow.service';
+export type {
+  CreateWorkflowStatusDto,
+  UpdateWorkflowStatusDto,
+  BoardColumn,
+} from './workflow.service';
+export { CustomFieldService } from './custom-field.service';
+export type {
+  CreateCustomFieldDto,
+  UpdateCustomFieldDto,
+} from './custom-field.service';
+export { AttachmentService } from './attachment.service';
+export { TaskLinkService } from './task-link.service';
+export { TaskWatcherService } from './task-watcher.service';
+export { TaskHistoryService } from './task-history.service';
+export { RecurrenceService } from './recurrence.service';
+export type { SetRecurrenceDto } from './recurrence.service';
+export { WorklogService, formatDuration } from './worklog.service';
+export type { CreateWorklogDto, TimesheetQuery } from './worklog.service';
+export { SprintService, formatEstimate } from './sprint.service';
+export type { CreateSprintDto, UpdateSprintDto } from './sprint.service';
+export { SavedViewService } from './saved-view.service';
+export type { CreateSavedViewDto, UpdateSavedViewDto } from './saved-view.service';
+export { ProjectService } from './project.service';
+export type { CreateProjectDto, UpdateProjectDto } from './project.service';
 export { OrganizationService } from './organization.service';
 export type {
   CreateOrganizationDto,
@@ -8,5 +47,6 @@ export type {
 } from './organization.service';
 export { ThemeService, type ThemeMode } from './theme.service';
 export { ShortcutService, type ShortcutEvent } from './shortcut.service';
+export { SearchService } from './search.service';
 export { PermissionsService } from './permissions.service';
 export type { EffectivePermission, PermissionKey } from './permissions.service';
@@ -0,0 +1,157 @@
+import { Injectable, signal, inject, effect } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable, tap, catchError, of } from 'rxjs';
+import { ILabel } from '@task-manager/data/frontend';
+import { OrganizationService } from './organization.service';
+import { TaskService } from './task.service';
+
+export interface CreateLabelDto {
+  name: string;
+  color: string;
+}
+
+export interface UpdateLabelDto {
+  name?: string;
+  color?: string;
+}
+
+@Injectable({
+  providedIn: 'root',
+})
+export class LabelService {
+  private readonly API_URL = '/api/v1/organizations';
+  private readonly http = inject(HttpClient);
+  private readonly organizationService = inject(OrganizationService);
+  private readonly taskService = inject(TaskService);
+
+  // Track loaded organization to prevent duplicate loads
+  private loadedOrgId: string | null = null;
+
+  private readonly _labels = signal<ILabel[]>([]);
+  private readonly _isLoading = signal<boolean>(false);
+  private readonly _error = signal<string | null>(null);
+
+  // Public readonly signals
+  readonly labels = this._labels.asReadonly();
+  readonly isLoading = this._isLoading.asReadonly();
+  readonly error = this._error.asReadonly();
+
+  constructor() {
+    // Labels belong to the current organization
+    effect(() => {
+      const org = this.organizationService.currentOrg();
+      if (org && org.id !== this.loadedOrgId) {
+        this.loadedOrgId = org.id;
+        this.loadLabels(org.id);
+      } else if (!org) {
+        this.loadedOrgId = null;
+        this._labels.set([]);
+      }
+    });
+  }
+
+  private loadLabels(orgId: string): void {
+    this._isLoading.set(true);
+    this._error.set(null);
+
+    this.http
+      .get<ILabel[]>(`${this.API_URL}/${orgId}/labels`)
+      .pipe(
+        tap((labels) => {
+          this._labels.set(labels);
+          this._isLoading.set(false);
+        }),
+        catchError((error) => {
+          this._error.set(error.error?.message || 'Failed to load labels');
+          this._isLoading.set(false);
+          return of([]);
+        })
+      )
+      .subscribe();
+  }
+
+  /**
+   * Look up a label of the current organization
+   */
+  getLabel(id: string): ILabel | undefined {
+    return this._labels().find((l) => l.id === id);
+  }
+
+  /**
+   * Create a label in the current organization
+   */
+  createLabel(dto: CreateLabelDto): Observable<ILabel> {
+    const orgId = this.organizationService.currentOrg()?.id;
+    if (!orgId) {
+      throw new Error('No organization selected');
+    }
+
+    this._error.set(null);
+
+    return this.http.post<ILabel>(`${this.API_URL}/${orgId}/labels`, dto).pipe(
+      tap((label) =>
+        this._labels.update((labels) =>
+          [...labels, label].sort((a, b) => a.name.localeCompare(b.name))
+        )
+      ),
+      catchError((error) => {
+        this._error.set(error.error?.message || 'Failed to create label');
+        throw error;
+      })
+    );
+  }
+
+  /**
+   * Rename or recolour a label; tasks showing it are updated too
+   */
+  updateLabel(id: string, dto: UpdateLabelDto): Observable<ILabel> {
+    const orgId = this.organizationService.currentOrg()?.id;
+    if (!orgId) {
+      throw new Error('No organization selected');
+    }
+
+    this._error.set(null);
+
+    return this.http
+      .patch<ILabel>(`${this.API_URL}/${orgId}/labels/${id}`, dto)
+      .pipe(
+        tap((updated) => {
+          this._labels.update((labels) =>
+            labels
+              .map((l) => (l.id === id ? updated : l))
+              .sort((a, b) => a.name.localeCompare(b.name))
+          );
+          this.taskService.replaceLabel(updated);
+        }),
+        catchError((error) => {
+          this._error.set(error.error?.message || 'Failed to update label');
+          throw error;
+        })
+      );
+  }
+
+  /**
+   * Delete a label; the server removes it from all tasks
+   */
+  deleteLabel(id: string): Observable<void> {
+    const orgId = this.organizationService.currentOrg()?.id;
+    if (!orgId) {
+      throw new Error('No organization selected');
+    }
+
+    this._error.set(null);
+
+    return this.http
+      .delete<void>(`${this.API_URL}/${orgId}/labels/${id}`)
+      .pipe(
+        tap(() => {
+          this._labels.update((labels) => labels.filter((l) => l.id !== id));
+          this.taskService.removeLabel(id);
+        }),
+        catchError((error) => {
+          this._error.set(error.error?.message || 'Failed to delete label');
+          throw error;
+        })
+      );
+  }
+}
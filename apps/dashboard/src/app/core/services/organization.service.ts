@@ -1,6 +1,6 @@
 import { Injectable, signal, computed, inject, effect } from '@angular/core';
 import { HttpClient } from '@angular/common/http';
-import { Observable, tap, catchError, of } from 'rxjs';
+import { Observable, tap, catchError, of, map } from 'rxjs';
 import {
   IOrganization,
   IOrganizationWithHierarchy,
@@ -8,6 +8,8 @@ import {
   ICreateInvitation,
   IOrganizationMember,
   InvitationStatus,
+  EstimateUnit,
+  OrganizationRole,
 } from '@task-manager/data/frontend';
 import { AuthService } from './auth.service';
 
@@ -18,6 +20,10 @@ export interface CreateOrganizationDto {
 
 export interface UpdateOrganizationDto {
   name?: string;
+  enforceBlockers?: boolean;
+  estimateUnit?: EstimateUnit;
+  mfaRequiredRole?: OrganizationRole | null;
+  ssoRequired?: boolean;
 }
 
 @Injectable({
@@ -145,24 +151,27 @@ export class OrganizationService {
     this._isLoading.set(true);
     this._error.set(null);
 
-    return this.http.patch<IOrganization>(`${this.API_URL}/${id}`, dto).pipe(
-      tap((updatedOrg) => {
-        this._organizations.update((orgs) =>
-          orgs.map((o) => (o.id === id ? updatedOrg : o))
-        );
-        if (this._currentOrg()?.id === id) {
-          this._currentOrg.set(updatedOrg);
-        }
-        this._isLoading.set(false);
-      }),
-      catchError((error) => {
-        this._error.set(
-          error.error?.message || 'Failed to update organization'
-        );
-        this._isLoading.set(false);
-        throw error;
-      })
-    );
+    return this.http
+      .patch<{ organization: IOrganization }>(`${this.API_URL}/${id}`, dto)
+      .pipe(
+        map((response) => response.organization),
+        tap((updatedOrg) => {
+          this._organizations.update((orgs) =>
+            orgs.map((o) => (o.id === id ? { ...o, ...updatedOrg } : o))
+          );
+          if (this._currentOrg()?.id === id) {
+            this._currentOrg.update((org) => (org ? { ...org, ...updatedOrg } : org));
+          }
+          this._isLoading.set(false);
+        }),
+        catchError((error) => {
+          this._error.set(
+            error.error?.message || 'Failed to update organization'
+          );
+          this._isLoading.set(false);
+          throw error;
+        })
+      );
   }
 
   /**
@@ -275,6 +284,42 @@ export class OrganizationService {
       );
   }
 
+  /**
+   * Remove a member from an organization. Removing yourself leaves the
+   * organization, which is then dropped like a deleted one.
+   */
+  removeMember(organizationId: string, userId: string): Observable<void> {
+    this._isLoading.set(true);
+    this._error.set(null);
+
+    return this.http
+      .delete<void>(`${this.API_URL}/${organizationId}/members/${userId}`)
+      .pipe(
+        tap(() => {
+          this._members.update((members) =>
+            members.filter((m) => m.userId !== userId)
+          );
+
+          if (userId === this.authService.currentUser()?.id) {
+            this._organizations.update((orgs) =>
+              orgs.filter((o) => o.id !== organizationId)
+            );
+            if (this._currentOrg()?.id === organizationId) {
+              this._currentOrg.set(null);
+              localStorage.removeItem(this.CURRENT_ORG_KEY);
+            }
+          }
+
+          this._isLoading.set(false);
+        }),
+        catchError((error) => {
+          this._error.set(error.error?.message || 'Failed to remove member');
+          this._isLoading.set(false);
+          throw error;
+        })
+      );
+  }
+
   /**
    * Clear members when switching org
    */
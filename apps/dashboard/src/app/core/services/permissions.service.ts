@@ -177,6 +177,38 @@ export class PermissionsService {
     this.can(PermissionResource.AUDIT_LOG, PermissionAction.READ)
   );
 
+  canCreateComments = computed(() =>
+    this.can(PermissionResource.COMMENT, PermissionAction.CREATE)
+  );
+
+  canManageComments = computed(() =>
+    this.can(PermissionResource.COMMENT, PermissionAction.MANAGE)
+  );
+
+  canManageCustomFields = computed(() =>
+    this.can(PermissionResource.CUSTOM_FIELD, PermissionAction.UPDATE)
+  );
+
+  canLogTime = computed(() =>
+    this.can(PermissionResource.WORKLOG, PermissionAction.CREATE)
+  );
+
+  canManageWorklogs = computed(() =>
+    this.can(PermissionResource.WORKLOG, PermissionAction.MANAGE)
+  );
+
+  canPlanSprints = computed(() =>
+    this.can(PermissionResource.SPRINT, PermissionAction.UPDATE)
+  );
+
+  canRunSprints = computed(() =>
+    this.can(PermissionResource.SPRINT, PermissionAction.MANAGE)
+  );
+
+  canManageProjects = computed(() =>
+    this.can(PermissionResource.PROJECT, PermissionAction.UPDATE)
+  );
+
   /**
    * Clear all cached permissions
    */
@@ -0,0 +1,160 @@
+import { Injectable, signal, computed, inject, effect } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable, tap, catchError, of } from 'rxjs';
+import { IProject } from '@task-manager/data/frontend';
+import { OrganizationService } from './organization.service';
+
+export interface CreateProjectDto {
+  key: string;
+  name: string;
+  description?: string;
+}
+
+export interface UpdateProjectDto {
+  name?: string;
+  description?: string | null;
+  archived?: boolean;
+}
+
+@Injectable({
+  providedIn: 'root',
+})
+export class ProjectService {
+  private readonly API_URL = '/api/v1/organizations';
+  private readonly http = inject(HttpClient);
+  private readonly organizationService = inject(OrganizationService);
+
+  // Track loaded organization to prevent duplicate loads
+  private loadedOrgId: string | null = null;
+
+  private readonly _projects = signal<IProject[]>([]);
+  private readonly _isLoading = signal<boolean>(false);
+  private readonly _error = signal<string | null>(null);
+
+  // Public readonly signals
+  readonly projects = this._projects.asReadonly();
+  readonly isLoading = this._isLoading.asReadonly();
+  readonly error = this._error.asReadonly();
+
+  // Projects that take new tasks, as listed in the sidebar
+  readonly activeProjects = computed(() =>
+    this._projects().filter((p) => !p.archived)
+  );
+
+  constructor() {
+    // Projects belong to the current organization
+    effect(() => {
+      const org = this.organizationService.currentOrg();
+      if (org && org.id !== this.loadedOrgId) {
+        this.loadedOrgId = org.id;
+        this.loadProjects(org.id);
+      } else if (!org) {
+        this.loadedOrgId = null;
+        this._projects.set([]);
+      }
+    });
+  }
+
+  private loadProjects(orgId: string): void {
+    this._isLoading.set(true);
+    this._error.set(null);
+
+    this.http
+      .get<IProject[]>(`${this.API_URL}/${orgId}/projects`)
+      .pipe(
+        tap((projects) => {
+          this._projects.set(projects);
+          this._isLoading.set(false);
+        }),
+        catchError((error) => {
+          this._error.set(error.error?.message || 'Failed to load projects');
+          this._isLoading.set(false);
+          return of([]);
+        })
+      )
+      .subscribe();
+  }
+
+  /**
+   * Look up a project of the current organization
+   */
+  getProject(id: string): IProject | undefined {
+    return this._projects().find((p) => p.id === id);
+  }
+
+  /**
+   * Create a project in the current organization
+   */
+  createProject(dto: CreateProjectDto): Observable<IProject> {
+    const orgId = this.organizationService.currentOrg()?.id;
+    if (!orgId) {
+      throw new Error('No organization selected');
+    }
+
+    this._error.set(null);
+
+    return this.http.post<IProject>(`${this.API_URL}/${orgId}/projects`, dto).pipe(
+      tap((project) =>
+        this._projects.update((projects) =>
+          [...projects, project].sort((a, b) => a.name.localeCompare(b.name))
+        )
+      ),
+      catchError((error) => {
+        this._error.set(error.error?.message || 'Failed to create project');
+        throw error;
+      })
+    );
+  }
+
+  /**
+   * Rename, describe or (un)archive a project
+   */
+  updateProject(id: string, dto: UpdateProjectDto): Observable<IProject> {
+    const orgId = this.organizationService.currentOrg()?.id;
+    if (!orgId) {
+      throw new Error('No organization selected');
+    }
+
+    this._error.set(null);
+
+    return this.http
+      .patch<IProject>(`${this.API_URL}/${orgId}/projects/${id}`, dto)
+      .pipe(
+        tap((updated) =>
+          this._projects.update((projects) =>
+            projects
+              .map((p) => (p.id === id ? updated : p))
+              .sort((a, b) => a.name.localeCompare(b.name))
+          )
+        ),
+        catchError((error) => {
+          this._error.set(error.error?.message || 'Failed to update project');
+          throw error;
+        })
+      );
+  }
+
+  /**
+   * Delete a project; the server only allows this for empty projects
+   */
+  deleteProject(id: string): Observable<void> {
+    const orgId = this.organizationService.currentOrg()?.id;
+    if (!orgId) {
+      throw new Error('No organization selected');
+    }
+
+    this._error.set(null);
+
+    return this.http
+      .delete<void>(`${this.API_URL}/${orgId}/projects/${id}`)
+      .pipe(
+        tap(() =>
+          this._projects.update((projects) => projects.filter((p) => p.id !== id))
+        ),
+        catchError((error) => {
+          this._error.set(error.error?.message || 'Failed to delete project');
+          throw error;
+        })
+      );
+  }
+}
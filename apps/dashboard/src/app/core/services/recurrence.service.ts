@@ -0,0 +1,110 @@
+import { Injectable, signal, inject } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable, tap, catchError, of } from 'rxjs';
+import { ITaskRecurrence } from '@task-manager/data/frontend';
+import { TaskService } from './task.service';
+
+export interface SetRecurrenceDto {
+  rule: string;
+  startsAt?: string;
+}
+
+@Injectable({
+  providedIn: 'root',
+})
+export class RecurrenceService {
+  private readonly API_URL = '/api/v1/tasks';
+  private readonly http = inject(HttpClient);
+  private readonly taskService = inject(TaskService);
+
+  // Recurrence of the task currently open in the task modal
+  private readonly _taskId = signal<string | null>(null);
+  private readonly _recurrence = signal<ITaskRecurrence | null>(null);
+  private readonly _isLoading = signal<boolean>(false);
+  private readonly _error = signal<string | null>(null);
+
+  // Public readonly signals
+  readonly recurrence = this._recurrence.asReadonly();
+  readonly isLoading = this._isLoading.asReadonly();
+  readonly error = this._error.asReadonly();
+
+  /**
+   * Load the recurrence of the series a task belongs to
+   */
+  loadRecurrence(taskId: string): void {
+    this._taskId.set(taskId);
+    this._recurrence.set(null);
+    this._isLoading.set(true);
+    this._error.set(null);
+
+    this.http
+      .get<ITaskRecurrence | null>(`${this.API_URL}/${taskId}/recurrence`)
+      .pipe(
+        tap((recurrence) => {
+          // Ignore responses for a task that is no longer open
+          if (this._taskId() === taskId) {
+            this._recurrence.set(recurrence);
+          }
+          this._isLoading.set(false);
+        }),
+        catchError((error) => {
+          this._error.set(error.error?.message || 'Failed to load recurrence');
+          this._isLoading.set(false);
+          return of(null);
+        })
+      )
+      .subscribe();
+  }
+
+  /**
+   * Make a task recur, or change the rule of its series
+   */
+  setRecurrence(taskId: string, dto: SetRecurrenceDto): Observable<ITaskRecurrence> {
+    this._error.set(null);
+
+    return this.http
+      .put<ITaskRecurrence>(`${this.API_URL}/${taskId}/recurrence`, dto)
+      .pipe(
+        tap((recurrence) => {
+          this._recurrence.set(recurrence);
+          this.taskService.setRecurrenceId(taskId, recurrence.id);
+        }),
+        catchError((error) => {
+          this._error.set(error.error?.message || 'Failed to save recurrence');
+          throw error;
+        })
+      );
+  }
+
+  /**
+   * Stop a series; its tasks are kept
+   */
+  stopRecurrence(taskId: string): Observable<void> {
+    this._error.set(null);
+
+    return this.http
+      .delete<void>(`${this.API_URL}/${taskId}/recurrence`)
+      .pipe(
+        tap(() => {
+          const recurrenceId = this._recurrence()?.id;
+          this._recurrence.set(null);
+          if (recurrenceId) {
+            this.taskService.clearRecurrenceId(recurrenceId);
+          }
+        }),
+        catchError((error) => {
+          this._error.set(error.error?.message || 'Failed to stop recurrence');
+          throw error;
+        })
+      );
+  }
+
+  /**
+   * Clear the state when the task modal closes
+   */
+  clear(): void {
+    this._taskId.set(null);
+    this._recurrence.set(null);
+    this._error.set(null);
+  }
+}
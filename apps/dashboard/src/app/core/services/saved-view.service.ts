@@ -0,0 +1,167 @@
+import { Injectable, signal, computed, inject, effect } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable, tap, catchError, of } from 'rxjs';
+import {
+  ISavedView,
+  ISavedViewFilters,
+  SavedViewVisibility,
+  TaskSortField,
+} from '@task-manager/data/frontend';
+import { OrganizationService } from './organization.service';
+import { AuthService } from './auth.service';
+
+export interface CreateSavedViewDto {
+  name: string;
+  filters: ISavedViewFilters;
+  sortBy?: TaskSortField;
+  visibility?: SavedViewVisibility;
+}
+
+export interface UpdateSavedViewDto {
+  name?: string;
+  filters?: ISavedViewFilters;
+  sortBy?: TaskSortField;
+  visibility?: SavedViewVisibility;
+}
+
+@Injectable({
+  providedIn: 'root',
+})
+export class SavedViewService {
+  private readonly API_URL = '/api/v1/organizations';
+  private readonly http = inject(HttpClient);
+  private readonly organizationService = inject(OrganizationService);
+  private readonly authService = inject(AuthService);
+
+  // Track loaded organization to prevent duplicate loads
+  private loadedOrgId: string | null = null;
+
+  private readonly _views = signal<ISavedView[]>([]);
+  private readonly _isLoading = signal<boolean>(false);
+  private readonly _error = signal<string | null>(null);
+
+  // Public readonly signals
+  readonly views = this._views.asReadonly();
+  readonly isLoading = this._isLoading.asReadonly();
+  readonly error = this._error.asReadonly();
+
+  // The user's own views, then the ones other members shared
+  readonly myViews = computed(() => {
+    const userId = this.authService.currentUser()?.id;
+    return this._views().filter((v) => v.ownerId === userId);
+  });
+
+  readonly sharedViews = computed(() => {
+    const userId = this.authService.currentUser()?.id;
+    return this._views().filter((v) => v.ownerId !== userId);
+  });
+
+  constructor() {
+    // Views belong to the current organization
+    effect(() => {
+      const org = this.organizationService.currentOrg();
+      if (org && org.id !== this.loadedOrgId) {
+        this.loadedOrgId = org.id;
+        this.loadViews(org.id);
+      } else if (!org) {
+        this.loadedOrgId = null;
+        this._views.set([]);
+      }
+    });
+  }
+
+  private loadViews(orgId: string): void {
+    this._isLoading.set(true);
+    this._error.set(null);
+
+    this.http
+      .get<ISavedView[]>(`${this.API_URL}/${orgId}/views`)
+      .pipe(
+        tap((views) => {
+          this._views.set(views);
+          this._isLoading.set(false);
+        }),
+        catchError((error) => {
+          this._error.set(error.error?.message || 'Failed to load views');
+          this._isLoading.set(false);
+          return of([]);
+        })
+      )
+      .subscribe();
+  }
+
+  /**
+   * Save a view in the current organization
+   */
+  createView(dto: CreateSavedViewDto): Observable<ISavedView> {
+    const orgId = this.organizationService.currentOrg()?.id;
+    if (!orgId) {
+      throw new Error('No organization selected');
+    }
+
+    this._error.set(null);
+
+    return this.http.post<ISavedView>(`${this.API_URL}/${orgId}/views`, dto).pipe(
+      tap((view) =>
+        this._views.update((views) =>
+          [...views, view].sort((a, b) => a.name.localeCompare(b.name))
+        )
+      ),
+      catchError((error) => {
+        this._error.set(error.error?.message || 'Failed to save view');
+        throw error;
+      })
+    );
+  }
+
+  /**
+   * Rename, refilter or (un)share one of the user's views
+   */
+  updateView(id: string, dto: UpdateSavedViewDto): Observable<ISavedView> {
+    const orgId = this.organizationService.currentOrg()?.id;
+    if (!orgId) {
+      throw new Error('No organization selected');
+    }
+
+    this._error.set(null);
+
+    return this.http
+      .patch<ISavedView>(`${this.API_URL}/${orgId}/views/${id}`, dto)
+      .pipe(
+        tap((updated) =>
+          this._views.update((views) =>
+            views
+              .map((v) => (v.id === id ? updated : v))
+              .sort((a, b) => a.name.localeCompare(b.name))
+          )
+        ),
+        catchError((error) => {
+          this._error.set(error.error?.message || 'Failed to update view');
+          throw error;
+        })
+      );
+  }
+
+  deleteView(id: string): Observable<void> {
+    const orgId = this.organizationService.currentOrg()?.id;
+    if (!orgId) {
+      throw new Error('No organization selected');
+    }
+
+    this._error.set(null);
+
+    return this.http
+      .delete<void>(`${this.API_URL}/${orgId}/views/${id}`)
+      .pipe(
+        tap(() => this._views.update((views) => views.filter((v) => v.id !== id))),
+        catchError((error) => {
+          this._error.set(error.error?.message || 'Failed to delete view');
+          throw error;
+        })
+      );
+  }
+
+  clearError(): void {
+    this._error.set(null);
+  }
+}
@@ -0,0 +1,72 @@
+import { Injectable, signal, inject } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { toObservable } from '@angular/core/rxjs-interop';
+import { debounceTime, switchMap, tap, catchError, of } from 'rxjs';
+import { ISearchHit } from '@task-manager/data/frontend';
+
+// Wait for a pause in typing before asking the server
+const SEARCH_DEBOUNCE_MS = 200;
+
+@Injectable({
+  providedIn: 'root',
+})
+export class SearchService {
+  private readonly API_URL = '/api/v1/search';
+  private readonly http = inject(HttpClient);
+
+  private readonly _query = signal<string>('');
+  private readonly _results = signal<ISearchHit[]>([]);
+  private readonly _isLoading = signal<boolean>(false);
+  private readonly _error = signal<string | null>(null);
+
+  // Public readonly signals
+  readonly query = this._query.asReadonly();
+  readonly results = this._results.asReadonly();
+  readonly isLoading = this._isLoading.asReadonly();
+  readonly error = this._error.asReadonly();
+
+  constructor() {
+    // Only the latest query counts; older requests are cancelled
+    toObservable(this._query)
+      .pipe(
+        debounceTime(SEARCH_DEBOUNCE_MS),
+        switchMap((query) => {
+          if (!query.trim()) {
+            this._results.set([]);
+            this._isLoading.set(false);
+            return of(null);
+          }
+          return this.http
+            .get<ISearchHit[]>(this.API_URL, { params: { q: query } })
+            .pipe(
+              tap((results) => {
+                this._results.set(results);
+                this._isLoading.set(false);
+              }),
+              catchError((error) => {
+                this._error.set(error.error?.message || 'Search failed');
+                this._isLoading.set(false);
+                return of(null);
+              })
+            );
+        })
+      )
+      .subscribe();
+  }
+
+  /**
+   * Search all of the user's organizations as they type
+   */
+  search(query: string): void {
+    this._query.set(query);
+    this._error.set(null);
+    this._isLoading.set(!!query.trim());
+  }
+
+  clear(): void {
+    this._query.set('');
+    this._results.set([]);
+    this._isLoading.set(false);
+    this._error.set(null);
+  }
+}
@@ -0,0 +1,279 @@
+import { Injectable, signal, computed, inject, effect } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable, tap, catchError, of } from 'rxjs';
+import {
+  ISprint,
+  SprintState,
+  EstimateUnit,
+} from '@task-manager/data/frontend';
+import { OrganizationService } from './organization.service';
+import { TaskService } from './task.service';
+
+export interface CreateSprintDto {
+  name: string;
+  goal?: string;
+  startDate: string;
+  endDate: string;
+}
+
+export interface UpdateSprintDto {
+  name?: string;
+  goal?: string | null;
+  startDate?: string;
+  endDate?: string;
+}
+
+/**
+ * Format an estimate in the organization's unit, e.g. "3 pts" or "1.5 h"
+ */
+export function formatEstimate(estimate: number, unit = EstimateUnit.POINTS): string {
+  const value = Number.isInteger(estimate) ? estimate : estimate.toFixed(1);
+  return unit === EstimateUnit.HOURS ? `${value} h` : `${value} ${estimate === 1 ? 'pt' : 'pts'}`;
+}
+
+@Injectable({
+  providedIn: 'root',
+})
+export class SprintService {
+  private readonly API_URL = '/api/v1/organizations';
+  private readonly http = inject(HttpClient);
+  private readonly organizationService = inject(OrganizationService);
+  private readonly taskService = inject(TaskService);
+
+  // Track loaded organization to prevent duplicate loads
+  private loadedOrgId: string | null = null;
+
+  private readonly _sprints = signal<ISprint[]>([]);
+  private readonly _isLoading = signal<boolean>(false);
+  private readonly _error = signal<string | null>(null);
+
+  // Public readonly signals
+  readonly sprints = this._sprints.asReadonly();
+  readonly isLoading = this._isLoading.asReadonly();
+  readonly error = this._error.asReadonly();
+
+  readonly activeSprint = computed(
+    () => this._sprints().find((s) => s.state === SprintState.ACTIVE) ?? null
+  );
+
+  readonly plannedSprints = computed(() =>
+    this._sprints().filter((s) => s.state === SprintState.PLANNED)
+  );
+
+  readonly closedSprints = computed(() =>
+    this._sprints()
+      .filter((s) => s.state === SprintState.CLOSED)
+      .reverse()
+  );
+
+  constructor() {
+    // Sprints belong to the current organization
+    effect(() => {
+      const org = this.organizationService.currentOrg();
+      if (org && org.id !== this.loadedOrgId) {
+        this.loadedOrgId = org.id;
+        this.loadSprints(org.id);
+      } else if (!org) {
+        this.loadedOrgId = null;
+        this._sprints.set([]);
+      }
+    });
+  }
+
+  private loadSprints(orgId: string): void {
+    this._isLoading.set(true);
+    this._error.set(null);
+
+    this.http
+      .get<ISprint[]>(`${this.API_URL}/${orgId}/sprints`)
+      .pipe(
+        tap((sprints) => {
+          this._sprints.set(sprints);
+          this._isLoading.set(false);
+        }),
+        catchError((error) => {
+          this._error.set(error.error?.message || 'Failed to load sprints');
+          this._isLoading.set(false);
+          return of([]);
+        })
+      )
+      .subscribe();
+  }
+
+  /**
+   * Plan a sprint in the current organization
+   */
+  createSprint(dto: CreateSprintDto): Observable<ISprint> {
+    const orgId = this.organizationService.currentOrg()?.id;
+    if (!orgId) {
+      throw new Error('No organization selected');
+    }
+
+    this._error.set(null);
+
+    return this.http.post<ISprint>(`${this.API_URL}/${orgId}/sprints`, dto).pipe(
+      tap((sprint) =>
+        this._sprints.update((sprints) =>
+          [...sprints, sprint].sort(
+            (a, b) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime()
+          )
+        )
+      ),
+      catchError((error) => {
+        this._error.set(error.error?.message || 'Failed to create sprint');
+        throw error;
+      })
+    );
+  }
+
+  /**
+   * Edit the name, goal or dates of a sprint
+   */
+  updateSprint(id: string, dto: UpdateSprintDto): Observable<ISprint> {
+    const orgId = this.organizationService.currentOrg()?.id;
+    if (!orgId) {
+      throw new Error('No organization selected');
+    }
+
+    this._error.set(null);
+
+    return this.http
+      .patch<ISprint>(`${this.API_URL}/${orgId}/sprints/${id}`, dto)
+      .pipe(
+        tap((sprint) => this.replace(sprint)),
+        catchError((error) => {
+          this._error.set(error.error?.message || 'Failed to update sprint');
+          throw error;
+        })
+      );
+  }
+
+  /**
+   * Delete a sprint; its tasks go back to the backlog
+   */
+  deleteSprint(id: string): Observable<void> {
+    const orgId = this.organizationService.currentOrg()?.id;
+    if (!orgId) {
+      throw new Error('No organization selected');
+    }
+
+    this._error.set(null);
+
+    return this.http
+      .delete<void>(`${this.API_URL}/${orgId}/sprints/${id}`)
+      .pipe(
+        tap(() => {
+          this._sprints.update((sprints) => sprints.filter((s) => s.id !== id));
+          this.taskService.moveSprintTasks(id, null);
+        }),
+        catchError((error) => {
+          this._error.set(error.error?.message || 'Failed to delete sprint');
+          throw error;
+        })
+      );
+  }
+
+  /**
+   * Plan tasks into a sprint; tasks already in another sprint move
+   */
+  addTasks(id: string, taskIds: string[]): Observable<ISprint> {
+    const orgId = this.organizationService.currentOrg()?.id;
+    if (!orgId) {
+      throw new Error('No organization selected');
+    }
+
+    this._error.set(null);
+
+    return this.http
+      .post<ISprint>(`${this.API_URL}/${orgId}/sprints/${id}/tasks`, { taskIds })
+      .pipe(
+        tap((sprint) => {
+          this.replace(sprint);
+          this.taskService.setSprintId(taskIds, id);
+        }),
+        catchError((error) => {
+          this._error.set(error.error?.message || 'Failed to add tasks to sprint');
+          throw error;
+        })
+      );
+  }
+
+  /**
+   * Move a task from a sprint back to the backlog
+   */
+  removeTask(id: string, taskId: string): Observable<void> {
+    const orgId = this.organizationService.currentOrg()?.id;
+    if (!orgId) {
+      throw new Error('No organization selected');
+    }
+
+    this._error.set(null);
+
+    return this.http
+      .delete<void>(`${this.API_URL}/${orgId}/sprints/${id}/tasks/${taskId}`)
+      .pipe(
+        tap(() => this.taskService.setSprintId([taskId], null)),
+        catchError((error) => {
+          this._error.set(error.error?.message || 'Failed to remove task from sprint');
+          throw error;
+        })
+      );
+  }
+
+  /**
+   * Start a planned sprint
+   */
+  startSprint(id: string): Observable<ISprint> {
+    const orgId = this.organizationService.currentOrg()?.id;
+    if (!orgId) {
+      throw new Error('No organization selected');
+    }
+
+    this._error.set(null);
+
+    return this.http
+      .post<ISprint>(`${this.API_URL}/${orgId}/sprints/${id}/start`, {})
+      .pipe(
+        tap((sprint) => this.replace(sprint)),
+        catchError((error) => {
+          this._error.set(error.error?.message || 'Failed to start sprint');
+          throw error;
+        })
+      );
+  }
+
+  /**
+   * Close the active sprint, moving unfinished tasks to a planned sprint
+   * or, without one, the backlog
+   */
+  closeSprint(id: string, moveToSprintId?: string): Observable<ISprint> {
+    const orgId = this.organizationService.currentOrg()?.id;
+    if (!orgId) {
+      throw new Error('No organization selected');
+    }
+
+    this._error.set(null);
+
+    return this.http
+      .post<ISprint>(`${this.API_URL}/${orgId}/sprints/${id}/close`, { moveToSprintId })
+      .pipe(
+        tap((sprint) => {
+          this.replace(sprint);
+          this.taskService.moveSprintTasks(id, moveToSprintId ?? null, true);
+          if (this.taskService.sprintFilter() === id) {
+            this.taskService.setSprintFilter(null);
+          }
+        }),
+        catchError((error) => {
+          this._error.set(error.error?.message || 'Failed to close sprint');
+          throw error;
+        })
+      );
+  }
+
+  private replace(sprint: ISprint): void {
+    this._sprints.update((sprints) =>
+      sprints.map((s) => (s.id === sprint.id ? sprint : s))
+    );
+  }
+}
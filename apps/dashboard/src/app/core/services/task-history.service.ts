@@ -0,0 +1,61 @@
+import { Injectable, signal, inject } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { tap, catchError, of } from 'rxjs';
+import { ITaskHistory } from '@task-manager/data/frontend';
+
+@Injectable({
+  providedIn: 'root',
+})
+export class TaskHistoryService {
+  private readonly API_URL = '/api/v1/tasks';
+  private readonly http = inject(HttpClient);
+
+  // History of the task currently open in the task modal
+  private readonly _taskId = signal<string | null>(null);
+  private readonly _history = signal<ITaskHistory | null>(null);
+  private readonly _isLoading = signal<boolean>(false);
+  private readonly _error = signal<string | null>(null);
+
+  // Public readonly signals
+  readonly taskId = this._taskId.asReadonly();
+  readonly history = this._history.asReadonly();
+  readonly isLoading = this._isLoading.asReadonly();
+  readonly error = this._error.asReadonly();
+
+  /**
+   * Load the change history of a task
+   */
+  loadHistory(taskId: string): void {
+    this._taskId.set(taskId);
+    this._history.set(null);
+    this._isLoading.set(true);
+    this._error.set(null);
+
+    this.http
+      .get<ITaskHistory>(`${this.API_URL}/${taskId}/history`)
+      .pipe(
+        tap((history) => {
+          // Ignore responses for a task that is no longer open
+          if (this._taskId() === taskId) {
+            this._history.set(history);
+          }
+          this._isLoading.set(false);
+        }),
+        catchError((error) => {
+          this._error.set(error.error?.message || 'Failed to load history');
+          this._isLoading.set(false);
+          return of(null);
+        })
+      )
+      .subscribe();
+  }
+
+  /**
+   * Clear the history when the task modal closes
+   */
+  clear(): void {
+    this._taskId.set(null);
+    this._history.set(null);
+    this._error.set(null);
+  }
+}
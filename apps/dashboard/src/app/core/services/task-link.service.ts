@@ -0,0 +1,121 @@
+import { Injectable, signal, inject } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable, tap, catchError, of } from 'rxjs';
+import { ITaskLink, TaskLinkType, TaskStatus } from '@task-manager/data/frontend';
+import { TaskService } from './task.service';
+
+@Injectable({
+  providedIn: 'root',
+})
+export class TaskLinkService {
+  private readonly API_URL = '/api/v1/tasks';
+  private readonly http = inject(HttpClient);
+  private readonly taskService = inject(TaskService);
+
+  // Links of the task currently open in the task modal
+  private readonly _taskId = signal<string | null>(null);
+  private readonly _links = signal<ITaskLink[]>([]);
+  private readonly _isLoading = signal<boolean>(false);
+  private readonly _error = signal<string | null>(null);
+
+  // Public readonly signals
+  readonly taskId = this._taskId.asReadonly();
+  readonly links = this._links.asReadonly();
+  readonly isLoading = this._isLoading.asReadonly();
+  readonly error = this._error.asReadonly();
+
+  /**
+   * Load the links of a task, in both directions
+   */
+  loadLinks(taskId: string): void {
+    this._taskId.set(taskId);
+    this._links.set([]);
+    this._isLoading.set(true);
+    this._error.set(null);
+
+    this.http
+      .get<ITaskLink[]>(`${this.API_URL}/${taskId}/links`)
+      .pipe(
+        tap((links) => {
+          // Ignore responses for a task that is no longer open
+          if (this._taskId() === taskId) {
+            this._links.set(links);
+          }
+          this._isLoading.set(false);
+        }),
+        catchError((error) => {
+          this._error.set(error.error?.message || 'Failed to load links');
+          this._isLoading.set(false);
+          return of([]);
+        })
+      )
+      .subscribe();
+  }
+
+  /**
+   * Link a task to another task of the same organization
+   */
+  createLink(
+    taskId: string,
+    targetTaskId: string,
+    type: TaskLinkType
+  ): Observable<ITaskLink> {
+    this._error.set(null);
+
+    return this.http
+      .post<ITaskLink>(`${this.API_URL}/${taskId}/links`, { targetTaskId, type })
+      .pipe(
+        tap((link) => {
+          this._links.update((links) => [...links, link]);
+          this.countBlocker(link, 1);
+        }),
+        catchError((error) => {
+          this._error.set(error.error?.message || 'Failed to link tasks');
+          throw error;
+        })
+      );
+  }
+
+  /**
+   * Remove a link from either of its tasks
+   */
+  deleteLink(taskId: string, link: ITaskLink): Observable<void> {
+    this._error.set(null);
+
+    return this.http
+      .delete<void>(`${this.API_URL}/${taskId}/links/${link.id}`)
+      .pipe(
+        tap(() => {
+          this._links.update((links) => links.filter((l) => l.id !== link.id));
+          this.countBlocker(link, -1);
+        }),
+        catchError((error) => {
+          this._error.set(error.error?.message || 'Failed to remove link');
+          throw error;
+        })
+      );
+  }
+
+  /**
+   * Clear the list when the task modal closes
+   */
+  clear(): void {
+    this._taskId.set(null);
+    this._links.set([]);
+    this._error.set(null);
+  }
+
+  /**
+   * Keep the blocked indicator on the board in step with link changes
+   */
+  private countBlocker(link: ITaskLink, change: 1 | -1): void {
+    if (link.type !== TaskLinkType.BLOCKS) return;
+
+    const blocker = this.taskService
+      .tasks()
+      .find((t) => t.id === link.sourceTaskId);
+    if (blocker && blocker.status !== TaskStatus.DONE) {
+      this.taskService.adjustOpenBlockerCount(link.targetTaskId, change);
+    }
+  }
+}
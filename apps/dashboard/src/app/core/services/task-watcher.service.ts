@@ -0,0 +1,101 @@
+import { Injectable, signal, inject } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable, tap, catchError, of } from 'rxjs';
+import { ITaskWatcher } from '@task-manager/data/frontend';
+
+@Injectable({
+  providedIn: 'root',
+})
+export class TaskWatcherService {
+  private readonly API_URL = '/api/v1/tasks';
+  private readonly http = inject(HttpClient);
+
+  // Watchers of the task currently open in the task modal
+  private readonly _taskId = signal<string | null>(null);
+  private readonly _watchers = signal<ITaskWatcher[]>([]);
+  private readonly _isLoading = signal<boolean>(false);
+  private readonly _error = signal<string | null>(null);
+
+  // Public readonly signals
+  readonly taskId = this._taskId.asReadonly();
+  readonly watchers = this._watchers.asReadonly();
+  readonly isLoading = this._isLoading.asReadonly();
+  readonly error = this._error.asReadonly();
+
+  /**
+   * Load the watchers of a task
+   */
+  loadWatchers(taskId: string): void {
+    this._taskId.set(taskId);
+    this._watchers.set([]);
+    this._isLoading.set(true);
+    this._error.set(null);
+
+    this.http
+      .get<ITaskWatcher[]>(`${this.API_URL}/${taskId}/watchers`)
+      .pipe(
+        tap((watchers) => {
+          // Ignore responses for a task that is no longer open
+          if (this._taskId() === taskId) {
+            this._watchers.set(watchers);
+          }
+          this._isLoading.set(false);
+        }),
+        catchError((error) => {
+          this._error.set(error.error?.message || 'Failed to load watchers');
+          this._isLoading.set(false);
+          return of([]);
+        })
+      )
+      .subscribe();
+  }
+
+  /**
+   * Start watching a task as the current user
+   */
+  watch(taskId: string): Observable<ITaskWatcher[]> {
+    this._error.set(null);
+
+    return this.http
+      .post<ITaskWatcher[]>(`${this.API_URL}/${taskId}/watchers`, {})
+      .pipe(
+        tap((watchers) => this.setWatchers(taskId, watchers)),
+        catchError((error) => {
+          this._error.set(error.error?.message || 'Failed to watch task');
+          throw error;
+        })
+      );
+  }
+
+  /**
+   * Stop watching a task as the current user
+   */
+  unwatch(taskId: string): Observable<ITaskWatcher[]> {
+    this._error.set(null);
+
+    return this.http
+      .delete<ITaskWatcher[]>(`${this.API_URL}/${taskId}/watchers`)
+      .pipe(
+        tap((watchers) => this.setWatchers(taskId, watchers)),
+        catchError((error) => {
+          this._error.set(error.error?.message || 'Failed to unwatch task');
+          throw error;
+        })
+      );
+  }
+
+  /**
+   * Clear the list when the task modal closes
+   */
+  clear(): void {
+    this._taskId.set(null);
+    this._watchers.set([]);
+    this._error.set(null);
+  }
+
+  private setWatchers(taskId: string, watchers: ITaskWatcher[]): void {
+    if (this._taskId() === taskId) {
+      this._watchers.set(watchers);
+    }
+  }
+}
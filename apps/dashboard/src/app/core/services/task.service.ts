@@ -1,31 +1,139 @@
 import { Injectable, signal, computed, inject, effect } from '@angular/core';
 import { HttpClient } from '@angular/common/http';
-import { Observable, tap, catchError, of } from 'rxjs';
-import { ITask, TaskStatus, TaskPriority, TaskCategory } from '@task-manager/data/frontend';
+import { Observable, tap, catchError, of, expand, reduce, EMPTY } from 'rxjs';
+import {
+  ITask,
+  ITaskChecklistItem,
+  ILabel,
+  IWorkflowStatus,
+  ICustomField,
+  TaskStatus,
+  TaskPriority,
+  CustomFieldValue,
+  BulkTaskAction,
+  IBulkTaskResult,
+  ITaskPage,
+  TaskSortField,
+} from '@task-manager/data/frontend';
 import { OrganizationService } from './organization.service';
 
-export type SortBy = 'date' | 'priority' | 'alpha';
+export type SortBy = 'date' | 'due' | 'priority' | 'alpha' | 'manual';
+
+/**
+ * What the board asks the server for; every change reloads the columns
+ */
+export interface BoardQuery {
+  search: string;
+  labelIds: string[];
+  sortBy: SortBy;
+  sprintId: string | null;
+  projectId: string | null;
+}
+
+/**
+ * Board filters the user picks; the project comes from the route
+ */
+export type BoardFilters = Omit<BoardQuery, 'projectId'>;
+
+/**
+ * Paging state of one board column
+ */
+export interface ColumnPage {
+  /** Tasks of the column on the server, as of the last page */
+  total: number;
+  /** Tasks the server has sent for the column so far */
+  loaded: number;
+  nextCursor: string | null;
+  isLoading: boolean;
+}
 
 export interface CreateTaskDto {
   title: string;
   description?: string;
   status?: TaskStatus;
+  statusId?: string;
   priority?: TaskPriority;
-  category?: TaskCategory;
-  dueDate?: Date;
-  assigneeId?: string;
+  estimate?: number | null;
+  labelIds?: string[];
+  startDate?: string | null;
+  dueDate?: string | null;
+  assigneeIds?: string[];
+  parentId?: string;
+  projectId?: string;
+  customFieldValues?: Record<string, CustomFieldValue | null>;
 }
 
 export interface UpdateTaskDto {
   title?: string;
   description?: string;
   status?: TaskStatus;
+  statusId?: string;
+  priority?: TaskPriority;
+  estimate?: number | null;
+  labelIds?: string[];
+  startDate?: string | null;
+  dueDate?: string | null;
+  assigneeIds?: string[];
+  parentId?: string | null;
+  projectId?: string | null;
+  customFieldValues?: Record<string, CustomFieldValue | null>;
+}
+
+/**
+ * Where a dragged card goes: next to another card, or to the top of a
+ * column
+ */
+export interface MoveTaskDto {
+  beforeTaskId?: string;
+  afterTaskId?: string;
+  statusId?: string;
+}
+
+export interface BulkTaskDto {
+  taskIds: string[];
+  action: BulkTaskAction;
+  statusId?: string;
   priority?: TaskPriority;
-  category?: TaskCategory;
-  dueDate?: Date;
-  assigneeId?: string;
+  labelIds?: string[];
+  assigneeIds?: string[];
+  projectId?: string | null;
+}
+
+export interface UpdateChecklistItemDto {
+  title?: string;
+  isDone?: boolean;
+  position?: number;
+}
+
+// Server sort field for each board sort option; the server's default
+// direction for each matches sortTasks below
+const SORT_FIELDS: Record<SortBy, TaskSortField> = {
+  date: TaskSortField.CREATED_AT,
+  due: TaskSortField.DUE_DATE,
+  priority: TaskSortField.PRIORITY,
+  alpha: TaskSortField.TITLE,
+  manual: TaskSortField.MANUAL,
+};
+
+/**
+ * Server sort field of a board sort option
+ */
+export function toSortField(sortBy: SortBy): TaskSortField {
+  return SORT_FIELDS[sortBy];
+}
+
+/**
+ * Board sort option of a server sort field; fields the board cannot
+ * sort by fall back to date created
+ */
+export function fromSortField(field: TaskSortField): SortBy {
+  const entry = Object.entries(SORT_FIELDS).find(([, f]) => f === field);
+  return (entry?.[0] as SortBy | undefined) ?? 'date';
 }
 
+const BOARD_PAGE_SIZE = 25;
+const SEARCH_DEBOUNCE_MS = 300;
+
 // Priority weight for sorting (higher = more urgent)
 const PRIORITY_WEIGHT: Record<TaskPriority, number> = {
   [TaskPriority.LOW]: 1,
@@ -44,6 +152,11 @@ export class TaskService {
 
   // Track loaded organization to prevent duplicate loads
   private loadedOrgId: string | null = null;
+  // Set once a page needs every task of the organization (see loadTasks)
+  private allTasksWanted = false;
+  // Bumped on every board reload so pages of an older query are dropped
+  private boardGeneration = 0;
+  private searchTimer: ReturnType<typeof setTimeout> | null = null;
 
   // Signals for reactive state management
   private readonly _tasks = signal<ITask[]>([]);
@@ -51,82 +164,104 @@ export class TaskService {
   private readonly _isLoading = signal<boolean>(false);
   private readonly _error = signal<string | null>(null);
 
-  // Search, Filter, Sort signals
+  // Board state: which known tasks the board's query returned, paging per
+  // workflow status, and the organization's overdue count
+  private readonly _boardTaskIds = signal<ReadonlySet<string>>(new Set());
+  private readonly _columnPages = signal<Record<string, ColumnPage>>({});
+  private readonly _overdueCount = signal<number>(0);
+
+  // Search, Filter, Sort signals. The search sent to the server trails
+  // the search box until typing pauses.
   private readonly _searchQuery = signal<string>('');
-  private readonly _selectedCategory = signal<TaskCategory | null>(null);
+  private readonly _appliedSearch = signal<string>('');
+  private readonly _selectedLabelIds = signal<string[]>([]);
   private readonly _sortBy = signal<SortBy>('date');
+  private readonly _sprintFilter = signal<string | null>(null);
+  private readonly _projectFilter = signal<string | null>(null);
 
   // Public readonly signals
   readonly tasks = this._tasks.asReadonly();
   readonly selectedTask = this._selectedTask.asReadonly();
   readonly isLoading = this._isLoading.asReadonly();
   readonly error = this._error.asReadonly();
+  readonly columnPages = this._columnPages.asReadonly();
+  readonly overdueCount = this._overdueCount.asReadonly();
   readonly searchQuery = this._searchQuery.asReadonly();
-  readonly selectedCategory = this._selectedCategory.asReadonly();
+  readonly appliedSearch = this._appliedSearch.asReadonly();
+  readonly selectedLabelIds = this._selectedLabelIds.asReadonly();
   readonly sortBy = this._sortBy.asReadonly();
-
-  // Available categories for UI
-  readonly categories = Object.values(TaskCategory);
+  readonly sprintFilter = this._sprintFilter.asReadonly();
+  readonly projectFilter = this._projectFilter.asReadonly();
 
   constructor() {
-    // Effect to auto-load tasks when organization changes
+    // Effect to reset (and, where wanted, reload) tasks when organization
+    // changes. The board reloads itself as the workflow statuses change.
     effect(() => {
       const org = this.organizationService.currentOrg();
       if (org && org.id !== this.loadedOrgId) {
         this.loadedOrgId = org.id;
-        this.loadTasksInternal(org.id);
+        this.clearBoard();
+        this._tasks.set([]);
+        if (this.allTasksWanted) {
+          this.loadTasksInternal(org.id);
+        }
       } else if (!org) {
         this.loadedOrgId = null;
+        this.clearBoard();
         this._tasks.set([]);
       }
     });
   }
 
   /**
-   * CRITICAL: Computed signal that applies search, filter, and sort
-   * This is the single source of truth for filtered task display
+   * The board's query; the board reloads its columns whenever it changes
    */
-  readonly filteredTasks = computed(() => {
-    let tasks = [...this._tasks()];
-    const query = this._searchQuery().toLowerCase().trim();
-    const category = this._selectedCategory();
-    const sort = this._sortBy();
-
-    // 1. Apply search filter
-    if (query) {
-      tasks = tasks.filter(
-        (t) =>
-          t.title.toLowerCase().includes(query) ||
-          (t.description && t.description.toLowerCase().includes(query))
-      );
-    }
-
-    // 2. Apply category filter
-    if (category) {
-      tasks = tasks.filter((t) => t.category === category);
-    }
+  readonly boardQuery = computed<BoardQuery>(() => ({
+    search: this._appliedSearch(),
+    labelIds: this._selectedLabelIds(),
+    sortBy: this._sortBy(),
+    sprintId: this._sprintFilter(),
+    projectId: this._projectFilter(),
+  }));
 
-    // 3. Apply sorting
-    tasks = this.sortTasks(tasks, sort);
+  /**
+   * Tasks the server returned for the board's query, plus tasks created
+   * since. Searching and filtering happen on the server; sorting again
+   * here places tasks that moved between columns.
+   */
+  readonly filteredTasks = computed(() => {
+    const ids = this._boardTaskIds();
+    const tasks = this._tasks().filter((t) => ids.has(t.id));
+    return this.sortTasks(tasks, this._sortBy());
+  });
 
-    return tasks;
+  /**
+   * Tasks matching the board's query, including pages not loaded yet
+   */
+  readonly boardTaskCount = computed(() => {
+    const notLoaded = Object.values(this._columnPages()).reduce(
+      (sum, page) => sum + Math.max(0, page.total - page.loaded),
+      0
+    );
+    return this.filteredTasks().length + notLoaded;
   });
 
-  // Computed signals for Kanban columns (derived from filteredTasks)
+  // Task counts per status category (derived from the full task list,
+  // see loadTasks); the board itself groups by workflow status, see
+  // WorkflowService.columns
   readonly todoTasks = computed(() =>
-    this.filteredTasks().filter((t) => t.status === TaskStatus.TODO)
+    this._tasks().filter((t) => t.status === TaskStatus.TODO)
   );
 
   readonly inProgressTasks = computed(() =>
-    this.filteredTasks().filter((t) => t.status === TaskStatus.IN_PROGRESS)
+    this._tasks().filter((t) => t.status === TaskStatus.IN_PROGRESS)
   );
 
   readonly doneTasks = computed(() =>
-    this.filteredTasks().filter((t) => t.status === TaskStatus.DONE)
+    this._tasks().filter((t) => t.status === TaskStatus.DONE)
   );
 
   readonly taskCount = computed(() => this._tasks().length);
-  readonly filteredTaskCount = computed(() => this.filteredTasks().length);
 
   /**
    * Sort tasks based on the selected sort option
@@ -137,8 +272,23 @@ export class TaskService {
         return tasks.sort(
           (a, b) => PRIORITY_WEIGHT[b.priority] - PRIORITY_WEIGHT[a.priority]
         );
+      case 'due':
+        // Soonest due first; tasks without a due date go last
+        return tasks.sort((a, b) => {
+          if (!a.dueDate && !b.dueDate) return 0;
+          if (!a.dueDate) return 1;
+          if (!b.dueDate) return -1;
+          return new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime();
+        });
       case 'alpha':
         return tasks.sort((a, b) => a.title.localeCompare(b.title));
+      case 'manual':
+        // Ranks compare code unit by code unit, as on the server
+        return tasks.sort((a, b) => {
+          const rankA = a.rank ?? '';
+          const rankB = b.rank ?? '';
+          return rankA < rankB ? -1 : rankA > rankB ? 1 : 0;
+        });
       case 'date':
       default:
         return tasks.sort(
@@ -149,17 +299,28 @@ export class TaskService {
   }
 
   /**
-   * Set search query
+   * Set search query. The board is queried once typing pauses.
    */
   setSearchQuery(query: string): void {
     this._searchQuery.set(query);
+    if (this.searchTimer) {
+      clearTimeout(this.searchTimer);
+    }
+    this.searchTimer = setTimeout(() => {
+      this.searchTimer = null;
+      this._appliedSearch.set(query.trim());
+    }, SEARCH_DEBOUNCE_MS);
   }
 
   /**
-   * Set category filter
+   * Add or remove a label from the label filter
    */
-  setSelectedCategory(category: TaskCategory | null): void {
-    this._selectedCategory.set(category);
+  toggleLabelFilter(labelId: string): void {
+    this._selectedLabelIds.update((ids) =>
+      ids.includes(labelId)
+        ? ids.filter((id) => id !== labelId)
+        : [...ids, labelId]
+    );
   }
 
   /**
@@ -169,20 +330,68 @@ export class TaskService {
     this._sortBy.set(sortBy);
   }
 
+  /**
+   * Only show the tasks of a sprint (null shows all tasks)
+   */
+  setSprintFilter(sprintId: string | null): void {
+    this._sprintFilter.set(sprintId);
+  }
+
+  /**
+   * Scope the board to the tasks of a project (null shows all tasks).
+   * Set from the route, so clearFilters leaves it alone.
+   */
+  setProjectFilter(projectId: string | null): void {
+    this._projectFilter.set(projectId);
+  }
+
+  /**
+   * Apply filters from a link or saved view at once, without waiting
+   * for a typing pause. Unchanged filters keep their value, so the
+   * board only reloads if something differs.
+   */
+  applyFilters(filters: BoardFilters): void {
+    if (filters.search !== this._appliedSearch()) {
+      if (this.searchTimer) {
+        clearTimeout(this.searchTimer);
+        this.searchTimer = null;
+      }
+      this._searchQuery.set(filters.search);
+      this._appliedSearch.set(filters.search);
+    }
+    const labelIds = this._selectedLabelIds();
+    if (
+      filters.labelIds.length !== labelIds.length ||
+      filters.labelIds.some((id, i) => id !== labelIds[i])
+    ) {
+      this._selectedLabelIds.set(filters.labelIds);
+    }
+    this._sortBy.set(filters.sortBy);
+    this._sprintFilter.set(filters.sprintId);
+  }
+
   /**
    * Clear all filters
    */
   clearFilters(): void {
+    if (this.searchTimer) {
+      clearTimeout(this.searchTimer);
+      this.searchTimer = null;
+    }
     this._searchQuery.set('');
-    this._selectedCategory.set(null);
+    this._appliedSearch.set('');
+    this._selectedLabelIds.set([]);
     this._sortBy.set('date');
+    this._sprintFilter.set(null);
   }
 
   /**
-   * Load all tasks for the current organization
-   * This is now primarily called by the effect, but can be called manually to refresh
+   * Load every task of the current organization, page by page, for the
+   * views that work on the whole list (dashboard, analytics, planning).
+   * Keeps them loaded across organization switches from then on.
    */
   loadTasks(): void {
+    this.allTasksWanted = true;
     const orgId = this.organizationService.currentOrg()?.id;
     if (!orgId) {
       return; // Effect will handle loading when org is ready
@@ -197,11 +406,18 @@ export class TaskService {
     this._isLoading.set(true);
     this._error.set(null);
 
+    const params = { organizationId: orgId, limit: 100 };
     this.http
-      .get<ITask[]>(`${this.API_URL}`, {
-        params: { organizationId: orgId },
-      })
+      .get<ITaskPage>(this.API_URL, { params })
       .pipe(
+        expand((page) =>
+          page.nextCursor
+            ? this.http.get<ITaskPage>(this.API_URL, {
+                params: { ...params, cursor: page.nextCursor },
+              })
+            : EMPTY
+        ),
+        reduce((tasks, page) => [...tasks, ...page.data], [] as ITask[]),
         tap((tasks) => {
           this._tasks.set(tasks);
           this._isLoading.set(false);
@@ -216,11 +432,166 @@ export class TaskService {
   }
 
   /**
-   * Get a single task by ID
+   * Load the first page of each board column for the board's query,
+   * replacing what the board showed before
+   */
+  loadBoard(statusIds: string[], query: BoardQuery): void {
+    const orgId = this.organizationService.currentOrg()?.id;
+    if (!orgId) {
+      return;
+    }
+
+    const generation = ++this.boardGeneration;
+    this._error.set(null);
+    this._boardTaskIds.set(new Set());
+    this._columnPages.set(
+      Object.fromEntries(
+        statusIds.map((id) => [id, { total: 0, loaded: 0, nextCursor: null, isLoading: true }])
+      )
+    );
+
+    for (const statusId of statusIds) {
+      this.loadColumnPage(orgId, statusId, query, null, generation);
+    }
+    this.loadOverdueCount(orgId, query.projectId, generation);
+  }
+
+  /**
+   * Load the next page of a board column (infinite scroll)
+   */
+  loadMore(statusId: string): void {
+    const orgId = this.organizationService.currentOrg()?.id;
+    const page = this._columnPages()[statusId];
+    if (!orgId || !page?.nextCursor || page.isLoading) {
+      return;
+    }
+
+    this.patchColumnPage(statusId, { isLoading: true });
+    this.loadColumnPage(orgId, statusId, this.boardQuery(), page.nextCursor, this.boardGeneration);
+  }
+
+  private loadColumnPage(
+    orgId: string,
+    statusId: string,
+    query: BoardQuery,
+    cursor: string | null,
+    generation: number
+  ): void {
+    const params: Record<string, string | number> = {
+      organizationId: orgId,
+      statusIds: statusId,
+      sortBy: SORT_FIELDS[query.sortBy],
+      limit: BOARD_PAGE_SIZE,
+    };
+    if (query.search) params['search'] = query.search;
+    if (query.labelIds.length) params['labelIds'] = query.labelIds.join(',');
+    if (query.sprintId) params['sprintId'] = query.sprintId;
+    if (query.projectId) params['projectId'] = query.projectId;
+    if (cursor) params['cursor'] = cursor;
+
+    this.http
+      .get<ITaskPage>(this.API_URL, { params })
+      .pipe(
+        tap((page) => {
+          if (generation !== this.boardGeneration) return;
+          this.mergeTasks(page.data);
+          this._boardTaskIds.update(
+            (ids) => new Set([...ids, ...page.data.map((t) => t.id)])
+          );
+          this.patchColumnPage(statusId, {
+            total: page.total,
+            loaded: (this._columnPages()[statusId]?.loaded ?? 0) + page.data.length,
+            nextCursor: page.nextCursor,
+            isLoading: false,
+          });
+        }),
+        catchError((error) => {
+          if (generation === this.boardGeneration) {
+            this._error.set(error.error?.message || 'Failed to load tasks');
+            this.patchColumnPage(statusId, { isLoading: false });
+          }
+          return of(null);
+        })
+      )
+      .subscribe();
+  }
+
+  /**
+   * Count the overdue tasks of the organization (or of the project the
+   * board is scoped to); only the total of the page is used
+   */
+  private loadOverdueCount(orgId: string, projectId: string | null, generation: number): void {
+    const params: Record<string, string | number> = {
+      organizationId: orgId,
+      overdue: 'true',
+      limit: 1,
+    };
+    if (projectId) params['projectId'] = projectId;
+
+    this.http
+      .get<ITaskPage>(this.API_URL, { params })
+      .pipe(
+        tap((page) => {
+          if (generation === this.boardGeneration) {
+            this._overdueCount.set(page.total);
+          }
+        }),
+        catchError(() => of(null))
+      )
+      .subscribe();
+  }
+
+  private patchColumnPage(statusId: string, changes: Partial<ColumnPage>): void {
+    this._columnPages.update((pages) =>
+      pages[statusId] ? { ...pages, [statusId]: { ...pages[statusId], ...changes } } : pages
+    );
+  }
+
+  /**
+   * Add tasks to the known tasks, replacing older copies
+   */
+  private mergeTasks(incoming: ITask[]): void {
+    if (incoming.length === 0) return;
+    const byId = new Map(incoming.map((t) => [t.id, t]));
+    this._tasks.update((tasks) => {
+      const known = new Set(tasks.map((t) => t.id));
+      return [
+        ...tasks.map((t) => byId.get(t.id) ?? t),
+        ...incoming.filter((t) => !known.has(t.id)),
+      ];
+    });
+  }
+
+  /**
+   * Load the subtasks of a task, whichever columns they are in
+   */
+  loadSubtasks(parentId: string): void {
+    const orgId = this.organizationService.currentOrg()?.id;
+    if (!orgId) return;
+
+    this.http
+      .get<ITaskPage>(this.API_URL, {
+        params: { organizationId: orgId, parentId, limit: 100 },
+      })
+      .pipe(
+        tap((page) => this.mergeTasks(page.data)),
+        catchError((error) => {
+          this._error.set(error.error?.message || 'Failed to load subtasks');
+          return of(null);
+        })
+      )
+      .subscribe();
+  }
+
+  /**
+   * Get a single task by ID, e.g. one opened from search results
    */
   getTask(id: string): Observable<ITask> {
     return this.http.get<ITask>(`${this.API_URL}/${id}`).pipe(
-      tap((task) => this._selectedTask.set(task)),
+      tap((task) => {
+        this.mergeTasks([task]);
+        this._selectedTask.set(task);
+      }),
       catchError((error) => {
         this._error.set(error.error?.message || 'Failed to load task');
         throw error;
@@ -245,6 +616,7 @@ export class TaskService {
       .pipe(
         tap((newTask) => {
           this._tasks.update((tasks) => [...tasks, newTask]);
+          this._boardTaskIds.update((ids) => new Set([...ids, newTask.id]));
           this._isLoading.set(false);
         }),
         catchError((error) => {
@@ -264,8 +636,9 @@ export class TaskService {
 
     return this.http.put<ITask>(`${this.API_URL}/${id}`, dto).pipe(
       tap((updatedTask) => {
+        // Keep list-only fields (checklist, progress) the update response omits
         this._tasks.update((tasks) =>
-          tasks.map((t) => (t.id === id ? updatedTask : t))
+          tasks.map((t) => (t.id === id ? { ...t, ...updatedTask } : t))
         );
         if (this._selectedTask()?.id === id) {
           this._selectedTask.set(updatedTask);
@@ -280,6 +653,22 @@ export class TaskService {
     );
   }
 
+  /**
+   * Move a task next to another task or to the top of a column; the
+   * board keeps this order when sorted manually
+   */
+  moveTask(id: string, dto: MoveTaskDto): Observable<ITask> {
+    this._error.set(null);
+
+    return this.http.patch<ITask>(`${this.API_URL}/${id}/move`, dto).pipe(
+      tap((task) => this.mergeTasks([task])),
+      catchError((error) => {
+        this._error.set(error.error?.message || 'Failed to move task');
+        throw error;
+      })
+    );
+  }
+
   /**
    * Delete a task (soft delete)
    */
@@ -289,7 +678,11 @@ export class TaskService {
 
     return this.http.delete<void>(`${this.API_URL}/${id}`).pipe(
       tap(() => {
-        this._tasks.update((tasks) => tasks.filter((t) => t.id !== id));
+        // Subtasks are deleted together with their parent on the server
+        const removedIds = this.collectSubtreeIds(id);
+        this._tasks.update((tasks) =>
+          tasks.filter((t) => !removedIds.has(t.id))
+        );
         if (this._selectedTask()?.id === id) {
           this._selectedTask.set(null);
         }
@@ -303,6 +696,322 @@ export class TaskService {
     );
   }
 
+  /**
+   * Update or delete many tasks at once. Tasks the server could not
+   * change are reported through error() and left as they were.
+   */
+  bulkUpdate(dto: BulkTaskDto): Observable<IBulkTaskResult[]> {
+    const orgId = this.organizationService.currentOrg()?.id;
+    if (!orgId) {
+      throw new Error('No organization selected');
+    }
+
+    this._isLoading.set(true);
+    this._error.set(null);
+
+    return this.http
+      .post<IBulkTaskResult[]>(`${this.API_URL}/bulk`, { ...dto, organizationId: orgId })
+      .pipe(
+        tap((results) => {
+          const succeeded = results.filter((result) => result.success);
+          if (dto.action === BulkTaskAction.DELETE) {
+            const removedIds = new Set(
+              succeeded.flatMap((result) => [...this.collectSubtreeIds(result.taskId)])
+            );
+            this._tasks.update((tasks) => tasks.filter((t) => !removedIds.has(t.id)));
+          } else {
+            const updated = new Map(
+              succeeded
+                .filter((result) => result.task)
+                .map((result) => [result.taskId, result.task as ITask])
+            );
+            this._tasks.update((tasks) =>
+              tasks.map((t) => (updated.has(t.id) ? { ...t, ...updated.get(t.id) } : t))
+            );
+          }
+
+          const failed = results.filter((result) => !result.success);
+          if (failed.length > 0) {
+            this._error.set(
+              `${failed.length} of ${results.length} tasks were not changed: ${failed[0].error}`
+            );
+          }
+          this._isLoading.set(false);
+        }),
+        catchError((error) => {
+          this._error.set(error.error?.message || 'Failed to update tasks');
+          this._isLoading.set(false);
+          throw error;
+        })
+      );
+  }
+
+  /**
+   * Direct subtasks of a task
+   */
+  getSubtasks(parentId: string): ITask[] {
+    return this._tasks().filter((t) => t.parentId === parentId);
+  }
+
+  /**
+   * Add an item to the end of a task's checklist
+   */
+  addChecklistItem(taskId: string, title: string): Observable<ITaskChecklistItem> {
+    return this.http
+      .post<ITaskChecklistItem>(`${this.API_URL}/${taskId}/checklist`, { title })
+      .pipe(
+        tap((item) => this.updateChecklist(taskId, (items) => [...items, item])),
+        catchError((error) => {
+          this._error.set(error.error?.message || 'Failed to add checklist item');
+          throw error;
+        })
+      );
+  }
+
+  /**
+   * Update a checklist item (title, done state or position)
+   */
+  updateChecklistItem(
+    taskId: string,
+    itemId: string,
+    dto: UpdateChecklistItemDto
+  ): Observable<ITaskChecklistItem> {
+    return this.http
+      .put<ITaskChecklistItem>(`${this.API_URL}/${taskId}/checklist/${itemId}`, dto)
+      .pipe(
+        tap((updated) =>
+          this.updateChecklist(taskId, (items) =>
+            items.map((i) => (i.id === itemId ? updated : i))
+          )
+        ),
+        catchError((error) => {
+          this._error.set(error.error?.message || 'Failed to update checklist item');
+          throw error;
+        })
+      );
+  }
+
+  /**
+   * Remove an item from a task's checklist
+   */
+  deleteChecklistItem(taskId: string, itemId: string): Observable<void> {
+    return this.http
+      .delete<void>(`${this.API_URL}/${taskId}/checklist/${itemId}`)
+      .pipe(
+        tap(() =>
+          this.updateChecklist(taskId, (items) =>
+            items.filter((i) => i.id !== itemId)
+          )
+        ),
+        catchError((error) => {
+          this._error.set(error.error?.message || 'Failed to delete checklist item');
+          throw error;
+        })
+      );
+  }
+
+  /**
+   * Apply a change to a task's checklist and recompute its progress
+   */
+  private updateChecklist(
+    taskId: string,
+    change: (items: ITaskChecklistItem[]) => ITaskChecklistItem[]
+  ): void {
+    this._tasks.update((tasks) =>
+      tasks.map((t) => {
+        if (t.id !== taskId) return t;
+        const checklistItems = change(t.checklistItems ?? []);
+        return {
+          ...t,
+          checklistItems,
+          checklistProgress: {
+            done: checklistItems.filter((i) => i.isDone).length,
+            total: checklistItems.length,
+          },
+        };
+      })
+    );
+  }
+
+  /**
+   * Track a blocker being linked to or unlinked from a task
+   */
+  adjustOpenBlockerCount(taskId: string, change: number): void {
+    this._tasks.update((tasks) =>
+      tasks.map((t) =>
+        t.id === taskId
+          ? { ...t, openBlockerCount: Math.max(0, (t.openBlockerCount ?? 0) + change) }
+          : t
+      )
+    );
+  }
+
+  /**
+   * Add logged seconds to a task's total on the board
+   */
+  adjustTimeSpent(taskId: string, seconds: number): void {
+    this._tasks.update((tasks) =>
+      tasks.map((t) =>
+        t.id === taskId
+          ? { ...t, timeSpentSeconds: Math.max(0, (t.timeSpentSeconds ?? 0) + seconds) }
+          : t
+      )
+    );
+  }
+
+  /**
+   * Plan tasks into a sprint, or back into the backlog with null
+   */
+  setSprintId(taskIds: string[], sprintId: string | null): void {
+    this._tasks.update((tasks) =>
+      tasks.map((t) => (taskIds.includes(t.id) ? { ...t, sprintId } : t))
+    );
+  }
+
+  /**
+   * Move the tasks of a sprint to another sprint or the backlog,
+   * optionally only those not done yet (as closing a sprint does)
+   */
+  moveSprintTasks(fromSprintId: string, toSprintId: string | null, unfinishedOnly = false): void {
+    this._tasks.update((tasks) =>
+      tasks.map((t) =>
+        t.sprintId === fromSprintId && (!unfinishedOnly || t.status !== TaskStatus.DONE)
+          ? { ...t, sprintId: toSprintId }
+          : t
+      )
+    );
+  }
+
+  /**
+   * Mark a task as part of a recurring series
+   */
+  setRecurrenceId(taskId: string, recurrenceId: string): void {
+    this._tasks.update((tasks) =>
+      tasks.map((t) => (t.id === taskId ? { ...t, recurrenceId } : t))
+    );
+  }
+
+  /**
+   * Detach the tasks of a stopped series
+   */
+  clearRecurrenceId(recurrenceId: string): void {
+    this._tasks.update((tasks) =>
+      tasks.map((t) =>
+        t.recurrenceId === recurrenceId ? { ...t, recurrenceId: null } : t
+      )
+    );
+  }
+
+  /**
+   * Show a renamed or recoloured label on the tasks that carry it
+   */
+  replaceLabel(label: ILabel): void {
+    this._tasks.update((tasks) =>
+      tasks.map((t) =>
+        t.labels?.some((l) => l.id === label.id)
+          ? { ...t, labels: t.labels.map((l) => (l.id === label.id ? label : l)) }
+          : t
+      )
+    );
+  }
+
+  /**
+   * Re-categorize the tasks of a workflow status whose category changed
+   */
+  applyStatusCategory(status: IWorkflowStatus): void {
+    this._tasks.update((tasks) =>
+      tasks.map((t) =>
+        t.statusId === status.id ? { ...t, status: status.category } : t
+      )
+    );
+  }
+
+  /**
+   * Drop a deleted label from tasks and from the label filter
+   */
+  removeLabel(labelId: string): void {
+    this._tasks.update((tasks) =>
+      tasks.map((t) =>
+        t.labels?.some((l) => l.id === labelId)
+          ? { ...t, labels: t.labels.filter((l) => l.id !== labelId) }
+          : t
+      )
+    );
+    this._selectedLabelIds.update((ids) => ids.filter((id) => id !== labelId));
+  }
+
+  /**
+   * Drop a member who left the organization from the tasks they were
+   * assigned to
+   */
+  removeAssignee(userId: string): void {
+    this._tasks.update((tasks) =>
+      tasks.map((t) =>
+        t.assignees?.some((u) => u.id === userId)
+          ? { ...t, assignees: t.assignees.filter((u) => u.id !== userId) }
+          : t
+      )
+    );
+  }
+
+  /**
+   * Drop a deleted custom field's values from tasks
+   */
+  removeCustomField(fieldId: string): void {
+    this._tasks.update((tasks) =>
+      tasks.map((t) => {
+        if (!t.customFieldValues || !(fieldId in t.customFieldValues)) return t;
+        const values = { ...t.customFieldValues };
+        delete values[fieldId];
+        return { ...t, customFieldValues: values };
+      })
+    );
+  }
+
+  /**
+   * Drop options no longer offered by a select field, as the server does
+   */
+  pruneCustomFieldOptions(field: ICustomField): void {
+    const options = field.options ?? [];
+    this._tasks.update((tasks) =>
+      tasks.map((t) => {
+        const value = t.customFieldValues?.[field.id];
+        if (value === undefined) return t;
+
+        const values = { ...t.customFieldValues };
+        if (Array.isArray(value)) {
+          const kept = value.filter((option) => options.includes(option));
+          if (kept.length === value.length) return t;
+          if (kept.length) values[field.id] = kept;
+          else delete values[field.id];
+        } else if (typeof value === 'string' && !options.includes(value)) {
+          delete values[field.id];
+        } else {
+          return t;
+        }
+        return { ...t, customFieldValues: values };
+      })
+    );
+  }
+
+  /**
+   * IDs of a task and all of its (nested) subtasks
+   */
+  private collectSubtreeIds(rootId: string): Set<string> {
+    const ids = new Set([rootId]);
+    let added = true;
+    while (added) {
+      added = false;
+      for (const t of this._tasks()) {
+        if (t.parentId && ids.has(t.parentId) && !ids.has(t.id)) {
+          ids.add(t.id);
+          added = true;
+        }
+      }
+    }
+    return ids;
+  }
+
   /**
    * Select a task for viewing/editing
    */
@@ -323,13 +1032,21 @@ export class TaskService {
   clearTasks(): void {
     this._tasks.set([]);
     this._selectedTask.set(null);
+    this.clearBoard();
+  }
+
+  private clearBoard(): void {
+    this.boardGeneration++;
+    this._boardTaskIds.set(new Set());
+    this._columnPages.set({});
+    this._overdueCount.set(0);
   }
 
   /**
    * Optimistically update task status (for drag-and-drop)
    * Returns the previous task state for rollback on API failure
    */
-  optimisticUpdateStatus(taskId: string, newStatus: TaskStatus): ITask | null {
+  optimisticUpdateStatus(taskId: string, newStatus: IWorkflowStatus): ITask | null {
     const currentTasks = this._tasks();
     const taskIndex = currentTasks.findIndex((t) => t.id === taskId);
     
@@ -339,12 +1056,50 @@ export class TaskService {
     
     // Optimistically update the local state
     this._tasks.update((tasks) =>
-      tasks.map((t) => (t.id === taskId ? { ...t, status: newStatus } : t))
+      tasks.map((t) =>
+        t.id === taskId
+          ? { ...t, statusId: newStatus.id, status: newStatus.category }
+          : t
+      )
     );
     
     return previousTask;
   }
 
+  /**
+   * Optimistically place a task right before or after another task, or
+   * at the top of a column (null neighbour), for drag-and-drop under
+   * manual sort. The task borrows its neighbour's rank and sits next to it
+   * in the task list, so the stable sort keeps it on the right side until
+   * the server sends its new rank.
+   * Returns the previous task state for rollback on API failure
+   */
+  optimisticMove(
+    taskId: string,
+    newStatus: IWorkflowStatus,
+    neighbour: ITask | null,
+    side: 'before' | 'after'
+  ): ITask | null {
+    const previousTask = this._tasks().find((t) => t.id === taskId);
+    if (!previousTask) return null;
+
+    const moved: ITask = {
+      ...previousTask,
+      statusId: newStatus.id,
+      status: newStatus.category,
+      rank: neighbour?.rank ?? '',
+    };
+
+    this._tasks.update((tasks) => {
+      const others = tasks.filter((t) => t.id !== taskId);
+      const at = neighbour ? others.findIndex((t) => t.id === neighbour.id) : -1;
+      const index = at === -1 ? 0 : side === 'after' ? at + 1 : at;
+      return [...others.slice(0, index), moved, ...others.slice(index)];
+    });
+
+    return { ...previousTask };
+  }
+
   /**
    * Rollback a task to its previous state (on API failure)
    */
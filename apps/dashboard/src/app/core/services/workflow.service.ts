@@ -0,0 +1,246 @@
+import { Injectable, signal, computed, inject, effect } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable, tap, catchError, of } from 'rxjs';
+import {
+  ITask,
+  IWorkflowStatus,
+  TaskStatus,
+} from '@task-manager/data/frontend';
+import { OrganizationService } from './organization.service';
+import { TaskService } from './task.service';
+
+export interface CreateWorkflowStatusDto {
+  name: string;
+  category: TaskStatus;
+  color: string;
+  allowedTransitions?: string[] | null;
+}
+
+export interface UpdateWorkflowStatusDto {
+  name?: string;
+  category?: TaskStatus;
+  color?: string;
+  allowedTransitions?: string[] | null;
+}
+
+export interface BoardColumn {
+  status: IWorkflowStatus;
+  /** The loaded tasks; more are fetched as the column is scrolled */
+  tasks: ITask[];
+  /** Tasks of the column matching the board's query, loaded or not */
+  total: number;
+  hasMore: boolean;
+  isLoading: boolean;
+}
+
+@Injectable({
+  providedIn: 'root',
+})
+export class WorkflowService {
+  private readonly API_URL = '/api/v1/organizations';
+  private readonly http = inject(HttpClient);
+  private readonly organizationService = inject(OrganizationService);
+  private readonly taskService = inject(TaskService);
+
+  // Track loaded organization to prevent duplicate loads
+  private loadedOrgId: string | null = null;
+
+  private readonly _statuses = signal<IWorkflowStatus[]>([]);
+  private readonly _isLoading = signal<boolean>(false);
+  private readonly _error = signal<string | null>(null);
+
+  // Public readonly signals
+  readonly statuses = this._statuses.asReadonly();
+  readonly isLoading = this._isLoading.asReadonly();
+  readonly error = this._error.asReadonly();
+
+  /**
+   * Kanban columns in workflow order, each with its filtered tasks
+   */
+  readonly columns = computed<BoardColumn[]>(() => {
+    const statuses = this._statuses();
+    const pages = this.taskService.columnPages();
+    const groups = new Map<string, ITask[]>(statuses.map((s) => [s.id, []]));
+
+    for (const task of this.taskService.filteredTasks()) {
+      const status = this.statusFor(task);
+      if (status) groups.get(status.id)?.push(task);
+    }
+
+    return statuses.map((status) => {
+      const tasks = groups.get(status.id) ?? [];
+      const page = pages[status.id];
+      return {
+        status,
+        tasks,
+        // Tasks moved in or out since loading count where they are now
+        total: tasks.length + (page ? Math.max(0, page.total - page.loaded) : 0),
+        hasMore: !!page?.nextCursor,
+        isLoading: !!page?.isLoading,
+      };
+    });
+  });
+
+  constructor() {
+    // Statuses belong to the current organization
+    effect(() => {
+      const org = this.organizationService.currentOrg();
+      if (org && org.id !== this.loadedOrgId) {
+        this.loadedOrgId = org.id;
+        this.loadStatuses(org.id);
+      } else if (!org) {
+        this.loadedOrgId = null;
+        this._statuses.set([]);
+      }
+    });
+  }
+
+  private loadStatuses(orgId: string): void {
+    this._isLoading.set(true);
+    this._error.set(null);
+
+    this.http
+      .get<IWorkflowStatus[]>(`${this.API_URL}/${orgId}/statuses`)
+      .pipe(
+        tap((statuses) => {
+          this._statuses.set(statuses);
+          this._isLoading.set(false);
+        }),
+        catchError((error) => {
+          this._error.set(error.error?.message || 'Failed to load statuses');
+          this._isLoading.set(false);
+          return of([]);
+        })
+      )
+      .subscribe();
+  }
+
+  /**
+   * The workflow status a task is shown in. Tasks without one (e.g. whose
+   * status was removed) fall back to the first status of their category.
+   */
+  statusFor(task: ITask): IWorkflowStatus | undefined {
+    const statuses = this._statuses();
+    return (
+      statuses.find((s) => s.id === task.statusId) ??
+      statuses.find((s) => s.category === task.status)
+    );
+  }
+
+  /**
+   * Whether the workflow lets a task move between two statuses
+   */
+  canTransition(from: IWorkflowStatus | undefined, to: IWorkflowStatus): boolean {
+    return (
+      !from ||
+      from.id === to.id ||
+      !from.allowedTransitions ||
+      from.allowedTransitions.includes(to.id)
+    );
+  }
+
+  /**
+   * Add a status as the last column of the current organization's board
+   */
+  createStatus(dto: CreateWorkflowStatusDto): Observable<IWorkflowStatus> {
+    const orgId = this.organizationService.currentOrg()?.id;
+    if (!orgId) {
+      throw new Error('No organization selected');
+    }
+
+    this._error.set(null);
+
+    return this.http
+      .post<IWorkflowStatus>(`${this.API_URL}/${orgId}/statuses`, dto)
+      .pipe(
+        tap((status) => this._statuses.update((statuses) => [...statuses, status])),
+        catchError((error) => {
+          this._error.set(error.error?.message || 'Failed to create status');
+          throw error;
+        })
+      );
+  }
+
+  /**
+   * Update a status; tasks in it follow a category change
+   */
+  updateStatus(id: string, dto: UpdateWorkflowStatusDto): Observable<IWorkflowStatus> {
+    const orgId = this.organizationService.currentOrg()?.id;
+    if (!orgId) {
+      throw new Error('No organization selected');
+    }
+
+    this._error.set(null);
+
+    return this.http
+      .patch<IWorkflowStatus>(`${this.API_URL}/${orgId}/statuses/${id}`, dto)
+      .pipe(
+        tap((updated) => {
+          this._statuses.update((statuses) =>
+            statuses.map((s) => (s.id === id ? updated : s))
+          );
+          this.taskService.applyStatusCategory(updated);
+        }),
+        catchError((error) => {
+          this._error.set(error.error?.message || 'Failed to update status');
+          throw error;
+        })
+      );
+  }
+
+  /**
+   * Save a new column order, given every status ID in board order
+   */
+  reorderStatuses(statusIds: string[]): Observable<IWorkflowStatus[]> {
+    const orgId = this.organizationService.currentOrg()?.id;
+    if (!orgId) {
+      throw new Error('No organization selected');
+    }
+
+    this._error.set(null);
+
+    return this.http
+      .put<IWorkflowStatus[]>(`${this.API_URL}/${orgId}/statuses/order`, {
+        statusIds,
+      })
+      .pipe(
+        tap((statuses) => this._statuses.set(statuses)),
+        catchError((error) => {
+          this._error.set(error.error?.message || 'Failed to reorder statuses');
+          throw error;
+        })
+      );
+  }
+
+  /**
+   * Delete a status; the server refuses while tasks are still in it
+   */
+  deleteStatus(id: string): Observable<void> {
+    const orgId = this.organizationService.currentOrg()?.id;
+    if (!orgId) {
+      throw new Error('No organization selected');
+    }
+
+    this._error.set(null);
+
+    return this.http
+      .delete<void>(`${this.API_URL}/${orgId}/statuses/${id}`)
+      .pipe(
+        tap(() =>
+          this._statuses.update((statuses) =>
+            statuses
+              .filter((s) => s.id !== id)
+              .map((s) =>
+                s.allowedTransitions?.includes(id)
+                  ? { ...s, allowedTransitions: s.allowedTransitions.filter((t) => t !== id) }
+                  : s
+              )
+          )
+        ),
+        catchError((error) => {
+          this._error.set(error.error?.message || 'Failed to delete status');
+          throw error;
+        })
+      );
+  }
+}
@@ -0,0 +1,313 @@
+import { Injectable, signal, inject } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable, tap, catchError, of } from 'rxjs';
+import { IWorklog, ITimesheet } from '@task-manager/data/frontend';
+import { TaskService } from './task.service';
+
+export interface CreateWorklogDto {
+  startedAt: string;
+  endedAt?: string;
+  durationMinutes?: number;
+  note?: string;
+}
+
+export interface TimesheetQuery {
+  organizationId: string;
+  /** Start of the week; the timesheet covers seven days from here */
+  from: Date;
+  /** Defaults to the current user */
+  userId?: string;
+}
+
+/**
+ * Format seconds as e.g. "2h 05m" or "45m"
+ */
+export function formatDuration(seconds: number): string {
+  const minutes = Math.round(seconds / 60);
+  const hours = Math.floor(minutes / 60);
+  if (hours === 0) {
+    return `${minutes}m`;
+  }
+  return `${hours}h ${String(minutes % 60).padStart(2, '0')}m`;
+}
+
+@Injectable({
+  providedIn: 'root',
+})
+export class WorklogService {
+  private readonly TASKS_URL = '/api/v1/tasks';
+  private readonly API_URL = '/api/v1/worklogs';
+  private readonly http = inject(HttpClient);
+  private readonly taskService = inject(TaskService);
+
+  // Worklogs of the task currently open in the task modal
+  private readonly _taskId = signal<string | null>(null);
+  private readonly _worklogs = signal<IWorklog[]>([]);
+  private readonly _runningTimer = signal<IWorklog | null>(null);
+  private readonly _timesheet = signal<ITimesheet | null>(null);
+  private readonly _isLoading = signal<boolean>(false);
+  private readonly _error = signal<string | null>(null);
+
+  // Public readonly signals
+  readonly taskId = this._taskId.asReadonly();
+  readonly worklogs = this._worklogs.asReadonly();
+  readonly runningTimer = this._runningTimer.asReadonly();
+  readonly timesheet = this._timesheet.asReadonly();
+  readonly isLoading = this._isLoading.asReadonly();
+  readonly error = this._error.asReadonly();
+
+  /**
+   * Load the time logged on a task
+   */
+  loadWorklogs(taskId: string): void {
+    this._taskId.set(taskId);
+    this._worklogs.set([]);
+    this._isLoading.set(true);
+    this._error.set(null);
+
+    this.http
+      .get<IWorklog[]>(`${this.TASKS_URL}/${taskId}/worklogs`)
+      .pipe(
+        tap((worklogs) => {
+          // Ignore responses for a task that is no longer open
+          if (this._taskId() === taskId) {
+            this._worklogs.set(worklogs);
+          }
+          this._isLoading.set(false);
+        }),
+        catchError((error) => {
+          this._error.set(error.error?.message || 'Failed to load worklogs');
+          this._isLoading.set(false);
+          return of([]);
+        })
+      )
+      .subscribe();
+  }
+
+  /**
+   * Log time on a task after the fact
+   */
+  logTime(taskId: string, dto: CreateWorklogDto): Observable<IWorklog> {
+    this._error.set(null);
+
+    return this.http
+      .post<IWorklog>(`${this.TASKS_URL}/${taskId}/worklogs`, dto)
+      .pipe(
+        tap((worklog) => {
+          this.addToList(worklog);
+          this.taskService.adjustTimeSpent(taskId, worklog.durationSeconds ?? 0);
+        }),
+        catchError((error) => {
+          this._error.set(error.error?.message || 'Failed to log time');
+          throw error;
+        })
+      );
+  }
+
+  /**
+   * Delete a worklog
+   */
+  deleteWorklog(worklog: IWorklog): Observable<void> {
+    this._error.set(null);
+
+    return this.http
+      .delete<void>(`${this.TASKS_URL}/${worklog.taskId}/worklogs/${worklog.id}`)
+      .pipe(
+        tap(() => {
+          this._worklogs.update((worklogs) =>
+            worklogs.filter((w) => w.id !== worklog.id)
+          );
+          this.taskService.adjustTimeSpent(
+            worklog.taskId,
+            -(worklog.durationSeconds ?? 0)
+          );
+          if (this._runningTimer()?.id === worklog.id) {
+            this._runningTimer.set(null);
+          }
+        }),
+        catchError((error) => {
+          this._error.set(error.error?.message || 'Failed to delete worklog');
+          throw error;
+        })
+      );
+  }
+
+  /**
+   * Load the current user's running timer, if any
+   */
+  loadRunningTimer(): void {
+    this.http
+      .get<IWorklog | null>(`${this.API_URL}/timer`)
+      .pipe(
+        tap((timer) => this._runningTimer.set(timer)),
+        catchError(() => of(null))
+      )
+      .subscribe();
+  }
+
+  /**
+   * Start a timer on a task. The server stops any timer already running.
+   */
+  startTimer(taskId: string): Observable<IWorklog> {
+    this._error.set(null);
+    const previous = this._runningTimer();
+
+    return this.http
+      .post<IWorklog>(`${this.TASKS_URL}/${taskId}/worklogs/timer`, {})
+      .pipe(
+        tap((timer) => {
+          if (previous) {
+            // The server stopped it just before starting this one
+            const endedAt = new Date(timer.startedAt);
+            this.finish({
+              ...previous,
+              endedAt,
+              durationSeconds: Math.round(
+                (endedAt.getTime() - new Date(previous.startedAt).getTime()) / 1000
+              ),
+            });
+          }
+          this._runningTimer.set(timer);
+          this.addToList(timer);
+        }),
+        catchError((error) => {
+          this._error.set(error.error?.message || 'Failed to start timer');
+          throw error;
+        })
+      );
+  }
+
+  /**
+   * Stop the running timer
+   */
+  stopTimer(): Observable<IWorklog> {
+    this._error.set(null);
+
+    return this.http.post<IWorklog>(`${this.API_URL}/timer/stop`, {}).pipe(
+      tap((worklog) => {
+        this._runningTimer.set(null);
+        this.finish(worklog);
+      }),
+      catchError((error) => {
+        // The timer may have been stopped in another tab
+        if (error.status === 404) {
+          this._runningTimer.set(null);
+        }
+        this._error.set(error.error?.message || 'Failed to stop timer');
+        throw error;
+      })
+    );
+  }
+
+  /**
+   * Load a weekly timesheet
+   */
+  loadTimesheet(query: TimesheetQuery): void {
+    this._isLoading.set(true);
+    this._error.set(null);
+
+    this.http
+      .get<ITimesheet>(`${this.API_URL}/timesheet`, {
+        params: this.timesheetParams(query),
+      })
+      .pipe(
+        tap((timesheet) => {
+          this._timesheet.set(timesheet);
+          this._isLoading.set(false);
+        }),
+        catchError((error) => {
+          this._error.set(error.error?.message || 'Failed to load timesheet');
+          this._timesheet.set(null);
+          this._isLoading.set(false);
+          return of(null);
+        })
+      )
+      .subscribe();
+  }
+
+  /**
+   * Download a weekly timesheet as CSV
+   */
+  exportTimesheet(query: TimesheetQuery): void {
+    this._error.set(null);
+
+    this.http
+      .get(`${this.API_URL}/timesheet/export`, {
+        params: {
+          ...this.timesheetParams(query),
+          timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        },
+        responseType: 'blob',
+      })
+      .pipe(
+        tap((blob) => {
+          const url = URL.createObjectURL(blob);
+          const link = document.createElement('a');
+          link.href = url;
+          link.download = `timesheet-${this.toDateString(query.from)}.csv`;
+          link.click();
+          URL.revokeObjectURL(url);
+        }),
+        catchError(() => {
+          this._error.set('Failed to export timesheet');
+          return of(null);
+        })
+      )
+      .subscribe();
+  }
+
+  /**
+   * Clear the list when the task modal closes
+   */
+  clear(): void {
+    this._taskId.set(null);
+    this._worklogs.set([]);
+    this._error.set(null);
+  }
+
+  /**
+   * Clear the running timer on logout
+   */
+  clearTimer(): void {
+    this._runningTimer.set(null);
+  }
+
+  /**
+   * Record a stopped timer in the open task's list and the board totals
+   */
+  private finish(worklog: IWorklog): void {
+    this._worklogs.update((worklogs) =>
+      worklogs.map((w) => (w.id === worklog.id ? { ...w, ...worklog } : w))
+    );
+    if (worklog.durationSeconds) {
+      this.taskService.adjustTimeSpent(worklog.taskId, worklog.durationSeconds);
+    }
+  }
+
+  private addToList(worklog: IWorklog): void {
+    if (this._taskId() === worklog.taskId) {
+      this._worklogs.update((worklogs) =>
+        [worklog, ...worklogs].sort(
+          (a, b) => new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime()
+        )
+      );
+    }
+  }
+
+  private timesheetParams(query: TimesheetQuery): Record<string, string> {
+    const params: Record<string, string> = {
+      organizationId: query.organizationId,
+      from: query.from.toISOString(),
+    };
+    if (query.userId) {
+      params['userId'] = query.userId;
+    }
+    return params;
+  }
+
+  private toDateString(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+  }
+}
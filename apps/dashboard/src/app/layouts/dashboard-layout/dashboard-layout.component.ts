@@ -1,14 +1,16 @@
 import { Component, inject, signal, OnInit, OnDestroy } from '@angular/core';
 import { CommonModule } from '@angular/common';
-import { RouterLink, RouterLinkActive, RouterOutlet } from '@angular/router';
+import { IsActiveMatchOptions, Router, RouterLink, RouterLinkActive, RouterOutlet } from '@angular/router';
 import { Subject, takeUntil } from 'rxjs';
-import { AuthService, OrganizationService, ThemeService, ShortcutService } from '../../core/services';
+import { AuthService, OrganizationService, ThemeService, ShortcutService, WorklogService, ProjectService } from '../../core/services';
+import { RunningTimerComponent } from './running-timer.component';
+import { SearchPanelComponent } from './search-panel.component';
 import { OrganizationRole } from '@task-manager/data/frontend';
 
 @Component({
   selector: 'app-dashboard-layout',
   standalone: true,
-  imports: [CommonModule, RouterLink, RouterLinkActive, RouterOutlet],
+  imports: [CommonModule, RouterLink, RouterLinkActive, RouterOutlet, RunningTimerComponent, SearchPanelComponent],
   templateUrl: './dashboard-layout.component.html',
   styleUrls: ['./dashboard-layout.component.scss'],
 })
@@ -17,6 +19,9 @@ export class DashboardLayoutComponent implements OnInit, OnDestroy {
   readonly organizationService = inject(OrganizationService);
   readonly themeService = inject(ThemeService);
   readonly shortcutService = inject(ShortcutService);
+  readonly worklogService = inject(WorklogService);
+  readonly projectService = inject(ProjectService);
+  private readonly router = inject(Router);
   
   private readonly destroy$ = new Subject<void>();
 
@@ -24,10 +29,20 @@ export class DashboardLayoutComponent implements OnInit, OnDestroy {
   readonly navItems = [
     { path: '/dashboard', label: 'Dashboard', icon: 'home' },
     { path: '/tasks', label: 'Tasks', icon: 'tasks' },
+    { path: '/planning', label: 'Planning', icon: 'flag' },
+    { path: '/timesheet', label: 'Timesheet', icon: 'clock' },
     { path: '/organizations', label: 'Organizations', icon: 'building' },
     { path: '/audit-log', label: 'Audit Log', icon: 'history' },
   ];
 
+  // A project link is only active on its own board, not on other projects
+  readonly projectLinkActiveOptions: IsActiveMatchOptions = {
+    paths: 'exact',
+    queryParams: 'exact',
+    matrixParams: 'ignored',
+    fragment: 'ignored',
+  };
+
   // Mobile sidebar state
   sidebarOpen = false;
   
@@ -70,6 +85,7 @@ export class DashboardLayoutComponent implements OnInit, OnDestroy {
   }
 
   logout(): void {
+    this.worklogService.clearTimer();
     this.authService.logout();
   }
 
@@ -77,6 +93,10 @@ export class DashboardLayoutComponent implements OnInit, OnDestroy {
     this.organizationService.getOrganization(org.organizationId).subscribe({
       next: (fullOrg) => {
         this.organizationService.switchOrganization(fullOrg);
+        // Projects belong to the previous organization
+        if (this.router.url.startsWith('/tasks?')) {
+          this.router.navigate(['/tasks']);
+        }
       },
     });
   }
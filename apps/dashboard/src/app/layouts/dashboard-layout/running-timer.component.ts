@@ -0,0 +1,67 @@
+import { Component, OnInit, OnDestroy, computed, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { WorklogService } from '../../core/services';
+
+/**
+ * Running timer shown in the layout header: elapsed time, task and a
+ * stop button.
+ */
+@Component({
+  selector: 'app-running-timer',
+  standalone: true,
+  imports: [CommonModule],
+  template: `
+    @if (worklogService.runningTimer(); as timer) {
+      <div class="flex items-center gap-2 min-w-0 px-3 py-1 rounded-full bg-indigo-50 dark:bg-gray-700 text-sm">
+        <span class="w-2 h-2 rounded-full bg-red-500 animate-pulse flex-shrink-0"></span>
+        <span class="font-mono font-medium text-indigo-700 dark:text-indigo-300">{{ elapsed() }}</span>
+        <span class="truncate text-gray-700 dark:text-gray-300" [title]="timer.task?.title ?? ''">
+          {{ timer.task?.title }}
+        </span>
+        <button
+          type="button"
+          (click)="stop()"
+          class="ml-1 px-2 py-0.5 rounded text-xs font-medium text-white bg-red-600 hover:bg-red-700 flex-shrink-0"
+          title="Stop timer"
+        >
+          Stop
+        </button>
+      </div>
+    }
+  `,
+})
+export class RunningTimerComponent implements OnInit, OnDestroy {
+  readonly worklogService = inject(WorklogService);
+
+  private readonly now = signal(Date.now());
+  private intervalId: ReturnType<typeof setInterval> | null = null;
+
+  readonly elapsed = computed(() => {
+    const timer = this.worklogService.runningTimer();
+    if (!timer) return '';
+
+    const seconds = Math.max(
+      0,
+      Math.floor((this.now() - new Date(timer.startedAt).getTime()) / 1000)
+    );
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${pad(Math.floor(seconds / 3600))}:${pad(Math.floor((seconds % 3600) / 60))}:${pad(seconds % 60)}`;
+  });
+
+  ngOnInit(): void {
+    this.worklogService.loadRunningTimer();
+    this.intervalId = setInterval(() => this.now.set(Date.now()), 1000);
+  }
+
+  ngOnDestroy(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+    }
+  }
+
+  stop(): void {
+    this.worklogService.stopTimer().subscribe({
+      error: () => undefined, // Surfaced through worklogService.error()
+    });
+  }
+}
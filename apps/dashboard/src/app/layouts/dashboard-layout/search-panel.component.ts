@@ -0,0 +1,232 @@
+import {
+  Component,
+  OnInit,
+  OnDestroy,
+  ElementRef,
+  computed,
+  inject,
+  signal,
+  viewChild,
+  afterNextRender,
+  Injector,
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Router } from '@angular/router';
+import { Subject, takeUntil } from 'rxjs';
+import { ISearchHit } from '@task-manager/data/frontend';
+import {
+  AuthService,
+  OrganizationService,
+  SearchService,
+  ShortcutService,
+} from '../../core/services';
+
+/**
+ * Global search opened with Ctrl/Cmd + K. Searches every organization of
+ * the user; picking a result switches to its organization if needed and
+ * opens the task on the board.
+ */
+@Component({
+  selector: 'app-search-panel',
+  standalone: true,
+  imports: [CommonModule],
+  template: `
+    @if (isOpen()) {
+      <div class="fixed inset-0 z-[100] flex items-start justify-center bg-black/50 pt-[10vh]" (click)="close()">
+        <div
+          class="bg-white dark:bg-gray-800 rounded-xl shadow-2xl m-4 max-w-2xl w-full overflow-hidden"
+          (click)="$event.stopPropagation()"
+        >
+          <div class="flex items-center gap-3 px-4 border-b border-gray-200 dark:border-gray-700">
+            <svg class="w-5 h-5 text-gray-400 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+            </svg>
+            <input
+              #searchInput
+              type="text"
+              [value]="searchService.query()"
+              (input)="onInput($event)"
+              (keydown)="onKeydown($event)"
+              placeholder="Search tasks and comments..."
+              class="w-full py-4 bg-transparent text-gray-900 dark:text-white placeholder-gray-400 focus:outline-none"
+            />
+            <kbd class="px-2 py-1 text-xs font-mono bg-gray-100 dark:bg-gray-700 text-gray-500 dark:text-gray-400 rounded border border-gray-200 dark:border-gray-600">
+              Esc
+            </kbd>
+          </div>
+
+          <div class="max-h-[60vh] overflow-y-auto">
+            @if (searchService.error()) {
+              <p class="px-4 py-6 text-sm text-center text-red-600 dark:text-red-400">{{ searchService.error() }}</p>
+            } @else if (searchService.results().length > 0) {
+              <ul class="py-2">
+                @for (hit of searchService.results(); track hit.taskId; let i = $index) {
+                  <li>
+                    <button
+                      type="button"
+                      (click)="open(hit)"
+                      (mouseenter)="activeIndex.set(i)"
+                      class="w-full text-left px-4 py-3"
+                      [class.bg-indigo-50]="activeIndex() === i"
+                      [class.dark:bg-gray-700]="activeIndex() === i"
+                    >
+                      <div class="flex items-center gap-2 min-w-0">
+                        @if (hit.key) {
+                          <span class="font-mono text-xs text-gray-500 dark:text-gray-400 flex-shrink-0">{{ hit.key }}</span>
+                        }
+                        <span class="search-highlight truncate font-medium text-gray-900 dark:text-white" [innerHTML]="hit.titleHighlight"></span>
+                        @if (showOrgNames()) {
+                          <span class="ml-auto flex-shrink-0 px-2 py-0.5 text-xs rounded-full bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300">
+                            {{ orgName(hit.organizationId) }}
+                          </span>
+                        }
+                      </div>
+                      @if (hit.snippet) {
+                        <p class="search-highlight mt-1 text-sm text-gray-600 dark:text-gray-400 line-clamp-2">
+                          @if (hit.commentId) {
+                            <span class="text-xs font-medium text-gray-500 dark:text-gray-400">Comment:</span>
+                          }
+                          <span [innerHTML]="hit.snippet"></span>
+                        </p>
+                      }
+                    </button>
+                  </li>
+                }
+              </ul>
+            } @else if (searchService.isLoading()) {
+              <p class="px-4 py-6 text-sm text-center text-gray-500 dark:text-gray-400">Searching...</p>
+            } @else if (searchService.query().trim()) {
+              <p class="px-4 py-6 text-sm text-center text-gray-500 dark:text-gray-400">No tasks match "{{ searchService.query() }}"</p>
+            } @else {
+              <p class="px-4 py-6 text-sm text-center text-gray-500 dark:text-gray-400">
+                Type to search titles, keys, descriptions and comments
+              </p>
+            }
+          </div>
+        </div>
+      </div>
+    }
+  `,
+  styles: [`
+    /* Highlights come from the server as HTML */
+    .search-highlight ::ng-deep mark {
+      background-color: rgb(253 230 138);
+      color: inherit;
+      border-radius: 0.125rem;
+    }
+
+    :host-context(.dark) .search-highlight ::ng-deep mark {
+      background-color: rgb(146 64 14);
+    }
+  `],
+})
+export class SearchPanelComponent implements OnInit, OnDestroy {
+  readonly searchService = inject(SearchService);
+  private readonly shortcutService = inject(ShortcutService);
+  private readonly authService = inject(AuthService);
+  private readonly organizationService = inject(OrganizationService);
+  private readonly router = inject(Router);
+  private readonly injector = inject(Injector);
+
+  private readonly destroy$ = new Subject<void>();
+  private readonly searchInput = viewChild<ElementRef<HTMLInputElement>>('searchInput');
+
+  readonly isOpen = signal(false);
+  readonly activeIndex = signal(0);
+
+  // Results only need their organization named when there is a choice
+  readonly showOrgNames = computed(
+    () => this.authService.userOrganizations().length > 1
+  );
+
+  ngOnInit(): void {
+    // Ctrl/Cmd + K → open (or close) the panel
+    this.shortcutService.search$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(() => {
+        if (this.isOpen()) {
+          this.close();
+        } else {
+          this.openPanel();
+        }
+      });
+
+    this.shortcutService.escape$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(() => {
+        if (this.isOpen()) {
+          this.close();
+        }
+      });
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  close(): void {
+    this.isOpen.set(false);
+    this.searchService.clear();
+  }
+
+  onInput(event: Event): void {
+    this.activeIndex.set(0);
+    this.searchService.search((event.target as HTMLInputElement).value);
+  }
+
+  /**
+   * Arrow keys move through the results, Enter opens the highlighted one
+   */
+  onKeydown(event: KeyboardEvent): void {
+    const results = this.searchService.results();
+    if (event.key === 'ArrowDown' && results.length > 0) {
+      event.preventDefault();
+      this.activeIndex.update((i) => (i + 1) % results.length);
+    } else if (event.key === 'ArrowUp' && results.length > 0) {
+      event.preventDefault();
+      this.activeIndex.update((i) => (i - 1 + results.length) % results.length);
+    } else if (event.key === 'Enter' && results[this.activeIndex()]) {
+      event.preventDefault();
+      this.open(results[this.activeIndex()]);
+    }
+  }
+
+  /**
+   * Open a result on the board, switching organization first when it
+   * belongs to another one
+   */
+  open(hit: ISearchHit): void {
+    this.close();
+    const showTask = () =>
+      this.router.navigate(['/tasks'], { queryParams: { task: hit.taskId } });
+
+    if (this.organizationService.currentOrg()?.id === hit.organizationId) {
+      showTask();
+      return;
+    }
+    this.organizationService.getOrganization(hit.organizationId).subscribe({
+      next: (org) => {
+        this.organizationService.switchOrganization(org);
+        showTask();
+      },
+      error: () => undefined,
+    });
+  }
+
+  orgName(organizationId: string): string {
+    return (
+      this.authService
+        .userOrganizations()
+        .find((m) => m.organizationId === organizationId)?.organizationName ?? ''
+    );
+  }
+
+  private openPanel(): void {
+    this.activeIndex.set(0);
+    this.isOpen.set(true);
+    afterNextRender(() => this.searchInput()?.nativeElement.focus(), {
+      injector: this.injector,
+    });
+  }
+}
@@ -1,4 +1,4 @@
-import { Component, inject, signal } from '@angular/core';
+import { Component, OnInit, inject, signal } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import {
   FormBuilder,
@@ -16,7 +16,7 @@ import { AuthService } from '../../core/services';
   templateUrl: './login.component.html',
   styleUrls: ['./login.component.scss'],
 })
-export class LoginComponent {
+export class LoginComponent implements OnInit {
   readonly authService = inject(AuthService);
   private readonly router = inject(Router);
   private readonly route = inject(ActivatedRoute);
@@ -25,11 +25,31 @@ export class LoginComponent {
   // Password visibility toggle
   showPassword = signal(false);
 
+  ssoEnabled = signal(false);
+
   loginForm: FormGroup = this.fb.group({
     email: ['', [Validators.required, Validators.email]],
     password: ['', [Validators.required, Validators.minLength(6)]],
   });
 
+  mfaForm: FormGroup = this.fb.group({
+    code: ['', [Validators.required, Validators.maxLength(20)]],
+  });
+
+  ngOnInit(): void {
+    this.authService.getSsoConfig().subscribe(({ enabled }) => this.ssoEnabled.set(enabled));
+
+    // Back from single sign-on, with the result in the fragment
+    const fragment = this.route.snapshot.fragment;
+    if (fragment) {
+      // Keep the tokens out of the history
+      history.replaceState(null, '', location.pathname + location.search);
+      if (this.authService.completeSsoLogin(fragment)) {
+        this.redirectAfterLogin();
+      }
+    }
+  }
+
   togglePasswordVisibility(): void {
     this.showPassword.update(v => !v);
   }
@@ -44,17 +64,35 @@ export class LoginComponent {
 
     this.authService.login(email, password).subscribe({
       next: () => {
-        // Redirect to return URL or dashboard
-        const returnUrl =
-          this.route.snapshot.queryParams['returnUrl'] || '/dashboard';
-        this.router.navigateByUrl(returnUrl);
+        // Accounts with 2FA continue with the code form
+        if (!this.authService.mfaPending()) {
+          this.redirectAfterLogin();
+        }
+      },
+      error: () => {
+        // Error is handled in the service
       },
+    });
+  }
+
+  onSubmitMfa(): void {
+    if (this.mfaForm.invalid) return;
+
+    this.authService.verifyMfa(this.mfaForm.value.code.trim()).subscribe({
+      next: () => this.redirectAfterLogin(),
       error: () => {
         // Error is handled in the service
+        this.mfaForm.reset();
       },
     });
   }
 
+  cancelMfa(): void {
+    this.mfaForm.reset();
+    this.loginForm.get('password')?.reset();
+    this.authService.cancelMfa();
+  }
+
   // Clear error when user starts typing again
   onFieldFocus(): void {
     this.authService.clearError();
@@ -86,4 +124,11 @@ export class LoginComponent {
     const control = this.loginForm.get(fieldName);
     return !!control && control.invalid && control.touched;
   }
+
+  private redirectAfterLogin(): void {
+    // Redirect to return URL or dashboard
+    const returnUrl =
+      this.route.snapshot.queryParams['returnUrl'] || '/dashboard';
+    this.router.navigateByUrl(returnUrl);
+  }
 }
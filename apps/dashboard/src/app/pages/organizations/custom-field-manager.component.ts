@@ -0,0 +1,227 @@
+import { Component, Input, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { CustomFieldType, ICustomField } from '@task-manager/data/frontend';
+import { CustomFieldService } from '../../core/services';
+
+const TYPE_LABELS: Record<CustomFieldType, string> = {
+  [CustomFieldType.TEXT]: 'Text',
+  [CustomFieldType.NUMBER]: 'Number',
+  [CustomFieldType.DATE]: 'Date',
+  [CustomFieldType.SINGLE_SELECT]: 'Single select',
+  [CustomFieldType.MULTI_SELECT]: 'Multi select',
+  [CustomFieldType.USER]: 'User',
+};
+
+@Component({
+  selector: 'app-custom-field-manager',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  template: `
+    <div class="mt-4 bg-white dark:bg-gray-800 shadow overflow-hidden sm:rounded-md">
+      @if (customFieldService.error()) {
+        <div class="px-4 py-3 text-sm text-red-600 dark:text-red-400 border-b border-gray-200 dark:border-gray-700">
+          {{ customFieldService.error() }}
+        </div>
+      }
+
+      @if (canManage) {
+        <form class="space-y-3 px-4 py-4 sm:px-6 border-b border-gray-200 dark:border-gray-700" (ngSubmit)="createField()">
+          <div class="flex items-center gap-3">
+            <input
+              type="text"
+              name="newName"
+              [(ngModel)]="newName"
+              maxlength="50"
+              aria-label="Field name"
+              placeholder="New field name, e.g. Customer"
+              class="flex-1 block border border-gray-300 dark:border-gray-600 rounded-md shadow-sm py-2 px-3 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+            />
+            <select
+              name="newType"
+              [(ngModel)]="newType"
+              aria-label="Field type"
+              class="block border border-gray-300 dark:border-gray-600 rounded-md shadow-sm py-2 px-3 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+            >
+              @for (type of types; track type) {
+                <option [value]="type">{{ typeLabels[type] }}</option>
+              }
+            </select>
+            <label class="inline-flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <input type="checkbox" name="newRequired" [(ngModel)]="newRequired" class="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500" />
+              Required
+            </label>
+            <button
+              type="submit"
+              [disabled]="!canCreate()"
+              class="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+            >
+              Add Field
+            </button>
+          </div>
+          @if (isSelect(newType)) {
+            <input
+              type="text"
+              name="newOptions"
+              [(ngModel)]="newOptions"
+              aria-label="Field options"
+              placeholder="Options, separated by commas"
+              class="block w-full border border-gray-300 dark:border-gray-600 rounded-md shadow-sm py-2 px-3 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+            />
+          }
+        </form>
+      }
+
+      <ul class="divide-y divide-gray-200 dark:divide-gray-700">
+        @for (field of customFieldService.fields(); track field.id) {
+          <li class="px-4 py-3 sm:px-6">
+            @if (editingId() === field.id) {
+              <div class="space-y-3">
+                <div class="flex items-center gap-3">
+                  <input
+                    type="text"
+                    [(ngModel)]="editName"
+                    maxlength="50"
+                    aria-label="Field name"
+                    class="flex-1 block border border-gray-300 dark:border-gray-600 rounded-md shadow-sm py-1.5 px-3 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                  />
+                  <label class="inline-flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                    <input type="checkbox" [(ngModel)]="editRequired" class="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500" />
+                    Required
+                  </label>
+                </div>
+                @if (isSelect(field.type)) {
+                  <input
+                    type="text"
+                    [(ngModel)]="editOptions"
+                    aria-label="Field options"
+                    placeholder="Options, separated by commas"
+                    class="block w-full border border-gray-300 dark:border-gray-600 rounded-md shadow-sm py-1.5 px-3 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                  />
+                  <p class="text-xs text-gray-500 dark:text-gray-400">Removing an option clears it from the tasks that use it.</p>
+                }
+                <div class="flex items-center gap-3">
+                  <button type="button" (click)="saveEdit(field)" class="text-sm font-medium text-indigo-600 dark:text-indigo-400 hover:underline">Save</button>
+                  <button type="button" (click)="editingId.set(null)" class="text-sm text-gray-500 dark:text-gray-400 hover:underline">Cancel</button>
+                </div>
+              </div>
+            } @else {
+              <div class="flex items-center justify-between">
+                <div class="flex items-center gap-3 min-w-0">
+                  <span class="font-medium text-gray-900 dark:text-white">{{ field.name }}</span>
+                  <span class="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300">
+                    {{ typeLabels[field.type] }}
+                  </span>
+                  @if (field.required) {
+                    <span class="text-xs text-red-600 dark:text-red-400">Required</span>
+                  }
+                  @if (field.options) {
+                    <span class="text-xs text-gray-500 dark:text-gray-400 truncate">{{ field.options.join(', ') }}</span>
+                  }
+                </div>
+                @if (canManage) {
+                  <div class="flex items-center gap-3">
+                    <button type="button" (click)="startEdit(field)" class="text-sm text-gray-500 dark:text-gray-400 hover:underline">Edit</button>
+                    <button type="button" (click)="deleteField(field)" class="text-sm text-red-600 dark:text-red-400 hover:underline">Delete</button>
+                  </div>
+                }
+              </div>
+            }
+          </li>
+        } @empty {
+          <li class="px-4 py-8 text-center text-gray-500 dark:text-gray-400">No custom fields yet</li>
+        }
+      </ul>
+    </div>
+  `,
+})
+export class CustomFieldManagerComponent {
+  @Input() canManage = false;
+
+  readonly customFieldService = inject(CustomFieldService);
+
+  readonly types = Object.values(CustomFieldType);
+  readonly typeLabels = TYPE_LABELS;
+
+  readonly editingId = signal<string | null>(null);
+
+  newName = '';
+  newType = CustomFieldType.TEXT;
+  newOptions = '';
+  newRequired = false;
+  editName = '';
+  editOptions = '';
+  editRequired = false;
+
+  isSelect(type: CustomFieldType): boolean {
+    return (
+      type === CustomFieldType.SINGLE_SELECT ||
+      type === CustomFieldType.MULTI_SELECT
+    );
+  }
+
+  canCreate(): boolean {
+    return (
+      !!this.newName.trim() &&
+      (!this.isSelect(this.newType) || this.parseOptions(this.newOptions).length > 0)
+    );
+  }
+
+  createField(): void {
+    if (!this.canCreate()) return;
+
+    this.customFieldService
+      .createField({
+        name: this.newName.trim(),
+        type: this.newType,
+        options: this.isSelect(this.newType)
+          ? this.parseOptions(this.newOptions)
+          : undefined,
+        required: this.newRequired,
+      })
+      .subscribe({
+        next: () => {
+          this.newName = '';
+          this.newOptions = '';
+          this.newRequired = false;
+        },
+      });
+  }
+
+  startEdit(field: ICustomField): void {
+    this.editingId.set(field.id);
+    this.editName = field.name;
+    this.editOptions = (field.options ?? []).join(', ');
+    this.editRequired = field.required;
+  }
+
+  saveEdit(field: ICustomField): void {
+    const name = this.editName.trim();
+    if (!name) return;
+
+    this.customFieldService
+      .updateField(field.id, {
+        name,
+        required: this.editRequired,
+        options: this.isSelect(field.type)
+          ? this.parseOptions(this.editOptions)
+          : undefined,
+      })
+      .subscribe({
+        next: () => this.editingId.set(null),
+      });
+  }
+
+  deleteField(field: ICustomField): void {
+    if (confirm(`Delete the field "${field.name}"? Its values will be removed from all tasks.`)) {
+      this.customFieldService.deleteField(field.id).subscribe();
+    }
+  }
+
+  private parseOptions(value: string): string[] {
+    return value
+      .split(',')
+      .map((option) => option.trim())
+      .filter(Boolean);
+  }
+}
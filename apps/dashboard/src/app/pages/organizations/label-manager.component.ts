@@ -0,0 +1,142 @@
+import { Component, Input, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { ILabel } from '@task-manager/data/frontend';
+import { LabelService } from '../../core/services';
+
+const DEFAULT_COLOR = '#6366f1';
+
+@Component({
+  selector: 'app-label-manager',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  template: `
+    <div class="mt-4 bg-white dark:bg-gray-800 shadow overflow-hidden sm:rounded-md">
+      @if (labelService.error()) {
+        <div class="px-4 py-3 text-sm text-red-600 dark:text-red-400 border-b border-gray-200 dark:border-gray-700">
+          {{ labelService.error() }}
+        </div>
+      }
+
+      @if (canManage) {
+        <form class="flex items-center gap-3 px-4 py-4 sm:px-6 border-b border-gray-200 dark:border-gray-700" (ngSubmit)="createLabel()">
+          <input
+            type="color"
+            name="newColor"
+            [(ngModel)]="newColor"
+            aria-label="Label colour"
+            class="h-9 w-9 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 cursor-pointer"
+          />
+          <input
+            type="text"
+            name="newName"
+            [(ngModel)]="newName"
+            maxlength="50"
+            aria-label="Label name"
+            placeholder="New label name"
+            class="flex-1 block border border-gray-300 dark:border-gray-600 rounded-md shadow-sm py-2 px-3 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+          />
+          <button
+            type="submit"
+            [disabled]="!newName.trim()"
+            class="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+          >
+            Add Label
+          </button>
+        </form>
+      }
+
+      <ul class="divide-y divide-gray-200 dark:divide-gray-700">
+        @for (label of labelService.labels(); track label.id) {
+          <li class="px-4 py-3 sm:px-6">
+            @if (editingId() === label.id) {
+              <div class="flex items-center gap-3">
+                <input
+                  type="color"
+                  [(ngModel)]="editColor"
+                  aria-label="Label colour"
+                  class="h-9 w-9 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 cursor-pointer"
+                />
+                <input
+                  type="text"
+                  [(ngModel)]="editName"
+                  maxlength="50"
+                  aria-label="Label name"
+                  (keydown.enter)="saveEdit(label)"
+                  class="flex-1 block border border-gray-300 dark:border-gray-600 rounded-md shadow-sm py-1.5 px-3 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                />
+                <button type="button" (click)="saveEdit(label)" class="text-sm font-medium text-indigo-600 dark:text-indigo-400 hover:underline">Save</button>
+                <button type="button" (click)="editingId.set(null)" class="text-sm text-gray-500 dark:text-gray-400 hover:underline">Cancel</button>
+              </div>
+            } @else {
+              <div class="flex items-center justify-between">
+                <span
+                  class="inline-flex items-center px-2.5 py-0.5 rounded text-sm font-medium"
+                  [style.background-color]="label.color + '26'"
+                  [style.color]="label.color"
+                >
+                  {{ label.name }}
+                </span>
+                @if (canManage) {
+                  <div class="flex items-center gap-3">
+                    <button type="button" (click)="startEdit(label)" class="text-sm text-gray-500 dark:text-gray-400 hover:underline">Edit</button>
+                    <button type="button" (click)="deleteLabel(label)" class="text-sm text-red-600 dark:text-red-400 hover:underline">Delete</button>
+                  </div>
+                }
+              </div>
+            }
+          </li>
+        } @empty {
+          <li class="px-4 py-8 text-center text-gray-500 dark:text-gray-400">No labels yet</li>
+        }
+      </ul>
+    </div>
+  `,
+})
+export class LabelManagerComponent {
+  @Input() canManage = false;
+
+  readonly labelService = inject(LabelService);
+
+  readonly editingId = signal<string | null>(null);
+
+  newName = '';
+  newColor = DEFAULT_COLOR;
+  editName = '';
+  editColor = DEFAULT_COLOR;
+
+  createLabel(): void {
+    const name = this.newName.trim();
+    if (!name) return;
+
+    this.labelService.createLabel({ name, color: this.newColor }).subscribe({
+      next: () => {
+        this.newName = '';
+        this.newColor = DEFAULT_COLOR;
+      },
+    });
+  }
+
+  startEdit(label: ILabel): void {
+    this.editingId.set(label.id);
+    this.editName = label.name;
+    this.editColor = label.color;
+  }
+
+  saveEdit(label: ILabel): void {
+    const name = this.editName.trim();
+    if (!name) return;
+
+    this.labelService
+      .updateLabel(label.id, { name, color: this.editColor })
+      .subscribe({
+        next: () => this.editingId.set(null),
+      });
+  }
+
+  deleteLabel(label: ILabel): void {
+    if (confirm(`Delete the label "${label.name}"? It will be removed from all tasks.`)) {
+      this.labelService.deleteLabel(label.id).subscribe();
+    }
+  }
+}
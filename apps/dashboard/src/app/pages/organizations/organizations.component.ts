@@ -10,25 +10,41 @@ import { OrganizationRole, IInvitation, IOrganizationMember } from '@task-manage
 import {
   AuthService,
   OrganizationService,
+  PermissionsService,
+  TaskService,
   CreateOrganizationDto,
 } from '../../core/services';
 import { InviteUserModalComponent } from './invite-user-modal.component';
+import { ProjectManagerComponent } from './project-manager.component';
+import { LabelManagerComponent } from './label-manager.component';
+import { WorkflowManagerComponent } from './workflow-manager.component';
+import { CustomFieldManagerComponent } from './custom-field-manager.component';
 
 @Component({
   selector: 'app-organizations',
   standalone: true,
-  imports: [CommonModule, ReactiveFormsModule, InviteUserModalComponent],
+  imports: [
+    CommonModule,
+    ReactiveFormsModule,
+    InviteUserModalComponent,
+    ProjectManagerComponent,
+    LabelManagerComponent,
+    WorkflowManagerComponent,
+    CustomFieldManagerComponent,
+  ],
   templateUrl: './organizations.component.html',
   styleUrls: ['./organizations.component.scss'],
 })
 export class OrganizationsComponent implements OnInit {
   readonly authService = inject(AuthService);
   readonly organizationService = inject(OrganizationService);
+  readonly permissionsService = inject(PermissionsService);
+  private readonly taskService = inject(TaskService);
   private readonly fb = inject(FormBuilder);
 
   showCreateModal = signal(false);
   showInviteModal = signal(false);
-  activeTab = signal<'members' | 'invitations'>('members');
+  activeTab = signal<'members' | 'invitations' | 'projects' | 'labels' | 'workflow' | 'fields'>('members');
 
   orgForm: FormGroup = this.fb.group({
     name: ['', [Validators.required, Validators.minLength(2)]],
@@ -49,6 +65,9 @@ export class OrganizationsComponent implements OnInit {
     return role === OrganizationRole.OWNER || role === OrganizationRole.ADMIN;
   });
 
+  // Labels and workflow statuses are managed by the same roles that can invite
+  canManageLabels = computed(() => this.canInvite());
+
   // Check if user is OWNER (can manage everything)
   isOwner = computed(() => this.currentUserRole() === OrganizationRole.OWNER);
 
@@ -124,6 +143,60 @@ export class OrganizationsComponent implements OnInit {
     }
   }
 
+  isCurrentUser(member: IOrganizationMember): boolean {
+    return member.userId === this.authService.currentUser()?.id;
+  }
+
+  removeMember(member: IOrganizationMember): void {
+    const orgId = this.organizationService.currentOrg()?.id;
+    if (!orgId) return;
+
+    const leaving = this.isCurrentUser(member);
+    const message = leaving
+      ? 'Leave this organization? You will be unassigned from its tasks.'
+      : `Remove ${member.email} from this organization? They will be unassigned from its tasks.`;
+    if (!confirm(message)) return;
+
+    this.organizationService.removeMember(orgId, member.userId).subscribe({
+      next: () => {
+        if (leaving) {
+          // Reload user profile to update organization memberships
+          this.authService.loadUserProfile();
+        } else {
+          this.taskService.removeAssignee(member.userId);
+        }
+      },
+      error: () => undefined, // Surfaced through organizationService.error()
+    });
+  }
+
+  changeMfaRequirement(event: Event): void {
+    const org = this.organizationService.currentOrg();
+    if (!org) return;
+
+    const select = event.target as HTMLSelectElement;
+    const mfaRequiredRole = (select.value || null) as OrganizationRole | null;
+    this.organizationService
+      .updateOrganization(org.id, { mfaRequiredRole })
+      .subscribe({
+        // Surfaced through organizationService.error()
+        error: () => (select.value = org.mfaRequiredRole ?? ''),
+      });
+  }
+
+  changeSsoRequirement(event: Event): void {
+    const org = this.organizationService.currentOrg();
+    if (!org) return;
+
+    const checkbox = event.target as HTMLInputElement;
+    this.organizationService
+      .updateOrganization(org.id, { ssoRequired: checkbox.checked })
+      .subscribe({
+        // Surfaced through organizationService.error()
+        error: () => (checkbox.checked = !!org.ssoRequired),
+      });
+  }
+
   resendInvitation(invitation: IInvitation): void {
     this.organizationService.resendInvitation(invitation.id).subscribe();
   }
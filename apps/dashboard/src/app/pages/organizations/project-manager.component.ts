@@ -0,0 +1,170 @@
+import { Component, Input, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { IProject } from '@task-manager/data/frontend';
+import { ProjectService } from '../../core/services';
+
+@Component({
+  selector: 'app-project-manager',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  template: `
+    <div class="mt-4 bg-white dark:bg-gray-800 shadow overflow-hidden sm:rounded-md">
+      @if (projectService.error()) {
+        <div class="px-4 py-3 text-sm text-red-600 dark:text-red-400 border-b border-gray-200 dark:border-gray-700">
+          {{ projectService.error() }}
+        </div>
+      }
+
+      @if (canManage) {
+        <form class="flex flex-wrap items-center gap-3 px-4 py-4 sm:px-6 border-b border-gray-200 dark:border-gray-700" (ngSubmit)="createProject()">
+          <input
+            type="text"
+            name="newKey"
+            [ngModel]="newKey"
+            (ngModelChange)="newKey = $event.toUpperCase()"
+            maxlength="10"
+            aria-label="Project key"
+            placeholder="KEY"
+            class="w-24 block border border-gray-300 dark:border-gray-600 rounded-md shadow-sm py-2 px-3 bg-white dark:bg-gray-700 text-gray-900 dark:text-white font-mono uppercase focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+          />
+          <input
+            type="text"
+            name="newName"
+            [(ngModel)]="newName"
+            maxlength="100"
+            aria-label="Project name"
+            placeholder="New project name"
+            class="flex-1 min-w-[10rem] block border border-gray-300 dark:border-gray-600 rounded-md shadow-sm py-2 px-3 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+          />
+          <button
+            type="submit"
+            [disabled]="!isValidKey(newKey) || !newName.trim()"
+            class="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+          >
+            Add Project
+          </button>
+          <p class="w-full text-xs text-gray-500 dark:text-gray-400">
+            The key prefixes task keys (e.g. OPS-42): 2-10 letters or digits, starting with a letter. It cannot be changed later.
+          </p>
+        </form>
+      }
+
+      <ul class="divide-y divide-gray-200 dark:divide-gray-700">
+        @for (project of projectService.projects(); track project.id) {
+          <li class="px-4 py-3 sm:px-6">
+            @if (editingId() === project.id) {
+              <div class="space-y-2">
+                <input
+                  type="text"
+                  [(ngModel)]="editName"
+                  maxlength="100"
+                  aria-label="Project name"
+                  class="block w-full border border-gray-300 dark:border-gray-600 rounded-md shadow-sm py-1.5 px-3 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                />
+                <textarea
+                  [(ngModel)]="editDescription"
+                  rows="2"
+                  maxlength="2000"
+                  aria-label="Project description"
+                  placeholder="Description (optional)"
+                  class="block w-full border border-gray-300 dark:border-gray-600 rounded-md shadow-sm py-1.5 px-3 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                ></textarea>
+                <div class="flex items-center gap-3">
+                  <button type="button" (click)="saveEdit(project)" class="text-sm font-medium text-indigo-600 dark:text-indigo-400 hover:underline">Save</button>
+                  <button type="button" (click)="editingId.set(null)" class="text-sm text-gray-500 dark:text-gray-400 hover:underline">Cancel</button>
+                </div>
+              </div>
+            } @else {
+              <div class="flex items-center justify-between gap-3">
+                <div class="min-w-0">
+                  <div class="flex items-center gap-2">
+                    <span class="px-2 py-0.5 rounded bg-gray-100 dark:bg-gray-700 text-xs font-mono font-medium text-gray-700 dark:text-gray-300">{{ project.key }}</span>
+                    <span class="font-medium text-gray-900 dark:text-white truncate">{{ project.name }}</span>
+                    @if (project.archived) {
+                      <span class="text-xs text-gray-500 dark:text-gray-400">Archived</span>
+                    }
+                  </div>
+                  @if (project.description) {
+                    <p class="mt-1 text-sm text-gray-500 dark:text-gray-400 truncate">{{ project.description }}</p>
+                  }
+                </div>
+                @if (canManage) {
+                  <div class="flex items-center gap-3 flex-shrink-0">
+                    <button type="button" (click)="startEdit(project)" class="text-sm text-gray-500 dark:text-gray-400 hover:underline">Edit</button>
+                    <button type="button" (click)="toggleArchived(project)" class="text-sm text-gray-500 dark:text-gray-400 hover:underline">
+                      {{ project.archived ? 'Unarchive' : 'Archive' }}
+                    </button>
+                    <button type="button" (click)="deleteProject(project)" class="text-sm text-red-600 dark:text-red-400 hover:underline">Delete</button>
+                  </div>
+                }
+              </div>
+            }
+          </li>
+        } @empty {
+          <li class="px-4 py-8 text-center text-gray-500 dark:text-gray-400">No projects yet</li>
+        }
+      </ul>
+    </div>
+  `,
+})
+export class ProjectManagerComponent {
+  @Input() canManage = false;
+
+  readonly projectService = inject(ProjectService);
+
+  readonly editingId = signal<string | null>(null);
+
+  newKey = '';
+  newName = '';
+  editName = '';
+  editDescription = '';
+
+  isValidKey(key: string): boolean {
+    return /^[A-Z][A-Z0-9]{1,9}$/.test(key);
+  }
+
+  createProject(): void {
+    const name = this.newName.trim();
+    if (!this.isValidKey(this.newKey) || !name) return;
+
+    this.projectService.createProject({ key: this.newKey, name }).subscribe({
+      next: () => {
+        this.newKey = '';
+        this.newName = '';
+      },
+    });
+  }
+
+  startEdit(project: IProject): void {
+    this.editingId.set(project.id);
+    this.editName = project.name;
+    this.editDescription = project.description ?? '';
+  }
+
+  saveEdit(project: IProject): void {
+    const name = this.editName.trim();
+    if (!name) return;
+
+    this.projectService
+      .updateProject(project.id, {
+        name,
+        description: this.editDescription.trim() || null,
+      })
+      .subscribe({
+        next: () => this.editingId.set(null),
+      });
+  }
+
+  toggleArchived(project: IProject): void {
+    this.projectService
+      .updateProject(project.id, { archived: !project.archived })
+      .subscribe();
+  }
+
+  deleteProject(project: IProject): void {
+    if (confirm(`Delete the project "${project.name}"? Only projects without tasks can be deleted.`)) {
+      this.projectService.deleteProject(project.id).subscribe();
+    }
+  }
+}
@@ -0,0 +1,269 @@
+import { Component, Input, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { IWorkflowStatus, TaskStatus } from '@task-manager/data/frontend';
+import { OrganizationService, WorkflowService } from '../../core/services';
+
+const DEFAULT_COLOR = '#a855f7';
+
+const CATEGORY_LABELS: Record<TaskStatus, string> = {
+  [TaskStatus.TODO]: 'Not started',
+  [TaskStatus.IN_PROGRESS]: 'In progress',
+  [TaskStatus.DONE]: 'Done',
+};
+
+@Component({
+  selector: 'app-workflow-manager',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  template: `
+    <div class="mt-4 bg-white dark:bg-gray-800 shadow overflow-hidden sm:rounded-md">
+      @if (workflowService.error()) {
+        <div class="px-4 py-3 text-sm text-red-600 dark:text-red-400 border-b border-gray-200 dark:border-gray-700">
+          {{ workflowService.error() }}
+        </div>
+      }
+
+      @if (canManage) {
+        <label class="flex items-center gap-2 px-4 py-3 sm:px-6 text-sm text-gray-700 dark:text-gray-300 border-b border-gray-200 dark:border-gray-700">
+          <input
+            type="checkbox"
+            [checked]="organizationService.currentOrg()?.enforceBlockers"
+            (change)="toggleEnforceBlockers($event)"
+            class="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+          />
+          Refuse starting tasks that are blocked by open tasks
+        </label>
+        <form class="flex items-center gap-3 px-4 py-4 sm:px-6 border-b border-gray-200 dark:border-gray-700" (ngSubmit)="createStatus()">
+          <input
+            type="color"
+            name="newColor"
+            [(ngModel)]="newColor"
+            aria-label="Status colour"
+            class="h-9 w-9 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 cursor-pointer"
+          />
+          <input
+            type="text"
+            name="newName"
+            [(ngModel)]="newName"
+            maxlength="50"
+            aria-label="Status name"
+            placeholder="New status name, e.g. Review"
+            class="flex-1 block border border-gray-300 dark:border-gray-600 rounded-md shadow-sm py-2 px-3 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+          />
+          <select
+            name="newCategory"
+            [(ngModel)]="newCategory"
+            aria-label="Status category"
+            class="block border border-gray-300 dark:border-gray-600 rounded-md shadow-sm py-2 px-3 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+          >
+            @for (category of categories; track category) {
+              <option [value]="category">{{ categoryLabels[category] }}</option>
+            }
+          </select>
+          <button
+            type="submit"
+            [disabled]="!newName.trim()"
+            class="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+          >
+            Add Status
+          </button>
+        </form>
+      }
+
+      <ul class="divide-y divide-gray-200 dark:divide-gray-700">
+        @for (status of workflowService.statuses(); track status.id; let first = $first; let last = $last) {
+          <li class="px-4 py-3 sm:px-6">
+            @if (editingId() === status.id) {
+              <div class="space-y-3">
+                <div class="flex items-center gap-3">
+                  <input
+                    type="color"
+                    [(ngModel)]="editColor"
+                    aria-label="Status colour"
+                    class="h-9 w-9 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 cursor-pointer"
+                  />
+                  <input
+                    type="text"
+                    [(ngModel)]="editName"
+                    maxlength="50"
+                    aria-label="Status name"
+                    class="flex-1 block border border-gray-300 dark:border-gray-600 rounded-md shadow-sm py-1.5 px-3 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                  />
+                  <select
+                    [(ngModel)]="editCategory"
+                    aria-label="Status category"
+                    class="block border border-gray-300 dark:border-gray-600 rounded-md shadow-sm py-1.5 px-3 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                  >
+                    @for (category of categories; track category) {
+                      <option [value]="category">{{ categoryLabels[category] }}</option>
+                    }
+                  </select>
+                </div>
+
+                <!-- Transition rules -->
+                <div class="text-sm text-gray-700 dark:text-gray-300">
+                  <label class="inline-flex items-center gap-2">
+                    <input type="checkbox" [(ngModel)]="editRestricted" class="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500" />
+                    Only allow moving tasks from here to:
+                  </label>
+                  @if (editRestricted) {
+                    <div class="mt-2 ml-6 flex flex-wrap gap-3">
+                      @for (target of workflowService.statuses(); track target.id) {
+                        @if (target.id !== status.id) {
+                          <label class="inline-flex items-center gap-1.5">
+                            <input
+                              type="checkbox"
+                              [checked]="editTransitions.includes(target.id)"
+                              (change)="toggleTransition(target.id)"
+                              class="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                            />
+                            {{ target.name }}
+                          </label>
+                        }
+                      }
+                    </div>
+                  }
+                </div>
+
+                <div class="flex items-center gap-3">
+                  <button type="button" (click)="saveEdit(status)" class="text-sm font-medium text-indigo-600 dark:text-indigo-400 hover:underline">Save</button>
+                  <button type="button" (click)="editingId.set(null)" class="text-sm text-gray-500 dark:text-gray-400 hover:underline">Cancel</button>
+                </div>
+              </div>
+            } @else {
+              <div class="flex items-center justify-between">
+                <div class="flex items-center gap-3 min-w-0">
+                  <span class="w-3 h-3 rounded-full flex-shrink-0" [style.background-color]="status.color"></span>
+                  <span class="font-medium text-gray-900 dark:text-white">{{ status.name }}</span>
+                  <span class="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300">
+                    {{ categoryLabels[status.category] }}
+                  </span>
+                  @if (status.allowedTransitions) {
+                    <span class="text-xs text-gray-500 dark:text-gray-400 truncate">
+                      → {{ getTransitionNames(status) || 'no other status' }}
+                    </span>
+                  }
+                </div>
+                @if (canManage) {
+                  <div class="flex items-center gap-3">
+                    <button type="button" (click)="move(status, -1)" [disabled]="first" aria-label="Move up" class="text-sm text-gray-500 dark:text-gray-400 hover:underline disabled:opacity-30">↑</button>
+                    <button type="button" (click)="move(status, 1)" [disabled]="last" aria-label="Move down" class="text-sm text-gray-500 dark:text-gray-400 hover:underline disabled:opacity-30">↓</button>
+                    <button type="button" (click)="startEdit(status)" class="text-sm text-gray-500 dark:text-gray-400 hover:underline">Edit</button>
+                    <button type="button" (click)="deleteStatus(status)" class="text-sm text-red-600 dark:text-red-400 hover:underline">Delete</button>
+                  </div>
+                }
+              </div>
+            }
+          </li>
+        } @empty {
+          <li class="px-4 py-8 text-center text-gray-500 dark:text-gray-400">No statuses yet</li>
+        }
+      </ul>
+    </div>
+  `,
+})
+export class WorkflowManagerComponent {
+  @Input() canManage = false;
+
+  readonly workflowService = inject(WorkflowService);
+  readonly organizationService = inject(OrganizationService);
+
+  readonly categories = Object.values(TaskStatus);
+  readonly categoryLabels = CATEGORY_LABELS;
+
+  readonly editingId = signal<string | null>(null);
+
+  newName = '';
+  newColor = DEFAULT_COLOR;
+  newCategory = TaskStatus.IN_PROGRESS;
+  editName = '';
+  editColor = DEFAULT_COLOR;
+  editCategory = TaskStatus.IN_PROGRESS;
+  editRestricted = false;
+  editTransitions: string[] = [];
+
+  toggleEnforceBlockers(event: Event): void {
+    const org = this.organizationService.currentOrg();
+    if (!org) return;
+
+    const input = event.target as HTMLInputElement;
+    this.organizationService
+      .updateOrganization(org.id, { enforceBlockers: input.checked })
+      .subscribe({
+        error: () => (input.checked = !input.checked),
+      });
+  }
+
+  createStatus(): void {
+    const name = this.newName.trim();
+    if (!name) return;
+
+    this.workflowService
+      .createStatus({ name, color: this.newColor, category: this.newCategory })
+      .subscribe({
+        next: () => {
+          this.newName = '';
+          this.newColor = DEFAULT_COLOR;
+        },
+      });
+  }
+
+  startEdit(status: IWorkflowStatus): void {
+    this.editingId.set(status.id);
+    this.editName = status.name;
+    this.editColor = status.color;
+    this.editCategory = status.category;
+    this.editRestricted = !!status.allowedTransitions;
+    this.editTransitions = [...(status.allowedTransitions ?? [])];
+  }
+
+  toggleTransition(statusId: string): void {
+    this.editTransitions = this.editTransitions.includes(statusId)
+      ? this.editTransitions.filter((id) => id !== statusId)
+      : [...this.editTransitions, statusId];
+  }
+
+  saveEdit(status: IWorkflowStatus): void {
+    const name = this.editName.trim();
+    if (!name) return;
+
+    this.workflowService
+      .updateStatus(status.id, {
+        name,
+        color: this.editColor,
+        category: this.editCategory,
+        allowedTransitions: this.editRestricted ? this.editTransitions : null,
+      })
+      .subscribe({
+        next: () => this.editingId.set(null),
+      });
+  }
+
+  /**
+   * Swap a status with its neighbour on the board
+   */
+  move(status: IWorkflowStatus, offset: -1 | 1): void {
+    const ids = this.workflowService.statuses().map((s) => s.id);
+    const index = ids.indexOf(status.id);
+    const target = index + offset;
+    if (target < 0 || target >= ids.length) return;
+
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    this.workflowService.reorderStatuses(ids).subscribe();
+  }
+
+  getTransitionNames(status: IWorkflowStatus): string {
+    return this.workflowService
+      .statuses()
+      .filter((s) => status.allowedTransitions?.includes(s.id))
+      .map((s) => s.name)
+      .join(', ');
+  }
+
+  deleteStatus(status: IWorkflowStatus): void {
+    if (confirm(`Delete the status "${status.name}"? Only statuses without tasks can be deleted.`)) {
+      this.workflowService.deleteStatus(status.id).subscribe();
+    }
+  }
+}
@@ -0,0 +1,205 @@
+import { Component, inject, signal, computed } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import {
+  ISprint,
+  ITask,
+  ISprintSummary,
+  SprintState,
+  TaskStatus,
+  EstimateUnit,
+} from '@task-manager/data/frontend';
+import {
+  OrganizationService,
+  PermissionsService,
+  SprintService,
+  TaskService,
+  formatEstimate,
+} from '../../core/services';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SPRINT_DAYS = 14;
+
+/**
+ * YYYY-MM-DD of a date in local time, for date inputs
+ */
+function toDateInput(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+@Component({
+  selector: 'app-planning',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: './planning.component.html',
+  styleUrls: ['./planning.component.scss'],
+})
+export class PlanningComponent {
+  readonly organizationService = inject(OrganizationService);
+  readonly permissionsService = inject(PermissionsService);
+  readonly sprintService = inject(SprintService);
+  readonly taskService = inject(TaskService);
+
+  readonly SprintState = SprintState;
+  readonly TaskStatus = TaskStatus;
+  readonly EstimateUnit = EstimateUnit;
+
+  readonly showClosed = signal(false);
+  readonly closingId = signal<string | null>(null);
+
+  // New sprint form
+  newName = '';
+  newGoal = '';
+  newStart = '';
+  newEnd = '';
+  // Where the unfinished tasks of the sprint being closed go ('' = backlog)
+  closeTargetId = '';
+
+  // The active sprint first, then planned sprints by start date
+  readonly openSprints = computed<ISprint[]>(() => {
+    const active = this.sprintService.activeSprint();
+    return active
+      ? [active, ...this.sprintService.plannedSprints()]
+      : this.sprintService.plannedSprints();
+  });
+
+  // Unfinished tasks that are not planned into a sprint
+  readonly backlog = computed<ITask[]>(() =>
+    this.taskService
+      .tasks()
+      .filter((t) => !t.sprintId && t.status !== TaskStatus.DONE)
+  );
+
+  readonly backlogEstimate = computed(() =>
+    this.backlog().reduce((sum, t) => sum + (t.estimate ?? 0), 0)
+  );
+
+  // Progress per sprint, kept live from the task list
+  readonly progress = computed(() => {
+    const progress = new Map<string, ISprintSummary>();
+    for (const task of this.taskService.tasks()) {
+      if (!task.sprintId) continue;
+
+      const summary = progress.get(task.sprintId) ?? {
+        taskCount: 0,
+        doneCount: 0,
+        totalEstimate: 0,
+        doneEstimate: 0,
+      };
+      const done = task.status === TaskStatus.DONE;
+      summary.taskCount++;
+      summary.totalEstimate += task.estimate ?? 0;
+      if (done) {
+        summary.doneCount++;
+        summary.doneEstimate += task.estimate ?? 0;
+      }
+      progress.set(task.sprintId, summary);
+    }
+    return progress;
+  });
+
+  constructor() {
+    this.resetForm();
+    // Backlog and sprint contents come from the full task list
+    this.taskService.loadTasks();
+  }
+
+  tasksOf(sprintId: string): ITask[] {
+    return this.taskService.tasks().filter((t) => t.sprintId === sprintId);
+  }
+
+  summaryOf(sprint: ISprint): ISprintSummary {
+    return (
+      this.progress().get(sprint.id) ?? {
+        taskCount: 0,
+        doneCount: 0,
+        totalEstimate: 0,
+        doneEstimate: 0,
+      }
+    );
+  }
+
+  estimate(value: number): string {
+    return formatEstimate(value, this.organizationService.currentOrg()?.estimateUnit);
+  }
+
+  daysLeft(sprint: ISprint): number {
+    return Math.max(0, Math.ceil((new Date(sprint.endDate).getTime() - Date.now()) / DAY_MS));
+  }
+
+  createSprint(): void {
+    const name = this.newName.trim();
+    if (!name || !this.newStart || !this.newEnd) return;
+
+    this.sprintService
+      .createSprint({
+        name,
+        goal: this.newGoal.trim() || undefined,
+        startDate: new Date(`${this.newStart}T00:00`).toISOString(),
+        endDate: new Date(`${this.newEnd}T00:00`).toISOString(),
+      })
+      .subscribe({
+        next: () => this.resetForm(),
+      });
+  }
+
+  addToSprint(task: ITask, sprintId: string): void {
+    if (!sprintId) return;
+    this.sprintService.addTasks(sprintId, [task.id]).subscribe();
+  }
+
+  removeFromSprint(sprint: ISprint, task: ITask): void {
+    this.sprintService.removeTask(sprint.id, task.id).subscribe();
+  }
+
+  startSprint(sprint: ISprint): void {
+    this.sprintService.startSprint(sprint.id).subscribe();
+  }
+
+  beginClose(sprint: ISprint): void {
+    this.closeTargetId = this.sprintService.plannedSprints()[0]?.id ?? '';
+    this.closingId.set(sprint.id);
+  }
+
+  closeSprint(sprint: ISprint): void {
+    this.sprintService
+      .closeSprint(sprint.id, this.closeTargetId || undefined)
+      .subscribe({
+        next: () => this.closingId.set(null),
+      });
+  }
+
+  deleteSprint(sprint: ISprint): void {
+    if (confirm(`Delete ${sprint.name}? Its tasks go back to the backlog.`)) {
+      this.sprintService.deleteSprint(sprint.id).subscribe();
+    }
+  }
+
+  changeEstimateUnit(event: Event): void {
+    const org = this.organizationService.currentOrg();
+    if (!org) return;
+
+    const select = event.target as HTMLSelectElement;
+    this.organizationService
+      .updateOrganization(org.id, { estimateUnit: select.value as EstimateUnit })
+      .subscribe({
+        error: () => (select.value = org.estimateUnit ?? EstimateUnit.POINTS),
+      });
+  }
+
+  /**
+   * Suggest the two weeks after the last open sprint, or from today
+   */
+  private resetForm(): void {
+    const sprints = this.openSprints();
+    const last = sprints[sprints.length - 1];
+    const start = last ? new Date(last.endDate) : new Date();
+    const end = new Date(start.getTime() + SPRINT_DAYS * DAY_MS);
+
+    this.newName = '';
+    this.newGoal = '';
+    this.newStart = toDateInput(start);
+    this.newEnd = toDateInput(end);
+  }
+}
@@ -1,4 +1,4 @@
-import { Component, inject, signal } from '@angular/core';
+import { Component, OnInit, inject, signal } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import {
   FormsModule,
@@ -9,8 +9,34 @@ import {
   AbstractControl,
   ValidationErrors,
 } from '@angular/forms';
+import {
+  IUserSession,
+  ILoginEvent,
+  IMfaSetup,
+  IMfaStatus,
+  IPersonalAccessToken,
+  ITokenScope,
+} from '@task-manager/data/frontend';
+import { Observable } from 'rxjs';
 import { AuthService, OrganizationService } from '../../core/services';
 
+// Checked in order: Edge and Opera also claim to be Chrome, Chrome to be Safari
+const BROWSERS: [string, RegExp][] = [
+  ['Edge', /Edg\//],
+  ['Opera', /OPR\//],
+  ['Firefox', /Firefox\//],
+  ['Chrome', /Chrome\//],
+  ['Safari', /Safari\//],
+];
+
+const SYSTEMS: [string, RegExp][] = [
+  ['Windows', /Windows/],
+  ['Android', /Android/],
+  ['iOS', /iPhone|iPad/],
+  ['macOS', /Mac OS X/],
+  ['Linux', /Linux/],
+];
+
 @Component({
   selector: 'app-settings',
   standalone: true,
@@ -18,7 +44,7 @@ import { AuthService, OrganizationService } from '../../core/services';
   templateUrl: './settings.component.html',
   styleUrls: ['./settings.component.scss'],
 })
-export class SettingsComponent {
+export class SettingsComponent implements OnInit {
   readonly authService = inject(AuthService);
   readonly organizationService = inject(OrganizationService);
   private readonly fb = inject(FormBuilder);
@@ -31,6 +57,45 @@ export class SettingsComponent {
   passwordChangeError = signal<string | null>(null);
   passwordChangeSuccess = signal(false);
 
+  // Security state
+  sessions = signal<IUserSession[]>([]);
+  loginHistory = signal<ILoginEvent[]>([]);
+  isLoadingSecurity = signal(false);
+  revokingSessionId = signal<string | null>(null);
+  isSigningOut = signal(false);
+  signOutError = signal<string | null>(null);
+
+  // Two-factor state
+  mfaStatus = signal<IMfaStatus | null>(null);
+  mfaSetup = signal<IMfaSetup | null>(null);
+  // Shown once, right after they were generated
+  recoveryCodes = signal<string[] | null>(null);
+  mfaCode = '';
+  isSavingMfa = signal(false);
+  mfaError = signal<string | null>(null);
+
+  // Personal access token state
+  accessTokens = signal<IPersonalAccessToken[]>([]);
+  tokenScopes = signal<ITokenScope[]>([]);
+  showTokenForm = signal(false);
+  newTokenName = '';
+  newTokenOrganizationId = '';
+  newTokenExpiresInDays = '90';
+  selectedScopes = signal<Set<string>>(new Set());
+  // Shown once, right after the token was created
+  createdToken = signal<string | null>(null);
+  isCreatingToken = signal(false);
+  revokingTokenId = signal<string | null>(null);
+  tokenError = signal<string | null>(null);
+
+  readonly tokenExpiryOptions = [
+    { value: '7', label: '7 days' },
+    { value: '30', label: '30 days' },
+    { value: '90', label: '90 days' },
+    { value: '365', label: '1 year' },
+    { value: '', label: 'Never' },
+  ];
+
   passwordForm: FormGroup = this.fb.group(
     {
       currentPassword: ['', [Validators.required]],
@@ -47,6 +112,12 @@ export class SettingsComponent {
     { validators: this.passwordMatchValidator }
   );
 
+  ngOnInit(): void {
+    this.loadSecurity();
+    this.loadMfaStatus();
+    this.loadAccessTokens();
+  }
+
   passwordMatchValidator(control: AbstractControl): ValidationErrors | null {
     const newPassword = control.get('newPassword');
     const confirmPassword = control.get('confirmPassword');
@@ -92,4 +163,247 @@ export class SettingsComponent {
   clearPasswordError(): void {
     this.passwordChangeError.set(null);
   }
+
+  loadSecurity(): void {
+    this.isLoadingSecurity.set(true);
+
+    this.authService.getSessions().subscribe({
+      next: (sessions) => {
+        this.sessions.set(sessions);
+        this.isLoadingSecurity.set(false);
+      },
+      error: () => this.isLoadingSecurity.set(false),
+    });
+
+    this.authService.getLoginHistory().subscribe({
+      next: (events) => this.loginHistory.set(events),
+    });
+  }
+
+  onRevokeSession(session: IUserSession): void {
+    this.revokingSessionId.set(session.id);
+    this.signOutError.set(null);
+
+    this.authService.revokeSession(session.id).subscribe({
+      next: () => {
+        this.revokingSessionId.set(null);
+        this.sessions.update((sessions) =>
+          sessions.filter((s) => s.id !== session.id)
+        );
+      },
+      error: (error) => {
+        this.revokingSessionId.set(null);
+        this.signOutError.set(error.error?.message || 'Failed to sign out');
+      },
+    });
+  }
+
+  loadMfaStatus(): void {
+    this.authService.getMfaStatus().subscribe({
+      next: (status) => this.mfaStatus.set(status),
+    });
+  }
+
+  onStartMfaSetup(): void {
+    this.runMfaAction(this.authService.setupMfa(), (setup) => {
+      this.mfaSetup.set(setup);
+      this.recoveryCodes.set(null);
+    });
+  }
+
+  onCancelMfaSetup(): void {
+    this.mfaSetup.set(null);
+    this.mfaCode = '';
+    this.mfaError.set(null);
+  }
+
+  onEnableMfa(): void {
+    this.runMfaAction(this.authService.enableMfa(this.mfaCode.trim()), ({ recoveryCodes }) => {
+      this.mfaSetup.set(null);
+      this.recoveryCodes.set(recoveryCodes);
+      this.loadMfaStatus();
+    });
+  }
+
+  onRegenerateRecoveryCodes(): void {
+    this.runMfaAction(
+      this.authService.regenerateRecoveryCodes(this.mfaCode.trim()),
+      ({ recoveryCodes }) => {
+        this.recoveryCodes.set(recoveryCodes);
+        this.loadMfaStatus();
+      }
+    );
+  }
+
+  onDisableMfa(): void {
+    if (!confirm('Turn off two-factor authentication?')) return;
+
+    this.runMfaAction(this.authService.disableMfa(this.mfaCode.trim()), () => {
+      this.recoveryCodes.set(null);
+      this.loadMfaStatus();
+    });
+  }
+
+  loadAccessTokens(): void {
+    this.authService.getAccessTokens().subscribe({
+      next: (tokens) => this.accessTokens.set(tokens),
+    });
+  }
+
+  openTokenForm(): void {
+    this.showTokenForm.set(true);
+    this.createdToken.set(null);
+    this.tokenError.set(null);
+
+    if (this.tokenScopes().length === 0) {
+      this.authService.getTokenScopes().subscribe({
+        next: (scopes) => this.tokenScopes.set(scopes),
+      });
+    }
+  }
+
+  closeTokenForm(): void {
+    this.showTokenForm.set(false);
+    this.newTokenName = '';
+    this.newTokenOrganizationId = '';
+    this.newTokenExpiresInDays = '90';
+    this.selectedScopes.set(new Set());
+    this.tokenError.set(null);
+  }
+
+  scopeKey(scope: ITokenScope): string {
+    return `${scope.resource}:${scope.action}`;
+  }
+
+  formatScope(scope: ITokenScope): string {
+    return this.scopeKey(scope).toLowerCase().replace(/_/g, ' ');
+  }
+
+  toggleScope(scope: ITokenScope): void {
+    const key = this.scopeKey(scope);
+    this.selectedScopes.update((selected) => {
+      const next = new Set(selected);
+      if (!next.delete(key)) next.add(key);
+      return next;
+    });
+  }
+
+  onCreateToken(): void {
+    const name = this.newTokenName.trim();
+    const scopes = this.tokenScopes().filter((scope) =>
+      this.selectedScopes().has(this.scopeKey(scope))
+    );
+    if (!name || scopes.length === 0) return;
+
+    this.isCreatingToken.set(true);
+    this.tokenError.set(null);
+
+    this.authService
+      .createAccessToken({
+        name,
+        scopes,
+        organizationId: this.newTokenOrganizationId || undefined,
+        expiresInDays: this.newTokenExpiresInDays
+          ? Number(this.newTokenExpiresInDays)
+          : undefined,
+      })
+      .subscribe({
+        next: ({ token, ...created }) => {
+          this.isCreatingToken.set(false);
+          this.accessTokens.update((tokens) => [created, ...tokens]);
+          this.closeTokenForm();
+          this.createdToken.set(token);
+        },
+        error: (error) => {
+          this.isCreatingToken.set(false);
+          const message = Array.isArray(error.error?.message)
+            ? error.error.message[0]
+            : error.error?.message || 'Failed to create token';
+          this.tokenError.set(message);
+        },
+      });
+  }
+
+  onRevokeToken(token: IPersonalAccessToken): void {
+    if (!confirm(`Revoke "${token.name}"? Scripts using it will stop working.`)) return;
+
+    this.revokingTokenId.set(token.id);
+    this.tokenError.set(null);
+
+    this.authService.revokeAccessToken(token.id).subscribe({
+      next: () => {
+        this.revokingTokenId.set(null);
+        this.accessTokens.update((tokens) => tokens.filter((t) => t.id !== token.id));
+      },
+      error: (error) => {
+        this.revokingTokenId.set(null);
+        this.tokenError.set(error.error?.message || 'Failed to revoke token');
+      },
+    });
+  }
+
+  copyCreatedToken(): void {
+    const token = this.createdToken();
+    if (token) navigator.clipboard?.writeText(token);
+  }
+
+  isExpired(token: IPersonalAccessToken): boolean {
+    return !!token.expiresAt && new Date(token.expiresAt) <= new Date();
+  }
+
+  organizationName(organizationId: string | null): string {
+    if (!organizationId) return 'All organizations';
+    const membership = this.authService
+      .userOrganizations()
+      .find((m) => m.organizationId === organizationId);
+    return membership?.organizationName ?? 'Unknown organization';
+  }
+
+  /**
+   * "Firefox on Windows" from a User-Agent; other clients show their
+   * product token, e.g. "curl/8.5.0"
+   */
+  describeDevice(userAgent: string | null): string {
+    if (!userAgent) return 'Unknown device';
+
+    const browser = BROWSERS.find(([, pattern]) => pattern.test(userAgent));
+    if (!browser) return userAgent.split(' ')[0];
+
+    const system = SYSTEMS.find(([, pattern]) => pattern.test(userAgent));
+    return system ? `${browser[0]} on ${system[0]}` : browser[0];
+  }
+
+  onSignOutEverywhere(): void {
+    if (!confirm('Sign out of all devices, including this one?')) return;
+
+    this.isSigningOut.set(true);
+    this.signOutError.set(null);
+
+    this.authService.logoutEverywhere().subscribe({
+      error: (error) => {
+        this.isSigningOut.set(false);
+        this.signOutError.set(error.error?.message || 'Failed to sign out');
+      },
+    });
+  }
+
+  private runMfaAction<T>(request: Observable<T>, onSuccess: (result: T) => void): void {
+    this.isSavingMfa.set(true);
+    this.mfaError.set(null);
+
+    request.subscribe({
+      next: (result) => {
+        this.isSavingMfa.set(false);
+        this.mfaCode = '';
+        onSuccess(result);
+      },
+      error: (error) => {
+        this.isSavingMfa.set(false);
+        const message = Array.isArray(error.error?.message)
+          ? error.error.message[0]
+          : error.error?.message || 'Something went wrong';
+        this.mfaError.set(message);
+      },
+    });
+  }
 }
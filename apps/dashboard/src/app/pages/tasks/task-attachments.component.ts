@@ -0,0 +1,138 @@
+import { Component, Input, OnInit, OnDestroy, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ITaskAttachment } from '@task-manager/data/frontend';
+import { AttachmentService } from '../../core/services';
+
+@Component({
+  selector: 'app-task-attachments',
+  standalone: true,
+  imports: [CommonModule],
+  template: `
+    <div>
+      <span class="block text-sm font-medium text-gray-700 dark:text-gray-300">
+        Attachments ({{ attachmentService.attachments().length }})
+      </span>
+
+      @if (attachmentService.error()) {
+        <p class="mt-1 text-sm text-red-600 dark:text-red-400">{{ attachmentService.error() }}</p>
+      }
+
+      @if (attachmentService.isLoading()) {
+        <p class="mt-2 text-sm text-gray-500 dark:text-gray-400">Loading attachments...</p>
+      }
+
+      <ul class="mt-2 space-y-1">
+        @for (attachment of attachmentService.attachments(); track attachment.id) {
+          <li class="group flex items-center gap-2 text-sm">
+            <span aria-hidden="true">{{ getIcon(attachment) }}</span>
+            <button
+              type="button"
+              (click)="attachmentService.download(attachment)"
+              class="flex-1 truncate text-left text-indigo-600 dark:text-indigo-400 hover:underline"
+              [title]="'Download ' + attachment.fileName"
+            >
+              {{ attachment.fileName }}
+            </button>
+            <span class="text-xs text-gray-500 dark:text-gray-400">{{ formatSize(attachment.size) }}</span>
+            @if (canEdit) {
+              <button
+                type="button"
+                (click)="deleteAttachment(attachment)"
+                class="opacity-0 group-hover:opacity-100 text-xs text-red-600 dark:text-red-400 hover:underline"
+                [attr.aria-label]="'Delete ' + attachment.fileName"
+              >
+                Delete
+              </button>
+            }
+          </li>
+        } @empty {
+          @if (!attachmentService.isLoading()) {
+            <li class="text-sm text-gray-500 dark:text-gray-400">No attachments</li>
+          }
+        }
+      </ul>
+
+      @if (canEdit) {
+        <label
+          class="mt-2 flex flex-col items-center justify-center rounded-md border-2 border-dashed px-3 py-4 text-sm cursor-pointer transition-colors"
+          [ngClass]="isDragging()
+            ? 'border-indigo-500 bg-indigo-50 dark:bg-indigo-900/30'
+            : 'border-gray-300 dark:border-gray-600 hover:border-indigo-400'"
+          (dragover)="onDragOver($event)"
+          (dragleave)="isDragging.set(false)"
+          (drop)="onDrop($event)"
+        >
+          <span class="text-gray-600 dark:text-gray-400">
+            @if (attachmentService.isUploading()) {
+              Uploading...
+            } @else {
+              Drop files here or <span class="text-indigo-600 dark:text-indigo-400 font-medium">browse</span>
+            }
+          </span>
+          <input type="file" multiple class="sr-only" (change)="onFileSelected($event)" />
+        </label>
+      }
+    </div>
+  `,
+})
+export class TaskAttachmentsComponent implements OnInit, OnDestroy {
+  @Input() taskId!: string;
+  @Input() canEdit = false;
+
+  readonly attachmentService = inject(AttachmentService);
+
+  readonly isDragging = signal(false);
+
+  ngOnInit(): void {
+    this.attachmentService.loadAttachments(this.taskId);
+  }
+
+  ngOnDestroy(): void {
+    this.attachmentService.clear();
+  }
+
+  onDragOver(event: DragEvent): void {
+    event.preventDefault();
+    this.isDragging.set(true);
+  }
+
+  onDrop(event: DragEvent): void {
+    event.preventDefault();
+    this.isDragging.set(false);
+    this.uploadFiles(event.dataTransfer?.files);
+  }
+
+  onFileSelected(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    this.uploadFiles(input.files);
+    input.value = '';
+  }
+
+  deleteAttachment(attachment: ITaskAttachment): void {
+    if (confirm(`Delete ${attachment.fileName}?`)) {
+      this.attachmentService.deleteAttachment(this.taskId, attachment.id).subscribe();
+    }
+  }
+
+  getIcon(attachment: ITaskAttachment): string {
+    if (attachment.mimeType.startsWith('image/')) return '🖼️';
+    if (attachment.mimeType === 'application/pdf') return '📕';
+    return '📄';
+  }
+
+  formatSize(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  }
+
+  private uploadFiles(files: FileList | null | undefined): void {
+    if (!files) return;
+
+    for (const file of Array.from(files)) {
+      this.attachmentService.upload(this.taskId, file).subscribe({
+        error: () => undefined, // Surfaced through attachmentService.error()
+      });
+    }
+  }
+}
@@ -0,0 +1,220 @@
+import { Component, Input, OnInit, OnDestroy, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ITaskComment, IUser } from '@task-manager/data/frontend';
+import {
+  AuthService,
+  CommentService,
+  PermissionsService,
+} from '../../core/services';
+
+interface CommentSegment {
+  text: string;
+  mention: boolean;
+}
+
+// Same pattern the API uses to resolve `@email` mentions
+const MENTION_PATTERN = /(^|\s)@([A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,})/g;
+
+@Component({
+  selector: 'app-task-comments',
+  standalone: true,
+  imports: [CommonModule],
+  template: `
+    <div>
+      <span class="block text-sm font-medium text-gray-700 dark:text-gray-300">
+        Comments ({{ commentService.commentCount() }})
+      </span>
+
+      @if (commentService.error()) {
+        <p class="mt-1 text-sm text-red-600 dark:text-red-400">{{ commentService.error() }}</p>
+      }
+
+      @if (commentService.isLoading()) {
+        <p class="mt-2 text-sm text-gray-500 dark:text-gray-400">Loading comments...</p>
+      }
+
+      <ul class="mt-2 space-y-3">
+        @for (comment of commentService.comments(); track comment.id) {
+          <li>
+            <ng-container *ngTemplateOutlet="commentTpl; context: { $implicit: comment }"></ng-container>
+
+            @if (comment.replies?.length || replyingTo() === comment.id) {
+              <ul class="mt-2 ml-6 pl-3 border-l-2 border-gray-200 dark:border-gray-700 space-y-2">
+                @for (reply of comment.replies; track reply.id) {
+                  <li>
+                    <ng-container *ngTemplateOutlet="commentTpl; context: { $implicit: reply }"></ng-container>
+                  </li>
+                }
+                @if (replyingTo() === comment.id) {
+                  <li>
+                    <textarea
+                      #replyInput
+                      rows="2"
+                      aria-label="Reply"
+                      class="block w-full border border-gray-300 dark:border-gray-600 rounded-md shadow-sm py-1.5 px-3 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                      placeholder="Write a reply..."
+                    ></textarea>
+                    <div class="mt-1 flex gap-2">
+                      <button type="button" (click)="postComment(replyInput, comment.id)" class="text-xs font-medium text-indigo-600 dark:text-indigo-400 hover:underline">Reply</button>
+                      <button type="button" (click)="replyingTo.set(null)" class="text-xs text-gray-500 dark:text-gray-400 hover:underline">Cancel</button>
+                    </div>
+                  </li>
+                }
+              </ul>
+            }
+          </li>
+        } @empty {
+          @if (!commentService.isLoading()) {
+            <li class="text-sm text-gray-500 dark:text-gray-400">No comments yet</li>
+          }
+        }
+      </ul>
+
+      @if (permissionsService.canCreateComments()) {
+        <div class="mt-3">
+          <textarea
+            #newComment
+            rows="2"
+            aria-label="New comment"
+            class="block w-full border border-gray-300 dark:border-gray-600 rounded-md shadow-sm py-2 px-3 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+            placeholder="Add a comment... mention people with @email"
+          ></textarea>
+          <div class="mt-2 flex justify-end">
+            <button
+              type="button"
+              (click)="postComment(newComment)"
+              class="inline-flex justify-center rounded-md border border-transparent shadow-sm px-3 py-1.5 bg-indigo-600 text-sm font-medium text-white hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+            >
+              Comment
+            </button>
+          </div>
+        </div>
+      }
+    </div>
+
+    <ng-template #commentTpl let-comment>
+      <div class="text-sm">
+        <div class="flex items-center gap-2">
+          <span class="font-medium text-gray-900 dark:text-white">{{ getAuthorName(comment) }}</span>
+          <span class="text-xs text-gray-500 dark:text-gray-400">{{ comment.createdAt | date: 'MMM d, h:mm a' }}</span>
+          @if (comment.editedAt) {
+            <span class="text-xs italic text-gray-400 dark:text-gray-500" [title]="'Edited ' + (comment.editedAt | date: 'MMM d, h:mm a')">(edited)</span>
+          }
+        </div>
+
+        @if (editingId() === comment.id) {
+          <textarea
+            #editInput
+            rows="2"
+            aria-label="Edit comment"
+            [value]="comment.body"
+            class="mt-1 block w-full border border-gray-300 dark:border-gray-600 rounded-md shadow-sm py-1.5 px-3 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+          ></textarea>
+          <div class="mt-1 flex gap-2">
+            <button type="button" (click)="saveEdit(comment, editInput)" class="text-xs font-medium text-indigo-600 dark:text-indigo-400 hover:underline">Save</button>
+            <button type="button" (click)="editingId.set(null)" class="text-xs text-gray-500 dark:text-gray-400 hover:underline">Cancel</button>
+          </div>
+        } @else {
+          <p class="mt-0.5 text-gray-700 dark:text-gray-300 whitespace-pre-wrap">@for (segment of getSegments(comment); track $index) {@if (segment.mention) {<span class="text-indigo-600 dark:text-indigo-400 font-medium">{{ segment.text }}</span>} @else {<span>{{ segment.text }}</span>}}</p>
+          <div class="mt-1 flex gap-3">
+            @if (permissionsService.canCreateComments()) {
+              <button type="button" (click)="replyingTo.set(comment.parentId ?? comment.id)" class="text-xs text-gray-500 dark:text-gray-400 hover:underline">Reply</button>
+            }
+            @if (isAuthor(comment)) {
+              <button type="button" (click)="editingId.set(comment.id)" class="text-xs text-gray-500 dark:text-gray-400 hover:underline">Edit</button>
+            }
+            @if (isAuthor(comment) || permissionsService.canManageComments()) {
+              <button type="button" (click)="deleteComment(comment)" class="text-xs text-red-600 dark:text-red-400 hover:underline">Delete</button>
+            }
+          </div>
+        }
+      </div>
+    </ng-template>
+  `,
+})
+export class TaskCommentsComponent implements OnInit, OnDestroy {
+  @Input() taskId!: string;
+
+  readonly commentService = inject(CommentService);
+  readonly permissionsService = inject(PermissionsService);
+  private readonly authService = inject(AuthService);
+
+  readonly replyingTo = signal<string | null>(null);
+  readonly editingId = signal<string | null>(null);
+
+  ngOnInit(): void {
+    this.commentService.loadComments(this.taskId);
+  }
+
+  ngOnDestroy(): void {
+    this.commentService.clear();
+  }
+
+  postComment(input: HTMLTextAreaElement, parentId?: string): void {
+    const body = input.value.trim();
+    if (!body) return;
+
+    this.commentService.addComment(this.taskId, body, parentId).subscribe({
+      next: () => {
+        input.value = '';
+        this.replyingTo.set(null);
+      },
+    });
+  }
+
+  saveEdit(comment: ITaskComment, input: HTMLTextAreaElement): void {
+    const body = input.value.trim();
+    if (!body) return;
+
+    this.commentService.updateComment(this.taskId, comment.id, body).subscribe({
+      next: () => this.editingId.set(null),
+    });
+  }
+
+  deleteComment(comment: ITaskComment): void {
+    const prompt = comment.replies?.length
+      ? 'Delete this comment and its replies?'
+      : 'Delete this comment?';
+
+    if (confirm(prompt)) {
+      this.commentService.deleteComment(this.taskId, comment.id).subscribe();
+    }
+  }
+
+  isAuthor(comment: ITaskComment): boolean {
+    return !!comment.authorId && comment.authorId === this.authService.currentUser()?.id;
+  }
+
+  getAuthorName(comment: ITaskComment): string {
+    return comment.author ? this.getUserName(comment.author) : 'Deleted user';
+  }
+
+  /**
+   * Split a comment body so resolved @email mentions can be highlighted
+   */
+  getSegments(comment: ITaskComment): CommentSegment[] {
+    const mentioned = new Set(
+      (comment.mentions ?? []).map((user) => user.email.toLowerCase())
+    );
+    const segments: CommentSegment[] = [];
+    let lastIndex = 0;
+
+    for (const match of comment.body.matchAll(MENTION_PATTERN)) {
+      const email = match[2];
+      if (!mentioned.has(email.toLowerCase())) continue;
+
+      const start = (match.index ?? 0) + match[1].length;
+      segments.push({ text: comment.body.slice(lastIndex, start), mention: false });
+      segments.push({ text: `@${email}`, mention: true });
+      lastIndex = start + email.length + 1;
+    }
+
+    segments.push({ text: comment.body.slice(lastIndex), mention: false });
+    return segments;
+  }
+
+  private getUserName(user: IUser): string {
+    const name = [user.firstName, user.lastName].filter(Boolean).join(' ');
+    return name || user.email;
+  }
+}
@@ -0,0 +1,190 @@
+import { Component, Input, OnInit, OnDestroy, computed, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { IUser, TaskActivityAction } from '@task-manager/data/frontend';
+import {
+  TaskHistoryService,
+  WorkflowService,
+  LabelService,
+  CustomFieldService,
+  OrganizationService,
+  ProjectService,
+  SprintService,
+  formatDuration,
+} from '../../core/services';
+
+const FIELD_NAMES: Record<string, string> = {
+  title: 'Title',
+  description: 'Description',
+  status: 'Status category',
+  statusId: 'Status',
+  priority: 'Priority',
+  estimate: 'Estimate',
+  sprintId: 'Sprint',
+  projectId: 'Project',
+  key: 'Key',
+  parentId: 'Parent task',
+  startDate: 'Start date',
+  dueDate: 'Due date',
+  labelIds: 'Labels',
+  assigneeIds: 'Assignees',
+};
+
+const ACTION_VERBS: Record<TaskActivityAction, string> = {
+  [TaskActivityAction.CREATED]: 'created the task',
+  [TaskActivityAction.UPDATED]: 'changed',
+  [TaskActivityAction.DELETED]: 'deleted the task',
+  [TaskActivityAction.RESTORED]: 'restored the task',
+};
+
+@Component({
+  selector: 'app-task-history',
+  standalone: true,
+  imports: [CommonModule],
+  template: `
+    <div class="space-y-4">
+      @if (taskHistoryService.error()) {
+        <p class="text-sm text-red-600 dark:text-red-400">{{ taskHistoryService.error() }}</p>
+      }
+
+      @if (taskHistoryService.isLoading()) {
+        <p class="text-sm text-gray-500 dark:text-gray-400">Loading history...</p>
+      }
+
+      @if (taskHistoryService.history(); as history) {
+        <div class="grid grid-cols-2 gap-4">
+          <div>
+            <span class="block text-sm font-medium text-gray-700 dark:text-gray-300">Reopened</span>
+            <p class="mt-1 text-sm text-gray-900 dark:text-white">
+              {{ history.reopenCount }} {{ history.reopenCount === 1 ? 'time' : 'times' }}
+            </p>
+          </div>
+          <div>
+            <span class="block text-sm font-medium text-gray-700 dark:text-gray-300">Time in status</span>
+            <ul class="mt-1 space-y-0.5">
+              @for (entry of history.timeInStatus; track entry.statusId) {
+                <li class="flex justify-between text-sm">
+                  <span class="text-gray-700 dark:text-gray-300">{{ getStatusName(entry.statusId) }}</span>
+                  <span class="text-gray-900 dark:text-white">{{ formatDuration(entry.seconds) }}</span>
+                </li>
+              } @empty {
+                <li class="text-sm text-gray-500 dark:text-gray-400">No status recorded</li>
+              }
+            </ul>
+          </div>
+        </div>
+
+        <ol class="relative border-l border-gray-200 dark:border-gray-700 ml-1">
+          @for (activity of timeline(); track activity.id) {
+            <li class="mb-4 ml-4">
+              <span class="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white dark:border-gray-800 bg-indigo-500"></span>
+              <p class="text-sm text-gray-900 dark:text-white">
+                <span class="font-medium">{{ getUserName(activity.actor) }}</span>
+                {{ actionVerbs[activity.action] }}
+                <span class="ml-1 text-xs text-gray-500 dark:text-gray-400">{{ activity.createdAt | date: 'MMM d, h:mm a' }}</span>
+              </p>
+              @if (activity.action === updated) {
+                <ul class="mt-1 space-y-0.5">
+                  @for (change of activity.changes; track change.field) {
+                    <li class="text-sm text-gray-600 dark:text-gray-400">
+                      <span class="font-medium text-gray-700 dark:text-gray-300">{{ getFieldName(change.field) }}:</span>
+                      @if (change.field === 'description') {
+                        edited
+                      } @else {
+                        <span class="line-through">{{ formatValue(change.field, change.from) }}</span>
+                        → {{ formatValue(change.field, change.to) }}
+                      }
+                    </li>
+                  }
+                </ul>
+              }
+            </li>
+          } @empty {
+            <li class="ml-4 text-sm text-gray-500 dark:text-gray-400">No history recorded yet</li>
+          }
+        </ol>
+      }
+    </div>
+  `,
+})
+export class TaskHistoryComponent implements OnInit, OnDestroy {
+  @Input() taskId!: string;
+
+  readonly taskHistoryService = inject(TaskHistoryService);
+  private readonly workflowService = inject(WorkflowService);
+  private readonly labelService = inject(LabelService);
+  private readonly customFieldService = inject(CustomFieldService);
+  private readonly organizationService = inject(OrganizationService);
+  private readonly projectService = inject(ProjectService);
+  private readonly sprintService = inject(SprintService);
+
+  readonly formatDuration = formatDuration;
+  readonly actionVerbs = ACTION_VERBS;
+  readonly updated = TaskActivityAction.UPDATED;
+
+  // Newest first
+  readonly timeline = computed(() =>
+    [...(this.taskHistoryService.history()?.activities ?? [])].reverse()
+  );
+
+  ngOnInit(): void {
+    this.taskHistoryService.loadHistory(this.taskId);
+  }
+
+  ngOnDestroy(): void {
+    this.taskHistoryService.clear();
+  }
+
+  getFieldName(field: string): string {
+    if (field.startsWith('customFieldValues.')) {
+      const fieldId = field.slice('customFieldValues.'.length);
+      return this.customFieldService.fields().find((f) => f.id === fieldId)?.name ?? 'Custom field';
+    }
+    return FIELD_NAMES[field] ?? field;
+  }
+
+  getStatusName(statusId: string): string {
+    return this.workflowService.statuses().find((s) => s.id === statusId)?.name ?? 'Removed status';
+  }
+
+  /**
+   * Show IDs by name where the referenced item is loaded.
+   */
+  formatValue(field: string, value: unknown): string {
+    if (value === null || value === undefined || value === '') {
+      return 'none';
+    }
+
+    switch (field) {
+      case 'statusId':
+        return this.getStatusName(value as string);
+      case 'projectId':
+        return this.projectService.projects().find((p) => p.id === value)?.name ?? 'another project';
+      case 'sprintId':
+        return this.sprintService.sprints().find((s) => s.id === value)?.name ?? 'another sprint';
+      case 'labelIds':
+        return (value as string[])
+          .map((id) => this.labelService.labels().find((l) => l.id === id)?.name ?? 'removed label')
+          .join(', ');
+      case 'assigneeIds':
+        return (value as string[]).map((id) => this.getMemberName(id)).join(', ');
+      case 'startDate':
+      case 'dueDate':
+        return new Date(value as string).toLocaleDateString();
+    }
+
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+
+  getUserName(user: IUser | null | undefined): string {
+    if (!user) return 'Someone';
+    const name = [user.firstName, user.lastName].filter(Boolean).join(' ');
+    return name || user.email;
+  }
+
+  private getMemberName(userId: string): string {
+    const member = this.organizationService.members().find((m) => m.userId === userId);
+    if (!member) return 'former member';
+    const name = [member.firstName, member.lastName].filter(Boolean).join(' ');
+    return name || member.email;
+  }
+}
@@ -0,0 +1,167 @@
+import { Component, Input, OnInit, OnDestroy, computed, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { ITaskLink, TaskLinkType, TaskStatus } from '@task-manager/data/frontend';
+import { TaskLinkService, TaskService } from '../../core/services';
+
+interface LinkRelation {
+  label: string;
+  type: TaskLinkType;
+  // The open task is the target of the link rather than its source
+  inverse: boolean;
+}
+
+const RELATIONS: LinkRelation[] = [
+  { label: 'blocks', type: TaskLinkType.BLOCKS, inverse: false },
+  { label: 'is blocked by', type: TaskLinkType.BLOCKS, inverse: true },
+  { label: 'relates to', type: TaskLinkType.RELATES_TO, inverse: false },
+  { label: 'duplicates', type: TaskLinkType.DUPLICATES, inverse: false },
+  { label: 'is duplicated by', type: TaskLinkType.DUPLICATES, inverse: true },
+];
+
+@Component({
+  selector: 'app-task-links',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  template: `
+    <div>
+      <span class="block text-sm font-medium text-gray-700 dark:text-gray-300">
+        Links ({{ taskLinkService.links().length }})
+      </span>
+
+      @if (taskLinkService.error()) {
+        <p class="mt-1 text-sm text-red-600 dark:text-red-400">{{ taskLinkService.error() }}</p>
+      }
+
+      @if (taskLinkService.isLoading()) {
+        <p class="mt-2 text-sm text-gray-500 dark:text-gray-400">Loading links...</p>
+      }
+
+      <ul class="mt-2 space-y-1">
+        @for (link of taskLinkService.links(); track link.id) {
+          <li class="group flex items-center gap-2 text-sm">
+            <span class="w-28 shrink-0 text-gray-500 dark:text-gray-400">{{ getRelationLabel(link) }}</span>
+            @if (getOtherTask(link); as other) {
+              <span
+                class="flex-1 truncate text-gray-900 dark:text-white"
+                [class.line-through]="other.status === doneStatus"
+              >
+                {{ other.title }}
+              </span>
+            }
+            @if (canEdit) {
+              <button
+                type="button"
+                (click)="removeLink(link)"
+                class="opacity-0 group-hover:opacity-100 text-xs text-red-600 dark:text-red-400 hover:underline"
+                [attr.aria-label]="'Remove ' + getRelationLabel(link) + ' link'"
+              >
+                Remove
+              </button>
+            }
+          </li>
+        } @empty {
+          @if (!taskLinkService.isLoading()) {
+            <li class="text-sm text-gray-500 dark:text-gray-400">No linked tasks</li>
+          }
+        }
+      </ul>
+
+      @if (canEdit) {
+        <div class="mt-2 flex items-center gap-2">
+          <select
+            [(ngModel)]="relationIndex"
+            aria-label="Link type"
+            class="block border border-gray-300 dark:border-gray-600 rounded-md shadow-sm py-1.5 px-2 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+          >
+            @for (relation of relations; track relation.label; let i = $index) {
+              <option [ngValue]="i">{{ relation.label }}</option>
+            }
+          </select>
+          <select
+            [(ngModel)]="otherTaskId"
+            aria-label="Linked task"
+            class="flex-1 min-w-0 block border border-gray-300 dark:border-gray-600 rounded-md shadow-sm py-1.5 px-2 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+          >
+            <option value="">Select a task</option>
+            @for (task of linkableTasks(); track task.id) {
+              <option [value]="task.id">{{ task.title }}</option>
+            }
+          </select>
+          <button
+            type="button"
+            (click)="addLink()"
+            [disabled]="!otherTaskId || isSaving()"
+            class="inline-flex items-center px-3 py-1.5 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+          >
+            Link
+          </button>
+        </div>
+      }
+    </div>
+  `,
+})
+export class TaskLinksComponent implements OnInit, OnDestroy {
+  @Input() taskId!: string;
+  @Input() canEdit = false;
+
+  readonly taskLinkService = inject(TaskLinkService);
+  private readonly taskService = inject(TaskService);
+
+  readonly relations = RELATIONS;
+  readonly doneStatus = TaskStatus.DONE;
+  readonly isSaving = signal(false);
+
+  // Tasks of the organization other than the open one
+  readonly linkableTasks = computed(() =>
+    this.taskService.tasks().filter((t) => t.id !== this.taskId)
+  );
+
+  relationIndex = 0;
+  otherTaskId = '';
+
+  ngOnInit(): void {
+    this.taskLinkService.loadLinks(this.taskId);
+  }
+
+  ngOnDestroy(): void {
+    this.taskLinkService.clear();
+  }
+
+  getOtherTask(link: ITaskLink) {
+    return link.sourceTaskId === this.taskId ? link.targetTask : link.sourceTask;
+  }
+
+  getRelationLabel(link: ITaskLink): string {
+    const inverse =
+      link.type !== TaskLinkType.RELATES_TO && link.targetTaskId === this.taskId;
+    return (
+      RELATIONS.find((r) => r.type === link.type && r.inverse === inverse)?.label ??
+      link.type
+    );
+  }
+
+  addLink(): void {
+    if (!this.otherTaskId) return;
+
+    const relation = RELATIONS[this.relationIndex];
+    const [sourceId, targetId] = relation.inverse
+      ? [this.otherTaskId, this.taskId]
+      : [this.taskId, this.otherTaskId];
+
+    this.isSaving.set(true);
+    this.taskLinkService.createLink(sourceId, targetId, relation.type).subscribe({
+      next: () => {
+        this.otherTaskId = '';
+        this.isSaving.set(false);
+      },
+      error: () => this.isSaving.set(false), // Surfaced through taskLinkService.error()
+    });
+  }
+
+  removeLink(link: ITaskLink): void {
+    this.taskLinkService.deleteLink(this.taskId, link).subscribe({
+      error: () => undefined, // Surfaced through taskLinkService.error()
+    });
+  }
+}
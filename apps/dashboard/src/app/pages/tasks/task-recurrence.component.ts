@@ -0,0 +1,253 @@
+import { Component, Input, OnInit, OnDestroy, effect, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { RecurrenceFrequency } from '@task-manager/data/frontend';
+import { RecurrenceService } from '../../core/services';
+
+type EndMode = 'never' | 'until' | 'count';
+
+// RRULE weekday codes, Monday first
+const WEEKDAYS = [
+  { code: 'MO', label: 'Mon' },
+  { code: 'TU', label: 'Tue' },
+  { code: 'WE', label: 'Wed' },
+  { code: 'TH', label: 'Thu' },
+  { code: 'FR', label: 'Fri' },
+  { code: 'SA', label: 'Sat' },
+  { code: 'SU', label: 'Sun' },
+];
+
+const UNITS: Record<RecurrenceFrequency, string> = {
+  [RecurrenceFrequency.DAILY]: 'day',
+  [RecurrenceFrequency.WEEKLY]: 'week',
+  [RecurrenceFrequency.MONTHLY]: 'month',
+};
+
+@Component({
+  selector: 'app-task-recurrence',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  template: `
+    <div>
+      <span class="block text-sm font-medium text-gray-700 dark:text-gray-300">Repeat</span>
+
+      @if (recurrenceService.error()) {
+        <p class="mt-1 text-sm text-red-600 dark:text-red-400">{{ recurrenceService.error() }}</p>
+      }
+
+      @if (recurrenceService.recurrence(); as recurrence) {
+        <p class="mt-1 text-sm text-gray-600 dark:text-gray-400">
+          🔁 {{ describe() }}
+          @if (recurrence.nextOccurrenceAt) {
+            · next {{ recurrence.nextOccurrenceAt | date: 'MMM d, y' }}
+          } @else {
+            · series ended
+          }
+        </p>
+      } @else if (!recurrenceService.isLoading()) {
+        <p class="mt-1 text-sm text-gray-500 dark:text-gray-400">Does not repeat</p>
+      }
+
+      @if (canEdit) {
+        <div class="mt-2 space-y-2">
+          <div class="flex flex-wrap items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+            <span>Every</span>
+            <input
+              type="number"
+              min="1"
+              [(ngModel)]="interval"
+              aria-label="Repeat interval"
+              class="w-16 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm py-1 px-2 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+            />
+            <select
+              [(ngModel)]="freq"
+              aria-label="Repeat frequency"
+              class="border border-gray-300 dark:border-gray-600 rounded-md shadow-sm py-1 px-2 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+            >
+              @for (frequency of frequencies; track frequency) {
+                <option [value]="frequency">{{ units[frequency] }}(s)</option>
+              }
+            </select>
+          </div>
+
+          @if (freq === weekly) {
+            <div class="flex flex-wrap gap-1">
+              @for (day of weekdays; track day.code) {
+                <button
+                  type="button"
+                  (click)="toggleDay(day.code)"
+                  [attr.aria-pressed]="byDay.has(day.code)"
+                  class="px-2 py-0.5 rounded text-xs font-medium border"
+                  [ngClass]="byDay.has(day.code)
+                    ? 'bg-indigo-600 border-indigo-600 text-white'
+                    : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300'"
+                >
+                  {{ day.label }}
+                </button>
+              }
+            </div>
+          }
+
+          <div class="flex flex-wrap items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+            <select
+              [(ngModel)]="endMode"
+              aria-label="Repeat end"
+              class="border border-gray-300 dark:border-gray-600 rounded-md shadow-sm py-1 px-2 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+            >
+              <option value="never">Never ends</option>
+              <option value="until">Ends on</option>
+              <option value="count">Ends after</option>
+            </select>
+            @if (endMode === 'until') {
+              <input
+                type="date"
+                [(ngModel)]="until"
+                aria-label="Repeat until"
+                class="border border-gray-300 dark:border-gray-600 rounded-md shadow-sm py-1 px-2 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+              />
+            }
+            @if (endMode === 'count') {
+              <input
+                type="number"
+                min="1"
+                [(ngModel)]="count"
+                aria-label="Number of occurrences"
+                class="w-16 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm py-1 px-2 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+              />
+              <span>occurrences</span>
+            }
+          </div>
+
+          <div class="flex items-center gap-3">
+            <button
+              type="button"
+              (click)="save()"
+              [disabled]="isSaving()"
+              class="inline-flex items-center px-3 py-1.5 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+            >
+              {{ recurrenceService.recurrence() ? 'Update repeat' : 'Repeat task' }}
+            </button>
+            @if (recurrenceService.recurrence()) {
+              <button type="button" (click)="stop()" class="text-sm text-red-600 dark:text-red-400 hover:underline">
+                Stop repeating
+              </button>
+            }
+          </div>
+        </div>
+      }
+    </div>
+  `,
+})
+export class TaskRecurrenceComponent implements OnInit, OnDestroy {
+  @Input() taskId!: string;
+  @Input() canEdit = false;
+
+  readonly recurrenceService = inject(RecurrenceService);
+
+  readonly frequencies = Object.values(RecurrenceFrequency);
+  readonly units = UNITS;
+  readonly weekdays = WEEKDAYS;
+  readonly weekly = RecurrenceFrequency.WEEKLY;
+  readonly isSaving = signal(false);
+
+  freq = RecurrenceFrequency.WEEKLY;
+  interval = 1;
+  byDay = new Set<string>();
+  endMode: EndMode = 'never';
+  until = '';
+  count = 10;
+
+  constructor() {
+    // Fill the form from the loaded rule
+    effect(() => {
+      const recurrence = this.recurrenceService.recurrence();
+      if (recurrence) {
+        this.readRule(recurrence.rule);
+      }
+    });
+  }
+
+  ngOnInit(): void {
+    this.recurrenceService.loadRecurrence(this.taskId);
+  }
+
+  ngOnDestroy(): void {
+    this.recurrenceService.clear();
+  }
+
+  toggleDay(code: string): void {
+    if (this.byDay.has(code)) {
+      this.byDay.delete(code);
+    } else {
+      this.byDay.add(code);
+    }
+  }
+
+  describe(): string {
+    const unit = UNITS[this.freq];
+    let text = this.interval === 1 ? `Every ${unit}` : `Every ${this.interval} ${unit}s`;
+    if (this.freq === RecurrenceFrequency.WEEKLY && this.byDay.size) {
+      text += ` on ${WEEKDAYS.filter((d) => this.byDay.has(d.code)).map((d) => d.label).join(', ')}`;
+    }
+    if (this.endMode === 'until' && this.until) {
+      text += ` until ${this.until}`;
+    }
+    if (this.endMode === 'count') {
+      text += `, ${this.count} times`;
+    }
+    return text;
+  }
+
+  save(): void {
+    this.isSaving.set(true);
+    this.recurrenceService
+      .setRecurrence(this.taskId, { rule: this.buildRule() })
+      .subscribe({
+        next: () => this.isSaving.set(false),
+        error: () => this.isSaving.set(false), // Surfaced through recurrenceService.error()
+      });
+  }
+
+  stop(): void {
+    if (confirm('Stop repeating? Tasks already created are kept.')) {
+      this.recurrenceService.stopRecurrence(this.taskId).subscribe({
+        error: () => undefined, // Surfaced through recurrenceService.error()
+      });
+    }
+  }
+
+  private buildRule(): string {
+    const parts = [`FREQ=${this.freq}`, `INTERVAL=${Math.max(1, Math.floor(this.interval || 1))}`];
+    if (this.freq === RecurrenceFrequency.WEEKLY && this.byDay.size) {
+      parts.push(`BYDAY=${WEEKDAYS.filter((d) => this.byDay.has(d.code)).map((d) => d.code).join(',')}`);
+    }
+    if (this.endMode === 'until' && this.until) {
+      parts.push(`UNTIL=${this.until.replace(/-/g, '')}`);
+    }
+    if (this.endMode === 'count') {
+      parts.push(`COUNT=${Math.max(1, Math.floor(this.count || 1))}`);
+    }
+    return parts.join(';');
+  }
+
+  private readRule(rule: string): void {
+    const parts = new Map(
+      rule.split(';').map((part) => part.split('=') as [string, string])
+    );
+    this.freq = (parts.get('FREQ') as RecurrenceFrequency) ?? RecurrenceFrequency.WEEKLY;
+    this.interval = Number(parts.get('INTERVAL') ?? 1);
+    this.byDay = new Set(parts.get('BYDAY')?.split(',') ?? []);
+
+    const until = parts.get('UNTIL');
+    const count = parts.get('COUNT');
+    if (until) {
+      this.endMode = 'until';
+      this.until = `${until.slice(0, 4)}-${until.slice(4, 6)}-${until.slice(6, 8)}`;
+    } else if (count) {
+      this.endMode = 'count';
+      this.count = Number(count);
+    } else {
+      this.endMode = 'never';
+    }
+  }
+}
@@ -0,0 +1,105 @@
+import { Component, Input, OnInit, OnDestroy, computed, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { IUser } from '@task-manager/data/frontend';
+import { AuthService, TaskWatcherService } from '../../core/services';
+
+@Component({
+  selector: 'app-task-watchers',
+  standalone: true,
+  imports: [CommonModule],
+  template: `
+    <div>
+      <div class="flex items-center justify-between">
+        <span class="block text-sm font-medium text-gray-700 dark:text-gray-300">
+          Watchers ({{ taskWatcherService.watchers().length }})
+        </span>
+        @if (isWatching()) {
+          <button
+            type="button"
+            (click)="unwatch()"
+            class="text-sm text-gray-600 dark:text-gray-400 hover:underline"
+          >
+            Stop watching
+          </button>
+        } @else {
+          <button
+            type="button"
+            (click)="watch()"
+            class="text-sm font-medium text-indigo-600 dark:text-indigo-400 hover:underline"
+          >
+            Watch
+          </button>
+        }
+      </div>
+
+      @if (taskWatcherService.error()) {
+        <p class="mt-1 text-sm text-red-600 dark:text-red-400">{{ taskWatcherService.error() }}</p>
+      }
+
+      @if (taskWatcherService.isLoading()) {
+        <p class="mt-2 text-sm text-gray-500 dark:text-gray-400">Loading watchers...</p>
+      }
+
+      <div class="mt-2 flex flex-wrap gap-1">
+        @for (watcher of taskWatcherService.watchers(); track watcher.userId) {
+          <span
+            class="inline-flex items-center justify-center w-7 h-7 rounded-full bg-indigo-100 dark:bg-indigo-900 text-xs font-medium text-indigo-700 dark:text-indigo-300"
+            [title]="getUserName(watcher.user)"
+          >
+            {{ getInitials(watcher.user) }}
+          </span>
+        } @empty {
+          @if (!taskWatcherService.isLoading()) {
+            <span class="text-sm text-gray-500 dark:text-gray-400">Nobody is watching this task</span>
+          }
+        }
+      </div>
+    </div>
+  `,
+})
+export class TaskWatchersComponent implements OnInit, OnDestroy {
+  @Input() taskId!: string;
+
+  readonly taskWatcherService = inject(TaskWatcherService);
+  private readonly authService = inject(AuthService);
+
+  readonly isWatching = computed(() => {
+    const userId = this.authService.currentUser()?.id;
+    return this.taskWatcherService.watchers().some((w) => w.userId === userId);
+  });
+
+  ngOnInit(): void {
+    this.taskWatcherService.loadWatchers(this.taskId);
+  }
+
+  ngOnDestroy(): void {
+    this.taskWatcherService.clear();
+  }
+
+  watch(): void {
+    this.taskWatcherService.watch(this.taskId).subscribe({
+      error: () => undefined, // Surfaced through taskWatcherService.error()
+    });
+  }
+
+  unwatch(): void {
+    this.taskWatcherService.unwatch(this.taskId).subscribe({
+      error: () => undefined, // Surfaced through taskWatcherService.error()
+    });
+  }
+
+  getUserName(user: IUser | undefined): string {
+    if (!user) return 'Unknown user';
+    const name = [user.firstName, user.lastName].filter(Boolean).join(' ');
+    return name || user.email;
+  }
+
+  getInitials(user: IUser | undefined): string {
+    if (!user) return '?';
+    const initials = [user.firstName, user.lastName]
+      .filter(Boolean)
+      .map((part) => (part as string)[0])
+      .join('');
+    return (initials || user.email[0]).toUpperCase();
+  }
+}
@@ -0,0 +1,225 @@
+import { Component, Input, OnInit, OnDestroy, computed, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { IWorklog, IUser } from '@task-manager/data/frontend';
+import {
+  AuthService,
+  PermissionsService,
+  WorklogService,
+  formatDuration,
+} from '../../core/services';
+
+@Component({
+  selector: 'app-task-worklogs',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  template: `
+    <div>
+      <div class="flex items-center justify-between">
+        <span class="block text-sm font-medium text-gray-700 dark:text-gray-300">
+          Time logged ({{ formatDuration(totalSeconds()) }})
+        </span>
+        @if (permissionsService.canLogTime()) {
+          <div class="flex items-center gap-3">
+            @if (isRunningHere()) {
+              <button
+                type="button"
+                (click)="stopTimer()"
+                class="text-sm font-medium text-red-600 dark:text-red-400 hover:underline"
+              >
+                ■ Stop timer
+              </button>
+            } @else {
+              <button
+                type="button"
+                (click)="startTimer()"
+                class="text-sm font-medium text-indigo-600 dark:text-indigo-400 hover:underline"
+              >
+                ▶ Start timer
+              </button>
+            }
+            <button
+              type="button"
+              (click)="showForm.set(!showForm())"
+              class="text-sm text-gray-600 dark:text-gray-400 hover:underline"
+            >
+              {{ showForm() ? 'Cancel' : 'Log time' }}
+            </button>
+          </div>
+        }
+      </div>
+
+      @if (worklogService.error()) {
+        <p class="mt-1 text-sm text-red-600 dark:text-red-400">{{ worklogService.error() }}</p>
+      }
+
+      @if (showForm()) {
+        <div class="mt-2 flex flex-wrap items-center gap-2">
+          <input
+            type="date"
+            [(ngModel)]="date"
+            aria-label="Date"
+            class="border border-gray-300 dark:border-gray-600 rounded-md shadow-sm py-1 px-2 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+          />
+          <input
+            type="time"
+            [(ngModel)]="time"
+            aria-label="Start time"
+            class="border border-gray-300 dark:border-gray-600 rounded-md shadow-sm py-1 px-2 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+          />
+          <input
+            type="number"
+            min="1"
+            max="1440"
+            [(ngModel)]="minutes"
+            aria-label="Minutes"
+            class="w-20 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm py-1 px-2 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+          />
+          <span class="text-sm text-gray-600 dark:text-gray-400">min</span>
+          <input
+            type="text"
+            [(ngModel)]="note"
+            aria-label="Note"
+            maxlength="1000"
+            placeholder="Note (optional)"
+            class="flex-1 min-w-[8rem] border border-gray-300 dark:border-gray-600 rounded-md shadow-sm py-1 px-2 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+          />
+          <button
+            type="button"
+            (click)="logTime()"
+            class="inline-flex items-center px-3 py-1.5 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700"
+          >
+            Save
+          </button>
+        </div>
+      }
+
+      @if (worklogService.isLoading()) {
+        <p class="mt-2 text-sm text-gray-500 dark:text-gray-400">Loading worklogs...</p>
+      }
+
+      <ul class="mt-2 space-y-1">
+        @for (worklog of worklogService.worklogs(); track worklog.id) {
+          <li class="flex items-center gap-2 text-sm">
+            <span class="font-medium text-gray-900 dark:text-white">{{ getUserName(worklog.user) }}</span>
+            <span class="text-xs text-gray-500 dark:text-gray-400">{{ worklog.startedAt | date: 'MMM d, h:mm a' }}</span>
+            @if (worklog.endedAt) {
+              <span class="text-gray-700 dark:text-gray-300">{{ formatDuration(worklog.durationSeconds ?? 0) }}</span>
+            } @else {
+              <span class="text-xs font-medium text-red-600 dark:text-red-400">running</span>
+            }
+            @if (worklog.note) {
+              <span class="truncate text-gray-500 dark:text-gray-400" [title]="worklog.note">— {{ worklog.note }}</span>
+            }
+            @if (worklog.endedAt && (isOwner(worklog) || permissionsService.canManageWorklogs())) {
+              <button
+                type="button"
+                (click)="deleteWorklog(worklog)"
+                class="ml-auto text-xs text-red-600 dark:text-red-400 hover:underline"
+              >
+                Delete
+              </button>
+            }
+          </li>
+        } @empty {
+          @if (!worklogService.isLoading()) {
+            <li class="text-sm text-gray-500 dark:text-gray-400">No time logged yet</li>
+          }
+        }
+      </ul>
+    </div>
+  `,
+})
+export class TaskWorklogsComponent implements OnInit, OnDestroy {
+  @Input() taskId!: string;
+
+  readonly worklogService = inject(WorklogService);
+  readonly permissionsService = inject(PermissionsService);
+  private readonly authService = inject(AuthService);
+
+  readonly formatDuration = formatDuration;
+  readonly showForm = signal(false);
+
+  readonly totalSeconds = computed(() =>
+    this.worklogService
+      .worklogs()
+      .reduce((sum, worklog) => sum + (worklog.durationSeconds ?? 0), 0)
+  );
+
+  readonly isRunningHere = computed(
+    () => this.worklogService.runningTimer()?.taskId === this.taskId
+  );
+
+  // Manual entry form, defaulting to an hour ending now
+  date = '';
+  time = '';
+  minutes = 60;
+  note = '';
+
+  ngOnInit(): void {
+    this.worklogService.loadWorklogs(this.taskId);
+    this.resetForm();
+  }
+
+  ngOnDestroy(): void {
+    this.worklogService.clear();
+  }
+
+  startTimer(): void {
+    this.worklogService.startTimer(this.taskId).subscribe({
+      error: () => undefined, // Surfaced through worklogService.error()
+    });
+  }
+
+  stopTimer(): void {
+    this.worklogService.stopTimer().subscribe({
+      error: () => undefined, // Surfaced through worklogService.error()
+    });
+  }
+
+  logTime(): void {
+    const startedAt = new Date(`${this.date}T${this.time}`);
+    if (Number.isNaN(startedAt.getTime()) || !this.minutes) return;
+
+    this.worklogService
+      .logTime(this.taskId, {
+        startedAt: startedAt.toISOString(),
+        durationMinutes: Math.floor(this.minutes),
+        note: this.note.trim() || undefined,
+      })
+      .subscribe({
+        next: () => {
+          this.showForm.set(false);
+          this.resetForm();
+        },
+        error: () => undefined, // Surfaced through worklogService.error()
+      });
+  }
+
+  deleteWorklog(worklog: IWorklog): void {
+    if (confirm('Delete this worklog?')) {
+      this.worklogService.deleteWorklog(worklog).subscribe({
+        error: () => undefined, // Surfaced through worklogService.error()
+      });
+    }
+  }
+
+  isOwner(worklog: IWorklog): boolean {
+    return worklog.userId === this.authService.currentUser()?.id;
+  }
+
+  getUserName(user: IUser | undefined): string {
+    if (!user) return 'Unknown user';
+    const name = [user.firstName, user.lastName].filter(Boolean).join(' ');
+    return name || user.email;
+  }
+
+  private resetForm(): void {
+    const start = new Date(Date.now() - 60 * 60 * 1000);
+    const pad = (value: number) => String(value).padStart(2, '0');
+    this.date = `${start.getFullYear()}-${pad(start.getMonth() + 1)}-${pad(start.getDate())}`;
+    this.time = `${pad(start.getHours())}:${pad(start.getMinutes())}`;
+    this.minutes = 60;
+    this.note = '';
+  }
+}
@@ -1,4 +1,13 @@
-import { Component, inject, OnInit, OnDestroy, signal, computed } from '@angular/core';
+import {
+  Component,
+  inject,
+  OnInit,
+  OnDestroy,
+  signal,
+  computed,
+  effect,
+  untracked,
+} from '@angular/core';
 import { CommonModule } from '@angular/common';
 import {
   FormBuilder,
@@ -7,26 +16,85 @@ import {
   Validators,
   FormsModule,
 } from '@angular/forms';
+import { ActivatedRoute, Router, ParamMap, Params } from '@angular/router';
 import { Subject, takeUntil } from 'rxjs';
 import {
+  CdkDrag,
   CdkDragDrop,
+  CdkDropList,
   DragDropModule,
   moveItemInArray,
   transferArrayItem,
 } from '@angular/cdk/drag-drop';
+import { TaskCommentsComponent } from './task-comments.component';
+import { TaskAttachmentsComponent } from './task-attachments.component';
+import { TaskLinksComponent } from './task-links.component';
+import { TaskRecurrenceComponent } from './task-recurrence.component';
+import { TaskWorklogsComponent } from './task-worklogs.component';
+import { TaskWatchersComponent } from './task-watchers.component';
+import { TaskHistoryComponent } from './task-history.component';
 import {
   AuthService,
   TaskService,
   OrganizationService,
+  LabelService,
+  WorkflowService,
+  CustomFieldService,
   ShortcutService,
+  SprintService,
+  ProjectService,
+  SavedViewService,
+  formatDuration,
+  formatEstimate,
+  toSortField,
+  fromSortField,
+} from '../../core/services';
+import type {
+  BoardColumn,
+  BoardFilters,
+  BulkTaskDto,
+  CreateTaskDto,
+  SortBy,
 } from '../../core/services';
-import type { CreateTaskDto, SortBy } from '../../core/services';
-import { TaskStatus, TaskPriority, TaskCategory, ITask, OrganizationRole } from '@task-manager/data/frontend';
+import {
+  TaskStatus,
+  TaskPriority,
+  ITask,
+  ITaskChecklistItem,
+  ILabel,
+  IWorkflowStatus,
+  ICustomField,
+  CustomFieldType,
+  CustomFieldValue,
+  OrganizationRole,
+  EstimateUnit,
+  BulkTaskAction,
+  ISavedView,
+  SavedViewVisibility,
+} from '@task-manager/data/frontend';
+
+const SORT_OPTIONS: SortBy[] = ['date', 'due', 'priority', 'alpha', 'manual'];
+
+// Query parameters that hold the board filters, so that a filtered board
+// can be bookmarked or shared
+const FILTER_PARAMS = ['q', 'labels', 'sort', 'sprint'];
 
 @Component({
   selector: 'app-tasks',
   standalone: true,
-  imports: [CommonModule, ReactiveFormsModule, FormsModule, DragDropModule],
+  imports: [
+    CommonModule,
+    ReactiveFormsModule,
+    FormsModule,
+    DragDropModule,
+    TaskCommentsComponent,
+    TaskAttachmentsComponent,
+    TaskLinksComponent,
+    TaskRecurrenceComponent,
+    TaskWorklogsComponent,
+    TaskWatchersComponent,
+    TaskHistoryComponent,
+  ],
   templateUrl: './tasks.component.html',
   styleUrls: ['./tasks.component.scss'],
 })
@@ -34,16 +102,40 @@ export class TasksComponent implements OnInit, OnDestroy {
   readonly authService = inject(AuthService);
   readonly taskService = inject(TaskService);
   readonly organizationService = inject(OrganizationService);
+  readonly labelService = inject(LabelService);
+  readonly workflowService = inject(WorkflowService);
+  readonly customFieldService = inject(CustomFieldService);
   readonly shortcutService = inject(ShortcutService);
+  readonly sprintService = inject(SprintService);
+  readonly projectService = inject(ProjectService);
+  readonly savedViewService = inject(SavedViewService);
+  private readonly route = inject(ActivatedRoute);
+  private readonly router = inject(Router);
   private readonly fb = inject(FormBuilder);
   private readonly destroy$ = new Subject<void>();
 
   readonly TaskStatus = TaskStatus;
   readonly TaskPriority = TaskPriority;
-  readonly TaskCategory = TaskCategory;
+  readonly CustomFieldType = CustomFieldType;
+  readonly EstimateUnit = EstimateUnit;
+  readonly SavedViewVisibility = SavedViewVisibility;
+  readonly formatDuration = formatDuration;
+  readonly formatEstimate = formatEstimate;
 
   showCreateModal = signal(false);
   editingTask = signal<ITask | null>(null);
+  modalTab = signal<'details' | 'history'>('details');
+
+  // Cards selected for a bulk action, and the card Shift-click extends from
+  readonly selectedTaskIds = signal<ReadonlySet<string>>(new Set());
+  private selectionAnchorId: string | null = null;
+  showLabelFilter = signal(false);
+
+  // Saved views menu and the form that saves the current filters
+  showViewsMenu = signal(false);
+  showSaveView = signal(false);
+  viewName = '';
+  shareView = false;
 
   // Search input binding (two-way with signal)
   searchInput = '';
@@ -62,62 +154,223 @@ export class TasksComponent implements OnInit, OnDestroy {
 
   readonly canEditTasks = computed(() => this.canCreateTasks());
 
+  // Project the board is scoped to (?project=<id>)
+  readonly currentProject = computed(() => {
+    const projectId = this.taskService.projectFilter();
+    return projectId ? this.projectService.getProject(projectId) ?? null : null;
+  });
+
+  // Archived projects take no new tasks, but stay selectable for the
+  // task that is already in one
+  readonly projectOptions = computed(() => {
+    const currentId = this.editingTask()?.projectId;
+    return this.projectService
+      .projects()
+      .filter((p) => !p.archived || p.id === currentId);
+  });
+
+  // Checklist of the task being edited, kept live from the task list
+  readonly checklistItems = computed<ITaskChecklistItem[]>(() => {
+    const id = this.editingTask()?.id;
+    if (!id) return [];
+    return this.taskService.tasks().find((t) => t.id === id)?.checklistItems ?? [];
+  });
+
+  readonly checklistDoneCount = computed(
+    () => this.checklistItems().filter((i) => i.isDone).length
+  );
+
+  // A task cannot become a subtask of itself or of one of its own subtasks
+  readonly parentOptions = computed(() => {
+    const editingId = this.editingTask()?.id;
+    const tasks = this.taskService.tasks();
+    if (!editingId) return tasks;
+
+    const byId = new Map(tasks.map((t) => [t.id, t]));
+    return tasks.filter((t) => {
+      for (let cur: ITask | undefined = t; cur; cur = cur.parentId ? byId.get(cur.parentId) : undefined) {
+        if (cur.id === editingId) return false;
+      }
+      return true;
+    });
+  });
+
+  // Columns of the board; renaming or recolouring a status does not
+  // reload it
+  private readonly boardStatusIds = computed(
+    () => this.workflowService.statuses().map((s) => s.id),
+    { equal: (a, b) => a.length === b.length && a.every((id, i) => id === b[i]) }
+  );
+
+  // Statuses the open task may move to; all of them for a new task
+  readonly statusOptions = computed<IWorkflowStatus[]>(() => {
+    const statuses = this.workflowService.statuses();
+    const task = this.editingTask();
+    if (!task) return statuses;
+
+    const current = this.workflowService.statusFor(task);
+    return statuses.filter((s) => this.workflowService.canTransition(current, s));
+  });
+
   taskForm: FormGroup = this.fb.group({
     title: ['', [Validators.required]],
     description: [''],
-    status: [TaskStatus.TODO],
+    statusId: [''],
     priority: [TaskPriority.MEDIUM],
-    category: [TaskCategory.GENERAL],
+    estimate: [null as number | null, [Validators.min(0), Validators.max(1000)]],
+    labelIds: [[] as string[]],
+    assigneeIds: [[] as string[]],
+    startDate: [''],
+    dueDate: [''],
+    parentId: [''],
+    projectId: [''],
+    customFieldValues: [{} as Record<string, CustomFieldValue>],
   });
 
+  constructor() {
+    // Reload the board when its columns or its query change
+    effect(() => {
+      const statusIds = this.boardStatusIds();
+      const query = this.taskService.boardQuery();
+      untracked(() => this.taskService.loadBoard(statusIds, query));
+    });
+
+    // Mirror the filters into the URL; the typed search once it is applied
+    effect(() => {
+      const queryParams = { ...this.toFilterParams(this.taskService.boardQuery()), task: null };
+      untracked(() =>
+        this.router.navigate([], {
+          relativeTo: this.route,
+          queryParams,
+          queryParamsHandling: 'merge',
+          replaceUrl: true,
+        })
+      );
+    });
+  }
+
   ngOnInit(): void {
-    this.taskService.loadTasks();
+    // The sidebar links to a project's board with ?project=<id>, search
+    // results open a task with ?task=<id>. Links without filters keep
+    // the filters the board already has.
+    this.route.queryParamMap
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((params) => {
+        this.taskService.setProjectFilter(params.get('project'));
+        if (FILTER_PARAMS.some((name) => params.has(name))) {
+          const filters = this.fromFilterParams(params);
+          this.searchInput = filters.search;
+          this.taskService.applyFilters(filters);
+        }
+        const taskId = params.get('task');
+        if (taskId) {
+          this.openTaskById(taskId);
+        }
+      });
     
     // Ctrl/Cmd + N → Open New Task Modal
     this.shortcutService.newTask$
       .pipe(takeUntil(this.destroy$))
       .subscribe(() => {
         if (this.canCreateTasks() && !this.showCreateModal()) {
-          this.showCreateModal.set(true);
+          this.openCreateModal();
         }
       });
     
-    // Escape → Close Modal
+    // Escape → Close Modal, or else clear the selection
     this.shortcutService.escape$
       .pipe(takeUntil(this.destroy$))
       .subscribe(() => {
         if (this.showCreateModal()) {
           this.closeModal();
+        } else {
+          this.clearSelection();
         }
       });
   }
 
   ngOnDestroy(): void {
+    this.taskService.setProjectFilter(null);
     this.destroy$.next();
     this.destroy$.complete();
   }
 
+  /**
+   * Open the modal for a new task, starting in the first not-started status
+   */
+  openCreateModal(): void {
+    const statuses = this.workflowService.statuses();
+    const initial = statuses.find((s) => s.category === TaskStatus.TODO) ?? statuses[0];
+    this.taskForm.patchValue({
+      statusId: initial?.id ?? '',
+      projectId: this.currentProject()?.archived ? '' : this.currentProject()?.id ?? '',
+      assigneeIds: [this.authService.currentUser()?.id].filter(Boolean),
+    });
+    this.loadMembers();
+    this.showCreateModal.set(true);
+  }
+
+  /**
+   * Open a task in the modal. Viewers get a read-only form but can
+   * still tick checklist items and take part in the comment thread.
+   */
   editTask(task: ITask): void {
-    if (!this.canEditTasks()) return;
-    
     this.editingTask.set(task);
+    this.taskService.loadSubtasks(task.id);
+    if (!this.canEditTasks()) {
+      this.taskForm.disable();
+    }
     this.taskForm.patchValue({
       title: task.title,
       description: task.description || '',
-      status: task.status,
+      statusId: this.workflowService.statusFor(task)?.id ?? '',
       priority: task.priority,
-      category: task.category || TaskCategory.GENERAL,
+      estimate: task.estimate ?? null,
+      labelIds: task.labels?.map((label) => label.id) ?? [],
+      assigneeIds: task.assignees?.map((user) => user.id) ?? [],
+      startDate: this.toDateInput(task.startDate),
+      dueDate: this.toDateInput(task.dueDate),
+      parentId: task.parentId || '',
+      projectId: task.projectId || '',
+      customFieldValues: { ...(task.customFieldValues ?? {}) },
     });
+    this.loadMembers();
     this.showCreateModal.set(true);
   }
 
+  /**
+   * Open a task that may not be loaded on the board. The parameter is
+   * dropped again so that the same task can be opened twice in a row.
+   */
+  private openTaskById(taskId: string): void {
+    this.router.navigate([], {
+      relativeTo: this.route,
+      queryParams: { task: null },
+      queryParamsHandling: 'merge',
+      replaceUrl: true,
+    });
+    this.taskService.getTask(taskId).subscribe({
+      next: (task) => this.editTask(task),
+      error: () => undefined,
+    });
+  }
+
   closeModal(): void {
     this.showCreateModal.set(false);
     this.editingTask.set(null);
+    this.modalTab.set('details');
+    this.taskForm.enable();
     this.taskForm.reset({
-      status: TaskStatus.TODO,
+      statusId: '',
       priority: TaskPriority.MEDIUM,
-      category: TaskCategory.GENERAL,
+      estimate: null,
+      labelIds: [],
+      assigneeIds: [],
+      startDate: '',
+      dueDate: '',
+      parentId: '',
+      projectId: '',
+      customFieldValues: {},
     });
   }
 
@@ -129,7 +382,15 @@ export class TasksComponent implements OnInit, OnDestroy {
 
     if (currentTask) {
       this.taskService
-        .updateTask(currentTask.id, formValue)
+        .updateTask(currentTask.id, {
+          ...formValue,
+          statusId: formValue.statusId || undefined,
+          startDate: formValue.startDate || null,
+          dueDate: formValue.dueDate || null,
+          parentId: formValue.parentId || null,
+          projectId: formValue.projectId || null,
+          customFieldValues: this.changedCustomFieldValues(currentTask),
+        })
         .subscribe({
           next: () => this.closeModal(),
         });
@@ -137,9 +398,16 @@ export class TasksComponent implements OnInit, OnDestroy {
       const dto: CreateTaskDto = {
         title: formValue.title,
         description: formValue.description || undefined,
-        status: formValue.status,
+        statusId: formValue.statusId || undefined,
         priority: formValue.priority,
-        category: formValue.category,
+        estimate: formValue.estimate ?? undefined,
+        labelIds: formValue.labelIds,
+        assigneeIds: formValue.assigneeIds,
+        startDate: formValue.startDate || undefined,
+        dueDate: formValue.dueDate || undefined,
+        parentId: formValue.parentId || undefined,
+        projectId: formValue.projectId || undefined,
+        customFieldValues: formValue.customFieldValues,
       };
 
       this.taskService.createTask(dto).subscribe({
@@ -174,43 +442,214 @@ export class TasksComponent implements OnInit, OnDestroy {
     }
   }
 
-  getCategoryClass(category: TaskCategory): string {
-    switch (category) {
-      case TaskCategory.WORK:
-        return 'bg-indigo-100 text-indigo-800 dark:bg-indigo-900 dark:text-indigo-300';
-      case TaskCategory.PERSONAL:
-        return 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300';
-      case TaskCategory.URGENT:
-        return 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300';
-      case TaskCategory.GENERAL:
-      default:
-        return 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300';
+  /**
+   * Badge colours derived from the label's hex colour
+   */
+  getLabelStyle(label: ILabel): Record<string, string> {
+    return {
+      'background-color': `${label.color}26`,
+      color: label.color,
+    };
+  }
+
+  isFormLabelSelected(labelId: string): boolean {
+    const labelIds: string[] = this.taskForm.getRawValue().labelIds ?? [];
+    return labelIds.includes(labelId);
+  }
+
+  isFormAssigneeSelected(userId: string): boolean {
+    const assigneeIds: string[] = this.taskForm.getRawValue().assigneeIds ?? [];
+    return assigneeIds.includes(userId);
+  }
+
+  toggleFormAssignee(userId: string): void {
+    const assigneeIds: string[] = this.taskForm.getRawValue().assigneeIds ?? [];
+    this.taskForm.patchValue({
+      assigneeIds: assigneeIds.includes(userId)
+        ? assigneeIds.filter((id) => id !== userId)
+        : [...assigneeIds, userId],
+    });
+  }
+
+  getUserName(user: { email: string; firstName?: string; lastName?: string }): string {
+    const name = [user.firstName, user.lastName].filter(Boolean).join(' ');
+    return name || user.email;
+  }
+
+  getInitials(user: { email: string; firstName?: string; lastName?: string }): string {
+    const initials = [user.firstName, user.lastName]
+      .filter(Boolean)
+      .map((part) => (part as string)[0])
+      .join('');
+    return (initials || user.email[0]).toUpperCase();
+  }
+
+  toggleFormLabel(labelId: string): void {
+    const labelIds: string[] = this.taskForm.getRawValue().labelIds ?? [];
+    this.taskForm.patchValue({
+      labelIds: labelIds.includes(labelId)
+        ? labelIds.filter((id) => id !== labelId)
+        : [...labelIds, labelId],
+    });
+  }
+
+  getCustomFieldValue(fieldId: string): CustomFieldValue | undefined {
+    return this.taskForm.getRawValue().customFieldValues?.[fieldId];
+  }
+
+  /**
+   * Store a custom field input; an empty input clears the value
+   */
+  setCustomFieldValue(field: ICustomField, raw: string): void {
+    const values = { ...this.taskForm.getRawValue().customFieldValues };
+    if (raw === '') {
+      delete values[field.id];
+    } else {
+      values[field.id] = field.type === CustomFieldType.NUMBER ? Number(raw) : raw;
     }
+    this.taskForm.patchValue({ customFieldValues: values });
   }
 
-  getCategoryIcon(category: TaskCategory): string {
-    switch (category) {
-      case TaskCategory.WORK:
-        return '💼';
-      case TaskCategory.PERSONAL:
-        return '🏠';
-      case TaskCategory.URGENT:
-        return '🔥';
-      case TaskCategory.GENERAL:
-      default:
-        return '📋';
+  isCustomOptionSelected(fieldId: string, option: string): boolean {
+    const value = this.getCustomFieldValue(fieldId);
+    return Array.isArray(value) && value.includes(option);
+  }
+
+  toggleCustomOption(field: ICustomField, option: string): void {
+    const values = { ...this.taskForm.getRawValue().customFieldValues };
+    const current = values[field.id];
+    const selected: string[] = Array.isArray(current) ? current : [];
+    const next = selected.includes(option)
+      ? selected.filter((o) => o !== option)
+      : [...selected, option];
+
+    if (next.length) {
+      values[field.id] = next;
+    } else {
+      delete values[field.id];
+    }
+    this.taskForm.patchValue({ customFieldValues: values });
+  }
+
+  /**
+   * Only send the custom fields that changed, with null for cleared ones,
+   * so untouched required fields on older tasks don't block the update
+   */
+  private changedCustomFieldValues(
+    task: ITask
+  ): Record<string, CustomFieldValue | null> {
+    const before = task.customFieldValues ?? {};
+    const after: Record<string, CustomFieldValue> =
+      this.taskForm.getRawValue().customFieldValues ?? {};
+    const changed: Record<string, CustomFieldValue | null> = {};
+
+    for (const fieldId of new Set([...Object.keys(before), ...Object.keys(after)])) {
+      if (JSON.stringify(before[fieldId]) !== JSON.stringify(after[fieldId])) {
+        changed[fieldId] = after[fieldId] ?? null;
+      }
+    }
+
+    return changed;
+  }
+
+  /**
+   * Assignees and user fields pick from the organization's members
+   */
+  private loadMembers(): void {
+    const orgId = this.organizationService.currentOrg()?.id;
+    if (orgId) {
+      this.organizationService.getMembers(orgId).subscribe();
     }
   }
 
+  /**
+   * Overdue = has a due date in the past and is not done yet
+   */
+  isOverdue(task: ITask): boolean {
+    return (
+      !!task.dueDate &&
+      task.status !== TaskStatus.DONE &&
+      new Date(task.dueDate).getTime() < Date.now()
+    );
+  }
+
+  getDueDateClass(task: ITask): string {
+    if (this.isOverdue(task)) {
+      return 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300';
+    }
+    if (task.dueDate && task.status !== TaskStatus.DONE) {
+      const msUntilDue = new Date(task.dueDate).getTime() - Date.now();
+      // Due within the next 2 days
+      if (msUntilDue < 2 * 24 * 60 * 60 * 1000) {
+        return 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300';
+      }
+    }
+    return 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300';
+  }
+
+  getParentTitle(task: ITask): string {
+    const parent = this.taskService.tasks().find((t) => t.id === task.parentId);
+    return parent?.title ?? 'Parent task';
+  }
+
+  /**
+   * Done/total counts for a task's subtasks, or null when it has none
+   */
+  getSubtaskProgress(task: ITask): { done: number; total: number } | null {
+    const subtasks = this.taskService.getSubtasks(task.id);
+    if (subtasks.length === 0) return null;
+    return {
+      done: subtasks.filter((t) => t.status === TaskStatus.DONE).length,
+      total: subtasks.length,
+    };
+  }
+
+  getProgressClass(done: number, total: number): string {
+    return done === total
+      ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300'
+      : 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300';
+  }
+
+  addChecklistItem(input: HTMLInputElement): void {
+    const task = this.editingTask();
+    const title = input.value.trim();
+    if (!task || !title) return;
+
+    this.taskService.addChecklistItem(task.id, title).subscribe({
+      next: () => (input.value = ''),
+    });
+  }
+
+  toggleChecklistItem(item: ITaskChecklistItem): void {
+    this.taskService
+      .updateChecklistItem(item.taskId, item.id, { isDone: !item.isDone })
+      .subscribe();
+  }
+
+  removeChecklistItem(item: ITaskChecklistItem): void {
+    this.taskService.deleteChecklistItem(item.taskId, item.id).subscribe();
+  }
+
+  /**
+   * Convert an API date into the yyyy-MM-dd format used by date inputs
+   */
+  private toDateInput(value: Date | string | null | undefined): string {
+    return value ? new Date(value).toISOString().slice(0, 10) : '';
+  }
+
   // Search handler
   onSearchChange(query: string): void {
     this.taskService.setSearchQuery(query);
   }
 
-  // Category filter handler
-  onCategoryChange(event: Event): void {
-    const value = (event.target as HTMLSelectElement).value;
-    this.taskService.setSelectedCategory(value ? value as TaskCategory : null);
+  // Label filter button text
+  getLabelFilterText(): string {
+    const selected = this.taskService.selectedLabelIds();
+    if (selected.length === 0) return 'All Labels';
+    if (selected.length === 1) {
+      return this.labelService.getLabel(selected[0])?.name ?? '1 label';
+    }
+    return `${selected.length} labels`;
   }
 
   // Sort handler
@@ -219,38 +658,288 @@ export class TasksComponent implements OnInit, OnDestroy {
     this.taskService.setSortBy(value);
   }
 
+  // Active sprint filter toggle
+  toggleSprintFilter(): void {
+    const active = this.sprintService.activeSprint();
+    this.taskService.setSprintFilter(
+      this.taskService.sprintFilter() || !active ? null : active.id
+    );
+  }
+
   // Clear all filters
   clearFilters(): void {
     this.searchInput = '';
     this.taskService.clearFilters();
   }
 
+  /**
+   * Show a saved view: its filters and project go into the URL, from
+   * where the board picks them up
+   */
+  applyView(view: ISavedView): void {
+    this.showViewsMenu.set(false);
+    this.router.navigate([], {
+      relativeTo: this.route,
+      queryParams: {
+        project: view.filters.projectId ?? null,
+        ...this.toFilterParams({
+          search: view.filters.search ?? '',
+          labelIds: view.filters.labelIds ?? [],
+          sortBy: fromSortField(view.sortBy),
+          sprintId: view.filters.sprintId ?? null,
+        }),
+      },
+    });
+  }
+
+  openSaveView(): void {
+    this.viewName = '';
+    this.shareView = false;
+    this.savedViewService.clearError();
+    this.showSaveView.set(true);
+  }
+
+  /**
+   * Save the board's current filters, sort and project as a view
+   */
+  saveView(): void {
+    const name = this.viewName.trim();
+    if (!name) return;
+
+    const query = this.taskService.boardQuery();
+    this.savedViewService
+      .createView({
+        name,
+        filters: {
+          search: query.search || undefined,
+          labelIds: query.labelIds.length ? query.labelIds : undefined,
+          sprintId: query.sprintId ?? undefined,
+          projectId: query.projectId ?? undefined,
+        },
+        sortBy: toSortField(query.sortBy),
+        visibility: this.shareView
+          ? SavedViewVisibility.ORGANIZATION
+          : SavedViewVisibility.PRIVATE,
+      })
+      .subscribe({
+        next: () => this.showSaveView.set(false),
+        error: () => undefined,
+      });
+  }
+
+  toggleViewSharing(view: ISavedView): void {
+    this.savedViewService
+      .updateView(view.id, {
+        visibility:
+          view.visibility === SavedViewVisibility.ORGANIZATION
+            ? SavedViewVisibility.PRIVATE
+            : SavedViewVisibility.ORGANIZATION,
+      })
+      .subscribe({ error: () => undefined });
+  }
+
+  deleteView(view: ISavedView): void {
+    if (confirm(`Delete the view ${view.name}?`)) {
+      this.savedViewService.deleteView(view.id).subscribe({ error: () => undefined });
+    }
+  }
+
+  // Admins may delete views other members shared
+  canDeleteView(view: ISavedView): boolean {
+    return view.ownerId === this.authService.currentUser()?.id || this.canCreateTasks();
+  }
+
+  private toFilterParams(filters: BoardFilters): Params {
+    return {
+      q: filters.search || null,
+      labels: filters.labelIds.length ? filters.labelIds.join(',') : null,
+      sort: filters.sortBy === 'date' ? null : filters.sortBy,
+      sprint: filters.sprintId,
+    };
+  }
+
+  private fromFilterParams(params: ParamMap): BoardFilters {
+    const sort = params.get('sort') as SortBy | null;
+    return {
+      search: params.get('q')?.trim() ?? '',
+      labelIds: params.get('labels')?.split(',').filter(Boolean) ?? [],
+      sortBy: sort && SORT_OPTIONS.includes(sort) ? sort : 'date',
+      sprintId: params.get('sprint'),
+    };
+  }
+
+  /**
+   * Fetch the next page of a column as its end scrolls into view
+   */
+  onColumnScroll(column: BoardColumn, event: Event): void {
+    const list = event.target as HTMLElement;
+    if (column.hasMore && list.scrollHeight - list.scrollTop - list.clientHeight < 200) {
+      this.taskService.loadMore(column.status.id);
+    }
+  }
+
+  isDoneStatus(status: IWorkflowStatus): boolean {
+    return status.category === TaskStatus.DONE;
+  }
+
+  /**
+   * Only let a card into columns its current status may transition to
+   */
+  readonly canEnterColumn = (
+    drag: CdkDrag<ITask>,
+    drop: CdkDropList<BoardColumn>
+  ): boolean =>
+    this.workflowService.canTransition(
+      this.workflowService.statusFor(drag.data),
+      drop.data.status
+    );
+
+  /**
+   * Ctrl/Cmd-click adds a card to the selection or takes it out,
+   * Shift-click selects the cards between the last clicked one and this
+   * one in the same column. A plain click opens the task.
+   */
+  onTaskClick(task: ITask, columnTasks: ITask[], event: MouseEvent): void {
+    if (this.canEditTasks() && (event.ctrlKey || event.metaKey)) {
+      this.toggleSelected(task);
+    } else if (this.canEditTasks() && event.shiftKey) {
+      this.selectRange(task, columnTasks);
+    } else {
+      this.editTask(task);
+    }
+  }
+
+  isSelected(task: ITask): boolean {
+    return this.selectedTaskIds().has(task.id);
+  }
+
+  clearSelection(): void {
+    this.selectedTaskIds.set(new Set());
+    this.selectionAnchorId = null;
+  }
+
+  /**
+   * Apply a change to all selected tasks. Tasks the server could not
+   * change stay selected, so the action can be retried on them.
+   */
+  bulkUpdate(changes: Omit<BulkTaskDto, 'taskIds' | 'action'>): void {
+    this.runBulk({ taskIds: [...this.selectedTaskIds()], action: BulkTaskAction.UPDATE, ...changes });
+  }
+
+  bulkDelete(): void {
+    const count = this.selectedTaskIds().size;
+    if (confirm(`Delete ${count} ${count === 1 ? 'task' : 'tasks'} and their subtasks?`)) {
+      this.runBulk({ taskIds: [...this.selectedTaskIds()], action: BulkTaskAction.DELETE });
+    }
+  }
+
+  private runBulk(dto: BulkTaskDto): void {
+    if (dto.taskIds.length === 0) return;
+
+    this.taskService.bulkUpdate(dto).subscribe({
+      next: (results) => {
+        this.selectedTaskIds.set(
+          new Set(results.filter((result) => !result.success).map((result) => result.taskId))
+        );
+      },
+      error: () => undefined, // Surfaced through taskService.error()
+    });
+  }
+
+  private toggleSelected(task: ITask): void {
+    const ids = new Set(this.selectedTaskIds());
+    if (ids.has(task.id)) {
+      ids.delete(task.id);
+    } else {
+      ids.add(task.id);
+    }
+    if (this.selectedTaskIds().size === 0) {
+      // The bulk bar offers the members as assignees
+      this.loadMembers();
+    }
+    this.selectedTaskIds.set(ids);
+    this.selectionAnchorId = task.id;
+  }
+
+  private selectRange(task: ITask, columnTasks: ITask[]): void {
+    const from = columnTasks.findIndex((t) => t.id === this.selectionAnchorId);
+    const to = columnTasks.indexOf(task);
+    if (from === -1) {
+      this.toggleSelected(task);
+      return;
+    }
+
+    const ids = new Set(this.selectedTaskIds());
+    for (const t of columnTasks.slice(Math.min(from, to), Math.max(from, to) + 1)) {
+      ids.add(t.id);
+    }
+    this.selectedTaskIds.set(ids);
+  }
+
   /**
    * Drag-and-Drop Handler
    * Handles moving tasks between Kanban columns (status change)
    */
-  onDrop(event: CdkDragDrop<ITask[]>, newStatus: TaskStatus): void {
+  onDrop(event: CdkDragDrop<BoardColumn>): void {
     if (!this.canEditTasks()) return;
 
     const task = event.item.data as ITask;
-    
-    // Same container - just reordering within column (no status change needed)
+
+    // Sorted manually, a card stays where it is dropped
+    if (this.taskService.sortBy() === 'manual') {
+      this.moveCard(event, task);
+      return;
+    }
+
+    // Same container - the column's sort decides the order
     if (event.previousContainer === event.container) {
-      // Optional: implement reordering within the same column
       return;
     }
 
     // Different container - status change
+    const newStatus = event.container.data.status;
     const previousTask = this.taskService.optimisticUpdateStatus(task.id, newStatus);
     
     if (!previousTask) return;
 
     // Make API call to persist the change
-    this.taskService.updateTask(task.id, { status: newStatus }).subscribe({
+    this.taskService.updateTask(task.id, { statusId: newStatus.id }).subscribe({
       error: () => {
         // Rollback on failure
         this.taskService.rollbackTask(previousTask);
       },
     });
   }
+
+  /**
+   * Place a dropped card after the card above it, or before the first
+   * card of the column
+   */
+  private moveCard(event: CdkDragDrop<BoardColumn>, task: ITask): void {
+    const sameColumn = event.previousContainer === event.container;
+    if (sameColumn && event.previousIndex === event.currentIndex) return;
+
+    const status = event.container.data.status;
+    const others = event.container.data.tasks.filter((t) => t.id !== task.id);
+    const above = others[event.currentIndex - 1] ?? null;
+    const below = others[event.currentIndex] ?? null;
+
+    const previousTask = this.taskService.optimisticMove(
+      task.id,
+      status,
+      above ?? below,
+      above ? 'after' : 'before'
+    );
+    if (!previousTask) return;
+
+    const dto = above
+      ? { afterTaskId: above.id }
+      : below
+        ? { beforeTaskId: below.id }
+        : { statusId: status.id };
+
+    this.taskService.moveTask(task.id, dto).subscribe({
+      error: () => this.taskService.rollbackTask(previousTask),
+    });
+  }
 }
@@ -0,0 +1,157 @@
+import { Component, inject, signal, effect, computed } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { IOrganizationMember } from '@task-manager/data/frontend';
+import {
+  AuthService,
+  OrganizationService,
+  PermissionsService,
+  WorklogService,
+  formatDuration,
+} from '../../core/services';
+
+interface TimesheetRow {
+  taskId: string;
+  title: string;
+  dailySeconds: number[];
+  totalSeconds: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Local midnight of the Monday of the week containing `date`
+ */
+function startOfWeek(date: Date): Date {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  return start;
+}
+
+@Component({
+  selector: 'app-timesheet',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: './timesheet.component.html',
+  styleUrls: ['./timesheet.component.scss'],
+})
+export class TimesheetComponent {
+  readonly authService = inject(AuthService);
+  readonly organizationService = inject(OrganizationService);
+  readonly permissionsService = inject(PermissionsService);
+  readonly worklogService = inject(WorklogService);
+
+  readonly formatDuration = formatDuration;
+
+  readonly weekStart = signal(startOfWeek(new Date()));
+  readonly selectedUserId = signal<string | null>(null);
+  readonly members = signal<IOrganizationMember[]>([]);
+
+  readonly days = computed(() =>
+    Array.from({ length: 7 }, (_, i) => {
+      const day = new Date(this.weekStart());
+      day.setDate(day.getDate() + i);
+      return day;
+    })
+  );
+
+  readonly weekEnd = computed(() => this.days()[6]);
+
+  readonly isCurrentWeek = computed(
+    () => this.weekStart().getTime() === startOfWeek(new Date()).getTime()
+  );
+
+  // One row per task, with seconds per day of the week
+  readonly rows = computed<TimesheetRow[]>(() => {
+    const timesheet = this.worklogService.timesheet();
+    if (!timesheet) return [];
+
+    const from = new Date(timesheet.from).getTime();
+    const rows = new Map<string, TimesheetRow>();
+    for (const worklog of timesheet.worklogs) {
+      if (!worklog.durationSeconds) continue;
+
+      let row = rows.get(worklog.taskId);
+      if (!row) {
+        row = {
+          taskId: worklog.taskId,
+          title: worklog.task?.title ?? 'Deleted task',
+          dailySeconds: Array<number>(7).fill(0),
+          totalSeconds: 0,
+        };
+        rows.set(worklog.taskId, row);
+      }
+      const day = Math.floor((new Date(worklog.startedAt).getTime() - from) / DAY_MS);
+      row.dailySeconds[day] += worklog.durationSeconds;
+      row.totalSeconds += worklog.durationSeconds;
+    }
+
+    return [...rows.values()].sort((a, b) => a.title.localeCompare(b.title));
+  });
+
+  private lastOrgId: string | null = null;
+
+  constructor() {
+    // Reload when the organization changes
+    effect(() => {
+      const orgId = this.organizationService.currentOrg()?.id;
+      if (orgId && orgId !== this.lastOrgId) {
+        this.lastOrgId = orgId;
+        this.selectedUserId.set(null);
+        this.loadMembers(orgId);
+        this.loadTimesheet();
+      }
+    });
+  }
+
+  loadTimesheet(): void {
+    const organizationId = this.organizationService.currentOrg()?.id;
+    if (!organizationId) return;
+
+    this.worklogService.loadTimesheet({
+      organizationId,
+      from: this.weekStart(),
+      userId: this.selectedUserId() ?? undefined,
+    });
+  }
+
+  exportCsv(): void {
+    const organizationId = this.organizationService.currentOrg()?.id;
+    if (!organizationId) return;
+
+    this.worklogService.exportTimesheet({
+      organizationId,
+      from: this.weekStart(),
+      userId: this.selectedUserId() ?? undefined,
+    });
+  }
+
+  shiftWeek(weeks: number): void {
+    const start = new Date(this.weekStart());
+    start.setDate(start.getDate() + weeks * 7);
+    this.weekStart.set(start);
+    this.loadTimesheet();
+  }
+
+  goToCurrentWeek(): void {
+    this.weekStart.set(startOfWeek(new Date()));
+    this.loadTimesheet();
+  }
+
+  selectUser(userId: string): void {
+    this.selectedUserId.set(userId === this.authService.currentUser()?.id ? null : userId);
+    this.loadTimesheet();
+  }
+
+  getMemberName(member: IOrganizationMember): string {
+    const name = [member.firstName, member.lastName].filter(Boolean).join(' ');
+    return name || member.email;
+  }
+
+  private loadMembers(organizationId: string): void {
+    this.members.set([]);
+    this.organizationService
+      .getMembers(organizationId)
+      .subscribe((members) => this.members.set(members));
+  }
+}
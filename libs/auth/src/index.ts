@@ -7,6 +7,9 @@ export * from './lib/auth.controller';
 // Services
 export * from './lib/auth.service';
 export * from './lib/permissions.service';
+export * from './lib/mfa.service';
+export * from './lib/personal-access-tokens.service';
+export * from './lib/oidc.service';
 
 // Guards
 export * from './lib/guards';
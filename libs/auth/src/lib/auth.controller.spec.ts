@@ -21,6 +21,7 @@ describe('AuthController', () => {
 
   const mockLoginResponse = {
     access_token: 'mock-jwt-token',
+    refresh_token: 'mock-refresh-token',
     user: { id: 'user-uuid-1', email: 'test@example.com' },
   };
 
@@ -34,7 +35,7 @@ describe('AuthController', () => {
 
   beforeEach(async () => {
     const mockAuthService = {
-      login: jest.fn(),
+      authenticate: jest.fn(),
       register: jest.fn(),
       findUserById: jest.fn(),
       getUserOrganizations: jest.fn(),
@@ -70,12 +71,15 @@ describe('AuthController', () => {
         user: { id: 'user-uuid-1', email: 'test@example.com' },
       } as any;
 
-      authService.login.mockResolvedValue(mockLoginResponse);
+      authService.authenticate.mockResolvedValue(mockLoginResponse);
 
-      const result = await controller.login(mockRequest);
+      const result = await controller.login(mockRequest, '203.0.113.7', 'Mozilla/5.0');
 
       expect(result).toEqual(mockLoginResponse);
-      expect(authService.login).toHaveBeenCalledWith(mockRequest.user);
+      expect(authService.authenticate).toHaveBeenCalledWith(mockRequest.user, {
+        userAgent: 'Mozilla/5.0',
+        ipAddress: '203.0.113.7',
+      });
     });
   });
 
@@ -90,10 +94,11 @@ describe('AuthController', () => {
 
       authService.register.mockResolvedValue({
         access_token: 'new-jwt-token',
+        refresh_token: 'new-refresh-token',
         user: { id: 'new-user-id', email: 'new@example.com' },
       });
 
-      const result = await controller.register(registerDto);
+      const result = await controller.register(registerDto, '203.0.113.7', 'Mozilla/5.0');
 
       expect(result.access_token).toBeDefined();
       expect(result.user.email).toBe('new@example.com');
@@ -101,7 +106,8 @@ describe('AuthController', () => {
         registerDto.email,
         registerDto.password,
         registerDto.firstName,
-        registerDto.lastName
+        registerDto.lastName,
+        { userAgent: 'Mozilla/5.0', ipAddress: '203.0.113.7' }
       );
     });
   });
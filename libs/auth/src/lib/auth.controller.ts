@@ -4,45 +4,226 @@ import {
   Body,
   UseGuards,
   Request,
+  Req,
+  Res,
   Get,
+  Delete,
   Param,
+  ParseUUIDPipe,
+  Ip,
+  Headers,
   HttpCode,
   HttpStatus,
 } from '@nestjs/common';
+import type { Request as ExpressRequest, Response } from 'express';
 import { AuthService, LoginResponse } from './auth.service';
 import { PermissionsService } from './permissions.service';
+import { MfaService } from './mfa.service';
+import { PersonalAccessTokensService } from './personal-access-tokens.service';
+import { OidcService, OIDC_FLOW_COOKIE } from './oidc.service';
 import { LocalAuthGuard } from './guards/local-auth.guard';
 import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import { OidcAuthGuard } from './guards/oidc-auth.guard';
 import { OrgRolesGuard, OrgRoles } from './guards/org-roles.guard';
-import { OrganizationRole } from '@task-manager/data';
+import {
+  OrganizationRole,
+  AuthMethod,
+  IUserSession,
+  ILoginEvent,
+  IMfaChallenge,
+  IMfaSetup,
+  IMfaStatus,
+  IPersonalAccessToken,
+  ICreatedPersonalAccessToken,
+  ISsoConfig,
+} from '@task-manager/data';
 import { LoginDto } from './dto/login.dto';
 import { RegisterDto } from './dto/register.dto';
 import { ChangePasswordDto } from './dto/change-password.dto';
 import { ForgotPasswordDto } from './dto/forgot-password.dto';
 import { ResetPasswordDto } from './dto/reset-password.dto';
+import { RefreshTokenDto } from './dto/refresh-token.dto';
+import { MfaCodeDto, VerifyMfaDto } from './dto/mfa.dto';
+import { CreatePersonalAccessTokenDto } from './dto/personal-access-token.dto';
 
 interface AuthenticatedRequest extends Request {
-  user: { id: string; email: string };
+  user: { id: string; email: string; sessionId: string; authMethod: AuthMethod };
   organizationId?: string;
   userOrgRole?: OrganizationRole;
 }
 
+interface SsoCallbackRequest extends ExpressRequest {
+  /** Unset when the sign-in failed, see OidcAuthGuard */
+  user?: { id: string; email: string };
+  ssoError?: string;
+}
+
 @Controller('auth')
 export class AuthController {
   constructor(
     private readonly authService: AuthService,
-    private readonly permissionsService: PermissionsService
+    private readonly permissionsService: PermissionsService,
+    private readonly mfaService: MfaService,
+    private readonly accessTokensService: PersonalAccessTokensService,
+    private readonly oidcService: OidcService
   ) {}
 
   /**
-   * Login endpoint - validates credentials and returns JWT
+   * Login endpoint - validates credentials and returns JWT, or an MFA
+   * challenge when the account has 2FA enabled
    * POST /auth/login
    */
   @Post('login')
   @UseGuards(LocalAuthGuard)
   @HttpCode(HttpStatus.OK)
-  async login(@Request() req: AuthenticatedRequest): Promise<LoginResponse> {
-    return this.authService.login(req.user);
+  async login(
+    @Request() req: AuthenticatedRequest,
+    @Ip() ipAddress: string,
+    @Headers('user-agent') userAgent?: string
+  ): Promise<LoginResponse | IMfaChallenge> {
+    return this.authService.authenticate(req.user, { userAgent, ipAddress });
+  }
+
+  /**
+   * Whether single sign-on is configured, for the login page
+   * GET /auth/oidc/config
+   */
+  @Get('oidc/config')
+  getSsoConfig(): ISsoConfig {
+    return { enabled: this.oidcService.isEnabled() };
+  }
+
+  /**
+   * Single sign-on - redirects the browser to the identity provider
+   * GET /auth/oidc
+   */
+  @Get('oidc')
+  async startSso(@Req() req: ExpressRequest, @Res() res: Response): Promise<void> {
+    const { authorizationUrl, flowToken } = await this.oidcService.startSignIn();
+    res.cookie(OIDC_FLOW_COOKIE, flowToken, this.oidcService.flowCookieOptions(req.secure));
+    res.redirect(authorizationUrl);
+  }
+
+  /**
+   * Single sign-on callback - redirects the browser to the dashboard with
+   * tokens, an MFA challenge or an error in the URL fragment
+   * GET /auth/oidc/callback
+   */
+  @Get('oidc/callback')
+  @UseGuards(OidcAuthGuard)
+  async finishSso(
+    @Req() req: SsoCallbackRequest,
+    @Res() res: Response,
+    @Ip() ipAddress: string,
+    @Headers('user-agent') userAgent?: string
+  ): Promise<void> {
+    const { maxAge: _, ...cookieOptions } = this.oidcService.flowCookieOptions(req.secure);
+    res.clearCookie(OIDC_FLOW_COOKIE, cookieOptions);
+
+    if (!req.user) {
+      res.redirect(
+        this.oidcService.postLoginUrl({ error: req.ssoError ?? 'Single sign-on failed' })
+      );
+      return;
+    }
+
+    const result = await this.authService.authenticate(
+      req.user,
+      { userAgent, ipAddress },
+      AuthMethod.SSO
+    );
+    res.redirect(
+      this.oidcService.postLoginUrl(
+        'mfa_token' in result
+          ? { mfa_token: result.mfa_token }
+          : { access_token: result.access_token, refresh_token: result.refresh_token }
+      )
+    );
+  }
+
+  /**
+   * Second login step - trades the MFA token and a code for a JWT
+   * POST /auth/mfa/verify
+   */
+  @Post('mfa/verify')
+  @HttpCode(HttpStatus.OK)
+  async verifyMfa(
+    @Body() verifyMfaDto: VerifyMfaDto,
+    @Ip() ipAddress: string,
+    @Headers('user-agent') userAgent?: string
+  ): Promise<LoginResponse> {
+    return this.authService.verifyMfa(verifyMfaDto.mfaToken, verifyMfaDto.code, {
+      userAgent,
+      ipAddress,
+    });
+  }
+
+  /**
+   * Two-factor authentication status of the current user
+   * GET /auth/mfa
+   */
+  @Get('mfa')
+  @UseGuards(JwtAuthGuard)
+  async getMfaStatus(@Request() req: AuthenticatedRequest): Promise<IMfaStatus> {
+    return this.mfaService.getStatus(req.user.id);
+  }
+
+  /**
+   * Start 2FA enrollment - returns a new secret to add to an authenticator
+   * POST /auth/mfa/setup
+   */
+  @Post('mfa/setup')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.OK)
+  async setupMfa(@Request() req: AuthenticatedRequest): Promise<IMfaSetup> {
+    return this.mfaService.setup(req.user.id);
+  }
+
+  /**
+   * Finish 2FA enrollment with a first code - returns the recovery codes
+   * POST /auth/mfa/enable
+   */
+  @Post('mfa/enable')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.OK)
+  async enableMfa(
+    @Request() req: AuthenticatedRequest,
+    @Body() mfaCodeDto: MfaCodeDto
+  ): Promise<{ recoveryCodes: string[] }> {
+    const recoveryCodes = await this.mfaService.enable(req.user.id, mfaCodeDto.code);
+    return { recoveryCodes };
+  }
+
+  /**
+   * Turn 2FA off
+   * POST /auth/mfa/disable
+   */
+  @Post('mfa/disable')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async disableMfa(
+    @Request() req: AuthenticatedRequest,
+    @Body() mfaCodeDto: MfaCodeDto
+  ): Promise<void> {
+    await this.mfaService.disable(req.user.id, mfaCodeDto.code);
+  }
+
+  /**
+   * Replace the recovery codes with a new set
+   * POST /auth/mfa/recovery-codes
+   */
+  @Post('mfa/recovery-codes')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.OK)
+  async regenerateRecoveryCodes(
+    @Request() req: AuthenticatedRequest,
+    @Body() mfaCodeDto: MfaCodeDto
+  ): Promise<{ recoveryCodes: string[] }> {
+    const recoveryCodes = await this.mfaService.regenerateRecoveryCodes(
+      req.user.id,
+      mfaCodeDto.code
+    );
+    return { recoveryCodes };
   }
 
   /**
@@ -50,15 +231,132 @@ export class AuthController {
    * POST /auth/register
    */
   @Post('register')
-  async register(@Body() registerDto: RegisterDto): Promise<LoginResponse> {
+  async register(
+    @Body() registerDto: RegisterDto,
+    @Ip() ipAddress: string,
+    @Headers('user-agent') userAgent?: string
+  ): Promise<LoginResponse> {
     return this.authService.register(
       registerDto.email,
       registerDto.password,
       registerDto.firstName,
-      registerDto.lastName
+      registerDto.lastName,
+      { userAgent, ipAddress }
+    );
+  }
+
+  /**
+   * Refresh endpoint - trades a refresh token for a new token pair
+   * POST /auth/refresh
+   */
+  @Post('refresh')
+  @HttpCode(HttpStatus.OK)
+  async refresh(@Body() refreshTokenDto: RefreshTokenDto): Promise<LoginResponse> {
+    return this.authService.refresh(refreshTokenDto.refreshToken);
+  }
+
+  /**
+   * Logout endpoint - ends the session the refresh token belongs to
+   * POST /auth/logout
+   */
+  @Post('logout')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async logout(@Body() refreshTokenDto: RefreshTokenDto): Promise<void> {
+    await this.authService.logout(refreshTokenDto.refreshToken);
+  }
+
+  /**
+   * Sign out everywhere - ends every session of the current user
+   * POST /auth/logout-all
+   */
+  @Post('logout-all')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async logoutAll(@Request() req: AuthenticatedRequest): Promise<void> {
+    await this.authService.revokeAllSessions(req.user.id);
+  }
+
+  /**
+   * List the browsers and devices the current user is signed in on
+   * GET /auth/sessions
+   */
+  @Get('sessions')
+  @UseGuards(JwtAuthGuard)
+  async getSessions(
+    @Request() req: AuthenticatedRequest
+  ): Promise<IUserSession[]> {
+    return this.authService.listSessions(req.user.id, req.user.sessionId);
+  }
+
+  /**
+   * Sign one of the current user's sessions out
+   * DELETE /auth/sessions/:id
+   */
+  @Delete('sessions/:id')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async revokeSession(
+    @Request() req: AuthenticatedRequest,
+    @Param('id', ParseUUIDPipe) id: string
+  ): Promise<void> {
+    await this.authService.revokeUserSession(req.user.id, id);
+  }
+
+  /**
+   * Recent sign-in attempts on the current user's account
+   * GET /auth/login-history
+   */
+  @Get('login-history')
+  @UseGuards(JwtAuthGuard)
+  async getLoginHistory(
+    @Request() req: AuthenticatedRequest
+  ): Promise<ILoginEvent[]> {
+    return this.authService.getLoginHistory(req.user.id);
+  }
+
+  /**
+   * List the current user's personal access tokens
+   * GET /auth/tokens
+   */
+  @Get('tokens')
+  @UseGuards(JwtAuthGuard)
+  async getAccessTokens(
+    @Request() req: AuthenticatedRequest
+  ): Promise<IPersonalAccessToken[]> {
+    return this.accessTokensService.list(req.user.id);
+  }
+
+  /**
+   * Create a personal access token - the token is only returned here
+   * POST /auth/tokens
+   */
+  @Post('tokens')
+  @UseGuards(JwtAuthGuard)
+  async createAccessToken(
+    @Request() req: AuthenticatedRequest,
+    @Body() createTokenDto: CreatePersonalAccessTokenDto
+  ): Promise<ICreatedPersonalAccessToken> {
+    return this.accessTokensService.create(
+      req.user.id,
+      createTokenDto,
+      req.user.authMethod
     );
   }
 
+  /**
+   * Revoke one of the current user's personal access tokens
+   * DELETE /auth/tokens/:id
+   */
+  @Delete('tokens/:id')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async revokeAccessToken(
+    @Request() req: AuthenticatedRequest,
+    @Param('id', ParseUUIDPipe) id: string
+  ): Promise<void> {
+    await this.accessTokensService.revoke(req.user.id, id);
+  }
+
   /**
    * Get current user profile
    * GET /auth/profile
@@ -94,7 +392,8 @@ export class AuthController {
     return this.authService.changePassword(
       req.user.id,
       changePasswordDto.currentPassword,
-      changePasswordDto.newPassword
+      changePasswordDto.newPassword,
+      req.user.sessionId
     );
   }
 
@@ -7,9 +7,17 @@ import { ConfigModule, ConfigService } from '@nestjs/config';
 import { AuthController } from './auth.controller';
 import { AuthService } from './auth.service';
 import { PermissionsService } from './permissions.service';
+import { MfaService } from './mfa.service';
+import { PersonalAccessTokensService } from './personal-access-tokens.service';
+import { OidcService } from './oidc.service';
 import {
   User,
+  Organization,
   UserOrganization,
+  UserSession,
+  LoginEvent,
+  MfaRecoveryCode,
+  PersonalAccessToken,
   Permission,
   RolePermission,
   UserPermission,
@@ -18,10 +26,12 @@ import {
 // Strategies
 import { JwtStrategy } from './strategies/jwt.strategy';
 import { LocalStrategy } from './strategies/local.strategy';
+import { OidcStrategy } from './strategies/oidc.strategy';
 
 // Guards
 import { JwtAuthGuard } from './guards/jwt-auth.guard';
 import { LocalAuthGuard } from './guards/local-auth.guard';
+import { OidcAuthGuard } from './guards/oidc-auth.guard';
 import { OrgRolesGuard } from './guards/org-roles.guard';
 import { RolesGuard } from './guards/roles.guard';
 import { PermissionsGuard } from './guards/permissions.guard';
@@ -30,7 +40,12 @@ import { PermissionsGuard } from './guards/permissions.guard';
   imports: [
     TypeOrmModule.forFeature([
       User,
+      Organization,
       UserOrganization,
+      UserSession,
+      LoginEvent,
+      MfaRecoveryCode,
+      PersonalAccessToken,
       Permission,
       RolePermission,
       UserPermission,
@@ -39,7 +54,7 @@ import { PermissionsGuard } from './guards/permissions.guard';
     JwtModule.registerAsync({
       imports: [ConfigModule],
       useFactory: (configService: ConfigService) => {
-        const expiresIn = configService.get<string>('JWT_EXPIRES_IN', '1d');
+        const expiresIn = configService.get<string>('JWT_EXPIRES_IN', '15m');
         return {
           secret: configService.get<string>('JWT_SECRET'),
           signOptions: {
@@ -54,12 +69,17 @@ import { PermissionsGuard } from './guards/permissions.guard';
   providers: [
     AuthService,
     PermissionsService,
+    MfaService,
+    PersonalAccessTokensService,
+    OidcService,
     // Strategies
     JwtStrategy,
     LocalStrategy,
+    OidcStrategy,
     // Guards
     JwtAuthGuard,
     LocalAuthGuard,
+    OidcAuthGuard,
     OrgRolesGuard,
     RolesGuard,
     PermissionsGuard,
@@ -67,6 +87,9 @@ import { PermissionsGuard } from './guards/permissions.guard';
   exports: [
     AuthService,
     PermissionsService,
+    MfaService,
+    PersonalAccessTokensService,
+    OidcService,
     JwtAuthGuard,
     LocalAuthGuard,
     OrgRolesGuard,
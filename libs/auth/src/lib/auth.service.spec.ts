@@ -2,9 +2,23 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { getRepositoryToken } from '@nestjs/typeorm';
 import { JwtService } from '@nestjs/jwt';
 import { ConfigService } from '@nestjs/config';
-import { ConflictException } from '@nestjs/common';
+import {
+  ConflictException,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { createHash } from 'crypto';
 import { AuthService } from './auth.service';
-import { User, UserOrganization } from '@task-manager/data';
+import { MfaService } from './mfa.service';
+import { OidcIdentity } from './oidc.service';
+import {
+  User,
+  Organization,
+  UserOrganization,
+  UserSession,
+  LoginEvent,
+  AuthMethod,
+} from '@task-manager/data';
 import * as bcrypt from 'bcrypt';
 
 describe('AuthService', () => {
@@ -13,14 +27,47 @@ describe('AuthService', () => {
     findOne: jest.Mock;
     create: jest.Mock;
     save: jest.Mock;
+    update: jest.Mock;
     createQueryBuilder: jest.Mock;
   };
+  let userQueryBuilder: {
+    addSelect: jest.Mock;
+    where: jest.Mock;
+    getOne: jest.Mock;
+  };
   let mockUserOrgRepository: {
     findOne: jest.Mock;
     find: jest.Mock;
   };
+  let mockSessionRepository: {
+    create: jest.Mock;
+    save: jest.Mock;
+    update: jest.Mock;
+    find: jest.Mock;
+    findOne: jest.Mock;
+    createQueryBuilder: jest.Mock;
+  };
+  let mockLoginEventRepository: {
+    create: jest.Mock;
+    save: jest.Mock;
+    find: jest.Mock;
+    count: jest.Mock;
+  };
+  let mockOrganizationRepository: {
+    findOne: jest.Mock;
+  };
+  let mockMfaService: {
+    verifyCode: jest.Mock;
+  };
+  let sessionQueryBuilder: {
+    addSelect: jest.Mock;
+    innerJoinAndSelect: jest.Mock;
+    where: jest.Mock;
+    getOne: jest.Mock;
+  };
   let mockJwtService: {
     sign: jest.Mock;
+    verify: jest.Mock;
   };
   let mockConfigService: {
     get: jest.Mock;
@@ -34,16 +81,23 @@ describe('AuthService', () => {
     updatedAt: new Date(),
   };
 
+  const sessionId = '11111111-1111-4111-8111-111111111111';
+  const sha256 = (value: string) =>
+    createHash('sha256').update(value).digest('hex');
+
   beforeEach(async () => {
+    userQueryBuilder = {
+      addSelect: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      getOne: jest.fn(),
+    };
+
     mockUserRepository = {
       findOne: jest.fn(),
       create: jest.fn(),
       save: jest.fn(),
-      createQueryBuilder: jest.fn(() => ({
-        addSelect: jest.fn().mockReturnThis(),
-        where: jest.fn().mockReturnThis(),
-        getOne: jest.fn(),
-      })),
+      update: jest.fn().mockResolvedValue({ affected: 1 }),
+      createQueryBuilder: jest.fn(() => userQueryBuilder),
     };
 
     mockUserOrgRepository = {
@@ -51,8 +105,40 @@ describe('AuthService', () => {
       find: jest.fn(),
     };
 
+    sessionQueryBuilder = {
+      addSelect: jest.fn().mockReturnThis(),
+      innerJoinAndSelect: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      getOne: jest.fn(),
+    };
+
+    mockSessionRepository = {
+      create: jest.fn((session: Partial<UserSession>) => session),
+      save: jest.fn(async (session: Partial<UserSession>) => ({ ...session, id: sessionId })),
+      update: jest.fn().mockResolvedValue({ affected: 1 }),
+      find: jest.fn(),
+      findOne: jest.fn(),
+      createQueryBuilder: jest.fn(() => sessionQueryBuilder),
+    };
+
+    mockLoginEventRepository = {
+      create: jest.fn((event: Partial<LoginEvent>) => event),
+      save: jest.fn(async (event: Partial<LoginEvent>) => event),
+      find: jest.fn(),
+      count: jest.fn().mockResolvedValue(0),
+    };
+
+    mockOrganizationRepository = {
+      findOne: jest.fn(),
+    };
+
+    mockMfaService = {
+      verifyCode: jest.fn(),
+    };
+
     mockJwtService = {
       sign: jest.fn().mockReturnValue('mock-jwt-token'),
+      verify: jest.fn(),
     };
 
     mockConfigService = {
@@ -63,12 +149,25 @@ describe('AuthService', () => {
       providers: [
         AuthService,
         { provide: getRepositoryToken(User), useValue: mockUserRepository },
+        {
+          provide: getRepositoryToken(Organization),
+          useValue: mockOrganizationRepository,
+        },
         {
           provide: getRepositoryToken(UserOrganization),
           useValue: mockUserOrgRepository,
         },
+        {
+          provide: getRepositoryToken(UserSession),
+          useValue: mockSessionRepository,
+        },
+        {
+          provide: getRepositoryToken(LoginEvent),
+          useValue: mockLoginEventRepository,
+        },
         { provide: JwtService, useValue: mockJwtService },
         { provide: ConfigService, useValue: mockConfigService },
+        { provide: MfaService, useValue: mockMfaService },
       ],
     }).compile();
 
@@ -86,14 +185,29 @@ describe('AuthService', () => {
 
       expect(result).toEqual({
         access_token: 'mock-jwt-token',
+        refresh_token: expect.stringMatching(new RegExp(`^${sessionId}\\.`)),
         user: { id: 'user-123', email: 'test@example.com' },
       });
       expect(mockJwtService.sign).toHaveBeenCalledWith({
         sub: 'user-123',
         email: 'test@example.com',
+        sid: sessionId,
       });
     });
 
+    it('should store only the hash of the refresh token', async () => {
+      const result = await service.login({ id: 'user-123', email: 'test@example.com' });
+      const secret = result.refresh_token.split('.')[1];
+
+      expect(mockSessionRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: 'user-123',
+          refreshTokenHash: sha256(secret),
+          expiresAt: expect.any(Date),
+        })
+      );
+    });
+
     it('should call jwtService.sign with correct payload', async () => {
       const user = { id: 'another-user', email: 'another@example.com' };
       await service.login(user);
@@ -102,7 +216,461 @@ describe('AuthService', () => {
       expect(mockJwtService.sign).toHaveBeenCalledWith({
         sub: 'another-user',
         email: 'another@example.com',
+        sid: sessionId,
+      });
+    });
+  });
+
+  describe('login history', () => {
+    const client = { userAgent: 'Mozilla/5.0 Firefox/130.0', ipAddress: '203.0.113.7' };
+
+    it('should record where a login came from on the session and in the history', async () => {
+      await service.login({ id: 'user-123', email: 'test@example.com' }, client);
+
+      expect(mockSessionRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining(client)
+      );
+      expect(mockLoginEventRepository.save).toHaveBeenCalledWith({
+        userId: 'user-123',
+        success: true,
+        failureReason: null,
+        ...client,
+      });
+    });
+
+    it('should record failed logins for existing accounts', async () => {
+      mockUserRepository.findOne.mockResolvedValue(mockUser);
+
+      await service.recordFailedLogin('test@example.com', 'invalid_password', client);
+
+      expect(mockLoginEventRepository.save).toHaveBeenCalledWith({
+        userId: 'user-123',
+        success: false,
+        failureReason: 'invalid_password',
+        ...client,
+      });
+    });
+
+    it('should not record failed logins for unknown emails', async () => {
+      mockUserRepository.findOne.mockResolvedValue(null);
+
+      await service.recordFailedLogin('nobody@example.com', 'invalid_password');
+
+      expect(mockLoginEventRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should return the most recent events of the user', async () => {
+      mockLoginEventRepository.find.mockResolvedValue([]);
+
+      await service.getLoginHistory('user-123');
+
+      expect(mockLoginEventRepository.find).toHaveBeenCalledWith({
+        where: { userId: 'user-123' },
+        order: { createdAt: 'DESC' },
+        take: 20,
+      });
+    });
+  });
+
+  describe('two-factor sign-in', () => {
+    const mfaPayload = {
+      sub: 'user-123',
+      email: 'test@example.com',
+      purpose: 'mfa',
+      method: AuthMethod.PASSWORD,
+    };
+
+    it('should start a session right away without 2FA', async () => {
+      mockUserRepository.findOne.mockResolvedValue({ ...mockUser, mfaEnabledAt: null });
+
+      const result = await service.authenticate({ id: 'user-123', email: 'test@example.com' });
+
+      expect(result).toHaveProperty('access_token');
+      expect(mockSessionRepository.save).toHaveBeenCalled();
+    });
+
+    it('should return a short-lived challenge instead of a session with 2FA', async () => {
+      mockUserRepository.findOne.mockResolvedValue({ ...mockUser, mfaEnabledAt: new Date() });
+
+      const result = await service.authenticate({ id: 'user-123', email: 'test@example.com' });
+
+      expect(result).toEqual({ mfa_required: true, mfa_token: 'mock-jwt-token' });
+      expect(mockJwtService.sign).toHaveBeenCalledWith(mfaPayload, { expiresIn: 300 });
+      expect(mockSessionRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should start a session for a valid code', async () => {
+      mockJwtService.verify.mockReturnValue(mfaPayload);
+      mockMfaService.verifyCode.mockResolvedValue(true);
+
+      const result = await service.verifyMfa('mfa-token', '123456');
+
+      expect(mockMfaService.verifyCode).toHaveBeenCalledWith('user-123', '123456');
+      expect(result.user).toEqual({ id: 'user-123', email: 'test@example.com' });
+      expect(mockSessionRepository.save).toHaveBeenCalled();
+    });
+
+    it('should record invalid codes in the login history', async () => {
+      mockJwtService.verify.mockReturnValue(mfaPayload);
+      mockMfaService.verifyCode.mockResolvedValue(false);
+
+      await expect(service.verifyMfa('mfa-token', '000000')).rejects.toThrow(
+        UnauthorizedException
+      );
+      expect(mockLoginEventRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ success: false, failureReason: 'invalid_mfa_code' })
+      );
+      expect(mockSessionRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should stop checking codes after too many failures', async () => {
+      mockJwtService.verify.mockReturnValue(mfaPayload);
+      mockLoginEventRepository.count.mockResolvedValue(5);
+
+      await expect(service.verifyMfa('mfa-token', '123456')).rejects.toThrow(
+        'Too many invalid codes'
+      );
+      expect(mockMfaService.verifyCode).not.toHaveBeenCalled();
+    });
+
+    it('should reject access tokens and expired tokens', async () => {
+      mockJwtService.verify.mockReturnValueOnce({ sub: 'user-123', sid: sessionId });
+      await expect(service.verifyMfa('access-token', '123456')).rejects.toThrow(
+        UnauthorizedException
+      );
+
+      mockJwtService.verify.mockImplementationOnce(() => {
+        throw new Error('jwt expired');
+      });
+      await expect(service.verifyMfa('mfa-token', '123456')).rejects.toThrow(
+        UnauthorizedException
+      );
+      expect(mockMfaService.verifyCode).not.toHaveBeenCalled();
+    });
+
+    it('should keep the sign-in method of the first step', async () => {
+      mockJwtService.verify.mockReturnValue({ ...mfaPayload, method: AuthMethod.SSO });
+      mockMfaService.verifyCode.mockResolvedValue(true);
+
+      await service.verifyMfa('mfa-token', '123456');
+
+      expect(mockSessionRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ authMethod: AuthMethod.SSO })
+      );
+    });
+  });
+
+  describe('single sign-on', () => {
+    const identity: OidcIdentity = {
+      subject: 'idp-user-1',
+      email: 'Test@Example.com',
+      emailVerified: true,
+      firstName: 'Test',
+      lastName: 'User',
+    };
+
+    it('should return the user linked to the identity', async () => {
+      mockUserRepository.findOne.mockResolvedValue(mockUser);
+
+      await expect(service.resolveSsoUser(identity)).resolves.toBe(mockUser);
+      expect(mockUserRepository.findOne).toHaveBeenCalledWith({
+        where: { oidcSubject: 'idp-user-1' },
+      });
+      expect(mockUserRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should link the user with the verified email', async () => {
+      mockUserRepository.findOne.mockResolvedValue(null);
+      userQueryBuilder.getOne.mockResolvedValue({ ...mockUser, oidcSubject: null });
+
+      const user = await service.resolveSsoUser(identity);
+
+      expect(user.id).toBe('user-123');
+      expect(mockUserRepository.update).toHaveBeenCalledWith('user-123', {
+        oidcSubject: 'idp-user-1',
+      });
+      expect(mockUserRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should not link users by an unverified email', async () => {
+      mockUserRepository.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.resolveSsoUser({ ...identity, emailVerified: false })
+      ).rejects.toThrow(UnauthorizedException);
+      expect(mockUserRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should not relink users linked to another identity', async () => {
+      mockUserRepository.findOne.mockResolvedValue(null);
+      userQueryBuilder.getOne.mockResolvedValue({ ...mockUser, oidcSubject: 'idp-user-2' });
+
+      await expect(service.resolveSsoUser(identity)).rejects.toThrow(
+        'This account is linked to another single sign-on identity'
+      );
+    });
+
+    it('should create unknown users just in time', async () => {
+      mockUserRepository.findOne.mockResolvedValue(null);
+      userQueryBuilder.getOne.mockResolvedValue(null);
+      mockUserRepository.create.mockImplementation((user: Partial<User>) => user);
+      mockUserRepository.save.mockImplementation(async (user: Partial<User>) => ({
+        ...user,
+        id: 'user-456',
+      }));
+
+      const user = await service.resolveSsoUser(identity);
+
+      expect(mockUserRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          email: 'Test@Example.com',
+          firstName: 'Test',
+          lastName: 'User',
+        })
+      );
+      expect(mockUserRepository.update).toHaveBeenCalledWith('user-456', {
+        oidcSubject: 'idp-user-1',
+      });
+      expect(user.id).toBe('user-456');
+    });
+
+    it('should record SSO sign-ins on the session', async () => {
+      mockUserRepository.findOne.mockResolvedValue({ ...mockUser, mfaEnabledAt: null });
+
+      await service.authenticate(
+        { id: 'user-123', email: 'test@example.com' },
+        {},
+        AuthMethod.SSO
+      );
+
+      expect(mockSessionRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ authMethod: AuthMethod.SSO })
+      );
+    });
+  });
+
+  describe('sessions', () => {
+    it('should list active sessions and flag the current one', async () => {
+      const session: Partial<UserSession> = {
+        id: sessionId,
+        userAgent: 'Mozilla/5.0',
+        ipAddress: '203.0.113.7',
+        createdAt: new Date(),
+        lastSeenAt: new Date(),
+        refreshTokenHash: 'hash',
+      };
+      mockSessionRepository.find.mockResolvedValue([
+        session,
+        { ...session, id: 'other-session' },
+      ]);
+
+      const result = await service.listSessions('user-123', sessionId);
+
+      expect(result.map((s) => [s.id, s.current])).toEqual([
+        [sessionId, true],
+        ['other-session', false],
+      ]);
+      expect(result[0]).not.toHaveProperty('refreshTokenHash');
+    });
+
+    it('should revoke a session of the user', async () => {
+      await service.revokeUserSession('user-123', sessionId);
+
+      expect(mockSessionRepository.update).toHaveBeenCalledWith(
+        expect.objectContaining({ id: sessionId, userId: 'user-123' }),
+        { revokedAt: expect.any(Date) }
+      );
+    });
+
+    it('should throw NotFoundException for sessions of other users', async () => {
+      mockSessionRepository.update.mockResolvedValue({ affected: 0 });
+
+      await expect(
+        service.revokeUserSession('user-123', sessionId)
+      ).rejects.toThrow(NotFoundException);
+    });
+
+    it('should update last seen at most once a minute', async () => {
+      await service.touchSession({
+        id: sessionId,
+        lastSeenAt: new Date(Date.now() - 10 * 1000),
+      } as UserSession);
+      expect(mockSessionRepository.update).not.toHaveBeenCalled();
+
+      await service.touchSession({
+        id: sessionId,
+        lastSeenAt: new Date(Date.now() - 5 * 60 * 1000),
+      } as UserSession);
+      expect(mockSessionRepository.update).toHaveBeenCalledWith(sessionId, {
+        lastSeenAt: expect.any(Date),
+      });
+    });
+  });
+
+  describe('refresh', () => {
+    const activeSession = (secret: string): Partial<UserSession> => ({
+      id: sessionId,
+      userId: 'user-123',
+      user: mockUser as User,
+      refreshTokenHash: sha256(secret),
+      previousRefreshTokenHash: null,
+      refreshTokenRotatedAt: null,
+      expiresAt: new Date(Date.now() + 60 * 1000),
+      revokedAt: null,
+    });
+
+    const rotatedSession = (secret: string, previousSecret: string, rotatedAgoMs: number) => ({
+      ...activeSession(secret),
+      previousRefreshTokenHash: sha256(previousSecret),
+      refreshTokenRotatedAt: new Date(Date.now() - rotatedAgoMs),
+    });
+
+    it('should rotate the refresh token and issue a new pair', async () => {
+      sessionQueryBuilder.getOne.mockResolvedValue(activeSession('old-secret'));
+
+      const result = await service.refresh(`${sessionId}.old-secret`);
+
+      const nextSecret = result.refresh_token.split('.')[1];
+      expect(nextSecret).not.toBe('old-secret');
+      expect(result.access_token).toBe('mock-jwt-token');
+      expect(mockSessionRepository.update).toHaveBeenCalledWith(
+        { id: sessionId, refreshTokenHash: sha256('old-secret') },
+        {
+          refreshTokenHash: sha256(nextSecret),
+          previousRefreshTokenHash: sha256('old-secret'),
+          refreshTokenRotatedAt: expect.any(Date),
+          expiresAt: expect.any(Date),
+          lastSeenAt: expect.any(Date),
+        }
+      );
+    });
+
+    it('should revoke the session when an already used token is presented', async () => {
+      sessionQueryBuilder.getOne.mockResolvedValue(
+        rotatedSession('current-secret', 'used-secret', 5 * 60 * 1000)
+      );
+
+      await expect(
+        service.refresh(`${sessionId}.used-secret`)
+      ).rejects.toThrow('Refresh token reused; session revoked');
+      expect(mockSessionRepository.update).toHaveBeenCalledWith(
+        expect.objectContaining({ id: sessionId }),
+        { revokedAt: expect.any(Date) }
+      );
+    });
+
+    it('should keep the session when the used token comes back right after the rotation', async () => {
+      sessionQueryBuilder.getOne.mockResolvedValue(
+        rotatedSession('current-secret', 'used-secret', 2 * 1000)
+      );
+
+      await expect(
+        service.refresh(`${sessionId}.used-secret`)
+      ).rejects.toThrow(UnauthorizedException);
+      expect(mockSessionRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should keep the session when the secret was never issued for it', async () => {
+      sessionQueryBuilder.getOne.mockResolvedValue(
+        rotatedSession('current-secret', 'used-secret', 5 * 60 * 1000)
+      );
+
+      await expect(
+        service.refresh(`${sessionId}.guessed`)
+      ).rejects.toThrow('Invalid refresh token');
+      expect(mockSessionRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should keep the session when a concurrent refresh rotated it first', async () => {
+      sessionQueryBuilder.getOne.mockResolvedValue(activeSession('old-secret'));
+      mockSessionRepository.update.mockResolvedValueOnce({ affected: 0 });
+
+      await expect(
+        service.refresh(`${sessionId}.old-secret`)
+      ).rejects.toThrow(UnauthorizedException);
+      expect(mockSessionRepository.update).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject revoked and expired sessions', async () => {
+      sessionQueryBuilder.getOne.mockResolvedValueOnce({
+        ...activeSession('secret'),
+        revokedAt: new Date(),
+      });
+      await expect(service.refresh(`${sessionId}.secret`)).rejects.toThrow(
+        UnauthorizedException
+      );
+
+      sessionQueryBuilder.getOne.mockResolvedValueOnce({
+        ...activeSession('secret'),
+        expiresAt: new Date(Date.now() - 1000),
       });
+      await expect(service.refresh(`${sessionId}.secret`)).rejects.toThrow(
+        UnauthorizedException
+      );
+      expect(mockSessionRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject malformed refresh tokens without a lookup', async () => {
+      await expect(service.refresh('not-a-token')).rejects.toThrow(
+        UnauthorizedException
+      );
+      expect(mockSessionRepository.createQueryBuilder).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('logout', () => {
+    beforeEach(() => {
+      sessionQueryBuilder.getOne.mockResolvedValue({
+        id: sessionId,
+        refreshTokenHash: sha256('secret'),
+      });
+    });
+
+    it('should revoke the session of the refresh token', async () => {
+      await service.logout(`${sessionId}.secret`);
+
+      expect(mockSessionRepository.update).toHaveBeenCalledWith(
+        expect.objectContaining({ id: sessionId }),
+        { revokedAt: expect.any(Date) }
+      );
+    });
+
+    it('should leave the session active when the secret is wrong', async () => {
+      await service.logout(`${sessionId}.guessed`);
+
+      expect(mockSessionRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should ignore refresh tokens of unknown sessions', async () => {
+      sessionQueryBuilder.getOne.mockResolvedValue(null);
+
+      await service.logout(`${sessionId}.secret`);
+
+      expect(mockSessionRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should ignore malformed refresh tokens', async () => {
+      await service.logout('garbage');
+
+      expect(mockSessionRepository.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revokeAllSessions', () => {
+    it('should revoke every active session of the user', async () => {
+      await service.revokeAllSessions('user-123');
+
+      expect(mockSessionRepository.update).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'user-123' }),
+        { revokedAt: expect.any(Date) }
+      );
+      expect(mockSessionRepository.update.mock.calls[0][0]).not.toHaveProperty('id');
+    });
+
+    it('should keep the given session', async () => {
+      await service.revokeAllSessions('user-123', sessionId);
+
+      expect(mockSessionRepository.update.mock.calls[0][0]).toHaveProperty('id');
     });
   });
 
@@ -175,6 +743,7 @@ describe('AuthService', () => {
 
       expect(result).toEqual({
         access_token: 'mock-jwt-token',
+        refresh_token: expect.any(String),
         user: { id: 'user-123', email: 'test@example.com' },
       });
     });
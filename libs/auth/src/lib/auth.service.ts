@@ -7,34 +7,101 @@ import {
 } from '@nestjs/common';
 import * as crypto from 'crypto';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { Repository, IsNull, MoreThan, Not } from 'typeorm';
 import { JwtService } from '@nestjs/jwt';
 import { ConfigService } from '@nestjs/config';
+import { isUUID } from 'class-validator';
 import * as bcrypt from 'bcrypt';
-import { User, UserOrganization, OrganizationRole } from '@task-manager/data';
+import {
+  User,
+  Organization,
+  UserOrganization,
+  UserSession,
+  LoginEvent,
+  OrganizationRole,
+  AuthMethod,
+  IUserSession,
+  ILoginEvent,
+  IMfaChallenge,
+} from '@task-manager/data';
+import { MfaService } from './mfa.service';
+import { OidcIdentity } from './oidc.service';
 
 export interface JwtPayload {
   sub: string;
   email: string;
+  /** Session the token was issued for; tokens of ended sessions are rejected */
+  sid: string;
 }
 
 export interface LoginResponse {
   access_token: string;
+  /** Single use; trade it at POST /auth/refresh for a new pair */
+  refresh_token: string;
   user: {
     id: string;
     email: string;
   };
 }
 
+/**
+ * Token proving the password step of a 2FA sign-in. It has no session, so
+ * JwtStrategy never accepts it as an access token.
+ */
+interface MfaTokenPayload {
+  sub: string;
+  email: string;
+  purpose: 'mfa';
+  /** How the first step signed in, recorded on the session */
+  method: AuthMethod;
+}
+
+/** Where a sign-in came from */
+export interface ClientInfo {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+const DURATION_UNIT_MS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+// Sessions record their last use at most this often
+const LAST_SEEN_RESOLUTION_MS = 60 * 1000;
+
+const LOGIN_HISTORY_LIMIT = 20;
+
+// How long after a refresh the replaced token is refused without revoking
+// the session, so tabs refreshing together don't sign each other out
+const REFRESH_REUSE_GRACE_MS = 30 * 1000;
+
+// Time to enter the second factor after the password was accepted
+const MFA_TOKEN_TTL_SECONDS = 5 * 60;
+
+// Invalid codes allowed per account within MFA_TOKEN_TTL_SECONDS
+const MFA_MAX_FAILED_ATTEMPTS = 5;
+
+const MFA_FAILURE_REASON = 'invalid_mfa_code';
+
 @Injectable()
 export class AuthService {
   constructor(
     @InjectRepository(User)
     private readonly userRepository: Repository<User>,
+    @InjectRepository(Organization)
+    private readonly organizationRepository: Repository<Organization>,
     @InjectRepository(UserOrganization)
     private readonly userOrgRepository: Repository<UserOrganization>,
+    @InjectRepository(UserSession)
+    private readonly sessionRepository: Repository<UserSession>,
+    @InjectRepository(LoginEvent)
+    private readonly loginEventRepository: Repository<LoginEvent>,
     private readonly jwtService: JwtService,
-    private readonly configService: ConfigService
+    private readonly configService: ConfigService,
+    private readonly mfaService: MfaService
   ) {}
 
   async findUserByEmail(email: string): Promise<User | null> {
@@ -117,23 +184,344 @@ export class AuthService {
   }
 
   /**
-   * Generates JWT token for authenticated user
+   * Password or SSO sign-in: starts a session, unless the account has 2FA
+   * enabled and a code has to be verified first
    */
-  async login(user: { id: string; email: string }): Promise<LoginResponse> {
-    const payload: JwtPayload = {
+  async authenticate(
+    user: { id: string; email: string },
+    client: ClientInfo = {},
+    method: AuthMethod = AuthMethod.PASSWORD
+  ): Promise<LoginResponse | IMfaChallenge> {
+    if (!(await this.isMfaEnabled(user.id))) {
+      return this.login(user, client, method);
+    }
+
+    const payload: MfaTokenPayload = {
       sub: user.id,
       email: user.email,
+      purpose: 'mfa',
+      method,
     };
-
     return {
-      access_token: this.jwtService.sign(payload),
-      user: {
-        id: user.id,
-        email: user.email,
-      },
+      mfa_required: true,
+      mfa_token: this.jwtService.sign(payload, { expiresIn: MFA_TOKEN_TTL_SECONDS }),
     };
   }
 
+  /**
+   * Second sign-in step: trades the token from authenticate() and a TOTP
+   * or recovery code for a session
+   */
+  async verifyMfa(
+    mfaToken: string,
+    code: string,
+    client: ClientInfo = {}
+  ): Promise<LoginResponse> {
+    let payload: MfaTokenPayload;
+    try {
+      payload = this.jwtService.verify<MfaTokenPayload>(mfaToken);
+    } catch {
+      throw new UnauthorizedException('Sign-in expired, please sign in again');
+    }
+    if (payload.purpose !== 'mfa') {
+      throw new UnauthorizedException('Invalid sign-in token');
+    }
+
+    const recentFailures = await this.loginEventRepository.count({
+      where: {
+        userId: payload.sub,
+        failureReason: MFA_FAILURE_REASON,
+        createdAt: MoreThan(new Date(Date.now() - MFA_TOKEN_TTL_SECONDS * 1000)),
+      },
+    });
+    if (recentFailures >= MFA_MAX_FAILED_ATTEMPTS) {
+      throw new UnauthorizedException('Too many invalid codes, try again later');
+    }
+
+    if (!(await this.mfaService.verifyCode(payload.sub, code))) {
+      await this.recordLoginEvent(payload.sub, MFA_FAILURE_REASON, client);
+      throw new UnauthorizedException('Invalid code');
+    }
+
+    return this.login(
+      { id: payload.sub, email: payload.email },
+      client,
+      payload.method ?? AuthMethod.PASSWORD
+    );
+  }
+
+  async isMfaEnabled(userId: string): Promise<boolean> {
+    const user = await this.findUserById(userId);
+    return !!user?.mfaEnabledAt;
+  }
+
+  /**
+   * Lowest role an organization requires 2FA from, or null when it
+   * doesn't require it
+   */
+  async getMfaRequiredRole(organizationId: string): Promise<OrganizationRole | null> {
+    const organization = await this.organizationRepository.findOne({
+      where: { id: organizationId },
+    });
+    return organization?.mfaRequiredRole ?? null;
+  }
+
+  async isSsoRequired(organizationId: string): Promise<boolean> {
+    const organization = await this.organizationRepository.findOne({
+      where: { id: organizationId },
+    });
+    return !!organization?.ssoRequired;
+  }
+
+  /**
+   * The user an SSO sign-in is for: the one linked to the identity, or
+   * else the one with its verified email, which gets linked. Unknown
+   * emails get a new account just in time, with a random password that
+   * can be replaced through a password reset.
+   */
+  async resolveSsoUser(identity: OidcIdentity): Promise<User> {
+    const linkedUser = await this.userRepository.findOne({
+      where: { oidcSubject: identity.subject },
+    });
+    if (linkedUser) {
+      return linkedUser;
+    }
+
+    if (!identity.email || !identity.emailVerified) {
+      throw new UnauthorizedException(
+        'Your identity provider has not verified your email address'
+      );
+    }
+
+    const existingUser = await this.userRepository
+      .createQueryBuilder('user')
+      .addSelect('user.oidcSubject')
+      .where('LOWER(user.email) = LOWER(:email)', { email: identity.email })
+      .getOne();
+    if (existingUser?.oidcSubject) {
+      throw new UnauthorizedException(
+        'This account is linked to another single sign-on identity'
+      );
+    }
+
+    const user =
+      existingUser ??
+      (await this.createUser(
+        identity.email,
+        crypto.randomBytes(32).toString('base64url'),
+        identity.firstName,
+        identity.lastName
+      ));
+    await this.userRepository.update(user.id, { oidcSubject: identity.subject });
+    return user;
+  }
+
+  /**
+   * Starts a session for an authenticated user and returns its tokens
+   */
+  async login(
+    user: { id: string; email: string },
+    client: ClientInfo = {},
+    method: AuthMethod = AuthMethod.PASSWORD
+  ): Promise<LoginResponse> {
+    const secret = crypto.randomBytes(32).toString('base64url');
+    const session = await this.sessionRepository.save(
+      this.sessionRepository.create({
+        userId: user.id,
+        refreshTokenHash: this.hashSecret(secret),
+        expiresAt: this.refreshTokenExpiry(),
+        userAgent: client.userAgent?.slice(0, 512) ?? null,
+        ipAddress: client.ipAddress ?? null,
+        authMethod: method,
+      })
+    );
+    await this.recordLoginEvent(user.id, null, client);
+
+    return this.issueTokens(user, session.id, secret);
+  }
+
+  /**
+   * Records a rejected sign-in in the account's login history. Attempts
+   * for unknown emails have no history to go to and are dropped.
+   */
+  async recordFailedLogin(
+    email: string,
+    reason: string,
+    client: ClientInfo = {}
+  ): Promise<void> {
+    const user = await this.findUserByEmail(email);
+    if (user) {
+      await this.recordLoginEvent(user.id, reason, client);
+    }
+  }
+
+  /**
+   * Trades a refresh token for a new access and refresh token. Refresh
+   * tokens are single use: presenting the one the last refresh replaced
+   * means it was copied, so the whole session is revoked.
+   */
+  async refresh(refreshToken: string): Promise<LoginResponse> {
+    const { sessionId, secret } = this.parseRefreshToken(refreshToken);
+
+    const session = await this.sessionRepository
+      .createQueryBuilder('session')
+      .addSelect('session.refreshTokenHash')
+      .addSelect('session.previousRefreshTokenHash')
+      .innerJoinAndSelect('session.user', 'user')
+      .where('session.id = :sessionId', { sessionId })
+      .getOne();
+
+    if (!session || session.revokedAt || session.expiresAt < new Date()) {
+      throw new UnauthorizedException('Session has ended');
+    }
+
+    if (!this.matchesHash(secret, session.refreshTokenHash)) {
+      await this.rejectOutdatedSecret(session, secret);
+    }
+
+    // Rotate only if the token is still the one read above, so two
+    // refreshes racing with the same token cannot both succeed
+    const nextSecret = crypto.randomBytes(32).toString('base64url');
+    const result = await this.sessionRepository.update(
+      { id: session.id, refreshTokenHash: session.refreshTokenHash },
+      {
+        refreshTokenHash: this.hashSecret(nextSecret),
+        previousRefreshTokenHash: session.refreshTokenHash,
+        refreshTokenRotatedAt: new Date(),
+        expiresAt: this.refreshTokenExpiry(),
+        lastSeenAt: new Date(),
+      }
+    );
+    if (!result.affected) {
+      // The other refresh just rotated it, e.g. from a second browser tab
+      throw new UnauthorizedException('Refresh token already used');
+    }
+
+    return this.issueTokens(session.user, session.id, nextSecret);
+  }
+
+  /**
+   * Ends the session a refresh token belongs to. The session id is no
+   * secret (it is in access tokens and the session list), so the token
+   * only counts with its current secret. Unknown, malformed or outdated
+   * tokens are ignored so logging out always succeeds.
+   */
+  async logout(refreshToken: string): Promise<void> {
+    let token: { sessionId: string; secret: string };
+    try {
+      token = this.parseRefreshToken(refreshToken);
+    } catch {
+      return;
+    }
+
+    const session = await this.sessionRepository
+      .createQueryBuilder('session')
+      .addSelect('session.refreshTokenHash')
+      .where('session.id = :sessionId', { sessionId: token.sessionId })
+      .getOne();
+
+    if (session && this.matchesHash(token.secret, session.refreshTokenHash)) {
+      await this.revokeSession(session.id);
+    }
+  }
+
+  /**
+   * Ends every session of a user, optionally keeping one (the caller's)
+   */
+  async revokeAllSessions(userId: string, exceptSessionId?: string): Promise<void> {
+    await this.sessionRepository.update(
+      {
+        userId,
+        revokedAt: IsNull(),
+        ...(exceptSessionId ? { id: Not(exceptSessionId) } : {}),
+      },
+      { revokedAt: new Date() }
+    );
+  }
+
+  /**
+   * Lists the user's active sessions, most recently used first
+   */
+  async listSessions(
+    userId: string,
+    currentSessionId: string
+  ): Promise<IUserSession[]> {
+    const sessions = await this.sessionRepository.find({
+      where: { userId, revokedAt: IsNull(), expiresAt: MoreThan(new Date()) },
+      order: { lastSeenAt: 'DESC' },
+    });
+
+    return sessions.map((session) => ({
+      id: session.id,
+      userAgent: session.userAgent,
+      ipAddress: session.ipAddress,
+      createdAt: session.createdAt,
+      lastSeenAt: session.lastSeenAt,
+      authMethod: session.authMethod,
+      current: session.id === currentSessionId,
+    }));
+  }
+
+  /**
+   * Signs one of the user's sessions out
+   */
+  async revokeUserSession(userId: string, sessionId: string): Promise<void> {
+    const result = await this.sessionRepository.update(
+      { id: sessionId, userId, revokedAt: IsNull() },
+      { revokedAt: new Date() }
+    );
+    if (!result.affected) {
+      throw new NotFoundException('Session not found');
+    }
+  }
+
+  /**
+   * Recent sign-in attempts on the user's account, newest first
+   */
+  async getLoginHistory(userId: string): Promise<ILoginEvent[]> {
+    const events = await this.loginEventRepository.find({
+      where: { userId },
+      order: { createdAt: 'DESC' },
+      take: LOGIN_HISTORY_LIMIT,
+    });
+
+    return events.map((event) => ({
+      id: event.id,
+      success: event.success,
+      failureReason: event.failureReason,
+      userAgent: event.userAgent,
+      ipAddress: event.ipAddress,
+      createdAt: event.createdAt,
+    }));
+  }
+
+  /**
+   * Records that a session was just used
+   */
+  async touchSession(session: UserSession): Promise<void> {
+    if (Date.now() - session.lastSeenAt.getTime() < LAST_SEEN_RESOLUTION_MS) {
+      return;
+    }
+    await this.sessionRepository.update(session.id, { lastSeenAt: new Date() });
+  }
+
+  /**
+   * Finds a session that can still be used by the given user
+   */
+  async findActiveSession(
+    sessionId: string,
+    userId: string
+  ): Promise<UserSession | null> {
+    return this.sessionRepository.findOne({
+      where: {
+        id: sessionId,
+        userId,
+        revokedAt: IsNull(),
+        expiresAt: MoreThan(new Date()),
+      },
+    });
+  }
+
   /**
    * Registers a new user and returns JWT token
    */
@@ -141,7 +529,8 @@ export class AuthService {
     email: string,
     password: string,
     firstName?: string,
-    lastName?: string
+    lastName?: string,
+    client: ClientInfo = {}
   ): Promise<LoginResponse> {
     // Check if user already exists
     const existingUser = await this.findUserByEmail(email);
@@ -153,7 +542,7 @@ export class AuthService {
     const newUser = await this.createUser(email, password, firstName, lastName);
 
     // Auto-login after registration
-    return this.login(newUser);
+    return this.login(newUser, client);
   }
 
   /**
@@ -173,7 +562,8 @@ export class AuthService {
   async changePassword(
     userId: string,
     currentPassword: string,
-    newPassword: string
+    newPassword: string,
+    currentSessionId?: string
   ): Promise<{ message: string }> {
     const user = await this.findUserByIdWithPassword(userId);
     if (!user) {
@@ -191,6 +581,9 @@ export class AuthService {
     const hashedNewPassword = await bcrypt.hash(newPassword, 10);
     await this.userRepository.update(userId, { password: hashedNewPassword });
 
+    // Sign out other devices; the one making the change stays signed in
+    await this.revokeAllSessions(userId, currentSessionId);
+
     return { message: 'Password changed successfully' };
   }
 
@@ -269,6 +662,113 @@ export class AuthService {
       resetTokenExpiry: undefined,
     });
 
+    // Whoever knew the old password is signed out everywhere
+    await this.revokeAllSessions(user.id);
+
     return { message: 'Password reset successfully' };
   }
+
+  private issueTokens(
+    user: { id: string; email: string },
+    sessionId: string,
+    secret: string
+  ): LoginResponse {
+    const payload: JwtPayload = {
+      sub: user.id,
+      email: user.email,
+      sid: sessionId,
+    };
+
+    return {
+      access_token: this.jwtService.sign(payload),
+      refresh_token: `${sessionId}.${secret}`,
+      user: {
+        id: user.id,
+        email: user.email,
+      },
+    };
+  }
+
+  /**
+   * Refresh tokens are "<session id>.<secret>"
+   */
+  private parseRefreshToken(refreshToken: string): {
+    sessionId: string;
+    secret: string;
+  } {
+    const [sessionId, secret, ...rest] = refreshToken.split('.');
+    if (!isUUID(sessionId) || !secret || rest.length > 0) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+    return { sessionId, secret };
+  }
+
+  private async recordLoginEvent(
+    userId: string,
+    failureReason: string | null,
+    client: ClientInfo
+  ): Promise<void> {
+    await this.loginEventRepository.save(
+      this.loginEventRepository.create({
+        userId,
+        success: failureReason === null,
+        failureReason,
+        userAgent: client.userAgent?.slice(0, 512) ?? null,
+        ipAddress: client.ipAddress ?? null,
+      })
+    );
+  }
+
+  private async revokeSession(sessionId: string): Promise<void> {
+    await this.sessionRepository.update(
+      { id: sessionId, revokedAt: IsNull() },
+      { revokedAt: new Date() }
+    );
+  }
+
+  /**
+   * Rejects a refresh secret that is not the session's current one. Only
+   * the secret the last refresh replaced counts as reuse, and not within
+   * REFRESH_REUSE_GRACE_MS of the rotation, when it is more likely a
+   * second tab refreshing at the same time. Any other secret was never
+   * issued for the session, so it is not allowed to end it.
+   */
+  private async rejectOutdatedSecret(session: UserSession, secret: string): Promise<never> {
+    if (
+      session.previousRefreshTokenHash &&
+      this.matchesHash(secret, session.previousRefreshTokenHash)
+    ) {
+      const rotatedAt = session.refreshTokenRotatedAt?.getTime() ?? 0;
+      if (Date.now() - rotatedAt > REFRESH_REUSE_GRACE_MS) {
+        await this.revokeSession(session.id);
+        throw new UnauthorizedException('Refresh token reused; session revoked');
+      }
+      throw new UnauthorizedException('Refresh token already used');
+    }
+    throw new UnauthorizedException('Invalid refresh token');
+  }
+
+  private hashSecret(secret: string): string {
+    return crypto.createHash('sha256').update(secret).digest('hex');
+  }
+
+  private matchesHash(secret: string, hash: string): boolean {
+    return crypto.timingSafeEqual(
+      Buffer.from(this.hashSecret(secret), 'hex'),
+      Buffer.from(hash, 'hex')
+    );
+  }
+
+  /**
+   * JWT_REFRESH_EXPIRES_IN takes the same "<number><s|m|h|d>" form as
+   * JWT_EXPIRES_IN
+   */
+  private refreshTokenExpiry(): Date {
+    const value = this.configService.get<string>('JWT_REFRESH_EXPIRES_IN', '30d');
+    const match = /^(\d+)([smhd])$/.exec(value);
+    if (!match) {
+      throw new Error(`Invalid JWT_REFRESH_EXPIRES_IN: ${value}`);
+    }
+    return new Date(Date.now() + Number(match[1]) * DURATION_UNIT_MS[match[2]]);
+  }
 }
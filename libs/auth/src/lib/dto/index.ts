@@ -3,3 +3,6 @@ export * from './register.dto';
 export * from './change-password.dto';
 export * from './forgot-password.dto';
 export * from './reset-password.dto';
+export * from './refresh-token.dto';
+export * from './mfa.dto';
+export * from './personal-access-token.dto';
@@ -0,0 +1,17 @@
+import { IsString, IsNotEmpty, MaxLength } from 'class-validator';
+
+/**
+ * A TOTP code from an authenticator app, or one of the recovery codes
+ */
+export class MfaCodeDto {
+  @IsString()
+  @IsNotEmpty({ message: 'Code is required' })
+  @MaxLength(20)
+  code!: string;
+}
+
+export class VerifyMfaDto extends MfaCodeDto {
+  @IsString()
+  @IsNotEmpty({ message: 'MFA token is required' })
+  mfaToken!: string;
+}
@@ -0,0 +1,49 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsEnum,
+  IsInt,
+  IsUUID,
+  IsArray,
+  ArrayMinSize,
+  ValidateNested,
+  MaxLength,
+  Min,
+  Max,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { PermissionAction, PermissionResource } from '@task-manager/data';
+
+export class TokenScopeDto {
+  @IsEnum(PermissionResource)
+  resource!: PermissionResource;
+
+  @IsEnum(PermissionAction)
+  action!: PermissionAction;
+}
+
+export class CreatePersonalAccessTokenDto {
+  @IsString()
+  @IsNotEmpty({ message: 'Name is required' })
+  @MaxLength(100)
+  name!: string;
+
+  @IsArray()
+  @ArrayMinSize(1, { message: 'Select at least one permission' })
+  @ValidateNested({ each: true })
+  @Type(() => TokenScopeDto)
+  scopes!: TokenScopeDto[];
+
+  /** Limits the token to one of the user's organizations */
+  @IsOptional()
+  @IsUUID()
+  organizationId?: string;
+
+  /** Days until the token expires; it never does when left out */
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  expiresInDays?: number;
+}
@@ -1,5 +1,6 @@
 export * from './roles.guard';
 export * from './jwt-auth.guard';
 export * from './local-auth.guard';
+export * from './oidc-auth.guard';
 export * from './org-roles.guard';
 export * from './permissions.guard';
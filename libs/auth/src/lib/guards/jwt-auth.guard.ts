@@ -1,16 +1,40 @@
 import {
   Injectable,
   ExecutionContext,
+  ForbiddenException,
   UnauthorizedException,
 } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
 import { AuthGuard } from '@nestjs/passport';
 import { Observable } from 'rxjs';
+import {
+  PersonalAccessTokensService,
+  isPersonalAccessToken,
+} from '../personal-access-tokens.service';
+import { REQUIRE_PERMISSION_KEY, RequiredPermission } from './permissions.guard';
 
+/**
+ * Accepts JWT access tokens and, as an alternative bearer credential,
+ * personal access tokens
+ */
 @Injectable()
 export class JwtAuthGuard extends AuthGuard('jwt') {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly accessTokensService: PersonalAccessTokensService
+  ) {
+    super();
+  }
+
   canActivate(
     context: ExecutionContext
   ): boolean | Promise<boolean> | Observable<boolean> {
+    const request = context.switchToHttp().getRequest();
+    const [scheme, bearer] = (request.headers?.authorization ?? '').split(' ');
+
+    if (scheme === 'Bearer' && bearer && isPersonalAccessToken(bearer)) {
+      return this.authenticateAccessToken(context, bearer);
+    }
     return super.canActivate(context);
   }
 
@@ -24,4 +48,30 @@ export class JwtAuthGuard extends AuthGuard('jwt') {
     }
     return user;
   }
+
+  /**
+   * Access tokens only work on endpoints that require permissions, where
+   * PermissionsGuard holds them to their scopes
+   */
+  private async authenticateAccessToken(
+    context: ExecutionContext,
+    bearer: string
+  ): Promise<boolean> {
+    const user = await this.accessTokensService.authenticate(bearer);
+    if (!user) {
+      throw new UnauthorizedException('Invalid or expired access token');
+    }
+
+    const requiredPermissions = this.reflector.getAllAndOverride<
+      RequiredPermission[]
+    >(REQUIRE_PERMISSION_KEY, [context.getHandler(), context.getClass()]);
+    if (!requiredPermissions || requiredPermissions.length === 0) {
+      throw new ForbiddenException(
+        'Personal access tokens cannot be used for this endpoint'
+      );
+    }
+
+    context.switchToHttp().getRequest().user = user;
+    return true;
+  }
 }
@@ -0,0 +1,29 @@
+import { Injectable, ExecutionContext, Logger } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+
+/**
+ * Runs OidcStrategy on the callback from the identity provider. A failed
+ * sign-in doesn't end in a JSON error: the reason is left on the request
+ * as ssoError and the handler sends the browser back to the dashboard.
+ */
+@Injectable()
+export class OidcAuthGuard extends AuthGuard('oidc') {
+  private readonly logger = new Logger(OidcAuthGuard.name);
+
+  override handleRequest<TUser = { id: string; email: string }>(
+    err: Error | null,
+    user: TUser | false,
+    info: { message?: string } | undefined,
+    context: ExecutionContext
+  ): TUser | undefined {
+    if (err || !user) {
+      if (err) {
+        this.logger.error(`Single sign-on failed: ${err.message}`);
+      }
+      context.switchToHttp().getRequest().ssoError =
+        info?.message ?? 'Single sign-on failed';
+      return undefined;
+    }
+    return user;
+  }
+}
@@ -3,19 +3,22 @@ import { ExecutionContext, ForbiddenException } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
 import { OrgRolesGuard, ORG_ROLES_KEY } from './org-roles.guard';
 import { AuthService } from '../auth.service';
-import { OrganizationRole } from '@task-manager/data';
+import { OrganizationRole, AuthMethod } from '@task-manager/data';
 
 describe('OrgRolesGuard', () => {
   let guard: OrgRolesGuard;
   let mockReflector: {
     getAllAndOverride: jest.Mock;
   };
-  let mockAuthService: {
-    getUserOrganizationRole: jest.Mock;
-  };
+  let mockAuthService: jest.Mocked<
+    Pick<
+      AuthService,
+      'getUserOrganizationRole' | 'getMfaRequiredRole' | 'isMfaEnabled' | 'isSsoRequired'
+    >
+  >;
 
   const createMockExecutionContext = (
-    user: { id: string; email: string } | null,
+    user: { id: string; email: string; authMethod?: AuthMethod } | null,
     params: Record<string, string> = {},
     body: Record<string, string> = {},
     query: Record<string, string> = {}
@@ -35,6 +38,9 @@ describe('OrgRolesGuard', () => {
 
     mockAuthService = {
       getUserOrganizationRole: jest.fn(),
+      getMfaRequiredRole: jest.fn().mockResolvedValue(null),
+      isMfaEnabled: jest.fn().mockResolvedValue(false),
+      isSsoRequired: jest.fn().mockResolvedValue(false),
     };
 
     const module: TestingModule = await Test.createTestingModule({
@@ -363,4 +369,74 @@ describe('OrgRolesGuard', () => {
       expect(request['userOrgRole']).toBe(OrganizationRole.OWNER);
     });
   });
+
+  describe('Two-factor requirement', () => {
+    const context = () =>
+      createMockExecutionContext(
+        { id: 'user-1', email: 'test@test.com' },
+        { organizationId: 'org-1' }
+      );
+
+    it('should deny members at or above the required role without 2FA', async () => {
+      mockReflector.getAllAndOverride.mockReturnValue([OrganizationRole.VIEWER]);
+      mockAuthService.getUserOrganizationRole.mockResolvedValue(
+        OrganizationRole.ADMIN
+      );
+      mockAuthService.getMfaRequiredRole.mockResolvedValue(OrganizationRole.ADMIN);
+
+      await expect(guard.canActivate(context())).rejects.toThrow(
+        'This organization requires two-factor authentication'
+      );
+      expect(mockAuthService.isMfaEnabled).toHaveBeenCalledWith('user-1');
+    });
+
+    it('should allow members with 2FA enabled', async () => {
+      mockReflector.getAllAndOverride.mockReturnValue([OrganizationRole.VIEWER]);
+      mockAuthService.getUserOrganizationRole.mockResolvedValue(
+        OrganizationRole.OWNER
+      );
+      mockAuthService.getMfaRequiredRole.mockResolvedValue(OrganizationRole.ADMIN);
+      mockAuthService.isMfaEnabled.mockResolvedValue(true);
+
+      await expect(guard.canActivate(context())).resolves.toBe(true);
+    });
+
+    it('should not require 2FA from roles below the required one', async () => {
+      mockReflector.getAllAndOverride.mockReturnValue([OrganizationRole.VIEWER]);
+      mockAuthService.getUserOrganizationRole.mockResolvedValue(
+        OrganizationRole.VIEWER
+      );
+      mockAuthService.getMfaRequiredRole.mockResolvedValue(OrganizationRole.OWNER);
+
+      await expect(guard.canActivate(context())).resolves.toBe(true);
+      expect(mockAuthService.isMfaEnabled).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Single sign-on requirement', () => {
+    const context = (authMethod: AuthMethod) =>
+      createMockExecutionContext(
+        { id: 'user-1', email: 'test@test.com', authMethod },
+        { organizationId: 'org-1' }
+      );
+
+    beforeEach(() => {
+      mockReflector.getAllAndOverride.mockReturnValue([OrganizationRole.VIEWER]);
+      mockAuthService.getUserOrganizationRole.mockResolvedValue(
+        OrganizationRole.OWNER
+      );
+      mockAuthService.isSsoRequired.mockResolvedValue(true);
+    });
+
+    it('should deny members signed in with a password', async () => {
+      await expect(guard.canActivate(context(AuthMethod.PASSWORD))).rejects.toThrow(
+        'This organization requires single sign-on'
+      );
+      expect(mockAuthService.isSsoRequired).toHaveBeenCalledWith('org-1');
+    });
+
+    it('should allow members signed in through SSO', async () => {
+      await expect(guard.canActivate(context(AuthMethod.SSO))).resolves.toBe(true);
+    });
+  });
 });
@@ -7,7 +7,7 @@ import {
 } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
 import { AuthService } from '../auth.service';
-import { OrganizationRole } from '@task-manager/data';
+import { OrganizationRole, AuthMethod } from '@task-manager/data';
 
 /**
  * Role hierarchy: OWNER > ADMIN > VIEWER
@@ -88,6 +88,9 @@ export class OrgRolesGuard implements CanActivate {
     );
 
     if (userRoleLevel >= minRequiredLevel) {
+      await this.assertMfaRequirement(user.id, organizationId, userRole);
+      await this.assertSsoRequirement(user.authMethod, organizationId);
+
       // Attach organization context to request for downstream use
       request.organizationId = organizationId;
       request.userOrgRole = userRole;
@@ -98,4 +101,44 @@ export class OrgRolesGuard implements CanActivate {
       `Insufficient permissions. Required: ${requiredRoles.join(' or ')}, Current: ${userRole}`
     );
   }
+
+  /**
+   * Organizations can require 2FA from members with a given role or above
+   */
+  private async assertMfaRequirement(
+    userId: string,
+    organizationId: string,
+    userRole: OrganizationRole
+  ): Promise<void> {
+    const mfaRequiredRole = await this.authService.getMfaRequiredRole(organizationId);
+    if (!mfaRequiredRole || ROLE_HIERARCHY[userRole] < ROLE_HIERARCHY[mfaRequiredRole]) {
+      return;
+    }
+
+    if (!(await this.authService.isMfaEnabled(userId))) {
+      throw new ForbiddenException(
+        'This organization requires two-factor authentication. Enable it in your account settings.'
+      );
+    }
+  }
+
+  /**
+   * Organizations can require members to have signed in through single
+   * sign-on; personal access tokens carry the method of the session that
+   * created them
+   */
+  private async assertSsoRequirement(
+    authMethod: AuthMethod | undefined,
+    organizationId: string
+  ): Promise<void> {
+    if (authMethod === AuthMethod.SSO) {
+      return;
+    }
+
+    if (await this.authService.isSsoRequired(organizationId)) {
+      throw new ForbiddenException(
+        'This organization requires single sign-on. Sign in with SSO to continue.'
+      );
+    }
+  }
 }
@@ -0,0 +1,134 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { PermissionsGuard } from './permissions.guard';
+import { PermissionsService } from '../permissions.service';
+import { AccessTokenGrant } from '../personal-access-tokens.service';
+import { PermissionAction, PermissionResource } from '@task-manager/data';
+
+describe('PermissionsGuard', () => {
+  let guard: PermissionsGuard;
+  let mockReflector: {
+    getAllAndOverride: jest.Mock;
+  };
+  let mockPermissionsService: {
+    hasPermission: jest.Mock;
+  };
+
+  const createTask = {
+    resource: PermissionResource.TASK,
+    action: PermissionAction.CREATE,
+  };
+  const deleteTask = {
+    resource: PermissionResource.TASK,
+    action: PermissionAction.DELETE,
+  };
+
+  const createMockExecutionContext = (
+    accessToken?: AccessTokenGrant
+  ): ExecutionContext =>
+    ({
+      switchToHttp: () => ({
+        getRequest: () => ({
+          user: { id: 'user-1', email: 'test@test.com', accessToken },
+          params: { organizationId: 'org-1' },
+          body: {},
+          query: {},
+        }),
+      }),
+      getHandler: () => ({}),
+      getClass: () => ({}),
+    }) as ExecutionContext;
+
+  beforeEach(async () => {
+    mockReflector = {
+      getAllAndOverride: jest.fn(),
+    };
+
+    mockPermissionsService = {
+      hasPermission: jest.fn().mockResolvedValue(true),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PermissionsGuard,
+        { provide: Reflector, useValue: mockReflector },
+        { provide: PermissionsService, useValue: mockPermissionsService },
+      ],
+    }).compile();
+
+    guard = module.get<PermissionsGuard>(PermissionsGuard);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should allow access when no permissions are required', async () => {
+    mockReflector.getAllAndOverride.mockReturnValue(undefined);
+
+    await expect(guard.canActivate(createMockExecutionContext())).resolves.toBe(true);
+  });
+
+  it('should allow users with one of the required permissions', async () => {
+    mockReflector.getAllAndOverride.mockReturnValue([deleteTask, createTask]);
+    mockPermissionsService.hasPermission
+      .mockResolvedValueOnce(false)
+      .mockResolvedValueOnce(true);
+
+    await expect(guard.canActivate(createMockExecutionContext())).resolves.toBe(true);
+  });
+
+  it('should deny users without the required permissions', async () => {
+    mockReflector.getAllAndOverride.mockReturnValue([createTask]);
+    mockPermissionsService.hasPermission.mockResolvedValue(false);
+
+    await expect(guard.canActivate(createMockExecutionContext())).rejects.toThrow(
+      ForbiddenException
+    );
+  });
+
+  describe('Personal access tokens', () => {
+    const token: AccessTokenGrant = {
+      id: 'token-1',
+      scopes: [createTask],
+      organizationId: null,
+    };
+
+    it('should allow permissions in both the token scopes and the user permissions', async () => {
+      mockReflector.getAllAndOverride.mockReturnValue([createTask]);
+
+      await expect(guard.canActivate(createMockExecutionContext(token))).resolves.toBe(
+        true
+      );
+    });
+
+    it('should deny permissions of the user outside the token scopes', async () => {
+      mockReflector.getAllAndOverride.mockReturnValue([deleteTask]);
+
+      await expect(guard.canActivate(createMockExecutionContext(token))).rejects.toThrow(
+        ForbiddenException
+      );
+      expect(mockPermissionsService.hasPermission).not.toHaveBeenCalled();
+    });
+
+    it('should deny token scopes the user no longer has', async () => {
+      mockReflector.getAllAndOverride.mockReturnValue([createTask]);
+      mockPermissionsService.hasPermission.mockResolvedValue(false);
+
+      await expect(guard.canActivate(createMockExecutionContext(token))).rejects.toThrow(
+        ForbiddenException
+      );
+    });
+
+    it('should deny organizations other than the one the token is limited to', async () => {
+      mockReflector.getAllAndOverride.mockReturnValue([createTask]);
+
+      await expect(
+        guard.canActivate(
+          createMockExecutionContext({ ...token, organizationId: 'org-2' })
+        )
+      ).rejects.toThrow('This access token is limited to another organization');
+    });
+  });
+});
@@ -6,7 +6,8 @@ import {
   SetMetadata,
 } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
-import { PermissionsService } from '../permissions.service';
+import { PermissionsService, isWithinTokenScope } from '../permissions.service';
+import { AccessTokenGrant } from '../personal-access-tokens.service';
 import { PermissionAction, PermissionResource } from '@task-manager/data';
 
 export const REQUIRE_PERMISSION_KEY = 'require_permission';
@@ -85,13 +86,35 @@ export class PermissionsGuard implements CanActivate {
       throw new ForbiddenException('Organization context required');
     }
 
+    // Requests made with a personal access token get the intersection of
+    // the token's scopes and the user's permissions
+    const accessToken: AccessTokenGrant | undefined = user.accessToken;
+    if (accessToken?.organizationId && accessToken.organizationId !== organizationId) {
+      throw new ForbiddenException(
+        'This access token is limited to another organization'
+      );
+    }
+
     // Check if user has any of the required permissions
     for (const permission of requiredPermissions) {
+      if (
+        accessToken &&
+        !isWithinTokenScope(
+          accessToken,
+          organizationId,
+          permission.resource,
+          permission.action
+        )
+      ) {
+        continue;
+      }
+
       const hasPermission = await this.permissionsService.hasPermission(
         user.id,
         organizationId,
         permission.resource,
-        permission.action
+        permission.action,
+        accessToken
       );
 
       if (hasPermission) {
@@ -0,0 +1,238 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { MfaService } from './mfa.service';
+import { totpCode, totpStep } from './totp';
+import { EntityManager } from 'typeorm';
+import { User, MfaRecoveryCode } from '@task-manager/data';
+
+describe('MfaService', () => {
+  let service: MfaService;
+  let mockUserRepository: {
+    findOne: jest.Mock;
+    update: jest.Mock;
+    createQueryBuilder: jest.Mock;
+  };
+  let userQueryBuilder: {
+    addSelect: jest.Mock;
+    where: jest.Mock;
+    getOne: jest.Mock;
+  };
+  let mockRecoveryCodeRepository: {
+    count: jest.Mock;
+    update: jest.Mock;
+    delete: jest.Mock;
+    manager: { transaction: jest.Mock };
+  };
+  let transactionRepository: {
+    delete: jest.Mock;
+    create: jest.Mock;
+    save: jest.Mock;
+  };
+
+  const secret = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+  const sha256 = (value: string) =>
+    createHash('sha256').update(value).digest('hex');
+
+  const enrolledUser: Partial<User> = {
+    id: 'user-1',
+    email: 'ann@example.com',
+    mfaSecret: secret,
+    mfaEnabledAt: new Date(),
+    mfaLastUsedStep: null,
+  };
+
+  beforeEach(async () => {
+    userQueryBuilder = {
+      addSelect: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      getOne: jest.fn(),
+    };
+
+    mockUserRepository = {
+      findOne: jest.fn(),
+      update: jest.fn().mockResolvedValue({ affected: 1 }),
+      createQueryBuilder: jest.fn(() => userQueryBuilder),
+    };
+
+    transactionRepository = {
+      delete: jest.fn(),
+      create: jest.fn((code: Partial<MfaRecoveryCode>) => code),
+      save: jest.fn(),
+    };
+
+    mockRecoveryCodeRepository = {
+      count: jest.fn(),
+      update: jest.fn().mockResolvedValue({ affected: 1 }),
+      delete: jest.fn(),
+      manager: {
+        transaction: jest.fn(async (work: (manager: EntityManager) => Promise<unknown>) =>
+          work({ getRepository: () => transactionRepository } as unknown as EntityManager)
+        ),
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MfaService,
+        { provide: getRepositoryToken(User), useValue: mockUserRepository },
+        {
+          provide: getRepositoryToken(MfaRecoveryCode),
+          useValue: mockRecoveryCodeRepository,
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((_key: string, fallback?: unknown) => fallback) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<MfaService>(MfaService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('setup', () => {
+    it('should store a new secret and return its otpauth URI', async () => {
+      mockUserRepository.findOne.mockResolvedValue({
+        id: 'user-1',
+        email: 'ann@example.com',
+        mfaEnabledAt: null,
+      });
+
+      const result = await service.setup('user-1');
+
+      expect(mockUserRepository.update).toHaveBeenCalledWith('user-1', {
+        mfaSecret: result.secret,
+        mfaLastUsedStep: null,
+      });
+      expect(result.otpauthUri).toContain('otpauth://totp/Task%20Manager%3Aann%40example.com');
+      expect(result.otpauthUri).toContain(`secret=${result.secret}`);
+    });
+
+    it('should refuse to replace the secret while 2FA is enabled', async () => {
+      mockUserRepository.findOne.mockResolvedValue(enrolledUser);
+
+      await expect(service.setup('user-1')).rejects.toThrow(ConflictException);
+    });
+  });
+
+  describe('enable', () => {
+    const pendingUser = { ...enrolledUser, mfaEnabledAt: null };
+
+    it('should enable 2FA and store ten hashed recovery codes', async () => {
+      userQueryBuilder.getOne.mockResolvedValue(pendingUser);
+
+      const codes = await service.enable('user-1', totpCode(secret, totpStep()));
+
+      expect(codes).toHaveLength(10);
+      expect(codes[0]).toMatch(/^[a-z2-7]{5}-[a-z2-7]{5}$/);
+      expect(mockUserRepository.update).toHaveBeenCalledWith('user-1', {
+        mfaEnabledAt: expect.any(Date),
+      });
+      expect(transactionRepository.delete).toHaveBeenCalledWith({ userId: 'user-1' });
+      expect(transactionRepository.save).toHaveBeenCalledWith(
+        codes.map((code) => ({
+          userId: 'user-1',
+          codeHash: sha256(code.replace('-', '')),
+        }))
+      );
+    });
+
+    it('should reject a wrong code', async () => {
+      userQueryBuilder.getOne.mockResolvedValue(pendingUser);
+      const wrongCode = totpCode(secret, totpStep() + 5);
+
+      await expect(service.enable('user-1', wrongCode)).rejects.toThrow(
+        BadRequestException
+      );
+      expect(transactionRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should require setup first', async () => {
+      userQueryBuilder.getOne.mockResolvedValue({ ...pendingUser, mfaSecret: null });
+
+      await expect(service.enable('user-1', '123456')).rejects.toThrow(
+        'Start two-factor setup first'
+      );
+    });
+  });
+
+  describe('verifyCode', () => {
+    it('should accept a current TOTP code and record its step', async () => {
+      userQueryBuilder.getOne.mockResolvedValue(enrolledUser);
+      const step = totpStep();
+
+      await expect(service.verifyCode('user-1', totpCode(secret, step))).resolves.toBe(true);
+      expect(mockUserRepository.update).toHaveBeenCalledWith(
+        { id: 'user-1', mfaLastUsedStep: expect.anything() },
+        { mfaLastUsedStep: step }
+      );
+    });
+
+    it('should reject a code that was already used', async () => {
+      userQueryBuilder.getOne.mockResolvedValue(enrolledUser);
+      mockUserRepository.update.mockResolvedValue({ affected: 0 });
+
+      await expect(
+        service.verifyCode('user-1', totpCode(secret, totpStep()))
+      ).resolves.toBe(false);
+    });
+
+    it('should use up a recovery code', async () => {
+      userQueryBuilder.getOne.mockResolvedValue(enrolledUser);
+
+      await expect(service.verifyCode('user-1', 'ABCDE-fghij')).resolves.toBe(true);
+      expect(mockRecoveryCodeRepository.update).toHaveBeenCalledWith(
+        { userId: 'user-1', codeHash: sha256('abcdefghij'), usedAt: expect.anything() },
+        { usedAt: expect.any(Date) }
+      );
+    });
+
+    it('should reject unknown or used recovery codes', async () => {
+      userQueryBuilder.getOne.mockResolvedValue(enrolledUser);
+      mockRecoveryCodeRepository.update.mockResolvedValue({ affected: 0 });
+
+      await expect(service.verifyCode('user-1', 'abcde-fghij')).resolves.toBe(false);
+    });
+
+    it('should reject codes when 2FA is not enabled', async () => {
+      userQueryBuilder.getOne.mockResolvedValue({ ...enrolledUser, mfaEnabledAt: null });
+
+      await expect(
+        service.verifyCode('user-1', totpCode(secret, totpStep()))
+      ).resolves.toBe(false);
+    });
+  });
+
+  describe('disable', () => {
+    it('should clear the secret and recovery codes for a valid code', async () => {
+      mockUserRepository.findOne.mockResolvedValue(enrolledUser);
+      userQueryBuilder.getOne.mockResolvedValue(enrolledUser);
+
+      await service.disable('user-1', totpCode(secret, totpStep()));
+
+      expect(mockUserRepository.update).toHaveBeenLastCalledWith('user-1', {
+        mfaSecret: null,
+        mfaEnabledAt: null,
+        mfaLastUsedStep: null,
+      });
+      expect(mockRecoveryCodeRepository.delete).toHaveBeenCalledWith({ userId: 'user-1' });
+    });
+
+    it('should keep 2FA enabled for an invalid code', async () => {
+      mockUserRepository.findOne.mockResolvedValue(enrolledUser);
+      userQueryBuilder.getOne.mockResolvedValue(enrolledUser);
+      mockRecoveryCodeRepository.update.mockResolvedValue({ affected: 0 });
+
+      await expect(service.disable('user-1', 'nope')).rejects.toThrow(
+        BadRequestException
+      );
+      expect(mockRecoveryCodeRepository.delete).not.toHaveBeenCalled();
+    });
+  });
+});
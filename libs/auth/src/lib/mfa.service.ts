@@ -0,0 +1,201 @@
+import {
+  Injectable,
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import * as crypto from 'crypto';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, IsNull, LessThan, Or } from 'typeorm';
+import { ConfigService } from '@nestjs/config';
+import { User, MfaRecoveryCode, IMfaSetup, IMfaStatus } from '@task-manager/data';
+import { base32Encode, generateTotpSecret, matchTotp, totpUri } from './totp';
+
+const RECOVERY_CODE_COUNT = 10;
+
+/**
+ * TOTP two-factor authentication: enrollment, recovery codes and code
+ * checks. Signing in with a second factor is AuthService's job.
+ */
+@Injectable()
+export class MfaService {
+  constructor(
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    @InjectRepository(MfaRecoveryCode)
+    private readonly recoveryCodeRepository: Repository<MfaRecoveryCode>,
+    private readonly configService: ConfigService
+  ) {}
+
+  async getStatus(userId: string): Promise<IMfaStatus> {
+    const user = await this.findUser(userId);
+    const recoveryCodesRemaining = user.mfaEnabledAt
+      ? await this.recoveryCodeRepository.count({
+          where: { userId, usedAt: IsNull() },
+        })
+      : 0;
+
+    return {
+      enabled: !!user.mfaEnabledAt,
+      enabledAt: user.mfaEnabledAt ?? null,
+      recoveryCodesRemaining,
+    };
+  }
+
+  /**
+   * Starts (or restarts) enrollment with a new secret. 2FA stays off
+   * until a code from the secret is confirmed with enable().
+   */
+  async setup(userId: string): Promise<IMfaSetup> {
+    const user = await this.findUser(userId);
+    if (user.mfaEnabledAt) {
+      throw new ConflictException('Two-factor authentication is already enabled');
+    }
+
+    const secret = generateTotpSecret();
+    await this.userRepository.update(userId, {
+      mfaSecret: secret,
+      mfaLastUsedStep: null,
+    });
+
+    const issuer = this.configService.get<string>('MFA_ISSUER', 'Task Manager');
+    return { secret, otpauthUri: totpUri(secret, user.email, issuer) };
+  }
+
+  /**
+   * Turns 2FA on once a code shows the authenticator has the secret, and
+   * returns the first recovery codes
+   */
+  async enable(userId: string, code: string): Promise<string[]> {
+    const user = await this.findUserWithSecret(userId);
+    if (user.mfaEnabledAt) {
+      throw new ConflictException('Two-factor authentication is already enabled');
+    }
+    if (!user.mfaSecret) {
+      throw new BadRequestException('Start two-factor setup first');
+    }
+    if (!(await this.acceptTotp(user, code))) {
+      throw new BadRequestException('Invalid code');
+    }
+
+    await this.userRepository.update(userId, { mfaEnabledAt: new Date() });
+    return this.replaceRecoveryCodes(userId);
+  }
+
+  /**
+   * Turns 2FA off; takes a current code so a stolen session alone can't
+   */
+  async disable(userId: string, code: string): Promise<void> {
+    await this.assertValidCode(userId, code);
+
+    await this.userRepository.update(userId, {
+      mfaSecret: null,
+      mfaEnabledAt: null,
+      mfaLastUsedStep: null,
+    });
+    await this.recoveryCodeRepository.delete({ userId });
+  }
+
+  /**
+   * Replaces all recovery codes, used or not, with a new set
+   */
+  async regenerateRecoveryCodes(userId: string, code: string): Promise<string[]> {
+    await this.assertValidCode(userId, code);
+    return this.replaceRecoveryCodes(userId);
+  }
+
+  /**
+   * Checks a TOTP or recovery code of a user with 2FA enabled. Accepted
+   * codes are used up: a TOTP code can't be replayed (nor any older
+   * one) and each recovery code works once.
+   */
+  async verifyCode(userId: string, code: string): Promise<boolean> {
+    const user = await this.findUserWithSecret(userId);
+    if (!user.mfaEnabledAt || !user.mfaSecret) {
+      return false;
+    }
+
+    const normalized = code.replace(/[\s-]/g, '').toLowerCase();
+    if (/^\d+$/.test(normalized)) {
+      return this.acceptTotp(user, normalized);
+    }
+
+    const result = await this.recoveryCodeRepository.update(
+      { userId, codeHash: hashCode(normalized), usedAt: IsNull() },
+      { usedAt: new Date() }
+    );
+    return !!result.affected;
+  }
+
+  private async assertValidCode(userId: string, code: string): Promise<void> {
+    const user = await this.findUser(userId);
+    if (!user.mfaEnabledAt) {
+      throw new BadRequestException('Two-factor authentication is not enabled');
+    }
+    if (!(await this.verifyCode(userId, code))) {
+      throw new BadRequestException('Invalid code');
+    }
+  }
+
+  private async acceptTotp(user: User, code: string): Promise<boolean> {
+    const step = user.mfaSecret ? matchTotp(user.mfaSecret, code) : null;
+    if (step === null) {
+      return false;
+    }
+
+    // Record the step only if it is newer than the last one used, so two
+    // requests with the same code cannot both pass
+    const result = await this.userRepository.update(
+      { id: user.id, mfaLastUsedStep: Or(IsNull(), LessThan(step)) },
+      { mfaLastUsedStep: step }
+    );
+    return !!result.affected;
+  }
+
+  private async replaceRecoveryCodes(userId: string): Promise<string[]> {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const code = base32Encode(crypto.randomBytes(7)).slice(0, 10).toLowerCase();
+      return `${code.slice(0, 5)}-${code.slice(5)}`;
+    });
+
+    await this.recoveryCodeRepository.manager.transaction(async (manager) => {
+      const repository = manager.getRepository(MfaRecoveryCode);
+      await repository.delete({ userId });
+      await repository.save(
+        codes.map((code) =>
+          repository.create({
+            userId,
+            codeHash: hashCode(code.replace('-', '')),
+          })
+        )
+      );
+    });
+
+    return codes;
+  }
+
+  private async findUser(userId: string): Promise<User> {
+    const user = await this.userRepository.findOne({ where: { id: userId } });
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+    return user;
+  }
+
+  private async findUserWithSecret(userId: string): Promise<User> {
+    const user = await this.userRepository
+      .createQueryBuilder('user')
+      .addSelect('user.mfaSecret')
+      .addSelect('user.mfaLastUsedStep')
+      .where('user.id = :userId', { userId })
+      .getOne();
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+    return user;
+  }
+}
+
+function hashCode(code: string): string {
+  return crypto.createHash('sha256').update(code).digest('hex');
+}
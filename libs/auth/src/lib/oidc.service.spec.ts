@@ -0,0 +1,187 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { JwtService } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
+import { UnauthorizedException } from '@nestjs/common';
+import { createHash, generateKeyPairSync } from 'crypto';
+import { OidcService } from './oidc.service';
+
+describe('OidcService', () => {
+  let service: OidcService;
+  let fetchMock: jest.SpyInstance;
+  let config: Record<string, string | undefined>;
+
+  const issuer = 'https://idp.example.com';
+  const jwtService = new JwtService({ secret: 'test-secret' });
+  const { publicKey, privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const jwk = { ...publicKey.export({ format: 'jwk' }), kid: 'key-1', use: 'sig' };
+  const privateKeyPem = privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+
+  const discovery = {
+    issuer,
+    authorization_endpoint: `${issuer}/authorize`,
+    token_endpoint: `${issuer}/token`,
+    jwks_uri: `${issuer}/jwks`,
+  };
+
+  const jsonResponse = (body: unknown, status = 200) =>
+    ({ ok: status < 400, status, json: async () => body }) as Response;
+
+  const signIdToken = (claims: Record<string, unknown>) =>
+    jwtService.sign(
+      {
+        sub: 'idp-user-1',
+        email: 'ci@example.com',
+        email_verified: true,
+        given_name: 'Casey',
+        iss: issuer,
+        aud: 'task-manager',
+        ...claims,
+      },
+      { secret: privateKeyPem, algorithm: 'RS256', keyid: 'key-1', expiresIn: 60 }
+    );
+
+  /** Starts a sign-in and answers the token request with the given claims */
+  const startFlow = async (claims: Record<string, unknown> = {}) => {
+    const { authorizationUrl, flowToken } = await service.startSignIn();
+    const url = new URL(authorizationUrl);
+    const state = url.searchParams.get('state') as string;
+    const nonce = url.searchParams.get('nonce') as string;
+
+    fetchMock.mockImplementation(async (input: string) => {
+      if (input === discovery.token_endpoint) {
+        return jsonResponse({ id_token: signIdToken({ nonce, ...claims }) });
+      }
+      if (input === discovery.jwks_uri) {
+        return jsonResponse({ keys: [jwk] });
+      }
+      return jsonResponse(discovery);
+    });
+
+    return { url, state, flowToken };
+  };
+
+  beforeEach(async () => {
+    config = {
+      OIDC_ISSUER: issuer,
+      OIDC_CLIENT_ID: 'task-manager',
+      OIDC_REDIRECT_URI: 'http://localhost:3000/api/v1/auth/oidc/callback',
+    };
+
+    fetchMock = jest
+      .spyOn(global, 'fetch')
+      .mockImplementation(async () => jsonResponse(discovery));
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OidcService,
+        { provide: JwtService, useValue: jwtService },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, fallback?: string) => config[key] ?? fallback),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<OidcService>(OidcService);
+  });
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+  });
+
+  it('should be disabled until the provider is configured', () => {
+    expect(service.isEnabled()).toBe(true);
+
+    config['OIDC_ISSUER'] = undefined;
+
+    expect(service.isEnabled()).toBe(false);
+  });
+
+  describe('startSignIn', () => {
+    it('should redirect to the discovered endpoint with a PKCE challenge', async () => {
+      const { url, flowToken } = await startFlow();
+
+      expect(fetchMock).toHaveBeenCalledWith(
+        `${issuer}/.well-known/openid-configuration`,
+        expect.anything()
+      );
+      expect(`${url.origin}${url.pathname}`).toBe(discovery.authorization_endpoint);
+      expect(url.searchParams.get('client_id')).toBe('task-manager');
+      expect(url.searchParams.get('code_challenge_method')).toBe('S256');
+
+      const flow = jwtService.verify(flowToken);
+      expect(url.searchParams.get('code_challenge')).toBe(
+        createHash('sha256').update(flow.codeVerifier).digest('base64url')
+      );
+      expect(flow.state).toBe(url.searchParams.get('state'));
+    });
+
+    it('should reject discovery documents of another issuer', async () => {
+      fetchMock.mockImplementation(async () =>
+        jsonResponse({ ...discovery, issuer: 'https://evil.example.com' })
+      );
+
+      await expect(service.startSignIn()).rejects.toThrow(/discovery document/);
+    });
+  });
+
+  describe('completeSignIn', () => {
+    it('should return the identity of a valid ID token', async () => {
+      const { state, flowToken } = await startFlow();
+
+      const identity = await service.completeSignIn({ code: 'code-1', state }, flowToken);
+
+      expect(identity).toEqual({
+        subject: 'idp-user-1',
+        email: 'ci@example.com',
+        emailVerified: true,
+        firstName: 'Casey',
+        lastName: undefined,
+      });
+      const [, tokenRequest] = fetchMock.mock.calls.find(
+        ([input]) => input === discovery.token_endpoint
+      );
+      const body = tokenRequest.body as URLSearchParams;
+      expect(body.get('code')).toBe('code-1');
+      expect(body.get('code_verifier')).toBe(jwtService.verify(flowToken).codeVerifier);
+    });
+
+    it('should reject a state other than the one of the flow', async () => {
+      const { flowToken } = await startFlow();
+
+      await expect(
+        service.completeSignIn({ code: 'code-1', state: 'forged' }, flowToken)
+      ).rejects.toThrow('Invalid single sign-on response');
+    });
+
+    it('should reject callbacks without a flow cookie', async () => {
+      const { state } = await startFlow();
+
+      await expect(
+        service.completeSignIn({ code: 'code-1', state }, undefined)
+      ).rejects.toThrow('Single sign-on expired');
+    });
+
+    it.each([
+      ['another nonce', { nonce: 'replayed' }],
+      ['another audience', { aud: 'other-client' }],
+    ])('should reject ID tokens with %s', async (_case, claims) => {
+      const { state, flowToken } = await startFlow(claims);
+
+      await expect(
+        service.completeSignIn({ code: 'code-1', state }, flowToken)
+      ).rejects.toThrow('Invalid ID token');
+    });
+
+    it('should pass on errors from the provider', async () => {
+      await expect(
+        service.completeSignIn(
+          { error: 'access_denied', error_description: 'User cancelled' },
+          undefined
+        )
+      ).rejects.toThrow(new UnauthorizedException('User cancelled'));
+    });
+  });
+});
@@ -0,0 +1,373 @@
+import {
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService, JwtVerifyOptions } from '@nestjs/jwt';
+import * as crypto from 'crypto';
+import type { CookieOptions } from 'express';
+
+/** Cookie holding the state of a sign-in while the user is at the provider */
+export const OIDC_FLOW_COOKIE = 'oidc_flow';
+
+// Time to finish signing in at the identity provider
+const FLOW_TTL_SECONDS = 10 * 60;
+
+const ID_TOKEN_ALGORITHMS: JwtVerifyOptions['algorithms'] = [
+  'RS256',
+  'RS384',
+  'RS512',
+  'PS256',
+  'ES256',
+  'ES384',
+];
+
+/** The user an identity provider vouched for */
+export interface OidcIdentity {
+  /** Stable id of the user at the provider ("sub") */
+  subject: string;
+  email: string | null;
+  emailVerified: boolean;
+  firstName?: string;
+  lastName?: string;
+}
+
+/** Query parameters the provider redirects back with */
+export interface OidcCallbackParams {
+  code?: string;
+  state?: string;
+  error?: string;
+  error_description?: string;
+}
+
+interface OidcConfig {
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+  redirectUri: string;
+  scopes: string;
+}
+
+interface OidcDiscovery {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+interface IdTokenClaims {
+  sub: string;
+  nonce?: string;
+  email?: string;
+  email_verified?: boolean | string;
+  given_name?: string;
+  family_name?: string;
+}
+
+type Jwk = crypto.JsonWebKey & { kid?: string; use?: string };
+
+/**
+ * State of a sign-in in progress, signed and kept in OIDC_FLOW_COOKIE.
+ * It has no session, so JwtStrategy never accepts it as an access token.
+ */
+interface OidcFlowPayload {
+  purpose: 'oidc';
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+}
+
+/**
+ * OpenID Connect authorization code flow with PKCE against the provider
+ * at OIDC_ISSUER, configured from its discovery document
+ */
+@Injectable()
+export class OidcService {
+  private discovery: Promise<OidcDiscovery> | null = null;
+  // PEM public keys of the provider by key id
+  private signingKeys = new Map<string, string>();
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly jwtService: JwtService
+  ) {}
+
+  isEnabled(): boolean {
+    return this.readConfig() !== null;
+  }
+
+  /**
+   * Where to send the browser to sign in, and the flow token to keep in
+   * OIDC_FLOW_COOKIE until it comes back
+   */
+  async startSignIn(): Promise<{ authorizationUrl: string; flowToken: string }> {
+    const config = this.getConfig();
+    const discovery = await this.discover();
+
+    const flow: OidcFlowPayload = {
+      purpose: 'oidc',
+      state: randomToken(),
+      nonce: randomToken(),
+      codeVerifier: randomToken(),
+    };
+
+    const url = new URL(discovery.authorization_endpoint);
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('client_id', config.clientId);
+    url.searchParams.set('redirect_uri', config.redirectUri);
+    url.searchParams.set('scope', config.scopes);
+    url.searchParams.set('state', flow.state);
+    url.searchParams.set('nonce', flow.nonce);
+    url.searchParams.set('code_challenge', sha256Base64Url(flow.codeVerifier));
+    url.searchParams.set('code_challenge_method', 'S256');
+
+    return {
+      authorizationUrl: url.toString(),
+      flowToken: this.jwtService.sign(flow, { expiresIn: FLOW_TTL_SECONDS }),
+    };
+  }
+
+  /**
+   * Trades the code the provider redirected back with for a verified ID
+   * token and returns who it identifies
+   */
+  async completeSignIn(
+    params: OidcCallbackParams,
+    flowToken: string | undefined
+  ): Promise<OidcIdentity> {
+    if (params.error) {
+      throw new UnauthorizedException(
+        params.error_description || `The identity provider refused the sign-in (${params.error})`
+      );
+    }
+
+    const flow = this.verifyFlowToken(flowToken);
+    if (!params.code || !params.state || !safeEqual(params.state, flow.state)) {
+      throw new UnauthorizedException('Invalid single sign-on response');
+    }
+
+    const idToken = await this.exchangeCode(params.code, flow.codeVerifier);
+    const claims = await this.verifyIdToken(idToken, flow.nonce);
+
+    return {
+      subject: claims.sub,
+      email: claims.email ?? null,
+      // Some providers send the flag as a string
+      emailVerified: claims.email_verified === true || claims.email_verified === 'true',
+      firstName: claims.given_name,
+      lastName: claims.family_name,
+    };
+  }
+
+  /**
+   * Dashboard page the sign-in ends on, with the result in the fragment
+   * so tokens stay out of server logs and Referer headers
+   */
+  postLoginUrl(result: Record<string, string>): string {
+    const base = this.configService.get<string>(
+      'OIDC_POST_LOGIN_URL',
+      'http://localhost:4200/login'
+    );
+    return `${base}#${new URLSearchParams(result).toString()}`;
+  }
+
+  /**
+   * The flow cookie lives as long as the flow and is only sent back to the
+   * callback. It has to survive the cross-site redirect from the provider,
+   * hence SameSite=Lax.
+   */
+  flowCookieOptions(secure: boolean): CookieOptions {
+    return {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure,
+      path: new URL(this.getConfig().redirectUri).pathname,
+      maxAge: FLOW_TTL_SECONDS * 1000,
+    };
+  }
+
+  private verifyFlowToken(flowToken: string | undefined): OidcFlowPayload {
+    let flow: OidcFlowPayload | null = null;
+    try {
+      flow = flowToken ? this.jwtService.verify<OidcFlowPayload>(flowToken) : null;
+    } catch {
+      flow = null;
+    }
+    if (flow?.purpose !== 'oidc') {
+      throw new UnauthorizedException('Single sign-on expired, please try again');
+    }
+    return flow;
+  }
+
+  private async exchangeCode(code: string, codeVerifier: string): Promise<string> {
+    const config = this.getConfig();
+    const discovery = await this.discover();
+
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: config.redirectUri,
+      client_id: config.clientId,
+      code_verifier: codeVerifier,
+    });
+    if (config.clientSecret) {
+      body.set('client_secret', config.clientSecret);
+    }
+
+    const response = await fetch(discovery.token_endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        Accept: 'application/json',
+      },
+      body,
+    });
+    const tokens = (await response.json().catch(() => ({}))) as { id_token?: string };
+    if (!response.ok || !tokens.id_token) {
+      throw new UnauthorizedException('The identity provider did not accept the sign-in');
+    }
+    return tokens.id_token;
+  }
+
+  private async verifyIdToken(idToken: string, nonce: string): Promise<IdTokenClaims> {
+    const config = this.getConfig();
+    const discovery = await this.discover();
+
+    const decoded = this.jwtService.decode<{ header?: { kid?: string } } | null>(
+      idToken,
+      { complete: true }
+    );
+    if (!decoded?.header) {
+      throw new UnauthorizedException('Invalid ID token');
+    }
+    const publicKey = await this.getSigningKey(decoded.header.kid);
+
+    let claims: IdTokenClaims;
+    try {
+      claims = this.jwtService.verify<IdTokenClaims & object>(idToken, {
+        // Takes precedence over JWT_SECRET, unlike publicKey
+        secret: publicKey,
+        algorithms: ID_TOKEN_ALGORITHMS,
+        issuer: discovery.issuer,
+        audience: config.clientId,
+      });
+    } catch {
+      throw new UnauthorizedException('Invalid ID token');
+    }
+    if (!claims.nonce || !safeEqual(claims.nonce, nonce)) {
+      throw new UnauthorizedException('Invalid ID token');
+    }
+    return claims;
+  }
+
+  private async getSigningKey(kid: string | undefined): Promise<string> {
+    const find = () =>
+      kid
+        ? this.signingKeys.get(kid)
+        : this.signingKeys.size === 1
+          ? [...this.signingKeys.values()][0]
+          : undefined;
+
+    let key = find();
+    if (!key) {
+      // Providers rotate their keys, so an unknown key id means a new set
+      this.signingKeys = await this.fetchSigningKeys();
+      key = find();
+    }
+    if (!key) {
+      throw new UnauthorizedException('Invalid ID token');
+    }
+    return key;
+  }
+
+  private async fetchSigningKeys(): Promise<Map<string, string>> {
+    const { jwks_uri } = await this.discover();
+    const { keys = [] } = await fetchJson<{ keys?: Jwk[] }>(jwks_uri);
+
+    return new Map(
+      keys
+        .filter((jwk) => jwk.use !== 'enc')
+        .map((jwk, index) => [
+          jwk.kid ?? String(index),
+          crypto
+            .createPublicKey({ key: jwk, format: 'jwk' })
+            .export({ type: 'spki', format: 'pem' })
+            .toString(),
+        ])
+    );
+  }
+
+  /**
+   * Fetched once from "<issuer>/.well-known/openid-configuration"; a
+   * failed fetch is retried on the next sign-in
+   */
+  private discover(): Promise<OidcDiscovery> {
+    if (!this.discovery) {
+      const { issuer } = this.getConfig();
+      this.discovery = fetchJson<OidcDiscovery>(
+        `${issuer.replace(/\/$/, '')}/.well-known/openid-configuration`
+      )
+        .then((document) => {
+          if (document.issuer !== issuer) {
+            throw new Error(
+              `OIDC discovery document is for issuer ${document.issuer}, expected ${issuer}`
+            );
+          }
+          return document;
+        })
+        .catch((error) => {
+          this.discovery = null;
+          throw error;
+        });
+    }
+    return this.discovery;
+  }
+
+  private getConfig(): OidcConfig {
+    const config = this.readConfig();
+    if (!config) {
+      throw new NotFoundException('Single sign-on is not configured');
+    }
+    return config;
+  }
+
+  private readConfig(): OidcConfig | null {
+    const issuer = this.configService.get<string>('OIDC_ISSUER');
+    const clientId = this.configService.get<string>('OIDC_CLIENT_ID');
+    const redirectUri = this.configService.get<string>('OIDC_REDIRECT_URI');
+    if (!issuer || !clientId || !redirectUri) {
+      return null;
+    }
+
+    return {
+      issuer,
+      clientId,
+      clientSecret: this.configService.get<string>('OIDC_CLIENT_SECRET') || undefined,
+      redirectUri,
+      scopes: this.configService.get<string>('OIDC_SCOPES', 'openid email profile'),
+    };
+  }
+}
+
+async function fetchJson<T>(url: string): Promise<T> {
+  const response = await fetch(url, { headers: { Accept: 'application/json' } });
+  if (!response.ok) {
+    throw new Error(`GET ${url} failed with status ${response.status}`);
+  }
+  return (await response.json()) as T;
+}
+
+function randomToken(): string {
+  return crypto.randomBytes(32).toString('base64url');
+}
+
+function sha256Base64Url(value: string): string {
+  return crypto.createHash('sha256').update(value).digest('base64url');
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
@@ -181,6 +181,59 @@ describe('PermissionsService', () => {
 
       expect(result).toBe(false);
     });
+
+    it('should deny a personal access token without the matching scope', async () => {
+      const result = await service.hasPermission(
+        'user-1',
+        'org-1',
+        PermissionResource.TASK,
+        PermissionAction.DELETE,
+        {
+          id: 'token-1',
+          scopes: [{ resource: PermissionResource.TASK, action: PermissionAction.UPDATE }],
+          organizationId: null,
+        }
+      );
+
+      expect(result).toBe(false);
+      expect(userOrgRepository.findOne).not.toHaveBeenCalled();
+    });
+
+    it('should deny a personal access token restricted to another organization', async () => {
+      const result = await service.hasPermission(
+        'user-1',
+        'org-1',
+        PermissionResource.TASK,
+        PermissionAction.DELETE,
+        {
+          id: 'token-1',
+          scopes: [{ resource: PermissionResource.TASK, action: PermissionAction.DELETE }],
+          organizationId: 'org-2',
+        }
+      );
+
+      expect(result).toBe(false);
+      expect(userOrgRepository.findOne).not.toHaveBeenCalled();
+    });
+
+    it('should still require the role permission for a personal access token in scope', async () => {
+      userOrgRepository.findOne.mockResolvedValue(null);
+
+      const result = await service.hasPermission(
+        'user-1',
+        'org-1',
+        PermissionResource.TASK,
+        PermissionAction.DELETE,
+        {
+          id: 'token-1',
+          scopes: [{ resource: PermissionResource.TASK, action: PermissionAction.DELETE }],
+          organizationId: 'org-1',
+        }
+      );
+
+      expect(result).toBe(false);
+      expect(userOrgRepository.findOne).toHaveBeenCalled();
+    });
   });
 
   describe('getAllPermissions', () => {
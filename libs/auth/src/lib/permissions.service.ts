@@ -10,6 +10,7 @@ import {
   PermissionResource,
   OrganizationRole,
 } from '@task-manager/data';
+import { AccessTokenGrant } from './personal-access-tokens.service';
 
 export interface EffectivePermission {
   resource: PermissionResource;
@@ -22,6 +23,25 @@ export interface PermissionCheck {
   action: PermissionAction;
 }
 
+/**
+ * Whether a personal access token lets its requests use a permission in
+ * an organization: the permission has to be in its scopes, and the
+ * organization the one it is limited to, if any
+ */
+export function isWithinTokenScope(
+  accessToken: AccessTokenGrant,
+  organizationId: string,
+  resource: PermissionResource,
+  action: PermissionAction
+): boolean {
+  if (accessToken.organizationId && accessToken.organizationId !== organizationId) {
+    return false;
+  }
+  return accessToken.scopes.some(
+    (scope) => scope.resource === resource && scope.action === action
+  );
+}
+
 @Injectable()
 export class PermissionsService {
   // In-memory cache for role permissions (rarely changes)
@@ -40,14 +60,21 @@ export class PermissionsService {
 
   /**
    * Check if a user has a specific permission within an organization.
-   * Considers: role-based permissions + user-level overrides.
+   * Considers: role-based permissions + user-level overrides. Requests
+   * made with a personal access token pass it along, which limits them to
+   * the token's scopes.
    */
   async hasPermission(
     userId: string,
     organizationId: string,
     resource: PermissionResource,
-    action: PermissionAction
+    action: PermissionAction,
+    accessToken?: AccessTokenGrant
   ): Promise<boolean> {
+    if (accessToken && !isWithinTokenScope(accessToken, organizationId, resource, action)) {
+      return false;
+    }
+
     // 1. Get user's role in the organization
     const membership = await this.userOrgRepository.findOne({
       where: { userId, organizationId },
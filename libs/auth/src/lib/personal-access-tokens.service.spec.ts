@@ -0,0 +1,199 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { NotFoundException } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { PersonalAccessTokensService } from './personal-access-tokens.service';
+import {
+  PersonalAccessToken,
+  UserOrganization,
+  PermissionAction,
+  PermissionResource,
+  AuthMethod,
+} from '@task-manager/data';
+
+describe('PersonalAccessTokensService', () => {
+  let service: PersonalAccessTokensService;
+  let mockTokenRepository: {
+    create: jest.Mock;
+    save: jest.Mock;
+    find: jest.Mock;
+    update: jest.Mock;
+    createQueryBuilder: jest.Mock;
+  };
+  let tokenQueryBuilder: {
+    addSelect: jest.Mock;
+    innerJoinAndSelect: jest.Mock;
+    where: jest.Mock;
+    getOne: jest.Mock;
+  };
+  let mockUserOrgRepository: {
+    findOne: jest.Mock;
+  };
+
+  const tokenId = '22222222-2222-4222-8222-222222222222';
+  const sha256 = (value: string) =>
+    createHash('sha256').update(value).digest('hex');
+  const createTaskScope = {
+    resource: PermissionResource.TASK,
+    action: PermissionAction.CREATE,
+  };
+
+  const storedToken = (overrides: Partial<PersonalAccessToken> = {}) => ({
+    id: tokenId,
+    userId: 'user-1',
+    user: { id: 'user-1', email: 'ci@example.com' },
+    name: 'CI',
+    tokenHash: sha256('secret'),
+    scopes: [createTaskScope],
+    organizationId: 'org-1',
+    authMethod: AuthMethod.SSO,
+    expiresAt: null,
+    lastUsedAt: null,
+    revokedAt: null,
+    createdAt: new Date(),
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    tokenQueryBuilder = {
+      addSelect: jest.fn().mockReturnThis(),
+      innerJoinAndSelect: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      getOne: jest.fn(),
+    };
+
+    mockTokenRepository = {
+      create: jest.fn((token) => token),
+      save: jest.fn(async (token) => ({ ...token, id: tokenId, createdAt: new Date() })),
+      find: jest.fn(),
+      update: jest.fn().mockResolvedValue({ affected: 1 }),
+      createQueryBuilder: jest.fn(() => tokenQueryBuilder),
+    };
+
+    mockUserOrgRepository = {
+      findOne: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PersonalAccessTokensService,
+        {
+          provide: getRepositoryToken(PersonalAccessToken),
+          useValue: mockTokenRepository,
+        },
+        {
+          provide: getRepositoryToken(UserOrganization),
+          useValue: mockUserOrgRepository,
+        },
+      ],
+    }).compile();
+
+    service = module.get<PersonalAccessTokensService>(PersonalAccessTokensService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('create', () => {
+    it('should return the token once and store only its hash', async () => {
+      const result = await service.create('user-1', {
+        name: ' CI ',
+        scopes: [createTaskScope, { ...createTaskScope }],
+        expiresInDays: 30,
+      });
+
+      expect(result.token).toMatch(new RegExp(`^tmpat_${tokenId}\\.[\\w-]+$`));
+      const secret = result.token.split('.')[1];
+      expect(mockTokenRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: 'user-1',
+          name: 'CI',
+          tokenHash: sha256(secret),
+          scopes: [createTaskScope],
+          organizationId: null,
+        })
+      );
+      expect(result.expiresAt?.getTime()).toBeGreaterThan(
+        Date.now() + 29 * 24 * 60 * 60 * 1000
+      );
+      expect(result).not.toHaveProperty('tokenHash');
+    });
+
+    it('should only limit tokens to organizations of the user', async () => {
+      mockUserOrgRepository.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.create('user-1', {
+          name: 'CI',
+          scopes: [createTaskScope],
+          organizationId: 'org-2',
+        })
+      ).rejects.toThrow(NotFoundException);
+      expect(mockTokenRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('authenticate', () => {
+    it('should return the user and the grant of a valid token', async () => {
+      tokenQueryBuilder.getOne.mockResolvedValue(storedToken());
+
+      const result = await service.authenticate(`tmpat_${tokenId}.secret`);
+
+      expect(result).toEqual({
+        id: 'user-1',
+        email: 'ci@example.com',
+        authMethod: AuthMethod.SSO,
+        accessToken: { id: tokenId, scopes: [createTaskScope], organizationId: 'org-1' },
+      });
+      expect(mockTokenRepository.update).toHaveBeenCalledWith(tokenId, {
+        lastUsedAt: expect.any(Date),
+      });
+    });
+
+    it('should record the last use at most once a minute', async () => {
+      tokenQueryBuilder.getOne.mockResolvedValue(
+        storedToken({ lastUsedAt: new Date(Date.now() - 10 * 1000) })
+      );
+
+      await service.authenticate(`tmpat_${tokenId}.secret`);
+
+      expect(mockTokenRepository.update).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      ['a wrong secret', {}, 'other'],
+      ['a revoked token', { revokedAt: new Date() }, 'secret'],
+      ['an expired token', { expiresAt: new Date(Date.now() - 1000) }, 'secret'],
+    ])('should reject %s', async (_case, overrides, secret) => {
+      tokenQueryBuilder.getOne.mockResolvedValue(storedToken(overrides));
+
+      await expect(service.authenticate(`tmpat_${tokenId}.${secret}`)).resolves.toBeNull();
+    });
+
+    it('should reject malformed tokens without a lookup', async () => {
+      await expect(service.authenticate('tmpat_not-a-uuid.secret')).resolves.toBeNull();
+      await expect(service.authenticate('eyJhbGciOiJIUzI1NiJ9.e30.sig')).resolves.toBeNull();
+      expect(mockTokenRepository.createQueryBuilder).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revoke', () => {
+    it('should revoke a token of the user', async () => {
+      await service.revoke('user-1', tokenId);
+
+      expect(mockTokenRepository.update).toHaveBeenCalledWith(
+        { id: tokenId, userId: 'user-1', revokedAt: expect.anything() },
+        { revokedAt: expect.any(Date) }
+      );
+    });
+
+    it('should throw NotFoundException for tokens of other users', async () => {
+      mockTokenRepository.update.mockResolvedValue({ affected: 0 });
+
+      await expect(service.revoke('user-2', tokenId)).rejects.toThrow(
+        NotFoundException
+      );
+    });
+  });
+});
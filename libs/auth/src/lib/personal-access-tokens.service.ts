@@ -0,0 +1,194 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import * as crypto from 'crypto';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, IsNull } from 'typeorm';
+import { isUUID } from 'class-validator';
+import {
+  PersonalAccessToken,
+  UserOrganization,
+  AuthMethod,
+  IPersonalAccessToken,
+  ICreatedPersonalAccessToken,
+  ITokenScope,
+} from '@task-manager/data';
+import { CreatePersonalAccessTokenDto } from './dto/personal-access-token.dto';
+
+// Tells access tokens apart from JWTs in the Authorization header
+const TOKEN_PREFIX = 'tmpat_';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Tokens record their last use at most this often
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+/**
+ * What a request authenticated with a personal access token may do, on
+ * top of the permissions of the token's user
+ */
+export interface AccessTokenGrant {
+  id: string;
+  scopes: ITokenScope[];
+  organizationId: string | null;
+}
+
+export interface AccessTokenUser {
+  id: string;
+  email: string;
+  /** How the user had signed in when creating the token */
+  authMethod: AuthMethod;
+  accessToken: AccessTokenGrant;
+}
+
+export function isPersonalAccessToken(bearer: string): boolean {
+  return bearer.startsWith(TOKEN_PREFIX);
+}
+
+@Injectable()
+export class PersonalAccessTokensService {
+  constructor(
+    @InjectRepository(PersonalAccessToken)
+    private readonly tokenRepository: Repository<PersonalAccessToken>,
+    @InjectRepository(UserOrganization)
+    private readonly userOrgRepository: Repository<UserOrganization>
+  ) {}
+
+  /**
+   * Creates a token and returns it in full; only its hash is kept
+   */
+  async create(
+    userId: string,
+    dto: CreatePersonalAccessTokenDto,
+    authMethod: AuthMethod = AuthMethod.PASSWORD
+  ): Promise<ICreatedPersonalAccessToken> {
+    if (dto.organizationId) {
+      const membership = await this.userOrgRepository.findOne({
+        where: { userId, organizationId: dto.organizationId },
+      });
+      if (!membership) {
+        throw new NotFoundException('Organization not found or you are not a member');
+      }
+    }
+
+    const scopes = dto.scopes.filter(
+      (scope, index) =>
+        dto.scopes.findIndex(
+          (other) => other.resource === scope.resource && other.action === scope.action
+        ) === index
+    );
+
+    const secret = crypto.randomBytes(32).toString('base64url');
+    const token = await this.tokenRepository.save(
+      this.tokenRepository.create({
+        userId,
+        name: dto.name.trim(),
+        tokenHash: hashSecret(secret),
+        scopes: scopes.map(({ resource, action }) => ({ resource, action })),
+        organizationId: dto.organizationId ?? null,
+        authMethod,
+        expiresAt: dto.expiresInDays
+          ? new Date(Date.now() + dto.expiresInDays * DAY_MS)
+          : null,
+        lastUsedAt: null,
+        revokedAt: null,
+      })
+    );
+
+    return {
+      ...this.toInterface(token),
+      token: `${TOKEN_PREFIX}${token.id}.${secret}`,
+    };
+  }
+
+  /**
+   * The user's tokens that haven't been revoked, expired ones included
+   */
+  async list(userId: string): Promise<IPersonalAccessToken[]> {
+    const tokens = await this.tokenRepository.find({
+      where: { userId, revokedAt: IsNull() },
+      order: { createdAt: 'DESC' },
+    });
+    return tokens.map((token) => this.toInterface(token));
+  }
+
+  async revoke(userId: string, tokenId: string): Promise<void> {
+    const result = await this.tokenRepository.update(
+      { id: tokenId, userId, revokedAt: IsNull() },
+      { revokedAt: new Date() }
+    );
+    if (!result.affected) {
+      throw new NotFoundException('Access token not found');
+    }
+  }
+
+  /**
+   * The user a bearer token acts for, or null when it isn't a valid,
+   * unexpired and unrevoked access token. Tokens are
+   * "tmpat_<token id>.<secret>".
+   */
+  async authenticate(bearer: string): Promise<AccessTokenUser | null> {
+    if (!isPersonalAccessToken(bearer)) {
+      return null;
+    }
+    const [tokenId, secret, ...rest] = bearer.slice(TOKEN_PREFIX.length).split('.');
+    if (!isUUID(tokenId) || !secret || rest.length > 0) {
+      return null;
+    }
+
+    const token = await this.tokenRepository
+      .createQueryBuilder('token')
+      .addSelect('token.tokenHash')
+      .innerJoinAndSelect('token.user', 'user')
+      .where('token.id = :tokenId', { tokenId })
+      .getOne();
+
+    if (
+      !token ||
+      token.revokedAt ||
+      (token.expiresAt && token.expiresAt <= new Date()) ||
+      !matchesHash(secret, token.tokenHash)
+    ) {
+      return null;
+    }
+
+    if (
+      !token.lastUsedAt ||
+      Date.now() - token.lastUsedAt.getTime() >= LAST_USED_RESOLUTION_MS
+    ) {
+      await this.tokenRepository.update(token.id, { lastUsedAt: new Date() });
+    }
+
+    return {
+      id: token.user.id,
+      email: token.user.email,
+      authMethod: token.authMethod,
+      accessToken: {
+        id: token.id,
+        scopes: token.scopes,
+        organizationId: token.organizationId,
+      },
+    };
+  }
+
+  private toInterface(token: PersonalAccessToken): IPersonalAccessToken {
+    return {
+      id: token.id,
+      name: token.name,
+      scopes: token.scopes,
+      organizationId: token.organizationId,
+      expiresAt: token.expiresAt,
+      lastUsedAt: token.lastUsedAt,
+      createdAt: token.createdAt,
+    };
+  }
+}
+
+function hashSecret(secret: string): string {
+  return crypto.createHash('sha256').update(secret).digest('hex');
+}
+
+function matchesHash(secret: string, hash: string): boolean {
+  return crypto.timingSafeEqual(
+    Buffer.from(hashSecret(secret), 'hex'),
+    Buffer.from(hash, 'hex')
+  );
+}
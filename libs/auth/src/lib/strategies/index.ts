@@ -1,2 +1,3 @@
 export * from './jwt.strategy';
 export * from './local.strategy';
+export * from './oidc.strategy';
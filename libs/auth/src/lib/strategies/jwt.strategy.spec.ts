@@ -2,7 +2,8 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { UnauthorizedException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { JwtStrategy } from './jwt.strategy';
-import { AuthService } from '../auth.service';
+import { AuthMethod } from '@task-manager/data';
+import { AuthService, JwtPayload } from '../auth.service';
 
 describe('JwtStrategy', () => {
   let strategy: JwtStrategy;
@@ -20,6 +21,10 @@ describe('JwtStrategy', () => {
   beforeEach(async () => {
     const mockAuthService = {
       findUserById: jest.fn(),
+      findActiveSession: jest
+        .fn()
+        .mockResolvedValue({ id: 'session-uuid-1', authMethod: AuthMethod.SSO }),
+      touchSession: jest.fn(),
     };
 
     const mockConfigService = {
@@ -44,7 +49,11 @@ describe('JwtStrategy', () => {
 
   describe('validate', () => {
     it('should return user data for valid payload', async () => {
-      const payload = { sub: 'user-uuid-1', email: 'test@example.com' };
+      const payload = {
+        sub: 'user-uuid-1',
+        email: 'test@example.com',
+        sid: 'session-uuid-1',
+      };
       authService.findUserById.mockResolvedValue(mockUser as any);
 
       const result = await strategy.validate(payload);
@@ -52,12 +61,48 @@ describe('JwtStrategy', () => {
       expect(result).toEqual({
         id: 'user-uuid-1',
         email: 'test@example.com',
+        sessionId: 'session-uuid-1',
+        authMethod: AuthMethod.SSO,
       });
       expect(authService.findUserById).toHaveBeenCalledWith('user-uuid-1');
+      expect(authService.findActiveSession).toHaveBeenCalledWith(
+        'session-uuid-1',
+        'user-uuid-1'
+      );
+      expect(authService.touchSession).toHaveBeenCalledWith({
+        id: 'session-uuid-1',
+        authMethod: AuthMethod.SSO,
+      });
+    });
+
+    it('should throw UnauthorizedException if the session has ended', async () => {
+      const payload = {
+        sub: 'user-uuid-1',
+        email: 'test@example.com',
+        sid: 'session-uuid-1',
+      };
+      authService.findActiveSession.mockResolvedValue(null);
+
+      await expect(strategy.validate(payload)).rejects.toThrow(
+        UnauthorizedException
+      );
+      expect(authService.findUserById).not.toHaveBeenCalled();
+    });
+
+    it('should throw UnauthorizedException for tokens without a session', async () => {
+      const payload = { sub: 'user-uuid-1', email: 'test@example.com' };
+
+      await expect(strategy.validate(payload as JwtPayload)).rejects.toThrow(
+        UnauthorizedException
+      );
     });
 
     it('should throw UnauthorizedException if user not found', async () => {
-      const payload = { sub: 'non-existent-user', email: 'notfound@example.com' };
+      const payload = {
+        sub: 'non-existent-user',
+        email: 'notfound@example.com',
+        sid: 'session-uuid-1',
+      };
       authService.findUserById.mockResolvedValue(null);
 
       await expect(strategy.validate(payload)).rejects.toThrow(
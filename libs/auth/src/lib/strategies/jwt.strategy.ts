@@ -2,6 +2,7 @@ import { Injectable, UnauthorizedException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { PassportStrategy } from '@nestjs/passport';
 import { ExtractJwt, Strategy } from 'passport-jwt';
+import { AuthMethod } from '@task-manager/data';
 import { AuthService, JwtPayload } from '../auth.service';
 
 @Injectable()
@@ -22,11 +23,33 @@ export class JwtStrategy extends PassportStrategy(Strategy, 'jwt') {
     });
   }
 
-  async validate(payload: JwtPayload): Promise<{ id: string; email: string }> {
+  async validate(
+    payload: JwtPayload
+  ): Promise<{
+    id: string;
+    email: string;
+    sessionId: string;
+    authMethod: AuthMethod;
+  }> {
+    // Access tokens live only as long as the session they were issued for
+    const session = payload.sid
+      ? await this.authService.findActiveSession(payload.sid, payload.sub)
+      : null;
+    if (!session) {
+      throw new UnauthorizedException('Session has ended');
+    }
+
     const user = await this.authService.findUserById(payload.sub);
     if (!user) {
       throw new UnauthorizedException('User not found');
     }
-    return { id: user.id, email: user.email };
+
+    await this.authService.touchSession(session);
+    return {
+      id: user.id,
+      email: user.email,
+      sessionId: session.id,
+      authMethod: session.authMethod,
+    };
   }
 }
@@ -1,6 +1,7 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { UnauthorizedException } from '@nestjs/common';
 import { LocalStrategy } from './local.strategy';
+import type { Request } from 'express';
 import { AuthService } from '../auth.service';
 
 describe('LocalStrategy', () => {
@@ -14,9 +15,15 @@ describe('LocalStrategy', () => {
     lastName: 'User',
   };
 
+  const mockRequest = {
+    headers: { 'user-agent': 'Mozilla/5.0 Firefox/130.0' },
+    ip: '203.0.113.7',
+  } as unknown as Request;
+
   beforeEach(async () => {
     const mockAuthService = {
       validateUser: jest.fn(),
+      recordFailedLogin: jest.fn(),
     };
 
     const module: TestingModule = await Test.createTestingModule({
@@ -39,6 +46,7 @@ describe('LocalStrategy', () => {
       authService.validateUser.mockResolvedValue(mockUser as any);
 
       const result = await strategy.validate(
+        mockRequest,
         'test@example.com',
         'Password123!'
       );
@@ -51,21 +59,35 @@ describe('LocalStrategy', () => {
         'test@example.com',
         'Password123!'
       );
+      expect(authService.recordFailedLogin).not.toHaveBeenCalled();
     });
 
     it('should throw UnauthorizedException for invalid credentials', async () => {
       authService.validateUser.mockResolvedValue(null);
 
       await expect(
-        strategy.validate('test@example.com', 'wrongpassword')
+        strategy.validate(mockRequest, 'test@example.com', 'wrongpassword')
       ).rejects.toThrow(UnauthorizedException);
     });
 
+    it('should record the failed attempt with the client details', async () => {
+      authService.validateUser.mockResolvedValue(null);
+
+      await expect(
+        strategy.validate(mockRequest, 'test@example.com', 'wrongpassword')
+      ).rejects.toThrow(UnauthorizedException);
+      expect(authService.recordFailedLogin).toHaveBeenCalledWith(
+        'test@example.com',
+        'invalid_password',
+        { userAgent: 'Mozilla/5.0 Firefox/130.0', ipAddress: '203.0.113.7' }
+      );
+    });
+
     it('should throw UnauthorizedException for non-existent user', async () => {
       authService.validateUser.mockResolvedValue(null);
 
       await expect(
-        strategy.validate('notfound@example.com', 'Password123!')
+        strategy.validate(mockRequest, 'notfound@example.com', 'Password123!')
       ).rejects.toThrow('Invalid credentials');
     });
   });
@@ -1,6 +1,7 @@
 import { Injectable, UnauthorizedException } from '@nestjs/common';
 import { PassportStrategy } from '@nestjs/passport';
 import { Strategy } from 'passport-local';
+import type { Request } from 'express';
 import { AuthService } from '../auth.service';
 
 @Injectable()
@@ -9,15 +10,21 @@ export class LocalStrategy extends PassportStrategy(Strategy, 'local') {
     super({
       usernameField: 'email',
       passwordField: 'password',
+      passReqToCallback: true,
     });
   }
 
   async validate(
+    req: Request,
     email: string,
     password: string
   ): Promise<{ id: string; email: string }> {
     const user = await this.authService.validateUser(email, password);
     if (!user) {
+      await this.authService.recordFailedLogin(email, 'invalid_password', {
+        userAgent: req.headers['user-agent'],
+        ipAddress: req.ip,
+      });
       throw new UnauthorizedException('Invalid credentials');
     }
     return { id: user.id, email: user.email };
@@ -0,0 +1,103 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { UnauthorizedException } from '@nestjs/common';
+import type { Request } from 'express';
+import { OidcStrategy } from './oidc.strategy';
+import { AuthService } from '../auth.service';
+import { OidcService } from '../oidc.service';
+
+describe('OidcStrategy', () => {
+  let strategy: OidcStrategy;
+  let authService: { resolveSsoUser: jest.Mock };
+  let oidcService: { completeSignIn: jest.Mock };
+  let outcome: { success: jest.Mock; fail: jest.Mock; error: jest.Mock };
+
+  const identity = {
+    subject: 'idp-user-1',
+    email: 'test@example.com',
+    emailVerified: true,
+  };
+
+  const mockRequest = {
+    query: { code: 'code-1', state: 'state-1' },
+    headers: { cookie: 'theme=dark; oidc_flow=flow-token' },
+  } as unknown as Request;
+
+  /** Runs the strategy and waits for it to succeed, fail or error */
+  const authenticate = () =>
+    new Promise<void>((resolve) => {
+      const done = () => resolve();
+      outcome.success.mockImplementation(done);
+      outcome.fail.mockImplementation(done);
+      outcome.error.mockImplementation(done);
+      strategy.authenticate(mockRequest);
+    });
+
+  beforeEach(async () => {
+    authService = { resolveSsoUser: jest.fn() };
+    oidcService = { completeSignIn: jest.fn().mockResolvedValue(identity) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OidcStrategy,
+        { provide: AuthService, useValue: authService },
+        { provide: OidcService, useValue: oidcService },
+      ],
+    }).compile();
+
+    strategy = module.get<OidcStrategy>(OidcStrategy);
+    outcome = { success: jest.fn(), fail: jest.fn(), error: jest.fn() };
+    Object.assign(strategy, outcome);
+  });
+
+  it('should sign in the user the identity resolves to', async () => {
+    authService.resolveSsoUser.mockResolvedValue({
+      id: 'user-1',
+      email: 'test@example.com',
+      firstName: 'Test',
+    });
+
+    await authenticate();
+
+    expect(oidcService.completeSignIn).toHaveBeenCalledWith(
+      mockRequest.query,
+      'flow-token'
+    );
+    expect(authService.resolveSsoUser).toHaveBeenCalledWith(identity);
+    expect(outcome.success).toHaveBeenCalledWith({ id: 'user-1', email: 'test@example.com' });
+  });
+
+  it('should fail with the reason when the provider response is rejected', async () => {
+    oidcService.completeSignIn.mockRejectedValue(
+      new UnauthorizedException('Invalid single sign-on response')
+    );
+
+    await authenticate();
+
+    expect(outcome.fail).toHaveBeenCalledWith(
+      { message: 'Invalid single sign-on response' },
+      401
+    );
+    expect(authService.resolveSsoUser).not.toHaveBeenCalled();
+  });
+
+  it('should fail when no account can be resolved', async () => {
+    authService.resolveSsoUser.mockRejectedValue(
+      new UnauthorizedException('Your identity provider has not verified your email address')
+    );
+
+    await authenticate();
+
+    expect(outcome.fail).toHaveBeenCalledWith(
+      { message: 'Your identity provider has not verified your email address' },
+      401
+    );
+  });
+
+  it('should report other errors as errors', async () => {
+    oidcService.completeSignIn.mockRejectedValue(new Error('fetch failed'));
+
+    await authenticate();
+
+    expect(outcome.error).toHaveBeenCalledWith(new Error('fetch failed'));
+  });
+});
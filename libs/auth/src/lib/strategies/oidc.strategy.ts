@@ -0,0 +1,76 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { PassportStrategy } from '@nestjs/passport';
+import { Strategy } from 'passport-strategy';
+import type { Request } from 'express';
+import { AuthService } from '../auth.service';
+import {
+  OidcService,
+  OidcIdentity,
+  OidcCallbackParams,
+  OIDC_FLOW_COOKIE,
+} from '../oidc.service';
+
+type VerifyCallback = (
+  identity: OidcIdentity,
+  done: (err: unknown, user?: unknown) => void
+) => void;
+
+/**
+ * Passport strategy for the redirect back from the identity provider.
+ * The sign-in starts at GET /auth/oidc, which sets the flow cookie this
+ * strategy checks the response against.
+ */
+class OidcCallbackStrategy extends Strategy {
+  constructor(
+    private readonly oidcService: OidcService,
+    private readonly verify: VerifyCallback
+  ) {
+    super();
+  }
+
+  override authenticate(req: Request): void {
+    this.oidcService
+      .completeSignIn(req.query as OidcCallbackParams, readCookie(req, OIDC_FLOW_COOKIE))
+      .then((identity) =>
+        this.verify(identity, (err, user) => {
+          if (err) return this.reject(err);
+          if (!user) return this.fail({ message: 'Single sign-on failed' }, 401);
+          this.success(user);
+        })
+      )
+      .catch((err) => this.reject(err));
+  }
+
+  private reject(err: unknown): void {
+    if (err instanceof UnauthorizedException) {
+      this.fail({ message: err.message }, 401);
+    } else {
+      this.error(err as Error);
+    }
+  }
+}
+
+@Injectable()
+export class OidcStrategy extends PassportStrategy(OidcCallbackStrategy, 'oidc') {
+  constructor(
+    oidcService: OidcService,
+    private readonly authService: AuthService
+  ) {
+    super(oidcService);
+  }
+
+  async validate(identity: OidcIdentity): Promise<{ id: string; email: string }> {
+    const user = await this.authService.resolveSsoUser(identity);
+    return { id: user.id, email: user.email };
+  }
+}
+
+function readCookie(req: Request, name: string): string | undefined {
+  for (const pair of (req.headers.cookie ?? '').split(';')) {
+    const [key, ...value] = pair.trim().split('=');
+    if (key === name) {
+      return decodeURIComponent(value.join('='));
+    }
+  }
+  return undefined;
+}
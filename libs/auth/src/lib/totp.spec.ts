@@ -0,0 +1,54 @@
+import {
+  base32Decode,
+  base32Encode,
+  generateTotpSecret,
+  matchTotp,
+  totpCode,
+  totpStep,
+  totpUri,
+} from './totp';
+
+describe('totp', () => {
+  // RFC 6238 appendix B, SHA-1 secret "12345678901234567890"
+  const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+  it('should round-trip base32', () => {
+    expect(base32Encode(Buffer.from('12345678901234567890'))).toBe(RFC_SECRET);
+    expect(base32Decode(RFC_SECRET).toString()).toBe('12345678901234567890');
+    expect(base32Decode('mzxw6===').toString()).toBe('foo');
+  });
+
+  it.each([
+    [59, '287082'],
+    [1111111109, '081804'],
+    [1234567890, '005924'],
+    [2000000000, '279037'],
+  ])('should match the RFC test vector at %i seconds', (seconds, code) => {
+    expect(totpCode(RFC_SECRET, totpStep(seconds * 1000))).toBe(code);
+  });
+
+  it('should accept one step of clock drift either way', () => {
+    const now = 1111111109 * 1000;
+    const step = totpStep(now);
+
+    expect(matchTotp(RFC_SECRET, totpCode(RFC_SECRET, step), now)).toBe(step);
+    expect(matchTotp(RFC_SECRET, totpCode(RFC_SECRET, step - 1), now)).toBe(step - 1);
+    expect(matchTotp(RFC_SECRET, totpCode(RFC_SECRET, step + 1), now)).toBe(step + 1);
+    expect(matchTotp(RFC_SECRET, totpCode(RFC_SECRET, step - 2), now)).toBeNull();
+  });
+
+  it('should reject malformed codes', () => {
+    expect(matchTotp(RFC_SECRET, '12345')).toBeNull();
+    expect(matchTotp(RFC_SECRET, 'abcdef')).toBeNull();
+  });
+
+  it('should generate 160-bit secrets and otpauth URIs', () => {
+    const secret = generateTotpSecret();
+
+    expect(base32Decode(secret)).toHaveLength(20);
+    expect(totpUri(secret, 'ann@example.com', 'Task Manager')).toBe(
+      `otpauth://totp/Task%20Manager%3Aann%40example.com?secret=${secret}` +
+        '&issuer=Task+Manager&algorithm=SHA1&digits=6&period=30'
+    );
+  });
+});
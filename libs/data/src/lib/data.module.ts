@@ -1,9 +1,27 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { User } from './entities/user.entity';
+import { UserSession } from './entities/user-session.entity';
+import { LoginEvent } from './entities/login-event.entity';
+import { MfaRecoveryCode } from './entities/mfa-recovery-code.entity';
+import { PersonalAccessToken } from './entities/personal-access-token.entity';
 import { Organization } from './entities/organization.entity';
 import { UserOrganization } from './entities/user-organization.entity';
 import { Task } from './entities/task.entity';
+import { TaskChecklistItem } from './entities/task-checklist-item.entity';
+import { TaskComment } from './entities/task-comment.entity';
+import { TaskAttachment } from './entities/task-attachment.entity';
+import { TaskLink } from './entities/task-link.entity';
+import { TaskWatcher } from './entities/task-watcher.entity';
+import { TaskActivity } from './entities/task-activity.entity';
+import { TaskRecurrence } from './entities/task-recurrence.entity';
+import { Worklog } from './entities/worklog.entity';
+import { Sprint } from './entities/sprint.entity';
+import { Project } from './entities/project.entity';
+import { SavedView } from './entities/saved-view.entity';
+import { Label } from './entities/label.entity';
+import { WorkflowStatus } from './entities/workflow-status.entity';
+import { CustomField } from './entities/custom-field.entity';
 import { AuditLog } from './entities/audit-log.entity';
 import { Invitation } from './entities/invitation.entity';
 import { Permission } from './entities/permission.entity';
@@ -12,9 +30,27 @@ import { UserPermission } from './entities/user-permission.entity';
 
 export const entities = [
   User,
+  UserSession,
+  LoginEvent,
+  MfaRecoveryCode,
+  PersonalAccessToken,
   Organization,
   UserOrganization,
   Task,
+  TaskChecklistItem,
+  TaskComment,
+  TaskAttachment,
+  TaskLink,
+  TaskWatcher,
+  TaskActivity,
+  TaskRecurrence,
+  Worklog,
+  Sprint,
+  Project,
+  SavedView,
+  Label,
+  WorkflowStatus,
+  CustomField,
   AuditLog,
   Invitation,
   Permission,
@@ -0,0 +1,57 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+import { Organization } from './organization.entity';
+import { CustomFieldType } from '../enums/custom-field-type.enum';
+
+/**
+ * Organization-defined extra field on tasks. Values live on the task in
+ * Task.customFieldValues, keyed by field ID.
+ */
+@Entity('custom_fields')
+@Index('idx_custom_field_org_name', ['organizationId', 'name'], {
+  unique: true,
+})
+export class CustomField {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ name: 'organization_id', type: 'uuid' })
+  organizationId!: string;
+
+  @ManyToOne(() => Organization, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'organization_id' })
+  organization!: Organization;
+
+  @Column({ type: 'varchar', length: 50 })
+  name!: string;
+
+  @Column({ type: 'enum', enum: CustomFieldType })
+  type!: CustomFieldType;
+
+  /**
+   * Choices for SINGLE_SELECT and MULTI_SELECT fields, null otherwise.
+   */
+  @Column({ type: 'varchar', length: 100, array: true, nullable: true })
+  options!: string[] | null;
+
+  /** New tasks must set a value */
+  @Column({ type: 'boolean', default: false })
+  required!: boolean;
+
+  @Column({ type: 'int' })
+  position!: number;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt!: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt!: Date;
+}
@@ -1,7 +1,25 @@
 export * from './user.entity';
+export * from './user-session.entity';
+export * from './login-event.entity';
+export * from './mfa-recovery-code.entity';
+export * from './personal-access-token.entity';
 export * from './organization.entity';
 export * from './user-organization.entity';
 export * from './task.entity';
+export * from './task-checklist-item.entity';
+export * from './task-comment.entity';
+export * from './task-attachment.entity';
+export * from './task-link.entity';
+export * from './task-watcher.entity';
+export * from './task-activity.entity';
+export * from './task-recurrence.entity';
+export * from './worklog.entity';
+export * from './sprint.entity';
+export * from './project.entity';
+export * from './saved-view.entity';
+export * from './label.entity';
+export * from './workflow-status.entity';
+export * from './custom-field.entity';
 export * from './audit-log.entity';
 export * from './invitation.entity';
 export * from './permission.entity';
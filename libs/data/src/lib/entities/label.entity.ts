@@ -0,0 +1,42 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+import { Organization } from './organization.entity';
+
+/**
+ * Organization-defined tag that can be attached to any number of tasks.
+ * Names are unique within an organization.
+ */
+@Entity('labels')
+@Index('idx_label_org_name', ['organizationId', 'name'], { unique: true })
+export class Label {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ name: 'organization_id', type: 'uuid' })
+  organizationId!: string;
+
+  @ManyToOne(() => Organization, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'organization_id' })
+  organization!: Organization;
+
+  @Column({ type: 'varchar', length: 50 })
+  name!: string;
+
+  /** Hex colour, e.g. #6366f1 */
+  @Column({ type: 'varchar', length: 7 })
+  color!: string;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt!: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt!: Date;
+}
@@ -0,0 +1,44 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+import { User } from './user.entity';
+
+/**
+ * A sign-in attempt on a user's account, successful or not, kept so the
+ * user can spot sign-ins they don't recognise
+ */
+@Entity('login_events')
+@Index('idx_login_event_user', ['userId', 'createdAt'])
+export class LoginEvent {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ name: 'user_id', type: 'uuid' })
+  userId!: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user!: User;
+
+  @Column({ type: 'boolean' })
+  success!: boolean;
+
+  /** Why a failed attempt was rejected, e.g. invalid_password */
+  @Column({ name: 'failure_reason', type: 'varchar', length: 50, nullable: true })
+  failureReason!: string | null;
+
+  @Column({ name: 'user_agent', type: 'varchar', length: 512, nullable: true })
+  userAgent!: string | null;
+
+  @Column({ name: 'ip_address', type: 'varchar', length: 45, nullable: true })
+  ipAddress!: string | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt!: Date;
+}
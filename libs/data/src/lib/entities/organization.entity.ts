@@ -11,6 +11,8 @@ import {
 } from 'typeorm';
 import { UserOrganization } from './user-organization.entity';
 import { Task } from './task.entity';
+import { EstimateUnit } from '../enums/estimate-unit.enum';
+import { OrganizationRole } from '../enums/role.enum';
 
 @Entity('organizations')
 export class Organization {
@@ -40,6 +42,61 @@ export class Organization {
   @OneToMany(() => Task, (task) => task.organization)
   tasks!: Task[];
 
+  /**
+   * Attachment storage quota in megabytes (null = server default)
+   */
+  @Column({ name: 'attachment_quota_mb', type: 'int', nullable: true })
+  attachmentQuotaMb!: number | null;
+
+  /**
+   * MIME types allowed for attachments, e.g. `image/*` or `application/pdf`
+   * (null = server default allow-list)
+   */
+  @Column({
+    name: 'allowed_mime_types',
+    type: 'varchar',
+    length: 255,
+    array: true,
+    nullable: true,
+  })
+  allowedMimeTypes!: string[] | null;
+
+  /**
+   * Refuse starting a task while tasks that block it are still open
+   */
+  @Column({ name: 'enforce_blockers', type: 'boolean', default: false })
+  enforceBlockers!: boolean;
+
+  /**
+   * Unit of task estimates
+   */
+  @Column({
+    name: 'estimate_unit',
+    type: 'enum',
+    enum: EstimateUnit,
+    default: EstimateUnit.POINTS,
+  })
+  estimateUnit!: EstimateUnit;
+
+  /**
+   * Members with this role or a higher one must have two-factor
+   * authentication enabled (null = not required)
+   */
+  @Column({
+    name: 'mfa_required_role',
+    type: 'enum',
+    enum: OrganizationRole,
+    nullable: true,
+  })
+  mfaRequiredRole!: OrganizationRole | null;
+
+  /**
+   * Members must have signed in through single sign-on to work in the
+   * organization
+   */
+  @Column({ name: 'sso_required', type: 'boolean', default: false })
+  ssoRequired!: boolean;
+
   @CreateDateColumn({ name: 'created_at' })
   createdAt!: Date;
 
@@ -0,0 +1,75 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+import { User } from './user.entity';
+import { Organization } from './organization.entity';
+import { ITokenScope } from '../interfaces/personal-access-token.interface';
+import { AuthMethod } from '../enums/auth-method.enum';
+
+/**
+ * A bearer credential for scripts and CI. It acts as its user, but only
+ * for the listed permissions and, when set, in one organization.
+ */
+@Entity('personal_access_tokens')
+@Index('idx_personal_access_token_user', ['userId'])
+export class PersonalAccessToken {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ name: 'user_id', type: 'uuid' })
+  userId!: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user!: User;
+
+  @Column({ type: 'varchar', length: 100 })
+  name!: string;
+
+  /** SHA-256 of the token's secret */
+  @Column({ name: 'token_hash', type: 'varchar', length: 64, select: false })
+  tokenHash!: string;
+
+  /** Permissions the token may use, out of those its user has */
+  @Column({ type: 'jsonb' })
+  scopes!: ITokenScope[];
+
+  /** Only organization the token works in; null for all of the user's */
+  @Column({ name: 'organization_id', type: 'uuid', nullable: true })
+  organizationId!: string | null;
+
+  @ManyToOne(() => Organization, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'organization_id' })
+  organization!: Organization | null;
+
+  /**
+   * How the user had signed in when creating the token; organizations
+   * requiring SSO only accept tokens created in an SSO session
+   */
+  @Column({
+    name: 'auth_method',
+    type: 'enum',
+    enum: AuthMethod,
+    default: AuthMethod.PASSWORD,
+  })
+  authMethod!: AuthMethod;
+
+  @Column({ name: 'expires_at', type: 'timestamp', nullable: true })
+  expiresAt!: Date | null;
+
+  /** Recorded at most once a minute */
+  @Column({ name: 'last_used_at', type: 'timestamp', nullable: true })
+  lastUsedAt!: Date | null;
+
+  @Column({ name: 'revoked_at', type: 'timestamp', nullable: true })
+  revokedAt!: Date | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt!: Date;
+}
@@ -0,0 +1,65 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  OneToMany,
+  JoinColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+import { Organization } from './organization.entity';
+import { Task } from './task.entity';
+
+/**
+ * Grouping of tasks inside an organization. Tasks of a project get
+ * human-readable keys such as OPS-42, numbered through `taskCounter`.
+ */
+@Entity('projects')
+@Index('idx_project_org_key', ['organizationId', 'key'], { unique: true })
+export class Project {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ name: 'organization_id', type: 'uuid' })
+  organizationId!: string;
+
+  @ManyToOne(() => Organization, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'organization_id' })
+  organization!: Organization;
+
+  /**
+   * Prefix of task keys, e.g. "OPS". Fixed once the project is created.
+   */
+  @Column({ type: 'varchar', length: 10 })
+  key!: string;
+
+  @Column({ type: 'varchar', length: 100 })
+  name!: string;
+
+  @Column({ type: 'text', nullable: true })
+  description!: string | null;
+
+  /**
+   * Archived projects keep their tasks but take no new ones.
+   */
+  @Column({ type: 'boolean', default: false })
+  archived!: boolean;
+
+  /**
+   * Number of the last task key handed out. Only ever incremented in
+   * the database, so keys are never reused.
+   */
+  @Column({ name: 'task_counter', type: 'int', default: 0 })
+  taskCounter!: number;
+
+  @OneToMany(() => Task, (task) => task.project)
+  tasks!: Task[];
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt!: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt!: Date;
+}
@@ -0,0 +1,70 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+import { Organization } from './organization.entity';
+import { User } from './user.entity';
+import { SavedViewVisibility } from '../enums/saved-view-visibility.enum';
+import { TaskSortField } from '../enums/task-sort-field.enum';
+import { ISavedViewFilters } from '../interfaces/saved-view.interface';
+
+/**
+ * Named board filters and sort of a member. Organization views are
+ * listed for every member, but only their owner changes them.
+ */
+@Entity('saved_views')
+@Index('idx_saved_view_org', ['organizationId', 'visibility'])
+@Index('idx_saved_view_owner_name', ['organizationId', 'ownerId', 'name'], {
+  unique: true,
+})
+export class SavedView {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ name: 'organization_id', type: 'uuid' })
+  organizationId!: string;
+
+  @ManyToOne(() => Organization, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'organization_id' })
+  organization!: Organization;
+
+  @Column({ name: 'owner_id', type: 'uuid' })
+  ownerId!: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'owner_id' })
+  owner!: User;
+
+  @Column({ type: 'varchar', length: 100 })
+  name!: string;
+
+  @Column({ type: 'jsonb', default: () => "'{}'" })
+  filters!: ISavedViewFilters;
+
+  @Column({
+    name: 'sort_by',
+    type: 'enum',
+    enum: TaskSortField,
+    default: TaskSortField.CREATED_AT,
+  })
+  sortBy!: TaskSortField;
+
+  @Column({
+    type: 'enum',
+    enum: SavedViewVisibility,
+    default: SavedViewVisibility.PRIVATE,
+  })
+  visibility!: SavedViewVisibility;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt!: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt!: Date;
+}
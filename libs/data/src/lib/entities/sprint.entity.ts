@@ -0,0 +1,68 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  OneToMany,
+  JoinColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+import { Organization } from './organization.entity';
+import { Task } from './task.entity';
+import { SprintState } from '../enums/sprint-state.enum';
+
+/**
+ * Time-boxed iteration of an organization. Tasks join a sprint through
+ * Task.sprintId; tasks without one are in the backlog.
+ */
+@Entity('sprints')
+@Index('idx_sprint_org', ['organizationId', 'startDate'])
+// At most one ACTIVE sprint per organization
+@Index('idx_sprint_active', ['organizationId'], {
+  unique: true,
+  where: `"state" = 'ACTIVE'`,
+})
+export class Sprint {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ name: 'organization_id', type: 'uuid' })
+  organizationId!: string;
+
+  @ManyToOne(() => Organization, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'organization_id' })
+  organization!: Organization;
+
+  @Column({ type: 'varchar', length: 100 })
+  name!: string;
+
+  @Column({ type: 'text', nullable: true })
+  goal!: string | null;
+
+  @Column({ name: 'start_date', type: 'timestamp' })
+  startDate!: Date;
+
+  @Column({ name: 'end_date', type: 'timestamp' })
+  endDate!: Date;
+
+  @Column({
+    type: 'enum',
+    enum: SprintState,
+    default: SprintState.PLANNED,
+  })
+  state!: SprintState;
+
+  @Column({ name: 'closed_at', type: 'timestamp', nullable: true })
+  closedAt!: Date | null;
+
+  @OneToMany(() => Task, (task) => task.sprint)
+  tasks!: Task[];
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt!: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt!: Date;
+}
@@ -0,0 +1,47 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+import { Task } from './task.entity';
+import { User } from './user.entity';
+import { TaskActivityAction } from '../enums/task-activity-action.enum';
+import { ITaskFieldChange } from '../interfaces/task-activity.interface';
+
+/**
+ * One entry in a task's history: who did what, and for updates the
+ * old and new value of each changed field. Written by TasksService.
+ */
+@Entity('task_activities')
+@Index('idx_task_activity_task', ['taskId', 'createdAt'])
+export class TaskActivity {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ name: 'task_id', type: 'uuid' })
+  taskId!: string;
+
+  @ManyToOne(() => Task, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'task_id' })
+  task!: Task;
+
+  @Column({ name: 'actor_id', type: 'uuid', nullable: true })
+  actorId!: string | null;
+
+  @ManyToOne(() => User, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'actor_id' })
+  actor!: User | null;
+
+  @Column({ type: 'enum', enum: TaskActivityAction })
+  action!: TaskActivityAction;
+
+  @Column({ type: 'jsonb', default: () => "'[]'" })
+  changes!: ITaskFieldChange[];
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt!: Date;
+}
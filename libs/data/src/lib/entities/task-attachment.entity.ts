@@ -0,0 +1,66 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  DeleteDateColumn,
+  Index,
+} from 'typeorm';
+import { Task } from './task.entity';
+import { User } from './user.entity';
+
+/**
+ * File attached to a task. The file itself lives in the configured
+ * storage driver under `storageKey`; this row holds its metadata.
+ * Soft-deleted together with its task.
+ */
+@Entity('task_attachments')
+@Index('idx_attachment_task', ['taskId'])
+@Index('idx_attachment_org', ['organizationId'])
+export class TaskAttachment {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ name: 'task_id', type: 'uuid' })
+  taskId!: string;
+
+  @ManyToOne(() => Task, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'task_id' })
+  task!: Task;
+
+  /**
+   * Denormalized from the task for per-organization quota checks
+   */
+  @Column({ name: 'organization_id', type: 'uuid' })
+  organizationId!: string;
+
+  @Column({ name: 'uploaded_by_id', type: 'uuid', nullable: true })
+  uploadedById!: string | null;
+
+  @ManyToOne(() => User, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'uploaded_by_id' })
+  uploadedBy!: User | null;
+
+  @Column({ name: 'file_name', type: 'varchar', length: 255 })
+  fileName!: string;
+
+  @Column({ name: 'mime_type', type: 'varchar', length: 255 })
+  mimeType!: string;
+
+  /**
+   * File size in bytes
+   */
+  @Column({ type: 'int' })
+  size!: number;
+
+  @Column({ name: 'storage_key', type: 'varchar', length: 512 })
+  storageKey!: string;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt!: Date;
+
+  @DeleteDateColumn({ name: 'deleted_at' })
+  deletedAt!: Date | null;
+}
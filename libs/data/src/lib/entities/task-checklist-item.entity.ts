@@ -0,0 +1,46 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+import { Task } from './task.entity';
+
+/**
+ * Lightweight checklist entry stored per task.
+ * Items are ordered by `position` within their task.
+ */
+@Entity('task_checklist_items')
+@Index('idx_checklist_item_task', ['taskId'])
+export class TaskChecklistItem {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ name: 'task_id', type: 'uuid' })
+  taskId!: string;
+
+  @ManyToOne(() => Task, (task) => task.checklistItems, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'task_id' })
+  task!: Task;
+
+  @Column({ type: 'varchar', length: 255 })
+  title!: string;
+
+  @Column({ name: 'is_done', type: 'boolean', default: false })
+  isDone!: boolean;
+
+  @Column({ type: 'int', default: 0 })
+  position!: number;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt!: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt!: Date;
+}
@@ -0,0 +1,97 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  OneToMany,
+  ManyToMany,
+  JoinColumn,
+  JoinTable,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+import { Task } from './task.entity';
+import { User } from './user.entity';
+
+/**
+ * Discussion comment on a task.
+ * Threads are one level deep: replies always point at a top-level comment.
+ */
+@Entity('task_comments')
+@Index('idx_comment_task', ['taskId'])
+@Index('idx_comment_parent', ['parentId'])
+@Index('idx_comment_search', { synchronize: false })
+export class TaskComment {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ name: 'task_id', type: 'uuid' })
+  taskId!: string;
+
+  @ManyToOne(() => Task, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'task_id' })
+  task!: Task;
+
+  @Column({ name: 'author_id', type: 'uuid', nullable: true })
+  authorId!: string | null;
+
+  @ManyToOne(() => User, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'author_id' })
+  author!: User | null;
+
+  @Column({ name: 'parent_id', type: 'uuid', nullable: true })
+  parentId!: string | null;
+
+  @ManyToOne(() => TaskComment, (comment) => comment.replies, {
+    nullable: true,
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'parent_id' })
+  parent!: TaskComment | null;
+
+  @OneToMany(() => TaskComment, (comment) => comment.parent)
+  replies!: TaskComment[];
+
+  @Column({ type: 'text' })
+  body!: string;
+
+  /**
+   * Organization members mentioned as `@email` in the body
+   */
+  @ManyToMany(() => User)
+  @JoinTable({
+    name: 'task_comment_mentions',
+    joinColumn: { name: 'comment_id', referencedColumnName: 'id' },
+    inverseJoinColumn: { name: 'user_id', referencedColumnName: 'id' },
+  })
+  mentions!: User[];
+
+  /**
+   * Set when the body is edited; drives the "edited" marker in the UI
+   */
+  @Column({ name: 'edited_at', type: 'timestamp', nullable: true })
+  editedAt!: Date | null;
+
+  /**
+   * Full-text document of the body, weighted C so that task titles and
+   * descriptions outrank comments. Maintained by Postgres.
+   */
+  @Column({
+    name: 'search_vector',
+    type: 'tsvector',
+    nullable: true,
+    select: false,
+    insert: false,
+    update: false,
+    generatedType: 'STORED',
+    asExpression: `setweight(to_tsvector('english', coalesce("body", '')), 'C')`,
+  })
+  searchVector?: string | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt!: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt!: Date;
+}
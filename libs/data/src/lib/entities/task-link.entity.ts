@@ -0,0 +1,53 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+import { Task } from './task.entity';
+import { User } from './user.entity';
+import { TaskLinkType } from '../enums/task-link-type.enum';
+
+/**
+ * Typed link between two tasks of the same organization (enforced in
+ * TaskLinksService). BLOCKS and DUPLICATES links never form a cycle.
+ */
+@Entity('task_links')
+@Index('idx_task_link_unique', ['sourceTaskId', 'targetTaskId', 'type'], {
+  unique: true,
+})
+@Index('idx_task_link_target', ['targetTaskId'])
+export class TaskLink {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ name: 'source_task_id', type: 'uuid' })
+  sourceTaskId!: string;
+
+  @ManyToOne(() => Task, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'source_task_id' })
+  sourceTask!: Task;
+
+  @Column({ name: 'target_task_id', type: 'uuid' })
+  targetTaskId!: string;
+
+  @ManyToOne(() => Task, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'target_task_id' })
+  targetTask!: Task;
+
+  @Column({ type: 'enum', enum: TaskLinkType })
+  type!: TaskLinkType;
+
+  @Column({ name: 'created_by_id', type: 'uuid', nullable: true })
+  createdById!: string | null;
+
+  @ManyToOne(() => User, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'created_by_id' })
+  createdBy!: User | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt!: Date;
+}
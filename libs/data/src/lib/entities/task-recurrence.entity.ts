@@ -0,0 +1,81 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+import { Organization } from './organization.entity';
+import { Task } from './task.entity';
+import { User } from './user.entity';
+
+/**
+ * Recurrence rule attached to a template task. The template is the
+ * first occurrence; RecurrenceScheduler creates the following ones
+ * through TasksService and advances nextOccurrenceAt.
+ */
+@Entity('task_recurrences')
+@Index('idx_task_recurrence_template', ['templateTaskId'], { unique: true })
+@Index('idx_task_recurrence_next', ['nextOccurrenceAt'])
+export class TaskRecurrence {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ name: 'organization_id', type: 'uuid' })
+  organizationId!: string;
+
+  @ManyToOne(() => Organization, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'organization_id' })
+  organization!: Organization;
+
+  @Column({ name: 'template_task_id', type: 'uuid' })
+  templateTaskId!: string;
+
+  @ManyToOne(() => Task, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'template_task_id' })
+  templateTask!: Task;
+
+  /**
+   * RFC 5545 RRULE subset, e.g. FREQ=WEEKLY;INTERVAL=1;BYDAY=MO
+   */
+  @Column({ type: 'varchar', length: 255 })
+  rule!: string;
+
+  /** DTSTART of the rule, the date of the template occurrence */
+  @Column({ name: 'starts_at', type: 'timestamp' })
+  startsAt!: Date;
+
+  /** Null once UNTIL or COUNT ends the series */
+  @Column({ name: 'next_occurrence_at', type: 'timestamp', nullable: true })
+  nextOccurrenceAt!: Date | null;
+
+  /** Occurrences created so far, the template included */
+  @Column({ name: 'occurrence_count', type: 'int', default: 1 })
+  occurrenceCount!: number;
+
+  /**
+   * Most recent occurrence. Completing it creates the next one early.
+   */
+  @Column({ name: 'last_task_id', type: 'uuid', nullable: true })
+  lastTaskId!: string | null;
+
+  @ManyToOne(() => Task, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'last_task_id' })
+  lastTask!: Task | null;
+
+  @Column({ name: 'created_by_id', type: 'uuid', nullable: true })
+  createdById!: string | null;
+
+  @ManyToOne(() => User, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'created_by_id' })
+  createdBy!: User | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt!: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt!: Date;
+}
@@ -0,0 +1,36 @@
+import {
+  Entity,
+  PrimaryColumn,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+import { Task } from './task.entity';
+import { User } from './user.entity';
+
+/**
+ * User subscribed to a task. Watchers are the recipients of anything
+ * that happens on the task; creators, assignees and commenters are
+ * subscribed automatically.
+ */
+@Entity('task_watchers')
+@Index('idx_task_watcher_user', ['userId'])
+export class TaskWatcher {
+  @PrimaryColumn({ name: 'task_id', type: 'uuid' })
+  taskId!: string;
+
+  @ManyToOne(() => Task, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'task_id' })
+  task!: Task;
+
+  @PrimaryColumn({ name: 'user_id', type: 'uuid' })
+  userId!: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user!: User;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt!: Date;
+}
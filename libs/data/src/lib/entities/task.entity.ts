@@ -3,6 +3,9 @@ import {
   PrimaryGeneratedColumn,
   Column,
   ManyToOne,
+  OneToMany,
+  ManyToMany,
+  JoinTable,
   JoinColumn,
   CreateDateColumn,
   UpdateDateColumn,
@@ -11,16 +14,38 @@ import {
 } from 'typeorm';
 import { Organization } from './organization.entity';
 import { User } from './user.entity';
+import { TaskChecklistItem } from './task-checklist-item.entity';
+import { Label } from './label.entity';
+import { WorkflowStatus } from './workflow-status.entity';
+import { TaskRecurrence } from './task-recurrence.entity';
+import { Sprint } from './sprint.entity';
+import { Project } from './project.entity';
 import { TaskStatus } from '../enums/task-status.enum';
 import { TaskPriority } from '../enums/task-priority.enum';
-import { TaskCategory } from '../enums/task-category.enum';
+import { CustomFieldValue } from '../interfaces/custom-field.interface';
 
 @Entity('tasks')
 @Index('idx_task_org', ['organizationId'])
+@Index('idx_task_due_date', ['dueDate'])
+@Index('idx_task_parent', ['parentId'])
+@Index('idx_task_status', ['statusId'])
+@Index('idx_task_rank', ['organizationId', 'statusId', 'rank'])
+@Index('idx_task_sprint', ['sprintId'])
+@Index('idx_task_project', ['projectId'])
+@Index('idx_task_key', ['organizationId', 'key'], { unique: true })
+@Index('idx_task_occurrence', ['recurrenceId', 'occurrenceAt'], { unique: true })
+@Index('idx_task_search', { synchronize: false })
 export class Task {
   @PrimaryGeneratedColumn('uuid')
   id!: string;
 
+  /**
+   * Human-readable key such as OPS-42, assigned when the task joins a
+   * project. Null for tasks outside of projects.
+   */
+  @Column({ type: 'varchar', length: 20, nullable: true })
+  key!: string | null;
+
   @Column({ type: 'varchar', length: 255 })
   title!: string;
 
@@ -34,6 +59,24 @@ export class Task {
   })
   status!: TaskStatus;
 
+  /**
+   * Workflow status of the task's organization. `status` holds its
+   * category and is kept in sync by TasksService.
+   */
+  @Column({ name: 'status_id', type: 'uuid', nullable: true })
+  statusId!: string | null;
+
+  @ManyToOne(() => WorkflowStatus, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'status_id' })
+  workflowStatus!: WorkflowStatus | null;
+
+  /**
+   * Position within the task's board column, maintained by TasksService.
+   * Ranks are compared byte-wise, hence the "C" collation.
+   */
+  @Column({ type: 'varchar', length: 255, collation: 'C' })
+  rank!: string;
+
   @Column({
     type: 'enum',
     enum: TaskPriority,
@@ -41,19 +84,37 @@ export class Task {
   })
   priority!: TaskPriority;
 
-  @Column({
-    type: 'enum',
-    enum: TaskCategory,
-    default: TaskCategory.GENERAL,
+  /**
+   * Effort in the organization's estimate unit (points or hours)
+   */
+  @Column({ type: 'real', nullable: true })
+  estimate!: number | null;
+
+  /**
+   * Sprint the task is planned in; null means the backlog.
+   */
+  @Column({ name: 'sprint_id', type: 'uuid', nullable: true })
+  sprintId!: string | null;
+
+  @ManyToOne(() => Sprint, (sprint) => sprint.tasks, {
+    nullable: true,
+    onDelete: 'SET NULL',
   })
-  category!: TaskCategory;
+  @JoinColumn({ name: 'sprint_id' })
+  sprint!: Sprint | null;
+
+  @Column({ name: 'project_id', type: 'uuid', nullable: true })
+  projectId!: string | null;
 
-  @Column({ name: 'assignee_id', type: 'uuid', nullable: true })
-  assigneeId!: string | null;
+  @ManyToOne(() => Project, (project) => project.tasks, { nullable: true })
+  @JoinColumn({ name: 'project_id' })
+  project!: Project | null;
 
-  @ManyToOne(() => User, { nullable: true, onDelete: 'SET NULL' })
-  @JoinColumn({ name: 'assignee_id' })
-  assignee!: User | null;
+  @Column({ name: 'start_date', type: 'timestamp', nullable: true })
+  startDate!: Date | null;
+
+  @Column({ name: 'due_date', type: 'timestamp', nullable: true })
+  dueDate!: Date | null;
 
   @Column({ name: 'organization_id', type: 'uuid' })
   organizationId!: string;
@@ -64,6 +125,90 @@ export class Task {
   @JoinColumn({ name: 'organization_id' })
   organization!: Organization;
 
+  /**
+   * Parent task for subtasks. Must belong to the same organization
+   * (enforced in TasksService).
+   */
+  @Column({ name: 'parent_id', type: 'uuid', nullable: true })
+  parentId!: string | null;
+
+  @ManyToOne(() => Task, (task) => task.children, {
+    nullable: true,
+    onDelete: 'SET NULL',
+  })
+  @JoinColumn({ name: 'parent_id' })
+  parent!: Task | null;
+
+  @OneToMany(() => Task, (task) => task.parent)
+  children!: Task[];
+
+  @OneToMany(() => TaskChecklistItem, (item) => item.task)
+  checklistItems!: TaskChecklistItem[];
+
+  /**
+   * Labels of the task's organization (enforced in TasksService).
+   */
+  @ManyToMany(() => Label)
+  @JoinTable({
+    name: 'task_labels',
+    joinColumn: { name: 'task_id', referencedColumnName: 'id' },
+    inverseJoinColumn: { name: 'label_id', referencedColumnName: 'id' },
+  })
+  labels!: Label[];
+
+  /**
+   * Members of the task's organization (enforced in TasksService).
+   * Leaving the organization unassigns a user from its tasks.
+   */
+  @ManyToMany(() => User)
+  @JoinTable({
+    name: 'task_assignees',
+    joinColumn: { name: 'task_id', referencedColumnName: 'id' },
+    inverseJoinColumn: { name: 'user_id', referencedColumnName: 'id' },
+  })
+  assignees!: User[];
+
+  /**
+   * Custom field values keyed by CustomField ID, validated against the
+   * organization's field definitions in TasksService.
+   */
+  @Column({
+    name: 'custom_field_values',
+    type: 'jsonb',
+    default: () => "'{}'",
+  })
+  customFieldValues!: Record<string, CustomFieldValue>;
+
+  /**
+   * Recurring series the task belongs to, template included. The unique
+   * (recurrence, occurrence date) index keeps generation idempotent.
+   */
+  @Column({ name: 'recurrence_id', type: 'uuid', nullable: true })
+  recurrenceId!: string | null;
+
+  @ManyToOne(() => TaskRecurrence, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'recurrence_id' })
+  recurrence!: TaskRecurrence | null;
+
+  @Column({ name: 'occurrence_at', type: 'timestamp', nullable: true })
+  occurrenceAt!: Date | null;
+
+  /**
+   * Full-text document maintained by Postgres: title and key weighted A,
+   * description B. Only read by SearchService.
+   */
+  @Column({
+    name: 'search_vector',
+    type: 'tsvector',
+    nullable: true,
+    select: false,
+    insert: false,
+    update: false,
+    generatedType: 'STORED',
+    asExpression: `setweight(to_tsvector('english', coalesce("title", '')), 'A') || setweight(to_tsvector('simple', coalesce("key", '')), 'A') || setweight(to_tsvector('english', coalesce("description", '')), 'B')`,
+  })
+  searchVector?: string | null;
+
   @CreateDateColumn({ name: 'created_at' })
   createdAt!: Date;
 
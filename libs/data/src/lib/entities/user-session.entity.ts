@@ -0,0 +1,82 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+import { User } from './user.entity';
+import { AuthMethod } from '../enums/auth-method.enum';
+
+/**
+ * A signed-in device. Each session is one refresh token family: the
+ * refresh token rotates on every use and only the hash of the current
+ * one is kept, so presenting an older token revokes the session.
+ */
+@Entity('user_sessions')
+@Index('idx_user_session_user', ['userId'])
+export class UserSession {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ name: 'user_id', type: 'uuid' })
+  userId!: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user!: User;
+
+  /** SHA-256 of the current refresh token's secret */
+  @Column({ name: 'refresh_token_hash', type: 'varchar', length: 64, select: false })
+  refreshTokenHash!: string;
+
+  /** SHA-256 of the secret the last refresh replaced */
+  @Column({
+    name: 'previous_refresh_token_hash',
+    type: 'varchar',
+    length: 64,
+    nullable: true,
+    select: false,
+  })
+  previousRefreshTokenHash!: string | null;
+
+  /** When the last refresh replaced the secret */
+  @Column({ name: 'refresh_token_rotated_at', type: 'timestamp', nullable: true })
+  refreshTokenRotatedAt!: Date | null;
+
+  /** How the user signed in; kept across refreshes */
+  @Column({
+    name: 'auth_method',
+    type: 'enum',
+    enum: AuthMethod,
+    default: AuthMethod.PASSWORD,
+  })
+  authMethod!: AuthMethod;
+
+  /** Extended on every refresh */
+  @Column({ name: 'expires_at', type: 'timestamp' })
+  expiresAt!: Date;
+
+  /** User-Agent of the browser or client that signed in */
+  @Column({ name: 'user_agent', type: 'varchar', length: 512, nullable: true })
+  userAgent!: string | null;
+
+  @Column({ name: 'ip_address', type: 'varchar', length: 45, nullable: true })
+  ipAddress!: string | null;
+
+  /** Last use of one of the session's tokens, recorded at most once a minute */
+  @Column({ name: 'last_seen_at', type: 'timestamp', default: () => 'now()' })
+  lastSeenAt!: Date;
+
+  @Column({ name: 'revoked_at', type: 'timestamp', nullable: true })
+  revokedAt!: Date | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt!: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt!: Date;
+}
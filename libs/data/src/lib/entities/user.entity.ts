@@ -34,6 +34,28 @@ export class User {
   @Column({ type: 'timestamp', nullable: true, name: 'reset_token_expiry', select: false })
   resetTokenExpiry?: Date;
 
+  /** Base32 TOTP secret; set from 2FA setup on, in use once mfaEnabledAt is set */
+  @Column({ type: 'varchar', length: 64, nullable: true, name: 'mfa_secret', select: false })
+  mfaSecret?: string | null;
+
+  @Column({ type: 'timestamp', nullable: true, name: 'mfa_enabled_at' })
+  mfaEnabledAt?: Date | null;
+
+  /** Time step of the last accepted code, so a code cannot be replayed */
+  @Column({ type: 'int', nullable: true, name: 'mfa_last_used_step', select: false })
+  mfaLastUsedStep?: number | null;
+
+  /** Subject ("sub") of the linked identity at the OIDC provider */
+  @Column({
+    type: 'varchar',
+    length: 255,
+    nullable: true,
+    unique: true,
+    name: 'oidc_subject',
+    select: false,
+  })
+  oidcSubject?: string | null;
+
   @CreateDateColumn({ name: 'created_at' })
   createdAt!: Date;
 
@@ -0,0 +1,64 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+import { Organization } from './organization.entity';
+import { TaskStatus } from '../enums/task-status.enum';
+
+/**
+ * One column of an organization's workflow. Statuses are ordered by
+ * position and each counts as one of the fixed TaskStatus categories,
+ * which is what analytics and overdue checks look at.
+ */
+@Entity('workflow_statuses')
+@Index('idx_workflow_status_org_name', ['organizationId', 'name'], {
+  unique: true,
+})
+@Index('idx_workflow_status_org_position', ['organizationId', 'position'])
+export class WorkflowStatus {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ name: 'organization_id', type: 'uuid' })
+  organizationId!: string;
+
+  @ManyToOne(() => Organization, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'organization_id' })
+  organization!: Organization;
+
+  @Column({ type: 'varchar', length: 50 })
+  name!: string;
+
+  @Column({ type: 'enum', enum: TaskStatus })
+  category!: TaskStatus;
+
+  /** Hex colour, e.g. #60a5fa */
+  @Column({ type: 'varchar', length: 7 })
+  color!: string;
+
+  @Column({ type: 'int' })
+  position!: number;
+
+  /**
+   * Statuses a task may move to from this one. Null allows any move.
+   */
+  @Column({
+    name: 'allowed_transitions',
+    type: 'uuid',
+    array: true,
+    nullable: true,
+  })
+  allowedTransitions!: string[] | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt!: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt!: Date;
+}
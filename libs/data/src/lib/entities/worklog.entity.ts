@@ -0,0 +1,69 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+import { Organization } from './organization.entity';
+import { Task } from './task.entity';
+import { User } from './user.entity';
+
+/**
+ * Time a user spent on a task. A worklog without an end is a running
+ * timer; each user has at most one.
+ */
+@Entity('worklogs')
+@Index('idx_worklog_task', ['taskId'])
+@Index('idx_worklog_user_started', ['userId', 'startedAt'])
+@Index('idx_worklog_running', ['userId'], {
+  unique: true,
+  where: '"ended_at" IS NULL',
+})
+export class Worklog {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ name: 'organization_id', type: 'uuid' })
+  organizationId!: string;
+
+  @ManyToOne(() => Organization, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'organization_id' })
+  organization!: Organization;
+
+  @Column({ name: 'task_id', type: 'uuid' })
+  taskId!: string;
+
+  @ManyToOne(() => Task, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'task_id' })
+  task!: Task;
+
+  @Column({ name: 'user_id', type: 'uuid' })
+  userId!: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user!: User;
+
+  @Column({ name: 'started_at', type: 'timestamp' })
+  startedAt!: Date;
+
+  @Column({ name: 'ended_at', type: 'timestamp', nullable: true })
+  endedAt!: Date | null;
+
+  /** Null while the timer is running */
+  @Column({ name: 'duration_seconds', type: 'int', nullable: true })
+  durationSeconds!: number | null;
+
+  @Column({ type: 'text', nullable: true })
+  note!: string | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt!: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt!: Date;
+}
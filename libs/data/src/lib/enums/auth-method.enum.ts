@@ -0,0 +1,8 @@
+/**
+ * How a user signed in: with their password or through the
+ * organization's identity provider (OIDC single sign-on).
+ */
+export enum AuthMethod {
+  PASSWORD = 'PASSWORD',
+  SSO = 'SSO',
+}
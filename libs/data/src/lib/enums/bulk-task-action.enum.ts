@@ -0,0 +1,11 @@
+/**
+ * What POST /tasks/bulk does to each of the given tasks
+ */
+export enum BulkTaskAction {
+  /** Change status, priority, labels, assignees or project */
+  UPDATE = 'UPDATE',
+  /** Soft delete, together with subtasks */
+  DELETE = 'DELETE',
+  /** Restore from the trash, together with the subtasks deleted with it */
+  RESTORE = 'RESTORE',
+}
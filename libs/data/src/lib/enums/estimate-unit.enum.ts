@@ -0,0 +1,7 @@
+/**
+ * Unit of task estimates, chosen per organization.
+ */
+export enum EstimateUnit {
+  POINTS = 'POINTS',
+  HOURS = 'HOURS',
+}
@@ -1,7 +1,16 @@
 export * from './role.enum';
 export * from './task-status.enum';
 export * from './task-priority.enum';
-export * from './task-category.enum';
+export * from './custom-field-type.enum';
+export * from './task-link-type.enum';
+export * from './task-activity-action.enum';
+export * from './bulk-task-action.enum';
+export * from './task-sort-field.enum';
+export * from './saved-view-visibility.enum';
+export * from './recurrence-frequency.enum';
+export * from './sprint-state.enum';
+export * from './estimate-unit.enum';
 export * from './invitation-status.enum';
 export * from './permission-action.enum';
 export * from './permission-resource.enum';
+export * from './auth-method.enum';
@@ -4,4 +4,9 @@ export enum PermissionResource {
   MEMBER = 'MEMBER',
   AUDIT_LOG = 'AUDIT_LOG',
   INVITATION = 'INVITATION',
+  COMMENT = 'COMMENT',
+  CUSTOM_FIELD = 'CUSTOM_FIELD',
+  WORKLOG = 'WORKLOG',
+  SPRINT = 'SPRINT',
+  PROJECT = 'PROJECT',
 }
@@ -0,0 +1,8 @@
+/**
+ * FREQ values of the supported RRULE subset.
+ */
+export enum RecurrenceFrequency {
+  DAILY = 'DAILY',
+  WEEKLY = 'WEEKLY',
+  MONTHLY = 'MONTHLY',
+}
@@ -0,0 +1,8 @@
+/**
+ * Who sees a saved view: only its owner, or every member of its
+ * organization.
+ */
+export enum SavedViewVisibility {
+  PRIVATE = 'PRIVATE',
+  ORGANIZATION = 'ORGANIZATION',
+}
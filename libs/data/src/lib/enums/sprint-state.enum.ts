@@ -0,0 +1,8 @@
+/**
+ * Lifecycle of a sprint. At most one sprint per organization is ACTIVE.
+ */
+export enum SprintState {
+  PLANNED = 'PLANNED',
+  ACTIVE = 'ACTIVE',
+  CLOSED = 'CLOSED',
+}
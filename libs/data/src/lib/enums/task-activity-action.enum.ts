@@ -0,0 +1,10 @@
+/**
+ * What happened to a task in a history entry. UPDATED entries carry the
+ * changed fields.
+ */
+export enum TaskActivityAction {
+  CREATED = 'CREATED',
+  UPDATED = 'UPDATED',
+  DELETED = 'DELETED',
+  RESTORED = 'RESTORED',
+}
@@ -1,6 +0,0 @@
-export enum TaskCategory {
-  GENERAL = 'GENERAL',
-  WORK = 'WORK',
-  PERSONAL = 'PERSONAL',
-  URGENT = 'URGENT',
-}
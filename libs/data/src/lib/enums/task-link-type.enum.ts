@@ -0,0 +1,10 @@
+/**
+ * Kind of link between two tasks, read from the source task:
+ * "source BLOCKS target", "source DUPLICATES target".
+ * RELATES_TO has no direction.
+ */
+export enum TaskLinkType {
+  BLOCKS = 'BLOCKS',
+  RELATES_TO = 'RELATES_TO',
+  DUPLICATES = 'DUPLICATES',
+}
@@ -0,0 +1,13 @@
+/**
+ * Fields GET /tasks can sort by
+ */
+export enum TaskSortField {
+  CREATED_AT = 'createdAt',
+  UPDATED_AT = 'updatedAt',
+  /** Tasks without a due date come last in either direction */
+  DUE_DATE = 'dueDate',
+  PRIORITY = 'priority',
+  TITLE = 'title',
+  /** Board order, as arranged by moving tasks */
+  MANUAL = 'manual',
+}
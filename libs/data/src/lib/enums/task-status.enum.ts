@@ -1,3 +1,7 @@
+/**
+ * Status category of a task. Organizations define their own workflow
+ * statuses (see WorkflowStatus), each of which maps to one of these.
+ */
 export enum TaskStatus {
   TODO = 'TODO',
   IN_PROGRESS = 'IN_PROGRESS',
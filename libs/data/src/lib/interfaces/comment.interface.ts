@@ -0,0 +1,15 @@
+import { IUser } from './user.interface';
+
+export interface ITaskComment {
+  id: string;
+  taskId: string;
+  authorId: string | null;
+  author?: IUser | null;
+  parentId: string | null;
+  body: string;
+  mentions?: IUser[];
+  editedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+  replies?: ITaskComment[];
+}
@@ -0,0 +1,20 @@
+import { CustomFieldType } from '../enums/custom-field-type.enum';
+
+/**
+ * Stored value of a custom field: text, ISO date (yyyy-MM-dd), option and
+ * user ID fields hold a string, NUMBER a number and MULTI_SELECT a list
+ * of options.
+ */
+export type CustomFieldValue = string | number | string[];
+
+export interface ICustomField {
+  id: string;
+  organizationId: string;
+  name: string;
+  type: CustomFieldType;
+  options: string[] | null;
+  required: boolean;
+  position: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
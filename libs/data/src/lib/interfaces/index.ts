@@ -1,4 +1,20 @@
 export * from './user.interface';
+export * from './session.interface';
+export * from './mfa.interface';
+export * from './personal-access-token.interface';
 export * from './organization.interface';
 export * from './task.interface';
+export * from './label.interface';
+export * from './workflow-status.interface';
+export * from './custom-field.interface';
+export * from './task-link.interface';
+export * from './task-watcher.interface';
+export * from './task-activity.interface';
+export * from './task-recurrence.interface';
+export * from './worklog.interface';
+export * from './sprint.interface';
+export * from './project.interface';
+export * from './comment.interface';
 export * from './invitation.interface';
+export * from './search.interface';
+export * from './saved-view.interface';
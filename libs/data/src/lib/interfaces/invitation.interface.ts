@@ -31,6 +31,7 @@ export interface IAcceptInvitation {
 
 export interface IOrganizationMember {
   id: string;
+  userId: string;
   email: string;
   firstName?: string;
   lastName?: string;
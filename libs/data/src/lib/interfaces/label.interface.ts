@@ -0,0 +1,8 @@
+export interface ILabel {
+  id: string;
+  organizationId: string;
+  name: string;
+  color: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
@@ -0,0 +1,23 @@
+/**
+ * A new TOTP secret waiting to be confirmed with a first code
+ */
+export interface IMfaSetup {
+  secret: string;
+  /** otpauth:// URI for authenticator apps, usually shown as a QR code */
+  otpauthUri: string;
+}
+
+/**
+ * Returned after password sign-in when the account has 2FA enabled; the
+ * token is exchanged together with a code at POST /auth/mfa/verify
+ */
+export interface IMfaChallenge {
+  mfa_required: true;
+  mfa_token: string;
+}
+
+export interface IMfaStatus {
+  enabled: boolean;
+  enabledAt: Date | null;
+  recoveryCodesRemaining: number;
+}
@@ -1,7 +1,18 @@
+import { EstimateUnit } from '../enums/estimate-unit.enum';
+import { OrganizationRole } from '../enums/role.enum';
+
 export interface IOrganization {
   id: string;
   name: string;
   parentId: string | null;
+  attachmentQuotaMb?: number | null;
+  allowedMimeTypes?: string[] | null;
+  enforceBlockers?: boolean;
+  estimateUnit?: EstimateUnit;
+  /** Members with this role or higher need 2FA (null = not required) */
+  mfaRequiredRole?: OrganizationRole | null;
+  /** Members must sign in through single sign-on */
+  ssoRequired?: boolean;
   createdAt: Date;
   updatedAt: Date;
 }
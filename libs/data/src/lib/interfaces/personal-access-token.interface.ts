@@ -0,0 +1,24 @@
+import { PermissionAction } from '../enums/permission-action.enum';
+import { PermissionResource } from '../enums/permission-resource.enum';
+
+export interface ITokenScope {
+  resource: PermissionResource;
+  action: PermissionAction;
+}
+
+export interface IPersonalAccessToken {
+  id: string;
+  name: string;
+  scopes: ITokenScope[];
+  organizationId: string | null;
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  createdAt: Date;
+}
+
+/**
+ * Returned once, when the token is created; only its hash is stored
+ */
+export interface ICreatedPersonalAccessToken extends IPersonalAccessToken {
+  token: string;
+}
@@ -0,0 +1,11 @@
+export interface IProject {
+  id: string;
+  organizationId: string;
+  key: string;
+  name: string;
+  description: string | null;
+  archived: boolean;
+  taskCounter: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
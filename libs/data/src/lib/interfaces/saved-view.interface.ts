@@ -0,0 +1,25 @@
+import { SavedViewVisibility } from '../enums/saved-view-visibility.enum';
+import { TaskSortField } from '../enums/task-sort-field.enum';
+
+/**
+ * Board filters kept in a saved view, named after the GET /tasks query
+ * parameters they stand for
+ */
+export interface ISavedViewFilters {
+  search?: string;
+  labelIds?: string[];
+  sprintId?: string;
+  projectId?: string;
+}
+
+export interface ISavedView {
+  id: string;
+  organizationId: string;
+  ownerId: string;
+  name: string;
+  filters: ISavedViewFilters;
+  sortBy: TaskSortField;
+  visibility: SavedViewVisibility;
+  createdAt: Date;
+  updatedAt: Date;
+}
@@ -0,0 +1,22 @@
+import { TaskStatus } from '../enums/task-status.enum';
+
+/**
+ * One task matched by GET /search. Highlights are HTML-escaped, with the
+ * matched words wrapped in `<mark>`.
+ */
+export interface ISearchHit {
+  taskId: string;
+  organizationId: string;
+  key: string | null;
+  title: string;
+  status: TaskStatus;
+  statusId: string | null;
+  projectId: string | null;
+  /** Relevance; higher is better */
+  rank: number;
+  titleHighlight: string;
+  /** Excerpt of the description or of the best matching comment */
+  snippet: string | null;
+  /** Set when the snippet comes from a comment */
+  commentId: string | null;
+}
@@ -0,0 +1,31 @@
+import { AuthMethod } from '../enums/auth-method.enum';
+
+/**
+ * A browser or device the current user is signed in on
+ */
+export interface IUserSession {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: Date;
+  lastSeenAt: Date;
+  authMethod: AuthMethod;
+  /** The session making the request */
+  current: boolean;
+}
+
+export interface ILoginEvent {
+  id: string;
+  success: boolean;
+  failureReason: string | null;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: Date;
+}
+
+/**
+ * Whether the API offers single sign-on, so the login page can show it
+ */
+export interface ISsoConfig {
+  enabled: boolean;
+}
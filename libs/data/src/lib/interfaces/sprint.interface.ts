@@ -0,0 +1,25 @@
+import { SprintState } from '../enums/sprint-state.enum';
+
+export interface ISprint {
+  id: string;
+  organizationId: string;
+  name: string;
+  goal: string | null;
+  startDate: Date;
+  endDate: Date;
+  state: SprintState;
+  closedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+  summary?: ISprintSummary;
+}
+
+/**
+ * Progress of a sprint. Estimates are in the organization's unit.
+ */
+export interface ISprintSummary {
+  taskCount: number;
+  doneCount: number;
+  totalEstimate: number;
+  doneEstimate: number;
+}
@@ -0,0 +1,36 @@
+import { TaskActivityAction } from '../enums/task-activity-action.enum';
+import { IUser } from './user.interface';
+
+/**
+ * A changed field. Dates are ISO strings; labels and assignees are
+ * recorded as sorted ID lists under `labelIds` and `assigneeIds`, and
+ * custom fields one by one as `customFieldValues.<fieldId>`.
+ */
+export interface ITaskFieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface ITaskActivity {
+  id: string;
+  taskId: string;
+  actorId: string | null;
+  action: TaskActivityAction;
+  changes: ITaskFieldChange[];
+  createdAt: Date;
+  actor?: IUser | null;
+}
+
+export interface ITimeInStatus {
+  statusId: string;
+  seconds: number;
+}
+
+export interface ITaskHistory {
+  activities: ITaskActivity[];
+  /** Times the task left DONE for another status category */
+  reopenCount: number;
+  /** Seconds spent in each workflow status while not deleted */
+  timeInStatus: ITimeInStatus[];
+}
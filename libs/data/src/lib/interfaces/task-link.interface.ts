@@ -0,0 +1,15 @@
+import { TaskLinkType } from '../enums/task-link-type.enum';
+import { ITask } from './task.interface';
+
+export type ITaskLinkTask = Pick<ITask, 'id' | 'title' | 'status' | 'statusId'>;
+
+export interface ITaskLink {
+  id: string;
+  sourceTaskId: string;
+  targetTaskId: string;
+  type: TaskLinkType;
+  createdById: string | null;
+  createdAt: Date;
+  sourceTask?: ITaskLinkTask;
+  targetTask?: ITaskLinkTask;
+}
@@ -0,0 +1,14 @@
+export interface ITaskRecurrence {
+  id: string;
+  organizationId: string;
+  templateTaskId: string;
+  /** RFC 5545 RRULE subset, e.g. FREQ=WEEKLY;INTERVAL=1;BYDAY=MO */
+  rule: string;
+  startsAt: Date;
+  nextOccurrenceAt: Date | null;
+  occurrenceCount: number;
+  lastTaskId: string | null;
+  createdById: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
@@ -0,0 +1,8 @@
+import { IUser } from './user.interface';
+
+export interface ITaskWatcher {
+  taskId: string;
+  userId: string;
+  createdAt: Date;
+  user?: IUser;
+}
@@ -1,17 +1,87 @@
 import { TaskStatus } from '../enums/task-status.enum';
 import { TaskPriority } from '../enums/task-priority.enum';
-import { TaskCategory } from '../enums/task-category.enum';
+import { ILabel } from './label.interface';
+import { IUser } from './user.interface';
+import { CustomFieldValue } from './custom-field.interface';
 
 export interface ITask {
   id: string;
+  key?: string | null;
   title: string;
   description: string | null;
   status: TaskStatus;
+  statusId: string | null;
+  /** Position within the board column; orders the board when sorted manually */
+  rank?: string;
   priority: TaskPriority;
-  category: TaskCategory;
-  assigneeId: string | null;
+  estimate?: number | null;
+  sprintId?: string | null;
+  projectId?: string | null;
+  startDate: Date | null;
+  dueDate: Date | null;
+  parentId: string | null;
+  recurrenceId?: string | null;
+  occurrenceAt?: Date | null;
   organizationId: string;
   createdAt: Date;
   updatedAt: Date;
   deletedAt?: Date | null;
+  labels?: ILabel[];
+  assignees?: IUser[];
+  customFieldValues?: Record<string, CustomFieldValue>;
+  checklistItems?: ITaskChecklistItem[];
+  checklistProgress?: IChecklistProgress;
+  /** Number of unfinished tasks that block this one */
+  openBlockerCount?: number;
+  /** Seconds logged on finished worklogs */
+  timeSpentSeconds?: number;
+}
+
+/**
+ * Outcome for one task of a bulk operation
+ */
+export interface IBulkTaskResult {
+  taskId: string;
+  success: boolean;
+  /** Why the task was left unchanged */
+  error?: string;
+  /** The task after the change; absent for deletions and failures */
+  task?: ITask;
+}
+
+/**
+ * One page of GET /tasks
+ */
+export interface ITaskPage {
+  data: ITask[];
+  /** Tasks matching the filters across all pages */
+  total: number;
+  /** Pass back as `cursor` for the next page; null on the last page */
+  nextCursor: string | null;
+}
+
+export interface ITaskChecklistItem {
+  id: string;
+  taskId: string;
+  title: string;
+  isDone: boolean;
+  position: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IChecklistProgress {
+  done: number;
+  total: number;
+}
+
+export interface ITaskAttachment {
+  id: string;
+  taskId: string;
+  organizationId: string;
+  uploadedById: string | null;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  createdAt: Date;
 }
@@ -5,6 +5,8 @@ export interface IUser {
   email: string;
   firstName?: string;
   lastName?: string;
+  /** When two-factor authentication was turned on (null = off) */
+  mfaEnabledAt?: Date | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -0,0 +1,13 @@
+import { TaskStatus } from '../enums/task-status.enum';
+
+export interface IWorkflowStatus {
+  id: string;
+  organizationId: string;
+  name: string;
+  category: TaskStatus;
+  color: string;
+  position: number;
+  allowedTransitions: string[] | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
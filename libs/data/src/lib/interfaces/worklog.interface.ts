@@ -0,0 +1,30 @@
+import { IUser } from './user.interface';
+import { ITask } from './task.interface';
+
+export type IWorklogTask = Pick<ITask, 'id' | 'title' | 'organizationId'>;
+
+export interface IWorklog {
+  id: string;
+  organizationId: string;
+  taskId: string;
+  userId: string;
+  startedAt: Date;
+  /** Null while the timer is running */
+  endedAt: Date | null;
+  durationSeconds: number | null;
+  note: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  task?: IWorklogTask;
+  user?: IUser;
+}
+
+export interface ITimesheet {
+  userId: string;
+  from: Date;
+  to: Date;
+  /** Seconds logged on each of the seven days starting at `from` */
+  dailySeconds: number[];
+  totalSeconds: number;
+  worklogs: IWorklog[];
+}
@@ -146,8 +146,8 @@ async function createTaskDirectly(
   await dbClient.connect();
 
   const taskResult = await dbClient.query(
-    `INSERT INTO tasks (id, title, status, organization_id, created_at, updated_at)
-     VALUES (gen_random_uuid(), $1, 'TODO', $2, NOW(), NOW())
+    `INSERT INTO tasks (id, title, status, rank, organization_id, created_at, updated_at)
+     VALUES (gen_random_uuid(), $1, 'TODO', 'i', $2, NOW(), NOW())
      RETURNING id`,
     [title, organizationId]
   );